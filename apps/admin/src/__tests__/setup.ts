@@ -38,6 +38,8 @@ vi.mock('next/cache', () => ({
 vi.mock('@/lib/session', () => ({
   getCurrentUser: vi.fn(),
   getCurrentTenant: vi.fn(),
+  getCurrentStaffMember: vi.fn().mockResolvedValue(null),
+  getCurrentRole: vi.fn().mockResolvedValue('owner'),
   requireAuth: vi.fn(),
   requireTenant: vi.fn(),
 }))
@@ -60,6 +62,7 @@ vi.mock('@/lib/rate-limit', () => ({
 vi.mock('@/lib/subscription-check', () => ({
   checkCanAddPiece: vi.fn().mockResolvedValue({ allowed: true }),
   checkCanAddMedia: vi.fn().mockReturnValue({ allowed: true }),
+  checkCanAddTeamMember: vi.fn().mockResolvedValue({ allowed: true }),
   checkFeatureAccess: vi.fn().mockReturnValue({ allowed: true }),
   checkCustomDomainAccess: vi.fn().mockReturnValue({ allowed: true }),
   getSubscriptionSummary: vi.fn().mockResolvedValue({
@@ -121,6 +124,8 @@ vi.mock('@madebuy/db', () => ({
     removeStripeConnect: vi.fn(),
     getTenantsNeedingUsageReset: vi.fn(),
     resetMonthlyUsage: vi.fn(),
+    getAllTenants: vi.fn(),
+    toPublicTenant: vi.fn((tenant) => tenant),
   },
   pieces: {
     getPiece: vi.fn(),
@@ -136,6 +141,9 @@ vi.mock('@madebuy/db', () => ({
     hasStock: vi.fn(),
     countPieces: vi.fn(),
     getLowStockPieces: vi.fn(),
+    decrementStock: vi.fn(),
+    updateStockSafe: vi.fn(),
+    updateVariantStockSafe: vi.fn(),
     bulkUpdateStatus: vi.fn(),
     bulkDelete: vi.fn(),
     exportPieces: vi.fn(),
@@ -153,8 +161,14 @@ vi.mock('@madebuy/db', () => ({
   },
   orders: {
     getOrder: vi.fn(),
+    getOrdersByIds: vi.fn(),
     listOrders: vi.fn(),
     createOrder: vi.fn(),
+    createMarketplaceOrder: vi.fn(),
+    getOrdersInTransit: vi.fn(),
+    getOrdersForReviewRequest: vi.fn(),
+    markReviewRequestSent: vi.fn(),
+    getReviewRequestStats: vi.fn(),
     updateOrder: vi.fn(),
     updateOrderStatus: vi.fn(),
     updateOrderPaymentStatus: vi.fn(),
@@ -170,6 +184,13 @@ vi.mock('@madebuy/db', () => ({
     deleteMaterial: vi.fn(),
     recordMaterialUsage: vi.fn(),
   },
+  suppliers: {
+    createSupplier: vi.fn(),
+    getSupplier: vi.fn(),
+    listSuppliers: vi.fn(),
+    updateSupplier: vi.fn(),
+    deleteSupplier: vi.fn(),
+  },
   blog: {
     getBlogPost: vi.fn(),
     listBlogPosts: vi.fn(),
@@ -221,6 +242,14 @@ vi.mock('@madebuy/db', () => ({
     updateDiscountCode: vi.fn(),
     deleteDiscountCode: vi.fn(),
   },
+  giftCards: {
+    getGiftCard: vi.fn(),
+    listGiftCards: vi.fn(),
+    issueGiftCard: vi.fn(),
+    topUpGiftCard: vi.fn(),
+    voidGiftCard: vi.fn(),
+    getGiftCardStats: vi.fn(),
+  },
   enquiries: {
     getEnquiry: vi.fn(),
     listEnquiries: vi.fn(),
@@ -231,6 +260,16 @@ vi.mock('@madebuy/db', () => ({
     deleteEnquiry: vi.fn(),
     replyToEnquiry: vi.fn(),
   },
+  expenses: {
+    createExpense: vi.fn(),
+    getExpense: vi.fn(),
+    listExpenses: vi.fn(),
+    updateExpense: vi.fn(),
+    deleteExpense: vi.fn(),
+    postInvoiceExpense: vi.fn(),
+    getPurchasesSummary: vi.fn(),
+    getProfitAndLoss: vi.fn(),
+  },
   newsletters: {
     getNewsletter: vi.fn(),
     listNewsletters: vi.fn(),
@@ -279,15 +318,30 @@ vi.mock('@madebuy/db', () => ({
   },
   marketplace: {
     getConnection: vi.fn(),
+    getConnectionByMarketplace: vi.fn(),
     listConnections: vi.fn(),
     createConnection: vi.fn(),
     updateConnection: vi.fn(),
     deleteConnection: vi.fn(),
     getListing: vi.fn(),
+    getListingByPiece: vi.fn(),
+    getListingsByExternalIds: vi.fn(),
+    getListingsNeedingSync: vi.fn(),
     listListings: vi.fn(),
     createListing: vi.fn(),
     updateListing: vi.fn(),
+    updateListingStatus: vi.fn(),
+    markListingSynced: vi.fn(),
     deleteListing: vi.fn(),
+    getOrder: vi.fn(),
+    getOrderByExternalId: vi.fn(),
+    isOrderImported: vi.fn(),
+    createOrder: vi.fn(),
+    updateOrderStatus: vi.fn(),
+    claimOrderLink: vi.fn(),
+    completeOrderLink: vi.fn(),
+    releaseOrderLink: vi.fn(),
+    recordStockDecrement: vi.fn(),
   },
   publish: {
     getPublishRecord: vi.fn(),
@@ -310,7 +364,24 @@ vi.mock('@madebuy/db', () => ({
     updateSlot: vi.fn(),
     deleteSlot: vi.fn(),
     getBookings: vi.fn(),
+    getBookingById: vi.fn(),
+    updateBooking: vi.fn(),
+    cancelBooking: vi.fn(),
+    listBookings: vi.fn(),
     getAvailableSlots: vi.fn(),
+    getSlotsStartingBetween: vi.fn(),
+    getBookingsForReminder: vi.fn(),
+    markReminderSent: vi.fn(),
+    getSlotsBelowMinCapacity: vi.fn(),
+    cancelSlot: vi.fn(),
+    cancelBookingForSlot: vi.fn(),
+    listWaitlist: vi.fn(),
+    removeFromWaitlist: vi.fn(),
+    getWaitlistPromotionsToNotify: vi.fn(),
+    markWaitlistNotified: vi.fn(),
+    createSlotSeries: vi.fn(),
+    updateSlotSeries: vi.fn(),
+    deleteSlotSeries: vi.fn(),
   },
   imports: {
     getImportJob: vi.fn(),
@@ -327,6 +398,16 @@ vi.mock('@madebuy/db', () => ({
     listProductionRuns: vi.fn(),
     createProductionRun: vi.fn(),
     deleteProductionRun: vi.fn(),
+    getProductionQueue: vi.fn(),
+  },
+  purchaseOrders: {
+    generateDraftPurchaseOrders: vi.fn(),
+    getPurchaseOrder: vi.fn(),
+    listPurchaseOrders: vi.fn(),
+    updatePurchaseOrder: vi.fn(),
+    markPurchaseOrderSent: vi.fn(),
+    receivePurchaseOrder: vi.fn(),
+    cancelPurchaseOrder: vi.fn(),
   },
   reconciliations: {
     getReconciliation: vi.fn(),
@@ -337,6 +418,57 @@ vi.mock('@madebuy/db', () => ({
     cancelReconciliation: vi.fn(),
     addItem: vi.fn(),
     updateItem: vi.fn(),
+    recordScan: vi.fn(),
+  },
+  refunds: {
+    getRefundableAmount: vi.fn(),
+    prepareRefund: vi.fn(),
+    reserveRefund: vi.fn(),
+    releaseRefund: vi.fn(),
+    recordRefund: vi.fn(),
+  },
+  returns: {
+    getReturnableQuantity: vi.fn(),
+    createReturnRequest: vi.fn(),
+    getReturn: vi.fn(),
+    listReturns: vi.fn(),
+    approveReturn: vi.fn(),
+    rejectReturn: vi.fn(),
+    markReturnReceived: vi.fn(),
+    setReturnLabel: vi.fn(),
+    markReturnRefunded: vi.fn(),
+  },
+  barcodes: {
+    findByCode: vi.fn(),
+    getLabels: vi.fn(),
+  },
+  locations: {
+    listLocations: vi.fn(),
+    getLocation: vi.fn(),
+    createLocation: vi.fn(),
+    updateLocation: vi.fn(),
+    deleteLocation: vi.fn(),
+    getItemStock: vi.fn(),
+    setLocationQuantity: vi.fn(),
+    transferStock: vi.fn(),
+    listTransfers: vi.fn(),
+    recordSale: vi.fn(),
+  },
+  consignments: {
+    listConsignees: vi.fn(),
+    getConsignee: vi.fn(),
+    createConsignee: vi.fn(),
+    updateConsignee: vi.fn(),
+    deleteConsignee: vi.fn(),
+    listConsigneeSummaries: vi.fn(),
+    listPlacements: vi.fn(),
+    getPlacement: vi.fn(),
+    createPlacement: vi.fn(),
+    recordSale: vi.fn(),
+    recordReturn: vi.fn(),
+    listSales: vi.fn(),
+    listSettlements: vi.fn(),
+    settleConsignee: vi.fn(),
   },
   captionStyles: {
     getCaptionStyle: vi.fn(),
@@ -357,16 +489,31 @@ vi.mock('@madebuy/db', () => ({
   },
   messages: {
     listMessages: vi.fn(),
+    listMessagesByOrder: vi.fn(),
     createMessage: vi.fn(),
+    createOrderAccessToken: vi.fn(),
   },
   transactions: {
     listTransactions: vi.fn(),
     getTransactionSummary: vi.fn(),
     getTenantBalance: vi.fn(),
     exportTransactions: vi.fn(),
+    getTransactionsByStripeIds: vi.fn(),
+  },
+  payouts: {
+    getPayout: vi.fn(),
+    listPayouts: vi.fn(),
+    getPayoutReconciliation: vi.fn(),
+    saveBalanceTransactions: vi.fn(),
   },
   disputes: {
     listDisputes: vi.fn(),
+    getDispute: vi.fn(),
+    getDisputesNeedingResponse: vi.fn(),
+    getDisputeAwaitingEvidence: vi.fn(),
+    saveDisputeEvidence: vi.fn(),
+    markEvidenceSubmitted: vi.fn(),
+    markEvidenceReminderSent: vi.fn(),
   },
   passwordResets: {
     createPasswordResetToken: vi.fn(),
@@ -379,6 +526,50 @@ vi.mock('@madebuy/db', () => ({
   auditLog: {
     logAuditEvent: vi.fn(),
   },
+  teamMembers: {
+    toPublicTeamMember: vi.fn((member) => member),
+    inviteTeamMember: vi.fn(),
+    getTeamMember: vi.fn(),
+    getInvitationByToken: vi.fn(),
+    acceptInvitation: vi.fn(),
+    authenticateTeamMember: vi.fn(),
+    getActiveTeamMember: vi.fn(),
+    listTeamMembers: vi.fn(),
+    countTeamMembers: vi.fn(),
+    updateTeamMemberRole: vi.fn(),
+    removeTeamMember: vi.fn(),
+  },
+  apiKeys: {
+    toPublicApiKey: vi.fn((apiKey) => apiKey),
+    createApiKey: vi.fn(),
+    getApiKeyBySecret: vi.fn(),
+    listApiKeys: vi.fn(),
+    revokeApiKey: vi.fn(),
+    touchApiKey: vi.fn().mockResolvedValue(undefined),
+  },
+  wholesale: {
+    listBuyers: vi.fn(),
+    getBuyer: vi.fn(),
+    createBuyer: vi.fn(),
+    updateBuyer: vi.fn(),
+    deleteBuyer: vi.fn(),
+    createWholesaleOrder: vi.fn(),
+    listWholesaleOrders: vi.fn(),
+    markOrderPaid: vi.fn(),
+  },
+  webhooks: {
+    toPublicWebhookEndpoint: vi.fn((endpoint) => endpoint),
+    createEndpoint: vi.fn(),
+    getEndpoint: vi.fn(),
+    listEndpoints: vi.fn().mockResolvedValue([]),
+    listEndpointsForEvent: vi.fn().mockResolvedValue([]),
+    updateEndpoint: vi.fn(),
+    deleteEndpoint: vi.fn(),
+    createDelivery: vi.fn(),
+    completeDelivery: vi.fn(),
+    getDelivery: vi.fn(),
+    listDeliveries: vi.fn().mockResolvedValue([]),
+  },
   stockReservations: {
     reserveStock: vi.fn(),
     cancelReservation: vi.fn(),
@@ -399,6 +590,8 @@ vi.mock('@madebuy/db', () => ({
   },
   variants: {
     getVariant: vi.fn(),
+    getVariants: vi.fn(),
+    bulkUpdateStock: vi.fn(),
     listVariants: vi.fn(),
     createVariant: vi.fn(),
     updateVariant: vi.fn(),
@@ -411,6 +604,7 @@ vi.mock('@madebuy/db', () => ({
   },
   downloads: {
     getDownload: vi.fn(),
+    getDownloadsForOrder: vi.fn(),
     createDownloadToken: vi.fn(),
     verifyToken: vi.fn(),
   },
@@ -0,0 +1,56 @@
+import { teamMembers, tenants } from '@madebuy/db'
+import { TEAM_ROLE_LABELS } from '@madebuy/shared'
+import Link from 'next/link'
+import { AcceptInviteForm } from '@/components/team/AcceptInviteForm'
+
+export const metadata = {
+  title: 'Accept Invitation | MadeBuy',
+  robots: { index: false, follow: false },
+}
+
+export default async function AcceptInvitePage({
+  params,
+}: {
+  params: { token: string }
+}) {
+  const { token } = params
+  const invitation = await teamMembers.getInvitationByToken(token)
+  const tenant = invitation
+    ? await tenants.getTenantById(invitation.tenantId)
+    : null
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50">
+      <div className="w-full max-w-md">
+        <div className="bg-white px-8 py-10 shadow-lg rounded-lg">
+          <h1 className="text-3xl font-bold text-center mb-2">MadeBuy</h1>
+
+          {invitation && tenant ? (
+            <>
+              <p className="text-gray-600 text-center mb-8">
+                Join <strong>{tenant.businessName}</strong> as{' '}
+                {TEAM_ROLE_LABELS[invitation.role]}
+              </p>
+              <AcceptInviteForm token={token} email={invitation.email} />
+            </>
+          ) : (
+            <>
+              <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded my-6">
+                This invitation is invalid or has expired. Ask the shop owner to
+                send a new one.
+              </div>
+              <div className="text-center">
+                <Link
+                  href="/login"
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Go to sign in
+                </Link>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { consignments, locations, pieces } from '@madebuy/db'
+import { toMinorUnits } from '@madebuy/shared'
+import Link from 'next/link'
+import { ConsigneeManager } from '@/components/consignments/ConsigneeManager'
+import { PlacementManager } from '@/components/consignments/PlacementManager'
+import { requireTenant } from '@/lib/session'
+import { formatCurrency } from '@/lib/utils'
+
+export default async function ConsignmentsPage() {
+  const tenant = await requireTenant()
+  const [summaries, placements, settlements, locationList, piecesResult] =
+    await Promise.all([
+      consignments.listConsigneeSummaries(tenant.id),
+      consignments.listPlacements(tenant.id, { status: 'active' }),
+      consignments.listSettlements(tenant.id),
+      locations.listLocations(tenant.id),
+      pieces.listPieces(tenant.id),
+    ])
+  const allPieces = 'data' in piecesResult ? piecesResult.data : piecesResult
+
+  // Placements and returns use the tenant's own locations, not consignees'
+  const ownLocations = locationList.filter((l) => l.type !== 'consignment')
+  const stockedPieces = allPieces
+    .filter((piece) => (piece.stock ?? 0) > 0)
+    .map((piece) => ({
+      id: piece.id,
+      name: piece.name,
+      // Piece prices are in dollars; placements are in cents
+      price:
+        piece.price !== undefined
+          ? toMinorUnits(piece.price, piece.currency)
+          : undefined,
+    }))
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Consignment</h1>
+        <p className="mt-2 text-gray-600">
+          Pieces in galleries and shops that sell on commission. Placed stock
+          moves to the consignee&apos;s location, so it isn&apos;t sold online.
+        </p>
+      </div>
+
+      {locationList.length === 0 ? (
+        <div className="rounded-lg bg-white p-6 text-sm text-gray-600 shadow">
+          <Link
+            href="/dashboard/inventory/locations"
+            className="text-blue-600 hover:underline"
+          >
+            Add the location you keep stock at
+          </Link>{' '}
+          before adding consignees.
+        </div>
+      ) : (
+        <ConsigneeManager consignees={summaries} />
+      )}
+
+      {summaries.length > 0 && (
+        <div>
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            On consignment
+          </h2>
+          <PlacementManager
+            consignees={summaries.map((s) => s.consignee)}
+            placements={placements}
+            locations={ownLocations}
+            pieces={stockedPieces}
+          />
+        </div>
+      )}
+
+      {settlements.length > 0 && (
+        <div>
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            Payments received
+          </h2>
+          <div className="overflow-hidden rounded-lg bg-white shadow">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">
+                    Consignee
+                  </th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">
+                    Sales
+                  </th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">
+                    Commission
+                  </th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">
+                    Received
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {settlements.map((settlement) => (
+                  <tr key={settlement.id}>
+                    <td className="px-4 py-3 text-gray-600">
+                      {new Date(settlement.settledAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">
+                      {settlement.consigneeName}
+                      {settlement.reference && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {settlement.reference}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {formatCurrency(
+                        settlement.grossAmount / 100,
+                        settlement.currency,
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {formatCurrency(
+                        settlement.commissionAmount / 100,
+                        settlement.currency,
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">
+                      {formatCurrency(
+                        settlement.netAmount / 100,
+                        settlement.currency,
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
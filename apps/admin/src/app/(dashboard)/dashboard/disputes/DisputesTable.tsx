@@ -5,11 +5,11 @@ import {
   AlertTriangle,
   CheckCircle,
   Clock,
-  ExternalLink,
   HelpCircle,
   RefreshCw,
   XCircle,
 } from 'lucide-react'
+import Link from 'next/link'
 
 interface DisputesTableProps {
   disputes: Dispute[]
@@ -21,7 +21,7 @@ interface DisputesTableProps {
  * Key behaviors:
  * - Shows dispute amount, reason, status, and evidence deadline
  * - Status badges indicate urgency
- * - Links directly to Stripe Dashboard for responding
+ * - Links to the evidence workspace for responding
  */
 export function DisputesTable({ disputes }: DisputesTableProps) {
   return (
@@ -91,19 +91,20 @@ export function DisputesTable({ disputes }: DisputesTableProps) {
                 {formatDate(dispute.createdAt)}
               </td>
               <td className="whitespace-nowrap px-6 py-4 text-right">
-                <a
-                  href={`https://dashboard.stripe.com/disputes/${dispute.stripeDisputeId}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <Link
+                  href={`/dashboard/disputes/${dispute.id}`}
                   className={`inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
-                    dispute.status === 'needs_response'
+                    dispute.status === 'needs_response' &&
+                    !dispute.evidenceSubmittedAt
                       ? 'bg-red-600 text-white hover:bg-red-700'
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                   }`}
                 >
-                  {dispute.status === 'needs_response' ? 'Respond' : 'View'}
-                  <ExternalLink className="h-3.5 w-3.5" />
-                </a>
+                  {dispute.status === 'needs_response' &&
+                  !dispute.evidenceSubmittedAt
+                    ? 'Respond'
+                    : 'View'}
+                </Link>
               </td>
             </tr>
           ))}
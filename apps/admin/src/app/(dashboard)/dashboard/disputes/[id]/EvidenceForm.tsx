@@ -0,0 +1,233 @@
+'use client'
+
+import type { DisputeEvidence, DisputeReason } from '@madebuy/shared'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface EvidenceFormProps {
+  disputeId: string
+  reason: DisputeReason
+  initialEvidence: DisputeEvidence
+  readOnly: boolean
+}
+
+interface EvidenceField {
+  key: keyof DisputeEvidence
+  label: string
+  multiline?: boolean
+  hint?: string
+}
+
+const FIELD_GROUPS: { title: string; fields: EvidenceField[] }[] = [
+  {
+    title: 'Customer',
+    fields: [
+      { key: 'customerName', label: 'Name' },
+      { key: 'customerEmailAddress', label: 'Email' },
+      { key: 'billingAddress', label: 'Billing address' },
+    ],
+  },
+  {
+    title: 'Product',
+    fields: [
+      {
+        key: 'productDescription',
+        label: 'What was purchased',
+        multiline: true,
+      },
+    ],
+  },
+  {
+    title: 'Shipping',
+    fields: [
+      { key: 'shippingAddress', label: 'Shipping address' },
+      { key: 'shippingDate', label: 'Shipping date' },
+      { key: 'shippingCarrier', label: 'Carrier' },
+      { key: 'shippingTrackingNumber', label: 'Tracking number' },
+      {
+        key: 'deliveryProof',
+        label: 'Delivery tracking',
+        multiline: true,
+        hint: 'Carrier scans showing the parcel was delivered',
+      },
+    ],
+  },
+  {
+    title: 'Customer activity',
+    fields: [
+      {
+        key: 'customerCommunication',
+        label: 'Messages with the customer',
+        multiline: true,
+      },
+      {
+        key: 'accessActivityLog',
+        label: 'Download log',
+        multiline: true,
+        hint: 'Shows the customer accessed their digital files',
+      },
+    ],
+  },
+  {
+    title: 'Your response',
+    fields: [
+      {
+        key: 'refundPolicyDisclosure',
+        label: 'How the refund policy was shown to the customer',
+        multiline: true,
+      },
+      {
+        key: 'refundRefusalExplanation',
+        label: 'Why the customer is not entitled to a refund',
+        multiline: true,
+      },
+      {
+        key: 'uncategorizedText',
+        label: 'Anything else',
+        multiline: true,
+      },
+    ],
+  },
+]
+
+const REASON_TIPS: Partial<Record<DisputeReason, string>> = {
+  product_not_received:
+    'Delivery tracking matters most here - show the parcel reached the shipping address.',
+  fraudulent:
+    'Show the buyer is real: matching addresses, messages with them and downloads all help.',
+  unrecognized:
+    'Show the buyer knew about this purchase: messages, delivery and downloads all help.',
+  product_unacceptable:
+    'Describe the item as listed and explain why a refund was not given.',
+  credit_not_processed:
+    'Explain your refund policy and why this order was not refunded.',
+  duplicate: 'Explain why the charges are for separate orders.',
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function EvidenceForm({
+  disputeId,
+  reason,
+  initialEvidence,
+  readOnly,
+}: EvidenceFormProps) {
+  const router = useRouter()
+  const [evidence, setEvidence] = useState<DisputeEvidence>(initialEvidence)
+  const [saving, setSaving] = useState<'save' | 'submit' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+
+  async function send(method: 'PUT' | 'POST') {
+    if (
+      method === 'POST' &&
+      !confirm(
+        'Submit this evidence to Stripe? You can only submit once and cannot edit it afterwards.',
+      )
+    ) {
+      return
+    }
+
+    setSaving(method === 'POST' ? 'submit' : 'save')
+    setError(null)
+    try {
+      const res = await fetch(`/api/disputes/${disputeId}/evidence`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ evidence }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to save evidence'))
+      }
+      setSavedAt(new Date())
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save evidence')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && REASON_TIPS[reason] && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-800">
+          {REASON_TIPS[reason]}
+        </div>
+      )}
+
+      {FIELD_GROUPS.map((group) => (
+        <div key={group.title} className="rounded-lg bg-white p-6 shadow">
+          <h2 className="text-lg font-semibold text-gray-900">{group.title}</h2>
+          <div className="mt-4 space-y-4">
+            {group.fields.map((field) => (
+              <label
+                key={field.key}
+                className="block text-sm font-medium text-gray-700"
+              >
+                {field.label}
+                {field.multiline ? (
+                  <textarea
+                    value={evidence[field.key] ?? ''}
+                    onChange={(e) =>
+                      setEvidence({ ...evidence, [field.key]: e.target.value })
+                    }
+                    disabled={readOnly}
+                    rows={4}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-normal disabled:bg-gray-50"
+                  />
+                ) : (
+                  <input
+                    value={evidence[field.key] ?? ''}
+                    onChange={(e) =>
+                      setEvidence({ ...evidence, [field.key]: e.target.value })
+                    }
+                    disabled={readOnly}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-normal disabled:bg-gray-50"
+                  />
+                )}
+                {field.hint && (
+                  <span className="text-xs font-normal text-gray-500">
+                    {field.hint}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            disabled={saving !== null}
+            onClick={() => send('POST')}
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            {saving === 'submit' ? 'Submitting...' : 'Submit to Stripe'}
+          </button>
+          <button
+            type="button"
+            disabled={saving !== null}
+            onClick={() => send('PUT')}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {saving === 'save' ? 'Saving...' : 'Save draft'}
+          </button>
+          {savedAt && !error && (
+            <span className="text-sm text-gray-500">Saved</span>
+          )}
+          {error && <span className="text-sm text-red-600">{error}</span>}
+        </div>
+      )}
+    </div>
+  )
+}
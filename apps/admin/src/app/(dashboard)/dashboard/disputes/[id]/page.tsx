@@ -0,0 +1,173 @@
+import { disputes, downloads, messages, orders } from '@madebuy/db'
+import { ArrowLeft, ExternalLink, MessageSquare, Truck } from 'lucide-react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { buildEvidenceDraft } from '@/lib/dispute-evidence'
+import { requireTenant } from '@/lib/session'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { EvidenceForm } from './EvidenceForm'
+
+export default async function DisputeEvidencePage({
+  params,
+}: {
+  params: { id: string }
+}) {
+  const tenant = await requireTenant()
+  const dispute = await disputes.getDispute(tenant.id, params.id)
+  if (!dispute) {
+    notFound()
+  }
+
+  const order = dispute.orderId
+    ? await orders.getOrder(tenant.id, dispute.orderId)
+    : null
+  const [thread, downloadRecords, evidence] = await Promise.all([
+    order ? messages.listMessagesByOrder(tenant.id, order.id) : [],
+    order?.hasDigitalItems
+      ? downloads.getDownloadsForOrder(tenant.id, order.id)
+      : [],
+    dispute.evidence ?? buildEvidenceDraft(dispute),
+  ])
+  const downloadEvents = downloadRecords.flatMap((record) => record.downloads)
+
+  const canSubmit =
+    dispute.status === 'needs_response' && !dispute.evidenceSubmittedAt
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dashboard/disputes"
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Disputes
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {formatCurrency(dispute.amount / 100, dispute.currency)} dispute
+          </h1>
+          <p className="mt-2 capitalize text-gray-600">
+            {dispute.reason.replace(/_/g, ' ')} -{' '}
+            {dispute.status.replace(/_/g, ' ')}
+          </p>
+          {dispute.evidenceDueBy && canSubmit && (
+            <p className="mt-1 text-sm font-medium text-red-600">
+              Evidence due {formatDateTime(dispute.evidenceDueBy)}
+            </p>
+          )}
+          {dispute.evidenceSubmittedAt && (
+            <p className="mt-1 text-sm text-gray-600">
+              Evidence submitted {formatDateTime(dispute.evidenceSubmittedAt)}
+            </p>
+          )}
+        </div>
+        <a
+          href={`https://dashboard.stripe.com/disputes/${dispute.stripeDisputeId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          View in Stripe
+          <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <EvidenceForm
+            disputeId={dispute.id}
+            reason={dispute.reason}
+            initialEvidence={evidence}
+            readOnly={!canSubmit}
+          />
+        </div>
+
+        <div className="space-y-6">
+          {order ? (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="text-lg font-semibold text-gray-900">Order</h2>
+              <Link
+                href={`/dashboard/orders/${order.id}`}
+                className="mt-2 block text-sm font-medium text-blue-600 hover:underline"
+              >
+                {order.orderNumber}
+              </Link>
+              <p className="text-sm text-gray-600">
+                {order.customerName} - {order.customerEmail}
+              </p>
+              <p className="text-sm text-gray-600">
+                Placed {formatDate(order.createdAt)} -{' '}
+                {formatCurrency(order.total / 100, order.currency)}
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-lg bg-white p-6 text-sm text-gray-600 shadow">
+              This dispute couldn&apos;t be matched to an order, so the evidence
+              starts empty.
+            </div>
+          )}
+
+          {order?.tracking && order.tracking.events.length > 0 && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                <Truck className="h-5 w-5" />
+                Delivery
+              </h2>
+              <ul className="mt-3 space-y-2 text-sm">
+                {order.tracking.events.map((event, index) => (
+                  <li key={index}>
+                    <p className="text-gray-900">{event.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDateTime(event.occurredAt)}
+                      {event.location && ` - ${event.location}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {thread.length > 0 && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                <MessageSquare className="h-5 w-5" />
+                Messages ({thread.length})
+              </h2>
+              <ul className="mt-3 max-h-96 space-y-3 overflow-y-auto text-sm">
+                {thread.map((message) => (
+                  <li key={message.id}>
+                    <p className="text-xs text-gray-500">
+                      {message.senderName} - {formatDateTime(message.createdAt)}
+                    </p>
+                    <p className="whitespace-pre-wrap text-gray-900">
+                      {message.content}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {downloadEvents.length > 0 && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Downloads ({downloadEvents.length})
+              </h2>
+              <ul className="mt-3 space-y-1 text-xs text-gray-600">
+                {downloadEvents.map((event, index) => (
+                  <li key={index}>
+                    {formatDateTime(event.timestamp)} -{' '}
+                    {event.success ? 'downloaded' : 'failed'} from{' '}
+                    {event.ipAddress}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -56,8 +56,8 @@ export default async function DisputesPage() {
               </h3>
               <p className="mt-1 text-sm text-red-700">
                 Submit evidence before the deadline or you will automatically
-                lose the dispute. Click on a dispute to respond via the Stripe
-                Dashboard.
+                lose the dispute. Click Respond to review the evidence
+                we&apos;ve gathered from the order and send it to Stripe.
               </p>
             </div>
           </div>
@@ -0,0 +1,121 @@
+import { expenses } from '@madebuy/db'
+import { getCurrentQuarter, parseQuarter } from '@madebuy/shared'
+import Link from 'next/link'
+import { ExpenseForm } from '@/components/expenses/ExpenseForm'
+import { ExpensesTable } from '@/components/expenses/ExpensesTable'
+import { requireTenant } from '@/lib/session'
+import { formatCurrency } from '@/lib/utils'
+
+interface PageProps {
+  searchParams: {
+    quarter?: string
+  }
+}
+
+function shiftQuarter(quarter: string, delta: number): string {
+  const [year, q] = quarter.split('-Q').map(Number)
+  const index = year * 4 + (q - 1) + delta
+  return `${Math.floor(index / 4)}-Q${(index % 4) + 1}`
+}
+
+export default async function ExpensesPage({ searchParams }: PageProps) {
+  const tenant = await requireTenant()
+  const gstRegistered = Boolean(tenant.taxSettings?.gstRegistered)
+
+  let quarter = searchParams.quarter || getCurrentQuarter()
+  let period = parseQuarter(quarter)
+  if (!period) {
+    quarter = getCurrentQuarter()
+    period = parseQuarter(quarter) as NonNullable<typeof period>
+  }
+
+  const list = await expenses.listExpenses(tenant.id, {
+    startDate: period.startDate,
+    endDate: period.endDate,
+  })
+
+  const totalSpent = list.reduce((sum, expense) => sum + expense.amount, 0)
+  const totalGst = list.reduce((sum, expense) => sum + expense.gstAmount, 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Expenses</h1>
+          <p className="mt-2 text-gray-600">
+            Business costs for your books.{' '}
+            {gstRegistered
+              ? 'GST on these purchases is claimed at 1B on your BAS.'
+              : 'Supplier invoices you confirm from a scan are added automatically.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <Link
+            href={`/dashboard/expenses?quarter=${shiftQuarter(quarter, -1)}`}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1.5 hover:bg-gray-50"
+          >
+            Previous
+          </Link>
+          <span className="px-2 font-medium text-gray-900">
+            {period.year} Q{period.quarter}
+          </span>
+          <Link
+            href={`/dashboard/expenses?quarter=${shiftQuarter(quarter, 1)}`}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1.5 hover:bg-gray-50"
+          >
+            Next
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">Total spent</p>
+          <p className="mt-1 text-2xl font-bold text-gray-900">
+            {formatCurrency(totalSpent / 100)}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">GST credits</p>
+          <p className="mt-1 text-2xl font-bold text-gray-900">
+            {formatCurrency(totalGst / 100)}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">Expenses</p>
+          <p className="mt-1 text-2xl font-bold text-gray-900">{list.length}</p>
+        </div>
+      </div>
+
+      <ExpenseForm
+        gstRegistered={gstRegistered}
+        gstRate={tenant.taxSettings?.gstRate || 10}
+      />
+
+      <ExpensesTable expenses={list} />
+
+      <p className="text-sm text-gray-500">
+        See your profit and loss on the{' '}
+        <Link
+          href="/dashboard/ledger"
+          className="text-blue-600 hover:underline"
+        >
+          ledger
+        </Link>
+        {gstRegistered && (
+          <>
+            {' '}
+            and your BAS figures in the{' '}
+            <Link
+              href="/dashboard/reports/gst"
+              className="text-blue-600 hover:underline"
+            >
+              GST report
+            </Link>
+          </>
+        )}
+        .
+      </p>
+    </div>
+  )
+}
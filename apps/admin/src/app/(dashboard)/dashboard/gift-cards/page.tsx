@@ -0,0 +1,431 @@
+'use client'
+
+import type { GiftCard, GiftCardStats } from '@madebuy/shared'
+import { fromMinorUnits } from '@madebuy/shared'
+import { Ban, CreditCard, Plus, PlusCircle, X } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+const STATUS_STYLES: Record<GiftCard['status'], string> = {
+  active: 'bg-green-100 text-green-700',
+  depleted: 'bg-gray-100 text-gray-600',
+  voided: 'bg-red-100 text-red-700',
+}
+
+function formatBalance(amount: number, currency?: string) {
+  return formatCurrency(fromMinorUnits(amount, currency || 'AUD'), currency)
+}
+
+export default function GiftCardsPage() {
+  const [cards, setCards] = useState<GiftCard[]>([])
+  const [stats, setStats] = useState<GiftCardStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showIssueForm, setShowIssueForm] = useState(false)
+  const [issuing, setIssuing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState({
+    amount: '',
+    recipientName: '',
+    recipientEmail: '',
+    expiresAt: '',
+    note: '',
+  })
+
+  const fetchCards = useCallback(async () => {
+    try {
+      const res = await fetch('/api/gift-cards?limit=100')
+      const data = await res.json()
+      setCards(data.items || [])
+    } catch (error) {
+      console.error('Failed to fetch gift cards:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const res = await fetch('/api/gift-cards/stats')
+      const data = await res.json()
+      setStats(data)
+    } catch (error) {
+      console.error('Failed to fetch stats:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCards()
+    fetchStats()
+  }, [fetchCards, fetchStats])
+
+  function refresh() {
+    fetchCards()
+    fetchStats()
+  }
+
+  async function issueCard(e: React.FormEvent) {
+    e.preventDefault()
+    setIssuing(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/gift-cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: parseFloat(form.amount),
+          recipientName: form.recipientName || undefined,
+          recipientEmail: form.recipientEmail || undefined,
+          expiresAt: form.expiresAt || undefined,
+          note: form.note || undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to issue gift card')
+      }
+
+      setForm({
+        amount: '',
+        recipientName: '',
+        recipientEmail: '',
+        expiresAt: '',
+        note: '',
+      })
+      setShowIssueForm(false)
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue gift card')
+    } finally {
+      setIssuing(false)
+    }
+  }
+
+  async function topUpCard(card: GiftCard) {
+    const input = window.prompt(`Top up ${card.code} by how much?`)
+    if (!input) return
+
+    const amount = parseFloat(input)
+    if (!(amount > 0)) {
+      alert('Enter an amount greater than zero')
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/gift-cards/${card.id}/top-up`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert(data.error || 'Failed to top up gift card')
+      }
+      refresh()
+    } catch (error) {
+      console.error('Failed to top up gift card:', error)
+    }
+  }
+
+  async function voidCard(card: GiftCard) {
+    if (
+      !confirm(
+        `Void ${card.code}? The remaining ${formatBalance(card.balance, card.currency)} can no longer be redeemed.`,
+      )
+    )
+      return
+
+    try {
+      await fetch(`/api/gift-cards/${card.id}/void`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+      refresh()
+    } catch (error) {
+      console.error('Failed to void gift card:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Gift Cards</h1>
+          <p className="text-gray-500 mt-1">
+            Issue, top up and void gift cards and store credit
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowIssueForm(!showIssueForm)}
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+        >
+          {showIssueForm ? (
+            <X className="h-4 w-4" />
+          ) : (
+            <Plus className="h-4 w-4" />
+          )}
+          {showIssueForm ? 'Cancel' : 'Issue Gift Card'}
+        </button>
+      </div>
+
+      {/* Issue Form */}
+      {showIssueForm && (
+        <form
+          onSubmit={issueCard}
+          className="bg-white rounded-xl border border-gray-200 p-6 space-y-4"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="amount"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Amount *
+              </label>
+              <input
+                id="amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                required
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="expiresAt"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Expires
+              </label>
+              <input
+                id="expiresAt"
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) =>
+                  setForm({ ...form, expiresAt: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="recipientName"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Recipient Name
+              </label>
+              <input
+                id="recipientName"
+                type="text"
+                value={form.recipientName}
+                onChange={(e) =>
+                  setForm({ ...form, recipientName: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="recipientEmail"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Recipient Email
+              </label>
+              <input
+                id="recipientEmail"
+                type="email"
+                value={form.recipientEmail}
+                onChange={(e) =>
+                  setForm({ ...form, recipientEmail: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="note"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Internal Note
+            </label>
+            <input
+              id="note"
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              placeholder="e.g. Store credit for returned order #1042"
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={issuing}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {issuing ? 'Issuing...' : 'Issue Gift Card'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Stats */}
+      {stats && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="bg-white rounded-xl p-4 border border-gray-200">
+            <p className="text-sm text-gray-500">Total Cards</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              {stats.totalCards}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl p-4 border border-gray-200">
+            <p className="text-sm text-gray-500">Active</p>
+            <p className="text-2xl font-bold text-green-600 mt-1">
+              {stats.activeCards}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl p-4 border border-gray-200">
+            <p className="text-sm text-gray-500">Outstanding Balance</p>
+            <p className="text-2xl font-bold text-blue-600 mt-1">
+              {formatBalance(stats.outstandingBalance, cards[0]?.currency)}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl p-4 border border-gray-200">
+            <p className="text-sm text-gray-500">Redeemed</p>
+            <p className="text-2xl font-bold text-purple-600 mt-1">
+              {formatBalance(stats.redeemedAmount, cards[0]?.currency)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Gift Card List */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        {cards.length === 0 ? (
+          <div className="p-12 text-center">
+            <CreditCard className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No gift cards yet
+            </h3>
+            <p className="text-gray-500">
+              Issue a card here, or mark a product as a gift card to sell them
+              in your shop.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Source
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expires
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {cards.map((card) => (
+                  <tr key={card.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-4">
+                      <span className="font-mono font-medium text-gray-900 bg-gray-100 px-2 py-1 rounded">
+                        {card.code}
+                      </span>
+                      {(card.recipientName || card.recipientEmail) && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          {card.recipientName || card.recipientEmail}
+                        </p>
+                      )}
+                      {card.note && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {card.note}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className="text-sm font-medium text-gray-900">
+                        {formatBalance(card.balance, card.currency)}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        {' '}
+                        / {formatBalance(card.initialBalance, card.currency)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className="text-sm text-gray-600">
+                        {card.source === 'purchase' ? 'Purchased' : 'Issued'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4">
+                      <span className="text-sm text-gray-600">
+                        {card.expiresAt ? formatDate(card.expiresAt) : 'Never'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold capitalize ${STATUS_STYLES[card.status]}`}
+                      >
+                        {card.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4 text-right">
+                      {card.status !== 'voided' && (
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => topUpCard(card)}
+                            title="Top up"
+                            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          >
+                            <PlusCircle className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => voidCard(card)}
+                            title="Void"
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
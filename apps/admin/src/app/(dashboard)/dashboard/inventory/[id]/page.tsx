@@ -1,10 +1,20 @@
-import { materials, pieces, productionRuns } from '@madebuy/db'
+import {
+  locations,
+  materials,
+  pieces,
+  productionRuns,
+  variants,
+} from '@madebuy/db'
 import { ArrowLeft, Package } from 'lucide-react'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { DigitalProductSection } from '@/components/inventory/DigitalProductSection'
+import { GiftCardSection } from '@/components/inventory/GiftCardSection'
+import { LocationStockSection } from '@/components/inventory/LocationStockSection'
 import { PersonalizationConfigEditor } from '@/components/inventory/PersonalizationConfigEditor'
 import { PieceDetailsEditor } from '@/components/inventory/PieceDetailsEditor'
+import { PreorderSection } from '@/components/inventory/PreorderSection'
+import { PrintLabelsButton } from '@/components/inventory/PrintLabelsButton'
 import { ProductionSection } from '@/components/production/ProductionSection'
 import { requireTenant } from '@/lib/session'
 
@@ -24,10 +34,43 @@ export default async function PieceDetailPage({
   }
 
   // Fetch materials and production history for production section
-  const [materialsResult, runs] = await Promise.all([
-    materials.listMaterials(tenant.id, {}, { limit: 500 }),
-    productionRuns.getProductionRunsForPiece(tenant.id, id, 10),
-  ])
+  const [materialsResult, runs, pieceVariants, locationList] =
+    await Promise.all([
+      materials.listMaterials(tenant.id, {}, { limit: 500 }),
+      productionRuns.getProductionRunsForPiece(tenant.id, id, 10),
+      variants.getVariants(tenant.id, id),
+      locations.listLocations(tenant.id),
+    ])
+
+  // Variants each get their own label; otherwise one for the piece
+  const labelItems =
+    pieceVariants.length > 0
+      ? pieceVariants.map((variant) => ({
+          itemType: 'variant' as const,
+          itemId: variant.id,
+        }))
+      : [{ itemType: 'piece' as const, itemId: piece.id }]
+
+  // Stock by location - per variant, or for the piece when it tracks stock
+  const tracksStock = pieceVariants.length > 0 || piece.stock !== undefined
+  const locationStock =
+    locationList.length > 0 && tracksStock
+      ? await Promise.all(
+          labelItems.map(async (item) => {
+            const variant = pieceVariants.find((v) => v.id === item.itemId)
+            return {
+              label: variant
+                ? Object.values(variant.attributes).join(' / ')
+                : piece.name,
+              stock: await locations.getItemStock(
+                tenant.id,
+                item.itemType,
+                item.itemId,
+              ),
+            }
+          }),
+        )
+      : []
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -41,7 +84,15 @@ export default async function PieceDetailPage({
           Back to Inventory
         </Link>
 
-        <h1 className="text-2xl font-bold text-gray-900">{piece.name}</h1>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold text-gray-900">{piece.name}</h1>
+          <PrintLabelsButton
+            items={labelItems}
+            label={
+              pieceVariants.length > 0 ? 'Print variant labels' : 'Print labels'
+            }
+          />
+        </div>
       </div>
 
       <div className="space-y-6">
@@ -58,9 +109,27 @@ export default async function PieceDetailPage({
           <PieceDetailsEditor piece={piece} />
         </div>
 
+        {/* Stock by Location */}
+        {tracksStock && (
+          <LocationStockSection
+            items={locationStock}
+            locations={locationList}
+          />
+        )}
+
         {/* Digital Product */}
         <DigitalProductSection pieceId={piece.id} digital={piece.digital} />
 
+        {/* Gift Card */}
+        <GiftCardSection pieceId={piece.id} giftCard={piece.giftCard} />
+
+        {/* Pre-order / Made to Order */}
+        <PreorderSection
+          pieceId={piece.id}
+          preorder={piece.preorder}
+          outstanding={piece.preorderOutstanding}
+        />
+
         {/* Production Section */}
         <ProductionSection
           piece={piece}
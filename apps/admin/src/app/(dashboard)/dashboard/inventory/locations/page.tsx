@@ -0,0 +1,80 @@
+import { locations } from '@madebuy/db'
+import { ArrowLeft, ArrowRight } from 'lucide-react'
+import Link from 'next/link'
+import { LocationManager } from '@/components/inventory/LocationManager'
+import { requireTenant } from '@/lib/session'
+
+export default async function LocationsPage() {
+  const tenant = await requireTenant()
+  const [locationList, transfers] = await Promise.all([
+    locations.listLocations(tenant.id),
+    locations.listTransfers(tenant.id, { limit: 20 }),
+  ])
+
+  return (
+    <div>
+      <Link
+        href="/dashboard/inventory"
+        className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Inventory
+      </Link>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Locations</h1>
+        <p className="mt-2 text-gray-600">
+          Where you keep stock. Move stock between locations from a piece or
+          material&apos;s page.
+        </p>
+      </div>
+
+      <LocationManager locations={locationList} />
+
+      {transfers.length > 0 && (
+        <div className="mt-8">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            Recent transfers
+          </h2>
+          <div className="overflow-hidden rounded-lg bg-white shadow">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">
+                    Date
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">
+                    Moved
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">
+                    Items
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {transfers.map((transfer) => (
+                  <tr key={transfer.id}>
+                    <td className="px-4 py-3 text-gray-600">
+                      {new Date(transfer.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">
+                      <span className="inline-flex items-center gap-1">
+                        {transfer.fromLocationName}
+                        <ArrowRight className="h-3 w-3 text-gray-400" />
+                        {transfer.toLocationName}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {transfer.items
+                        .map((item) => `${item.quantity} × ${item.name}`)
+                        .join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
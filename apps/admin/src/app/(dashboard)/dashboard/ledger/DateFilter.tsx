@@ -1,6 +1,6 @@
 'use client'
 
-import { Download, FileText, Filter, X } from 'lucide-react'
+import { BookOpen, Download, FileText, Filter, X } from 'lucide-react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useCallback, useMemo, useState } from 'react'
 
@@ -11,6 +11,9 @@ const TRANSACTION_TYPES = [
   { value: 'payout', label: 'Payouts' },
   { value: 'fee', label: 'Fees' },
   { value: 'subscription', label: 'Subscriptions' },
+  { value: 'gift_card', label: 'Gift Cards' },
+  { value: 'consignment', label: 'Consignment' },
+  { value: 'wholesale', label: 'Wholesale' },
 ]
 
 export function DateFilter() {
@@ -115,6 +118,18 @@ export function DateFilter() {
     window.location.href = `/api/transactions/export?${params.toString()}`
   }, [startDate, endDate, txType])
 
+  const exportJournals = useCallback(
+    (format: 'xero' | 'myob') => {
+      // Journals cover every money movement, so the type filter is not applied
+      const params = new URLSearchParams({ format })
+      if (startDate) params.set('startDate', startDate)
+      if (endDate) params.set('endDate', endDate)
+
+      window.location.href = `/api/accounting/export?${params.toString()}`
+    },
+    [startDate, endDate],
+  )
+
   return (
     <div className="flex flex-wrap items-end gap-3">
       <div>
@@ -210,6 +225,28 @@ export function DateFilter() {
           Export CSV
         </button>
 
+        {/* Journal exports for accounting software */}
+        <div className="flex items-end gap-2">
+          <button
+            type="button"
+            onClick={() => exportJournals('xero')}
+            title="Manual journal CSV for Xero"
+            className="inline-flex items-center gap-2 rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-300 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <BookOpen className="h-4 w-4" />
+            Xero Journals
+          </button>
+          <button
+            type="button"
+            onClick={() => exportJournals('myob')}
+            title="General journal import file for MYOB"
+            className="inline-flex items-center gap-2 rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-300 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <BookOpen className="h-4 w-4" />
+            MYOB Journals
+          </button>
+        </div>
+
         {/* Statement Download */}
         <div className="flex items-end gap-2">
           <div>
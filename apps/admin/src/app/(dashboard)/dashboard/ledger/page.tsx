@@ -1,9 +1,16 @@
-import { transactions } from '@madebuy/db'
+import { expenses, transactions } from '@madebuy/db'
 import type {
+  ProfitAndLoss,
   TransactionFilters,
   TransactionStatus,
   TransactionType,
 } from '@madebuy/shared'
+import {
+  EXPENSE_CATEGORY_LABELS,
+  getCurrentQuarter,
+  getTenantCurrency,
+  parseQuarter,
+} from '@madebuy/shared'
 import {
   ArrowDownRight,
   ArrowUpRight,
@@ -49,19 +56,32 @@ export default async function LedgerPage({ searchParams }: PageProps) {
     filters.type = searchParams.type as TransactionType
   }
 
+  // Profit and loss covers the filtered dates, or this quarter to date
+  const currentQuarter = parseQuarter(getCurrentQuarter())
+  const profitStart =
+    filters.startDate || currentQuarter?.startDate || new Date()
+  const profitEnd = filters.endDate || new Date()
+
   // Fetch balance and transactions in parallel
   // Pass filters to balance so summary cards update with the filter
-  const [balance, allTransactions, totalCount] = await Promise.all([
-    transactions.getTenantBalance(tenant.id, filters),
-    transactions.listTransactions(tenant.id, {
-      filters,
-      limit: PAGE_SIZE,
-      offset,
-      sortBy: 'createdAt',
-      sortOrder: 'desc',
-    }),
-    transactions.countTransactions(tenant.id, filters),
-  ])
+  const [balance, allTransactions, totalCount, profitAndLoss] =
+    await Promise.all([
+      transactions.getTenantBalance(tenant.id, filters),
+      transactions.listTransactions(tenant.id, {
+        filters,
+        limit: PAGE_SIZE,
+        offset,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      }),
+      transactions.countTransactions(tenant.id, filters),
+      expenses.getProfitAndLoss(
+        tenant.id,
+        profitStart,
+        profitEnd,
+        getTenantCurrency(tenant),
+      ),
+    ])
 
   const totalPages = Math.ceil(totalCount / PAGE_SIZE)
 
@@ -120,6 +140,11 @@ export default async function LedgerPage({ searchParams }: PageProps) {
         />
       </div>
 
+      <ProfitAndLossCard
+        profitAndLoss={profitAndLoss}
+        isFiltered={Boolean(filters.startDate || filters.endDate)}
+      />
+
       {allTransactions.length === 0 ? (
         <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
           <BookOpen className="mx-auto h-12 w-12 text-gray-400" />
@@ -324,6 +349,9 @@ function getDefaultDescription(type: TransactionType): string {
     payout: 'Payout to bank',
     fee: 'Platform fee',
     subscription: 'Subscription payment',
+    gift_card: 'Gift card',
+    consignment: 'Consignment settlement',
+    wholesale: 'Wholesale invoice payment',
   }
   return descriptions[type]
 }
@@ -365,6 +393,102 @@ function BalanceCard({
   )
 }
 
+function ProfitAndLossCard({
+  profitAndLoss,
+  isFiltered,
+}: {
+  profitAndLoss: ProfitAndLoss
+  isFiltered: boolean
+}) {
+  // P&L figures are in cents
+  const money = (cents: number) =>
+    formatCurrency(cents / 100, profitAndLoss.currency)
+
+  return (
+    <div className="mb-6 rounded-lg bg-white shadow">
+      <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Profit &amp; Loss
+          </h2>
+          <p className="text-sm text-gray-500">
+            {isFiltered ? 'For the selected dates' : 'This quarter to date'},
+            excluding GST
+          </p>
+        </div>
+        <Link
+          href="/dashboard/expenses"
+          className="text-sm font-medium text-blue-600 hover:underline"
+        >
+          Record expenses
+        </Link>
+      </div>
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          <tr>
+            <td className="px-6 py-2 text-gray-600">Sales</td>
+            <td className="px-6 py-2 text-right text-gray-900">
+              {money(profitAndLoss.sales)}
+            </td>
+          </tr>
+          <tr>
+            <td className="px-6 py-2 text-gray-600">Less refunds</td>
+            <td className="px-6 py-2 text-right text-red-600">
+              -{money(profitAndLoss.refunds)}
+            </td>
+          </tr>
+          <tr className="bg-gray-50 font-medium">
+            <td className="px-6 py-2 text-gray-900">Net sales</td>
+            <td className="px-6 py-2 text-right text-gray-900">
+              {money(profitAndLoss.netSales)}
+            </td>
+          </tr>
+          <tr>
+            <td className="px-6 py-2 text-gray-600">Payment processing fees</td>
+            <td className="px-6 py-2 text-right text-red-600">
+              -{money(profitAndLoss.paymentFees)}
+            </td>
+          </tr>
+          {profitAndLoss.commission > 0 && (
+            <tr>
+              <td className="px-6 py-2 text-gray-600">
+                Consignment commission
+              </td>
+              <td className="px-6 py-2 text-right text-red-600">
+                -{money(profitAndLoss.commission)}
+              </td>
+            </tr>
+          )}
+          {profitAndLoss.expenses.map((expense) => (
+            <tr key={expense.category}>
+              <td className="px-6 py-2 text-gray-600">
+                {EXPENSE_CATEGORY_LABELS[expense.category]}
+              </td>
+              <td className="px-6 py-2 text-right text-red-600">
+                -{money(expense.amount)}
+              </td>
+            </tr>
+          ))}
+          <tr className="bg-gray-50 font-medium">
+            <td className="px-6 py-2 text-gray-900">Total expenses</td>
+            <td className="px-6 py-2 text-right text-gray-900">
+              {money(profitAndLoss.totalExpenses)}
+            </td>
+          </tr>
+          <tr className="border-t-2 border-gray-300 font-bold">
+            <td className="px-6 py-3 text-gray-900">Net profit</td>
+            <td
+              className={`px-6 py-3 text-right ${profitAndLoss.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}
+            >
+              {money(profitAndLoss.netProfit)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 function TransactionTypeBadge({ type }: { type: TransactionType }) {
   const colors = {
     sale: 'bg-green-100 text-green-800',
@@ -372,6 +496,9 @@ function TransactionTypeBadge({ type }: { type: TransactionType }) {
     payout: 'bg-blue-100 text-blue-800',
     fee: 'bg-gray-100 text-gray-800',
     subscription: 'bg-purple-100 text-purple-800',
+    gift_card: 'bg-pink-100 text-pink-800',
+    consignment: 'bg-teal-100 text-teal-800',
+    wholesale: 'bg-indigo-100 text-indigo-800',
   }
 
   const labels = {
@@ -380,6 +507,9 @@ function TransactionTypeBadge({ type }: { type: TransactionType }) {
     payout: 'Payout',
     fee: 'Fee',
     subscription: 'Subscription',
+    gift_card: 'Gift Card',
+    consignment: 'Consignment',
+    wholesale: 'Wholesale',
   }
 
   return (
@@ -1,9 +1,11 @@
-import { materials } from '@madebuy/db'
+import { locations, materialLots, materials } from '@madebuy/db'
 import { ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
 import { notFound, redirect } from 'next/navigation'
+import { LocationStockSection } from '@/components/inventory/LocationStockSection'
 import { MaterialForm } from '@/components/materials/MaterialForm'
 import { getCurrentTenant } from '@/lib/session'
+import { formatCurrency } from '@/lib/utils'
 
 interface PageProps {
   params: {
@@ -22,6 +24,24 @@ export default async function MaterialDetailPage({ params }: PageProps) {
     notFound()
   }
 
+  const [lots, locationList] = await Promise.all([
+    materialLots.listLots(tenant.id, material.id),
+    locations.listLocations(tenant.id),
+  ])
+  const locationStock =
+    locationList.length > 0
+      ? [
+          {
+            label: material.name,
+            stock: await locations.getItemStock(
+              tenant.id,
+              'material',
+              material.id,
+            ),
+          },
+        ]
+      : []
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-6">
@@ -47,6 +67,63 @@ export default async function MaterialDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      <div className="mt-6">
+        <LocationStockSection
+          items={locationStock}
+          locations={locationList}
+          unit={material.unit}
+        />
+      </div>
+
+      {lots.length > 0 && (
+        <div className="mt-6 bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Stock Lots</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Production uses the oldest stock first, at the price it was bought
+              for
+            </p>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Received
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Source
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Remaining
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Cost per {material.unit}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lots.map((lot) => (
+                <tr key={lot.id}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {new Date(lot.receivedAt).toLocaleDateString('en-AU')}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-600 capitalize">
+                    {lot.source.replace('_', ' ')}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                    {lot.quantityRemaining} / {lot.quantityReceived}{' '}
+                    {material.unit}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                    {formatCurrency(lot.costPerUnit, material.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {material.invoiceIds && material.invoiceIds.length > 0 && (
         <div className="mt-6 bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -1,6 +1,13 @@
 import { materials } from '@madebuy/db'
-import { AlertTriangle, BarChart3, FileText, Plus } from 'lucide-react'
+import {
+  AlertTriangle,
+  BarChart3,
+  ClipboardList,
+  FileText,
+  Plus,
+} from 'lucide-react'
 import Link from 'next/link'
+import { PrintLabelsButton } from '@/components/inventory/PrintLabelsButton'
 import { DeleteMaterialButton } from '@/components/materials/DeleteMaterialButton'
 import { StockCountButton } from '@/components/reconciliation/StockCountButton'
 import { requireTenant } from '@/lib/session'
@@ -23,6 +30,12 @@ export default async function MaterialsPage() {
         </div>
         <div className="flex items-center gap-3">
           <StockCountButton materials={allMaterials} />
+          <PrintLabelsButton
+            items={allMaterials.map((material) => ({
+              itemType: 'material' as const,
+              itemId: material.id,
+            }))}
+          />
           <Link
             href="/dashboard/materials/report"
             className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
@@ -30,6 +43,13 @@ export default async function MaterialsPage() {
             <BarChart3 className="h-4 w-4" />
             View Report
           </Link>
+          <Link
+            href="/dashboard/materials/purchase-orders"
+            className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <ClipboardList className="h-4 w-4" />
+            Purchase Orders
+          </Link>
           <Link
             href="/dashboard/materials/invoice-scan"
             className="flex items-center gap-2 rounded-lg border border-blue-600 bg-blue-50 px-4 py-2 text-sm font-medium text-blue-700 hover:bg-blue-100"
@@ -0,0 +1,30 @@
+import { purchaseOrders } from '@madebuy/db'
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { PurchaseOrderList } from '@/components/materials/PurchaseOrderList'
+import { requireTenant } from '@/lib/session'
+
+export default async function PurchaseOrdersPage() {
+  const tenant = await requireTenant()
+  const list = await purchaseOrders.listPurchaseOrders(tenant.id)
+
+  return (
+    <div>
+      <Link
+        href="/dashboard/materials"
+        className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Materials
+      </Link>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+        <p className="mt-2 text-gray-600">
+          Reorder low stock materials from your suppliers
+        </p>
+      </div>
+
+      <PurchaseOrderList purchaseOrders={list} />
+    </div>
+  )
+}
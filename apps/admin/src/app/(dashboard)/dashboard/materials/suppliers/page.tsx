@@ -0,0 +1,30 @@
+import { suppliers } from '@madebuy/db'
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { SupplierManager } from '@/components/materials/SupplierManager'
+import { requireTenant } from '@/lib/session'
+
+export default async function SuppliersPage() {
+  const tenant = await requireTenant()
+  const supplierList = await suppliers.listSuppliers(tenant.id)
+
+  return (
+    <div>
+      <Link
+        href="/dashboard/materials"
+        className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Materials
+      </Link>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Suppliers</h1>
+        <p className="mt-2 text-gray-600">
+          Who you buy materials from, and their ordering terms
+        </p>
+      </div>
+
+      <SupplierManager suppliers={supplierList} />
+    </div>
+  )
+}
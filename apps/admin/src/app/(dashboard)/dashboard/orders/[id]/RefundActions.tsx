@@ -0,0 +1,323 @@
+'use client'
+
+import type { CreateRefundInput, OrderRefund } from '@madebuy/shared'
+import {
+  fromMinorUnits,
+  isZeroDecimalCurrency,
+  toMinorUnits,
+} from '@madebuy/shared'
+import { RotateCcw } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+interface RefundableItem {
+  pieceId: string
+  variantId?: string
+  name: string
+  price: number // Minor units (cents)
+  refundable: number // Quantity not yet refunded
+}
+
+interface RefundActionsProps {
+  orderId: string
+  currency: string
+  paymentMethod: string
+  shipping: number // Minor units (cents)
+  refundableAmount: number // Minor units (cents)
+  items: RefundableItem[]
+  refunds: OrderRefund[]
+  openReturn?: {
+    id: string
+    rmaNumber: string
+    status: string
+  }
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  stripe: 'Stripe',
+  paypal: 'PayPal',
+  manual: 'Recorded manually',
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function RefundActions({
+  orderId,
+  currency,
+  paymentMethod,
+  shipping,
+  refundableAmount,
+  items,
+  refunds,
+  openReturn,
+}: RefundActionsProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [quantities, setQuantities] = useState<Record<number, number>>({})
+  const [includeShipping, setIncludeShipping] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [restock, setRestock] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedItems = items
+    .map((item, index) => ({ item, quantity: quantities[index] || 0 }))
+    .filter(({ quantity }) => quantity > 0)
+  const itemsTotal =
+    selectedItems.reduce(
+      (sum, { item, quantity }) => sum + item.price * quantity,
+      0,
+    ) + (includeShipping ? shipping : 0)
+  const suggestedAmount = Math.min(refundableAmount, itemsTotal)
+
+  async function submitRefund(body: CreateRefundInput, confirmMessage: string) {
+    if (!confirm(confirmMessage)) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/orders/${orderId}/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to refund order'))
+      }
+      setOpen(false)
+      setQuantities({})
+      setAmount('')
+      setReason('')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refund order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    const refundAmount = amount
+      ? toMinorUnits(parseFloat(amount), currency)
+      : suggestedAmount
+    submitRefund(
+      {
+        items: selectedItems.map(({ item, quantity }) => ({
+          pieceId: item.pieceId,
+          variantId: item.variantId,
+          quantity,
+        })),
+        amount: amount ? refundAmount : undefined,
+        includeShipping,
+        reason: reason || undefined,
+        restock: restock && (selectedItems.length > 0 || !!openReturn),
+        returnId: openReturn?.id,
+      },
+      `Refund ${formatCurrency(fromMinorUnits(refundAmount, currency), currency)}?`,
+    )
+  }
+
+  const providerNote =
+    paymentMethod === 'stripe' || paymentMethod === 'paypal'
+      ? `The buyer is refunded through ${PROVIDER_LABELS[paymentMethod]}.`
+      : 'Pay the buyer back yourself - this records the refund.'
+
+  return (
+    <div className="space-y-4">
+      {refunds.length > 0 && (
+        <div className="space-y-2">
+          {refunds.map((refund) => (
+            <div key={refund.id} className="text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  {formatDate(refund.createdAt)} -{' '}
+                  {PROVIDER_LABELS[refund.provider]}
+                </span>
+                <span className="font-medium text-orange-700">
+                  -
+                  {formatCurrency(
+                    fromMinorUnits(refund.amount, currency),
+                    currency,
+                  )}
+                </span>
+              </div>
+              {refund.items.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {refund.items
+                    .map((item) => `${item.quantity}x ${item.name}`)
+                    .join(', ')}
+                  {refund.restocked && ' - restocked'}
+                </p>
+              )}
+              {refund.reason && (
+                <p className="text-xs text-gray-500">{refund.reason}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {refundableAmount <= 0 ? (
+        <p className="text-sm text-gray-500">Fully refunded.</p>
+      ) : !open ? (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setError(null)
+              setOpen(true)
+            }}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Refund
+          </button>
+          {openReturn && (
+            <span className="self-center text-xs text-gray-500">
+              Refunding closes return {openReturn.rmaNumber}
+            </span>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {items.map((item, index) =>
+            item.refundable > 0 ? (
+              <label
+                key={index}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="min-w-0 truncate text-gray-700">
+                  {item.name}
+                </span>
+                <select
+                  value={quantities[index] || 0}
+                  onChange={(e) =>
+                    setQuantities({
+                      ...quantities,
+                      [index]: Number(e.target.value),
+                    })
+                  }
+                  className="rounded-lg border border-gray-300 px-2 py-1"
+                >
+                  {Array.from({ length: item.refundable + 1 }, (_, qty) => (
+                    <option key={qty} value={qty}>
+                      {qty}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null,
+          )}
+
+          {shipping > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeShipping}
+                onChange={(e) => setIncludeShipping(e.target.checked)}
+              />
+              Refund shipping (
+              {formatCurrency(fromMinorUnits(shipping, currency), currency)})
+            </label>
+          )}
+
+          <label className="block text-sm font-medium text-gray-700">
+            Amount
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={fromMinorUnits(suggestedAmount, currency).toFixed(
+                isZeroDecimalCurrency(currency) ? 0 : 2,
+              )}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+            />
+            <span className="text-xs font-normal text-gray-500">
+              Up to{' '}
+              {formatCurrency(
+                fromMinorUnits(refundableAmount, currency),
+                currency,
+              )}
+              . Leave blank to refund the chosen items.
+            </span>
+          </label>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Reason
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={restock}
+              onChange={(e) => setRestock(e.target.checked)}
+            />
+            Put refunded items back in stock
+          </label>
+
+          <p className="text-xs text-gray-500">{providerNote}</p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="submit"
+              disabled={saving || (!amount && suggestedAmount <= 0)}
+              className="rounded-lg bg-orange-600 px-4 py-2 text-sm text-white hover:bg-orange-700 disabled:opacity-50"
+            >
+              {saving ? 'Refunding...' : 'Refund'}
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() =>
+                submitRefund(
+                  {
+                    items: items
+                      .filter((item) => item.refundable > 0)
+                      .map((item) => ({
+                        pieceId: item.pieceId,
+                        variantId: item.variantId,
+                        quantity: item.refundable,
+                      })),
+                    amount: refundableAmount,
+                    includeShipping: true,
+                    reason: reason || undefined,
+                    restock,
+                    returnId: openReturn?.id,
+                  },
+                  `Refund the full ${formatCurrency(fromMinorUnits(refundableAmount, currency), currency)} left on this order?`,
+                )
+              }
+              className="rounded-lg border border-orange-300 px-4 py-2 text-sm text-orange-700 hover:bg-orange-50 disabled:opacity-50"
+            >
+              Refund everything
+            </button>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
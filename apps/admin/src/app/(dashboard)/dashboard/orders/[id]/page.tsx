@@ -1,6 +1,8 @@
-import { messages, orders } from '@madebuy/db'
+import { messages, orders, refunds, returns } from '@madebuy/db'
+import { MARKETPLACE_LABELS, toMinorUnits } from '@madebuy/shared'
 import {
   ArrowLeft,
+  Clock,
   CreditCard,
   FileText,
   MapPin,
@@ -8,12 +10,14 @@ import {
   Package,
   Palette,
   Printer,
+  RotateCcw,
   User,
 } from 'lucide-react'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { requireTenant } from '@/lib/session'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { RefundActions } from './RefundActions'
 import { ShippingActions } from './ShippingActions'
 
 interface OrderDetailPageProps {
@@ -37,6 +41,36 @@ export default async function OrderDetailPage({
     'customer',
   )
 
+  const openReturn = (
+    await returns.listReturns(tenant.id, { orderId: order.id })
+  ).find(
+    (returnRequest) =>
+      returnRequest.status !== 'rejected' &&
+      returnRequest.status !== 'refunded',
+  )
+
+  // One refundable line per piece/variant - refunds are tracked by both
+  const refundableItems = order.items
+    .filter(
+      (item, index, all) =>
+        all.findIndex(
+          (other) =>
+            other.pieceId === item.pieceId &&
+            other.variantId === item.variantId,
+        ) === index,
+    )
+    .map((item) => ({
+      pieceId: item.pieceId,
+      variantId: item.variantId,
+      name: item.name,
+      price: toMinorUnits(item.price, order.currency),
+      refundable: returns.getReturnableQuantity(
+        order,
+        item.pieceId,
+        item.variantId,
+      ),
+    }))
+
   return (
     <div className="max-w-4xl mx-auto">
       {/* Header */}
@@ -57,6 +91,19 @@ export default async function OrderDetailPage({
             <p className="text-sm text-gray-500 mt-1">
               Placed on {formatDate(order.createdAt)}
             </p>
+            {order.readyToShipAt ? (
+              <p className="text-sm text-green-700 mt-1 flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Made and ready to ship since {formatDate(order.readyToShipAt)}
+              </p>
+            ) : (
+              order.productionDue && (
+                <p className="text-sm text-amber-700 mt-1 flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  Production due {formatDate(order.productionDue)}
+                </p>
+              )
+            )}
           </div>
           <div className="flex items-center gap-3">
             <OrderStatusBadge status={order.status} />
@@ -101,6 +148,11 @@ export default async function OrderDetailPage({
                     {item.category && (
                       <p className="text-xs text-gray-400">{item.category}</p>
                     )}
+                    {item.productionDue && (
+                      <p className="text-xs text-amber-700">
+                        Made to order - due {formatDate(item.productionDue)}
+                      </p>
+                    )}
                     {/* Personalization details */}
                     {item.personalizations &&
                       item.personalizations.length > 0 && (
@@ -386,6 +438,55 @@ export default async function OrderDetailPage({
                 <span className="text-gray-600">Method</span>
                 <span className="capitalize">{order.paymentMethod}</span>
               </div>
+              {order.marketplace && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    {MARKETPLACE_LABELS[order.marketplace.platform]} order
+                  </span>
+                  {order.marketplace.externalUrl ? (
+                    <a
+                      href={order.marketplace.externalUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      #{order.marketplace.externalOrderId}
+                    </a>
+                  ) : (
+                    <span>#{order.marketplace.externalOrderId}</span>
+                  )}
+                </div>
+              )}
+              {order.wholesale && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Wholesale buyer</span>
+                    <Link
+                      href="/dashboard/wholesale"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {order.wholesale.businessName}
+                    </Link>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Invoice due</span>
+                    <span>{formatDate(order.wholesale.dueDate)}</span>
+                  </div>
+                  <a
+                    href={`/api/wholesale/orders/${order.id}/invoice`}
+                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    Download invoice
+                  </a>
+                </>
+              )}
+              {order.marketplace?.trackingSyncedAt && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tracking sent</span>
+                  <span>{formatDate(order.marketplace.trackingSyncedAt)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Status</span>
                 <PaymentStatusBadge status={order.paymentStatus} />
@@ -417,6 +518,46 @@ export default async function OrderDetailPage({
             </div>
           </div>
 
+          {/* Refunds */}
+          {(order.paymentStatus === 'paid' ||
+            order.paymentStatus === 'refunded') &&
+            !order.marketplace && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5 text-gray-400" />
+                  Refunds
+                </h2>
+                {openReturn && (
+                  <Link
+                    href="/dashboard/returns"
+                    className="mb-3 block text-sm text-blue-600 hover:underline"
+                  >
+                    Return {openReturn.rmaNumber} is {openReturn.status}
+                  </Link>
+                )}
+                <RefundActions
+                  orderId={order.id}
+                  currency={order.currency}
+                  paymentMethod={order.paymentMethod}
+                  shipping={toMinorUnits(order.shipping, order.currency)}
+                  refundableAmount={
+                    order.paymentStatus === 'paid'
+                      ? refunds.getRefundableAmount(order)
+                      : 0
+                  }
+                  items={refundableItems}
+                  refunds={order.refunds ?? []}
+                  openReturn={
+                    openReturn && {
+                      id: openReturn.id,
+                      rmaNumber: openReturn.rmaNumber,
+                      status: openReturn.status,
+                    }
+                  }
+                />
+              </div>
+            )}
+
           {/* Timeline */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -0,0 +1,67 @@
+'use client'
+
+import { RefreshCw } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface ReconcilePayoutButtonProps {
+  payoutId: string
+  reconciled: boolean
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function ReconcilePayoutButton({
+  payoutId,
+  reconciled,
+}: ReconcilePayoutButtonProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function reconcile() {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/payouts/${payoutId}/reconcile`, {
+        method: 'POST',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to match transactions'))
+      }
+      router.refresh()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to match transactions',
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {error && <span className="text-sm text-red-600">{error}</span>}
+      <button
+        type="button"
+        onClick={reconcile}
+        disabled={loading}
+        className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        {loading
+          ? 'Matching...'
+          : reconciled
+            ? 'Match again'
+            : 'Match transactions'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+import { payouts } from '@madebuy/db'
+import { getPayoutContribution } from '@madebuy/shared'
+import { AlertTriangle, ArrowLeft, CheckCircle, Download } from 'lucide-react'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { requireTenant } from '@/lib/session'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { ReconcilePayoutButton } from './ReconcilePayoutButton'
+
+interface PayoutDetailPageProps {
+  params: { id: string }
+}
+
+const LINE_TYPE_LABELS: Record<string, string> = {
+  payment: 'Sale',
+  charge: 'Sale',
+  refund: 'Refund',
+  payment_refund: 'Refund',
+  transfer_refund: 'Refund',
+  adjustment: 'Adjustment',
+  stripe_fee: 'Stripe fee',
+  application_fee: 'Platform fee',
+}
+
+export default async function PayoutDetailPage({
+  params,
+}: PayoutDetailPageProps) {
+  const tenant = await requireTenant()
+  const reconciliation = await payouts.getPayoutReconciliation(
+    tenant.id,
+    params.id,
+  )
+  if (!reconciliation) {
+    notFound()
+  }
+
+  const { payout, transactions, ledgerTotal, difference, unmatchedCount } =
+    reconciliation
+  const lines = payout.balanceTransactions ?? []
+  const ledgerById = new Map(transactions.map((tx) => [tx.id, tx]))
+  const money = (cents: number) => formatCurrency(cents / 100, payout.currency)
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dashboard/payouts"
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Payouts
+      </Link>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Payout of {money(payout.amount)}
+          </h1>
+          <p className="mt-2 text-gray-600">
+            {payout.stripePayoutId} · {payout.status.replace('_', ' ')}
+            {payout.arrivalDate &&
+              ` · arriving ${formatDate(payout.arrivalDate)}`}
+            {payout.bankLast4 && ` · account ending ${payout.bankLast4}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href={`/api/payouts/${payout.id}/statement`}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4" />
+            Statement
+          </a>
+          <ReconcilePayoutButton
+            payoutId={payout.id}
+            reconciled={!!payout.reconciledAt}
+          />
+        </div>
+      </div>
+
+      {!payout.reconciledAt ? (
+        <div className="rounded-lg bg-blue-50 p-4 text-sm text-blue-800">
+          Match transactions to fetch what this payout contains from Stripe and
+          find each sale, refund and fee in your ledger.
+        </div>
+      ) : reconciliation.isReconciled ? (
+        <div className="flex items-center gap-2 rounded-lg bg-green-50 p-4 text-sm text-green-800">
+          <CheckCircle className="h-5 w-5" />
+          Every transaction in this payout is in your ledger and they add up to
+          the payout amount.
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 rounded-lg bg-amber-50 p-4 text-sm text-amber-800">
+          <AlertTriangle className="h-5 w-5 shrink-0" />
+          <div>
+            {difference !== 0 && (
+              <p>
+                The ledger transactions in this payout add up to{' '}
+                {money(ledgerTotal)}, {money(Math.abs(difference))}{' '}
+                {difference > 0 ? 'less' : 'more'} than the payout.
+              </p>
+            )}
+            {unmatchedCount > 0 && (
+              <p>
+                {unmatchedCount} Stripe{' '}
+                {unmatchedCount === 1 ? 'transaction is' : 'transactions are'}{' '}
+                not in your ledger.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">Payout amount</p>
+          <p className="mt-1 text-2xl font-bold text-gray-900">
+            {money(payout.amount)}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">Ledger total</p>
+          <p className="mt-1 text-2xl font-bold text-gray-900">
+            {money(ledgerTotal)}
+          </p>
+          <p className="text-xs text-gray-500">
+            {transactions.length} linked{' '}
+            {transactions.length === 1 ? 'transaction' : 'transactions'}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow">
+          <p className="text-sm font-medium text-gray-600">Difference</p>
+          <p
+            className={`mt-1 text-2xl font-bold ${
+              difference === 0 ? 'text-gray-900' : 'text-amber-600'
+            }`}
+          >
+            {money(difference)}
+          </p>
+        </div>
+      </div>
+
+      {lines.length > 0 && (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Date
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Type
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Description
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">
+                  Gross
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">
+                  Stripe fee
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">
+                  Net
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">
+                  In ledger
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map((line) => {
+                const tx = line.transactionId
+                  ? ledgerById.get(line.transactionId)
+                  : undefined
+                const ledgerAmount = tx ? getPayoutContribution(tx) : undefined
+                return (
+                  <tr
+                    key={line.stripeBalanceTransactionId}
+                    className={tx ? '' : 'bg-amber-50'}
+                  >
+                    <td className="whitespace-nowrap px-4 py-3 text-gray-500">
+                      {formatDate(line.createdAt)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3">
+                      {LINE_TYPE_LABELS[line.type] || line.type}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="text-gray-900">
+                        {tx?.description || line.description || '-'}
+                      </div>
+                      {tx?.orderId && (
+                        <Link
+                          href={`/dashboard/orders/${tx.orderId}`}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          View Order
+                        </Link>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right text-gray-900">
+                      {money(line.amount)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right text-gray-500">
+                      {line.fee !== 0 ? money(line.fee) : '-'}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-900">
+                      {money(line.net)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right">
+                      {ledgerAmount === undefined ? (
+                        <span className="text-amber-700">Not in ledger</span>
+                      ) : (
+                        <span
+                          className={
+                            ledgerAmount === line.net
+                              ? 'text-gray-900'
+                              : 'text-amber-700'
+                          }
+                          title={
+                            ledgerAmount === line.net
+                              ? undefined
+                              : 'The ledger amount differs from Stripe'
+                          }
+                        >
+                          {money(ledgerAmount)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { payouts } from '@madebuy/db'
+import type { PayoutStatus } from '@madebuy/shared'
+import Link from 'next/link'
+import { requireTenant } from '@/lib/session'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+const STATUS_STYLES: Record<PayoutStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-800',
+}
+
+export default async function PayoutsPage() {
+  const tenant = await requireTenant()
+  const list = await payouts.listPayouts(tenant.id, { limit: 100 })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Payouts</h1>
+        <p className="mt-2 text-gray-600">
+          Money Stripe has sent to your bank. Open a payout to see the sales,
+          refunds and fees it contains.
+        </p>
+      </div>
+
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-600">No payouts yet.</p>
+      ) : (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Created
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Arrival
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Reconciled
+                </th>
+                <th className="px-4 py-3 text-right font-medium text-gray-500">
+                  Amount
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {list.map((payout) => (
+                <tr key={payout.id} className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-4 py-3">
+                    <Link
+                      href={`/dashboard/payouts/${payout.id}`}
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {formatDate(payout.createdAt)}
+                    </Link>
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-gray-500">
+                    {payout.arrivalDate ? formatDate(payout.arrivalDate) : '-'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[payout.status]}`}
+                    >
+                      {payout.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-gray-500">
+                    {payout.reconciledAt
+                      ? formatDate(payout.reconciledAt)
+                      : 'Not yet'}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-900">
+                    {formatCurrency(payout.amount / 100, payout.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 'use client'
 
 import { pieces } from '@madebuy/db'
-import type { Piece } from '@madebuy/shared'
-import { Search, X } from 'lucide-react'
+import type { InventoryLocation, Piece, ScannedItem } from '@madebuy/shared'
+import { MapPin, Search, X } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { POSCart } from '@/components/pos/POSCart'
 import { POSProductTile } from '@/components/pos/POSProductTile'
 
+const POS_LOCATION_KEY = 'madebuy-pos-location'
+
 export default function POSPage() {
   const [allProducts, setAllProducts] = useState<Piece[]>([])
   const [filteredProducts, setFilteredProducts] = useState<Piece[]>([])
@@ -21,6 +23,11 @@ export default function POSPage() {
     }>
   >([])
   const [loading, setLoading] = useState(true)
+  const [scanError, setScanError] = useState<string | null>(null)
+  const [locations, setLocations] = useState<
+    Pick<InventoryLocation, 'id' | 'name' | 'isDefault'>[]
+  >([])
+  const [locationId, setLocationId] = useState<string | undefined>()
 
   // Fetch available products
   useEffect(() => {
@@ -42,6 +49,34 @@ export default function POSPage() {
     fetchProducts()
   }, [])
 
+  // Stock for sales comes out of the chosen location - remembered per device
+  // so a market stall tablet stays on the stall
+  useEffect(() => {
+    async function fetchLocations() {
+      try {
+        const res = await fetch('/api/pos/locations')
+        if (!res.ok) return
+        const data = await res.json()
+        const list: Pick<InventoryLocation, 'id' | 'name' | 'isDefault'>[] =
+          data.locations || []
+        const saved = localStorage.getItem(POS_LOCATION_KEY)
+        setLocations(list)
+        setLocationId(
+          list.find((l) => l.id === saved)?.id ??
+            list.find((l) => l.isDefault)?.id,
+        )
+      } catch (error) {
+        console.error('Failed to load locations:', error)
+      }
+    }
+    fetchLocations()
+  }, [])
+
+  const handleLocationChange = (id: string) => {
+    setLocationId(id)
+    localStorage.setItem(POS_LOCATION_KEY, id)
+  }
+
   // Filter products by search query
   useEffect(() => {
     if (!searchQuery.trim()) {
@@ -64,10 +99,11 @@ export default function POSPage() {
     piece: Piece,
     variantId?: string,
     variantOptions?: Record<string, string>,
+    price?: number,
   ) => {
-    // Determine price (variant or piece)
-    let finalPrice: number = piece.price ?? 0
-    if (variantId && piece.variants) {
+    // Determine price (scanned, variant or piece)
+    let finalPrice: number = price ?? piece.price ?? 0
+    if (price === undefined && variantId && piece.variants) {
       const variant = piece.variants.find((v) => v.id === variantId)
       if (variant && variant.price !== undefined) {
         finalPrice = variant.price
@@ -97,6 +133,46 @@ export default function POSPage() {
     }
   }
 
+  // Scanners type the barcode into the search box and press Enter - add the
+  // matching product straight to the cart. Plain searches just filter.
+  const handleSearchSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const code = searchQuery.trim()
+    if (!code) return
+
+    setScanError(null)
+    try {
+      const res = await fetch(
+        `/api/pos/lookup?code=${encodeURIComponent(code)}`,
+      )
+      if (!res.ok) {
+        // Not a code - leave the text as a search if it matches anything
+        if (filteredProducts.length === 0) {
+          setScanError(`No product found for ${code}`)
+        }
+        return
+      }
+
+      const { item }: { item: ScannedItem } = await res.json()
+      const piece = allProducts.find((p) => p.id === item.pieceId)
+      if (!piece) {
+        setScanError(`${item.name} isn't available to sell`)
+        return
+      }
+
+      addToCart(
+        piece,
+        item.itemType === 'variant' ? item.itemId : undefined,
+        item.variantAttributes,
+        item.price,
+      )
+      setSearchQuery('')
+    } catch (error) {
+      console.error('Barcode lookup failed:', error)
+      setScanError('Barcode lookup failed')
+    }
+  }
+
   // Update item quantity
   const updateQuantity = (index: number, quantity: number) => {
     if (quantity <= 0) {
@@ -133,13 +209,36 @@ export default function POSPage() {
               In-person checkout for markets &amp; events
             </p>
           </div>
-          <a
-            href="/dashboard"
-            className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-2 bg-white/10 hover:bg-white/20 active:bg-white/30 rounded-lg transition-colors text-xs sm:text-sm font-medium"
-          >
-            <X className="h-4 w-4" />
-            <span className="hidden sm:inline">Exit POS</span>
-          </a>
+          <div className="flex items-center gap-2 sm:gap-3">
+            {locations.length > 0 && (
+              <label className="flex items-center gap-1.5 text-xs sm:text-sm">
+                <MapPin className="h-4 w-4 text-slate-300" />
+                <span className="sr-only">Selling from</span>
+                <select
+                  value={locationId ?? ''}
+                  onChange={(e) => handleLocationChange(e.target.value)}
+                  className="bg-white/10 hover:bg-white/20 rounded-lg px-2 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {locations.map((location) => (
+                    <option
+                      key={location.id}
+                      value={location.id}
+                      className="text-gray-900"
+                    >
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <a
+              href="/dashboard"
+              className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-2 bg-white/10 hover:bg-white/20 active:bg-white/30 rounded-lg transition-colors text-xs sm:text-sm font-medium"
+            >
+              <X className="h-4 w-4" />
+              <span className="hidden sm:inline">Exit POS</span>
+            </a>
+          </div>
         </div>
       </div>
 
@@ -149,25 +248,32 @@ export default function POSPage() {
         <div className="flex-1 flex flex-col overflow-hidden md:border-r border-gray-200 bg-white">
           {/* Search bar */}
           <div className="p-3 sm:p-4 border-b border-gray-200 bg-gray-50">
-            <div className="relative">
+            <form onSubmit={handleSearchSubmit} className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
               <input
                 type="text"
-                placeholder="Search products..."
+                placeholder="Search or scan products..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value)
+                  setScanError(null)
+                }}
                 className="w-full pl-10 pr-4 py-2.5 sm:py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
                 autoFocus
               />
               {searchQuery && (
                 <button
+                  type="button"
                   onClick={() => setSearchQuery('')}
                   className="absolute right-3 top-1/2 -translate-y-1/2 p-1 hover:bg-gray-200 rounded-lg transition-colors"
                 >
                   <X className="h-4 w-4 text-gray-500" />
                 </button>
               )}
-            </div>
+            </form>
+            {scanError && (
+              <p className="mt-2 text-sm text-red-600">{scanError}</p>
+            )}
           </div>
 
           {/* Product grid */}
@@ -208,6 +314,7 @@ export default function POSPage() {
         <div className="w-full md:w-96 lg:w-[28rem] bg-white shadow-xl flex flex-col max-h-[50vh] md:max-h-none">
           <POSCart
             items={cartItems}
+            locationId={locationId}
             onUpdateQuantity={updateQuantity}
             onRemoveItem={removeItem}
             onClearCart={clearCart}
@@ -0,0 +1,21 @@
+import { productionRuns } from '@madebuy/db'
+import { ProductionQueue } from '@/components/production/ProductionQueue'
+import { requireTenant } from '@/lib/session'
+
+export default async function ProductionPage() {
+  const tenant = await requireTenant()
+  const queue = await productionRuns.getProductionQueue(tenant.id)
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Production Queue</h1>
+        <p className="mt-2 text-gray-600">
+          Made-to-order and personalised items waiting to be made
+        </p>
+      </div>
+
+      <ProductionQueue items={queue.items} shortfalls={queue.shortfalls} />
+    </div>
+  )
+}
@@ -297,25 +297,25 @@ export default function GSTSummaryPage() {
               </div>
             </div>
 
-            {/* GST Paid (Refunds) */}
+            {/* GST Credits (Purchases) */}
             <div className="rounded-xl border border-gray-200 bg-white p-6 print:border-gray-300">
               <div className="flex items-center gap-3">
                 <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-red-100 print:bg-red-50">
                   <TrendingDown className="h-5 w-5 text-red-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-gray-500">GST on Refunds</p>
+                  <p className="text-sm text-gray-500">GST Credits</p>
                   <p className="text-2xl font-bold text-red-600">
-                    {formatCurrency(report.report.gstPaid)}
+                    {formatCurrency(report.report.gstOnPurchases)}
                   </p>
                 </div>
               </div>
               <div className="mt-4 border-t border-gray-100 pt-4">
                 <p className="text-xs text-gray-500">
-                  From {report.report.refundsCount} refunds
+                  From {report.report.purchasesCount} expenses
                 </p>
                 <p className="text-sm text-gray-900">
-                  Total: {formatCurrency(report.report.refundsTotal)}
+                  Total: {formatCurrency(report.report.purchasesTotal)}
                 </p>
               </div>
             </div>
@@ -360,11 +360,14 @@ export default function GSTSummaryPage() {
                   </span>
                   <div>
                     <p className="font-medium text-gray-900">Total Sales</p>
-                    <p className="text-sm text-gray-500">Including GST</p>
+                    <p className="text-sm text-gray-500">
+                      Including GST, less{' '}
+                      {formatCurrency(report.report.refundsTotal)} refunded
+                    </p>
                   </div>
                 </div>
                 <p className="text-lg font-semibold text-gray-900">
-                  {formatCurrency(report.report.salesGross)}
+                  {formatCurrency(report.report.basG1)}
                 </p>
               </div>
 
@@ -376,12 +379,14 @@ export default function GSTSummaryPage() {
                   <div>
                     <p className="font-medium text-gray-900">GST on Sales</p>
                     <p className="text-sm text-gray-500">
-                      GST collected from customers
+                      GST collected, less{' '}
+                      {formatCurrency(report.report.gstPaid)} returned with
+                      refunds
                     </p>
                   </div>
                 </div>
                 <p className="text-lg font-semibold text-green-600">
-                  {formatCurrency(report.report.gstCollected)}
+                  {formatCurrency(report.report.bas1A)}
                 </p>
               </div>
 
@@ -391,14 +396,22 @@ export default function GSTSummaryPage() {
                     1B
                   </span>
                   <div>
-                    <p className="font-medium text-gray-900">GST on Refunds</p>
+                    <p className="font-medium text-gray-900">
+                      GST on Purchases
+                    </p>
                     <p className="text-sm text-gray-500">
-                      GST returned with refunds
+                      Credits from your{' '}
+                      <Link
+                        href="/dashboard/expenses"
+                        className="text-blue-600 hover:underline print:text-gray-500 print:no-underline"
+                      >
+                        expenses ledger
+                      </Link>
                     </p>
                   </div>
                 </div>
                 <p className="text-lg font-semibold text-red-600">
-                  -{formatCurrency(report.report.gstPaid)}
+                  -{formatCurrency(report.report.bas1B)}
                 </p>
               </div>
 
@@ -425,10 +438,9 @@ export default function GSTSummaryPage() {
                 <h3 className="font-medium text-yellow-900">Important Note</h3>
                 <p className="mt-1 text-sm text-yellow-700">
                   This summary shows GST from sales processed through MadeBuy
-                  only. If you have other business income or expenses, consult
-                  your accountant for your complete BAS figures. Input tax
-                  credits from business purchases are not included in this
-                  report.
+                  and purchases recorded in your expenses ledger. If you have
+                  other business income, or purchases you haven&apos;t recorded,
+                  consult your accountant for your complete BAS figures.
                 </p>
               </div>
             </div>
@@ -84,6 +84,9 @@ const TRANSACTION_TYPES = [
   { value: 'payout', label: 'Payouts' },
   { value: 'fee', label: 'Fees' },
   { value: 'subscription', label: 'Subscriptions' },
+  { value: 'gift_card', label: 'Gift Cards' },
+  { value: 'consignment', label: 'Consignment' },
+  { value: 'wholesale', label: 'Wholesale' },
 ]
 
 // ============================================================================
@@ -144,6 +147,9 @@ function getDefaultDescription(type: TransactionType): string {
     payout: 'Payout to bank',
     fee: 'Platform fee',
     subscription: 'Subscription payment',
+    gift_card: 'Gift card',
+    consignment: 'Consignment settlement',
+    wholesale: 'Wholesale invoice payment',
   }
   return descriptions[type]
 }
@@ -816,18 +822,18 @@ function GSTTab() {
                   <TrendingDown className="h-5 w-5 text-red-600" />
                 </div>
                 <div>
-                  <p className="text-sm text-gray-500">GST on Refunds</p>
+                  <p className="text-sm text-gray-500">GST Credits</p>
                   <p className="text-2xl font-bold text-red-600">
-                    {formatCurrencyCents(report.report.gstPaid)}
+                    {formatCurrencyCents(report.report.gstOnPurchases)}
                   </p>
                 </div>
               </div>
               <div className="mt-4 border-t border-gray-100 pt-4">
                 <p className="text-xs text-gray-500">
-                  From {report.report.refundsCount} refunds
+                  From {report.report.purchasesCount} expenses
                 </p>
                 <p className="text-sm text-gray-900">
-                  Total: {formatCurrencyCents(report.report.refundsTotal)}
+                  Total: {formatCurrencyCents(report.report.purchasesTotal)}
                 </p>
               </div>
             </div>
@@ -867,21 +873,21 @@ function GSTTab() {
               <BASRow
                 code="G1"
                 label="Total Sales"
-                sublabel="Including GST"
-                value={formatCurrencyCents(report.report.salesGross)}
+                sublabel="Including GST, less refunds"
+                value={formatCurrencyCents(report.report.basG1)}
               />
               <BASRow
                 code="1A"
                 label="GST on Sales"
-                sublabel="GST collected from customers"
-                value={formatCurrencyCents(report.report.gstCollected)}
+                sublabel="GST collected, less GST returned with refunds"
+                value={formatCurrencyCents(report.report.bas1A)}
                 valueColor="text-emerald-600"
               />
               <BASRow
                 code="1B"
-                label="GST on Refunds"
-                sublabel="GST returned with refunds"
-                value={`-${formatCurrencyCents(report.report.gstPaid)}`}
+                label="GST on Purchases"
+                sublabel="Credits from your expenses ledger"
+                value={`-${formatCurrencyCents(report.report.bas1B)}`}
                 valueColor="text-red-600"
               />
               <div className="flex items-center justify-between bg-blue-50 px-6 py-4">
@@ -907,10 +913,9 @@ function GSTTab() {
                 <h3 className="font-medium text-amber-900">Important Note</h3>
                 <p className="mt-1 text-sm text-amber-700">
                   This summary shows GST from sales processed through MadeBuy
-                  only. If you have other business income or expenses, consult
-                  your accountant for your complete BAS figures. Input tax
-                  credits from business purchases are not included in this
-                  report.
+                  and purchases recorded in your expenses ledger. If you have
+                  other business income, or purchases you haven&apos;t recorded,
+                  consult your accountant for your complete BAS figures.
                 </p>
               </div>
             </div>
@@ -1000,6 +1005,9 @@ function TransactionTypeBadge({ type }: { type: TransactionType }) {
     payout: 'bg-blue-50 text-blue-700',
     fee: 'bg-gray-100 text-gray-700',
     subscription: 'bg-purple-50 text-purple-700',
+    gift_card: 'bg-pink-50 text-pink-700',
+    consignment: 'bg-teal-50 text-teal-700',
+    wholesale: 'bg-indigo-50 text-indigo-700',
   }
 
   const labels: Record<TransactionType, string> = {
@@ -1008,6 +1016,9 @@ function TransactionTypeBadge({ type }: { type: TransactionType }) {
     payout: 'Payout',
     fee: 'Fee',
     subscription: 'Subscription',
+    gift_card: 'Gift Card',
+    consignment: 'Consignment',
+    wholesale: 'Wholesale',
   }
 
   return (
@@ -0,0 +1,22 @@
+import { returns } from '@madebuy/db'
+import { ReturnsTable } from '@/components/returns/ReturnsTable'
+import { requireTenant } from '@/lib/session'
+
+export default async function ReturnsPage() {
+  const tenant = await requireTenant()
+  const returnRequests = await returns.listReturns(tenant.id)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Returns</h1>
+        <p className="mt-2 text-gray-600">
+          Return requests buyers start from their order page. Approve them, send
+          a Sendle return label, then refund once the parcel arrives.
+        </p>
+      </div>
+
+      <ReturnsTable returns={returnRequests} />
+    </div>
+  )
+}
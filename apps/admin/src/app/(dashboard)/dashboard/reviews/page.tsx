@@ -1,5 +1,10 @@
-import { pieces, reviews } from '@madebuy/db'
-import type { Piece, Review, ReviewStatus } from '@madebuy/shared'
+import { orders, pieces, reviews } from '@madebuy/db'
+import {
+  DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+  type Piece,
+  type Review,
+  type ReviewStatus,
+} from '@madebuy/shared'
 import {
   CheckCircle,
   Clock,
@@ -9,6 +14,7 @@ import {
   XCircle,
 } from 'lucide-react'
 import Link from 'next/link'
+import { ReviewRequestSettings } from '@/components/reviews/ReviewRequestSettings'
 import { requireTenant } from '@/lib/session'
 import { formatDate } from '@/lib/utils'
 
@@ -25,17 +31,19 @@ export default async function ReviewsPage({ searchParams }: PageProps) {
   const offset = (page - 1) * PAGE_SIZE
 
   // Fetch reviews with optional status filter
-  const [allReviews, pendingCount, piecesResult] = await Promise.all([
-    reviews.listReviews(tenant.id, {
-      filters: statusFilter ? { status: statusFilter } : undefined,
-      limit: PAGE_SIZE,
-      offset,
-      sortBy: 'createdAt',
-      sortOrder: 'desc',
-    }),
-    reviews.getPendingReviewCount(tenant.id),
-    pieces.listPieces(tenant.id),
-  ])
+  const [allReviews, pendingCount, piecesResult, requestStats] =
+    await Promise.all([
+      reviews.listReviews(tenant.id, {
+        filters: statusFilter ? { status: statusFilter } : undefined,
+        limit: PAGE_SIZE,
+        offset,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      }),
+      reviews.getPendingReviewCount(tenant.id),
+      pieces.listPieces(tenant.id),
+      orders.getReviewRequestStats(tenant.id),
+    ])
 
   const allPieces = 'data' in piecesResult ? piecesResult.data : piecesResult
 
@@ -63,6 +71,48 @@ export default async function ReviewsPage({ searchParams }: PageProps) {
         <StatCard title="Rejected" value={0} icon={XCircle} color="red" />
       </div>
 
+      {/* Review Requests */}
+      <div className="mb-6 rounded-lg bg-white p-4 shadow">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Review Requests
+            </h2>
+            <p className="text-sm text-gray-600">
+              Delivered buyers get a one-click link to review their order
+            </p>
+          </div>
+          <div className="flex gap-6 text-right">
+            <div>
+              <p className="text-sm text-gray-600">Sent</p>
+              <p className="text-xl font-bold text-gray-900">
+                {requestStats.requested}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Reviewed</p>
+              <p className="text-xl font-bold text-gray-900">
+                {requestStats.reviewed}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Conversion</p>
+              <p className="text-xl font-bold text-gray-900">
+                {requestStats.conversionRate}%
+              </p>
+            </div>
+          </div>
+        </div>
+        <ReviewRequestSettings
+          initialSettings={
+            tenant.reviewRequestSettings || {
+              enabled: false,
+              delayDays: DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+            }
+          }
+        />
+      </div>
+
       {/* Status Filter */}
       <div className="mb-6 flex gap-2">
         <StatusFilterLink
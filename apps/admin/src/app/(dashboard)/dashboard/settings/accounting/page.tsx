@@ -0,0 +1,50 @@
+import Link from 'next/link'
+import { ChartOfAccountsForm } from '@/components/settings/ChartOfAccountsForm'
+import { getChartOfAccounts } from '@/lib/accounting-export'
+import { requireTenant } from '@/lib/session'
+
+export default async function AccountingSettingsPage() {
+  const tenant = await requireTenant()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Accounting</h1>
+        <p className="mt-1 text-gray-600">
+          Match these account codes to your chart of accounts in Xero or MYOB.
+          Journal exports from the{' '}
+          <Link href="/dashboard/ledger" className="text-blue-600 underline">
+            ledger
+          </Link>{' '}
+          post to them.
+        </p>
+      </div>
+
+      <ChartOfAccountsForm accounts={getChartOfAccounts(tenant)} />
+
+      <div className="rounded-lg bg-blue-50 p-4">
+        <h2 className="text-sm font-medium text-blue-800">
+          How payouts reconcile
+        </h2>
+        <ul className="mt-2 list-inside list-disc space-y-1 text-sm text-blue-700">
+          <li>
+            Each sale is posted to the payout clearing account, less the fees
+            Stripe kept.
+          </li>
+          <li>
+            Each Stripe payout moves the money from the clearing account to your
+            bank account, with the payout ID as its reference, so it matches the
+            deposit on your bank statement.
+          </li>
+          <li>
+            GST is posted to its own account, so journal lines are BAS Excluded
+            (N-T in MYOB).
+          </li>
+          <li>
+            Cost of goods sold uses each piece&apos;s calculated material cost.
+          </li>
+        </ul>
+      </div>
+    </div>
+  )
+}
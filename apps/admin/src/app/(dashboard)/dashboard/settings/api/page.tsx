@@ -0,0 +1,315 @@
+'use client'
+
+import type { ApiKeyScope, PublicApiKey } from '@madebuy/shared'
+import { API_KEY_SCOPE_LABELS, API_KEY_SCOPES } from '@madebuy/shared'
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  KeyRound,
+  Loader2,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+interface ApiKeysResponse {
+  apiKeys: PublicApiKey[]
+  enabled: boolean
+}
+
+function formatDate(value?: string | Date) {
+  return value ? new Date(value).toLocaleDateString() : 'Never'
+}
+
+export default function ApiKeysSettingsPage() {
+  const [keys, setKeys] = useState<ApiKeysResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error'
+    text: string
+  } | null>(null)
+
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const res = await fetch('/api/api-keys')
+      if (res.ok) {
+        setKeys(await res.json())
+      } else {
+        const data = await res.json()
+        setMessage({
+          type: 'error',
+          text: data.error || 'Failed to load API keys',
+        })
+      }
+    } catch (error) {
+      console.error('Failed to fetch API keys:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchKeys()
+  }, [fetchKeys])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope],
+    )
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setMessage(null)
+    setNewSecret(null)
+
+    try {
+      const res = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        setMessage({
+          type: 'error',
+          text: data.error || 'Failed to create API key',
+        })
+        return
+      }
+
+      setNewSecret(data.secret)
+      setName('')
+      setScopes([])
+      fetchKeys()
+    } catch (_error) {
+      setMessage({
+        type: 'error',
+        text: 'Failed to create API key. Please try again.',
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: PublicApiKey) => {
+    if (
+      !confirm(
+        `Revoke "${apiKey.name}"? Anything using this key will stop working immediately.`,
+      )
+    ) {
+      return
+    }
+
+    setMessage(null)
+    const res = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' })
+    if (res.ok) {
+      setMessage({ type: 'success', text: `Revoked ${apiKey.name}` })
+      fetchKeys()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to revoke API key' })
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    setMessage({ type: 'success', text: 'API key copied to clipboard' })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const activeKeys = keys?.apiKeys.filter((k) => !k.revokedAt) ?? []
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+        <p className="mt-1 text-gray-600">
+          Connect other systems to your shop with the MadeBuy REST API
+        </p>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div
+          className={`mb-6 flex items-center gap-2 rounded-lg p-4 ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-700'
+              : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {message.type === 'success' ? (
+            <CheckCircle className="h-5 w-5" />
+          ) : (
+            <AlertCircle className="h-5 w-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {keys && !keys.enabled ? (
+        <div className="rounded-lg bg-white px-6 py-4 text-sm text-gray-600 shadow">
+          API access is available on the Studio plan.{' '}
+          <a
+            href="/dashboard/settings/billing"
+            className="font-medium text-blue-600 hover:text-blue-800"
+          >
+            View plans
+          </a>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* New key secret - shown once */}
+          {newSecret && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+              <p className="text-sm font-medium text-amber-800">
+                Copy your new API key now. You won&apos;t be able to see it
+                again.
+              </p>
+              <div className="mt-3 flex items-center gap-2">
+                <code className="flex-1 overflow-x-auto rounded bg-white px-3 py-2 font-mono text-sm text-gray-900">
+                  {newSecret}
+                </code>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Keys */}
+          <div className="rounded-lg bg-white shadow">
+            <div className="flex items-center gap-2 border-b border-gray-200 px-6 py-4">
+              <KeyRound className="h-5 w-5 text-gray-500" />
+              <h2 className="text-lg font-medium text-gray-900">Active keys</h2>
+            </div>
+
+            {activeKeys.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-500">No API keys yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {activeKeys.map((apiKey) => (
+                  <div
+                    key={apiKey.id}
+                    className="flex items-center justify-between gap-4 px-6 py-4"
+                  >
+                    <div className="min-w-0">
+                      <h3 className="text-sm font-medium text-gray-900">
+                        {apiKey.name}
+                      </h3>
+                      <p className="font-mono text-xs text-gray-500">
+                        {apiKey.prefix}…
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {apiKey.scopes.join(', ')} · Created{' '}
+                        {formatDate(apiKey.createdAt)} · Last used{' '}
+                        {formatDate(apiKey.lastUsedAt)}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(apiKey)}
+                      title="Revoke"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Create */}
+          <div className="rounded-lg bg-white shadow">
+            <div className="border-b border-gray-200 px-6 py-4">
+              <div className="flex items-center gap-2">
+                <Plus className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-medium text-gray-900">
+                  Create an API key
+                </h2>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Send it as a Bearer token to /api/v1. Only grant the scopes the
+                integration needs.
+              </p>
+            </div>
+
+            <form onSubmit={handleCreate} className="space-y-4 px-6 py-4">
+              <input
+                type="text"
+                required
+                maxLength={100}
+                placeholder="Name, e.g. Warehouse sync"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+
+              <div className="grid gap-2 sm:grid-cols-2">
+                {API_KEY_SCOPES.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex cursor-pointer items-start gap-3 rounded-lg border border-gray-200 p-3 hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="mt-0.5 h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="block font-mono text-sm text-gray-900">
+                        {scope}
+                      </span>
+                      <span className="block text-sm text-gray-500">
+                        {API_KEY_SCOPE_LABELS[scope]}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isCreating || scopes.length === 0}
+                  className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isCreating ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <KeyRound className="h-4 w-4" />
+                  )}
+                  Create Key
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ import {
   COUNTRY_PRESETS,
   DEFAULT_REGIONAL_SETTINGS,
   getCountryPreset,
+  getExchangeRate,
+  SUPPORTED_CURRENCIES,
 } from '@madebuy/shared'
 import { Check, Loader2, Save } from 'lucide-react'
 import { useEffect, useState } from 'react'
@@ -52,6 +54,44 @@ export default function RegionalSettingsPage() {
       locale: preset.locale,
       timezone: preset.timezone,
       measurementSystem: preset.measurementSystem,
+      // Keep display currencies - the rate table records its own base
+      displayCurrencies: settings?.displayCurrencies,
+      exchangeRates: settings?.exchangeRates,
+    })
+    setHasChanges(true)
+  }
+
+  const handleDisplayCurrencyToggle = (code: string, enabled: boolean) => {
+    if (!settings) return
+    const current = settings.displayCurrencies || []
+    setSettings({
+      ...settings,
+      displayCurrencies: enabled
+        ? [...current, code]
+        : current.filter((c) => c !== code),
+    })
+    setHasChanges(true)
+  }
+
+  const handleRateChange = (code: string, value: string) => {
+    if (!settings) return
+    const base = settings.customCurrency || settings.currency
+    // Re-express existing rates against the current base currency
+    const rates: Record<string, number> = {}
+    for (const other of SUPPORTED_CURRENCIES) {
+      if (other === base) continue
+      const rate = getExchangeRate(base, other, settings.exchangeRates)
+      if (rate !== null) rates[other] = rate
+    }
+    const parsed = Number.parseFloat(value)
+    if (Number.isFinite(parsed) && parsed > 0) {
+      rates[code] = parsed
+    } else {
+      delete rates[code]
+    }
+    setSettings({
+      ...settings,
+      exchangeRates: { base, rates, updatedAt: new Date() },
     })
     setHasChanges(true)
   }
@@ -177,6 +217,62 @@ export default function RegionalSettingsPage() {
             </div>
           )}
 
+        {/* Display Currencies */}
+        <div className="p-6">
+          <h3 className="text-sm font-medium text-gray-700">
+            Display Currencies
+          </h3>
+          <p className="mt-1 mb-4 text-sm text-gray-500">
+            Let buyers see an estimated total in another currency at checkout.
+            You are always paid in{' '}
+            {settings.customCurrency || settings.currency}. Rates are entered
+            manually as the amount of each currency per 1{' '}
+            {settings.customCurrency || settings.currency}.
+          </p>
+          <div className="space-y-3">
+            {SUPPORTED_CURRENCIES.filter(
+              (code) => code !== (settings.customCurrency || settings.currency),
+            ).map((code) => {
+              const base = settings.customCurrency || settings.currency
+              const rate = getExchangeRate(base, code, settings.exchangeRates)
+              const enabled = settings.displayCurrencies?.includes(code)
+              return (
+                <div
+                  key={`${base}-${code}`}
+                  className="flex items-center gap-4"
+                >
+                  <label className="flex w-24 items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!!enabled}
+                      onChange={(e) =>
+                        handleDisplayCurrencyToggle(code, e.target.checked)
+                      }
+                      className="rounded border-gray-300"
+                    />
+                    {code}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    placeholder="Rate"
+                    aria-label={`${code} per 1 ${base}`}
+                    defaultValue={rate !== null ? Number(rate.toFixed(4)) : ''}
+                    onBlur={(e) => handleRateChange(code, e.target.value)}
+                    className="w-32 rounded-lg border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  {enabled && rate === null && (
+                    <span className="text-xs text-amber-600">
+                      Add a rate to show this currency
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
         {/* Current Settings Preview */}
         <div className="p-6 bg-gray-50">
           <h3 className="text-sm font-medium text-gray-700 mb-4">
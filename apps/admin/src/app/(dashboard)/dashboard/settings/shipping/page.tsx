@@ -13,6 +13,7 @@ import {
   Truck,
 } from 'lucide-react'
 import { useEffect, useState } from 'react'
+import { ShippingCarriersSettings } from '@/components/settings/ShippingCarriersSettings'
 
 interface BusinessAddress {
   addressLine1: string
@@ -669,6 +670,9 @@ export default function ShippingSettingsPage() {
         </div>
       </section>
 
+      {/* Australia Post and rate tables */}
+      <ShippingCarriersSettings />
+
       {/* Getting Started */}
       <section className="rounded-xl border border-gray-200 bg-white overflow-hidden">
         <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
@@ -489,18 +489,18 @@ export default function TaxSettingsPage() {
                   </p>
                 </div>
 
-                {/* GST on Refunds */}
+                {/* GST Credits */}
                 <div className="rounded-lg bg-red-50 p-4">
                   <div className="flex items-center gap-2 text-red-700">
                     <DollarSign className="h-5 w-5" />
-                    <span className="text-sm font-medium">GST on Refunds</span>
+                    <span className="text-sm font-medium">GST Credits</span>
                   </div>
                   <p className="mt-2 text-2xl font-bold text-red-800">
-                    {formatCurrency(gstReport.gstPaid)}
+                    {formatCurrency(gstReport.gstOnPurchases)}
                   </p>
                   <p className="mt-1 text-sm text-red-600">
-                    From {gstReport.refundsCount} refunds (
-                    {formatCurrency(gstReport.refundsTotal)} total)
+                    From {gstReport.purchasesCount} expenses (
+                    {formatCurrency(gstReport.purchasesTotal)} total)
                   </p>
                 </div>
 
@@ -586,6 +586,22 @@ export default function TaxSettingsPage() {
                         - {formatCurrency(gstReport.gstPaid)}
                       </td>
                     </tr>
+                    <tr>
+                      <td className="py-2 text-sm text-gray-600">
+                        Total Purchases (incl. GST)
+                      </td>
+                      <td className="py-2 text-sm text-gray-900 text-right font-medium">
+                        {formatCurrency(gstReport.purchasesTotal)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="py-2 text-sm text-gray-600">
+                        GST Credits on Purchases
+                      </td>
+                      <td className="py-2 text-sm text-red-600 text-right font-medium">
+                        - {formatCurrency(gstReport.gstOnPurchases)}
+                      </td>
+                    </tr>
                     <tr className="border-t-2 border-gray-300">
                       <td className="py-3 text-sm font-bold text-gray-900">
                         Net GST Payable to ATO
@@ -0,0 +1,339 @@
+'use client'
+
+import type { PublicTeamMember, StaffRole } from '@madebuy/shared'
+import { TEAM_ROLE_DESCRIPTIONS, TEAM_ROLE_LABELS } from '@madebuy/shared'
+import {
+  AlertCircle,
+  CheckCircle,
+  Crown,
+  Loader2,
+  Mail,
+  Trash2,
+  UserPlus,
+  Users,
+} from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+const STAFF_ROLES: StaffRole[] = ['manager', 'fulfilment', 'content']
+
+interface TeamResponse {
+  owner: { email: string; name: string }
+  members: PublicTeamMember[]
+  seats: { used: number; limit: number }
+}
+
+export default function TeamSettingsPage() {
+  const [team, setTeam] = useState<TeamResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error'
+    text: string
+  } | null>(null)
+
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteName, setInviteName] = useState('')
+  const [inviteRole, setInviteRole] = useState<StaffRole>('fulfilment')
+  const [isInviting, setIsInviting] = useState(false)
+
+  const fetchTeam = useCallback(async () => {
+    try {
+      const res = await fetch('/api/team')
+      if (res.ok) {
+        setTeam(await res.json())
+      } else {
+        const data = await res.json()
+        setMessage({ type: 'error', text: data.error || 'Failed to load team' })
+      }
+    } catch (error) {
+      console.error('Failed to fetch team:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTeam()
+  }, [fetchTeam])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsInviting(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch('/api/team', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: inviteEmail,
+          name: inviteName,
+          role: inviteRole,
+        }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        setMessage({
+          type: 'error',
+          text: data.error || 'Failed to send invitation',
+        })
+        return
+      }
+
+      setMessage({
+        type: data.emailSent ? 'success' : 'error',
+        text: data.emailSent
+          ? `Invitation sent to ${data.member.email}`
+          : 'Invitation created, but the email could not be sent',
+      })
+      setInviteEmail('')
+      setInviteName('')
+      fetchTeam()
+    } catch (_error) {
+      setMessage({
+        type: 'error',
+        text: 'Failed to send invitation. Please try again.',
+      })
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (
+    member: PublicTeamMember,
+    role: StaffRole,
+  ) => {
+    setMessage(null)
+    const res = await fetch(`/api/team/${member.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    })
+    if (res.ok) {
+      fetchTeam()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to change role' })
+    }
+  }
+
+  const handleRemove = async (member: PublicTeamMember) => {
+    const action =
+      member.status === 'invited' ? 'Cancel the invitation for' : 'Remove'
+    if (!confirm(`${action} ${member.name}?`)) return
+
+    setMessage(null)
+    const res = await fetch(`/api/team/${member.id}`, { method: 'DELETE' })
+    if (res.ok) {
+      fetchTeam()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to remove team member' })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const seatsFull =
+    !!team && team.seats.limit !== -1 && team.seats.used >= team.seats.limit
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+        <p className="mt-1 text-gray-600">
+          Invite staff to help run your shop and choose what they can access
+        </p>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div
+          className={`mb-6 flex items-center gap-2 rounded-lg p-4 ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-700'
+              : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {message.type === 'success' ? (
+            <CheckCircle className="h-5 w-5" />
+          ) : (
+            <AlertCircle className="h-5 w-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {team && (
+        <div className="space-y-6">
+          {/* Members */}
+          <div className="rounded-lg bg-white shadow">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+              <div className="flex items-center gap-2">
+                <Users className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-medium text-gray-900">Members</h2>
+              </div>
+              <span className="text-sm text-gray-500">
+                {team.seats.used} of{' '}
+                {team.seats.limit === -1 ? 'unlimited' : team.seats.limit} seats
+                used
+              </span>
+            </div>
+
+            <div className="divide-y divide-gray-100">
+              <div className="flex items-center justify-between px-6 py-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">
+                    {team.owner.name}
+                  </h3>
+                  <p className="text-sm text-gray-500">{team.owner.email}</p>
+                </div>
+                <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-2.5 py-0.5 text-xs font-medium text-amber-700">
+                  <Crown className="h-3 w-3" />
+                  {TEAM_ROLE_LABELS.owner}
+                </span>
+              </div>
+
+              {team.members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center justify-between gap-4 px-6 py-4"
+                >
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900">
+                      {member.name}
+                      {member.status === 'invited' && (
+                        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                          Invited
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-500">{member.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        handleRoleChange(member, e.target.value as StaffRole)
+                      }
+                      className="rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {STAFF_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {TEAM_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member)}
+                      title="Remove"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Invite */}
+          <div className="rounded-lg bg-white shadow">
+            <div className="border-b border-gray-200 px-6 py-4">
+              <div className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-medium text-gray-900">
+                  Invite a team member
+                </h2>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                They&apos;ll get an email with a link to set their password
+              </p>
+            </div>
+
+            {seatsFull ? (
+              <div className="px-6 py-4 text-sm text-gray-600">
+                {team.seats.limit <= 1
+                  ? 'Team members are available on the Studio plan.'
+                  : "You've used all the team seats on your plan."}{' '}
+                <a
+                  href="/dashboard/settings/billing"
+                  className="font-medium text-blue-600 hover:text-blue-800"
+                >
+                  View plans
+                </a>
+              </div>
+            ) : (
+              <form onSubmit={handleInvite} className="space-y-4 px-6 py-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <input
+                    type="text"
+                    required
+                    placeholder="Name"
+                    value={inviteName}
+                    onChange={(e) => setInviteName(e.target.value)}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <input
+                    type="email"
+                    required
+                    placeholder="Email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  {STAFF_ROLES.map((role) => (
+                    <label
+                      key={role}
+                      className="flex cursor-pointer items-start gap-3 rounded-lg border border-gray-200 p-3 hover:bg-gray-50"
+                    >
+                      <input
+                        type="radio"
+                        name="role"
+                        value={role}
+                        checked={inviteRole === role}
+                        onChange={() => setInviteRole(role)}
+                        className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-900">
+                          {TEAM_ROLE_LABELS[role]}
+                        </span>
+                        <span className="block text-sm text-gray-500">
+                          {TEAM_ROLE_DESCRIPTIONS[role]}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isInviting}
+                    className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isInviting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Mail className="h-4 w-4" />
+                    )}
+                    Send Invitation
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,480 @@
+'use client'
+
+import type {
+  PublicWebhookEndpoint,
+  WebhookDelivery,
+  WebhookEventType,
+} from '@madebuy/shared'
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@madebuy/shared'
+import {
+  AlertCircle,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Trash2,
+  Webhook,
+} from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  succeeded: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+}
+
+export default function WebhookSettingsPage() {
+  const [endpoints, setEndpoints] = useState<PublicWebhookEndpoint[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error'
+    text: string
+  } | null>(null)
+
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEventType[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [endpointsRes, deliveriesRes] = await Promise.all([
+        fetch('/api/webhooks'),
+        fetch('/api/webhooks/deliveries'),
+      ])
+      if (endpointsRes.ok) {
+        setEndpoints((await endpointsRes.json()).endpoints)
+      } else {
+        const data = await endpointsRes.json()
+        setMessage({
+          type: 'error',
+          text: data.error || 'Failed to load webhooks',
+        })
+      }
+      if (deliveriesRes.ok) {
+        setDeliveries((await deliveriesRes.json()).deliveries)
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents((current) =>
+      current.includes(event)
+        ? current.filter((e) => e !== event)
+        : [...current, event],
+    )
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setMessage(null)
+    setNewSecret(null)
+
+    try {
+      const res = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url,
+          description: description || undefined,
+          events,
+        }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        const fieldError = data.details
+          ? Object.values(data.details as Record<string, string[]>)[0]?.[0]
+          : undefined
+        setMessage({
+          type: 'error',
+          text: fieldError || data.error || 'Failed to add endpoint',
+        })
+        return
+      }
+
+      setNewSecret(data.secret)
+      setUrl('')
+      setDescription('')
+      setEvents([])
+      fetchData()
+    } catch (_error) {
+      setMessage({
+        type: 'error',
+        text: 'Failed to add endpoint. Please try again.',
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleToggleActive = async (endpoint: PublicWebhookEndpoint) => {
+    setMessage(null)
+    const res = await fetch(`/api/webhooks/${endpoint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !endpoint.isActive }),
+    })
+    if (res.ok) {
+      fetchData()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to update endpoint' })
+    }
+  }
+
+  const handleDelete = async (endpoint: PublicWebhookEndpoint) => {
+    if (!confirm(`Delete the endpoint ${endpoint.url}?`)) return
+
+    setMessage(null)
+    const res = await fetch(`/api/webhooks/${endpoint.id}`, {
+      method: 'DELETE',
+    })
+    if (res.ok) {
+      fetchData()
+    } else {
+      setMessage({ type: 'error', text: 'Failed to delete endpoint' })
+    }
+  }
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setMessage(null)
+    setReplayingId(delivery.id)
+    try {
+      const res = await fetch(
+        `/api/webhooks/deliveries/${delivery.id}/replay`,
+        {
+          method: 'POST',
+        },
+      )
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ type: 'error', text: data.error || 'Replay failed' })
+        return
+      }
+      setMessage({
+        type: data.delivery.status === 'succeeded' ? 'success' : 'error',
+        text:
+          data.delivery.status === 'succeeded'
+            ? 'Delivery replayed successfully'
+            : `Replay failed: ${data.delivery.error || 'endpoint error'}`,
+      })
+      fetchData()
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    setMessage({ type: 'success', text: 'Signing secret copied to clipboard' })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+        <p className="mt-1 text-gray-600">
+          Send shop events to your own systems as they happen
+        </p>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div
+          className={`mb-6 flex items-center gap-2 rounded-lg p-4 ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-700'
+              : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {message.type === 'success' ? (
+            <CheckCircle className="h-5 w-5" />
+          ) : (
+            <AlertCircle className="h-5 w-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* New endpoint secret - shown once */}
+        {newSecret && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+            <p className="text-sm font-medium text-amber-800">
+              Copy your signing secret now. You won&apos;t be able to see it
+              again.
+            </p>
+            <p className="mt-1 text-sm text-amber-700">
+              Use it to verify the X-MadeBuy-Signature header on each request.
+            </p>
+            <div className="mt-3 flex items-center gap-2">
+              <code className="flex-1 overflow-x-auto rounded bg-white px-3 py-2 font-mono text-sm text-gray-900">
+                {newSecret}
+              </code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                <Copy className="h-4 w-4" />
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Endpoints */}
+        <div className="rounded-lg bg-white shadow">
+          <div className="flex items-center gap-2 border-b border-gray-200 px-6 py-4">
+            <Webhook className="h-5 w-5 text-gray-500" />
+            <h2 className="text-lg font-medium text-gray-900">Endpoints</h2>
+          </div>
+
+          {endpoints.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">No endpoints yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {endpoints.map((endpoint) => (
+                <div
+                  key={endpoint.id}
+                  className="flex items-center justify-between gap-4 px-6 py-4"
+                >
+                  <div className="min-w-0">
+                    <h3 className="truncate font-mono text-sm text-gray-900">
+                      {endpoint.url}
+                    </h3>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-500">
+                        {endpoint.description}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      {endpoint.events.join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleActive(endpoint)}
+                      className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                        endpoint.isActive
+                          ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {endpoint.isActive ? 'Active' : 'Paused'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(endpoint)}
+                      title="Delete"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Add endpoint */}
+        <div className="rounded-lg bg-white shadow">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <div className="flex items-center gap-2">
+              <Plus className="h-5 w-5 text-gray-500" />
+              <h2 className="text-lg font-medium text-gray-900">
+                Add an endpoint
+              </h2>
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              We POST a signed JSON payload to this HTTPS URL for each
+              subscribed event, retrying failures with backoff
+            </p>
+          </div>
+
+          <form onSubmit={handleCreate} className="space-y-4 px-6 py-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <input
+                type="url"
+                required
+                placeholder="https://example.com/webhooks/madebuy"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                maxLength={200}
+                placeholder="Description (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEBHOOK_EVENT_TYPES.map((event) => (
+                <label
+                  key={event}
+                  className="flex cursor-pointer items-start gap-3 rounded-lg border border-gray-200 p-3 hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="mt-0.5 h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block font-mono text-sm text-gray-900">
+                      {event}
+                    </span>
+                    <span className="block text-sm text-gray-500">
+                      {WEBHOOK_EVENT_LABELS[event]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isCreating || events.length === 0}
+                className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isCreating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+                Add Endpoint
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Delivery log */}
+        <div className="rounded-lg bg-white shadow">
+          <div className="border-b border-gray-200 px-6 py-4">
+            <h2 className="text-lg font-medium text-gray-900">
+              Recent deliveries
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Kept for 30 days. Replaying re-sends the original event ID.
+            </p>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">No deliveries yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="px-6 py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExpandedId(
+                          expandedId === delivery.id ? null : delivery.id,
+                        )
+                      }
+                      className="flex min-w-0 items-center gap-2 text-left"
+                    >
+                      {expandedId === delivery.id ? (
+                        <ChevronDown className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                      )}
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[delivery.status]}`}
+                      >
+                        {delivery.status}
+                      </span>
+                      <span className="font-mono text-sm text-gray-900">
+                        {delivery.eventType}
+                      </span>
+                      <span className="truncate text-sm text-gray-500">
+                        {delivery.url}
+                      </span>
+                    </button>
+                    <div className="flex flex-shrink-0 items-center gap-3">
+                      <span className="text-xs text-gray-500">
+                        {new Date(delivery.createdAt).toLocaleString()}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleReplay(delivery)}
+                        disabled={replayingId === delivery.id}
+                        title="Replay"
+                        className="flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-blue-50 hover:text-blue-600 disabled:opacity-50"
+                      >
+                        {replayingId === delivery.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedId === delivery.id && (
+                    <div className="mt-3 space-y-3 pl-6 text-sm">
+                      <p className="text-gray-600">
+                        {delivery.attempts} attempt
+                        {delivery.attempts !== 1 ? 's' : ''}
+                        {delivery.responseStatus !== undefined &&
+                          ` · HTTP ${delivery.responseStatus}`}
+                        {delivery.durationMs !== undefined &&
+                          ` · ${delivery.durationMs}ms`}
+                        {delivery.replayOf && ' · Replay'}
+                      </p>
+                      {delivery.error && (
+                        <p className="text-red-600">{delivery.error}</p>
+                      )}
+                      <div>
+                        <p className="mb-1 font-medium text-gray-700">
+                          Payload
+                        </p>
+                        <pre className="max-h-64 overflow-auto rounded bg-gray-50 p-3 text-xs text-gray-800">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { pieces, wholesale } from '@madebuy/db'
+import { getOnlineAvailableStock, toMinorUnits } from '@madebuy/shared'
+import { BuyerManager } from '@/components/wholesale/BuyerManager'
+import { WholesaleOrderForm } from '@/components/wholesale/WholesaleOrderForm'
+import { WholesaleOrderList } from '@/components/wholesale/WholesaleOrderList'
+import { requireTenant } from '@/lib/session'
+
+export default async function WholesalePage() {
+  const tenant = await requireTenant()
+  const [buyers, orderList, piecesResult] = await Promise.all([
+    wholesale.listBuyers(tenant.id),
+    wholesale.listWholesaleOrders(tenant.id),
+    pieces.listPieces(tenant.id),
+  ])
+  const allPieces = 'data' in piecesResult ? piecesResult.data : piecesResult
+
+  const pieceOptions = allPieces.map((piece) => ({
+    id: piece.id,
+    name: piece.name,
+    // Piece prices are in dollars; the wholesale forms work in cents
+    price:
+      piece.price !== undefined
+        ? toMinorUnits(piece.price, piece.currency)
+        : undefined,
+    stock: getOnlineAvailableStock({
+      stock: piece.stock,
+      heldStock: piece.heldStock,
+    }),
+  }))
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Wholesale</h1>
+        <p className="mt-2 text-gray-600">
+          Retailers buying at trade prices. Orders are invoiced on each
+          buyer&apos;s payment terms and paid by bank transfer.
+        </p>
+      </div>
+
+      <div>
+        <h2 className="mb-3 text-lg font-semibold text-gray-900">Orders</h2>
+        <div className="space-y-4">
+          <WholesaleOrderForm buyers={buyers} pieces={pieceOptions} />
+          <WholesaleOrderList orders={orderList} />
+        </div>
+      </div>
+
+      <div>
+        <h2 className="mb-3 text-lg font-semibold text-gray-900">Buyers</h2>
+        <BuyerManager buyers={buyers} pieces={pieceOptions} />
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,23 @@
 'use client'
 
-import type { Workshop, WorkshopBooking, WorkshopSlot } from '@madebuy/shared'
-import { ArrowLeft, Calendar, Plus, Save, Trash2, Users } from 'lucide-react'
+import type {
+  Workshop,
+  WorkshopBooking,
+  WorkshopSlot,
+  WorkshopWaitlistEntry,
+} from '@madebuy/shared'
+import {
+  ArrowLeft,
+  Calendar,
+  Plus,
+  Repeat,
+  Save,
+  Trash2,
+  Users,
+} from 'lucide-react'
 import { useParams, useRouter } from 'next/navigation'
 import { useCallback, useEffect, useState } from 'react'
+import { SlotSeriesPanel } from '@/components/workshops/SlotSeriesPanel'
 
 function formatDateTime(date: Date): string {
   return new Date(date).toLocaleString('en-AU', {
@@ -26,6 +40,7 @@ export default function EditWorkshopPage() {
 
   const [workshop, setWorkshop] = useState<Workshop | null>(null)
   const [bookings, setBookings] = useState<WorkshopBooking[]>([])
+  const [waitlist, setWaitlist] = useState<WorkshopWaitlistEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [showSlotForm, setShowSlotForm] = useState(false)
@@ -58,10 +73,26 @@ export default function EditWorkshopPage() {
     }
   }, [workshopId])
 
+  const fetchWaitlist = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/workshops/${workshopId}/waitlist`)
+      const data = await res.json()
+      setWaitlist(data.entries || [])
+    } catch (error) {
+      console.error('Failed to fetch waitlist:', error)
+    }
+  }, [workshopId])
+
   useEffect(() => {
     fetchWorkshop()
     fetchBookings()
-  }, [fetchWorkshop, fetchBookings])
+    fetchWaitlist()
+  }, [fetchWorkshop, fetchBookings, fetchWaitlist])
+
+  const waitlistCount = (slotId: string) =>
+    waitlist.filter(
+      (entry) => entry.slotId === slotId && entry.status === 'waiting',
+    ).length
 
   const handleAddSlot = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -166,7 +197,10 @@ export default function EditWorkshopPage() {
               </div>
               <div>
                 <span className="text-gray-500">Capacity:</span>
-                <div className="font-medium">{workshop.capacity} people</div>
+                <div className="font-medium">
+                  {workshop.capacity} people
+                  {workshop.minCapacity ? ` (min ${workshop.minCapacity})` : ''}
+                </div>
               </div>
               <div>
                 <span className="text-gray-500">Location:</span>
@@ -245,6 +279,12 @@ export default function EditWorkshopPage() {
               </form>
             )}
 
+            <SlotSeriesPanel
+              workshopId={workshop.id}
+              series={workshop.slotSeries || []}
+              onChange={fetchWorkshop}
+            />
+
             <div className="space-y-2">
               {workshop.slots.length === 0 ? (
                 <p className="text-gray-500 text-sm text-center py-8">
@@ -257,12 +297,29 @@ export default function EditWorkshopPage() {
                     className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
                   >
                     <div className="flex-1">
-                      <div className="font-medium text-sm">
+                      <div className="flex items-center gap-1 font-medium text-sm">
                         {formatDateTime(slot.startTime)}
+                        {slot.seriesId && (
+                          <Repeat
+                            className="w-3 h-3 text-blue-600"
+                            aria-label={
+                              slot.isSeriesException
+                                ? 'Repeating (edited individually)'
+                                : 'Repeating'
+                            }
+                          />
+                        )}
                       </div>
                       <div className="text-xs text-gray-500">
                         {slot.bookedCount} / {slot.capacity} booked
+                        {waitlistCount(slot.id) > 0 &&
+                          ` · ${waitlistCount(slot.id)} on waitlist`}
                       </div>
+                      {slot.cancellationReason && (
+                        <div className="text-xs text-red-600">
+                          {slot.cancellationReason}
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <span
@@ -185,6 +185,56 @@ export default function NewWorkshopPage() {
             </div>
           </div>
 
+          {/* Minimum Attendance */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Minimum Attendees
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={formData.minCapacity ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    minCapacity: e.target.value
+                      ? parseInt(e.target.value)
+                      : undefined,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="No minimum"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Sessions below this are cancelled and refunded automatically
+              </p>
+            </div>
+
+            {formData.minCapacity ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Cancellation Cutoff (hours before start)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.minCapacityCutoffHours ?? ''}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      minCapacityCutoffHours: e.target.value
+                        ? parseInt(e.target.value)
+                        : undefined,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="48"
+                />
+              </div>
+            ) : null}
+          </div>
+
           {/* Location */}
           <div className="space-y-4">
             <h2 className="text-lg font-semibold text-gray-900">Location</h2>
@@ -254,6 +304,30 @@ export default function NewWorkshopPage() {
               </div>
             )}
 
+            {(formData.locationType === 'virtual' ||
+              formData.locationType === 'hybrid') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Meeting URL
+                </label>
+                <input
+                  type="url"
+                  value={formData.virtualMeetingUrl || ''}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      virtualMeetingUrl: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="https://zoom.us/j/..."
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Only shared with attendees in their reminder email
+                </p>
+              </div>
+            )}
+
             {(formData.locationType === 'virtual' ||
               formData.locationType === 'hybrid') && (
               <div>
@@ -270,7 +344,7 @@ export default function NewWorkshopPage() {
                     })
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Meeting link will be sent after booking. Instructions for joining..."
+                  placeholder="Meeting link will be sent before the session. Instructions for joining..."
                 />
               </div>
             )}
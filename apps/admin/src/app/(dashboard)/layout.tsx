@@ -4,7 +4,7 @@ import { redirect } from 'next/navigation'
 import { CelebrationProvider } from '@/components/celebrations/CelebrationProvider'
 import { DashboardShell } from '@/components/dashboard/DashboardShell'
 import { RegionalProvider } from '@/components/providers/RegionalProvider'
-import { getCurrentTenant } from '@/lib/session'
+import { getCurrentRole, getCurrentTenant, getCurrentUser } from '@/lib/session'
 
 // Allow Next.js to cache this layout for 60 seconds (replaces force-dynamic)
 export const revalidate = 60
@@ -55,10 +55,17 @@ export default async function DashboardLayout({
     plan: tenant.plan || 'free',
   }
 
-  const user = {
-    name: tenant.businessName || '',
-    email: tenant.email || '',
-  }
+  // Staff see their own name; the owner is shown as the business
+  const [sessionUser, role] = await Promise.all([
+    getCurrentUser(),
+    getCurrentRole(),
+  ])
+  const user = sessionUser?.staffId
+    ? { name: sessionUser.name, email: sessionUser.email }
+    : {
+        name: tenant.businessName || '',
+        email: tenant.email || '',
+      }
 
   return (
     <RegionalProvider settings={tenant.regionalSettings || null}>
@@ -67,6 +74,7 @@ export default async function DashboardLayout({
           user={user}
           tenant={serializedTenant}
           marketplaceConnections={marketplaceConnections}
+          role={role ?? undefined}
         >
           {children}
         </DashboardShell>
@@ -0,0 +1,240 @@
+import { orders, pieces, tenants, transactions } from '@madebuy/db'
+import { DEFAULT_CHART_OF_ACCOUNTS } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+// Import handlers AFTER mocks
+import { GET as exportJournals } from '../accounting/export/route'
+import { GET as getAccounts, PUT as saveAccounts } from '../accounting/route'
+
+const SALE = {
+  id: 'tx-sale',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderId: 'order-1',
+  type: 'sale',
+  grossAmount: 11000,
+  stripeFee: 350,
+  platformFee: 0,
+  netAmount: 10650,
+  gstAmount: 1000,
+  currency: 'aud',
+  status: 'completed',
+  description: 'Order MB-1001',
+  createdAt: new Date('2026-08-14T02:00:00Z'),
+}
+
+const PAYOUT = {
+  id: 'tx-payout',
+  tenantId: MOCK_TENANT_FREE.id,
+  type: 'payout',
+  grossAmount: 10650,
+  stripeFee: 0,
+  platformFee: 0,
+  netAmount: 10650,
+  currency: 'aud',
+  stripePayoutId: 'po_123',
+  status: 'completed',
+  description: 'Payout to bank',
+  createdAt: new Date('2026-08-16T02:00:00Z'),
+}
+
+// Sum each account's debits minus credits across the exported lines
+function balances(csv: string): Record<string, number> {
+  const totals: Record<string, number> = {}
+  for (const row of csv.split('\n').slice(1)) {
+    const cells = row.split(',')
+    const account = cells[cells.length - 3]
+    const amount = Math.round(Number(cells[cells.length - 1]) * 100)
+    totals[account] = (totals[account] ?? 0) + amount
+  }
+  return totals
+}
+
+describe('Accounting API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(orders.getOrdersByIds).mockResolvedValue(
+      new Map([
+        ['order-1', { id: 'order-1', items: [{ pieceId: 'p1', quantity: 2 }] }],
+      ]) as any,
+    )
+    vi.mocked(pieces.getPiecesByIds).mockResolvedValue(
+      new Map([['p1', { id: 'p1', calculatedCOGS: 1500 }]]) as any,
+    )
+  })
+
+  describe('GET /api/accounting', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await getAccounts()
+
+      expect(res.status).toBe(401)
+    })
+
+    it('falls back to the default chart of accounts', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const res = await getAccounts()
+      const data = await res.json()
+
+      expect(data.accounts).toEqual(DEFAULT_CHART_OF_ACCOUNTS)
+    })
+  })
+
+  describe('PUT /api/accounting', () => {
+    it('saves trimmed account codes', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const res = await saveAccounts(
+        createRequest('/api/accounting', {
+          method: 'PUT',
+          body: {
+            accounts: { ...DEFAULT_CHART_OF_ACCOUNTS, bank: ' 1-1110 ' },
+          },
+        }),
+      )
+
+      expect(res.status).toBe(200)
+      expect(tenants.updateTenant).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, {
+        accountingSettings: {
+          accounts: { ...DEFAULT_CHART_OF_ACCOUNTS, bank: '1-1110' },
+        },
+      })
+    })
+
+    it('rejects a missing account code', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const res = await saveAccounts(
+        createRequest('/api/accounting', {
+          method: 'PUT',
+          body: { accounts: { ...DEFAULT_CHART_OF_ACCOUNTS, gst: '' } },
+        }),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.gst).toBeDefined()
+      expect(tenants.updateTenant).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/accounting/export', () => {
+    it('rejects an unknown format', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const res = await exportJournals(
+        createRequest('/api/accounting/export?format=quickbooks'),
+      )
+
+      expect(res.status).toBe(400)
+    })
+
+    it('exports balanced Xero journals that clear each payout', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(transactions.listTransactions).mockResolvedValue([
+        SALE,
+        PAYOUT,
+      ] as any)
+
+      const res = await exportJournals(
+        createRequest(
+          '/api/accounting/export?format=xero&startDate=2026-08-01&endDate=2026-08-31',
+        ),
+      )
+      const csv = await res.text()
+
+      expect(res.headers.get('Content-Disposition')).toContain(
+        'xero-journals-2026-08-01-to-2026-08-31.csv',
+      )
+      expect(transactions.listTransactions).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({
+          filters: expect.objectContaining({ status: 'completed' }),
+        }),
+      )
+      expect(csv.split('\n')[0]).toBe(
+        '*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount',
+      )
+      expect(csv).toContain('Payout to bank po_123 [tx-payout],16/08/2026')
+
+      const totals = balances(csv)
+      expect(totals).toEqual({
+        '095': 0, // Clearing account is emptied by the payout
+        '090': 10650,
+        '404': 350,
+        '200': -10000,
+        '820': -1000,
+        '310': 3000,
+        '630': -3000,
+      })
+    })
+
+    it('costs sales at the unit cost recorded when they were sold', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(transactions.listTransactions).mockResolvedValue([SALE] as any)
+      vi.mocked(orders.getOrdersByIds).mockResolvedValue(
+        new Map([
+          [
+            'order-1',
+            {
+              id: 'order-1',
+              items: [{ pieceId: 'p1', quantity: 2, unitCost: 1200 }],
+            },
+          ],
+        ]) as any,
+      )
+
+      const res = await exportJournals(
+        createRequest('/api/accounting/export?format=xero'),
+      )
+      const totals = balances(await res.text())
+
+      expect(totals['310']).toBe(2400)
+      expect(totals['630']).toBe(-2400)
+      expect(pieces.getPiecesByIds).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        [],
+      )
+    })
+
+    it('posts manual refunds against the bank account in MYOB format', async () => {
+      mockCurrentTenant({
+        ...MOCK_TENANT_FREE,
+        accountingSettings: {
+          accounts: { ...DEFAULT_CHART_OF_ACCOUNTS, bank: '1-1110' },
+        },
+      })
+      vi.mocked(transactions.listTransactions).mockResolvedValue([
+        {
+          ...SALE,
+          id: 'tx-refund',
+          type: 'refund',
+          stripeFee: 0,
+          netAmount: 11000,
+          description: 'Refund for order MB-1001',
+        },
+      ] as any)
+
+      const res = await exportJournals(
+        createRequest('/api/accounting/export?format=myob'),
+      )
+      const text = await res.text()
+      const rows = text.split('\r\n').map((row) => row.split('\t'))
+
+      expect(res.headers.get('Content-Type')).toContain('text/plain')
+      expect(rows[0]).toContain('Debit Amount')
+      expect(rows.slice(1).map((row) => [row[2], row[3], row[4]])).toEqual([
+        ['200', '100.00', ''],
+        ['820', '10.00', ''],
+        ['1-1110', '', '110.00'],
+      ])
+    })
+  })
+})
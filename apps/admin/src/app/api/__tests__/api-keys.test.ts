@@ -0,0 +1,275 @@
+import {
+  apiKeys,
+  auditLog,
+  orders,
+  pieces,
+  tenants,
+  variants,
+} from '@madebuy/db'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCurrentRole, getCurrentTenant, getCurrentUser } from '@/lib/session'
+
+// Import handlers AFTER mocks
+import { DELETE } from '../api-keys/[id]/route'
+import { GET, POST } from '../api-keys/route'
+import { PATCH as PATCH_INVENTORY } from '../v1/inventory/route'
+import { GET as GET_ORDERS } from '../v1/orders/route'
+import { PATCH as PATCH_ORDER } from '../v1/orders/[id]/route'
+
+const mockTenant = {
+  id: 'tenant-123',
+  email: 'owner@example.com',
+  businessName: 'Test Shop',
+  plan: 'studio',
+  features: { apiAccess: true },
+}
+
+const mockApiKey = {
+  id: 'key-1',
+  tenantId: 'tenant-123',
+  name: 'Warehouse sync',
+  prefix: 'mb_live_abc123',
+  scopes: ['orders:read', 'inventory:write'],
+  createdBy: 'owner@example.com',
+}
+
+function asOwner(tenant: object = mockTenant) {
+  vi.mocked(getCurrentTenant).mockResolvedValue(tenant)
+  vi.mocked(getCurrentRole).mockResolvedValue('owner')
+  vi.mocked(getCurrentUser).mockResolvedValue({
+    id: mockTenant.id,
+    email: mockTenant.email,
+    name: mockTenant.businessName,
+    role: 'owner',
+  })
+}
+
+function withKey(url: string, init: { method?: string; body?: string } = {}) {
+  return new NextRequest(url, {
+    ...init,
+    headers: { authorization: 'Bearer mb_live_secret' },
+  })
+}
+
+describe('API Keys - /api/api-keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 403 for staff without settings permission', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(getCurrentRole).mockResolvedValue('fulfilment')
+
+    const response = await GET()
+
+    expect(response.status).toBe(403)
+    expect(apiKeys.listApiKeys).not.toHaveBeenCalled()
+  })
+
+  it('refuses to create keys when API access is disabled', async () => {
+    asOwner({ ...mockTenant, plan: 'maker', features: { apiAccess: false } })
+    const request = new NextRequest('http://localhost/api/api-keys', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Sync', scopes: ['orders:read'] }),
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.code).toBe('FEATURE_GATED')
+    expect(apiKeys.createApiKey).not.toHaveBeenCalled()
+  })
+
+  it('rejects unknown scopes', async () => {
+    asOwner()
+    const request = new NextRequest('http://localhost/api/api-keys', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Sync', scopes: ['tenants:write'] }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(400)
+    expect(apiKeys.createApiKey).not.toHaveBeenCalled()
+  })
+
+  it('returns the secret once and records an audit entry', async () => {
+    asOwner()
+    vi.mocked(apiKeys.createApiKey).mockResolvedValue({
+      apiKey: mockApiKey,
+      secret: 'mb_live_secret',
+    })
+    const request = new NextRequest('http://localhost/api/api-keys', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: 'Warehouse sync',
+        scopes: ['orders:read', 'inventory:write'],
+      }),
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.secret).toBe('mb_live_secret')
+    expect(apiKeys.createApiKey).toHaveBeenCalledWith('tenant-123', {
+      name: 'Warehouse sync',
+      scopes: ['orders:read', 'inventory:write'],
+      createdBy: 'owner@example.com',
+    })
+    expect(auditLog.logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'api.key.create' }),
+    )
+  })
+
+  it('returns 404 when revoking an unknown key', async () => {
+    asOwner()
+    vi.mocked(apiKeys.revokeApiKey).mockResolvedValue(false)
+    const request = new NextRequest('http://localhost/api/api-keys/key-9', {
+      method: 'DELETE',
+    })
+
+    const response = await DELETE(request, {
+      params: Promise.resolve({ id: 'key-9' }),
+    })
+
+    expect(response.status).toBe(404)
+    expect(auditLog.logAuditEvent).not.toHaveBeenCalled()
+  })
+})
+
+describe('Public API - /api/v1', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant)
+  })
+
+  it('returns 401 without a bearer token', async () => {
+    const request = new NextRequest('http://localhost/api/v1/orders')
+
+    const response = await GET_ORDERS(request, undefined)
+
+    expect(response.status).toBe(401)
+    expect(apiKeys.getApiKeyBySecret).not.toHaveBeenCalled()
+  })
+
+  it('returns 401 for unknown or revoked keys', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(null)
+
+    const response = await GET_ORDERS(
+      withKey('http://localhost/api/v1/orders'),
+      undefined,
+    )
+
+    expect(response.status).toBe(401)
+  })
+
+  it('returns 403 when the key lacks the scope', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(mockApiKey)
+
+    const response = await PATCH_ORDER(
+      withKey('http://localhost/api/v1/orders/order-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'shipped' }),
+      }),
+      { params: Promise.resolve({ id: 'order-1' }) },
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.code).toBe('INSUFFICIENT_SCOPE')
+    expect(orders.updateOrderStatus).not.toHaveBeenCalled()
+  })
+
+  it('returns 403 when API access is turned off for the tenant', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(mockApiKey)
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      ...mockTenant,
+      features: { apiAccess: false },
+    })
+
+    const response = await GET_ORDERS(
+      withKey('http://localhost/api/v1/orders'),
+      undefined,
+    )
+
+    expect(response.status).toBe(403)
+    expect(orders.listOrders).not.toHaveBeenCalled()
+  })
+
+  it('lists orders for the key tenant with rate limit headers', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(mockApiKey)
+    vi.mocked(orders.listOrders).mockResolvedValue({
+      data: [{ _id: 'mongo-id', id: 'order-1', tenantId: 'tenant-123' }],
+      nextCursor: null,
+      hasMore: false,
+    })
+
+    const response = await GET_ORDERS(
+      withKey('http://localhost/api/v1/orders?limit=10'),
+      undefined,
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(orders.listOrders).toHaveBeenCalledWith(
+      'tenant-123',
+      { status: undefined },
+      { limit: 10, cursor: undefined },
+    )
+    expect(data.data).toEqual([{ id: 'order-1', tenantId: 'tenant-123' }])
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('120')
+    expect(apiKeys.touchApiKey).toHaveBeenCalledWith('key-1')
+  })
+
+  it('sets absolute stock for variants and pieces', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(mockApiKey)
+    vi.mocked(variants.bulkUpdateStock).mockResolvedValue({
+      updated: 1,
+      failed: [],
+    })
+    vi.mocked(pieces.getPiece).mockResolvedValue({ id: 'piece-2' })
+
+    const response = await PATCH_INVENTORY(
+      withKey('http://localhost/api/v1/inventory', {
+        method: 'PATCH',
+        body: JSON.stringify({
+          items: [
+            { pieceId: 'piece-1', variantId: 'variant-1', stock: 4 },
+            { pieceId: 'piece-2', stock: 10 },
+          ],
+        }),
+      }),
+      undefined,
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ updated: 2, failed: [] })
+    expect(variants.bulkUpdateStock).toHaveBeenCalledWith('tenant-123', [
+      { variantId: 'variant-1', stock: 4 },
+    ])
+    expect(pieces.updatePiece).toHaveBeenCalledWith('tenant-123', 'piece-2', {
+      stock: 10,
+    })
+  })
+
+  it('returns 400 for a malformed JSON body', async () => {
+    vi.mocked(apiKeys.getApiKeyBySecret).mockResolvedValue(mockApiKey)
+
+    const response = await PATCH_INVENTORY(
+      withKey('http://localhost/api/v1/inventory', {
+        method: 'PATCH',
+        body: '{"items": [',
+      }),
+      undefined,
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.code).toBe('VALIDATION_ERROR')
+    expect(variants.bulkUpdateStock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,248 @@
+import { consignments } from '@madebuy/db'
+import { ConflictError, ValidationError } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+// Import handlers (mocks from setup.ts are already active)
+import { DELETE as deleteConsignee } from '../consignments/[id]/route'
+import { POST as settleConsignee } from '../consignments/[id]/settle/route'
+import { POST as createPlacement } from '../consignments/placements/route'
+import { POST as recordReturn } from '../consignments/returns/route'
+import {
+  GET as listConsignees,
+  POST as createConsignee,
+} from '../consignments/route'
+import { POST as recordSale } from '../consignments/sales/route'
+
+const GALLERY = {
+  id: 'con-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  name: 'Harbour Gallery',
+  commissionRate: 40,
+  locationId: 'loc-gallery',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+describe('Consignments API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('/api/consignments', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await listConsignees()
+
+      expect(res.status).toBe(401)
+    })
+
+    it('lists consignee summaries', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.listConsigneeSummaries).mockResolvedValue([
+        {
+          consignee: GALLERY,
+          activePlacements: 1,
+          piecesHeld: 3,
+          unsettledSales: 1,
+          unsettledGross: 12000,
+          unsettledNet: 7200,
+        },
+      ])
+
+      const res = await listConsignees()
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.consignees[0].piecesHeld).toBe(3)
+    })
+
+    it('creates a consignee with a numeric commission rate', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.createConsignee).mockResolvedValue(GALLERY)
+
+      const req = createRequest('/api/consignments', {
+        method: 'POST',
+        body: { name: 'Harbour Gallery', commissionRate: '40' },
+      })
+      const res = await createConsignee(req)
+
+      expect(res.status).toBe(201)
+      expect(consignments.createConsignee).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({
+          name: 'Harbour Gallery',
+          commissionRate: 40,
+        }),
+      )
+    })
+
+    it('returns validation details when there is no stock location yet', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      const message =
+        'Add the location you keep stock at before adding consignees'
+      vi.mocked(consignments.createConsignee).mockRejectedValue(
+        new ValidationError(message, { locationId: [message] }),
+      )
+
+      const req = createRequest('/api/consignments', {
+        method: 'POST',
+        body: { name: 'Harbour Gallery', commissionRate: 40 },
+      })
+      const res = await createConsignee(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.locationId[0]).toBe(message)
+    })
+  })
+
+  describe('/api/consignments/[id]', () => {
+    it('refuses to delete a consignee still holding pieces', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.deleteConsignee).mockRejectedValue(
+        new ConflictError('Still on consignment', {
+          consignee: ['Still on consignment'],
+        }),
+      )
+
+      const req = createRequest('/api/consignments/con-1', {
+        method: 'DELETE',
+      })
+      const res = await deleteConsignee(req, { params: { id: 'con-1' } })
+
+      expect(res.status).toBe(409)
+    })
+  })
+
+  describe('placements, sales and returns', () => {
+    it('places pieces from a location', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.createPlacement).mockResolvedValue({
+        id: 'pl-1',
+      } as any)
+
+      const req = createRequest('/api/consignments/placements', {
+        method: 'POST',
+        body: {
+          consigneeId: 'con-1',
+          fromLocationId: 'loc-studio',
+          items: [{ pieceId: 'piece-1', quantity: '2' }],
+        },
+      })
+      const res = await createPlacement(req)
+
+      expect(res.status).toBe(201)
+      expect(consignments.createPlacement).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        {
+          consigneeId: 'con-1',
+          fromLocationId: 'loc-studio',
+          items: [{ pieceId: 'piece-1', quantity: 2, retailPrice: undefined }],
+          notes: undefined,
+        },
+      )
+    })
+
+    it('records a reported sale', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.recordSale).mockResolvedValue({
+        id: 'sale-1',
+        grossAmount: 12000,
+        commissionAmount: 4800,
+        netAmount: 7200,
+      } as any)
+
+      const req = createRequest('/api/consignments/sales', {
+        method: 'POST',
+        body: {
+          placementId: 'pl-1',
+          pieceId: 'piece-1',
+          quantity: 1,
+          salePrice: 12000,
+        },
+      })
+      const res = await recordSale(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(201)
+      expect(data.sale.netAmount).toBe(7200)
+    })
+
+    it('returns 400 when more are sold than the consignee holds', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      const message = 'Only 1 of Vase still with Harbour Gallery'
+      vi.mocked(consignments.recordSale).mockRejectedValue(
+        new ValidationError(message, { items: [message] }),
+      )
+
+      const req = createRequest('/api/consignments/sales', {
+        method: 'POST',
+        body: { placementId: 'pl-1', pieceId: 'piece-1', quantity: 2 },
+      })
+      const res = await recordSale(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.items[0]).toBe(message)
+    })
+
+    it('returns pieces to a location', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.recordReturn).mockResolvedValue({
+        id: 'pl-1',
+        status: 'closed',
+      } as any)
+
+      const req = createRequest('/api/consignments/returns', {
+        method: 'POST',
+        body: {
+          placementId: 'pl-1',
+          toLocationId: 'loc-studio',
+          items: [{ pieceId: 'piece-1', quantity: 1 }],
+        },
+      })
+      const res = await recordReturn(req)
+
+      expect(res.status).toBe(200)
+      expect(consignments.recordReturn).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        {
+          placementId: 'pl-1',
+          toLocationId: 'loc-studio',
+          items: [{ pieceId: 'piece-1', quantity: 1 }],
+        },
+      )
+    })
+  })
+
+  describe('/api/consignments/[id]/settle', () => {
+    it('settles with the payment reference', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(consignments.settleConsignee).mockResolvedValue({
+        id: 'set-1',
+        netAmount: 7200,
+        transactionId: 'txn-1',
+      } as any)
+
+      const req = createRequest('/api/consignments/con-1/settle', {
+        method: 'POST',
+        body: { reference: 'EFT 0412' },
+      })
+      const res = await settleConsignee(req, { params: { id: 'con-1' } })
+
+      expect(res.status).toBe(201)
+      expect(consignments.settleConsignee).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'con-1',
+        { reference: 'EFT 0412' },
+      )
+    })
+  })
+})
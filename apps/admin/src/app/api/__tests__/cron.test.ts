@@ -1,5 +1,14 @@
-import { publish, tenants } from '@madebuy/db'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  customers,
+  disputes,
+  messages,
+  orders,
+  publish,
+  tenants,
+  workshops,
+} from '@madebuy/db'
+import { verifyReviewRequestToken } from '@madebuy/shared'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createRequest } from '../../../__tests__/setup'
 
 const mockExecutePublishRecord = vi.fn()
@@ -7,6 +16,33 @@ vi.mock('@/lib/publish-execute', () => ({
   executePublishRecord: (...args: any[]) => mockExecutePublishRecord(...args),
 }))
 
+const mockSendDeliveryUpdateEmail = vi.fn()
+const mockSendReviewRequestEmail = vi.fn()
+const mockSendWorkshopReminderEmail = vi.fn()
+const mockSendWorkshopCancelledEmail = vi.fn()
+const mockSendWaitlistPromotedEmail = vi.fn()
+const mockSendDisputeEvidenceReminderEmail = vi.fn()
+vi.mock('@/lib/email', () => ({
+  sendAbandonedCartEmail: vi.fn(),
+  sendDeliveryUpdateEmail: (...args: any[]) =>
+    mockSendDeliveryUpdateEmail(...args),
+  sendReviewRequestEmail: (...args: any[]) =>
+    mockSendReviewRequestEmail(...args),
+  sendWorkshopReminderEmail: (...args: any[]) =>
+    mockSendWorkshopReminderEmail(...args),
+  sendWorkshopCancelledEmail: (...args: any[]) =>
+    mockSendWorkshopCancelledEmail(...args),
+  sendWaitlistPromotedEmail: (...args: any[]) =>
+    mockSendWaitlistPromotedEmail(...args),
+  sendDisputeEvidenceReminderEmail: (...args: any[]) =>
+    mockSendDisputeEvidenceReminderEmail(...args),
+}))
+
+const mockRefundsCreate = vi.fn()
+vi.mock('stripe', () => ({
+  default: vi.fn(() => ({ refunds: { create: mockRefundsCreate } })),
+}))
+
 // Import handlers AFTER mocks
 import { GET as resetUsage, POST as resetUsagePost } from '../cron/reset-usage/route'
 import { GET as cronPublish, POST as cronPublishPost } from '../cron/publish/route'
@@ -14,6 +50,10 @@ import {
   GET as abandonedCart,
   POST as abandonedCartPost,
 } from '../cron/abandoned-cart/route'
+import { GET as shipmentTracking } from '../cron/shipment-tracking/route'
+import { GET as reviewRequests } from '../cron/review-requests/route'
+import { GET as workshopJobs } from '../cron/workshops/route'
+import { GET as disputeReminders } from '../cron/dispute-reminders/route'
 
 describe('Cron API - Reset Usage', () => {
   beforeEach(() => {
@@ -255,3 +295,533 @@ describe('Cron API - Abandoned Cart', () => {
     })
   })
 })
+
+describe('Cron API - Shipment Tracking', () => {
+  const sendleTenant = {
+    id: 'tenant-123',
+    businessName: 'Test Shop',
+    sendleSettings: {
+      isConnected: true,
+      apiKey: 'sendle-key',
+      senderId: 'sendle-id',
+      environment: 'sandbox',
+    },
+  }
+
+  const shippedOrder = {
+    id: 'order-1',
+    orderNumber: 'MB-1',
+    status: 'shipped',
+    customerEmail: 'jo@example.com',
+    customerName: 'Jo',
+    sendleReference: 'SNDLE123',
+    items: [],
+  }
+
+  function stubSendleTracking(events: unknown[]) {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ tracking_events: events }), {
+          status: 200,
+        }),
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  function trackingRequest() {
+    return createRequest('/api/cron/shipment-tracking', {
+      headers: { authorization: 'Bearer test-cron-secret' },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret')
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([sendleTenant])
+    vi.mocked(messages.createOrderAccessToken).mockResolvedValue({
+      token: 'order-token',
+    })
+    mockSendDeliveryUpdateEmail.mockResolvedValue({ success: true })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns 401 without the cron secret', async () => {
+    const res = await shipmentTracking(
+      createRequest('/api/cron/shipment-tracking'),
+    )
+    expect(res.status).toBe(401)
+  })
+
+  it('marks the order delivered and emails the customer', async () => {
+    const fetchMock = stubSendleTracking([
+      {
+        event_type: 'In Transit',
+        scan_time: '2026-10-01T01:00:00Z',
+        description: 'In transit to Sydney',
+      },
+      {
+        event_type: 'Delivered',
+        scan_time: '2026-10-02T03:00:00Z',
+        description: 'Parcel delivered',
+        location: 'SYDNEY',
+      },
+    ])
+    vi.mocked(orders.getOrdersInTransit).mockResolvedValue([shippedOrder])
+
+    const res = await shipmentTracking(trackingRequest())
+    const data = await res.json()
+
+    expect(data.delivered).toBe(1)
+    expect(fetchMock.mock.calls[0][0]).toContain('/tracking/SNDLE123')
+    expect(orders.updateOrderStatus).toHaveBeenCalledWith(
+      'tenant-123',
+      'order-1',
+      'delivered',
+    )
+    expect(orders.updateOrder).toHaveBeenCalledWith('tenant-123', 'order-1', {
+      tracking: expect.objectContaining({
+        state: 'delivered',
+        events: [
+          expect.objectContaining({ type: 'Delivered', location: 'SYDNEY' }),
+          expect.objectContaining({ type: 'In Transit' }),
+        ],
+      }),
+      deliveredAt: new Date('2026-10-02T03:00:00Z'),
+    })
+    expect(mockSendDeliveryUpdateEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'delivered',
+        orderUrl: expect.stringContaining('/order/order-token'),
+      }),
+    )
+  })
+
+  it('sends a delay email once for a failed delivery attempt', async () => {
+    stubSendleTracking([
+      {
+        event_type: 'Delivery Attempted',
+        scan_time: new Date().toISOString(),
+        description: 'Delivery attempted',
+        reason: 'No safe place',
+      },
+    ])
+    vi.mocked(orders.getOrdersInTransit).mockResolvedValue([shippedOrder])
+
+    await shipmentTracking(trackingRequest())
+
+    expect(orders.updateOrderStatus).not.toHaveBeenCalled()
+    expect(mockSendDeliveryUpdateEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'delayed',
+        latestUpdate: 'Delivery attempted (No safe place)',
+      }),
+    )
+    expect(orders.updateOrder).toHaveBeenCalledWith('tenant-123', 'order-1', {
+      tracking: expect.objectContaining({
+        state: 'delayed',
+        delayNotifiedAt: expect.any(Date),
+      }),
+    })
+
+    // Already told the customer - don't email again
+    vi.clearAllMocks()
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([sendleTenant])
+    vi.mocked(orders.getOrdersInTransit).mockResolvedValue([
+      {
+        ...shippedOrder,
+        tracking: { state: 'delayed', events: [], delayNotifiedAt: new Date() },
+      },
+    ])
+
+    await shipmentTracking(trackingRequest())
+
+    expect(mockSendDeliveryUpdateEmail).not.toHaveBeenCalled()
+  })
+})
+
+describe('Cron API - Review Requests', () => {
+  const tenant = {
+    id: 'tenant-123',
+    slug: 'test-shop',
+    businessName: 'Test Shop',
+    reviewRequestSettings: { enabled: true, delayDays: 10 },
+  }
+
+  const deliveredOrder = {
+    id: 'order-1',
+    orderNumber: 'MB-1',
+    status: 'delivered',
+    customerEmail: 'jo@example.com',
+    customerName: 'Jo',
+    items: [{ pieceId: 'piece-1', name: 'Mug', price: 40, quantity: 1 }],
+  }
+
+  function reviewRequest() {
+    return createRequest('/api/cron/review-requests', {
+      headers: { authorization: 'Bearer test-cron-secret' },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret')
+    vi.stubEnv('REVIEW_REQUEST_SECRET', 'review-secret')
+    vi.stubEnv('UNSUBSCRIBE_SECRET', 'unsubscribe-secret')
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([tenant])
+    vi.mocked(orders.getOrdersForReviewRequest).mockResolvedValue([
+      deliveredOrder,
+    ])
+    vi.mocked(customers.getCustomerByEmail).mockResolvedValue(null)
+    mockSendReviewRequestEmail.mockResolvedValue({ success: true })
+  })
+
+  it('returns 500 when the review link secret is missing', async () => {
+    vi.stubEnv('REVIEW_REQUEST_SECRET', '')
+
+    const res = await reviewRequests(reviewRequest())
+
+    expect(res.status).toBe(500)
+    expect(mockSendReviewRequestEmail).not.toHaveBeenCalled()
+  })
+
+  it('emails a signed review link after the tenant delay', async () => {
+    const res = await reviewRequests(reviewRequest())
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.sent).toBe(1)
+    expect(orders.getOrdersForReviewRequest).toHaveBeenCalledWith(
+      'tenant-123',
+      10,
+    )
+
+    const { reviewUrl, unsubscribeUrl } =
+      mockSendReviewRequestEmail.mock.calls[0][0]
+    expect(reviewUrl).toMatch(
+      /^https:\/\/madebuy\.com\.au\/test-shop\/review\//,
+    )
+    expect(unsubscribeUrl).toContain('email=jo%40example.com')
+    expect(
+      verifyReviewRequestToken('review-secret', reviewUrl.split('/review/')[1]),
+    ).toMatchObject({
+      tenantId: 'tenant-123',
+      orderId: 'order-1',
+      email: 'jo@example.com',
+    })
+    expect(orders.markReviewRequestSent).toHaveBeenCalledWith(
+      'tenant-123',
+      'order-1',
+    )
+  })
+
+  it('skips tenants that have not turned review requests on', async () => {
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([
+      { ...tenant, reviewRequestSettings: undefined },
+    ])
+
+    await reviewRequests(reviewRequest())
+
+    expect(orders.getOrdersForReviewRequest).not.toHaveBeenCalled()
+  })
+
+  it('does not email unsubscribed customers but stops asking', async () => {
+    vi.mocked(customers.getCustomerByEmail).mockResolvedValue({
+      emailSubscribed: false,
+    })
+
+    const res = await reviewRequests(reviewRequest())
+    const data = await res.json()
+
+    expect(data.skipped).toBe(1)
+    expect(mockSendReviewRequestEmail).not.toHaveBeenCalled()
+    expect(orders.markReviewRequestSent).toHaveBeenCalled()
+  })
+
+  it('retries next run when the email fails', async () => {
+    mockSendReviewRequestEmail.mockResolvedValue({
+      success: false,
+      error: 'Resend down',
+    })
+
+    const res = await reviewRequests(reviewRequest())
+    const data = await res.json()
+
+    expect(data.errors).toBe(1)
+    expect(orders.markReviewRequestSent).not.toHaveBeenCalled()
+  })
+})
+
+describe('Cron API - Workshops', () => {
+  const tenant = { id: 'tenant-123', slug: 'test-shop', businessName: 'Test Shop' }
+
+  const slot = {
+    id: 'slot-1',
+    workshopId: 'ws-1',
+    startTime: new Date(Date.now() + 12 * 60 * 60 * 1000),
+    capacity: 8,
+    bookedCount: 4,
+    status: 'available',
+  }
+
+  const workshop = {
+    id: 'ws-1',
+    name: 'Wheel Throwing',
+    locationType: 'virtual',
+    virtualMeetingUrl: 'https://zoom.us/j/123',
+    minCapacity: 3,
+    slots: [slot],
+  }
+
+  const paidBooking = {
+    id: 'booking-1',
+    slotId: 'slot-1',
+    customerEmail: 'jo@example.com',
+    customerName: 'Jo',
+    numberOfAttendees: 2,
+    total: 9000,
+    paymentStatus: 'paid',
+    stripePaymentIntentId: 'pi_123',
+    status: 'confirmed',
+  }
+
+  function workshopRequest() {
+    return createRequest('/api/cron/workshops', {
+      headers: { authorization: 'Bearer test-cron-secret' },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret')
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_123')
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([tenant])
+    vi.mocked(workshops.getSlotsBelowMinCapacity).mockResolvedValue([])
+    vi.mocked(workshops.getSlotsStartingBetween).mockResolvedValue([])
+    vi.mocked(workshops.getWaitlistPromotionsToNotify).mockResolvedValue([])
+    vi.mocked(workshops.listBookings).mockResolvedValue({
+      data: [paidBooking],
+      nextCursor: null,
+      hasMore: false,
+    })
+    mockRefundsCreate.mockResolvedValue({ id: 're_123' })
+    mockSendWorkshopReminderEmail.mockResolvedValue({ success: true })
+    mockSendWorkshopCancelledEmail.mockResolvedValue({ success: true })
+    mockSendWaitlistPromotedEmail.mockResolvedValue({ success: true })
+  })
+
+  it('refunds bookings and cancels slots below minimum capacity', async () => {
+    const underfilled = { ...slot, bookedCount: 2 }
+    vi.mocked(workshops.getSlotsBelowMinCapacity).mockResolvedValue([
+      { workshop, slot: underfilled },
+    ])
+
+    const res = await workshopJobs(workshopRequest())
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.cancelledSlots).toBe(1)
+    expect(data.refunds).toBe(1)
+    expect(mockRefundsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payment_intent: 'pi_123',
+        amount: 9000,
+        reverse_transfer: true,
+      }),
+      expect.objectContaining({ idempotencyKey: expect.any(String) }),
+    )
+    expect(workshops.cancelBookingForSlot).toHaveBeenCalledWith(
+      'tenant-123',
+      'booking-1',
+      expect.objectContaining({ refundId: 're_123', amount: 9000 }),
+    )
+    expect(workshops.cancelSlot).toHaveBeenCalledWith(
+      'tenant-123',
+      'ws-1',
+      'slot-1',
+      expect.any(String),
+    )
+    expect(mockSendWorkshopCancelledEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ refundedAmount: 9000 }),
+    )
+  })
+
+  it('keeps the slot open for a retry when a refund fails', async () => {
+    vi.mocked(workshops.getSlotsBelowMinCapacity).mockResolvedValue([
+      { workshop, slot: { ...slot, bookedCount: 2 } },
+    ])
+    mockRefundsCreate.mockRejectedValue(new Error('Stripe unavailable'))
+
+    const res = await workshopJobs(workshopRequest())
+    const data = await res.json()
+
+    expect(data.errors).toBe(1)
+    expect(workshops.cancelSlot).not.toHaveBeenCalled()
+    expect(workshops.cancelBookingForSlot).not.toHaveBeenCalled()
+  })
+
+  it('sends reminders with the meeting link and records them', async () => {
+    vi.mocked(workshops.getSlotsStartingBetween).mockResolvedValue([
+      { workshop, slot },
+    ])
+    vi.mocked(workshops.getBookingsForReminder).mockResolvedValue([paidBooking])
+
+    const res = await workshopJobs(workshopRequest())
+    const data = await res.json()
+
+    expect(data.reminders).toBe(1)
+    expect(mockSendWorkshopReminderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        customer: expect.objectContaining({ email: 'jo@example.com' }),
+        workshop: expect.objectContaining({
+          virtualMeetingUrl: 'https://zoom.us/j/123',
+        }),
+      }),
+    )
+    expect(workshops.markReminderSent).toHaveBeenCalledWith(
+      'tenant-123',
+      'booking-1',
+    )
+  })
+
+  it('does not remind attendees of slots still below minimum', async () => {
+    vi.mocked(workshops.getSlotsStartingBetween).mockResolvedValue([
+      { workshop, slot: { ...slot, bookedCount: 1 } },
+    ])
+
+    await workshopJobs(workshopRequest())
+
+    expect(workshops.getBookingsForReminder).not.toHaveBeenCalled()
+    expect(mockSendWorkshopReminderEmail).not.toHaveBeenCalled()
+  })
+
+  it('emails promoted waitlist entries once', async () => {
+    vi.mocked(workshops.getWaitlistPromotionsToNotify).mockResolvedValue([
+      {
+        id: 'wait-1',
+        workshopId: 'ws-1',
+        slotId: 'slot-1',
+        customerEmail: 'sam@example.com',
+        customerName: 'Sam',
+        numberOfAttendees: 1,
+        status: 'promoted',
+        bookingId: 'booking-2',
+      },
+    ])
+    vi.mocked(workshops.getWorkshopById).mockResolvedValue(workshop)
+
+    const res = await workshopJobs(workshopRequest())
+    const data = await res.json()
+
+    expect(data.waitlistNotified).toBe(1)
+    expect(mockSendWaitlistPromotedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        customer: expect.objectContaining({ email: 'sam@example.com' }),
+      }),
+    )
+    expect(workshops.markWaitlistNotified).toHaveBeenCalledWith(
+      'tenant-123',
+      'wait-1',
+    )
+  })
+})
+
+describe('Cron API - Dispute Reminders', () => {
+  const tenant = {
+    id: 'tenant-123',
+    businessName: 'Test Shop',
+    email: 'maker@example.com',
+  }
+
+  function inDays(days: number) {
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000 - 60 * 1000)
+  }
+
+  function dispute(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'dispute-1',
+      tenantId: 'tenant-123',
+      stripeDisputeId: 'dp_123',
+      amount: 4500,
+      currency: 'AUD',
+      status: 'needs_response',
+      reason: 'product_not_received',
+      evidenceDueBy: inDays(3),
+      ...overrides,
+    }
+  }
+
+  function reminderRequest() {
+    return createRequest('/api/cron/dispute-reminders', {
+      headers: { authorization: 'Bearer test-cron-secret' },
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret')
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([tenant] as any)
+    mockSendDisputeEvidenceReminderEmail.mockResolvedValue({ success: true })
+  })
+
+  it('requires the cron secret', async () => {
+    const res = await disputeReminders(
+      createRequest('/api/cron/dispute-reminders'),
+    )
+
+    expect(res.status).toBe(401)
+  })
+
+  it('reminds the seller once a threshold is reached', async () => {
+    vi.mocked(disputes.getDisputesNeedingResponse).mockResolvedValue([
+      dispute({ evidenceReminderDays: 7 }),
+    ] as any)
+
+    const res = await disputeReminders(reminderRequest())
+    const data = await res.json()
+
+    expect(data.sent).toBe(1)
+    expect(mockSendDisputeEvidenceReminderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ daysLeft: 3 }),
+    )
+    expect(disputes.markEvidenceReminderSent).toHaveBeenCalledWith(
+      'tenant-123',
+      'dispute-1',
+      3,
+    )
+  })
+
+  it('skips reminders already sent, submitted evidence and far deadlines', async () => {
+    vi.mocked(disputes.getDisputesNeedingResponse).mockResolvedValue([
+      dispute({ evidenceReminderDays: 3 }),
+      dispute({ id: 'dispute-2', evidenceSubmittedAt: new Date() }),
+      dispute({ id: 'dispute-3', evidenceDueBy: inDays(12) }),
+      dispute({ id: 'dispute-4', evidenceDueBy: inDays(-1) }),
+    ] as any)
+
+    const res = await disputeReminders(reminderRequest())
+    const data = await res.json()
+
+    expect(data.sent).toBe(0)
+    expect(mockSendDisputeEvidenceReminderEmail).not.toHaveBeenCalled()
+  })
+
+  it('retries the reminder next run when the email fails', async () => {
+    vi.mocked(disputes.getDisputesNeedingResponse).mockResolvedValue([
+      dispute({ evidenceDueBy: inDays(1) }),
+    ] as any)
+    mockSendDisputeEvidenceReminderEmail.mockResolvedValue({
+      success: false,
+      error: 'Resend down',
+    })
+
+    const res = await disputeReminders(reminderRequest())
+    const data = await res.json()
+
+    expect(data.errors).toBe(1)
+    expect(disputes.markEvidenceReminderSent).not.toHaveBeenCalled()
+  })
+})
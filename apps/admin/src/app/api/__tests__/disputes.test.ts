@@ -0,0 +1,292 @@
+import { disputes, downloads, messages, orders } from '@madebuy/db'
+import { ConflictError } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+const mockDisputesUpdate = vi.fn()
+vi.mock('stripe', () => {
+  class StripeError extends Error {}
+  const Stripe = vi.fn(() => ({ disputes: { update: mockDisputesUpdate } }))
+  return { default: Object.assign(Stripe, { errors: { StripeError } }) }
+})
+
+// Import handlers AFTER mocks
+import {
+  POST as submitEvidence,
+  PUT as saveEvidence,
+} from '../disputes/[id]/evidence/route'
+import { GET as getDispute } from '../disputes/[id]/route'
+
+const DISPUTE = {
+  id: 'dispute-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderId: 'order-1',
+  stripeDisputeId: 'dp_123',
+  amount: 4500,
+  currency: 'AUD',
+  status: 'needs_response',
+  reason: 'product_not_received',
+  evidenceDueBy: new Date('2026-10-25'),
+  createdAt: new Date('2026-10-10'),
+  updatedAt: new Date('2026-10-10'),
+}
+
+const ORDER = {
+  id: 'order-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderNumber: 'ORD-ABC123',
+  customerName: 'Sam Buyer',
+  customerEmail: 'sam@example.com',
+  items: [{ pieceId: 'piece-1', name: 'Stoneware mug', quantity: 2 }],
+  shippingAddress: {
+    line1: '4 Smith St',
+    city: 'Fitzroy',
+    state: 'VIC',
+    postcode: '3065',
+    country: 'AU',
+  },
+  sendleOrderId: 'sendle-1',
+  sendleReference: 'SNXYZ',
+  shippedAt: new Date('2026-09-20T01:00:00Z'),
+  deliveredAt: new Date('2026-09-23T04:30:00Z'),
+  tracking: {
+    state: 'delivered',
+    events: [
+      {
+        occurredAt: new Date('2026-09-23T04:30:00Z'),
+        type: 'Delivered',
+        description: 'Parcel delivered',
+        location: 'Fitzroy VIC',
+      },
+    ],
+    checkedAt: new Date('2026-09-23T05:00:00Z'),
+  },
+  hasDigitalItems: true,
+}
+
+describe('Disputes API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_123')
+  })
+
+  describe('GET /api/disputes/[id]', () => {
+    const params = { params: { id: 'dispute-1' } }
+
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await getDispute(
+        createRequest('/api/disputes/dispute-1'),
+        params,
+      )
+
+      expect(res.status).toBe(401)
+    })
+
+    it('returns 404 when the dispute does not exist', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDispute).mockResolvedValue(null)
+
+      const res = await getDispute(
+        createRequest('/api/disputes/dispute-1'),
+        params,
+      )
+
+      expect(res.status).toBe(404)
+    })
+
+    it('pre-fills evidence from the order, tracking, messages and downloads', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDispute).mockResolvedValue(DISPUTE as any)
+      vi.mocked(orders.getOrder).mockResolvedValue(ORDER as any)
+      vi.mocked(messages.listMessagesByOrder).mockResolvedValue([
+        {
+          id: 'msg-1',
+          senderName: 'Sam Buyer',
+          senderType: 'customer',
+          content: 'Got it, thanks!',
+          createdAt: new Date('2026-09-24T08:00:00Z'),
+        },
+      ] as any)
+      vi.mocked(downloads.getDownloadsForOrder).mockResolvedValue([
+        {
+          downloads: [
+            {
+              timestamp: new Date('2026-09-21T10:00:00Z'),
+              ipAddress: '203.0.113.5',
+              userAgent: 'Safari',
+              success: true,
+              fileId: 'file-1',
+            },
+          ],
+        },
+      ] as any)
+
+      const res = await getDispute(
+        createRequest('/api/disputes/dispute-1'),
+        params,
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.evidence).toMatchObject({
+        productDescription: '2x Stoneware mug',
+        customerName: 'Sam Buyer',
+        customerEmailAddress: 'sam@example.com',
+        shippingDate: '2026-09-20',
+        shippingCarrier: 'Sendle',
+        shippingTrackingNumber: 'SNXYZ',
+      })
+      expect(data.evidence.deliveryProof).toContain(
+        'Parcel delivered (Fitzroy VIC)',
+      )
+      expect(data.evidence.customerCommunication).toContain('Got it, thanks!')
+      expect(data.evidence.accessActivityLog).toContain('203.0.113.5')
+    })
+
+    it('returns the saved draft instead of rebuilding it', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDispute).mockResolvedValue({
+        ...DISPUTE,
+        evidence: { uncategorizedText: 'My notes' },
+      } as any)
+
+      const res = await getDispute(
+        createRequest('/api/disputes/dispute-1'),
+        params,
+      )
+      const data = await res.json()
+
+      expect(data.evidence).toEqual({ uncategorizedText: 'My notes' })
+      expect(orders.getOrder).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/disputes/[id]/evidence', () => {
+    it('saves cleaned evidence, keeping line breaks', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.saveDisputeEvidence).mockResolvedValue(DISPUTE as any)
+
+      const req = createRequest('/api/disputes/dispute-1/evidence', {
+        method: 'PUT',
+        body: {
+          evidence: {
+            uncategorizedText: '  Line one\nLine two  ',
+            customerName: '   ',
+            notAField: 'ignored',
+          },
+        },
+      })
+      const res = await saveEvidence(req, { params: { id: 'dispute-1' } })
+
+      expect(res.status).toBe(200)
+      expect(disputes.saveDisputeEvidence).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'dispute-1',
+        { uncategorizedText: 'Line one\nLine two' },
+      )
+    })
+  })
+
+  describe('POST /api/disputes/[id]/evidence', () => {
+    const params = { params: { id: 'dispute-1' } }
+
+    it('submits evidence to Stripe and records it', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDisputeAwaitingEvidence).mockResolvedValue(
+        DISPUTE as any,
+      )
+      vi.mocked(disputes.markEvidenceSubmitted).mockResolvedValue({
+        ...DISPUTE,
+        status: 'under_review',
+      } as any)
+      mockDisputesUpdate.mockResolvedValue({})
+
+      const req = createRequest('/api/disputes/dispute-1/evidence', {
+        method: 'POST',
+        body: {
+          evidence: {
+            shippingTrackingNumber: 'SNXYZ',
+            deliveryProof: 'Parcel delivered',
+            customerCommunication: 'Got it, thanks!',
+          },
+        },
+      })
+      const res = await submitEvidence(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.dispute.status).toBe('under_review')
+      expect(mockDisputesUpdate).toHaveBeenCalledWith(
+        'dp_123',
+        expect.objectContaining({
+          submit: true,
+          evidence: expect.objectContaining({
+            shipping_tracking_number: 'SNXYZ',
+            uncategorized_text:
+              'Delivery tracking:\nParcel delivered\n\nMessages with the customer:\nGot it, thanks!',
+          }),
+        }),
+      )
+      expect(disputes.markEvidenceSubmitted).toHaveBeenCalled()
+    })
+
+    it('rejects empty evidence', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDisputeAwaitingEvidence).mockResolvedValue(
+        DISPUTE as any,
+      )
+
+      const req = createRequest('/api/disputes/dispute-1/evidence', {
+        method: 'POST',
+        body: { evidence: {} },
+      })
+      const res = await submitEvidence(req, params)
+
+      expect(res.status).toBe(400)
+      expect(mockDisputesUpdate).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 once evidence has been submitted', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDisputeAwaitingEvidence).mockRejectedValue(
+        new ConflictError('Evidence can no longer be changed'),
+      )
+
+      const req = createRequest('/api/disputes/dispute-1/evidence', {
+        method: 'POST',
+        body: { evidence: { uncategorizedText: 'More' } },
+      })
+      const res = await submitEvidence(req, params)
+
+      expect(res.status).toBe(409)
+      expect(mockDisputesUpdate).not.toHaveBeenCalled()
+    })
+
+    it('does not record the submission when Stripe fails', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(disputes.getDisputeAwaitingEvidence).mockResolvedValue(
+        DISPUTE as any,
+      )
+      const Stripe = (await import('stripe')).default
+      mockDisputesUpdate.mockRejectedValue(
+        new Stripe.errors.StripeError({ message: 'Dispute is closed' } as any),
+      )
+
+      const req = createRequest('/api/disputes/dispute-1/evidence', {
+        method: 'POST',
+        body: { evidence: { uncategorizedText: 'Notes' } },
+      })
+      const res = await submitEvidence(req, params)
+
+      expect(res.status).toBe(502)
+      expect(disputes.markEvidenceSubmitted).not.toHaveBeenCalled()
+    })
+  })
+})
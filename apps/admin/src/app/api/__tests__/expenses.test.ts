@@ -0,0 +1,296 @@
+import { expenses } from '@madebuy/db'
+import { NotFoundError, ValidationError } from '@madebuy/shared'
+import { uploadToR2 } from '@madebuy/storage'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+const mockExtractText = vi.fn()
+vi.mock('@/lib/services/invoice-ocr', () => ({
+  extractTextFromInvoice: (...args: unknown[]) => mockExtractText(...args),
+}))
+
+// Import handlers AFTER mocks
+import {
+  DELETE as deleteExpense,
+  PATCH as updateExpense,
+} from '../expenses/[id]/route'
+import { POST as uploadReceipt } from '../expenses/receipt/route'
+import { GET as listExpenses, POST as createExpense } from '../expenses/route'
+
+const GST_TENANT = {
+  ...MOCK_TENANT_FREE,
+  taxSettings: {
+    gstRegistered: true,
+    gstRate: 10,
+    pricesIncludeGst: true,
+  },
+}
+
+const EXPENSE = {
+  id: 'expense-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  date: new Date('2026-08-14'),
+  description: 'Glaze order',
+  category: 'materials',
+  amount: 11000,
+  gstAmount: 1000,
+  currency: 'AUD',
+  source: 'manual',
+  createdAt: new Date('2026-08-14'),
+  updatedAt: new Date('2026-08-14'),
+}
+
+// jsdom's File has no arrayBuffer()
+function receiptFile(name: string, type: string) {
+  return Object.assign(new File(['receipt'], name, { type }), {
+    arrayBuffer: async () => new ArrayBuffer(7),
+  })
+}
+
+// Multipart bodies hang in the test runtime, so stub formData()
+function receiptRequest(file: File) {
+  return {
+    formData: vi.fn().mockResolvedValue({
+      get: vi.fn().mockReturnValue(file),
+    }),
+  } as any
+}
+
+describe('Expenses API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET /api/expenses', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await listExpenses(createRequest('/api/expenses'))
+
+      expect(res.status).toBe(401)
+    })
+
+    it('returns the quarter with its profit and loss', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(expenses.listExpenses).mockResolvedValue([EXPENSE] as any)
+      vi.mocked(expenses.getProfitAndLoss).mockResolvedValue({
+        netProfit: 5000,
+      } as any)
+
+      const res = await listExpenses(
+        createRequest('/api/expenses?quarter=2026-Q3'),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.expenses).toHaveLength(1)
+      expect(data.profitAndLoss.netProfit).toBe(5000)
+      expect(expenses.listExpenses).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({
+          startDate: new Date(2026, 6, 1),
+        }),
+      )
+      expect(expenses.getProfitAndLoss).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        new Date(2026, 6, 1),
+        expect.any(Date),
+        'AUD',
+      )
+    })
+
+    it('rejects a malformed quarter', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const res = await listExpenses(
+        createRequest('/api/expenses?quarter=2026-Q5'),
+      )
+
+      expect(res.status).toBe(400)
+      expect(expenses.getProfitAndLoss).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/expenses', () => {
+    it('records the GST credit for GST-registered sellers', async () => {
+      mockCurrentTenant(GST_TENANT)
+      vi.mocked(expenses.createExpense).mockResolvedValue(EXPENSE as any)
+
+      const res = await createExpense(
+        createRequest('/api/expenses', {
+          method: 'POST',
+          body: {
+            date: '2026-08-14',
+            description: 'Glaze order',
+            category: 'materials',
+            amount: 11000,
+            gstAmount: 1000,
+          },
+        }),
+      )
+
+      expect(res.status).toBe(201)
+      expect(expenses.createExpense).toHaveBeenCalledWith(
+        GST_TENANT.id,
+        expect.objectContaining({
+          date: new Date('2026-08-14'),
+          amount: 11000,
+          gstAmount: 1000,
+          currency: 'AUD',
+        }),
+      )
+    })
+
+    it('zeroes GST for sellers who are not GST registered', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(expenses.createExpense).mockResolvedValue(EXPENSE as any)
+
+      await createExpense(
+        createRequest('/api/expenses', {
+          method: 'POST',
+          body: {
+            date: '2026-08-14',
+            description: 'Glaze order',
+            category: 'materials',
+            amount: 11000,
+            gstAmount: 1000,
+          },
+        }),
+      )
+
+      expect(expenses.createExpense).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({ gstAmount: 0 }),
+      )
+    })
+
+    it('returns validation details from the repository', async () => {
+      mockCurrentTenant(GST_TENANT)
+      vi.mocked(expenses.createExpense).mockRejectedValue(
+        new ValidationError('GST cannot be more than the amount paid', {
+          gstAmount: ['GST cannot be more than the amount paid'],
+        }),
+      )
+
+      const res = await createExpense(
+        createRequest('/api/expenses', {
+          method: 'POST',
+          body: { amount: 100, gstAmount: 500 },
+        }),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.gstAmount).toEqual([
+        'GST cannot be more than the amount paid',
+      ])
+    })
+  })
+
+  describe('PATCH /api/expenses/[id]', () => {
+    it('updates only the fields sent', async () => {
+      mockCurrentTenant(GST_TENANT)
+      vi.mocked(expenses.updateExpense).mockResolvedValue({
+        ...EXPENSE,
+        category: 'packaging',
+      } as any)
+
+      const res = await updateExpense(
+        createRequest('/api/expenses/expense-1', {
+          method: 'PATCH',
+          body: { category: 'packaging' },
+        }),
+        { params: { id: 'expense-1' } },
+      )
+
+      expect(res.status).toBe(200)
+      expect(expenses.updateExpense).toHaveBeenCalledWith(
+        GST_TENANT.id,
+        'expense-1',
+        { category: 'packaging' },
+      )
+    })
+  })
+
+  describe('DELETE /api/expenses/[id]', () => {
+    it('returns 404 for an unknown expense', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(expenses.deleteExpense).mockRejectedValue(
+        new NotFoundError('Expense', 'missing'),
+      )
+
+      const res = await deleteExpense(
+        createRequest('/api/expenses/missing', { method: 'DELETE' }),
+        { params: { id: 'missing' } },
+      )
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('POST /api/expenses/receipt', () => {
+    it('stores the receipt and suggests fields from the scan', async () => {
+      mockCurrentTenant(GST_TENANT)
+      vi.mocked(uploadToR2).mockResolvedValue({
+        url: 'https://r2.example.com/receipts/abc.jpg',
+      } as any)
+      mockExtractText.mockResolvedValue({
+        text: '',
+        confidence: 90,
+        lines: [
+          'Clay Supplies Pty Ltd',
+          'Date: 2026-08-14',
+          'Stoneware clay 10kg 55.00',
+          'GST: $10.00',
+          'Total: $110.00',
+        ],
+      })
+
+      const res = await uploadReceipt(
+        receiptRequest(receiptFile('receipt.jpg', 'image/jpeg')),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.receiptUrl).toBe('https://r2.example.com/receipts/abc.jpg')
+      expect(data.suggestion).toEqual({
+        supplierName: 'Clay Supplies Pty Ltd',
+        amount: 11000,
+        gstAmount: 1000,
+        date: '2026-08-14',
+      })
+    })
+
+    it('keeps the receipt when the scan fails', async () => {
+      mockCurrentTenant(GST_TENANT)
+      vi.mocked(uploadToR2).mockResolvedValue({
+        url: 'https://r2.example.com/receipts/abc.jpg',
+      } as any)
+      mockExtractText.mockRejectedValue(new Error('OCR failed'))
+
+      const res = await uploadReceipt(
+        receiptRequest(receiptFile('receipt.jpg', 'image/jpeg')),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.suggestion).toEqual({})
+    })
+
+    it('rejects unsupported files', async () => {
+      mockCurrentTenant(GST_TENANT)
+
+      const res = await uploadReceipt(
+        receiptRequest(receiptFile('receipt.txt', 'text/plain')),
+      )
+
+      expect(res.status).toBe(400)
+      expect(uploadToR2).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import { giftCards } from '@madebuy/db'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCurrentTenant } from '@/lib/session'
+
+// Import handlers AFTER mocks
+import { GET, POST } from '../gift-cards/route'
+import { POST as TOP_UP } from '../gift-cards/[id]/top-up/route'
+import { POST as VOID } from '../gift-cards/[id]/void/route'
+
+const mockTenant = { id: 'tenant-123', regionalSettings: { currency: 'AUD' } }
+
+describe('Gift Cards API - GET /api/gift-cards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(null)
+    const request = new NextRequest('http://localhost/api/gift-cards')
+
+    const response = await GET(request)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('passes filters to the repository', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(giftCards.listGiftCards).mockResolvedValue({
+      items: [],
+      total: 0,
+      hasMore: false,
+    })
+
+    const request = new NextRequest(
+      'http://localhost/api/gift-cards?status=active&search=GC7K&limit=20',
+    )
+    const response = await GET(request)
+
+    expect(response.status).toBe(200)
+    expect(giftCards.listGiftCards).toHaveBeenCalledWith(mockTenant.id, {
+      status: 'active',
+      search: 'GC7K',
+      limit: 20,
+    })
+  })
+})
+
+describe('Gift Cards API - POST /api/gift-cards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects non-positive amounts', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    const request = new NextRequest('http://localhost/api/gift-cards', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 0 }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(400)
+    expect(giftCards.issueGiftCard).not.toHaveBeenCalled()
+  })
+
+  it('issues a manual card in minor units of the tenant currency', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(giftCards.issueGiftCard).mockResolvedValue({
+      id: 'gc-1',
+      code: 'GC7K-M2QX-9PLA-4WTR',
+    } as any)
+
+    const request = new NextRequest('http://localhost/api/gift-cards', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 25.5, recipientName: 'Sam' }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(201)
+    expect(giftCards.issueGiftCard).toHaveBeenCalledWith(
+      mockTenant.id,
+      expect.objectContaining({
+        amount: 2550,
+        currency: 'AUD',
+        source: 'manual',
+        recipientName: 'Sam',
+      }),
+    )
+  })
+})
+
+describe('Gift Cards API - POST /api/gift-cards/[id]/top-up', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 404 when the card does not exist', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(giftCards.getGiftCard).mockResolvedValue(null)
+
+    const request = new NextRequest('http://localhost/api/gift-cards/gc-1', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 10 }),
+    })
+    const params = Promise.resolve({ id: 'gc-1' })
+
+    const response = await TOP_UP(request, { params })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('rejects top-ups on voided cards', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(giftCards.getGiftCard).mockResolvedValue({
+      id: 'gc-1',
+      currency: 'AUD',
+    } as any)
+    vi.mocked(giftCards.topUpGiftCard).mockResolvedValue(null)
+
+    const request = new NextRequest('http://localhost/api/gift-cards/gc-1', {
+      method: 'POST',
+      body: JSON.stringify({ amount: 10 }),
+    })
+    const params = Promise.resolve({ id: 'gc-1' })
+
+    const response = await TOP_UP(request, { params })
+
+    expect(response.status).toBe(400)
+    expect(giftCards.topUpGiftCard).toHaveBeenCalledWith(
+      mockTenant.id,
+      'gc-1',
+      1000,
+    )
+  })
+})
+
+describe('Gift Cards API - POST /api/gift-cards/[id]/void', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('voids the card with a reason', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(giftCards.voidGiftCard).mockResolvedValue({
+      id: 'gc-1',
+      status: 'voided',
+    } as any)
+
+    const request = new NextRequest('http://localhost/api/gift-cards/gc-1', {
+      method: 'POST',
+      body: JSON.stringify({ reason: 'Lost card' }),
+    })
+    const params = Promise.resolve({ id: 'gc-1' })
+
+    const response = await VOID(request, { params })
+
+    expect(response.status).toBe(200)
+    expect(giftCards.voidGiftCard).toHaveBeenCalledWith(
+      mockTenant.id,
+      'gc-1',
+      'Lost card',
+    )
+  })
+})
@@ -0,0 +1,85 @@
+import { barcodes } from '@madebuy/db'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+// Import handler (mocks from setup.ts are already active)
+import { POST as printLabels } from '../inventory/labels/route'
+
+describe('Inventory labels API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 401 when unauthorized', async () => {
+    mockUnauthorized()
+
+    const req = createRequest('/api/inventory/labels', {
+      method: 'POST',
+      body: { items: [{ itemType: 'piece', itemId: 'piece-1' }] },
+    })
+    const res = await printLabels(req)
+
+    expect(res.status).toBe(401)
+  })
+
+  it('returns a PDF of the requested labels', async () => {
+    mockCurrentTenant(MOCK_TENANT_FREE)
+    vi.mocked(barcodes.getLabels).mockResolvedValue([
+      {
+        itemType: 'variant',
+        itemId: 'var-1',
+        name: 'Linen Tee',
+        detail: 'Blue / M',
+        code: 'TEE-BLU-M',
+        format: 'code128',
+        price: 4500,
+        currency: 'AUD',
+      },
+      {
+        itemType: 'material',
+        itemId: 'mat-1',
+        name: 'Clay',
+        code: '4006381333931',
+        format: 'ean13',
+      },
+    ])
+
+    const req = createRequest('/api/inventory/labels', {
+      method: 'POST',
+      body: {
+        items: [
+          { itemType: 'variant', itemId: 'var-1' },
+          { itemType: 'material', itemId: 'mat-1', copies: 1 },
+        ],
+      },
+    })
+    const res = await printLabels(req)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/pdf')
+    expect(barcodes.getLabels).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, [
+      { itemType: 'variant', itemId: 'var-1', copies: 1 },
+      { itemType: 'material', itemId: 'mat-1', copies: 1 },
+    ])
+  })
+
+  it('returns 400 for invalid copies', async () => {
+    mockCurrentTenant(MOCK_TENANT_FREE)
+
+    const req = createRequest('/api/inventory/labels', {
+      method: 'POST',
+      body: { items: [{ itemType: 'piece', itemId: 'piece-1', copies: 0 }] },
+    })
+    const res = await printLabels(req)
+    const data = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(data.details.items[0]).toContain('Copies must be between')
+    expect(barcodes.getLabels).not.toHaveBeenCalled()
+  })
+})
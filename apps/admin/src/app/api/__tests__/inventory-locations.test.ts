@@ -0,0 +1,150 @@
+import { locations } from '@madebuy/db'
+import { ConflictError, ValidationError } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+// Import handlers (mocks from setup.ts are already active)
+import { DELETE as deleteLocation } from '../inventory/locations/[id]/route'
+import {
+  GET as listLocations,
+  POST as createLocation,
+} from '../inventory/locations/route'
+import {
+  GET as getStockLevels,
+  PUT as setStockLevel,
+} from '../inventory/stock-levels/route'
+import { POST as transferStock } from '../inventory/transfers/route'
+
+const STUDIO = {
+  id: 'loc-studio',
+  tenantId: MOCK_TENANT_FREE.id,
+  name: 'Studio',
+  type: 'studio' as const,
+  fulfillsOnline: true,
+  isDefault: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+describe('Inventory locations API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('/api/inventory/locations', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await listLocations()
+
+      expect(res.status).toBe(401)
+    })
+
+    it('creates a location from the sanitized input', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(locations.createLocation).mockResolvedValue(STUDIO)
+
+      const req = createRequest('/api/inventory/locations', {
+        method: 'POST',
+        body: { name: 'Studio', type: 'studio', fulfillsOnline: true },
+      })
+      const res = await createLocation(req)
+
+      expect(res.status).toBe(201)
+      expect(locations.createLocation).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({ name: 'Studio', type: 'studio' }),
+      )
+    })
+
+    it('returns 409 when deleting a location that still holds stock', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      const message =
+        'Move the stock at Consignment elsewhere before deleting it'
+      vi.mocked(locations.deleteLocation).mockRejectedValue(
+        new ConflictError(message, { location: [message] }),
+      )
+
+      const req = createRequest('/api/inventory/locations/loc-shop', {
+        method: 'DELETE',
+      })
+      const res = await deleteLocation(req, { params: { id: 'loc-shop' } })
+      const data = await res.json()
+
+      expect(res.status).toBe(409)
+      expect(data.details.location).toEqual([message])
+    })
+  })
+
+  describe('/api/inventory/stock-levels', () => {
+    it('requires an item type and id', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const req = createRequest('/api/inventory/stock-levels?itemType=box')
+      const res = await getStockLevels(req)
+
+      expect(res.status).toBe(400)
+      expect(locations.getItemStock).not.toHaveBeenCalled()
+    })
+
+    it('sets the quantity counted at a location', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(locations.setLocationQuantity).mockResolvedValue({
+        itemType: 'piece',
+        itemId: 'piece-1',
+        total: 5,
+        onlineAvailable: 5,
+        levels: [],
+      })
+
+      const req = createRequest('/api/inventory/stock-levels', {
+        method: 'PUT',
+        body: {
+          itemType: 'piece',
+          itemId: 'piece-1',
+          locationId: 'loc-studio',
+          quantity: 5,
+        },
+      })
+      const res = await setStockLevel(req)
+
+      expect(res.status).toBe(200)
+      expect(locations.setLocationQuantity).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'piece',
+        'piece-1',
+        'loc-studio',
+        5,
+      )
+    })
+  })
+
+  describe('POST /api/inventory/transfers', () => {
+    it('returns the shortfall when a location lacks the stock', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      const message = 'Only 2 of Vase at Studio'
+      vi.mocked(locations.transferStock).mockRejectedValue(
+        new ValidationError(message, { items: [message] }),
+      )
+
+      const req = createRequest('/api/inventory/transfers', {
+        method: 'POST',
+        body: {
+          fromLocationId: 'loc-studio',
+          toLocationId: 'loc-shop',
+          items: [{ itemType: 'piece', itemId: 'piece-1', quantity: 3 }],
+        },
+      })
+      const res = await transferStock(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.items).toEqual([message])
+    })
+  })
+})
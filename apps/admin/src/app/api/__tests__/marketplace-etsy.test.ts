@@ -0,0 +1,597 @@
+import { marketplace, orders, pieces, tenants, variants } from '@madebuy/db'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildEtsyInventory } from '@/lib/marketplace/etsy'
+import { getCurrentTenant } from '@/lib/session'
+import { createRequest } from '../../../__tests__/setup'
+
+// Import handlers AFTER mocks
+import { GET as marketplaceOrders } from '../cron/marketplace-orders/route'
+import { GET as marketplaceSync } from '../cron/marketplace-sync/route'
+import { POST as convertOrder } from '../marketplace/orders/[id]/convert/route'
+
+const mockTenant = {
+  id: 'tenant-123',
+  features: { marketplaceSync: true },
+}
+
+const etsyConnection = {
+  id: 'conn-1',
+  tenantId: 'tenant-123',
+  marketplace: 'etsy',
+  accessToken: 'etsy-token',
+  sellerId: '555',
+  status: 'connected',
+}
+
+const money = (amount: number) => ({
+  amount,
+  divisor: 100,
+  currency_code: 'AUD',
+})
+
+const etsyReceipt = {
+  receipt_id: 9001,
+  status: 'paid',
+  is_paid: true,
+  is_shipped: false,
+  name: 'Jo Buyer',
+  buyer_email: 'jo@example.com',
+  first_line: '1 Test St',
+  city: 'Sydney',
+  state: 'NSW',
+  zip: '2000',
+  country_iso: 'AU',
+  create_timestamp: 1767225600,
+  subtotal: money(5000),
+  total_shipping_cost: money(1000),
+  total_tax_cost: money(0),
+  grandtotal: money(6000),
+  transactions: [
+    {
+      transaction_id: 1,
+      title: 'Silver Ring',
+      quantity: 2,
+      price: money(2500),
+      listing_id: 777,
+      variations: [
+        { formatted_name: 'Size', formatted_value: 'M' },
+        { formatted_name: 'Personalization', formatted_value: 'JB' },
+      ],
+    },
+  ],
+}
+
+type FetchHandler = (url: string, init?: RequestInit) => unknown
+
+function stubEtsyFetch(handler: FetchHandler) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const body = handler(url, init)
+    return new Response(JSON.stringify(body ?? {}), { status: 200 })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function cronRequest(path: string) {
+  return createRequest(path, {
+    headers: { authorization: 'Bearer test-cron-secret' },
+  })
+}
+
+describe('Etsy marketplace sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('CRON_SECRET', 'test-cron-secret')
+    vi.stubEnv('ETSY_CLIENT_ID', 'etsy-client')
+    vi.mocked(tenants.getAllTenants).mockResolvedValue([mockTenant])
+    vi.mocked(marketplace.getConnectionByMarketplace).mockImplementation(
+      async (_tenantId: string, platform: string) =>
+        platform === 'etsy' ? etsyConnection : null,
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  describe('GET /api/cron/marketplace-orders', () => {
+    it('imports new Etsy receipts as marketplace orders', async () => {
+      stubEtsyFetch(() => ({ count: 1, results: [etsyReceipt] }))
+      vi.mocked(marketplace.getListingsByExternalIds).mockResolvedValue(
+        new Map([['777', { id: 'listing-1', pieceId: 'piece-1' }]]),
+      )
+      vi.mocked(marketplace.getOrderByExternalId).mockResolvedValue(null)
+      vi.mocked(marketplace.createOrder).mockImplementation(
+        async (_tenantId: string, input: any) => ({
+          ...input,
+          id: 'mp-order-1',
+          stockDecremented: false,
+        }),
+      )
+      vi.mocked(marketplace.claimOrderLink).mockResolvedValue('order-1')
+      vi.mocked(orders.getOrder).mockResolvedValue(null)
+      vi.mocked(pieces.getPiecesByIds).mockResolvedValue(
+        new Map([['piece-1', { id: 'piece-1', category: 'Rings', stock: 5 }]]),
+      )
+      vi.mocked(pieces.updateStockSafe).mockResolvedValue({
+        success: true,
+        newStock: 3,
+      })
+      vi.mocked(orders.createMarketplaceOrder).mockResolvedValue({
+        id: 'order-1',
+        orderNumber: 'ORD-1',
+        paymentStatus: 'paid',
+      })
+
+      const res = await marketplaceOrders(
+        cronRequest('/api/cron/marketplace-orders'),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.imported).toBe(1)
+      expect(pieces.decrementStock).not.toHaveBeenCalled()
+      expect(pieces.updateStockSafe).toHaveBeenCalledWith(
+        'tenant-123',
+        'piece-1',
+        -2,
+      )
+      expect(orders.createMarketplaceOrder).toHaveBeenCalledWith(
+        'tenant-123',
+        expect.objectContaining({
+          customerEmail: 'jo@example.com',
+          items: [
+            expect.objectContaining({
+              pieceId: 'piece-1',
+              category: 'Rings',
+              price: 25,
+              quantity: 2,
+              variantAttributes: { Size: 'M' },
+            }),
+          ],
+        }),
+        expect.objectContaining({
+          id: 'order-1',
+          marketplace: expect.objectContaining({
+            platform: 'etsy',
+            marketplaceOrderId: 'mp-order-1',
+            externalOrderId: '9001',
+          }),
+          status: 'confirmed',
+          paymentStatus: 'paid',
+          total: 60,
+        }),
+      )
+      expect(marketplace.claimOrderLink).toHaveBeenCalledWith(
+        'tenant-123',
+        'mp-order-1',
+      )
+      expect(marketplace.recordStockDecrement).toHaveBeenCalledWith(
+        'tenant-123',
+        'mp-order-1',
+        [],
+      )
+      expect(marketplace.createOrder).toHaveBeenCalledWith(
+        'tenant-123',
+        expect.objectContaining({
+          marketplace: 'etsy',
+          externalOrderId: '9001',
+          status: 'paid',
+          paymentStatus: 'paid',
+          total: 60,
+          shippingCost: 10,
+          items: [
+            expect.objectContaining({
+              pieceId: 'piece-1',
+              marketplaceListingId: 'listing-1',
+              unitPrice: 25,
+              totalPrice: 50,
+              variations: [{ name: 'Size', value: 'M' }],
+              personalization: 'JB',
+            }),
+          ],
+        }),
+      )
+    })
+
+    it('marks imported orders shipped when shipped on Etsy', async () => {
+      stubEtsyFetch(() => ({
+        count: 1,
+        results: [
+          {
+            ...etsyReceipt,
+            is_shipped: true,
+            shipments: [{ shipment_notification_timestamp: 1767312000 }],
+          },
+        ],
+      }))
+      vi.mocked(marketplace.getListingsByExternalIds).mockResolvedValue(
+        new Map(),
+      )
+      vi.mocked(marketplace.getOrderByExternalId).mockResolvedValue({
+        id: 'mp-order-1',
+        status: 'paid',
+      })
+
+      await marketplaceOrders(cronRequest('/api/cron/marketplace-orders'))
+
+      expect(marketplace.createOrder).not.toHaveBeenCalled()
+      expect(marketplace.updateOrderStatus).toHaveBeenCalledWith(
+        'tenant-123',
+        'mp-order-1',
+        'shipped',
+        new Date(1767312000 * 1000),
+      )
+    })
+
+    it('sends tracking to Etsy once the linked order ships', async () => {
+      const fetchMock = stubEtsyFetch((url) =>
+        url.includes('/tracking')
+          ? etsyReceipt
+          : { count: 1, results: [etsyReceipt] },
+      )
+      vi.mocked(marketplace.getListingsByExternalIds).mockResolvedValue(
+        new Map(),
+      )
+      const mpOrder = {
+        id: 'mp-order-1',
+        status: 'paid',
+        linkedOrderId: 'order-1',
+        items: [],
+      }
+      vi.mocked(marketplace.getOrderByExternalId).mockResolvedValue(mpOrder)
+      vi.mocked(marketplace.getOrder).mockResolvedValue(mpOrder)
+      vi.mocked(orders.getOrder).mockResolvedValue({
+        id: 'order-1',
+        status: 'confirmed',
+        trackingNumber: 'TRACK123',
+        carrier: 'Australia Post',
+        shippedAt: new Date(),
+        marketplace: {
+          platform: 'etsy',
+          marketplaceOrderId: 'mp-order-1',
+          externalOrderId: '9001',
+        },
+      })
+
+      await marketplaceOrders(cronRequest('/api/cron/marketplace-orders'))
+
+      const trackingCall = fetchMock.mock.calls.find(([url]) =>
+        url.endsWith('/shops/555/receipts/9001/tracking'),
+      )
+      expect(trackingCall).toBeDefined()
+      expect(JSON.parse(trackingCall?.[1]?.body as string)).toEqual({
+        tracking_code: 'TRACK123',
+        carrier_name: 'australia-post',
+      })
+      expect(marketplace.updateOrderStatus).toHaveBeenCalledWith(
+        'tenant-123',
+        'mp-order-1',
+        'shipped',
+        expect.any(Date),
+      )
+      expect(orders.updateOrder).toHaveBeenCalledWith('tenant-123', 'order-1', {
+        marketplace: expect.objectContaining({
+          trackingSyncedAt: expect.any(Date),
+        }),
+      })
+    })
+  })
+
+  describe('GET /api/cron/marketplace-sync', () => {
+    it('deactivates the Etsy listing when the piece sells out', async () => {
+      const fetchMock = stubEtsyFetch(() => ({}))
+      vi.mocked(marketplace.getListingsNeedingSync).mockResolvedValue([
+        {
+          id: 'listing-1',
+          pieceId: 'piece-1',
+          marketplace: 'etsy',
+          status: 'active',
+          lastSyncedPrice: 25,
+          lastSyncedQuantity: 1,
+          marketplaceData: { etsyListingId: 777, etsyState: 'active' },
+        },
+      ])
+      vi.mocked(pieces.getPiece).mockResolvedValue({
+        id: 'piece-1',
+        name: 'Silver Ring',
+        price: 25,
+        stock: 0,
+      })
+
+      const res = await marketplaceSync(
+        cronRequest('/api/cron/marketplace-sync'),
+      )
+      const data = await res.json()
+
+      expect(data.processed).toBe(1)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock.mock.calls[0][0]).toContain('/shops/555/listings/777')
+      expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+        state: 'inactive',
+      })
+      expect(marketplace.updateListing).toHaveBeenCalledWith(
+        'tenant-123',
+        'listing-1',
+        {
+          marketplaceData: { etsyListingId: 777, etsyState: 'inactive' },
+        },
+      )
+      expect(marketplace.markListingSynced).toHaveBeenCalledWith(
+        'tenant-123',
+        'listing-1',
+        25,
+        0,
+      )
+      expect(variants.getVariants).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('POST /api/marketplace/orders/[id]/convert', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+  })
+
+  const importedOrder = {
+    id: 'mp-order-1',
+    marketplace: 'etsy',
+    externalOrderId: '9001',
+    status: 'paid',
+    paymentStatus: 'paid',
+    buyer: { name: 'Jo Buyer' },
+    items: [
+      {
+        title: 'Silver Ring',
+        pieceId: 'piece-1',
+        quantity: 1,
+        unitPrice: 25,
+      },
+    ],
+    subtotal: 25,
+    shippingCost: 10,
+    tax: 0,
+    total: 35,
+    currency: 'AUD',
+    orderDate: new Date(),
+    stockDecremented: false,
+  }
+
+  function convert() {
+    return convertOrder(
+      createRequest('/api/marketplace/orders/mp-order-1/convert', {
+        method: 'POST',
+      }),
+      { params: Promise.resolve({ id: 'mp-order-1' }) },
+    )
+  }
+
+  beforeEach(() => {
+    vi.mocked(pieces.getPiecesByIds).mockResolvedValue(
+      new Map([['piece-1', { id: 'piece-1', category: 'Rings', stock: 5 }]]),
+    )
+    vi.mocked(pieces.updateStockSafe).mockResolvedValue({
+      success: true,
+      newStock: 4,
+    })
+    vi.mocked(marketplace.claimOrderLink).mockResolvedValue('order-1')
+    vi.mocked(orders.getOrder).mockResolvedValue(null)
+    vi.mocked(orders.createMarketplaceOrder).mockResolvedValue({
+      id: 'order-1',
+      paymentStatus: 'paid',
+    })
+  })
+
+  it('creates the native order and takes stock', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue(importedOrder)
+
+    const res = await convert()
+
+    expect(res.status).toBe(201)
+    expect(orders.createMarketplaceOrder).toHaveBeenCalledWith(
+      'tenant-123',
+      expect.objectContaining({ customerEmail: '' }),
+      expect.objectContaining({ id: 'order-1', status: 'confirmed' }),
+    )
+    expect(pieces.updateStockSafe).toHaveBeenCalledWith(
+      'tenant-123',
+      'piece-1',
+      -1,
+    )
+    expect(marketplace.recordStockDecrement).toHaveBeenCalledWith(
+      'tenant-123',
+      'mp-order-1',
+      [],
+    )
+    expect(marketplace.completeOrderLink).toHaveBeenCalledWith(
+      'tenant-123',
+      'mp-order-1',
+      'order-1',
+    )
+  })
+
+  it('takes stock from the variant sold rather than the piece', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue({
+      ...importedOrder,
+      items: [{ ...importedOrder.items[0], sku: 'RING-M' }],
+    })
+    vi.mocked(pieces.getPiecesByIds).mockResolvedValue(
+      new Map([
+        [
+          'piece-1',
+          {
+            id: 'piece-1',
+            category: 'Rings',
+            variants: [
+              { id: 'variant-s', sku: 'RING-S', stock: 2 },
+              { id: 'variant-m', sku: 'RING-M', stock: 3 },
+            ],
+          },
+        ],
+      ]),
+    )
+    vi.mocked(pieces.updateVariantStockSafe).mockResolvedValue({
+      success: true,
+      newStock: 2,
+    })
+
+    const res = await convert()
+
+    expect(res.status).toBe(201)
+    expect(orders.createMarketplaceOrder).toHaveBeenCalledWith(
+      'tenant-123',
+      expect.objectContaining({
+        items: [expect.objectContaining({ variantId: 'variant-m' })],
+      }),
+      expect.anything(),
+    )
+    expect(pieces.updateVariantStockSafe).toHaveBeenCalledWith(
+      'tenant-123',
+      'piece-1',
+      'variant-m',
+      -1,
+    )
+    expect(pieces.updateStockSafe).not.toHaveBeenCalled()
+  })
+
+  it('finishes a conversion that stopped after creating the order', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue(importedOrder)
+    vi.mocked(orders.getOrder).mockResolvedValue({
+      id: 'order-1',
+      paymentStatus: 'paid',
+    })
+
+    const res = await convert()
+
+    expect(res.status).toBe(201)
+    expect(orders.createMarketplaceOrder).not.toHaveBeenCalled()
+    expect(marketplace.completeOrderLink).toHaveBeenCalledWith(
+      'tenant-123',
+      'mp-order-1',
+      'order-1',
+    )
+    expect(pieces.updateStockSafe).toHaveBeenCalledWith(
+      'tenant-123',
+      'piece-1',
+      -1,
+    )
+  })
+
+  it('leaves stock alone for orders that took it when imported', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue({
+      ...importedOrder,
+      status: 'shipped',
+      stockDecremented: undefined,
+    })
+
+    const res = await convert()
+
+    expect(res.status).toBe(201)
+    expect(orders.createMarketplaceOrder).toHaveBeenCalledWith(
+      'tenant-123',
+      expect.objectContaining({ customerEmail: '' }),
+      expect.objectContaining({ status: 'shipped' }),
+    )
+    expect(pieces.updateStockSafe).not.toHaveBeenCalled()
+    expect(marketplace.recordStockDecrement).not.toHaveBeenCalled()
+  })
+
+  it('does not create a second order when another conversion claimed it', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue(importedOrder)
+    vi.mocked(marketplace.claimOrderLink).mockResolvedValue(null)
+
+    const res = await convert()
+
+    expect(res.status).toBe(409)
+    expect(orders.createMarketplaceOrder).not.toHaveBeenCalled()
+    expect(pieces.updateStockSafe).not.toHaveBeenCalled()
+  })
+
+  it('releases the claim when the native order cannot be created', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue(importedOrder)
+    vi.mocked(orders.createMarketplaceOrder).mockRejectedValue(
+      new Error('insert failed'),
+    )
+
+    const res = await convert()
+
+    expect(res.status).toBe(500)
+    expect(marketplace.releaseOrderLink).toHaveBeenCalledWith(
+      'tenant-123',
+      'mp-order-1',
+      'order-1',
+    )
+    expect(pieces.updateStockSafe).not.toHaveBeenCalled()
+  })
+
+  it('rejects orders that are already converted', async () => {
+    vi.mocked(marketplace.getOrder).mockResolvedValue({
+      id: 'mp-order-1',
+      linkedOrderId: 'order-1',
+    })
+
+    const res = await convertOrder(
+      createRequest('/api/marketplace/orders/mp-order-1/convert', {
+        method: 'POST',
+      }),
+      { params: Promise.resolve({ id: 'mp-order-1' }) },
+    )
+
+    expect(res.status).toBe(400)
+    expect(orders.createMarketplaceOrder).not.toHaveBeenCalled()
+  })
+})
+
+describe('buildEtsyInventory', () => {
+  it('maps variants onto Etsy custom variation properties', () => {
+    const piece = {
+      price: 25,
+      hasVariants: true,
+      variantAttributes: [
+        { name: 'Colour', values: ['Gold'], displayOrder: 1 },
+        { name: 'Size', values: ['S', 'M'], displayOrder: 0 },
+      ],
+    }
+    const pieceVariants = [
+      {
+        sku: 'RING-S-G',
+        attributes: { Size: 'S', Colour: 'Gold' },
+        price: null,
+        stock: 3,
+        isAvailable: true,
+      },
+      {
+        sku: 'RING-M-G',
+        attributes: { Size: 'M', Colour: 'Gold' },
+        price: 3000,
+        stock: 0,
+        isAvailable: true,
+      },
+    ]
+
+    const inventory = buildEtsyInventory(piece as any, pieceVariants as any)
+
+    expect(inventory.products).toEqual([
+      {
+        sku: 'RING-S-G',
+        property_values: [
+          { property_id: 513, property_name: 'Size', values: ['S'] },
+          { property_id: 514, property_name: 'Colour', values: ['Gold'] },
+        ],
+        offerings: [{ price: 25, quantity: 3, is_enabled: true }],
+      },
+      {
+        sku: 'RING-M-G',
+        property_values: [
+          { property_id: 513, property_name: 'Size', values: ['M'] },
+          { property_id: 514, property_name: 'Colour', values: ['Gold'] },
+        ],
+        offerings: [{ price: 30, quantity: 0, is_enabled: false }],
+      },
+    ])
+    expect(inventory.price_on_property).toEqual([513, 514])
+    expect(inventory.quantity_on_property).toEqual([513, 514])
+  })
+})
@@ -0,0 +1,264 @@
+import { payouts, transactions } from '@madebuy/db'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+const mockBalanceTransactions = vi.fn()
+vi.mock('stripe', () => ({
+  default: vi.fn(() => ({
+    balanceTransactions: {
+      list: (...args: unknown[]) => ({
+        autoPagingToArray: () => mockBalanceTransactions(...args),
+      }),
+    },
+  })),
+}))
+
+// Import handlers AFTER mocks
+import { POST as reconcile } from '../payouts/[id]/reconcile/route'
+import { GET as getPayout } from '../payouts/[id]/route'
+import { GET as downloadStatement } from '../payouts/[id]/statement/route'
+
+const CONNECTED_TENANT = {
+  ...MOCK_TENANT_FREE,
+  paymentConfig: {
+    enabledMethods: ['stripe'],
+    stripe: { connectAccountId: 'acct_123' },
+  },
+}
+
+const PAYOUT = {
+  id: 'payout-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  stripePayoutId: 'po_123',
+  amount: 9650,
+  currency: 'aud',
+  status: 'paid',
+  createdAt: new Date('2026-08-16'),
+}
+
+const SALE = {
+  id: 'tx-sale',
+  type: 'sale',
+  grossAmount: 11000,
+  stripeFee: 350,
+  platformFee: 0,
+  netAmount: 10650,
+  stripePaymentIntentId: 'pi_sale',
+  description: 'Order MB-1001',
+  status: 'completed',
+}
+
+const REFUND = {
+  id: 'tx-refund',
+  type: 'refund',
+  grossAmount: 1000,
+  stripeFee: 0,
+  platformFee: 0,
+  netAmount: 1000,
+  stripePaymentIntentId: 'pi_sale',
+  stripeRefundId: 're_platform',
+  description: 'Refund for order MB-1001',
+  status: 'completed',
+}
+
+const params = { params: { id: 'payout-1' } }
+
+describe('Payouts API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET /api/payouts/[id]', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await getPayout(
+        createRequest('/api/payouts/payout-1'),
+        params,
+      )
+
+      expect(res.status).toBe(401)
+    })
+
+    it('returns 404 for an unknown payout', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(payouts.getPayoutReconciliation).mockResolvedValue(null)
+
+      const res = await getPayout(
+        createRequest('/api/payouts/payout-1'),
+        params,
+      )
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('POST /api/payouts/[id]/reconcile', () => {
+    it('requires a connected Stripe account', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(payouts.getPayout).mockResolvedValue(PAYOUT as any)
+
+      const res = await reconcile(
+        createRequest('/api/payouts/payout-1/reconcile', { method: 'POST' }),
+        params,
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.stripe).toBeDefined()
+      expect(payouts.saveBalanceTransactions).not.toHaveBeenCalled()
+    })
+
+    it('matches Stripe balance transactions to the ledger', async () => {
+      mockCurrentTenant(CONNECTED_TENANT)
+      vi.mocked(payouts.getPayout).mockResolvedValue(PAYOUT as any)
+      vi.mocked(payouts.getPayoutReconciliation).mockResolvedValue({
+        payout: PAYOUT,
+      } as any)
+      vi.mocked(transactions.getTransactionsByStripeIds).mockResolvedValue([
+        SALE,
+        REFUND,
+      ] as any)
+      mockBalanceTransactions.mockResolvedValue([
+        {
+          id: 'txn_payout',
+          type: 'payout',
+          amount: -9650,
+          fee: 0,
+          net: -9650,
+          source: 'po_123',
+          created: 1786838400,
+        },
+        {
+          id: 'txn_sale',
+          type: 'payment',
+          amount: 10650,
+          fee: 0,
+          net: 10650,
+          created: 1786752000,
+          source: {
+            id: 'py_123',
+            object: 'charge',
+            payment_intent: null,
+            source_transfer: { id: 'tr_123', transfer_group: 'group_pi_sale' },
+          },
+        },
+        {
+          id: 'txn_refund',
+          type: 'payment_refund',
+          amount: -1000,
+          fee: 0,
+          net: -1000,
+          created: 1786795200,
+          source: {
+            id: 'pyr_123',
+            object: 'refund',
+            payment_intent: null,
+            charge: {
+              id: 'py_123',
+              object: 'charge',
+              source_transfer: { transfer_group: 'group_pi_sale' },
+            },
+          },
+        },
+        {
+          id: 'txn_adjustment',
+          type: 'adjustment',
+          amount: -500,
+          fee: 0,
+          net: -500,
+          created: 1786795200,
+          source: 'du_123',
+        },
+      ])
+
+      const res = await reconcile(
+        createRequest('/api/payouts/payout-1/reconcile', { method: 'POST' }),
+        params,
+      )
+
+      expect(res.status).toBe(200)
+      expect(mockBalanceTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ payout: 'po_123' }),
+        { stripeAccount: 'acct_123' },
+      )
+      expect(transactions.getTransactionsByStripeIds).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        { paymentIntentIds: ['pi_sale'], refundIds: ['pyr_123'] },
+      )
+
+      const [, , lines] = vi.mocked(payouts.saveBalanceTransactions).mock
+        .calls[0]
+      expect(
+        lines.map((line) => [
+          line.stripeBalanceTransactionId,
+          line.transactionId,
+        ]),
+      ).toEqual([
+        ['txn_sale', 'tx-sale'],
+        ['txn_refund', 'tx-refund'],
+        ['txn_adjustment', undefined],
+      ])
+    })
+  })
+
+  describe('GET /api/payouts/[id]/statement', () => {
+    it('exports each line beside its ledger match and the difference', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(payouts.getPayoutReconciliation).mockResolvedValue({
+        payout: {
+          ...PAYOUT,
+          balanceTransactions: [
+            {
+              stripeBalanceTransactionId: 'txn_sale',
+              type: 'payment',
+              amount: 10650,
+              fee: 0,
+              net: 10650,
+              sourceId: 'py_123',
+              createdAt: new Date('2026-08-15'),
+              transactionId: 'tx-sale',
+            },
+            {
+              stripeBalanceTransactionId: 'txn_adjustment',
+              type: 'adjustment',
+              amount: -1000,
+              fee: 0,
+              net: -1000,
+              sourceId: 'du_123',
+              createdAt: new Date('2026-08-15'),
+            },
+          ],
+        },
+        transactions: [SALE],
+        ledgerTotal: 10650,
+        stripeTotal: 9650,
+        difference: -1000,
+        unmatchedCount: 1,
+        isReconciled: false,
+      } as any)
+
+      const res = await downloadStatement(
+        createRequest('/api/payouts/payout-1/statement'),
+        params,
+      )
+      const csv = await res.text()
+
+      expect(res.headers.get('Content-Disposition')).toContain(
+        'payout-po_123.csv',
+      )
+      expect(csv).toContain(
+        '2026-08-15,payment,Order MB-1001,py_123,106.50,0.00,106.50,tx-sale,106.50,0.00',
+      )
+      expect(csv).toContain(
+        'adjustment,,du_123,-10.00,0.00,-10.00,Not in ledger',
+      )
+      expect(csv).toContain('Difference,-10.00')
+    })
+  })
+})
@@ -1,4 +1,5 @@
-import { orders } from '@madebuy/db'
+import { barcodes, locations, orders } from '@madebuy/db'
+import { ValidationError } from '@madebuy/shared'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   MOCK_TENANT_FREE,
@@ -8,6 +9,8 @@ import {
 } from '../../../__tests__/setup'
 
 // Import handler (mocks from setup.ts are already active)
+import { GET as listPOSLocations } from '../pos/locations/route'
+import { GET as lookupBarcode } from '../pos/lookup/route'
 import { POST as createPOSOrder } from '../pos/route'
 
 describe('POS API', () => {
@@ -212,5 +215,147 @@ describe('POS API', () => {
         expect.any(Object),
       )
     })
+
+    it('takes stock from the chosen location before creating the order', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(locations.recordSale).mockResolvedValue(undefined)
+      vi.mocked(orders.createOrder).mockResolvedValue({
+        id: 'order-4',
+        orderNumber: 'MB-1004',
+      } as any)
+
+      const req = createRequest('/api/pos', {
+        method: 'POST',
+        body: {
+          items: [
+            {
+              pieceId: 'p4',
+              name: 'Bowl',
+              price: 3000,
+              quantity: 2,
+              category: 'ceramics',
+            },
+          ],
+          customerName: 'Walk-in Customer',
+          customerEmail: 'pos@madebuy.local',
+          paymentMethod: 'cash',
+          subtotal: 6000,
+          locationId: 'loc-market',
+        },
+      })
+      const res = await createPOSOrder(req)
+
+      expect(res.status).toBe(201)
+      expect(locations.recordSale).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'loc-market',
+        [{ pieceId: 'p4', variantId: undefined, quantity: 2 }],
+      )
+    })
+
+    it('rejects the sale when the location is short of stock', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(locations.recordSale).mockRejectedValue(
+        new ValidationError('Only 1 of Bowl at Market', {
+          items: ['Only 1 of Bowl at Market'],
+        }),
+      )
+
+      const req = createRequest('/api/pos', {
+        method: 'POST',
+        body: {
+          items: [
+            {
+              pieceId: 'p4',
+              name: 'Bowl',
+              price: 3000,
+              quantity: 2,
+              category: 'ceramics',
+            },
+          ],
+          customerName: 'Walk-in Customer',
+          customerEmail: 'pos@madebuy.local',
+          paymentMethod: 'cash',
+          subtotal: 6000,
+          locationId: 'loc-market',
+        },
+      })
+      const res = await createPOSOrder(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.items).toEqual(['Only 1 of Bowl at Market'])
+      expect(orders.createOrder).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/pos/locations', () => {
+    it('lists locations a sale can come from', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(locations.listLocations).mockResolvedValue([
+        {
+          id: 'loc-home',
+          tenantId: MOCK_TENANT_FREE.id,
+          name: 'Home',
+          type: 'home',
+          fulfillsOnline: true,
+          isDefault: true,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ])
+
+      const res = await listPOSLocations()
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.locations).toEqual([
+        { id: 'loc-home', name: 'Home', type: 'home', isDefault: true },
+      ])
+    })
+  })
+
+  describe('GET /api/pos/lookup', () => {
+    it('returns the variant for a scanned SKU', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(barcodes.findByCode).mockResolvedValue({
+        itemType: 'variant',
+        itemId: 'var-1',
+        pieceId: 'piece-1',
+        name: 'Linen Tee',
+        code: 'TEE-BLU-M',
+        stock: 4,
+        price: 4500,
+        variantAttributes: { Colour: 'Blue', Size: 'M' },
+      })
+
+      const req = createRequest('/api/pos/lookup?code=TEE-BLU-M')
+      const res = await lookupBarcode(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(barcodes.findByCode).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'TEE-BLU-M',
+      )
+      expect(data.item.itemId).toBe('var-1')
+    })
+
+    it('returns 404 for unknown codes and materials', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(barcodes.findByCode).mockResolvedValue({
+        itemType: 'material',
+        itemId: 'mat-1',
+        name: 'Clay',
+        code: '2000000123457',
+        stock: 10,
+        unit: 'kg',
+      })
+
+      const req = createRequest('/api/pos/lookup?code=2000000123457')
+      const res = await lookupBarcode(req)
+
+      expect(res.status).toBe(404)
+    })
   })
 })
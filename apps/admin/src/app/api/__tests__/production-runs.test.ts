@@ -0,0 +1,135 @@
+import { productionRuns } from '@madebuy/db'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRequest, MOCK_TENANT_FREE } from '../../../__tests__/setup'
+
+const mockGetCurrentTenant = vi.fn()
+
+vi.mock('@/lib/session', () => ({
+  getCurrentTenant: () => mockGetCurrentTenant(),
+}))
+
+// Import handlers AFTER mocks
+import { POST as createProductionRun } from '../production-runs/route'
+import { GET as getProductionQueue } from '../production-runs/queue/route'
+
+describe('Production Runs API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET /api/production-runs/queue', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockGetCurrentTenant.mockResolvedValue(null)
+
+      const res = await getProductionQueue()
+
+      expect(res.status).toBe(401)
+    })
+
+    it('returns queued items and material shortfalls', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(productionRuns.getProductionQueue).mockResolvedValue({
+        items: [
+          {
+            orderId: 'order-1',
+            orderNumber: 'ORD-1001',
+            customerName: 'Sam Lee',
+            orderedAt: new Date('2026-03-02T00:00:00Z'),
+            itemIndex: 0,
+            pieceId: 'piece-1',
+            name: 'Custom Mug',
+            quantity: 2,
+            productionDue: new Date('2026-03-23T00:00:00Z'),
+          },
+        ],
+        shortfalls: [
+          {
+            materialId: 'mat-1',
+            materialName: 'Clay',
+            unit: 'kilogram',
+            required: 4,
+            inStock: 1,
+            shortfall: 3,
+          },
+        ],
+      } as any)
+
+      const res = await getProductionQueue()
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.items).toHaveLength(1)
+      expect(data.items[0].orderNumber).toBe('ORD-1001')
+      expect(data.shortfalls[0].shortfall).toBe(3)
+      expect(productionRuns.getProductionQueue).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+      )
+    })
+  })
+
+  describe('POST /api/production-runs', () => {
+    it('passes queued order items through to the run', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(productionRuns.createProductionRun).mockResolvedValue({
+        id: 'run-1',
+      } as any)
+
+      const body = {
+        pieceId: 'piece-1',
+        quantityProduced: 2,
+        orderItems: [{ orderId: 'order-1', itemIndex: 0 }],
+      }
+      const req = createRequest('/api/production-runs', {
+        method: 'POST',
+        body,
+      })
+      const res = await createProductionRun(req)
+
+      expect(res.status).toBe(201)
+      expect(productionRuns.createProductionRun).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        body,
+      )
+    })
+
+    it('returns 400 when an item is no longer queued', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(productionRuns.createProductionRun).mockRejectedValue(
+        new Error(
+          'Order ORD-1001 item 1 is not in the production queue for this piece',
+        ),
+      )
+
+      const req = createRequest('/api/production-runs', {
+        method: 'POST',
+        body: {
+          pieceId: 'piece-1',
+          quantityProduced: 2,
+          orderItems: [{ orderId: 'order-1', itemIndex: 0 }],
+        },
+      })
+      const res = await createProductionRun(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.error).toContain('not in the production queue')
+    })
+
+    it("returns 400 when a recipe unit can't convert to the stock unit", async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(productionRuns.createProductionRun).mockRejectedValue(
+        new Error("Clay is stocked in kg and can't be measured in piece"),
+      )
+
+      const req = createRequest('/api/production-runs', {
+        method: 'POST',
+        body: { pieceId: 'piece-1', quantityProduced: 1 },
+      })
+      const res = await createProductionRun(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.error).toContain("can't be measured in")
+    })
+  })
+})
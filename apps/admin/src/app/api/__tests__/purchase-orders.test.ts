@@ -0,0 +1,204 @@
+import { purchaseOrders, suppliers, tenants } from '@madebuy/db'
+import { ConflictError } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRequest, MOCK_TENANT_FREE } from '../../../__tests__/setup'
+
+const mockGetCurrentTenant = vi.fn()
+
+vi.mock('@/lib/session', () => ({
+  getCurrentTenant: () => mockGetCurrentTenant(),
+}))
+
+const mockSendPurchaseOrderEmail = vi.fn()
+vi.mock('@/lib/email', () => ({
+  sendPurchaseOrderEmail: (...args: any[]) =>
+    mockSendPurchaseOrderEmail(...args),
+}))
+
+vi.mock('@/lib/purchase-order-pdf', () => ({
+  generatePurchaseOrderPDF: vi.fn(async () => new Uint8Array([1, 2, 3])),
+}))
+
+// Import handlers AFTER mocks
+import { POST as generateDrafts } from '../purchase-orders/route'
+import { POST as receivePurchaseOrder } from '../purchase-orders/[id]/receive/route'
+import { POST as sendPurchaseOrder } from '../purchase-orders/[id]/send/route'
+
+const DRAFT_PO = {
+  id: 'po-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  poNumber: 'PO-TEST-1',
+  supplierId: 'sup-1',
+  supplierName: 'Bead Wholesale',
+  status: 'draft',
+  items: [
+    {
+      materialId: 'mat-1',
+      materialName: 'Silver wire',
+      unit: 'meter',
+      quantity: 17,
+      costPerUnit: 1.2,
+    },
+  ],
+  subtotal: 20.4,
+  currency: 'AUD',
+  belowMinimum: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const params = { params: { id: 'po-1' } }
+
+describe('Purchase Orders API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /api/purchase-orders', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockGetCurrentTenant.mockResolvedValue(null)
+
+      const res = await generateDrafts()
+
+      expect(res.status).toBe(401)
+    })
+
+    it('drafts purchase orders for low stock materials', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.generateDraftPurchaseOrders).mockResolvedValue([
+        DRAFT_PO,
+      ] as any)
+
+      const res = await generateDrafts()
+      const data = await res.json()
+
+      expect(res.status).toBe(201)
+      expect(data.purchaseOrders).toHaveLength(1)
+      expect(purchaseOrders.generateDraftPurchaseOrders).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+      )
+    })
+  })
+
+  describe('POST /api/purchase-orders/[id]/send', () => {
+    it('returns 400 when the supplier has no email', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.getPurchaseOrder).mockResolvedValue(
+        DRAFT_PO as any,
+      )
+      vi.mocked(suppliers.getSupplier).mockResolvedValue({
+        id: 'sup-1',
+        name: 'Bead Wholesale',
+      } as any)
+
+      const req = createRequest('/api/purchase-orders/po-1/send', {
+        method: 'POST',
+      })
+      const res = await sendPurchaseOrder(req, params)
+
+      expect(res.status).toBe(400)
+      expect(mockSendPurchaseOrderEmail).not.toHaveBeenCalled()
+    })
+
+    it('emails the PDF and marks the order sent', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.getPurchaseOrder).mockResolvedValue(
+        DRAFT_PO as any,
+      )
+      vi.mocked(suppliers.getSupplier).mockResolvedValue({
+        id: 'sup-1',
+        name: 'Bead Wholesale',
+        email: 'orders@beads.example',
+        leadTimeDays: 7,
+      } as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue(
+        MOCK_TENANT_FREE as any,
+      )
+      mockSendPurchaseOrderEmail.mockResolvedValue({ success: true })
+      vi.mocked(purchaseOrders.markPurchaseOrderSent).mockResolvedValue({
+        ...DRAFT_PO,
+        status: 'sent',
+      } as any)
+
+      const req = createRequest('/api/purchase-orders/po-1/send', {
+        method: 'POST',
+      })
+      const res = await sendPurchaseOrder(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.purchaseOrder.status).toBe('sent')
+      expect(mockSendPurchaseOrderEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          supplier: expect.objectContaining({ email: 'orders@beads.example' }),
+          pdf: expect.any(Buffer),
+        }),
+      )
+    })
+
+    it('leaves the order as a draft when the email fails', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.getPurchaseOrder).mockResolvedValue(
+        DRAFT_PO as any,
+      )
+      vi.mocked(suppliers.getSupplier).mockResolvedValue({
+        id: 'sup-1',
+        name: 'Bead Wholesale',
+        email: 'orders@beads.example',
+      } as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue(
+        MOCK_TENANT_FREE as any,
+      )
+      mockSendPurchaseOrderEmail.mockResolvedValue({
+        success: false,
+        error: 'Email service not configured',
+      })
+
+      const req = createRequest('/api/purchase-orders/po-1/send', {
+        method: 'POST',
+      })
+      const res = await sendPurchaseOrder(req, params)
+
+      expect(res.status).toBe(502)
+      expect(purchaseOrders.markPurchaseOrderSent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/purchase-orders/[id]/receive', () => {
+    it('receives with delivered quantities', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.receivePurchaseOrder).mockResolvedValue({
+        ...DRAFT_PO,
+        status: 'received',
+      } as any)
+
+      const body = { items: [{ materialId: 'mat-1', quantityReceived: 15 }] }
+      const req = createRequest('/api/purchase-orders/po-1/receive', {
+        method: 'POST',
+        body,
+      })
+      const res = await receivePurchaseOrder(req, params)
+
+      expect(res.status).toBe(200)
+      expect(purchaseOrders.receivePurchaseOrder).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'po-1',
+        body,
+      )
+    })
+
+    it('returns 409 when already received', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(purchaseOrders.receivePurchaseOrder).mockRejectedValue(
+        new ConflictError('Purchase order is already received'),
+      )
+
+      const req = createRequest('/api/purchase-orders/po-1/receive', {
+        method: 'POST',
+      })
+      const res = await receivePurchaseOrder(req, params)
+
+      expect(res.status).toBe(409)
+    })
+  })
+})
@@ -24,6 +24,7 @@ import {
 import { POST as completeReconciliation } from '../reconciliations/[id]/complete/route'
 import { POST as cancelReconciliation } from '../reconciliations/[id]/cancel/route'
 import { POST as addReconciliationItem } from '../reconciliations/[id]/items/route'
+import { POST as scanReconciliationItem } from '../reconciliations/[id]/scan/route'
 
 describe('Reconciliations API', () => {
   beforeEach(() => {
@@ -419,7 +420,9 @@ describe('Reconciliations API', () => {
       const data = await res.json()
 
       expect(res.status).toBe(400)
-      expect(data).toEqual({ error: 'itemType must be "material" or "piece"' })
+      expect(data).toEqual({
+        error: 'itemType must be "material", "piece" or "variant"',
+      })
     })
 
     it('returns 404 when reconciliation not found', async () => {
@@ -485,4 +488,61 @@ describe('Reconciliations API', () => {
       expect(data).toEqual({ item: mockItem })
     })
   })
+
+  describe('POST /api/reconciliations/[id]/scan', () => {
+    it('counts the scanned item and returns the updated count', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(reconciliations.recordScan).mockResolvedValue({
+        id: 'item-1',
+        itemType: 'variant',
+        itemId: 'var-1',
+        pieceId: 'piece-1',
+        itemName: 'Linen Tee - Blue / M',
+        expectedQuantity: 4,
+        actualQuantity: 1,
+        discrepancy: -3,
+      })
+      vi.mocked(reconciliations.getReconciliation).mockResolvedValue({
+        id: '1',
+        status: 'in_progress',
+      } as any)
+
+      const req = createRequest('/api/reconciliations/1/scan', {
+        method: 'POST',
+        body: { code: 'TEE-BLU-M' },
+      })
+      const res = await scanReconciliationItem(req, {
+        params: Promise.resolve({ id: '1' }),
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(reconciliations.recordScan).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        '1',
+        'TEE-BLU-M',
+      )
+      expect(data.item.actualQuantity).toBe(1)
+      expect(data.reconciliation.id).toBe('1')
+    })
+
+    it('returns 404 when nothing has the scanned code', async () => {
+      mockGetCurrentTenant.mockResolvedValue(MOCK_TENANT_FREE)
+      vi.mocked(reconciliations.recordScan).mockRejectedValue(
+        new Error('No item found with barcode or SKU 12345'),
+      )
+
+      const req = createRequest('/api/reconciliations/1/scan', {
+        method: 'POST',
+        body: { code: '12345' },
+      })
+      const res = await scanReconciliationItem(req, {
+        params: Promise.resolve({ id: '1' }),
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(404)
+      expect(data.error).toContain('No item found')
+    })
+  })
 })
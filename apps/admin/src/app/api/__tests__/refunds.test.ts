@@ -0,0 +1,248 @@
+import { orders, refunds, tenants } from '@madebuy/db'
+import {
+  ConflictError,
+  ExternalServiceError,
+  ValidationError,
+} from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+const mockIssueProviderRefund = vi.fn()
+vi.mock('@/lib/refunds', () => ({
+  issueProviderRefund: (...args: any[]) => mockIssueProviderRefund(...args),
+}))
+
+// Import handlers AFTER mocks
+import { POST as refundOrder } from '../orders/[id]/refund/route'
+
+// Orders are stored in major units (dollars); refunds are in cents
+const PAID_ORDER = {
+  id: 'order-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderNumber: 'ORD-ABC123',
+  items: [
+    { pieceId: 'piece-1', name: 'Stoneware mug', price: 22.25, quantity: 2 },
+  ],
+  shipping: 10,
+  total: 54.5,
+  currency: 'AUD',
+  paymentMethod: 'stripe',
+  paymentStatus: 'paid',
+  status: 'delivered',
+  stripePaymentIntentId: 'pi_123',
+}
+
+const PLAN = {
+  amount: 2225,
+  items: [
+    { pieceId: 'piece-1', name: 'Stoneware mug', quantity: 1, amount: 2225 },
+  ],
+  includesShipping: false,
+  restock: true,
+}
+
+describe('Refunds API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /api/orders/[id]/refund', () => {
+    const params = { params: { id: 'order-1' } }
+
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: {},
+      })
+      const res = await refundOrder(req, params)
+
+      expect(res.status).toBe(401)
+    })
+
+    it('returns 404 when the order does not exist', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(null)
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: {},
+      })
+      const res = await refundOrder(req, params)
+
+      expect(res.status).toBe(404)
+      expect(refunds.prepareRefund).not.toHaveBeenCalled()
+    })
+
+    it('refunds selected items through the provider and records it', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(PAID_ORDER as any)
+      vi.mocked(refunds.prepareRefund).mockResolvedValue(PLAN as any)
+      mockIssueProviderRefund.mockResolvedValue({
+        provider: 'stripe',
+        providerRefundId: 're_123',
+      })
+      vi.mocked(tenants.getTenantById).mockResolvedValue({
+        ...MOCK_TENANT_FREE,
+        taxSettings: { gstRegistered: true, gstRate: 10 },
+      } as any)
+      vi.mocked(refunds.recordRefund).mockResolvedValue({
+        id: 'refund-1',
+        amount: 2225,
+      } as any)
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: {
+          items: [{ pieceId: 'piece-1', quantity: 1 }],
+          reason: 'Chipped in transit',
+          restock: true,
+        },
+      })
+      const res = await refundOrder(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(201)
+      expect(data.refund.id).toBe('refund-1')
+      expect(refunds.prepareRefund).toHaveBeenCalledWith(
+        PAID_ORDER,
+        expect.objectContaining({
+          items: [{ pieceId: 'piece-1', quantity: 1 }],
+          reason: 'Chipped in transit',
+          restock: true,
+        }),
+      )
+      expect(mockIssueProviderRefund).toHaveBeenCalledWith(
+        PAID_ORDER,
+        2225,
+        expect.any(String),
+      )
+      expect(refunds.reserveRefund).toHaveBeenCalledWith(PAID_ORDER, 2225)
+      expect(refunds.recordRefund).toHaveBeenCalledWith(PAID_ORDER, PLAN, {
+        provider: 'stripe',
+        providerRefundId: 're_123',
+        reserved: true,
+        gstRate: 10,
+      })
+    })
+
+    it('rejects a malformed refund before working it out', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(PAID_ORDER as any)
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: { items: [{ pieceId: 'piece-1', quantity: 0 }], amount: 12.5 },
+      })
+      const res = await refundOrder(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.code).toBe('VALIDATION_ERROR')
+      expect(refunds.prepareRefund).not.toHaveBeenCalled()
+    })
+
+    it('does not call the provider when the refund is invalid', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(PAID_ORDER as any)
+      vi.mocked(refunds.prepareRefund).mockRejectedValue(
+        new ValidationError('Refund amount is more than is left to refund', {
+          amount: ['Refund amount is more than is left to refund'],
+        }),
+      )
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: { amount: 999999 },
+      })
+      const res = await refundOrder(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.amount).toBeDefined()
+      expect(mockIssueProviderRefund).not.toHaveBeenCalled()
+      expect(refunds.recordRefund).not.toHaveBeenCalled()
+    })
+
+    it('does not record the refund when the provider fails', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(PAID_ORDER as any)
+      vi.mocked(refunds.prepareRefund).mockResolvedValue(PLAN as any)
+      mockIssueProviderRefund.mockRejectedValue(
+        new ExternalServiceError('Stripe', 'charge_already_refunded'),
+      )
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: {},
+      })
+      const res = await refundOrder(req, params)
+
+      expect(res.status).toBe(502)
+      expect(refunds.releaseRefund).toHaveBeenCalledWith(PAID_ORDER, 2225)
+      expect(refunds.recordRefund).not.toHaveBeenCalled()
+    })
+
+    it('does not call the provider when a concurrent refund took the amount', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(PAID_ORDER as any)
+      vi.mocked(refunds.prepareRefund).mockResolvedValue(PLAN as any)
+      vi.mocked(refunds.reserveRefund).mockRejectedValueOnce(
+        new ConflictError('Another refund has already been made on this order'),
+      )
+
+      const req = createRequest('/api/orders/order-1/refund', {
+        method: 'POST',
+        body: {},
+      })
+      const res = await refundOrder(req, params)
+
+      expect(res.status).toBe(409)
+      expect(mockIssueProviderRefund).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('prepareRefund', () => {
+    async function actualRefunds() {
+      const db =
+        await vi.importActual<typeof import('@madebuy/db')>('@madebuy/db')
+      return db.refunds
+    }
+
+    it('refunds everything left on a major-unit order in cents', async () => {
+      const { getRefundableAmount, prepareRefund } = await actualRefunds()
+      const order = { ...PAID_ORDER, refundedAmount: 2225 } as any
+
+      const plan = await prepareRefund(order, {})
+
+      expect(getRefundableAmount(order)).toBe(3225)
+      expect(plan.amount).toBe(3225)
+      expect(plan.items).toEqual([
+        {
+          pieceId: 'piece-1',
+          variantId: undefined,
+          name: 'Stoneware mug',
+          quantity: 2,
+          amount: 4450,
+        },
+      ])
+    })
+
+    it('prices refunded items and shipping in cents', async () => {
+      const { prepareRefund } = await actualRefunds()
+
+      const plan = await prepareRefund(PAID_ORDER as any, {
+        items: [{ pieceId: 'piece-1', quantity: 1 }],
+        includeShipping: true,
+      })
+
+      expect(plan.amount).toBe(3225)
+    })
+  })
+})
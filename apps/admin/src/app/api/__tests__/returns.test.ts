@@ -0,0 +1,259 @@
+import { orders, pieces, returns, tenants } from '@madebuy/db'
+import { ConflictError } from '@madebuy/shared'
+import { createSendleClient } from '@madebuy/shipping'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+vi.mock('@madebuy/shipping', () => ({
+  createSendleClient: vi.fn(),
+  SendleError: class SendleError extends Error {
+    statusCode = 422
+    details = {}
+  },
+}))
+
+// Import handlers AFTER mocks
+import { POST as createLabel } from '../returns/[id]/label/route'
+import { PATCH as updateReturn } from '../returns/[id]/route'
+import { GET as listReturns } from '../returns/route'
+
+const RETURN_REQUEST = {
+  id: 'return-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderId: 'order-1',
+  orderNumber: 'ORD-ABC123',
+  rmaNumber: 'RMA-X7K2PQ',
+  customerEmail: 'sam@example.com',
+  customerName: 'Sam Buyer',
+  reason: 'damaged',
+  items: [{ pieceId: 'piece-1', name: 'Stoneware mug', quantity: 1 }],
+  status: 'approved',
+  createdAt: new Date('2026-10-01'),
+  updatedAt: new Date('2026-10-02'),
+}
+
+const ORDER = {
+  id: 'order-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  customerName: 'Sam Buyer',
+  customerEmail: 'sam@example.com',
+  shippingAddress: {
+    line1: '4 Smith St',
+    city: 'Fitzroy',
+    state: 'VIC',
+    postcode: '3065',
+    country: 'AU',
+  },
+}
+
+const SENDLE_TENANT = {
+  ...MOCK_TENANT_FREE,
+  sendleSettings: {
+    isConnected: true,
+    apiKey: 'key',
+    senderId: 'sender',
+    environment: 'sandbox',
+    pickupAddress: {
+      addressLine1: '1 Studio Lane',
+      suburb: 'Newtown',
+      state: 'NSW',
+      postcode: '2042',
+      country: 'AU',
+    },
+  },
+}
+
+describe('Returns API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET /api/returns', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const res = await listReturns(createRequest('/api/returns'))
+
+      expect(res.status).toBe(401)
+    })
+
+    it('lists returns filtered by status', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.listReturns).mockResolvedValue([RETURN_REQUEST] as any)
+
+      const res = await listReturns(
+        createRequest('/api/returns?status=approved'),
+      )
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.returns).toHaveLength(1)
+      expect(returns.listReturns).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, {
+        status: 'approved',
+        orderId: undefined,
+      })
+    })
+  })
+
+  describe('PATCH /api/returns/[id]', () => {
+    const params = { params: { id: 'return-1' } }
+
+    it('approves a requested return', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.approveReturn).mockResolvedValue(RETURN_REQUEST as any)
+
+      const req = createRequest('/api/returns/return-1', {
+        method: 'PATCH',
+        body: { action: 'approve' },
+      })
+      const res = await updateReturn(req, params)
+
+      expect(res.status).toBe(200)
+      expect(returns.approveReturn).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'return-1',
+      )
+    })
+
+    it('declines a return with a reason', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.rejectReturn).mockResolvedValue({
+        ...RETURN_REQUEST,
+        status: 'rejected',
+      } as any)
+
+      const req = createRequest('/api/returns/return-1', {
+        method: 'PATCH',
+        body: { action: 'reject', reason: 'Outside the return window' },
+      })
+      const res = await updateReturn(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.return.status).toBe('rejected')
+      expect(returns.rejectReturn).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'return-1',
+        'Outside the return window',
+      )
+    })
+
+    it('returns 409 when the return has moved on', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.markReturnReceived).mockRejectedValue(
+        new ConflictError('Return is not awaiting the parcel'),
+      )
+
+      const req = createRequest('/api/returns/return-1', {
+        method: 'PATCH',
+        body: { action: 'receive' },
+      })
+      const res = await updateReturn(req, params)
+
+      expect(res.status).toBe(409)
+    })
+
+    it('rejects unknown actions', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const req = createRequest('/api/returns/return-1', {
+        method: 'PATCH',
+        body: { action: 'refund' },
+      })
+      const res = await updateReturn(req, params)
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/returns/[id]/label', () => {
+    const params = { params: { id: 'return-1' } }
+
+    it('requires the return to be approved', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.getReturn).mockResolvedValue({
+        ...RETURN_REQUEST,
+        status: 'requested',
+      } as any)
+
+      const req = createRequest('/api/returns/return-1/label', {
+        method: 'POST',
+      })
+      const res = await createLabel(req, params)
+
+      expect(res.status).toBe(409)
+      expect(createSendleClient).not.toHaveBeenCalled()
+    })
+
+    it('requires Sendle to be set up', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.getReturn).mockResolvedValue(RETURN_REQUEST as any)
+      vi.mocked(orders.getOrder).mockResolvedValue(ORDER as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue(
+        MOCK_TENANT_FREE as any,
+      )
+
+      const req = createRequest('/api/returns/return-1/label', {
+        method: 'POST',
+      })
+      const res = await createLabel(req, params)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.details.sendle).toBeDefined()
+    })
+
+    it('books a label from the buyer back to the pickup address', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(returns.getReturn).mockResolvedValue(RETURN_REQUEST as any)
+      vi.mocked(orders.getOrder).mockResolvedValue(ORDER as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue(SENDLE_TENANT as any)
+      vi.mocked(pieces.getPiece).mockResolvedValue({
+        id: 'piece-1',
+        shippingWeight: 400,
+      } as any)
+      const mockClient = {
+        createOrder: vi.fn().mockResolvedValue({
+          order_id: 'sendle-1',
+          sendle_reference: 'SNXYZ',
+          tracking_url: 'https://track.sendle.com/SNXYZ',
+          labels: { pdf_url: 'https://sendle.com/label.pdf' },
+        }),
+      }
+      vi.mocked(createSendleClient).mockReturnValue(mockClient as any)
+      vi.mocked(returns.setReturnLabel).mockResolvedValue({
+        ...RETURN_REQUEST,
+        sendleOrderId: 'sendle-1',
+      } as any)
+
+      const req = createRequest('/api/returns/return-1/label', {
+        method: 'POST',
+      })
+      const res = await createLabel(req, params)
+
+      expect(res.status).toBe(200)
+      expect(mockClient.createOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sender_address: expect.objectContaining({ postcode: '3065' }),
+          receiver_address: expect.objectContaining({ postcode: '2042' }),
+          customer_reference: 'RMA-X7K2PQ',
+        }),
+      )
+      expect(returns.setReturnLabel).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'return-1',
+        {
+          sendleOrderId: 'sendle-1',
+          trackingNumber: 'SNXYZ',
+          trackingUrl: 'https://track.sendle.com/SNXYZ',
+          labelUrl: 'https://sendle.com/label.pdf',
+        },
+      )
+    })
+  })
+})
@@ -1,17 +1,14 @@
 import { tenants } from '@madebuy/db'
 import { createSendleClient } from '@madebuy/shipping'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCurrentRole } from '@/lib/session'
 import {
-  MOCK_USER,
   createRequest,
+  MOCK_TENANT_FREE,
+  mockCurrentTenant,
+  mockUnauthorized,
 } from '../../../__tests__/setup'
 
-const mockGetCurrentUser = vi.fn()
-
-vi.mock('@/lib/session', () => ({
-  getCurrentUser: () => mockGetCurrentUser(),
-}))
-
 vi.mock('@madebuy/shipping', () => ({
   createSendleClient: vi.fn(),
 }))
@@ -19,15 +16,20 @@ vi.mock('@madebuy/shipping', () => ({
 // Import handlers AFTER mocks
 import { GET as getSendle, POST as saveSendle } from '../shipping/sendle/route'
 import { POST as testSendle } from '../shipping/sendle/test/route'
+import {
+  GET as getCarriers,
+  PUT as saveCarriers,
+} from '../shipping/carriers/route'
 
 describe('Shipping API - Sendle', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(getCurrentRole).mockResolvedValue('owner')
   })
 
   describe('GET /api/shipping/sendle', () => {
     it('returns 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockUnauthorized()
 
       const req = createRequest('/api/shipping/sendle')
       const res = await getSendle()
@@ -37,21 +39,17 @@ describe('Shipping API - Sendle', () => {
       expect(data).toEqual({ error: 'Unauthorized' })
     })
 
-    it('returns 404 when tenant not found', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
-      vi.mocked(tenants.getTenantById).mockResolvedValue(null)
+    it('returns 403 for staff without settings access', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(getCurrentRole).mockResolvedValue('fulfilment')
 
-      const req = createRequest('/api/shipping/sendle')
       const res = await getSendle()
-      const data = await res.json()
 
-      expect(res.status).toBe(404)
-      expect(data).toEqual({ error: 'Tenant not found' })
+      expect(res.status).toBe(403)
     })
 
     it('returns Sendle settings with masked API key', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockCurrentTenant({
         id: 'tenant-123',
         sendleSettings: {
           apiKey: 'sk_live_1234567890abcdef',
@@ -61,7 +59,7 @@ describe('Shipping API - Sendle', () => {
           environment: 'production',
         },
         freeShippingThreshold: 5000,
-      } as any)
+      })
 
       const res = await getSendle()
       const data = await res.json()
@@ -81,7 +79,7 @@ describe('Shipping API - Sendle', () => {
 
   describe('POST /api/shipping/sendle', () => {
     it('returns 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockUnauthorized()
 
       const req = createRequest('/api/shipping/sendle', {
         method: 'POST',
@@ -95,7 +93,7 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('returns 400 when API key and sender ID are missing', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
+      mockCurrentTenant(MOCK_TENANT_FREE)
 
       const req = createRequest('/api/shipping/sendle', {
         method: 'POST',
@@ -109,7 +107,7 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('returns 400 when environment is invalid', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
+      mockCurrentTenant(MOCK_TENANT_FREE)
 
       const req = createRequest('/api/shipping/sendle', {
         method: 'POST',
@@ -125,10 +123,8 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('saves Sendle settings successfully', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
-      vi.mocked(tenants.getTenantById)
-        .mockResolvedValueOnce({ id: 'tenant-123' } as any)
-        .mockResolvedValueOnce({
+      mockCurrentTenant({ id: 'tenant-123' })
+      vi.mocked(tenants.getTenantById).mockResolvedValue({
           id: 'tenant-123',
           sendleSettings: {
             apiKey: 'sk_test_1234567890abcdef',
@@ -161,7 +157,7 @@ describe('Shipping API - Sendle', () => {
 
   describe('POST /api/shipping/sendle/test', () => {
     it('returns 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockUnauthorized()
 
       const req = createRequest('/api/shipping/sendle/test', {
         method: 'POST',
@@ -175,7 +171,7 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('returns 400 when sender ID is missing', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
+      mockCurrentTenant(MOCK_TENANT_FREE)
 
       const req = createRequest('/api/shipping/sendle/test', {
         method: 'POST',
@@ -189,8 +185,7 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('returns success when credentials are valid', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
-      vi.mocked(tenants.getTenantById).mockResolvedValue({ id: 'tenant-123' } as any)
+      mockCurrentTenant({ id: 'tenant-123' })
 
       const mockClient = {
         verifyCredentials: vi.fn().mockResolvedValue(true),
@@ -218,8 +213,7 @@ describe('Shipping API - Sendle', () => {
     })
 
     it('returns failure when credentials are invalid', async () => {
-      mockGetCurrentUser.mockResolvedValue(MOCK_USER)
-      vi.mocked(tenants.getTenantById).mockResolvedValue({ id: 'tenant-123' } as any)
+      mockCurrentTenant({ id: 'tenant-123' })
 
       const mockClient = {
         verifyCredentials: vi.fn().mockResolvedValue(false),
@@ -244,4 +238,114 @@ describe('Shipping API - Sendle', () => {
       })
     })
   })
+
+  describe('/api/shipping/carriers', () => {
+    const rateTable = {
+      id: 'table-1',
+      name: 'Standard Post',
+      enabled: true,
+      estimatedDays: { min: 3, max: 7 },
+      zones: [
+        {
+          id: 'au',
+          name: 'Australia',
+          countries: ['au'],
+          brackets: [
+            { maxWeightGrams: 2000, priceCents: 1500 },
+            { maxWeightGrams: 500, priceCents: 900 },
+          ],
+        },
+      ],
+    }
+
+    it('returns carrier settings with masked Australia Post key', async () => {
+      mockCurrentTenant({
+        id: 'tenant-123',
+        shippingCarriers: {
+          auspost: { enabled: true, apiKey: 'auspost-1234567890' },
+        },
+      })
+
+      const res = await getCarriers()
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data).toEqual({
+        auspost: { enabled: true, apiKey: 'ausp***7890' },
+        rateTables: [],
+      })
+    })
+
+    it('keeps the saved Australia Post key when the masked key is sent back', async () => {
+      mockCurrentTenant({
+        id: 'tenant-123',
+        shippingCarriers: {
+          auspost: { enabled: false, apiKey: 'auspost-1234567890' },
+        },
+      })
+      vi.mocked(tenants.updateTenant).mockResolvedValue(undefined)
+
+      const req = createRequest('/api/shipping/carriers', {
+        method: 'PUT',
+        body: {
+          auspost: { enabled: true, apiKey: 'ausp***7890' },
+          rateTables: [rateTable],
+        },
+      })
+      const res = await saveCarriers(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(tenants.updateTenant).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, {
+        shippingCarriers: {
+          auspost: { enabled: true, apiKey: 'auspost-1234567890' },
+          rateTables: [
+            expect.objectContaining({
+              zones: [
+                expect.objectContaining({
+                  countries: ['AU'],
+                  brackets: [
+                    { maxWeightGrams: 500, priceCents: 900 },
+                    { maxWeightGrams: 2000, priceCents: 1500 },
+                  ],
+                }),
+              ],
+            }),
+          ],
+        },
+      })
+      expect(data.auspost.apiKey).toBe('ausp***7890')
+    })
+
+    it('returns 400 when enabling Australia Post without a key', async () => {
+      mockCurrentTenant({
+        id: 'tenant-123',
+      })
+
+      const req = createRequest('/api/shipping/carriers', {
+        method: 'PUT',
+        body: { auspost: { enabled: true } },
+      })
+      const res = await saveCarriers(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data).toEqual({ error: 'An Australia Post API key is required' })
+      expect(tenants.updateTenant).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 for an invalid rate table', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const req = createRequest('/api/shipping/carriers', {
+        method: 'PUT',
+        body: { rateTables: [{ ...rateTable, zones: [] }] },
+      })
+      const res = await saveCarriers(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.error).toBe('Invalid carrier settings')
+    })
+  })
 })
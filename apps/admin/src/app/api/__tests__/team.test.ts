@@ -0,0 +1,233 @@
+import { auditLog, teamMembers } from '@madebuy/db'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCurrentRole, getCurrentTenant, getCurrentUser } from '@/lib/session'
+import { checkCanAddTeamMember } from '@/lib/subscription-check'
+
+// Import handlers AFTER mocks
+import { DELETE, PATCH } from '../team/[id]/route'
+import { POST as ACCEPT } from '../team/accept/route'
+import { GET, POST } from '../team/route'
+
+const mockTenant = {
+  id: 'tenant-123',
+  email: 'owner@example.com',
+  businessName: 'Test Shop',
+  plan: 'studio',
+}
+
+const mockMember = {
+  id: 'member-1',
+  tenantId: 'tenant-123',
+  email: 'staff@example.com',
+  name: 'Sam',
+  role: 'fulfilment',
+  status: 'invited',
+  inviteToken: 'invite-token',
+}
+
+function asOwner() {
+  vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+  vi.mocked(getCurrentRole).mockResolvedValue('owner')
+  vi.mocked(getCurrentUser).mockResolvedValue({
+    id: mockTenant.id,
+    email: mockTenant.email,
+    name: mockTenant.businessName,
+    role: 'owner',
+  })
+}
+
+describe('Team API - GET /api/team', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(null)
+
+    const response = await GET()
+
+    expect(response.status).toBe(401)
+  })
+
+  it('returns 403 for staff without team permission', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(getCurrentRole).mockResolvedValue('manager')
+
+    const response = await GET()
+
+    expect(response.status).toBe(403)
+    expect(teamMembers.listTeamMembers).not.toHaveBeenCalled()
+  })
+
+  it('counts the owner as a seat', async () => {
+    asOwner()
+    vi.mocked(teamMembers.listTeamMembers).mockResolvedValue([mockMember])
+
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.members).toHaveLength(1)
+    expect(data.seats).toEqual({ used: 2, limit: 3 })
+  })
+})
+
+describe('Team API - POST /api/team', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects the owner role', async () => {
+    asOwner()
+    const request = new NextRequest('http://localhost/api/team', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: 'staff@example.com',
+        name: 'Sam',
+        role: 'owner',
+      }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(400)
+    expect(teamMembers.inviteTeamMember).not.toHaveBeenCalled()
+  })
+
+  it('enforces the plan team member limit', async () => {
+    asOwner()
+    vi.mocked(checkCanAddTeamMember).mockResolvedValueOnce({
+      allowed: false,
+      message: 'Limit reached',
+      requiredPlan: 'studio',
+    })
+    const request = new NextRequest('http://localhost/api/team', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: 'staff@example.com',
+        name: 'Sam',
+        role: 'fulfilment',
+      }),
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.code).toBe('QUOTA_EXCEEDED')
+    expect(teamMembers.inviteTeamMember).not.toHaveBeenCalled()
+  })
+
+  it('invites a member and records an audit entry', async () => {
+    asOwner()
+    vi.mocked(teamMembers.inviteTeamMember).mockResolvedValue(mockMember)
+    const request = new NextRequest('http://localhost/api/team', {
+      method: 'POST',
+      body: JSON.stringify({
+        email: 'staff@example.com',
+        name: 'Sam',
+        role: 'fulfilment',
+      }),
+    })
+
+    const response = await POST(request)
+
+    expect(response.status).toBe(201)
+    expect(teamMembers.inviteTeamMember).toHaveBeenCalledWith('tenant-123', {
+      email: 'staff@example.com',
+      name: 'Sam',
+      role: 'fulfilment',
+      invitedBy: 'owner@example.com',
+    })
+    expect(auditLog.logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'team.invite',
+        actorType: 'tenant',
+        tenantId: 'tenant-123',
+      }),
+    )
+  })
+})
+
+describe('Team API - /api/team/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('changes a role and logs the previous value', async () => {
+    asOwner()
+    vi.mocked(teamMembers.getTeamMember).mockResolvedValue(mockMember)
+    vi.mocked(teamMembers.updateTeamMemberRole).mockResolvedValue({
+      ...mockMember,
+      role: 'content',
+    })
+    const request = new NextRequest('http://localhost/api/team/member-1', {
+      method: 'PATCH',
+      body: JSON.stringify({ role: 'content' }),
+    })
+
+    const response = await PATCH(request, {
+      params: Promise.resolve({ id: 'member-1' }),
+    })
+
+    expect(response.status).toBe(200)
+    expect(auditLog.logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'team.role.change',
+        metadata: expect.objectContaining({
+          from: 'fulfilment',
+          to: 'content',
+        }),
+      }),
+    )
+  })
+
+  it('returns 404 when removing a member from another tenant', async () => {
+    asOwner()
+    vi.mocked(teamMembers.getTeamMember).mockResolvedValue(null)
+    const request = new NextRequest('http://localhost/api/team/member-9', {
+      method: 'DELETE',
+    })
+
+    const response = await DELETE(request, {
+      params: Promise.resolve({ id: 'member-9' }),
+    })
+
+    expect(response.status).toBe(404)
+    expect(teamMembers.removeTeamMember).not.toHaveBeenCalled()
+  })
+})
+
+describe('Team API - POST /api/team/accept', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects weak passwords', async () => {
+    const request = new NextRequest('http://localhost/api/team/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token: 'invite-token', password: 'short' }),
+    })
+
+    const response = await ACCEPT(request)
+
+    expect(response.status).toBe(400)
+    expect(teamMembers.acceptInvitation).not.toHaveBeenCalled()
+  })
+
+  it('returns 400 for expired invitations', async () => {
+    vi.mocked(teamMembers.acceptInvitation).mockResolvedValue(null)
+    const request = new NextRequest('http://localhost/api/team/accept', {
+      method: 'POST',
+      body: JSON.stringify({
+        token: 'invite-token',
+        password: 'Correct-Horse-42!',
+      }),
+    })
+
+    const response = await ACCEPT(request)
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -2,10 +2,8 @@ import { tenants } from '@madebuy/db'
 import { NextRequest } from 'next/server'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-const mockGetCurrentUser = vi.fn()
 const mockGetCurrentTenant = vi.fn()
 vi.mock('@/lib/session', () => ({
-  getCurrentUser: () => mockGetCurrentUser(),
   getCurrentTenant: () => mockGetCurrentTenant(),
 }))
 
@@ -39,7 +37,7 @@ describe('Tenant API Routes', () => {
 
   describe('GET /api/tenant', () => {
     it('should return 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockGetCurrentTenant.mockResolvedValue(null)
 
       const response = await GET()
       const data = await response.json()
@@ -48,15 +46,21 @@ describe('Tenant API Routes', () => {
       expect(data.error).toBe('Unauthorized')
     })
 
-    it('should return tenant successfully', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+    it('should return tenant without credentials', async () => {
+      const actual =
+        await vi.importActual<typeof import('@madebuy/db')>('@madebuy/db')
+      vi.mocked(tenants.toPublicTenant).mockImplementation(
+        actual.tenants.toPublicTenant,
+      )
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
+        passwordHash: 'hashed-password',
         businessName: 'Test Shop',
         slug: 'test-shop',
         plan: 'free',
         features: {},
+        sendleSettings: { apiKey: 'sendle-key', senderId: 'sender-123' },
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -67,23 +71,14 @@ describe('Tenant API Routes', () => {
       expect(response.status).toBe(200)
       expect(data.id).toBe('tenant-123')
       expect(data.businessName).toBe('Test Shop')
-    })
-
-    it('should return 404 when tenant not found', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue(null)
-
-      const response = await GET()
-      const data = await response.json()
-
-      expect(response.status).toBe(404)
-      expect(data.error).toBe('Tenant not found')
+      expect(data.passwordHash).toBeUndefined()
+      expect(data.sendleSettings).toEqual({ senderId: 'sender-123' })
     })
   })
 
   describe('PATCH /api/tenant', () => {
     it('should return 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockGetCurrentTenant.mockResolvedValue(null)
 
       const request = new NextRequest('http://localhost/api/tenant', {
         method: 'PATCH',
@@ -99,7 +94,7 @@ describe('Tenant API Routes', () => {
     })
 
     it('should update tenant successfully', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
+      mockGetCurrentTenant.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockSafeValidateUpdateTenant.mockReturnValue({
         success: true,
         data: { businessName: 'Updated Shop' },
@@ -132,7 +127,7 @@ describe('Tenant API Routes', () => {
     })
 
     it('should return 400 for validation errors', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
+      mockGetCurrentTenant.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockSafeValidateUpdateTenant.mockReturnValue({
         success: false,
         error: {
@@ -157,7 +152,7 @@ describe('Tenant API Routes', () => {
     })
 
     it('should return 400 when no valid fields to update', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
+      mockGetCurrentTenant.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockSafeValidateUpdateTenant.mockReturnValue({
         success: true,
         data: {},
@@ -0,0 +1,218 @@
+import { webhooks, workshops } from '@madebuy/db'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCurrentRole, getCurrentTenant } from '@/lib/session'
+
+vi.mock('node:dns/promises', () => {
+  const lookup = vi.fn(async () => [{ address: '93.184.216.34', family: 4 }])
+  return { default: { lookup }, lookup }
+})
+
+// Import handlers AFTER mocks
+import { PATCH as PATCH_BOOKING } from '../workshops/[id]/bookings/[bookingId]/route'
+import { POST as REPLAY } from '../webhooks/deliveries/[id]/replay/route'
+import { GET, POST } from '../webhooks/route'
+
+const mockTenant = {
+  id: 'tenant-123',
+  email: 'owner@example.com',
+  businessName: 'Test Shop',
+  plan: 'studio',
+}
+
+const mockEndpoint = {
+  id: 'endpoint-1',
+  tenantId: 'tenant-123',
+  url: 'https://example.com/hook',
+  events: ['order.paid', 'booking.confirmed'],
+  secret: 'whsec_test',
+  isActive: true,
+}
+
+function asOwner() {
+  vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+  vi.mocked(getCurrentRole).mockResolvedValue('owner')
+}
+
+function createRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/webhooks', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+describe('Webhooks API - /api/webhooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 403 for staff without settings permission', async () => {
+    vi.mocked(getCurrentTenant).mockResolvedValue(mockTenant)
+    vi.mocked(getCurrentRole).mockResolvedValue('content')
+
+    const response = await GET()
+
+    expect(response.status).toBe(403)
+  })
+
+  it('rejects non-HTTPS and private URLs', async () => {
+    asOwner()
+
+    const http = await POST(
+      createRequest({ url: 'http://example.com/hook', events: ['order.paid'] }),
+    )
+    const internal = await POST(
+      createRequest({ url: 'https://127.0.0.1/hook', events: ['order.paid'] }),
+    )
+    const mapped = await POST(
+      createRequest({
+        url: 'https://[::ffff:7f00:1]/hook',
+        events: ['order.paid'],
+      }),
+    )
+
+    expect(http.status).toBe(400)
+    expect(internal.status).toBe(400)
+    expect(mapped.status).toBe(400)
+    expect(webhooks.createEndpoint).not.toHaveBeenCalled()
+  })
+
+  it('returns the signing secret on creation', async () => {
+    asOwner()
+    vi.mocked(webhooks.createEndpoint).mockResolvedValue(mockEndpoint)
+
+    const response = await POST(
+      createRequest({
+        url: 'https://example.com/hook',
+        events: ['order.paid', 'order.paid', 'booking.confirmed'],
+      }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.secret).toBe('whsec_test')
+    expect(webhooks.createEndpoint).toHaveBeenCalledWith('tenant-123', {
+      url: 'https://example.com/hook',
+      description: undefined,
+      events: ['order.paid', 'booking.confirmed'],
+    })
+  })
+})
+
+describe('Webhooks API - replay and dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok')))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns 404 when the endpoint was deleted', async () => {
+    asOwner()
+    vi.mocked(webhooks.getDelivery).mockResolvedValue({
+      id: 'delivery-1',
+      endpointId: 'endpoint-9',
+      payload: { id: 'evt_1', type: 'order.paid' },
+    })
+    vi.mocked(webhooks.getEndpoint).mockResolvedValue(null)
+
+    const response = await REPLAY(
+      new NextRequest(
+        'http://localhost/api/webhooks/deliveries/delivery-1/replay',
+        {
+          method: 'POST',
+        },
+      ),
+      { params: Promise.resolve({ id: 'delivery-1' }) },
+    )
+
+    expect(response.status).toBe(404)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('replays the original event to the endpoint', async () => {
+    asOwner()
+    const payload = {
+      id: 'evt_1',
+      type: 'order.paid',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      tenantId: 'tenant-123',
+      data: {},
+    }
+    vi.mocked(webhooks.getDelivery).mockResolvedValue({
+      id: 'delivery-1',
+      endpointId: 'endpoint-1',
+      payload,
+    })
+    vi.mocked(webhooks.getEndpoint).mockResolvedValue(mockEndpoint)
+    vi.mocked(webhooks.createDelivery).mockResolvedValue({
+      id: 'delivery-2',
+      payload,
+    })
+
+    const response = await REPLAY(
+      new NextRequest(
+        'http://localhost/api/webhooks/deliveries/delivery-1/replay',
+        {
+          method: 'POST',
+        },
+      ),
+      { params: Promise.resolve({ id: 'delivery-1' }) },
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.delivery.status).toBe('succeeded')
+    expect(webhooks.createDelivery).toHaveBeenCalledWith(
+      mockEndpoint,
+      payload,
+      'delivery-1',
+    )
+    expect(fetch).toHaveBeenCalledWith(
+      'https://example.com/hook',
+      expect.objectContaining({ body: JSON.stringify(payload) }),
+    )
+  })
+
+  it('sends booking.confirmed when a booking is confirmed', async () => {
+    asOwner()
+    const booking = {
+      id: 'booking-1',
+      workshopId: 'workshop-1',
+      status: 'pending',
+    }
+    vi.mocked(workshops.getBookingById).mockResolvedValue(booking)
+    vi.mocked(workshops.updateBooking).mockResolvedValue({
+      ...booking,
+      status: 'confirmed',
+    })
+    vi.mocked(webhooks.listEndpointsForEvent).mockResolvedValue([mockEndpoint])
+    vi.mocked(webhooks.createDelivery).mockResolvedValue({ id: 'delivery-3' })
+
+    const response = await PATCH_BOOKING(
+      new NextRequest(
+        'http://localhost/api/workshops/workshop-1/bookings/booking-1',
+        { method: 'PATCH', body: JSON.stringify({ status: 'confirmed' }) },
+      ),
+      {
+        params: Promise.resolve({ id: 'workshop-1', bookingId: 'booking-1' }),
+      },
+    )
+
+    expect(response.status).toBe(200)
+    expect(webhooks.listEndpointsForEvent).toHaveBeenCalledWith(
+      'tenant-123',
+      'booking.confirmed',
+    )
+    // Delivery carries on after the response has been sent
+    await vi.waitFor(() =>
+      expect(webhooks.completeDelivery).toHaveBeenCalledWith(
+        'tenant-123',
+        'delivery-3',
+        expect.objectContaining({ success: true }),
+      ),
+    )
+  })
+})
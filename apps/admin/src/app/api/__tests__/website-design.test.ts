@@ -2,9 +2,9 @@ import { tenants } from '@madebuy/db'
 import { NextRequest } from 'next/server'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-const mockGetCurrentUser = vi.fn()
+const mockGetCurrentTenant = vi.fn()
 vi.mock('@/lib/session', () => ({
-  getCurrentUser: () => mockGetCurrentUser(),
+  getCurrentTenant: () => mockGetCurrentTenant(),
 }))
 
 const mockCanUseBlog = vi.fn()
@@ -26,7 +26,7 @@ describe('Website Design API Routes', () => {
 
   describe('GET /api/website-design', () => {
     it('should return 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockGetCurrentTenant.mockResolvedValue(null)
 
       const response = await GET()
       const data = await response.json()
@@ -36,8 +36,7 @@ describe('Website Design API Routes', () => {
     })
 
     it('should return website design successfully', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -63,24 +62,13 @@ describe('Website Design API Routes', () => {
       expect(data.websiteDesign.template).toBe('modern')
     })
 
-    it('should return 404 when tenant not found', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue(null)
-
-      const response = await GET()
-      const data = await response.json()
-
-      expect(response.status).toBe(404)
-      expect(data.error).toBe('Tenant not found')
-    })
   })
 
   describe('PATCH /api/website-design - Plan Matrix Tests', () => {
     it('should allow template/pages updates for FREE plan', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-free', email: 'free@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-free',
         email: 'free@example.com',
         businessName: 'Free Shop',
@@ -115,10 +103,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should allow template/pages updates for MAKER plan', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-maker', email: 'maker@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-maker',
         email: 'maker@example.com',
         businessName: 'Maker Shop',
@@ -153,10 +140,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should allow template/pages updates for PRO plan', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-pro', email: 'pro@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-pro',
         email: 'pro@example.com',
         businessName: 'Pro Shop',
@@ -191,10 +177,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should allow template/pages updates for STUDIO plan', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-studio', email: 'studio@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-studio',
         email: 'studio@example.com',
         businessName: 'Studio Shop',
@@ -231,13 +216,12 @@ describe('Website Design API Routes', () => {
 
   describe('PATCH /api/website-design - Feature Gating', () => {
     it('should block banner customization when validateWebsiteDesignUpdate fails', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({
         valid: false,
         error: 'Banner customization requires Professional plan or higher.',
       })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -265,13 +249,12 @@ describe('Website Design API Routes', () => {
     })
 
     it('should block typography customization when validateWebsiteDesignUpdate fails', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({
         valid: false,
         error: 'Typography customization requires Professional plan or higher.',
       })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -299,13 +282,12 @@ describe('Website Design API Routes', () => {
     })
 
     it('should block layout customization when validateWebsiteDesignUpdate fails', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({
         valid: false,
         error: 'Layout customization requires Professional plan or higher.',
       })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -333,11 +315,10 @@ describe('Website Design API Routes', () => {
     })
 
     it('should block blog feature when canUseBlog returns false', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
       mockCanUseBlog.mockReturnValue(false)
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -367,10 +348,9 @@ describe('Website Design API Routes', () => {
 
   describe('PATCH /api/website-design - Field Name Handling', () => {
     it('should handle headerConfig field name correctly', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -403,10 +383,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should handle footerConfig field name correctly', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -439,10 +418,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should normalize header to headerConfig', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -475,10 +453,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should normalize footer to footerConfig', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -513,10 +490,9 @@ describe('Website Design API Routes', () => {
 
   describe('PATCH /api/website-design - Logo Fields', () => {
     it('should save logoMediaId correctly', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -549,10 +525,9 @@ describe('Website Design API Routes', () => {
     })
 
     it('should save logoUrl correctly', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
       mockValidateWebsiteDesignUpdate.mockReturnValue({ valid: true })
 
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -587,7 +562,7 @@ describe('Website Design API Routes', () => {
 
   describe('PATCH /api/website-design/logo', () => {
     it('should return 401 when unauthorized', async () => {
-      mockGetCurrentUser.mockResolvedValue(null)
+      mockGetCurrentTenant.mockResolvedValue(null)
 
       const request = new NextRequest('http://localhost/api/website-design/logo', {
         method: 'PATCH',
@@ -603,8 +578,7 @@ describe('Website Design API Routes', () => {
     })
 
     it('should update logo successfully', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
@@ -633,8 +607,7 @@ describe('Website Design API Routes', () => {
     })
 
     it('should clear logo when logoMediaId is null', async () => {
-      mockGetCurrentUser.mockResolvedValue({ id: 'tenant-123', email: 'test@example.com' })
-      vi.mocked(tenants.getTenantById).mockResolvedValue({
+      mockGetCurrentTenant.mockResolvedValue({
         id: 'tenant-123',
         email: 'test@example.com',
         businessName: 'Test Shop',
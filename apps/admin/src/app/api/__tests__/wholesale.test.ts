@@ -0,0 +1,264 @@
+import { orders, tenants, wholesale } from '@madebuy/db'
+import { ConflictError, ValidationError } from '@madebuy/shared'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  MOCK_TENANT_FREE,
+  createRequest,
+  mockCurrentTenant,
+  mockUnauthorized,
+} from '../../../__tests__/setup'
+
+// Import handlers (mocks from setup.ts are already active)
+import { POST as createBuyer } from '../wholesale/buyers/route'
+import { GET as downloadInvoice } from '../wholesale/orders/[id]/invoice/route'
+import { POST as markPaid } from '../wholesale/orders/[id]/paid/route'
+import {
+  GET as listOrders,
+  POST as createOrder,
+} from '../wholesale/orders/route'
+
+const ADDRESS = {
+  line1: '12 King St',
+  city: 'Newtown',
+  state: 'NSW',
+  postcode: '2042',
+  country: 'AU',
+}
+
+const WHOLESALE_ORDER = {
+  id: 'order-1',
+  tenantId: MOCK_TENANT_FREE.id,
+  orderNumber: 'ORD-ABC123',
+  customerEmail: 'orders@corner.store',
+  customerName: 'Corner Store',
+  items: [
+    {
+      pieceId: 'piece-1',
+      name: 'Stoneware mug',
+      price: 22,
+      quantity: 6,
+      category: 'Ceramics',
+    },
+  ],
+  subtotal: 132,
+  shipping: 15,
+  tax: 0,
+  discount: 0,
+  total: 147,
+  currency: 'AUD',
+  shippingAddress: ADDRESS,
+  shippingMethod: 'Wholesale delivery',
+  shippingType: 'domestic',
+  paymentMethod: 'bank_transfer',
+  paymentStatus: 'pending',
+  status: 'confirmed',
+  wholesale: {
+    buyerId: 'buyer-1',
+    businessName: 'Corner Store',
+    paymentTermsDays: 30,
+    dueDate: new Date('2026-11-18'),
+  },
+  createdAt: new Date('2026-10-19'),
+  updatedAt: new Date('2026-10-19'),
+}
+
+describe('Wholesale API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('/api/wholesale/buyers', () => {
+    it('returns 401 when unauthorized', async () => {
+      mockUnauthorized()
+
+      const req = createRequest('/api/wholesale/buyers', {
+        method: 'POST',
+        body: { businessName: 'Corner Store', email: 'orders@corner.store' },
+      })
+      const res = await createBuyer(req)
+
+      expect(res.status).toBe(401)
+    })
+
+    it('creates a buyer with numeric terms and prices', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.createBuyer).mockResolvedValue({
+        id: 'buyer-1',
+      } as any)
+
+      const req = createRequest('/api/wholesale/buyers', {
+        method: 'POST',
+        body: {
+          businessName: 'Corner Store',
+          email: 'orders@corner.store',
+          paymentTermsDays: '14',
+          discountPercent: '45',
+          prices: [{ pieceId: 'piece-1', price: '2200' }],
+        },
+      })
+      const res = await createBuyer(req)
+
+      expect(res.status).toBe(201)
+      expect(wholesale.createBuyer).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        expect.objectContaining({
+          businessName: 'Corner Store',
+          email: 'orders@corner.store',
+          paymentTermsDays: 14,
+          discountPercent: 45,
+          prices: [{ pieceId: 'piece-1', price: 2200 }],
+        }),
+      )
+    })
+
+    it('returns 400 for an invalid discount', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.createBuyer).mockRejectedValue(
+        new ValidationError('Discount must be between 0 and 100%', {
+          discountPercent: ['Discount must be between 0 and 100%'],
+        }),
+      )
+
+      const req = createRequest('/api/wholesale/buyers', {
+        method: 'POST',
+        body: {
+          businessName: 'Corner Store',
+          email: 'orders@corner.store',
+          discountPercent: 150,
+        },
+      })
+      const res = await createBuyer(req)
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('/api/wholesale/orders', () => {
+    it('lists unpaid orders', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.listWholesaleOrders).mockResolvedValue([
+        WHOLESALE_ORDER as any,
+      ])
+
+      const req = createRequest('/api/wholesale/orders?unpaid=true')
+      const res = await listOrders(req)
+
+      expect(res.status).toBe(200)
+      expect(wholesale.listWholesaleOrders).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        { buyerId: undefined, unpaid: true },
+      )
+    })
+
+    it('creates an order for the buyer', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.createWholesaleOrder).mockResolvedValue(
+        WHOLESALE_ORDER as any,
+      )
+
+      const req = createRequest('/api/wholesale/orders', {
+        method: 'POST',
+        body: {
+          buyerId: 'buyer-1',
+          items: [{ pieceId: 'piece-1', quantity: '6' }],
+          shipping: 1500,
+        },
+      })
+      const res = await createOrder(req)
+      const data = await res.json()
+
+      expect(res.status).toBe(201)
+      expect(data.order.wholesale.paymentTermsDays).toBe(30)
+      expect(wholesale.createWholesaleOrder).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        {
+          buyerId: 'buyer-1',
+          items: [{ pieceId: 'piece-1', quantity: 6 }],
+          shippingAddress: undefined,
+          shipping: 1500,
+          notes: undefined,
+        },
+      )
+    })
+
+    it('returns 409 when stock runs out while ordering', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.createWholesaleOrder).mockRejectedValue(
+        new ConflictError('Stoneware mug sold out', {
+          items: ['Stoneware mug sold out'],
+        }),
+      )
+
+      const req = createRequest('/api/wholesale/orders', {
+        method: 'POST',
+        body: {
+          buyerId: 'buyer-1',
+          items: [{ pieceId: 'piece-1', quantity: 6 }],
+        },
+      })
+      const res = await createOrder(req)
+
+      expect(res.status).toBe(409)
+    })
+
+    it('marks an invoice paid', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(wholesale.markOrderPaid).mockResolvedValue({
+        ...WHOLESALE_ORDER,
+        paymentStatus: 'paid',
+      } as any)
+
+      const req = createRequest('/api/wholesale/orders/order-1/paid', {
+        method: 'POST',
+      })
+      const res = await markPaid(req, { params: { id: 'order-1' } })
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.order.paymentStatus).toBe('paid')
+      expect(wholesale.markOrderPaid).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        'order-1',
+        { gstRate: undefined },
+      )
+    })
+  })
+
+  describe('/api/wholesale/orders/[id]/invoice', () => {
+    it('returns 404 for orders that are not wholesale', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue({
+        ...WHOLESALE_ORDER,
+        wholesale: undefined,
+      } as any)
+
+      const req = createRequest('/api/wholesale/orders/order-1/invoice')
+      const res = await downloadInvoice(req, { params: { id: 'order-1' } })
+
+      expect(res.status).toBe(404)
+    })
+
+    it('returns the invoice PDF', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(orders.getOrder).mockResolvedValue(WHOLESALE_ORDER as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue({
+        ...MOCK_TENANT_FREE,
+        taxSettings: {
+          gstRegistered: true,
+          abn: '12345678901',
+          gstRate: 10,
+          pricesIncludeGst: true,
+        },
+      } as any)
+
+      const req = createRequest('/api/wholesale/orders/order-1/invoice')
+      const res = await downloadInvoice(req, { params: { id: 'order-1' } })
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('Content-Type')).toBe('application/pdf')
+      expect(res.headers.get('Content-Disposition')).toContain(
+        'invoice-ORD-ABC123.pdf',
+      )
+    })
+  })
+})
@@ -16,6 +16,10 @@ import {
   PUT as updateWorkshop,
 } from '../workshops/[id]/route'
 import { GET as getSlots, POST as createSlot } from '../workshops/[id]/slots/route'
+import { PATCH as updateBooking } from '../workshops/[id]/bookings/[bookingId]/route'
+import { GET as getWaitlist } from '../workshops/[id]/waitlist/route'
+import { POST as createSeries } from '../workshops/[id]/slots/series/route'
+import { PUT as updateSeries } from '../workshops/[id]/slots/series/[seriesId]/route'
 
 describe('Workshops API', () => {
   beforeEach(() => {
@@ -488,4 +492,146 @@ describe('Workshops API', () => {
       })
     })
   })
+
+  describe('PATCH /api/workshops/[id]/bookings/[bookingId]', () => {
+    const booking = { id: 'b1', workshopId: '1', slotId: 's1', status: 'confirmed' }
+    const context = { params: Promise.resolve({ id: '1', bookingId: 'b1' }) }
+
+    it('releases seats through cancelBooking when cancelling', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(workshops.getBookingById).mockResolvedValue(booking)
+      vi.mocked(workshops.updateBooking).mockResolvedValue({
+        ...booking,
+        status: 'cancelled',
+      })
+
+      const req = createRequest('/api/workshops/1/bookings/b1', {
+        method: 'PATCH',
+        body: { status: 'cancelled' },
+      })
+      const res = await updateBooking(req, context)
+
+      expect(res.status).toBe(200)
+      expect(workshops.cancelBooking).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, 'b1')
+    })
+
+    it('does not cancel twice', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(workshops.getBookingById).mockResolvedValue({
+        ...booking,
+        status: 'cancelled',
+      })
+      vi.mocked(workshops.updateBooking).mockResolvedValue({
+        ...booking,
+        status: 'cancelled',
+      })
+
+      const req = createRequest('/api/workshops/1/bookings/b1', {
+        method: 'PATCH',
+        body: { status: 'cancelled', adminNotes: 'Called to confirm' },
+      })
+      await updateBooking(req, context)
+
+      expect(workshops.cancelBooking).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/workshops/[id]/waitlist', () => {
+    it('lists the waitlist for a slot', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      const entries = [{ id: 'w1', slotId: 's1', status: 'waiting' }]
+      vi.mocked(workshops.listWaitlist).mockResolvedValue(entries)
+
+      const req = createRequest('/api/workshops/1/waitlist?slotId=s1')
+      const res = await getWaitlist(req, { params: Promise.resolve({ id: '1' }) })
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data).toEqual({ entries })
+      expect(workshops.listWaitlist).toHaveBeenCalledWith(MOCK_TENANT_FREE.id, '1', 's1')
+    })
+  })
+
+  describe('POST /api/workshops/[id]/slots/series', () => {
+    const seriesBody = {
+      daysOfWeek: [6],
+      startTime: '10:00',
+      startDate: '2026-03-07',
+      weeks: 12,
+    }
+
+    it('returns 400 when neither weeks nor an end date is given', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+
+      const req = createRequest('/api/workshops/1/slots/series', {
+        method: 'POST',
+        body: { ...seriesBody, weeks: undefined },
+      })
+      const res = await createSeries(req, { params: Promise.resolve({ id: '1' }) })
+
+      expect(res.status).toBe(400)
+      expect(workshops.createSlotSeries).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 when the workshop does not exist', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(workshops.getWorkshopById).mockResolvedValue(null)
+
+      const req = createRequest('/api/workshops/1/slots/series', {
+        method: 'POST',
+        body: seriesBody,
+      })
+      const res = await createSeries(req, { params: Promise.resolve({ id: '1' }) })
+
+      expect(res.status).toBe(404)
+    })
+
+    it('generates slots in the tenant timezone', async () => {
+      mockCurrentTenant({
+        ...MOCK_TENANT_FREE,
+        regionalSettings: { timezone: 'Australia/Perth', countryCode: 'AU' },
+      })
+      vi.mocked(workshops.getWorkshopById).mockResolvedValue({ id: '1', slots: [] })
+      vi.mocked(workshops.createSlotSeries).mockResolvedValue({
+        series: { id: 'series-1' },
+        created: 12,
+        updated: 0,
+        removed: 0,
+        detached: 0,
+      })
+
+      const req = createRequest('/api/workshops/1/slots/series', {
+        method: 'POST',
+        body: seriesBody,
+      })
+      const res = await createSeries(req, { params: Promise.resolve({ id: '1' }) })
+      const data = await res.json()
+
+      expect(res.status).toBe(201)
+      expect(data.created).toBe(12)
+      expect(workshops.createSlotSeries).toHaveBeenCalledWith(
+        MOCK_TENANT_FREE.id,
+        '1',
+        expect.objectContaining({ daysOfWeek: [6], startTime: '10:00' }),
+        { timezone: 'Australia/Perth', countryCode: 'AU' },
+      )
+    })
+  })
+
+  describe('PUT /api/workshops/[id]/slots/series/[seriesId]', () => {
+    it('returns 404 when the series does not exist', async () => {
+      mockCurrentTenant(MOCK_TENANT_FREE)
+      vi.mocked(workshops.updateSlotSeries).mockResolvedValue(null)
+
+      const req = createRequest('/api/workshops/1/slots/series/missing', {
+        method: 'PUT',
+        body: { startTime: '11:00' },
+      })
+      const res = await updateSeries(req, {
+        params: Promise.resolve({ id: '1', seriesId: 'missing' }),
+      })
+
+      expect(res.status).toBe(404)
+    })
+  })
 })
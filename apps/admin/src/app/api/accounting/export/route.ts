@@ -0,0 +1,126 @@
+import { transactions } from '@madebuy/db'
+import type { AccountingExportFormat } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  buildJournals,
+  formatMyobJournals,
+  formatXeroJournals,
+  getChartOfAccounts,
+  JOURNAL_TRANSACTION_TYPES,
+} from '@/lib/accounting-export'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'accounting-export' })
+
+const FORMATS: Record<
+  AccountingExportFormat,
+  { format: typeof formatXeroJournals; contentType: string; extension: string }
+> = {
+  xero: {
+    format: formatXeroJournals,
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+  },
+  myob: {
+    format: formatMyobJournals,
+    contentType: 'text/plain; charset=utf-8',
+    extension: 'txt',
+  },
+}
+
+function handleExportError(error: unknown) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, 'Failed to export journals')
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function parseDate(value: string | null, field: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError('Invalid date', {
+      [field]: ['Use YYYY-MM-DD'],
+    })
+  }
+  return date
+}
+
+/**
+ * GET /api/accounting/export?format=xero&startDate=2025-01-01&endDate=2025-03-31
+ * Download completed sales, refunds, fees and payouts as double-entry
+ * journals for Xero (manual journal CSV) or MYOB (general journal import)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = request.nextUrl
+    const formatParam = searchParams.get('format') || 'xero'
+    if (!(formatParam in FORMATS)) {
+      throw new ValidationError('Invalid export format', {
+        format: ['Choose xero or myob'],
+      })
+    }
+    const format = formatParam as AccountingExportFormat
+
+    const startDate = parseDate(searchParams.get('startDate'), 'startDate')
+    const endDate = parseDate(searchParams.get('endDate'), 'endDate')
+    // Include the whole of the last day
+    endDate?.setHours(23, 59, 59, 999)
+
+    const ledger = await transactions.listTransactions(tenant.id, {
+      filters: {
+        type: JOURNAL_TRANSACTION_TYPES,
+        status: 'completed',
+        startDate,
+        endDate,
+      },
+      limit: 10000,
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+    })
+
+    const journals = await buildJournals(
+      tenant.id,
+      ledger,
+      getChartOfAccounts(tenant),
+    )
+
+    const { format: formatJournals, contentType, extension } = FORMATS[format]
+    const range = [
+      searchParams.get('startDate'),
+      searchParams.get('endDate'),
+    ].filter(Boolean)
+    const filename = `${format}-journals${range.length ? `-${range.join('-to-')}` : ''}.${extension}`
+
+    return new NextResponse(formatJournals(journals), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    return handleExportError(error)
+  }
+}
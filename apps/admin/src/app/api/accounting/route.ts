@@ -0,0 +1,69 @@
+import { tenants } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getChartOfAccounts, toChartOfAccounts } from '@/lib/accounting-export'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'accounting' })
+
+function handleAccountingError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/accounting
+ * The chart of accounts the journal exports post to
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    return NextResponse.json({ accounts: getChartOfAccounts(tenant) })
+  } catch (error) {
+    return handleAccountingError(error, 'Failed to load chart of accounts')
+  }
+}
+
+/**
+ * PUT /api/accounting
+ * Save the account codes for sales, GST, fees, refunds, payouts and COGS
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const body = await request.json()
+    const accounts = toChartOfAccounts(body.accounts)
+
+    await tenants.updateTenant(tenant.id, {
+      accountingSettings: { accounts },
+    })
+
+    return NextResponse.json({ accounts })
+  } catch (error) {
+    return handleAccountingError(error, 'Failed to save chart of accounts')
+  }
+}
@@ -0,0 +1,49 @@
+import { apiKeys, auditLog } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+import { getCurrentUser } from '@/lib/session'
+
+/**
+ * DELETE /api/api-keys/[id]
+ * Revoke a key - requests using it are rejected immediately
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('settings')
+    const user = await getCurrentUser()
+    const { id } = await params
+
+    const revoked = await apiKeys.revokeApiKey(tenant.id, id)
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    await auditLog.logAuditEvent({
+      tenantId: tenant.id,
+      eventType: 'api.key.revoke',
+      actorId: user?.staffId || tenant.id,
+      actorEmail: user?.email || tenant.email,
+      actorType: user?.staffId ? 'staff' : 'tenant',
+      metadata: { apiKeyId: id },
+      success: true,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { apiKeys, auditLog } from '@madebuy/db'
+import {
+  CreateApiKeySchema,
+  getRequiredPlanForFeature,
+  getUpgradeMessage,
+  sanitizeInput,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+import { getCurrentUser } from '@/lib/session'
+
+/**
+ * GET /api/api-keys
+ * List the shop's API keys (secrets are never returned after creation)
+ */
+export async function GET() {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    const keys = await apiKeys.listApiKeys(tenant.id)
+
+    return NextResponse.json({
+      apiKeys: keys.map(apiKeys.toPublicApiKey),
+      enabled: !!tenant.features?.apiAccess,
+    })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * POST /api/api-keys
+ * Create a key. The secret is in this response only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    // Checks the flag rather than the plan so manager overrides apply
+    if (!tenant.features?.apiAccess) {
+      return NextResponse.json(
+        {
+          error:
+            getUpgradeMessage(tenant.plan, 'apiAccess') ||
+            'API access is not enabled for this shop',
+          code: 'FEATURE_GATED',
+          upgradeRequired: true,
+          requiredPlan: getRequiredPlanForFeature('apiAccess'),
+        },
+        { status: 403 },
+      )
+    }
+
+    const validation = CreateApiKeySchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid API key',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const user = await getCurrentUser()
+    const actorEmail = user?.email || tenant.email
+
+    const { apiKey, secret } = await apiKeys.createApiKey(tenant.id, {
+      name: sanitizeInput(validation.data.name),
+      scopes: validation.data.scopes,
+      createdBy: actorEmail,
+    })
+
+    await auditLog.logAuditEvent({
+      tenantId: tenant.id,
+      eventType: 'api.key.create',
+      actorId: user?.staffId || tenant.id,
+      actorEmail,
+      actorType: user?.staffId ? 'staff' : 'tenant',
+      metadata: {
+        apiKeyId: apiKey.id,
+        name: apiKey.name,
+        scopes: apiKey.scopes,
+      },
+      success: true,
+    })
+
+    return NextResponse.json(
+      { apiKey: apiKeys.toPublicApiKey(apiKey), secret },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { consignments } from '@madebuy/db'
+import type { UpdateConsigneeInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function optionalText(value?: string) {
+  return value !== undefined ? sanitizeInput(value) : undefined
+}
+
+/**
+ * PATCH /api/consignments/[id]
+ * Update a consignee - a new commission rate applies to future placements
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: UpdateConsigneeInput = await request.json()
+    const consignee = await consignments.updateConsignee(tenant.id, params.id, {
+      name: optionalText(data.name),
+      contactName: optionalText(data.contactName),
+      email: optionalText(data.email),
+      phone: optionalText(data.phone),
+      address: optionalText(data.address),
+      commissionRate:
+        data.commissionRate !== undefined
+          ? Number(data.commissionRate)
+          : undefined,
+      notes: optionalText(data.notes),
+    })
+
+    return NextResponse.json({ consignee })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error updating consignee')
+  }
+}
+
+/**
+ * DELETE /api/consignments/[id]
+ * Remove a consignee once they hold no placed stock
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await consignments.deleteConsignee(tenant.id, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error deleting consignee')
+  }
+}
@@ -0,0 +1,60 @@
+import { consignments } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/consignments/[id]/settle
+ * Record the consignee's payment for their unsettled sales in the ledger
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: { reference?: string } = await request.json().catch(() => ({}))
+    const settlement = await consignments.settleConsignee(
+      tenant.id,
+      params.id,
+      {
+        reference: data.reference ? sanitizeInput(data.reference) : undefined,
+        gstRate: tenant.taxSettings?.gstRegistered
+          ? (tenant.taxSettings.gstRate ?? 10)
+          : undefined,
+      },
+    )
+
+    return NextResponse.json({ settlement }, { status: 201 })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error settling consignee')
+  }
+}
@@ -0,0 +1,82 @@
+import { consignments } from '@madebuy/db'
+import type { CreateConsignmentPlacementInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/consignments/placements
+ * Placements, newest first - filter with ?consigneeId= and ?status=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const placements = await consignments.listPlacements(tenant.id, {
+      consigneeId: searchParams.get('consigneeId') || undefined,
+      status: status === 'active' || status === 'closed' ? status : undefined,
+    })
+    return NextResponse.json({ placements })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error fetching placements')
+  }
+}
+
+/**
+ * POST /api/consignments/placements
+ * Place pieces with a consignee, moving their stock from a location
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateConsignmentPlacementInput = await request.json()
+    const placement = await consignments.createPlacement(tenant.id, {
+      consigneeId: data.consigneeId,
+      fromLocationId: data.fromLocationId,
+      items: (data.items || []).map((item) => ({
+        pieceId: item.pieceId,
+        quantity: Number(item.quantity),
+        retailPrice:
+          item.retailPrice !== undefined ? Number(item.retailPrice) : undefined,
+      })),
+      notes: data.notes ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ placement }, { status: 201 })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error creating placement')
+  }
+}
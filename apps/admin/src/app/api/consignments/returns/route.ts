@@ -0,0 +1,55 @@
+import { consignments } from '@madebuy/db'
+import type { RecordConsignmentReturnInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/consignments/returns
+ * Take unsold pieces back from a consignee into a location
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: RecordConsignmentReturnInput = await request.json()
+    const placement = await consignments.recordReturn(tenant.id, {
+      placementId: data.placementId,
+      toLocationId: data.toLocationId,
+      items: (data.items || []).map((item) => ({
+        pieceId: item.pieceId,
+        quantity: Number(item.quantity),
+      })),
+    })
+
+    return NextResponse.json({ placement })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error recording return')
+  }
+}
@@ -0,0 +1,79 @@
+import { consignments } from '@madebuy/db'
+import type { CreateConsigneeInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function optionalText(value?: string) {
+  return value !== undefined ? sanitizeInput(value) : undefined
+}
+
+/**
+ * GET /api/consignments
+ * Consignees with the pieces they hold and what they owe
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const summaries = await consignments.listConsigneeSummaries(tenant.id)
+    return NextResponse.json({ consignees: summaries })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error fetching consignees')
+  }
+}
+
+/**
+ * POST /api/consignments
+ * Add a consignee - creates an inventory location for their stock
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateConsigneeInput = await request.json()
+    const consignee = await consignments.createConsignee(tenant.id, {
+      name: sanitizeInput(data.name || ''),
+      contactName: optionalText(data.contactName),
+      email: optionalText(data.email),
+      phone: optionalText(data.phone),
+      address: optionalText(data.address),
+      commissionRate: Number(data.commissionRate),
+      notes: optionalText(data.notes),
+    })
+
+    return NextResponse.json({ consignee }, { status: 201 })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error creating consignee')
+  }
+}
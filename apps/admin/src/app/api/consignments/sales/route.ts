@@ -0,0 +1,77 @@
+import { consignments } from '@madebuy/db'
+import type { RecordConsignmentSaleInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'consignments' })
+
+function handleConsignmentError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/consignments/sales
+ * Reported sales, newest first - filter with ?consigneeId= and ?unsettled=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sales = await consignments.listSales(tenant.id, {
+      consigneeId: searchParams.get('consigneeId') || undefined,
+      unsettled: searchParams.get('unsettled') === 'true',
+    })
+    return NextResponse.json({ sales })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error fetching sales')
+  }
+}
+
+/**
+ * POST /api/consignments/sales
+ * Record a sale the consignee reported
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: RecordConsignmentSaleInput = await request.json()
+    const sale = await consignments.recordSale(tenant.id, {
+      placementId: data.placementId,
+      pieceId: data.pieceId,
+      quantity: Number(data.quantity),
+      salePrice:
+        data.salePrice !== undefined ? Number(data.salePrice) : undefined,
+      soldAt: data.soldAt ? new Date(data.soldAt) : undefined,
+    })
+
+    return NextResponse.json({ sale }, { status: 201 })
+  } catch (error) {
+    return handleConsignmentError(error, 'Unexpected error recording sale')
+  }
+}
@@ -0,0 +1,203 @@
+import { timingSafeEqual } from 'node:crypto'
+import { disputes, tenants } from '@madebuy/db'
+import {
+  DISPUTE_EVIDENCE_REMINDER_DAYS,
+  type Dispute,
+  type Tenant,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendDisputeEvidenceReminderEmail } from '@/lib/email'
+
+/**
+ * Timing-safe comparison for secrets to prevent timing attacks
+ */
+function verifySecret(received: string | null, expected: string): boolean {
+  if (!received) return false
+  try {
+    const receivedBuffer = Buffer.from(received)
+    const expectedBuffer = Buffer.from(`Bearer ${expected}`)
+    if (receivedBuffer.length !== expectedBuffer.length) {
+      timingSafeEqual(expectedBuffer, expectedBuffer)
+      return false
+    }
+    return timingSafeEqual(receivedBuffer, expectedBuffer)
+  } catch {
+    return false
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/cron/dispute-reminders
+ *
+ * Emails sellers as a dispute's evidenceDueBy approaches (7, 3 and 1 days
+ * out) until evidence is submitted. Each threshold is sent once -
+ * evidenceReminderDays records the last one.
+ *
+ * Should be scheduled to run daily.
+ * Vercel cron config: schedule "0 22 * * *"
+ */
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // Allow up to 5 minutes for processing
+
+interface DisputeReminderResult {
+  tenantId: string
+  disputeId: string
+  daysLeft: number
+  success: boolean
+  error?: string
+}
+
+/**
+ * The reminder threshold a dispute has reached, if it hasn't been sent yet
+ */
+function getDueReminder(
+  dispute: Dispute,
+  now: Date,
+): { threshold: number; daysLeft: number } | null {
+  if (!dispute.evidenceDueBy || dispute.evidenceSubmittedAt) return null
+
+  const daysLeft = Math.ceil(
+    (new Date(dispute.evidenceDueBy).getTime() - now.getTime()) / DAY_MS,
+  )
+  if (daysLeft <= 0) return null
+
+  const reached = DISPUTE_EVIDENCE_REMINDER_DAYS.filter(
+    (days) => daysLeft <= days,
+  )
+  if (reached.length === 0) return null
+
+  const threshold = Math.min(...reached)
+  if (
+    dispute.evidenceReminderDays !== undefined &&
+    dispute.evidenceReminderDays <= threshold
+  ) {
+    return null
+  }
+  return { threshold, daysLeft }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret - ALWAYS require auth, even if env var is missing
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || !verifySecret(authHeader, cronSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('[CRON] Starting dispute evidence reminders...')
+
+    const now = new Date()
+    const BATCH_SIZE = 50
+    const MAX_TOTAL_PROCESSED = 500 // Safety limit per cron invocation
+    const results: DisputeReminderResult[] = []
+    let sentCount = 0
+    let errorCount = 0
+    let totalTenants = 0
+    let lastId: string | undefined = undefined
+
+    while (totalTenants < MAX_TOTAL_PROCESSED) {
+      const tenantBatch = await tenants.getAllTenants(BATCH_SIZE, lastId)
+
+      if (tenantBatch.length === 0) {
+        break
+      }
+
+      for (const tenant of tenantBatch) {
+        totalTenants++
+
+        try {
+          const openDisputes = await disputes.getDisputesNeedingResponse(
+            tenant.id,
+          )
+
+          for (const dispute of openDisputes) {
+            const reminder = getDueReminder(dispute, now)
+            if (!reminder) continue
+
+            const result = await sendReminder(
+              tenant,
+              dispute,
+              reminder.threshold,
+              reminder.daysLeft,
+            )
+            results.push(result)
+            if (result.success) sentCount++
+            else errorCount++
+          }
+        } catch (error) {
+          console.error(
+            `[CRON] Error processing dispute reminders for tenant ${tenant.id}:`,
+            error,
+          )
+        }
+      }
+
+      lastId = tenantBatch[tenantBatch.length - 1]?.id
+
+      if (tenantBatch.length < BATCH_SIZE) {
+        break
+      }
+    }
+
+    console.log(
+      `[CRON] Dispute reminders completed: ${sentCount} sent, ${errorCount} errors (checked ${totalTenants} tenants)`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      sent: sentCount,
+      errors: errorCount,
+      tenantsChecked: totalTenants,
+      results: results.slice(0, 100), // Limit response size
+    })
+  } catch (error) {
+    console.error('[CRON] Dispute reminder error:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to send dispute reminders',
+        success: false,
+      },
+      { status: 500 },
+    )
+  }
+}
+
+async function sendReminder(
+  tenant: Tenant,
+  dispute: Dispute,
+  threshold: number,
+  daysLeft: number,
+): Promise<DisputeReminderResult> {
+  const base = { tenantId: tenant.id, disputeId: dispute.id, daysLeft }
+
+  try {
+    const result = await sendDisputeEvidenceReminderEmail({
+      tenant,
+      dispute,
+      daysLeft,
+    })
+    if (!result.success) {
+      return { ...base, success: false, error: result.error }
+    }
+
+    await disputes.markEvidenceReminderSent(tenant.id, dispute.id, threshold)
+    return { ...base, success: true }
+  } catch (error) {
+    console.error(
+      `[CRON] Error sending dispute reminder for ${dispute.id} (tenant ${tenant.id}):`,
+      error,
+    )
+    return {
+      ...base,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
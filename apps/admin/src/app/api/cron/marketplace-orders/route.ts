@@ -1,8 +1,11 @@
 import { timingSafeEqual } from 'node:crypto'
-import { marketplace, pieces, tenants } from '@madebuy/db'
-import type {
-  CreateMarketplaceOrderInput,
-  MarketplaceConnection,
+import { marketplace, orders, tenants } from '@madebuy/db'
+import {
+  type CreateMarketplaceOrderInput,
+  MARKETPLACE_LABELS,
+  type MarketplaceConnection,
+  type MarketplaceListing,
+  type MarketplaceOrder,
 } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import {
@@ -10,6 +13,15 @@ import {
   getEbayApiUrl,
   getEbayDomain,
 } from '@/lib/marketplace/ebay'
+import {
+  createEtsyClient,
+  type EtsyReceipt,
+  mapEtsyReceiptToMarketplaceOrder,
+} from '@/lib/marketplace/etsy'
+import {
+  convertMarketplaceOrder,
+  pushOrderShipmentToMarketplace,
+} from '@/lib/marketplace/orders'
 
 /**
  * Timing-safe comparison for secrets to prevent timing attacks
@@ -99,7 +111,18 @@ export async function GET(request: NextRequest) {
           errorCount += ebayResults.filter((r) => !r.success).length
         }
 
-        // Etsy order import would go here when available
+        // Get active Etsy connection
+        const etsyConnection = await marketplace.getConnectionByMarketplace(
+          tenant.id,
+          'etsy',
+        )
+
+        if (etsyConnection?.status === 'connected') {
+          const etsyResults = await importEtsyOrders(tenant.id, etsyConnection)
+          results.push(...etsyResults)
+          importedCount += etsyResults.filter((r) => r.success).length
+          errorCount += etsyResults.filter((r) => !r.success).length
+        }
       }
 
       // Set cursor for next batch
@@ -242,77 +265,137 @@ async function importSingleEbayOrder(
 
     // Map eBay order to MadeBuy format
     const orderInput = await mapEbayOrderToMadeBuy(tenantId, ebayOrder)
+    const order = await saveImportedOrder(tenantId, orderInput)
 
-    // Track stock decrement failures
-    const stockSyncErrors: Array<{ pieceId: string; error: string }> = []
-
-    // Attempt to decrement stock for matched pieces before creating order
-    for (const item of orderInput.items) {
-      if (item.pieceId) {
-        try {
-          const success = await pieces.decrementStock(
-            tenantId,
-            item.pieceId,
-            item.quantity,
-          )
-          if (!success) {
-            const errorMsg = `Insufficient stock or piece not found for quantity ${item.quantity}`
-            console.error(
-              `[CRON] Stock decrement failed for piece ${item.pieceId} (order ${externalOrderId}): ${errorMsg}`,
-            )
-            stockSyncErrors.push({
-              pieceId: item.pieceId,
-              error: errorMsg,
-            })
-          }
-        } catch (stockError) {
-          const errorMsg =
-            stockError instanceof Error ? stockError.message : 'Unknown error'
-          console.error(
-            `[CRON] Stock decrement error for piece ${item.pieceId} (order ${externalOrderId}):`,
-            stockError,
-          )
-          stockSyncErrors.push({
-            pieceId: item.pieceId,
-            error: errorMsg,
-          })
-        }
-      }
+    return {
+      tenantId,
+      marketplace: 'ebay',
+      externalOrderId,
+      success: true,
+      orderId: order.id,
     }
+  } catch (error) {
+    console.error(
+      `[CRON] Error importing eBay order ${externalOrderId}:`,
+      error,
+    )
+    return {
+      tenantId,
+      marketplace: 'ebay',
+      externalOrderId,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
 
-    // Add stock sync errors to order input if any occurred
-    if (stockSyncErrors.length > 0) {
-      orderInput.stockSyncErrors = stockSyncErrors
+/**
+ * Import orders (receipts) from Etsy
+ */
+async function importEtsyOrders(
+  tenantId: string,
+  connection: MarketplaceConnection,
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = []
+
+  try {
+    const etsy = createEtsyClient(connection)
+
+    // Get receipts from the last 7 days
+    const fromDate = new Date()
+    fromDate.setDate(fromDate.getDate() - 7)
+    const receipts = await etsy.getShopReceipts(fromDate)
+
+    console.log(
+      `[CRON] Found ${receipts.length} Etsy receipts for tenant ${tenantId}`,
+    )
+
+    // Batch fetch listings by Etsy listing ID to avoid N+1 queries
+    const externalListingIds = Array.from(
+      new Set(
+        receipts.flatMap((receipt) =>
+          (receipt.transactions || [])
+            .filter((t) => t.listing_id !== undefined)
+            .map((t) => String(t.listing_id)),
+        ),
+      ),
+    )
+    const listingsMap = await marketplace.getListingsByExternalIds(
+      tenantId,
+      'etsy',
+      externalListingIds,
+    )
+
+    for (const receipt of receipts) {
+      const result = await importSingleEtsyOrder(tenantId, receipt, listingsMap)
+      results.push(result)
+
+      // Small delay to avoid overwhelming the database
+      await new Promise((resolve) => setTimeout(resolve, 100))
     }
+  } catch (error) {
+    console.error(
+      `[CRON] Error importing Etsy orders for tenant ${tenantId}:`,
+      error,
+    )
+    results.push({
+      tenantId,
+      marketplace: 'etsy',
+      externalOrderId: 'N/A',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
 
-    // Create the order (even if stock sync failed, we still want to import it)
-    const order = await marketplace.createOrder(tenantId, orderInput)
+  return results
+}
 
-    if (stockSyncErrors.length > 0) {
-      console.warn(
-        `[CRON] Imported eBay order ${externalOrderId} for tenant ${tenantId} with ${stockSyncErrors.length} stock sync error(s)`,
-      )
-    } else {
-      console.log(
-        `[CRON] Imported eBay order ${externalOrderId} for tenant ${tenantId}`,
-      )
+/**
+ * Import a single Etsy receipt, or bring an already imported one up to date
+ * with its shipment state
+ */
+async function importSingleEtsyOrder(
+  tenantId: string,
+  receipt: EtsyReceipt,
+  listingsMap: Map<string, MarketplaceListing>,
+): Promise<ImportResult> {
+  const externalOrderId = receipt.receipt_id.toString()
+
+  try {
+    const existing = await marketplace.getOrderByExternalId(
+      tenantId,
+      'etsy',
+      externalOrderId,
+    )
+    if (existing) {
+      await syncEtsyShipment(tenantId, receipt, existing)
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        externalOrderId,
+        success: true, // Not an error, just already imported
+        orderId: existing.id,
+      }
     }
 
+    const orderInput = mapEtsyReceiptToMarketplaceOrder(receipt, listingsMap)
+    const order = await saveImportedOrder(tenantId, orderInput)
+
     return {
       tenantId,
-      marketplace: 'ebay',
+      marketplace: 'etsy',
       externalOrderId,
       success: true,
       orderId: order.id,
     }
   } catch (error) {
     console.error(
-      `[CRON] Error importing eBay order ${externalOrderId}:`,
+      `[CRON] Error importing Etsy order ${externalOrderId}:`,
       error,
     )
     return {
       tenantId,
-      marketplace: 'ebay',
+      marketplace: 'etsy',
       externalOrderId,
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -320,6 +403,86 @@ async function importSingleEbayOrder(
   }
 }
 
+/**
+ * Reconcile shipment state between an Etsy receipt and its imported order
+ *
+ * - Shipped on Etsy: mark the imported order shipped
+ * - Shipped in MadeBuy but not pushed yet (e.g. Etsy was down): send tracking
+ */
+async function syncEtsyShipment(
+  tenantId: string,
+  receipt: EtsyReceipt,
+  existing: MarketplaceOrder,
+): Promise<void> {
+  if (existing.status !== 'paid' && existing.status !== 'pending') {
+    return
+  }
+
+  if (receipt.is_shipped) {
+    const shipment = receipt.shipments?.find(
+      (s) => s.shipment_notification_timestamp,
+    )
+    await marketplace.updateOrderStatus(
+      tenantId,
+      existing.id,
+      'shipped',
+      shipment?.shipment_notification_timestamp
+        ? new Date(shipment.shipment_notification_timestamp * 1000)
+        : new Date(),
+    )
+    return
+  }
+
+  if (!existing.linkedOrderId) {
+    return
+  }
+
+  const linkedOrder = await orders.getOrder(tenantId, existing.linkedOrderId)
+  const isShipped =
+    !!linkedOrder?.shippedAt ||
+    linkedOrder?.status === 'shipped' ||
+    linkedOrder?.status === 'delivered'
+  if (!linkedOrder?.trackingNumber || !isShipped) {
+    return
+  }
+
+  const result = await pushOrderShipmentToMarketplace(tenantId, linkedOrder)
+  if (result.success) {
+    console.log(
+      `[CRON] Sent tracking for Etsy receipt ${receipt.receipt_id} (tenant ${tenantId})`,
+    )
+  }
+}
+
+/**
+ * Store the imported order and convert it into a native order
+ * Stock is decremented during conversion, with failures recorded on the order
+ */
+async function saveImportedOrder(
+  tenantId: string,
+  orderInput: CreateMarketplaceOrderInput,
+): Promise<MarketplaceOrder> {
+  const { marketplace: platform, externalOrderId } = orderInput
+  const label = MARKETPLACE_LABELS[platform]
+
+  const order = await marketplace.createOrder(tenantId, orderInput)
+
+  try {
+    const converted = await convertMarketplaceOrder(tenantId, order)
+    console.log(
+      `[CRON] Imported ${label} order ${externalOrderId} as order ${converted.orderNumber} for tenant ${tenantId}`,
+    )
+  } catch (error) {
+    // The import still stands - it can be converted from the admin later
+    console.error(
+      `[CRON] Failed to convert ${label} order ${externalOrderId} for tenant ${tenantId}:`,
+      error,
+    )
+  }
+
+  return order
+}
+
 /**
  * Map eBay order structure to MadeBuy marketplace order
  */
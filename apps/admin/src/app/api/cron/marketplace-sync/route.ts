@@ -1,8 +1,14 @@
 import { timingSafeEqual } from 'node:crypto'
-import { marketplace, pieces, tenants } from '@madebuy/db'
+import { marketplace, pieces, tenants, variants } from '@madebuy/db'
 import type { MarketplaceConnection, MarketplaceListing } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import { createEbayClient } from '@/lib/marketplace/ebay'
+import {
+  createEtsyClient,
+  type EtsyClient,
+  getEtsySyncQuantity,
+  pushEtsyInventory,
+} from '@/lib/marketplace/etsy'
 
 /**
  * Timing-safe comparison for secrets to prevent timing attacks
@@ -93,12 +99,18 @@ export async function GET(request: NextRequest) {
           errorCount += ebayResults.filter((r) => !r.success).length
         }
 
-        // Etsy sync would go here when available
-        // const etsyConnection = await marketplace.getConnectionByMarketplace(tenant.id, 'etsy')
-        // if (etsyConnection?.status === 'connected') {
-        //   const etsyResults = await syncEtsyListings(tenant.id, etsyConnection)
-        //   results.push(...etsyResults)
-        // }
+        // Get active Etsy connection
+        const etsyConnection = await marketplace.getConnectionByMarketplace(
+          tenant.id,
+          'etsy',
+        )
+
+        if (etsyConnection?.status === 'connected') {
+          const etsyResults = await syncEtsyListings(tenant.id, etsyConnection)
+          results.push(...etsyResults)
+          processedCount += etsyResults.filter((r) => r.success).length
+          errorCount += etsyResults.filter((r) => !r.success).length
+        }
       }
 
       // Set cursor for next batch
@@ -355,6 +367,197 @@ async function syncSingleEbayListing(
   }
 }
 
+/**
+ * Sync Etsy listings for a tenant
+ */
+async function syncEtsyListings(
+  tenantId: string,
+  connection: MarketplaceConnection,
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = []
+
+  const listingsToSync = await marketplace.getListingsNeedingSync(
+    tenantId,
+    'etsy',
+    15,
+  )
+
+  if (listingsToSync.length === 0) {
+    return results
+  }
+
+  console.log(
+    `[CRON] Syncing ${listingsToSync.length} Etsy listings for tenant ${tenantId}`,
+  )
+
+  let etsy: EtsyClient
+  try {
+    etsy = createEtsyClient(connection)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await marketplace.updateConnection(tenantId, connection.id, {
+      lastError: message,
+    })
+    return [
+      {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: 'N/A',
+        success: false,
+        error: message,
+      },
+    ]
+  }
+
+  for (const listing of listingsToSync) {
+    const result = await syncSingleEtsyListing(tenantId, etsy, listing)
+    results.push(result)
+
+    // Etsy allows 10 requests per second per app
+    await new Promise((resolve) => setTimeout(resolve, 200))
+  }
+
+  return results
+}
+
+/**
+ * Sync a single Etsy listing
+ */
+async function syncSingleEtsyListing(
+  tenantId: string,
+  etsy: EtsyClient,
+  listing: MarketplaceListing,
+): Promise<SyncResult> {
+  try {
+    const piece = await pieces.getPiece(tenantId, listing.pieceId)
+    if (!piece) {
+      await marketplace.updateListingStatus(
+        tenantId,
+        listing.id,
+        'error',
+        'Piece not found',
+      )
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: listing.id,
+        success: false,
+        error: 'Piece not found',
+      }
+    }
+
+    const etsyListingId = listing.marketplaceData?.etsyListingId
+    if (!etsyListingId) {
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: listing.id,
+        success: false,
+        error: 'Missing Etsy listing data',
+      }
+    }
+
+    const currentPrice = piece.price ?? 0
+    if (currentPrice === 0) {
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: listing.id,
+        success: false,
+        error: 'Piece has no price set',
+      }
+    }
+
+    // Variant stock can move without the piece total changing, so pieces
+    // with variants are always pushed
+    const pieceVariants = piece.hasVariants
+      ? await variants.getVariants(tenantId, piece.id)
+      : []
+    const currentQuantity = getEtsySyncQuantity(piece, pieceVariants)
+
+    const priceChanged = listing.lastSyncedPrice !== currentPrice
+    const quantityChanged = listing.lastSyncedQuantity !== currentQuantity
+
+    if (!piece.hasVariants && !priceChanged && !quantityChanged) {
+      await marketplace.markListingSynced(
+        tenantId,
+        listing.id,
+        currentPrice,
+        currentQuantity,
+      )
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: listing.id,
+        success: true,
+        syncedPrice: currentPrice,
+        syncedQuantity: currentQuantity,
+      }
+    }
+
+    try {
+      const { state } = await pushEtsyInventory(
+        etsy,
+        etsyListingId,
+        piece,
+        pieceVariants,
+        // Reactivate listings we deactivated when they ran out of stock
+        { activate: listing.marketplaceData?.etsyState === 'inactive' },
+      )
+      await marketplace.updateListing(tenantId, listing.id, {
+        marketplaceData: { ...listing.marketplaceData, etsyState: state },
+      })
+    } catch (syncError) {
+      const message =
+        syncError instanceof Error ? syncError.message : 'Unknown error'
+      console.error(
+        `[CRON] Etsy inventory update failed for ${listing.id}:`,
+        message,
+      )
+
+      await marketplace.updateListingStatus(
+        tenantId,
+        listing.id,
+        'error',
+        `Inventory sync failed: ${message}`,
+      )
+
+      return {
+        tenantId,
+        marketplace: 'etsy',
+        listingId: listing.id,
+        success: false,
+        error: 'Inventory update failed',
+      }
+    }
+
+    await marketplace.markListingSynced(
+      tenantId,
+      listing.id,
+      currentPrice,
+      currentQuantity,
+    )
+
+    return {
+      tenantId,
+      marketplace: 'etsy',
+      listingId: listing.id,
+      success: true,
+      syncedPrice: currentPrice,
+      syncedQuantity: currentQuantity,
+    }
+  } catch (error) {
+    console.error(`[CRON] Error syncing listing ${listing.id}:`, error)
+    return {
+      tenantId,
+      marketplace: 'etsy',
+      listingId: listing.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
 export async function POST(request: NextRequest) {
   return GET(request)
 }
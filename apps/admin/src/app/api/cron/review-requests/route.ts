@@ -0,0 +1,252 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { customers, orders, tenants } from '@madebuy/db'
+import {
+  createReviewRequestToken,
+  DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+  getReviewRequestUrl,
+  type Order,
+  type Tenant,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendReviewRequestEmail } from '@/lib/email'
+
+/**
+ * Timing-safe comparison for secrets to prevent timing attacks
+ */
+function verifySecret(received: string | null, expected: string): boolean {
+  if (!received) return false
+  try {
+    const receivedBuffer = Buffer.from(received)
+    const expectedBuffer = Buffer.from(`Bearer ${expected}`)
+    if (receivedBuffer.length !== expectedBuffer.length) {
+      timingSafeEqual(expectedBuffer, expectedBuffer)
+      return false
+    }
+    return timingSafeEqual(receivedBuffer, expectedBuffer)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Generate unsubscribe token for an email
+ */
+function generateUnsubscribeToken(email: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(email.toLowerCase())
+    .digest('hex')
+    .slice(0, 32)
+}
+
+/**
+ * GET /api/cron/review-requests
+ *
+ * Emails buyers a signed review link once their order has been delivered for
+ * the tenant's configured number of days (reviewRequestSettings.delayDays).
+ * Each order is asked once - reviewRequestSentAt is set after sending.
+ *
+ * Should be scheduled to run daily.
+ * Vercel cron config: schedule "0 1 * * *"
+ */
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // Allow up to 5 minutes for processing
+
+interface ReviewRequestResult {
+  tenantId: string
+  orderId: string
+  success: boolean
+  skipped?: boolean
+  error?: string
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret - ALWAYS require auth, even if env var is missing
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || !verifySecret(authHeader, cronSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Review link and unsubscribe secrets - must match the web handlers
+    const reviewSecret = process.env.REVIEW_REQUEST_SECRET
+    const unsubscribeSecret = process.env.UNSUBSCRIBE_SECRET
+    if (!reviewSecret || !unsubscribeSecret) {
+      console.error(
+        '[CRON] REVIEW_REQUEST_SECRET or UNSUBSCRIBE_SECRET environment variable is not set',
+      )
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 },
+      )
+    }
+
+    console.log('[CRON] Starting review request emails...')
+
+    // Process tenants in batches to avoid OOM
+    const BATCH_SIZE = 50
+    const MAX_TOTAL_PROCESSED = 500 // Safety limit per cron invocation
+    const results: ReviewRequestResult[] = []
+    let sentCount = 0
+    let skippedCount = 0
+    let errorCount = 0
+    let totalTenants = 0
+    let lastId: string | undefined = undefined
+
+    while (totalTenants < MAX_TOTAL_PROCESSED) {
+      const tenantBatch = await tenants.getAllTenants(BATCH_SIZE, lastId)
+
+      if (tenantBatch.length === 0) {
+        break
+      }
+
+      for (const tenant of tenantBatch) {
+        totalTenants++
+
+        const settings = tenant.reviewRequestSettings
+        if (!settings?.enabled) {
+          continue
+        }
+
+        try {
+          const dueOrders = await orders.getOrdersForReviewRequest(
+            tenant.id,
+            settings.delayDays || DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+          )
+
+          for (const order of dueOrders) {
+            const result = await sendOrderReviewRequest(
+              tenant,
+              order,
+              reviewSecret,
+              unsubscribeSecret,
+            )
+            results.push(result)
+            if (result.success) sentCount++
+            else if (result.skipped) skippedCount++
+            else errorCount++
+          }
+        } catch (error) {
+          console.error(
+            `[CRON] Error processing review requests for tenant ${tenant.id}:`,
+            error,
+          )
+        }
+      }
+
+      // Set cursor for next batch
+      lastId = tenantBatch[tenantBatch.length - 1]?.id
+
+      // If we got fewer results than batch size, we're done
+      if (tenantBatch.length < BATCH_SIZE) {
+        break
+      }
+    }
+
+    console.log(
+      `[CRON] Review requests completed: ${sentCount} sent, ${skippedCount} skipped, ${errorCount} errors (checked ${totalTenants} tenants)`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      sent: sentCount,
+      skipped: skippedCount,
+      errors: errorCount,
+      tenantsChecked: totalTenants,
+      results: results.slice(0, 100), // Limit response size
+    })
+  } catch (error) {
+    console.error('[CRON] Review request error:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to send review requests',
+        success: false,
+      },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * Email one buyer their signed review link
+ * Unsubscribed buyers are marked as asked so they aren't retried daily.
+ */
+async function sendOrderReviewRequest(
+  tenant: Tenant,
+  order: Order,
+  reviewSecret: string,
+  unsubscribeSecret: string,
+): Promise<ReviewRequestResult> {
+  const base = { tenantId: tenant.id, orderId: order.id }
+
+  try {
+    if (!order.customerEmail) {
+      await orders.markReviewRequestSent(tenant.id, order.id)
+      return { ...base, success: false, skipped: true, error: 'No email' }
+    }
+
+    const customer = await customers.getCustomerByEmail(
+      tenant.id,
+      order.customerEmail,
+    )
+    if (customer?.emailSubscribed === false) {
+      await orders.markReviewRequestSent(tenant.id, order.id)
+      return {
+        ...base,
+        success: false,
+        skipped: true,
+        error: 'Customer unsubscribed',
+      }
+    }
+
+    const storeUrl = tenant.customDomain
+      ? `https://${tenant.customDomain}`
+      : `https://madebuy.com.au/${tenant.slug}`
+    const token = createReviewRequestToken(reviewSecret, {
+      tenantId: tenant.id,
+      orderId: order.id,
+      email: order.customerEmail,
+    })
+    const unsubscribeToken = generateUnsubscribeToken(
+      order.customerEmail,
+      unsubscribeSecret,
+    )
+
+    const result = await sendReviewRequestEmail({
+      order: {
+        id: order.id,
+        orderNumber: order.orderNumber,
+        customerEmail: order.customerEmail,
+        customerName: order.customerName,
+        items: order.items.map((item) => ({
+          name: item.name,
+          imageUrl: item.imageUrl,
+        })),
+      },
+      tenant,
+      reviewUrl: getReviewRequestUrl(storeUrl, token),
+      unsubscribeUrl: `${storeUrl}/unsubscribe?email=${encodeURIComponent(order.customerEmail)}&token=${unsubscribeToken}`,
+    })
+
+    if (!result.success) {
+      return { ...base, success: false, error: result.error }
+    }
+
+    await orders.markReviewRequestSent(tenant.id, order.id)
+    return { ...base, success: true }
+  } catch (error) {
+    console.error(
+      `[CRON] Error sending review request for order ${order.id} (tenant ${tenant.id}):`,
+      error,
+    )
+    return {
+      ...base,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
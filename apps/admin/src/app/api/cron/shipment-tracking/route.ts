@@ -0,0 +1,231 @@
+import { timingSafeEqual } from 'node:crypto'
+import { messages, orders, tenants } from '@madebuy/db'
+import type { Order, Tenant } from '@madebuy/shared'
+import { createSendleClient, type SendleClient } from '@madebuy/shipping'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendDeliveryUpdateEmail } from '@/lib/email'
+import { buildOrderTracking, getDeliveredAt } from '@/lib/shipment-tracking'
+
+/**
+ * Timing-safe comparison for secrets to prevent timing attacks
+ */
+function verifySecret(received: string | null, expected: string): boolean {
+  if (!received) return false
+  try {
+    const receivedBuffer = Buffer.from(received)
+    const expectedBuffer = Buffer.from(`Bearer ${expected}`)
+    if (receivedBuffer.length !== expectedBuffer.length) {
+      timingSafeEqual(expectedBuffer, expectedBuffer)
+      return false
+    }
+    return timingSafeEqual(receivedBuffer, expectedBuffer)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * GET /api/cron/shipment-tracking
+ *
+ * Polls Sendle tracking for shipped orders. Records the scan timeline on the
+ * order, marks it delivered (setting deliveredAt) once Sendle confirms
+ * delivery, and emails the customer when it's delivered or delayed.
+ *
+ * Should be scheduled to run every 6 hours.
+ * Vercel cron config: schedule "0 0,6,12,18 * * *"
+ */
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // Allow up to 5 minutes for processing
+
+interface TrackingResult {
+  tenantId: string
+  orderId: string
+  success: boolean
+  state?: string
+  notified?: 'delivered' | 'delayed'
+  error?: string
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret - ALWAYS require auth, even if env var is missing
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || !verifySecret(authHeader, cronSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('[CRON] Starting shipment tracking poll...')
+
+    // Process tenants in batches to avoid OOM
+    const BATCH_SIZE = 50
+    const MAX_TOTAL_PROCESSED = 500 // Safety limit per cron invocation
+    const results: TrackingResult[] = []
+    let deliveredCount = 0
+    let errorCount = 0
+    let totalTenants = 0
+    let lastId: string | undefined = undefined
+
+    while (totalTenants < MAX_TOTAL_PROCESSED) {
+      const tenantBatch = await tenants.getAllTenants(BATCH_SIZE, lastId)
+
+      if (tenantBatch.length === 0) {
+        break
+      }
+
+      for (const tenant of tenantBatch) {
+        totalTenants++
+
+        const sendle = tenant.sendleSettings
+        if (!sendle?.isConnected || !sendle.apiKey || !sendle.senderId) {
+          continue
+        }
+
+        const inTransit = await orders.getOrdersInTransit(tenant.id)
+        if (inTransit.length === 0) {
+          continue
+        }
+
+        const client = createSendleClient({
+          apiKey: sendle.apiKey,
+          senderId: sendle.senderId,
+          environment: sendle.environment,
+        })
+
+        for (const order of inTransit) {
+          const result = await pollOrderTracking(tenant, client, order)
+          results.push(result)
+          if (!result.success) errorCount++
+          else if (result.state === 'delivered') deliveredCount++
+        }
+      }
+
+      // Set cursor for next batch
+      lastId = tenantBatch[tenantBatch.length - 1]?.id
+
+      // If we got fewer results than batch size, we're done
+      if (tenantBatch.length < BATCH_SIZE) {
+        break
+      }
+    }
+
+    console.log(
+      `[CRON] Shipment tracking completed: ${results.length} checked, ${deliveredCount} delivered, ${errorCount} errors (checked ${totalTenants} tenants)`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      checked: results.length,
+      delivered: deliveredCount,
+      errors: errorCount,
+      tenantsChecked: totalTenants,
+      results: results.slice(0, 100), // Limit response size
+    })
+  } catch (error) {
+    console.error('[CRON] Shipment tracking error:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to poll tracking',
+        success: false,
+      },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * Refresh one order's tracking and move it to delivered when Sendle says so
+ */
+async function pollOrderTracking(
+  tenant: Tenant,
+  client: SendleClient,
+  order: Order,
+): Promise<TrackingResult> {
+  try {
+    const events = await client.getTracking(order.sendleReference!)
+    const tracking = buildOrderTracking(events, order.tracking)
+    let notified: TrackingResult['notified']
+
+    if (tracking.state === 'delivered') {
+      await orders.updateOrderStatus(tenant.id, order.id, 'delivered')
+      await orders.updateOrder(tenant.id, order.id, {
+        tracking,
+        deliveredAt: getDeliveredAt(tracking),
+      })
+
+      if (await notifyCustomer(tenant, order, 'delivered')) {
+        notified = 'delivered'
+      }
+    } else {
+      if (tracking.state === 'delayed' && !tracking.delayNotifiedAt) {
+        const latest = tracking.events[0]
+        if (
+          await notifyCustomer(tenant, order, 'delayed', latest?.description)
+        ) {
+          tracking.delayNotifiedAt = new Date()
+          notified = 'delayed'
+        }
+      }
+
+      await orders.updateOrder(tenant.id, order.id, { tracking })
+    }
+
+    return {
+      tenantId: tenant.id,
+      orderId: order.id,
+      success: true,
+      state: tracking.state,
+      notified,
+    }
+  } catch (error) {
+    console.error(
+      `[CRON] Error polling tracking for order ${order.id} (tenant ${tenant.id}):`,
+      error,
+    )
+    return {
+      tenantId: tenant.id,
+      orderId: order.id,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Email the customer a delivery update linking to their order page
+ * Marketplace buyers hear from the marketplace instead
+ */
+async function notifyCustomer(
+  tenant: Tenant,
+  order: Order,
+  status: 'delivered' | 'delayed',
+  latestUpdate?: string,
+): Promise<boolean> {
+  if (order.marketplace || !order.customerEmail) {
+    return false
+  }
+
+  const accessToken = await messages.createOrderAccessToken(
+    tenant.id,
+    order.id,
+    order.customerEmail,
+  )
+  const orderUrl = `${process.env.NEXT_PUBLIC_WEB_URL || 'https://madebuy.com.au'}/order/${accessToken.token}`
+
+  const result = await sendDeliveryUpdateEmail({
+    order,
+    tenant,
+    status,
+    orderUrl,
+    latestUpdate,
+  })
+  if (!result.success) {
+    console.warn(
+      `[CRON] Failed to send ${status} email for order ${order.id}:`,
+      result.error,
+    )
+  }
+  return result.success
+}
@@ -0,0 +1,403 @@
+import { timingSafeEqual } from 'node:crypto'
+import { tenants, workshops } from '@madebuy/db'
+import {
+  stripeIdempotencyKey,
+  type Tenant,
+  WORKSHOP_REMINDER_HOURS,
+  type Workshop,
+  type WorkshopBooking,
+  type WorkshopSlot,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import {
+  sendWaitlistPromotedEmail,
+  sendWorkshopCancelledEmail,
+  sendWorkshopReminderEmail,
+} from '@/lib/email'
+
+/**
+ * Timing-safe comparison for secrets to prevent timing attacks
+ */
+function verifySecret(received: string | null, expected: string): boolean {
+  if (!received) return false
+  try {
+    const receivedBuffer = Buffer.from(received)
+    const expectedBuffer = Buffer.from(`Bearer ${expected}`)
+    if (receivedBuffer.length !== expectedBuffer.length) {
+      timingSafeEqual(expectedBuffer, expectedBuffer)
+      return false
+    }
+    return timingSafeEqual(receivedBuffer, expectedBuffer)
+  } catch {
+    return false
+  }
+}
+
+function getStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY environment variable is not set')
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2023-10-16',
+  })
+}
+
+const MIN_CAPACITY_REASON = 'Minimum attendance not reached'
+
+/**
+ * GET /api/cron/workshops
+ *
+ * Runs the scheduled side of workshop bookings:
+ * 1. Cancels slots still below the workshop's minCapacity at the cutoff and
+ *    refunds their card bookings
+ * 2. Emails confirmed attendees a reminder in the 24h before their slot,
+ *    including the meeting link for virtual sessions
+ * 3. Emails waitlisted customers who were promoted into a freed seat
+ *
+ * Should be scheduled to run hourly.
+ * Vercel cron config: schedule "0 * * * *"
+ */
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // Allow up to 5 minutes for processing
+
+interface WorkshopCronResult {
+  tenantId: string
+  type: 'reminder' | 'cancellation' | 'waitlist'
+  slotId: string
+  bookingId?: string
+  success: boolean
+  refunded?: boolean
+  manualRefund?: boolean
+  error?: string
+}
+
+interface WorkshopCronCounts {
+  reminders: number
+  cancelledSlots: number
+  refunds: number
+  waitlistNotified: number
+  errors: number
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret - ALWAYS require auth, even if env var is missing
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || !verifySecret(authHeader, cronSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('[CRON] Starting workshop jobs...')
+
+    // Process tenants in batches to avoid OOM
+    const BATCH_SIZE = 50
+    const MAX_TOTAL_PROCESSED = 500 // Safety limit per cron invocation
+    const results: WorkshopCronResult[] = []
+    const counts: WorkshopCronCounts = {
+      reminders: 0,
+      cancelledSlots: 0,
+      refunds: 0,
+      waitlistNotified: 0,
+      errors: 0,
+    }
+    let totalTenants = 0
+    let lastId: string | undefined = undefined
+
+    while (totalTenants < MAX_TOTAL_PROCESSED) {
+      const tenantBatch = await tenants.getAllTenants(BATCH_SIZE, lastId)
+
+      if (tenantBatch.length === 0) {
+        break
+      }
+
+      for (const tenant of tenantBatch) {
+        totalTenants++
+
+        try {
+          // Cancellations run first so under-filled slots don't get reminders
+          await cancelUnderfilledSlots(tenant, results, counts)
+          await sendReminders(tenant, results, counts)
+          await notifyWaitlistPromotions(tenant, results, counts)
+        } catch (error) {
+          console.error(
+            `[CRON] Error processing workshops for tenant ${tenant.id}:`,
+            error,
+          )
+          counts.errors++
+        }
+      }
+
+      // Set cursor for next batch
+      lastId = tenantBatch[tenantBatch.length - 1]?.id
+
+      // If we got fewer results than batch size, we're done
+      if (tenantBatch.length < BATCH_SIZE) {
+        break
+      }
+    }
+
+    console.log(
+      `[CRON] Workshop jobs completed: ${counts.reminders} reminders, ${counts.cancelledSlots} slots cancelled, ${counts.refunds} refunds, ${counts.waitlistNotified} waitlist emails, ${counts.errors} errors (checked ${totalTenants} tenants)`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      ...counts,
+      tenantsChecked: totalTenants,
+      results: results.slice(0, 100), // Limit response size
+    })
+  } catch (error) {
+    console.error('[CRON] Workshop jobs error:', error)
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to run workshop jobs',
+        success: false,
+      },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * Cancel slots below minCapacity at their cutoff and refund every booking
+ * The slot itself is only cancelled once all its bookings are settled, so a
+ * failed refund is retried on the next run.
+ */
+async function cancelUnderfilledSlots(
+  tenant: Tenant,
+  results: WorkshopCronResult[],
+  counts: WorkshopCronCounts,
+): Promise<void> {
+  const underfilled = await workshops.getSlotsBelowMinCapacity(tenant.id)
+
+  for (const { workshop, slot } of underfilled) {
+    const { data: bookings } = await workshops.listBookings(
+      tenant.id,
+      {
+        workshopId: workshop.id,
+        slotId: slot.id,
+        status: ['pending', 'confirmed'],
+      },
+      { limit: 500 },
+    )
+
+    let allSettled = true
+    for (const booking of bookings) {
+      const result = await settleBooking(tenant, workshop, slot, booking)
+      results.push(result)
+      if (result.success) {
+        if (result.refunded) counts.refunds++
+      } else {
+        allSettled = false
+        counts.errors++
+      }
+    }
+
+    if (allSettled) {
+      await workshops.cancelSlot(
+        tenant.id,
+        workshop.id,
+        slot.id,
+        MIN_CAPACITY_REASON,
+      )
+      counts.cancelledSlots++
+    }
+  }
+}
+
+/**
+ * Refund (when paid by card) and close one booking on a cancelled slot
+ */
+async function settleBooking(
+  tenant: Tenant,
+  workshop: Workshop,
+  slot: WorkshopSlot,
+  booking: WorkshopBooking,
+): Promise<WorkshopCronResult> {
+  const base = {
+    tenantId: tenant.id,
+    type: 'cancellation' as const,
+    slotId: slot.id,
+    bookingId: booking.id,
+  }
+
+  try {
+    const refundable = booking.total - (booking.refundedAmount || 0)
+    let refundedAmount: number | undefined
+    let manualRefund = false
+
+    if (booking.paymentStatus === 'paid' && refundable > 0) {
+      if (booking.stripePaymentIntentId) {
+        const refund = await getStripe().refunds.create(
+          {
+            payment_intent: booking.stripePaymentIntentId,
+            amount: refundable,
+            // Destination charge - pull the funds back from the seller
+            reverse_transfer: true,
+            metadata: {
+              tenantId: tenant.id,
+              bookingId: booking.id,
+              reason: 'workshop_min_capacity',
+            },
+          },
+          { idempotencyKey: stripeIdempotencyKey('refund', booking.id) },
+        )
+        await workshops.cancelBookingForSlot(tenant.id, booking.id, {
+          refundId: refund.id,
+          amount: refundable,
+          reason: MIN_CAPACITY_REASON,
+        })
+        refundedAmount = refundable
+      } else {
+        // Paid outside Stripe - the seller has to refund it themselves
+        await workshops.cancelBookingForSlot(tenant.id, booking.id)
+        manualRefund = true
+      }
+    } else {
+      await workshops.cancelBookingForSlot(tenant.id, booking.id)
+    }
+
+    // The booking is settled either way - a failed email isn't retried
+    await sendWorkshopCancelledEmail({
+      customer: {
+        email: booking.customerEmail,
+        name: booking.customerName,
+        numberOfAttendees: booking.numberOfAttendees,
+      },
+      workshop,
+      slot,
+      tenant,
+      refundedAmount,
+      manualRefund,
+    })
+
+    return {
+      ...base,
+      success: true,
+      refunded: refundedAmount !== undefined,
+      manualRefund,
+    }
+  } catch (error) {
+    console.error(
+      `[CRON] Error cancelling workshop booking ${booking.id} (tenant ${tenant.id}):`,
+      error,
+    )
+    return {
+      ...base,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Remind confirmed attendees of slots starting in the next 24 hours
+ * Slots still short of their minimum are skipped until they fill or are
+ * cancelled at the cutoff.
+ */
+async function sendReminders(
+  tenant: Tenant,
+  results: WorkshopCronResult[],
+  counts: WorkshopCronCounts,
+): Promise<void> {
+  const now = new Date()
+  const until = new Date(
+    now.getTime() + WORKSHOP_REMINDER_HOURS * 60 * 60 * 1000,
+  )
+  const upcoming = await workshops.getSlotsStartingBetween(
+    tenant.id,
+    now,
+    until,
+  )
+
+  for (const { workshop, slot } of upcoming) {
+    if (workshop.minCapacity && slot.bookedCount < workshop.minCapacity) {
+      continue
+    }
+
+    const bookings = await workshops.getBookingsForReminder(tenant.id, slot.id)
+    for (const booking of bookings) {
+      const result = await sendWorkshopReminderEmail({
+        customer: {
+          email: booking.customerEmail,
+          name: booking.customerName,
+          numberOfAttendees: booking.numberOfAttendees,
+        },
+        workshop,
+        slot,
+        tenant,
+      })
+
+      if (result.success) {
+        await workshops.markReminderSent(tenant.id, booking.id)
+        counts.reminders++
+      } else {
+        counts.errors++
+      }
+      results.push({
+        tenantId: tenant.id,
+        type: 'reminder',
+        slotId: slot.id,
+        bookingId: booking.id,
+        success: result.success,
+        error: result.error,
+      })
+    }
+  }
+}
+
+/**
+ * Email waitlisted customers who were given a freed seat
+ */
+async function notifyWaitlistPromotions(
+  tenant: Tenant,
+  results: WorkshopCronResult[],
+  counts: WorkshopCronCounts,
+): Promise<void> {
+  const promotions = await workshops.getWaitlistPromotionsToNotify(tenant.id)
+
+  for (const entry of promotions) {
+    const workshop = await workshops.getWorkshopById(
+      tenant.id,
+      entry.workshopId,
+    )
+    const slot = workshop?.slots.find((s) => s.id === entry.slotId)
+    if (!workshop || !slot) {
+      // Workshop was deleted since - nothing to tell them about
+      await workshops.markWaitlistNotified(tenant.id, entry.id)
+      continue
+    }
+
+    const result = await sendWaitlistPromotedEmail({
+      customer: {
+        email: entry.customerEmail,
+        name: entry.customerName,
+        numberOfAttendees: entry.numberOfAttendees,
+      },
+      workshop,
+      slot,
+      tenant,
+    })
+
+    if (result.success) {
+      await workshops.markWaitlistNotified(tenant.id, entry.id)
+      counts.waitlistNotified++
+    } else {
+      counts.errors++
+    }
+    results.push({
+      tenantId: tenant.id,
+      type: 'waitlist',
+      slotId: slot.id,
+      bookingId: entry.bookingId,
+      success: result.success,
+      error: result.error,
+    })
+  }
+}
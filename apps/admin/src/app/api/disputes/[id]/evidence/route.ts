@@ -0,0 +1,97 @@
+import { disputes } from '@madebuy/db'
+import type { DisputeEvidence } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { cleanEvidence, submitDisputeEvidence } from '@/lib/dispute-evidence'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'disputes' })
+
+function handleDisputeError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * PUT /api/disputes/[id]/evidence
+ * Save the evidence draft without sending it
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: { evidence?: DisputeEvidence } = await request.json()
+    const dispute = await disputes.saveDisputeEvidence(
+      tenant.id,
+      params.id,
+      cleanEvidence(data.evidence ?? {}),
+    )
+
+    return NextResponse.json({ dispute })
+  } catch (error) {
+    return handleDisputeError(error, 'Unexpected error saving evidence')
+  }
+}
+
+/**
+ * POST /api/disputes/[id]/evidence
+ * Submit evidence to Stripe. This is final - Stripe allows one submission.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const dispute = await disputes.getDisputeAwaitingEvidence(
+      tenant.id,
+      params.id,
+    )
+
+    const data: { evidence?: DisputeEvidence } = await request.json()
+    const evidence = cleanEvidence(data.evidence ?? {})
+    if (Object.keys(evidence).length === 0) {
+      throw new ValidationError('Add some evidence before submitting', {
+        evidence: ['Add some evidence before submitting'],
+      })
+    }
+
+    await submitDisputeEvidence(dispute, evidence)
+    const updated = await disputes.markEvidenceSubmitted(
+      tenant.id,
+      dispute.id,
+      evidence,
+    )
+
+    return NextResponse.json({ dispute: updated })
+  } catch (error) {
+    return handleDisputeError(error, 'Unexpected error submitting evidence')
+  }
+}
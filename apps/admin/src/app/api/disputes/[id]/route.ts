@@ -0,0 +1,52 @@
+import { disputes } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { buildEvidenceDraft } from '@/lib/dispute-evidence'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'disputes' })
+
+/**
+ * GET /api/disputes/[id]
+ * A dispute with its saved evidence, or a draft pre-filled from the order
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const dispute = await disputes.getDispute(tenant.id, params.id)
+    if (!dispute) {
+      throw new NotFoundError('Dispute', params.id)
+    }
+
+    const evidence = dispute.evidence ?? (await buildEvidenceDraft(dispute))
+
+    return NextResponse.json({ dispute, evidence })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error loading dispute')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
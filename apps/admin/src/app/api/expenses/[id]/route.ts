@@ -0,0 +1,77 @@
+import { expenses } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { type ExpenseBody, toExpenseInput } from '@/lib/expenses'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'expenses' })
+
+function handleExpenseError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * PATCH /api/expenses/[id]
+ * Update an expense. Amounts are in cents.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const body: ExpenseBody = await request.json()
+    const input = toExpenseInput(body)
+    if (!tenant.taxSettings?.gstRegistered && input.gstAmount !== undefined) {
+      input.gstAmount = 0
+    }
+
+    const expense = await expenses.updateExpense(tenant.id, params.id, input)
+
+    return NextResponse.json({ expense })
+  } catch (error) {
+    return handleExpenseError(error, 'Unexpected error updating expense')
+  }
+}
+
+/**
+ * DELETE /api/expenses/[id]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await expenses.deleteExpense(tenant.id, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleExpenseError(error, 'Unexpected error deleting expense')
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { uploadToR2 } from '@madebuy/storage'
+import { nanoid } from 'nanoid'
+import { type NextRequest, NextResponse } from 'next/server'
+import { type ReceiptSuggestion, scanReceipt } from '@/lib/expenses'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'expenses' })
+
+const RECEIPT_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'application/pdf',
+]
+const MAX_RECEIPT_SIZE = 20 * 1024 * 1024 // 20MB
+
+function handleExpenseError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/expenses/receipt
+ * Store a receipt and read it with the invoice-scan OCR. Returns the receipt
+ * URL and suggested expense fields; nothing is recorded until the seller
+ * saves the expense. PDFs are stored but not scanned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      throw new ValidationError('No file provided', {
+        file: ['Choose a receipt to upload'],
+      })
+    }
+    if (!RECEIPT_TYPES.includes(file.type)) {
+      throw new ValidationError('Invalid file type', {
+        file: ['Upload a JPG, PNG or PDF receipt'],
+      })
+    }
+    if (file.size > MAX_RECEIPT_SIZE) {
+      throw new ValidationError('File too large', {
+        file: ['Receipts can be up to 20MB'],
+      })
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const extension = file.name.split('.').pop() || 'jpg'
+
+    const { url } = await uploadToR2({
+      tenantId: tenant.id,
+      fileName: `receipts/${nanoid()}.${extension}`,
+      buffer,
+      contentType: file.type,
+      metadata: {
+        originalFileName: file.name,
+        type: 'receipt',
+      },
+    })
+
+    let suggestion: ReceiptSuggestion = {}
+    if (file.type !== 'application/pdf') {
+      try {
+        suggestion = await scanReceipt(buffer)
+      } catch (error) {
+        // The receipt is stored; the seller fills in the fields by hand
+        log.warn({ err: error }, 'Receipt scan failed')
+      }
+    }
+
+    return NextResponse.json({
+      receiptUrl: url,
+      receiptFileName: file.name,
+      suggestion,
+    })
+  } catch (error) {
+    return handleExpenseError(error, 'Unexpected error uploading receipt')
+  }
+}
@@ -0,0 +1,112 @@
+import { expenses } from '@madebuy/db'
+import type { CreateExpenseInput, ExpenseCategory } from '@madebuy/shared'
+import {
+  createLogger,
+  getTenantCurrency,
+  isMadeBuyError,
+  parseQuarter,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { type ExpenseBody, toExpenseInput } from '@/lib/expenses'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'expenses' })
+
+function handleExpenseError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/expenses?quarter=2025-Q1&category=materials
+ * List expenses, newest first. With a quarter, also returns the profit and
+ * loss for that quarter.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = request.nextUrl
+    const quarter = searchParams.get('quarter')
+    const category =
+      (searchParams.get('category') as ExpenseCategory) || undefined
+
+    if (!quarter) {
+      const list = await expenses.listExpenses(tenant.id, { category })
+      return NextResponse.json({ expenses: list })
+    }
+
+    const period = parseQuarter(quarter)
+    if (!period) {
+      throw new ValidationError('Invalid quarter format', {
+        quarter: ['Use YYYY-QN, for example 2025-Q1'],
+      })
+    }
+
+    const [list, profitAndLoss] = await Promise.all([
+      expenses.listExpenses(tenant.id, {
+        category,
+        startDate: period.startDate,
+        endDate: period.endDate,
+      }),
+      expenses.getProfitAndLoss(
+        tenant.id,
+        period.startDate,
+        period.endDate,
+        getTenantCurrency(tenant),
+      ),
+    ])
+
+    return NextResponse.json({ expenses: list, profitAndLoss })
+  } catch (error) {
+    return handleExpenseError(error, 'Unexpected error listing expenses')
+  }
+}
+
+/**
+ * POST /api/expenses
+ * Record an expense. Amounts are in cents of the tenant's currency. GST is
+ * only claimable by GST-registered businesses, so it is zeroed for everyone
+ * else.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const body: ExpenseBody = await request.json()
+    const input = toExpenseInput(body)
+    input.currency = getTenantCurrency(tenant)
+    if (!tenant.taxSettings?.gstRegistered) {
+      input.gstAmount = 0
+    }
+
+    const expense = await expenses.createExpense(
+      tenant.id,
+      input as CreateExpenseInput,
+    )
+
+    return NextResponse.json({ expense }, { status: 201 })
+  } catch (error) {
+    return handleExpenseError(error, 'Unexpected error creating expense')
+  }
+}
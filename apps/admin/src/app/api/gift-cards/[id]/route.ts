@@ -0,0 +1,34 @@
+import { giftCards } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const giftCard = await giftCards.getGiftCard(tenant.id, id)
+
+    if (!giftCard) {
+      return NextResponse.json(
+        { error: 'Gift card not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ giftCard })
+  } catch (error) {
+    console.error('Error fetching gift card:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { giftCards } from '@madebuy/db'
+import { toMinorUnits } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/gift-cards/[id]/top-up
+ * Add balance to a card (amount is in the card currency, e.g. 20 = $20.00)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { amount } = await request.json()
+
+    if (typeof amount !== 'number' || amount <= 0) {
+      return NextResponse.json(
+        { error: 'Amount must be greater than zero' },
+        { status: 400 },
+      )
+    }
+
+    const existing = await giftCards.getGiftCard(tenant.id, id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Gift card not found' },
+        { status: 404 },
+      )
+    }
+
+    const giftCard = await giftCards.topUpGiftCard(
+      tenant.id,
+      id,
+      toMinorUnits(amount, existing.currency),
+    )
+
+    if (!giftCard) {
+      return NextResponse.json(
+        { error: 'Voided gift cards cannot be topped up' },
+        { status: 400 },
+      )
+    }
+
+    return NextResponse.json({ giftCard })
+  } catch (error) {
+    console.error('Error topping up gift card:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
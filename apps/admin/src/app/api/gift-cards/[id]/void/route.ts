@@ -0,0 +1,46 @@
+import { giftCards } from '@madebuy/db'
+import { sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/gift-cards/[id]/void
+ * Void a card so its remaining balance can no longer be redeemed
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const reason =
+      typeof body.reason === 'string' && body.reason.trim()
+        ? sanitizeInput(body.reason)
+        : undefined
+
+    const giftCard = await giftCards.voidGiftCard(tenant.id, id, reason)
+
+    if (!giftCard) {
+      return NextResponse.json(
+        { error: 'Gift card not found or already voided' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ giftCard })
+  } catch (error) {
+    console.error('Error voiding gift card:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
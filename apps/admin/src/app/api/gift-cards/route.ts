@@ -0,0 +1,100 @@
+import { giftCards } from '@madebuy/db'
+import type { GiftCardListOptions, GiftCardStatus } from '@madebuy/shared'
+import {
+  getTenantCurrency,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  toMinorUnits,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const options: GiftCardListOptions = {}
+
+    if (searchParams.get('status')) {
+      options.status = searchParams.get('status') as GiftCardStatus
+    }
+
+    if (searchParams.get('search')) {
+      options.search = searchParams.get('search')!
+    }
+
+    if (searchParams.get('limit')) {
+      options.limit = parseInt(searchParams.get('limit')!, 10)
+    }
+
+    if (searchParams.get('offset')) {
+      options.offset = parseInt(searchParams.get('offset')!, 10)
+    }
+
+    const result = await giftCards.listGiftCards(tenant.id, options)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching gift cards:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * POST /api/gift-cards
+ * Issue a gift card manually (amount is in the tenant currency, e.g. 50 = $50.00)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const data = await request.json()
+
+    if (typeof data.amount !== 'number' || data.amount <= 0) {
+      return NextResponse.json(
+        { error: 'Amount must be greater than zero' },
+        { status: 400 },
+      )
+    }
+
+    const currency = getTenantCurrency(tenant)
+    const giftCard = await giftCards.issueGiftCard(tenant.id, {
+      amount: toMinorUnits(data.amount, currency),
+      currency,
+      source: 'manual',
+      recipientEmail: data.recipientEmail || undefined,
+      recipientName: data.recipientName
+        ? sanitizeInput(data.recipientName)
+        : undefined,
+      message: data.message ? sanitizeInput(data.message) : undefined,
+      note: data.note ? sanitizeInput(data.note) : undefined,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    })
+
+    return NextResponse.json({ giftCard }, { status: 201 })
+  } catch (error) {
+    console.error('Error issuing gift card:', error)
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode } = toErrorResponse(error)
+      return NextResponse.json({ error: msg, code }, { status: statusCode })
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { giftCards } from '@madebuy/db'
+import { NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const stats = await giftCards.getGiftCardStats(tenant.id)
+
+    return NextResponse.json(stats)
+  } catch (error) {
+    console.error('Error fetching gift card stats:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
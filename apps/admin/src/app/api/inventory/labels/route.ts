@@ -0,0 +1,87 @@
+import { barcodes } from '@madebuy/db'
+import type { BarcodeItemType, LabelRequestItem } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { generateBarcodeLabelsPDF } from '@/lib/barcode-label-pdf'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'inventory-labels' })
+
+const ITEM_TYPES: BarcodeItemType[] = ['piece', 'variant', 'material']
+const MAX_COPIES = 100
+
+interface LabelsRequest {
+  items: LabelRequestItem[]
+  startPosition?: number // 1-21, to reuse a partly used sheet
+}
+
+function invalid(message: string): ValidationError {
+  return new ValidationError(message, { items: [message] })
+}
+
+/**
+ * POST /api/inventory/labels
+ * Print barcode labels for pieces, variants and materials as an A4 PDF.
+ * Items without a barcode or SKU are assigned an in-store EAN-13.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const body: LabelsRequest = await request.json()
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      throw invalid('Choose at least one item to print labels for')
+    }
+
+    const items: LabelRequestItem[] = []
+    for (const item of body.items) {
+      if (!ITEM_TYPES.includes(item.itemType) || !item.itemId) {
+        throw invalid('Each label needs an itemType and itemId')
+      }
+      const copies = item.copies ?? 1
+      if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+        throw invalid(`Copies must be between 1 and ${MAX_COPIES}`)
+      }
+      items.push({ itemType: item.itemType, itemId: item.itemId, copies })
+    }
+
+    const labels = await barcodes.getLabels(tenant.id, items)
+    const pdfBuffer = Buffer.from(
+      await generateBarcodeLabelsPDF(labels, {
+        startPosition: body.startPosition,
+      }),
+    )
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="labels.pdf"',
+        'Content-Length': pdfBuffer.length.toString(),
+      },
+    })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error printing labels')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { locations } from '@madebuy/db'
+import type { UpdateLocationInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'inventory-locations' })
+
+function handleLocationError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * PATCH /api/inventory/locations/[id]
+ * Rename a location, change whether it fulfils online orders, or make it
+ * the default
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: UpdateLocationInput = await request.json()
+    const location = await locations.updateLocation(tenant.id, params.id, {
+      name: data.name !== undefined ? sanitizeInput(data.name) : undefined,
+      type: data.type,
+      fulfillsOnline: data.fulfillsOnline,
+      isDefault: data.isDefault,
+      address:
+        data.address !== undefined ? sanitizeInput(data.address) : undefined,
+      notes: data.notes !== undefined ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ location })
+  } catch (error) {
+    return handleLocationError(error, 'Unexpected error updating location')
+  }
+}
+
+/**
+ * DELETE /api/inventory/locations/[id]
+ * Remove an empty, non-default location
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await locations.deleteLocation(tenant.id, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleLocationError(error, 'Unexpected error deleting location')
+  }
+}
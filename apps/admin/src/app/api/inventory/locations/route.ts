@@ -0,0 +1,74 @@
+import { locations } from '@madebuy/db'
+import type { CreateLocationInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'inventory-locations' })
+
+function handleLocationError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/inventory/locations
+ * List inventory locations, default first
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const list = await locations.listLocations(tenant.id)
+    return NextResponse.json({ locations: list })
+  } catch (error) {
+    return handleLocationError(error, 'Unexpected error fetching locations')
+  }
+}
+
+/**
+ * POST /api/inventory/locations
+ * Add a location - the first one becomes the default
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateLocationInput = await request.json()
+    const location = await locations.createLocation(tenant.id, {
+      name: sanitizeInput(data.name || ''),
+      type: data.type,
+      fulfillsOnline: data.fulfillsOnline,
+      isDefault: data.isDefault,
+      address: data.address ? sanitizeInput(data.address) : undefined,
+      notes: data.notes ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ location }, { status: 201 })
+  } catch (error) {
+    return handleLocationError(error, 'Unexpected error creating location')
+  }
+}
@@ -0,0 +1,106 @@
+import { locations } from '@madebuy/db'
+import type { StockItemType } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'inventory-locations' })
+
+const ITEM_TYPES: StockItemType[] = ['piece', 'variant', 'material']
+
+interface SetStockLevelRequest {
+  itemType: StockItemType
+  itemId: string
+  locationId: string
+  quantity: number
+}
+
+function handleStockLevelError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function parseItem(itemType: unknown, itemId: unknown) {
+  if (!ITEM_TYPES.includes(itemType as StockItemType) || !itemId) {
+    throw new ValidationError('itemType and itemId are required', {
+      items: ['itemType and itemId are required'],
+    })
+  }
+  return { itemType: itemType as StockItemType, itemId: String(itemId) }
+}
+
+/**
+ * GET /api/inventory/stock-levels?itemType=&itemId=
+ * An item's stock at each location
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = request.nextUrl
+    const { itemType, itemId } = parseItem(
+      searchParams.get('itemType'),
+      searchParams.get('itemId'),
+    )
+
+    const stock = await locations.getItemStock(tenant.id, itemType, itemId)
+    return NextResponse.json({ stock })
+  } catch (error) {
+    return handleStockLevelError(
+      error,
+      'Unexpected error fetching stock levels',
+    )
+  }
+}
+
+/**
+ * PUT /api/inventory/stock-levels
+ * Set the quantity counted at one location - the item's total follows
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const body: SetStockLevelRequest = await request.json()
+    const { itemType, itemId } = parseItem(body.itemType, body.itemId)
+    if (!body.locationId || typeof body.quantity !== 'number') {
+      throw new ValidationError('locationId and quantity are required', {
+        quantity: ['locationId and quantity are required'],
+      })
+    }
+
+    const stock = await locations.setLocationQuantity(
+      tenant.id,
+      itemType,
+      itemId,
+      body.locationId,
+      body.quantity,
+    )
+    return NextResponse.json({ stock })
+  } catch (error) {
+    return handleStockLevelError(error, 'Unexpected error setting stock level')
+  }
+}
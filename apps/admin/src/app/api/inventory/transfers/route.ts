@@ -0,0 +1,81 @@
+import { locations } from '@madebuy/db'
+import type { CreateStockTransferInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'inventory-locations' })
+
+function handleTransferError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/inventory/transfers?itemId=
+ * Recent stock transfers, optionally only those moving one item
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const transfers = await locations.listTransfers(tenant.id, {
+      itemId: request.nextUrl.searchParams.get('itemId') || undefined,
+    })
+    return NextResponse.json({ transfers })
+  } catch (error) {
+    return handleTransferError(error, 'Unexpected error fetching transfers')
+  }
+}
+
+/**
+ * POST /api/inventory/transfers
+ * Move stock from one location to another
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateStockTransferInput = await request.json()
+    if (!data.fromLocationId || !data.toLocationId) {
+      throw new ValidationError('Choose where stock is moving from and to', {
+        toLocationId: ['Choose where stock is moving from and to'],
+      })
+    }
+
+    const transfer = await locations.transferStock(tenant.id, {
+      fromLocationId: data.fromLocationId,
+      toLocationId: data.toLocationId,
+      items: Array.isArray(data.items) ? data.items : [],
+      notes: data.notes ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ transfer }, { status: 201 })
+  } catch (error) {
+    return handleTransferError(error, 'Unexpected error transferring stock')
+  }
+}
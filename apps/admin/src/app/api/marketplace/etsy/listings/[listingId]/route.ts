@@ -1,5 +1,10 @@
 import { marketplace, pieces } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
+import {
+  createEtsyClient,
+  EtsyApiError,
+  type EtsyListing,
+} from '@/lib/marketplace/etsy'
 import { getCurrentTenant } from '@/lib/session'
 
 interface RouteParams {
@@ -34,6 +39,26 @@ export async function GET(_request: NextRequest, context: RouteParams) {
 
     const piece = await pieces.getPiece(tenant.id, listing.pieceId)
 
+    // Get Etsy connection for fetching live data
+    const connection = await marketplace.getConnectionByMarketplace(
+      tenant.id,
+      'etsy',
+    )
+
+    let etsyData: EtsyListing | null = null
+    if (
+      connection?.status === 'connected' &&
+      listing.marketplaceData?.etsyListingId
+    ) {
+      try {
+        etsyData = await createEtsyClient(connection).getListing(
+          listing.marketplaceData.etsyListingId,
+        )
+      } catch (err) {
+        console.error('Error fetching Etsy listing data:', err)
+      }
+    }
+
     return NextResponse.json({
       listing: {
         ...listing,
@@ -47,6 +72,7 @@ export async function GET(_request: NextRequest, context: RouteParams) {
             }
           : null,
       },
+      etsyData,
     })
   } catch (error) {
     console.error('Error fetching Etsy listing:', error)
@@ -60,7 +86,7 @@ export async function GET(_request: NextRequest, context: RouteParams) {
 /**
  * DELETE /api/marketplace/etsy/listings/[listingId]
  *
- * Remove an Etsy listing
+ * Delete an Etsy listing and mark it ended
  */
 export async function DELETE(_request: NextRequest, context: RouteParams) {
   try {
@@ -83,12 +109,39 @@ export async function DELETE(_request: NextRequest, context: RouteParams) {
       )
     }
 
-    // Mark as ended locally (Etsy API integration coming soon)
+    const connection = await marketplace.getConnectionByMarketplace(
+      tenant.id,
+      'etsy',
+    )
+    if (!connection || connection.status !== 'connected') {
+      // Can't delete on Etsy, but mark as ended locally
+      await marketplace.updateListingStatus(tenant.id, listingId, 'ended')
+      return NextResponse.json({
+        success: true,
+        warning: 'Etsy not connected, listing marked as ended locally only',
+      })
+    }
+
+    const etsyListingId = listing.marketplaceData?.etsyListingId
+    if (etsyListingId) {
+      try {
+        await createEtsyClient(connection).deleteListing(etsyListingId)
+      } catch (deleteError) {
+        // 404 means already deleted on Etsy
+        if (
+          !(deleteError instanceof EtsyApiError) ||
+          deleteError.status !== 404
+        ) {
+          throw deleteError
+        }
+      }
+    }
+
     await marketplace.updateListingStatus(tenant.id, listingId, 'ended')
 
     return NextResponse.json({
       success: true,
-      message: 'Listing marked as ended',
+      message: 'Etsy listing deleted',
     })
   } catch (error) {
     console.error('Error deleting Etsy listing:', error)
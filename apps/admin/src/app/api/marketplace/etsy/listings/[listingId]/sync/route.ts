@@ -1,5 +1,11 @@
-import { marketplace, pieces } from '@madebuy/db'
+import { marketplace, pieces, variants } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
+import {
+  buildEtsyListingDetails,
+  createEtsyClient,
+  getEtsySyncQuantity,
+  pushEtsyInventory,
+} from '@/lib/marketplace/etsy'
 import { getCurrentTenant } from '@/lib/session'
 
 interface RouteParams {
@@ -9,8 +15,7 @@ interface RouteParams {
 /**
  * POST /api/marketplace/etsy/listings/[listingId]/sync
  *
- * Sync an Etsy listing - Coming Soon
- * For now, just updates local lastSyncedAt timestamp
+ * Force sync a listing with current piece data
  */
 export async function POST(_request: NextRequest, context: RouteParams) {
   try {
@@ -19,6 +24,13 @@ export async function POST(_request: NextRequest, context: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    if (!tenant.features?.marketplaceSync) {
+      return NextResponse.json(
+        { error: 'Marketplace sync not available on your plan' },
+        { status: 403 },
+      )
+    }
+
     const { listingId } = await context.params
 
     const listing = await marketplace.getListing(tenant.id, listingId)
@@ -33,25 +45,85 @@ export async function POST(_request: NextRequest, context: RouteParams) {
       )
     }
 
-    // Get piece for current price/stock
+    const connection = await marketplace.getConnectionByMarketplace(
+      tenant.id,
+      'etsy',
+    )
+    if (!connection || connection.status !== 'connected') {
+      return NextResponse.json({ error: 'Etsy not connected' }, { status: 400 })
+    }
+
     const piece = await pieces.getPiece(tenant.id, listing.pieceId)
     if (!piece) {
       return NextResponse.json({ error: 'Piece not found' }, { status: 404 })
     }
 
-    // Mark as synced with current values (no actual Etsy API call yet)
+    const etsyListingId = listing.marketplaceData?.etsyListingId
+    if (!etsyListingId) {
+      return NextResponse.json(
+        { error: 'Missing Etsy listing data, please recreate listing' },
+        { status: 400 },
+      )
+    }
+
+    if (!piece.price) {
+      return NextResponse.json(
+        { error: 'Piece must have a price to sync to Etsy' },
+        { status: 400 },
+      )
+    }
+
+    const etsy = createEtsyClient(connection)
+    const pieceVariants = piece.hasVariants
+      ? await variants.getVariants(tenant.id, piece.id)
+      : []
+
+    const quantity = getEtsySyncQuantity(piece, pieceVariants)
+    let state: string
+    try {
+      await etsy.updateListing(etsyListingId, buildEtsyListingDetails(piece))
+      const result = await pushEtsyInventory(
+        etsy,
+        etsyListingId,
+        piece,
+        pieceVariants,
+        { activate: listing.marketplaceData?.etsyState === 'inactive' },
+      )
+      state = result.state
+    } catch (syncError) {
+      const message =
+        syncError instanceof Error ? syncError.message : 'Unknown error'
+      console.error('Etsy sync error:', message)
+
+      await marketplace.updateListingStatus(
+        tenant.id,
+        listingId,
+        'error',
+        `Sync failed: ${message}`,
+      )
+
+      return NextResponse.json(
+        { error: 'Failed to sync listing to Etsy' },
+        { status: 502 },
+      )
+    }
+
+    await marketplace.updateListing(tenant.id, listingId, {
+      marketplaceData: { ...listing.marketplaceData, etsyState: state },
+    })
     await marketplace.markListingSynced(
       tenant.id,
       listingId,
       piece.price,
-      piece.stock ?? 1,
+      quantity,
     )
+    await marketplace.updateListingStatus(tenant.id, listingId, 'active')
 
     return NextResponse.json({
       success: true,
-      message: 'Etsy sync coming soon - local data updated',
       syncedPrice: piece.price,
-      syncedQuantity: piece.stock ?? 1,
+      syncedQuantity: quantity,
+      etsyState: state,
     })
   } catch (error) {
     console.error('Error syncing Etsy listing:', error)
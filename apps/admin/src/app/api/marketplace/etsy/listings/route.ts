@@ -1,12 +1,34 @@
-import { marketplace } from '@madebuy/db'
+import { marketplace, media, pieces, variants } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  buildEtsyListingDetails,
+  createEtsyClient,
+  ETSY_MAX_IMAGES,
+  EtsyApiError,
+  getEtsyListingUrl,
+  getEtsySyncQuantity,
+  pushEtsyInventory,
+} from '@/lib/marketplace/etsy'
 import { getCurrentTenant } from '@/lib/session'
 
+/**
+ * Validation schema for creating Etsy listings
+ */
+const createListingSchema = z.object({
+  pieceId: z.string().min(1, 'pieceId is required'),
+  // Etsy seller taxonomy node, falls back to ETSY_DEFAULT_TAXONOMY_ID
+  taxonomyId: z.number().int().positive().optional(),
+  // Falls back to the shop's first shipping profile
+  shippingProfileId: z.number().int().positive().optional(),
+  // Leave as a draft on Etsy instead of publishing
+  draft: z.boolean().optional(),
+})
+
 /**
  * GET /api/marketplace/etsy/listings
  *
  * List all Etsy listings for the current tenant
- * Note: Etsy integration is coming soon, this returns existing DB records only
  */
 export async function GET(_request: NextRequest) {
   try {
@@ -31,7 +53,6 @@ export async function GET(_request: NextRequest) {
       return NextResponse.json({ error: 'Etsy not connected' }, { status: 400 })
     }
 
-    // Get listings from database (no Etsy API sync yet)
     const listings = await marketplace.listListings(tenant.id, {
       marketplace: 'etsy',
     })
@@ -49,14 +70,173 @@ export async function GET(_request: NextRequest) {
 /**
  * POST /api/marketplace/etsy/listings
  *
- * Create a new Etsy listing - Coming Soon
+ * Create a new Etsy listing from a MadeBuy piece
  */
-export async function POST(_request: NextRequest) {
-  return NextResponse.json(
-    {
-      error:
-        'Etsy sync coming Q2 2026. For now, manage your Etsy listings directly on etsy.com.',
-    },
-    { status: 501 },
-  )
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!tenant.features?.marketplaceSync) {
+      return NextResponse.json(
+        { error: 'Marketplace sync not available on your plan' },
+        { status: 403 },
+      )
+    }
+
+    const connection = await marketplace.getConnectionByMarketplace(
+      tenant.id,
+      'etsy',
+    )
+    if (!connection || connection.status !== 'connected') {
+      return NextResponse.json({ error: 'Etsy not connected' }, { status: 400 })
+    }
+
+    const parsed = createListingSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid request' },
+        { status: 400 },
+      )
+    }
+    const { pieceId, shippingProfileId, draft } = parsed.data
+
+    const taxonomyId =
+      parsed.data.taxonomyId ??
+      (Number(process.env.ETSY_DEFAULT_TAXONOMY_ID) || undefined)
+    if (!taxonomyId) {
+      return NextResponse.json(
+        { error: 'An Etsy category (taxonomyId) is required' },
+        { status: 400 },
+      )
+    }
+
+    const piece = await pieces.getPiece(tenant.id, pieceId)
+    if (!piece) {
+      return NextResponse.json({ error: 'Piece not found' }, { status: 404 })
+    }
+
+    if (!piece.price) {
+      return NextResponse.json(
+        { error: 'Piece must have a price to list on Etsy' },
+        { status: 400 },
+      )
+    }
+
+    const existingListing = await marketplace.getListingByPiece(
+      tenant.id,
+      pieceId,
+      'etsy',
+    )
+    if (existingListing && existingListing.status !== 'ended') {
+      return NextResponse.json(
+        { error: 'This piece is already listed on Etsy' },
+        { status: 400 },
+      )
+    }
+
+    const etsy = createEtsyClient(connection)
+
+    const profileId =
+      shippingProfileId ??
+      (await etsy.getShippingProfiles())[0]?.shipping_profile_id
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Create a shipping profile in your Etsy shop first' },
+        { status: 400 },
+      )
+    }
+
+    // Step 1: Create the draft listing (inventory is replaced in step 3)
+    const etsyListing = await etsy.createDraftListing({
+      ...buildEtsyListingDetails(piece),
+      quantity: 1,
+      price: piece.price,
+      who_made: 'i_did',
+      when_made: 'made_to_order',
+      taxonomy_id: taxonomyId,
+      shipping_profile_id: profileId,
+      type: 'physical',
+    })
+
+    // Step 2: Upload images (Etsy needs at least one to publish)
+    const pieceMedia = piece.mediaIds?.length
+      ? await media.getMediaByIds(tenant.id, piece.mediaIds)
+      : []
+    const imageUrls = pieceMedia
+      .filter((m) => m.type === 'image')
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .slice(0, ETSY_MAX_IMAGES)
+      .map((m) => m.variants.large?.url || m.variants.original.url)
+      .filter(Boolean)
+
+    let uploadedImages = 0
+    for (const [index, url] of imageUrls.entries()) {
+      try {
+        await etsy.uploadListingImage(etsyListing.listing_id, url, index + 1)
+        uploadedImages++
+      } catch (imageError) {
+        console.warn('Failed to upload image to Etsy:', imageError)
+      }
+    }
+
+    // Step 3: Push variations and stock, then publish
+    const pieceVariants = piece.hasVariants
+      ? await variants.getVariants(tenant.id, piece.id)
+      : []
+    const { state: etsyState } = await pushEtsyInventory(
+      etsy,
+      etsyListing.listing_id,
+      piece,
+      pieceVariants,
+      { activate: !draft && uploadedImages > 0 },
+    )
+
+    const quantity = getEtsySyncQuantity(piece, pieceVariants)
+
+    const listing = await marketplace.createListing(tenant.id, {
+      pieceId,
+      marketplace: 'etsy',
+      externalListingId: etsyListing.listing_id.toString(),
+      externalUrl: etsyListing.url || getEtsyListingUrl(etsyListing.listing_id),
+      status: etsyState === 'active' ? 'active' : 'draft',
+      marketplaceData: {
+        etsyListingId: etsyListing.listing_id,
+        etsyState,
+        categoryId: taxonomyId.toString(),
+      },
+    })
+    await marketplace.markListingSynced(
+      tenant.id,
+      listing.id,
+      piece.price,
+      quantity,
+    )
+
+    return NextResponse.json(
+      {
+        listing,
+        warning:
+          !draft && uploadedImages === 0
+            ? 'Listing saved as a draft on Etsy because the piece has no images'
+            : undefined,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (error instanceof EtsyApiError) {
+      console.error('Etsy API error:', error.details)
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status >= 500 ? 502 : 400 },
+      )
+    }
+    console.error('Error creating Etsy listing:', error)
+    return NextResponse.json(
+      { error: 'Failed to create listing' },
+      { status: 500 },
+    )
+  }
 }
@@ -0,0 +1,66 @@
+import { marketplace } from '@madebuy/db'
+import { isMadeBuyError, toErrorResponse } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { convertMarketplaceOrder } from '@/lib/marketplace/orders'
+import { getCurrentTenant } from '@/lib/session'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/marketplace/orders/[id]/convert
+ *
+ * Create the native order for a marketplace order that was imported without
+ * one. Stock is taken now unless the import already took it.
+ */
+export async function POST(_request: NextRequest, context: RouteParams) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!tenant.features?.marketplaceSync) {
+      return NextResponse.json(
+        { error: 'Marketplace sync not available on your plan' },
+        { status: 403 },
+      )
+    }
+
+    const { id } = await context.params
+
+    const marketplaceOrder = await marketplace.getOrder(tenant.id, id)
+    if (!marketplaceOrder) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    if (marketplaceOrder.linkedOrderId) {
+      return NextResponse.json(
+        {
+          error: 'Order already converted',
+          orderId: marketplaceOrder.linkedOrderId,
+        },
+        { status: 400 },
+      )
+    }
+
+    const order = await convertMarketplaceOrder(tenant.id, marketplaceOrder)
+
+    return NextResponse.json({ order }, { status: 201 })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    console.error('Error converting marketplace order:', error)
+    return NextResponse.json(
+      { error: 'Failed to convert order' },
+      { status: 500 },
+    )
+  }
+}
@@ -1,5 +1,6 @@
-import { invoices, materials } from '@madebuy/db'
+import { expenses, invoices, materials } from '@madebuy/db'
 import type { CreateMaterialInput, InvoiceLineItem } from '@madebuy/shared'
+import { getTenantCurrency } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import { getCurrentTenant } from '@/lib/session'
 
@@ -123,8 +124,24 @@ export async function POST(request: NextRequest) {
       materialIds: allMaterialIds,
     })
 
+    // Post the invoice to the expenses ledger so its GST is claimed on the BAS.
+    // The materials are already saved, so a failure here is reported, not thrown.
+    let expenseId: string | undefined
+    try {
+      const expense = await expenses.postInvoiceExpense(tenant.id, invoice, {
+        gstRegistered: Boolean(tenant.taxSettings?.gstRegistered),
+        gstRate: tenant.taxSettings?.gstRate,
+        currency: getTenantCurrency(tenant),
+        exchangeRates: tenant.regionalSettings?.exchangeRates,
+      })
+      expenseId = expense?.id
+    } catch (error) {
+      console.error('Error posting invoice expense:', error)
+    }
+
     return NextResponse.json({
       success: true,
+      expenseId,
       materialsCreated: createdMaterialIds.length,
       materialsUpdated: updatedMaterialIds.length,
       totalProcessed: createdMaterialIds.length + updatedMaterialIds.length,
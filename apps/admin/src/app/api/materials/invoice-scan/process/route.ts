@@ -2,6 +2,7 @@ import { invoices } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
 import { extractTextFromInvoice } from '@/lib/services/invoice-ocr'
 import {
+  extractGstAmount,
   extractInvoiceDate,
   extractSupplier,
   extractTotalAmount,
@@ -62,6 +63,7 @@ export async function POST(request: NextRequest) {
     // Extract metadata
     const supplier = extractSupplier(ocrResult.lines)
     const totalAmount = extractTotalAmount(ocrResult.lines)
+    const gstAmount = extractGstAmount(ocrResult.lines)
     const invoiceDate = extractInvoiceDate(ocrResult.lines)
 
     // Update invoice with results
@@ -71,6 +73,7 @@ export async function POST(request: NextRequest) {
       lineItems,
       supplier,
       totalAmount,
+      gstAmount,
       invoiceDate,
     })
 
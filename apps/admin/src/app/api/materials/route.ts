@@ -63,6 +63,7 @@ export async function POST(request: NextRequest) {
       name: sanitizeInput(data.name),
       category: data.category,
       supplier: data.supplier ? sanitizeInput(data.supplier) : undefined,
+      barcode: data.barcode?.trim() || undefined,
       notes: data.notes ? sanitizeInput(data.notes) : undefined,
     }
 
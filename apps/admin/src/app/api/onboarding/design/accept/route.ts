@@ -7,7 +7,7 @@ import type {
 } from '@madebuy/shared'
 import { getDefaultPages } from '@madebuy/shared'
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import { getCurrentTenant } from '@/lib/session'
 
 /**
  * Maps scanner template recommendations to actual WebsiteTemplate types
@@ -31,16 +31,10 @@ function mapToWebsiteTemplate(recommended: string): WebsiteTemplate {
  */
 export async function POST(): Promise<NextResponse> {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Get tenant
-    const tenant = await tenants.getTenantById(user.id)
     if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     // Check if there's a design to accept
@@ -122,7 +116,7 @@ export async function POST(): Promise<NextResponse> {
       onboardingComplete: true,
     }
 
-    await tenants.updateTenant(user.id, updates)
+    await tenants.updateTenant(tenant.id, updates)
 
     return NextResponse.json({
       success: true,
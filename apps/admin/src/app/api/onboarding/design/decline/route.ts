@@ -1,6 +1,6 @@
 import { tenants } from '@madebuy/db'
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import { getCurrentTenant } from '@/lib/session'
 
 /**
  * POST /api/onboarding/design/decline
@@ -8,20 +8,14 @@ import { getCurrentUser } from '@/lib/session'
  */
 export async function POST(): Promise<NextResponse> {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Get tenant
-    const tenant = await tenants.getTenantById(user.id)
     if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     // Mark design import as declined
-    await tenants.updateTenant(user.id, {
+    await tenants.updateTenant(tenant.id, {
       domainOnboarding: {
         status: tenant.domainOnboarding?.status || 'design_choice',
         ...tenant.domainOnboarding,
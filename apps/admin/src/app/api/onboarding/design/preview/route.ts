@@ -1,6 +1,6 @@
-import { previews, tenants } from '@madebuy/db'
+import { previews } from '@madebuy/db'
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import { getCurrentTenant } from '@/lib/session'
 
 /**
  * POST /api/onboarding/design/preview
@@ -8,16 +8,10 @@ import { getCurrentUser } from '@/lib/session'
  */
 export async function POST(): Promise<NextResponse> {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Get tenant
-    const tenant = await tenants.getTenantById(user.id)
     if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     // Check if we have a scan result
@@ -61,14 +55,14 @@ export async function POST(): Promise<NextResponse> {
  */
 export async function GET(): Promise<NextResponse> {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
+    if (!tenant) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     // Get latest preview for tenant
-    const preview = await previews.getLatestPreviewForTenant(user.id)
+    const preview = await previews.getLatestPreviewForTenant(tenant.id)
 
     if (!preview) {
       return NextResponse.json({
@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto'
+import { orders, refunds, tenants } from '@madebuy/db'
+import {
+  CreateRefundSchema,
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { issueProviderRefund } from '@/lib/refunds'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'refunds' })
+
+function handleRefundError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/orders/[id]/refund
+ * Refund an order in full, by line item or by amount through Stripe or PayPal,
+ * optionally putting the refunded items back in stock
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const order = await orders.getOrder(tenant.id, params.id)
+    if (!order) {
+      throw new NotFoundError('Order', params.id)
+    }
+
+    const validation = CreateRefundSchema.safeParse(
+      await request.json().catch(() => null),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid refund',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const data = validation.data
+    const plan = await refunds.prepareRefund(order, {
+      ...data,
+      reason: data.reason ? sanitizeInput(data.reason) : undefined,
+    })
+
+    // Hold the amount first so concurrent refunds can't overshoot the total
+    await refunds.reserveRefund(order, plan.amount)
+
+    let payment: Awaited<ReturnType<typeof issueProviderRefund>>
+    try {
+      payment = await issueProviderRefund(order, plan.amount, randomUUID())
+    } catch (error) {
+      await refunds.releaseRefund(order, plan.amount)
+      throw error
+    }
+
+    const fullTenant = await tenants.getTenantById(tenant.id)
+    const refund = await refunds.recordRefund(order, plan, {
+      ...payment,
+      reserved: true,
+      gstRate: fullTenant?.taxSettings?.gstRegistered
+        ? (fullTenant.taxSettings.gstRate ?? 10)
+        : undefined,
+    })
+
+    log.info(
+      {
+        tenantId: tenant.id,
+        orderId: order.id,
+        amount: refund.amount,
+        provider: refund.provider,
+      },
+      'Order refunded',
+    )
+
+    return NextResponse.json({ refund }, { status: 201 })
+  } catch (error) {
+    return handleRefundError(error, 'Unexpected error refunding order')
+  }
+}
@@ -2,7 +2,9 @@ import { orders, pieces, tenants } from '@madebuy/db'
 import { createSendleClient, SendleError } from '@madebuy/shipping'
 import { type NextRequest, NextResponse } from 'next/server'
 import { sendShippingNotificationEmail } from '@/lib/email'
+import { pushOrderShipmentToMarketplace } from '@/lib/marketplace/orders'
 import { getCurrentTenant } from '@/lib/session'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 interface ShipOrderRequest {
   // Optional overrides for parcel dimensions
@@ -57,6 +59,17 @@ export async function POST(
       )
     }
 
+    if (
+      order.status === 'cancelled' ||
+      order.status === 'refunded' ||
+      order.status === 'delivered'
+    ) {
+      return NextResponse.json(
+        { error: `Cannot ship ${order.status} order` },
+        { status: 400 },
+      )
+    }
+
     // Check if digital-only order
     if (order.isDigitalOnly) {
       return NextResponse.json(
@@ -166,9 +179,16 @@ export async function POST(
         },
       })
 
+      // updateOrder ignores status - step through the state machine instead
+      if (order.status === 'pending' || order.status === 'confirmed') {
+        await orders.updateOrderStatus(tenant.id, order.id, 'processing')
+      }
+      if (order.status !== 'shipped') {
+        await orders.updateOrderStatus(tenant.id, order.id, 'shipped')
+      }
+
       // Update order with shipping info
       await orders.updateOrder(tenant.id, order.id, {
-        status: 'shipped',
         sendleOrderId: sendleOrder.order_id,
         sendleReference: sendleOrder.sendle_reference,
         trackingNumber: sendleOrder.sendle_reference,
@@ -178,32 +198,55 @@ export async function POST(
         shippedAt: new Date(),
       })
 
-      // Send shipping notification email to customer
-      const emailResult = await sendShippingNotificationEmail({
-        order,
-        tenant: fullTenant,
-        trackingNumber: sendleOrder.sendle_reference,
-        trackingUrl: sendleOrder.tracking_url,
-        carrier: 'Sendle',
-        // Sendle doesn't provide estimated days in order response, use defaults
-        estimatedDeliveryDays: { min: 2, max: 7 },
-      })
+      const shippedOrder = (await orders.getOrder(tenant.id, order.id)) ?? order
 
-      if (!emailResult.success) {
-        console.warn(
-          'Failed to send shipping notification email:',
-          emailResult.error,
+      // Marketplace buyers are notified by the marketplace once it has tracking
+      let marketplaceResult: { success: boolean; error?: string } | undefined
+      if (order.marketplace) {
+        marketplaceResult = await pushOrderShipmentToMarketplace(
+          tenant.id,
+          shippedOrder,
         )
-        // Don't fail the request if email fails - order is already shipped
       }
 
+      // Send shipping notification email to customer
+      let emailSent = false
+      if (!order.marketplace) {
+        const emailResult = await sendShippingNotificationEmail({
+          order,
+          tenant: fullTenant,
+          trackingNumber: sendleOrder.sendle_reference,
+          trackingUrl: sendleOrder.tracking_url,
+          carrier: 'Sendle',
+          // Sendle doesn't provide estimated days in order response, use defaults
+          estimatedDeliveryDays: { min: 2, max: 7 },
+        })
+        emailSent = emailResult.success
+
+        if (!emailResult.success) {
+          console.warn(
+            'Failed to send shipping notification email:',
+            emailResult.error,
+          )
+          // Don't fail the request if email fails - order is already shipped
+        }
+      }
+
+      dispatchWebhookEvent(tenant.id, 'order.shipped', {
+        order: shippedOrder,
+      })
+
       return NextResponse.json({
         success: true,
         sendleOrderId: sendleOrder.order_id,
         trackingNumber: sendleOrder.sendle_reference,
         trackingUrl: sendleOrder.tracking_url,
         labelUrl: sendleOrder.labels.pdf_url,
-        emailSent: emailResult.success,
+        emailSent,
+        ...(marketplaceResult && {
+          marketplaceSynced: marketplaceResult.success,
+          marketplaceError: marketplaceResult.error,
+        }),
       })
     } catch (sendleError) {
       if (sendleError instanceof SendleError) {
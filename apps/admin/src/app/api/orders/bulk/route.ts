@@ -1,6 +1,7 @@
 import { orders, pieces } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
 import { getCurrentTenant } from '@/lib/session'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 /**
  * Bulk update orders
@@ -90,6 +91,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Note which orders aren't shipped yet so only real transitions fire webhooks
+    const unshippedIds =
+      action === 'shipped'
+        ? (
+            await Promise.all(
+              orderIds.map((orderId) => orders.getOrder(tenant.id, orderId)),
+            )
+          )
+            .filter((order) => order && order.status !== 'shipped')
+            .map((order) => order!.id)
+        : []
+
     // Perform bulk update
     const updatedCount = await orders.bulkUpdateOrderStatus(
       tenant.id,
@@ -97,6 +110,13 @@ export async function POST(request: NextRequest) {
       action,
     )
 
+    for (const orderId of unshippedIds) {
+      const order = await orders.getOrder(tenant.id, orderId)
+      if (order?.status === 'shipped') {
+        dispatchWebhookEvent(tenant.id, 'order.shipped', { order })
+      }
+    }
+
     return NextResponse.json({
       success: true,
       updatedCount,
@@ -0,0 +1,61 @@
+import { payouts } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { reconcilePayout } from '@/lib/payout-reconciliation'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'payouts' })
+
+function handleReconcileError(error: unknown) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, 'Failed to reconcile payout')
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/payouts/[id]/reconcile
+ * Fetch the payout's balance transactions from Stripe and match them to
+ * the ledger. Safe to run again; links are rebuilt each time.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const payout = await payouts.getPayout(tenant.id, params.id)
+    if (!payout) {
+      throw new NotFoundError('Payout', params.id)
+    }
+
+    await reconcilePayout(tenant, payout)
+
+    const reconciliation = await payouts.getPayoutReconciliation(
+      tenant.id,
+      payout.id,
+    )
+    return NextResponse.json(reconciliation)
+  } catch (error) {
+    return handleReconcileError(error)
+  }
+}
@@ -0,0 +1,56 @@
+import { payouts } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'payouts' })
+
+function handlePayoutError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/payouts/[id]
+ * A payout with the transactions it contains and any mismatch
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const reconciliation = await payouts.getPayoutReconciliation(
+      tenant.id,
+      params.id,
+    )
+    if (!reconciliation) {
+      throw new NotFoundError('Payout', params.id)
+    }
+
+    return NextResponse.json(reconciliation)
+  } catch (error) {
+    return handlePayoutError(error, 'Failed to load payout')
+  }
+}
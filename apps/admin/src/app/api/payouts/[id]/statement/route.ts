@@ -0,0 +1,60 @@
+import { payouts } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { formatPayoutStatement } from '@/lib/payout-reconciliation'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'payouts' })
+
+/**
+ * GET /api/payouts/[id]/statement
+ * Download a CSV statement of the transactions in a payout
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const reconciliation = await payouts.getPayoutReconciliation(
+      tenant.id,
+      params.id,
+    )
+    if (!reconciliation) {
+      throw new NotFoundError('Payout', params.id)
+    }
+
+    const { payout } = reconciliation
+    return new NextResponse(formatPayoutStatement(reconciliation), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="payout-${payout.stripePayoutId}.csv"`,
+      },
+    })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Failed to export payout statement')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { locations } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'pos' })
+
+/**
+ * GET /api/pos/locations
+ * Locations a POS sale can come out of (market stall, shop, studio)
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const list = await locations.listLocations(tenant.id)
+    return NextResponse.json({
+      locations: list.map(({ id, name, type, isDefault }) => ({
+        id,
+        name,
+        type,
+        isDefault,
+      })),
+    })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error fetching POS locations')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { barcodes } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'pos' })
+
+/**
+ * GET /api/pos/lookup?code=
+ * Find the piece or variant for a scanned barcode or typed SKU
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const code = request.nextUrl.searchParams.get('code')?.trim()
+    if (!code) {
+      throw new ValidationError('code is required')
+    }
+
+    const item = await barcodes.findByCode(tenant.id, code)
+    // Materials aren't sold at the till
+    if (!item || item.itemType === 'material') {
+      throw new NotFoundError('Product', code)
+    }
+
+    return NextResponse.json({ item })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error looking up barcode')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
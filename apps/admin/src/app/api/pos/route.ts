@@ -1,4 +1,4 @@
-import { orders } from '@madebuy/db'
+import { locations, orders } from '@madebuy/db'
 import type { OrderItem } from '@madebuy/shared'
 import {
   createLogger,
@@ -26,6 +26,7 @@ interface POSOrderRequest {
   customerPhone?: string
   paymentMethod: 'cash' | 'card_manual'
   subtotal: number
+  locationId?: string // Inventory location the sale comes out of
 }
 
 export async function POST(request: NextRequest) {
@@ -54,6 +55,20 @@ export async function POST(request: NextRequest) {
       variantAttributes: item.variantOptions,
     }))
 
+    // Take the items out of the chosen location's stock first, so a sale
+    // the stall doesn't have stock for is rejected before the order exists
+    if (body.locationId) {
+      await locations.recordSale(
+        tenant.id,
+        body.locationId,
+        body.items.map((item) => ({
+          pieceId: item.pieceId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        })),
+      )
+    }
+
     // Create POS order (no shipping address needed for in-person sales)
     const order = await orders.createOrder(
       tenant.id,
@@ -88,7 +103,12 @@ export async function POST(request: NextRequest) {
     await orders.updateOrderStatus(tenant.id, order.id, 'confirmed')
 
     log.info(
-      { orderId: order.id, orderNumber: order.orderNumber, tenant: tenant.id },
+      {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        tenant: tenant.id,
+        locationId: body.locationId,
+      },
       'POS order created',
     )
 
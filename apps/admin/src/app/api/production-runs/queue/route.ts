@@ -0,0 +1,23 @@
+import { productionRuns } from '@madebuy/db'
+import { NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const queue = await productionRuns.getProductionQueue(tenant.id)
+
+    return NextResponse.json(queue)
+  } catch (error) {
+    console.error('Error fetching production queue:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -73,7 +73,9 @@ export async function POST(request: NextRequest) {
       }
       if (
         error.message.includes('no materials configured') ||
-        error.message.includes('Insufficient')
+        error.message.includes('Insufficient') ||
+        error.message.includes("can't be measured in") ||
+        error.message.includes('not in the production queue')
       ) {
         return NextResponse.json({ error: error.message }, { status: 400 })
       }
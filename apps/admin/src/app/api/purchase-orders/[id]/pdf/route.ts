@@ -0,0 +1,61 @@
+import { purchaseOrders, suppliers, tenants } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { generatePurchaseOrderPDF } from '@/lib/purchase-order-pdf'
+import { getCurrentTenant } from '@/lib/session'
+
+/**
+ * GET /api/purchase-orders/[id]/pdf
+ * Download a purchase order PDF (the same file emailed to the supplier)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const purchaseOrder = await purchaseOrders.getPurchaseOrder(
+      tenant.id,
+      params.id,
+    )
+    if (!purchaseOrder) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 },
+      )
+    }
+
+    // Fetch full tenant data for branding
+    const fullTenant = await tenants.getTenantById(tenant.id)
+    if (!fullTenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const supplier = await suppliers.getSupplier(
+      tenant.id,
+      purchaseOrder.supplierId,
+    )
+    const pdfBuffer = Buffer.from(
+      await generatePurchaseOrderPDF(fullTenant, supplier, purchaseOrder),
+    )
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${purchaseOrder.poNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error('Error generating purchase order PDF:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate purchase order' },
+      { status: 500 },
+    )
+  }
+}
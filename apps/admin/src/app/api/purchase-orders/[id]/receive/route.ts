@@ -0,0 +1,54 @@
+import { purchaseOrders } from '@madebuy/db'
+import type { ReceivePurchaseOrderInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'purchase-orders' })
+
+/**
+ * POST /api/purchase-orders/[id]/receive
+ * Mark a purchase order delivered and restock its materials
+ * Body items override the ordered quantity for short or over deliveries.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: ReceivePurchaseOrderInput = await request
+      .json()
+      .catch(() => ({}))
+    const purchaseOrder = await purchaseOrders.receivePurchaseOrder(
+      tenant.id,
+      params.id,
+      data,
+    )
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error receiving purchase order')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { purchaseOrders } from '@madebuy/db'
+import type { UpdatePurchaseOrderInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'purchase-orders' })
+
+function handlePurchaseOrderError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const purchaseOrder = await purchaseOrders.getPurchaseOrder(
+      tenant.id,
+      params.id,
+    )
+    if (!purchaseOrder) {
+      throw new NotFoundError('Purchase order', params.id)
+    }
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    return handlePurchaseOrderError(
+      error,
+      'Unexpected error fetching purchase order',
+    )
+  }
+}
+
+/**
+ * PATCH /api/purchase-orders/[id]
+ * Edit a draft's quantities, costs or notes
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: UpdatePurchaseOrderInput = await request.json()
+    const purchaseOrder = await purchaseOrders.updatePurchaseOrder(
+      tenant.id,
+      params.id,
+      {
+        items: data.items,
+        notes: data.notes !== undefined ? sanitizeInput(data.notes) : undefined,
+      },
+    )
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    return handlePurchaseOrderError(
+      error,
+      'Unexpected error updating purchase order',
+    )
+  }
+}
+
+/**
+ * DELETE /api/purchase-orders/[id]
+ * Cancel an open purchase order - kept for the record
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await purchaseOrders.cancelPurchaseOrder(tenant.id, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handlePurchaseOrderError(
+      error,
+      'Unexpected error cancelling purchase order',
+    )
+  }
+}
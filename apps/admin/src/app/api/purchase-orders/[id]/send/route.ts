@@ -0,0 +1,92 @@
+import { purchaseOrders, suppliers, tenants } from '@madebuy/db'
+import { getExpectedDeliveryDate } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendPurchaseOrderEmail } from '@/lib/email'
+import { generatePurchaseOrderPDF } from '@/lib/purchase-order-pdf'
+import { getCurrentTenant } from '@/lib/session'
+
+/**
+ * POST /api/purchase-orders/[id]/send
+ * Email the purchase order PDF to the supplier and mark it sent
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const purchaseOrder = await purchaseOrders.getPurchaseOrder(
+      tenant.id,
+      params.id,
+    )
+    if (!purchaseOrder) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 },
+      )
+    }
+    if (purchaseOrder.status !== 'draft' && purchaseOrder.status !== 'sent') {
+      return NextResponse.json(
+        { error: `Purchase order is already ${purchaseOrder.status}` },
+        { status: 409 },
+      )
+    }
+
+    const supplier = await suppliers.getSupplier(
+      tenant.id,
+      purchaseOrder.supplierId,
+    )
+    if (!supplier?.email) {
+      return NextResponse.json(
+        { error: 'Add an email address for this supplier first' },
+        { status: 400 },
+      )
+    }
+
+    const fullTenant = await tenants.getTenantById(tenant.id)
+    if (!fullTenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    // The PDF shows today's date and the expected delivery from lead time
+    const sentAt = new Date()
+    const pdf = Buffer.from(
+      await generatePurchaseOrderPDF(fullTenant, supplier, {
+        ...purchaseOrder,
+        sentAt,
+        expectedAt: getExpectedDeliveryDate(sentAt, supplier.leadTimeDays),
+      }),
+    )
+
+    const result = await sendPurchaseOrderEmail({
+      tenant: fullTenant,
+      supplier: { ...supplier, email: supplier.email },
+      purchaseOrder,
+      pdf,
+    })
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to email purchase order' },
+        { status: 502 },
+      )
+    }
+
+    const sentOrder = await purchaseOrders.markPurchaseOrderSent(
+      tenant.id,
+      purchaseOrder.id,
+    )
+
+    return NextResponse.json({ purchaseOrder: sentOrder })
+  } catch (error) {
+    console.error('Error sending purchase order:', error)
+    return NextResponse.json(
+      { error: 'Failed to send purchase order' },
+      { status: 500 },
+    )
+  }
+}
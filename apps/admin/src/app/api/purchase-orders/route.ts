@@ -0,0 +1,74 @@
+import { purchaseOrders } from '@madebuy/db'
+import type { PurchaseOrderStatus } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'purchase-orders' })
+
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const list = await purchaseOrders.listPurchaseOrders(tenant.id, {
+      status: (searchParams.get('status') as PurchaseOrderStatus) || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+    })
+
+    return NextResponse.json({ purchaseOrders: list })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error fetching purchase orders')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * POST /api/purchase-orders
+ * Draft purchase orders for every material at or below its reorder point
+ */
+export async function POST() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const drafts = await purchaseOrders.generateDraftPurchaseOrders(tenant.id)
+
+    return NextResponse.json({ purchaseOrders: drafts }, { status: 201 })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error drafting purchase orders')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -26,9 +26,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    if (!['material', 'piece'].includes(data.itemType)) {
+    if (!['material', 'piece', 'variant'].includes(data.itemType)) {
       return NextResponse.json(
-        { error: 'itemType must be "material" or "piece"' },
+        { error: 'itemType must be "material", "piece" or "variant"' },
         { status: 400 },
       )
     }
@@ -0,0 +1,64 @@
+import { reconciliations } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/reconciliations/[id]/scan
+ * Count one unit of the item with a scanned barcode or typed SKU
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: reconciliationId } = await params
+    const { code }: { code?: string } = await request.json()
+
+    if (!code?.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 })
+    }
+
+    const item = await reconciliations.recordScan(
+      tenant.id,
+      reconciliationId,
+      code,
+    )
+
+    // Return updated reconciliation
+    const reconciliation = await reconciliations.getReconciliation(
+      tenant.id,
+      reconciliationId,
+    )
+
+    return NextResponse.json({ item, reconciliation })
+  } catch (error) {
+    console.error('Error recording reconciliation scan:', error)
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes('not found') ||
+        error.message.includes('No item found')
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (
+        error.message.includes('Cannot add') ||
+        error.message.includes('Cannot update')
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
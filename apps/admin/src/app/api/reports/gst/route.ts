@@ -1,5 +1,5 @@
 import { tenants, transactions } from '@madebuy/db'
-import { getCurrentQuarter } from '@madebuy/shared'
+import { getCurrentQuarter, getTenantCurrency } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import { getCurrentTenant } from '@/lib/session'
 
@@ -62,6 +62,7 @@ export async function GET(request: NextRequest) {
       tenant.id,
       quarter,
       gstRate,
+      getTenantCurrency(fullTenant),
     )
 
     if (!report) {
@@ -0,0 +1,165 @@
+import { orders, pieces, returns, tenants } from '@madebuy/db'
+import {
+  ConflictError,
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { createSendleClient, SendleError } from '@madebuy/shipping'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'returns' })
+
+function handleReturnError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  if (error instanceof SendleError) {
+    log.warn({ err: error, details: error.details }, 'Sendle API error')
+    return NextResponse.json(
+      {
+        error: `Sendle API error: ${error.message}`,
+        details: error.details,
+      },
+      {
+        status: error.statusCode >= 400 && error.statusCode < 500 ? 400 : 502,
+      },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/returns/[id]/label
+ * Book a Sendle return label from the buyer back to the seller's pickup
+ * address for an approved return
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const returnRequest = await returns.getReturn(tenant.id, params.id)
+    if (!returnRequest) {
+      throw new NotFoundError('Return', params.id)
+    }
+    if (returnRequest.status !== 'approved') {
+      throw new ConflictError('Approve the return before sending a label')
+    }
+    if (returnRequest.sendleOrderId) {
+      throw new ConflictError('Return label already generated')
+    }
+
+    const order = await orders.getOrder(tenant.id, returnRequest.orderId)
+    if (!order) {
+      throw new NotFoundError('Order', returnRequest.orderId)
+    }
+
+    const fullTenant = await tenants.getTenantById(tenant.id)
+    const sendleSettings = fullTenant?.sendleSettings
+    if (!fullTenant || !sendleSettings?.isConnected || !sendleSettings.apiKey) {
+      throw new ValidationError(
+        'Sendle shipping not configured. Please set up Sendle in Settings > Shipping.',
+        { sendle: ['Set up Sendle in Settings > Shipping first'] },
+      )
+    }
+    const returnAddress = sendleSettings.pickupAddress
+    if (!returnAddress) {
+      throw new ValidationError('Add a pickup address to receive returns', {
+        sendle: ['Add a pickup address in Settings > Shipping first'],
+      })
+    }
+
+    // Parcel size from the returned pieces, with the same defaults as shipping
+    let weightGrams = 0
+    let lengthCm = 20
+    let widthCm = 15
+    let heightCm = 0
+    for (const item of returnRequest.items) {
+      const piece = await pieces.getPiece(tenant.id, item.pieceId)
+      weightGrams += (piece?.shippingWeight || 250) * item.quantity
+      lengthCm = Math.max(lengthCm, piece?.shippingLength || 20)
+      widthCm = Math.max(widthCm, piece?.shippingWidth || 15)
+      heightCm += (piece?.shippingHeight || 5) * item.quantity
+    }
+
+    const client = createSendleClient({
+      apiKey: sendleSettings.apiKey,
+      senderId: sendleSettings.senderId!,
+      environment: sendleSettings.environment,
+    })
+
+    const sendleOrder = await client.createOrder({
+      sender_address: {
+        address_line1: order.shippingAddress.line1,
+        address_line2: order.shippingAddress.line2,
+        suburb: order.shippingAddress.city,
+        state_name: order.shippingAddress.state,
+        postcode: order.shippingAddress.postcode,
+        country: order.shippingAddress.country,
+      },
+      receiver_address: {
+        address_line1: returnAddress.addressLine1,
+        address_line2: returnAddress.addressLine2,
+        suburb: returnAddress.suburb,
+        state_name: returnAddress.state,
+        postcode: returnAddress.postcode,
+        country: returnAddress.country,
+      },
+      sender_contact: {
+        name: returnRequest.customerName,
+        email: returnRequest.customerEmail,
+        phone: order.customerPhone,
+      },
+      receiver_contact: {
+        name: fullTenant.businessName,
+        email: fullTenant.email,
+      },
+      parcel: {
+        weight_value: (weightGrams || 500) / 1000,
+        weight_units: 'kg',
+        length_value: lengthCm,
+        width_value: widthCm,
+        height_value: heightCm || 10,
+        dimension_units: 'cm',
+        description: `Return ${returnRequest.rmaNumber}`,
+      },
+      customer_reference: returnRequest.rmaNumber,
+      metadata: {
+        order_id: order.id,
+        return_id: returnRequest.id,
+        tenant_id: tenant.id,
+      },
+    })
+
+    const updated = await returns.setReturnLabel(tenant.id, returnRequest.id, {
+      sendleOrderId: sendleOrder.order_id,
+      trackingNumber: sendleOrder.sendle_reference,
+      trackingUrl: sendleOrder.tracking_url,
+      labelUrl: sendleOrder.labels.pdf_url,
+    })
+
+    return NextResponse.json({ return: updated })
+  } catch (error) {
+    return handleReturnError(error, 'Unexpected error generating return label')
+  }
+}
@@ -0,0 +1,73 @@
+import { returns } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'returns' })
+
+function handleReturnError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * PATCH /api/returns/[id]
+ * Move a return along: { action: 'approve' | 'reject' | 'receive', reason? }
+ * Refunding it goes through POST /api/orders/[id]/refund with its returnId.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: { action?: string; reason?: string } = await request.json()
+
+    let returnRequest
+    switch (data.action) {
+      case 'approve':
+        returnRequest = await returns.approveReturn(tenant.id, params.id)
+        break
+      case 'reject':
+        returnRequest = await returns.rejectReturn(
+          tenant.id,
+          params.id,
+          data.reason ? sanitizeInput(data.reason) : undefined,
+        )
+        break
+      case 'receive':
+        returnRequest = await returns.markReturnReceived(tenant.id, params.id)
+        break
+      default:
+        throw new ValidationError('Unknown return action', {
+          action: ['Unknown return action'],
+        })
+    }
+
+    return NextResponse.json({ return: returnRequest })
+  } catch (error) {
+    return handleReturnError(error, 'Unexpected error updating return')
+  }
+}
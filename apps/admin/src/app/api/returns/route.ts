@@ -0,0 +1,51 @@
+import { returns } from '@madebuy/db'
+import type { ReturnStatus } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'returns' })
+
+function handleReturnError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * GET /api/returns?status=requested&orderId=...
+ * List return requests, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = request.nextUrl
+    const returnRequests = await returns.listReturns(tenant.id, {
+      status: (searchParams.get('status') as ReturnStatus) || undefined,
+      orderId: searchParams.get('orderId') || undefined,
+    })
+
+    return NextResponse.json({ returns: returnRequests })
+  } catch (error) {
+    return handleReturnError(error, 'Unexpected error listing returns')
+  }
+}
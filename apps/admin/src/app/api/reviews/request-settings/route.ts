@@ -0,0 +1,71 @@
+import { tenants } from '@madebuy/db'
+import {
+  DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+  ReviewRequestSettingsSchema,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+/**
+ * GET /api/reviews/request-settings
+ * Get post-delivery review request email settings
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      settings: tenant.reviewRequestSettings || {
+        enabled: false,
+        delayDays: DEFAULT_REVIEW_REQUEST_DELAY_DAYS,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching review request settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * PUT /api/reviews/request-settings
+ * Turn review request emails on/off and set the delay after delivery
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = ReviewRequestSettingsSchema.safeParse(
+      await request.json(),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid review request settings',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    await tenants.updateTenant(tenant.id, {
+      reviewRequestSettings: validation.data,
+    })
+
+    return NextResponse.json({ settings: validation.data })
+  } catch (error) {
+    console.error('Error saving review request settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { tenants } from '@madebuy/db'
+import {
+  type ShippingCarrierSettings,
+  UpdateShippingCarriersSchema,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+
+/**
+ * GET /api/shipping/carriers
+ * Get Australia Post and rate table settings for the tenant
+ */
+export async function GET() {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    return NextResponse.json(toResponse(tenant.shippingCarriers))
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Failed to get carrier settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to get carrier settings' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * PUT /api/shipping/carriers
+ * Save Australia Post and rate table settings
+ * Sections left out of the body keep their saved values.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    const validation = UpdateShippingCarriersSchema.safeParse(
+      await request.json(),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid carrier settings',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const current = tenant.shippingCarriers || {}
+    const { auspost, rateTables } = validation.data
+    const settings: ShippingCarrierSettings = { ...current }
+
+    if (auspost) {
+      // Masked or omitted keys keep the saved key
+      const isNewApiKey = !!auspost.apiKey && !auspost.apiKey.includes('***')
+      const apiKey = isNewApiKey ? auspost.apiKey : current.auspost?.apiKey
+
+      if (auspost.enabled && !apiKey) {
+        return NextResponse.json(
+          { error: 'An Australia Post API key is required' },
+          { status: 400 },
+        )
+      }
+      settings.auspost = { enabled: auspost.enabled, apiKey }
+    }
+
+    if (rateTables) {
+      const ids = new Set(rateTables.map((table) => table.id))
+      if (ids.size !== rateTables.length) {
+        return NextResponse.json(
+          { error: 'Rate table IDs must be unique' },
+          { status: 400 },
+        )
+      }
+      settings.rateTables = rateTables
+    }
+
+    await tenants.updateTenant(tenant.id, { shippingCarriers: settings })
+
+    return NextResponse.json(toResponse(settings))
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Failed to save carrier settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save carrier settings' },
+      { status: 500 },
+    )
+  }
+}
+
+function toResponse(settings: ShippingCarrierSettings | undefined) {
+  return {
+    auspost: {
+      enabled: settings?.auspost?.enabled || false,
+      apiKey: settings?.auspost?.apiKey
+        ? maskApiKey(settings.auspost.apiKey)
+        : '',
+    },
+    rateTables: settings?.rateTables || [],
+  }
+}
+
+/**
+ * Mask API key for display, showing only first and last few characters
+ */
+function maskApiKey(apiKey: string): string {
+  if (!apiKey || apiKey.length < 8) return apiKey
+  const start = apiKey.slice(0, 4)
+  const end = apiKey.slice(-4)
+  return `${start}***${end}`
+}
@@ -1,7 +1,11 @@
 import { tenants } from '@madebuy/db'
 import type { SendleSettings } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
 
 /**
  * GET /api/shipping/sendle
@@ -9,15 +13,7 @@ import { getCurrentUser } from '@/lib/session'
  */
 export async function GET() {
   try {
-    const user = await getCurrentUser()
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const tenant = await tenants.getTenantById(user.id)
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
-    }
+    const { tenant } = await requirePermission('settings')
 
     // Return settings, masking the API key for security
     const settings: SendleSettings = tenant.sendleSettings || {
@@ -35,6 +31,9 @@ export async function GET() {
       freeShippingThreshold: tenant.freeShippingThreshold || null,
     })
   } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
     console.error('Failed to get Sendle settings:', error)
     return NextResponse.json(
       { error: 'Failed to get shipping settings' },
@@ -49,10 +48,7 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getCurrentUser()
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const { tenant } = await requirePermission('settings')
 
     const body = await request.json()
     const {
@@ -84,12 +80,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get current tenant
-    const tenant = await tenants.getTenantById(user.id)
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
-    }
-
     // Build updates object
     const updates: Record<string, unknown> = {}
 
@@ -125,10 +115,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Update tenant
-    await tenants.updateTenant(user.id, updates)
+    await tenants.updateTenant(tenant.id, updates)
 
     // Fetch updated tenant to return current state
-    const updatedTenant = await tenants.getTenantById(user.id)
+    const updatedTenant = await tenants.getTenantById(tenant.id)
     const finalSettings = updatedTenant?.sendleSettings || tenant.sendleSettings
 
     return NextResponse.json({
@@ -141,6 +131,9 @@ export async function POST(request: NextRequest) {
       freeShippingThreshold: updatedTenant?.freeShippingThreshold || null,
     })
   } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
     console.error('Failed to save Sendle settings:', error)
     return NextResponse.json(
       { error: 'Failed to save shipping settings' },
@@ -2,7 +2,11 @@ import { tenants } from '@madebuy/db'
 import type { SendleSettings } from '@madebuy/shared'
 import { createSendleClient } from '@madebuy/shipping'
 import { type NextRequest, NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
 
 /**
  * POST /api/shipping/sendle/test
@@ -10,10 +14,7 @@ import { getCurrentUser } from '@/lib/session'
  */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getCurrentUser()
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const { tenant } = await requirePermission('settings')
 
     const body = await request.json()
     const { apiKey, senderId, environment } = body
@@ -26,12 +27,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get tenant to check for existing API key if masked key was sent
-    const tenant = await tenants.getTenantById(user.id)
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
-    }
-
     // Determine which API key to use
     let actualApiKey = apiKey
     if (apiKey.includes('***')) {
@@ -71,7 +66,7 @@ export async function POST(request: NextRequest) {
         environment: environment || 'sandbox',
       }
 
-      await tenants.updateTenant(user.id, { sendleSettings: newSettings })
+      await tenants.updateTenant(tenant.id, { sendleSettings: newSettings })
 
       return NextResponse.json({
         success: true,
@@ -85,6 +80,9 @@ export async function POST(request: NextRequest) {
       })
     }
   } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
     console.error('Failed to test Sendle connection:', error)
 
     // Provide more specific error messages
@@ -0,0 +1,87 @@
+import { suppliers } from '@madebuy/db'
+import type { UpdateSupplierInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  NotFoundError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'suppliers' })
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: UpdateSupplierInput = await request.json()
+    const updates: UpdateSupplierInput = { ...data }
+    if (data.name) updates.name = sanitizeInput(data.name)
+    if (data.contactName) updates.contactName = sanitizeInput(data.contactName)
+    if (data.notes) updates.notes = sanitizeInput(data.notes)
+
+    const supplier = await suppliers.updateSupplier(
+      tenant.id,
+      params.id,
+      updates,
+    )
+    if (!supplier) {
+      throw new NotFoundError('Supplier', params.id)
+    }
+
+    return NextResponse.json({ supplier })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error updating supplier')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await suppliers.deleteSupplier(tenant.id, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error deleting supplier')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { suppliers } from '@madebuy/db'
+import type { CreateSupplierInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'suppliers' })
+
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const supplierList = await suppliers.listSuppliers(tenant.id)
+
+    return NextResponse.json({ suppliers: supplierList })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error fetching suppliers')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateSupplierInput = await request.json()
+    if (!data.name?.trim()) {
+      throw new ValidationError('Supplier name is required')
+    }
+
+    const supplier = await suppliers.createSupplier(tenant.id, {
+      ...data,
+      name: sanitizeInput(data.name),
+      contactName: data.contactName
+        ? sanitizeInput(data.contactName)
+        : undefined,
+      notes: data.notes ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ supplier }, { status: 201 })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    log.error({ err: error }, 'Unexpected error creating supplier')
+    return NextResponse.json(
+      { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { auditLog, teamMembers } from '@madebuy/db'
+import { UpdateTeamMemberSchema } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+import { getCurrentUser } from '@/lib/session'
+
+/**
+ * PATCH /api/team/[id]
+ * Change a staff member's role
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('team')
+    const user = await getCurrentUser()
+    const { id } = await params
+
+    const validation = UpdateTeamMemberSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid role',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const existing = await teamMembers.getTeamMember(tenant.id, id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Team member not found' },
+        { status: 404 },
+      )
+    }
+
+    const { role } = validation.data
+    const member = await teamMembers.updateTeamMemberRole(tenant.id, id, role)
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Team member not found' },
+        { status: 404 },
+      )
+    }
+
+    await auditLog.logAuditEvent({
+      tenantId: tenant.id,
+      eventType: 'team.role.change',
+      actorId: user?.staffId || tenant.id,
+      actorEmail: user?.email || tenant.email,
+      actorType: user?.staffId ? 'staff' : 'tenant',
+      metadata: {
+        memberId: member.id,
+        email: member.email,
+        from: existing.role,
+        to: role,
+      },
+      success: true,
+    })
+
+    return NextResponse.json({
+      member: teamMembers.toPublicTeamMember(member),
+    })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error updating team member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * DELETE /api/team/[id]
+ * Remove a staff member or cancel their invitation
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('team')
+    const user = await getCurrentUser()
+    const { id } = await params
+
+    const member = await teamMembers.getTeamMember(tenant.id, id)
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Team member not found' },
+        { status: 404 },
+      )
+    }
+
+    await teamMembers.removeTeamMember(tenant.id, id)
+
+    await auditLog.logAuditEvent({
+      tenantId: tenant.id,
+      eventType: 'team.remove',
+      actorId: user?.staffId || tenant.id,
+      actorEmail: user?.email || tenant.email,
+      actorType: user?.staffId ? 'staff' : 'tenant',
+      metadata: {
+        memberId: member.id,
+        email: member.email,
+        role: member.role,
+        status: member.status,
+      },
+      success: true,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error removing team member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { auditLog, teamMembers } from '@madebuy/db'
+import { ADMIN_PASSWORD_REQUIREMENTS, validatePassword } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { rateLimit, rateLimiters } from '@/lib/rate-limit'
+
+/**
+ * POST /api/team/accept
+ * Public - accept a team invitation and set a password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResponse = await rateLimit(request, rateLimiters.auth)
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { token, password } = await request.json()
+
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 },
+      )
+    }
+
+    // Staff get the same password rules as shop owners
+    const passwordValidation = validatePassword(
+      password,
+      ADMIN_PASSWORD_REQUIREMENTS,
+    )
+    if (!passwordValidation.isValid) {
+      return NextResponse.json(
+        {
+          error:
+            passwordValidation.errors[0] ||
+            'Password does not meet security requirements',
+        },
+        { status: 400 },
+      )
+    }
+
+    const member = await teamMembers.acceptInvitation(token, password)
+    if (!member) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired' },
+        { status: 400 },
+      )
+    }
+
+    await auditLog.logAuditEvent({
+      tenantId: member.tenantId,
+      eventType: 'team.invite.accept',
+      actorId: member.id,
+      actorEmail: member.email,
+      actorType: 'staff',
+      metadata: { role: member.role },
+      success: true,
+    })
+
+    return NextResponse.json({ success: true, email: member.email })
+  } catch (error) {
+    console.error('Error accepting team invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { auditLog, teamMembers } from '@madebuy/db'
+import {
+  getPlanLimits,
+  InviteTeamMemberSchema,
+  isMadeBuyError,
+  sanitizeInput,
+  TEAM_ROLE_LABELS,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendTeamInviteEmail } from '@/lib/email'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+import { getCurrentUser } from '@/lib/session'
+import { checkCanAddTeamMember } from '@/lib/subscription-check'
+
+/**
+ * GET /api/team
+ * List staff (the owner is the tenant account and isn't included)
+ */
+export async function GET() {
+  try {
+    const { tenant } = await requirePermission('team')
+
+    const members = await teamMembers.listTeamMembers(tenant.id)
+    const limits = getPlanLimits(tenant.plan)
+
+    return NextResponse.json({
+      owner: { email: tenant.email, name: tenant.businessName },
+      members: members.map(teamMembers.toPublicTeamMember),
+      seats: { used: members.length + 1, limit: limits.teamMembers },
+    })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error fetching team:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * POST /api/team
+ * Invite a staff member by email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { tenant } = await requirePermission('team')
+    const user = await getCurrentUser()
+
+    const validation = InviteTeamMemberSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid invitation',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const quota = await checkCanAddTeamMember(tenant)
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          error: quota.message,
+          code: 'QUOTA_EXCEEDED',
+          upgradeRequired: true,
+          requiredPlan: quota.requiredPlan,
+        },
+        { status: 403 },
+      )
+    }
+
+    const { email, name, role } = validation.data
+    const member = await teamMembers.inviteTeamMember(tenant.id, {
+      email,
+      name: sanitizeInput(name),
+      role,
+      invitedBy: user?.email || tenant.email,
+    })
+
+    await auditLog.logAuditEvent({
+      tenantId: tenant.id,
+      eventType: 'team.invite',
+      actorId: user?.staffId || tenant.id,
+      actorEmail: user?.email || tenant.email,
+      actorType: user?.staffId ? 'staff' : 'tenant',
+      metadata: { memberId: member.id, email: member.email, role },
+      success: true,
+    })
+
+    const emailResult = await sendTeamInviteEmail({
+      to: member.email,
+      name: member.name,
+      inviteToken: member.inviteToken,
+      businessName: tenant.businessName,
+      roleLabel: TEAM_ROLE_LABELS[role],
+    })
+
+    return NextResponse.json(
+      {
+        member: teamMembers.toPublicTeamMember(member),
+        emailSent: emailResult.success,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode },
+      )
+    }
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error inviting team member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
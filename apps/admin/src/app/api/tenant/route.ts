@@ -1,23 +1,17 @@
 import { tenants } from '@madebuy/db'
 import { safeValidateUpdateTenant, sanitizeInput } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import { getCurrentTenant } from '@/lib/session'
 
 export async function GET() {
   try {
-    const user = await getCurrentUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const tenant = await tenants.getTenantById(user.id)
+    const tenant = await getCurrentTenant()
 
     if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    return NextResponse.json(tenant)
+    return NextResponse.json(tenants.toPublicTenant(tenant))
   } catch (error) {
     console.error('Failed to fetch tenant:', error)
     return NextResponse.json(
@@ -29,9 +23,9 @@ export async function GET() {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
+    if (!tenant) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
@@ -77,11 +71,13 @@ export async function PATCH(request: NextRequest) {
       Object.entries(sanitizedUpdates).filter(([_, v]) => v !== undefined),
     )
 
-    await tenants.updateTenant(user.id, cleanedUpdates)
+    await tenants.updateTenant(tenant.id, cleanedUpdates)
 
     // Return updated tenant
-    const updatedTenant = await tenants.getTenantById(user.id)
-    return NextResponse.json(updatedTenant)
+    const updatedTenant = await tenants.getTenantById(tenant.id)
+    return NextResponse.json(
+      updatedTenant ? tenants.toPublicTenant(updatedTenant) : null,
+    )
   } catch (error) {
     console.error('Failed to update tenant:', error)
     return NextResponse.json(
@@ -155,6 +155,9 @@ function getDefaultDescription(type: string): string {
     payout: 'Payout to bank',
     fee: 'Platform fee',
     subscription: 'Subscription payment',
+    gift_card: 'Gift card',
+    consignment: 'Consignment settlement',
+    wholesale: 'Wholesale invoice payment',
   }
   return descriptions[type] || type
 }
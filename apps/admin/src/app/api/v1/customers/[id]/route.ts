@@ -0,0 +1,24 @@
+import { customers } from '@madebuy/db'
+import { NextResponse } from 'next/server'
+import { toApiCustomer, withApiKey } from '@/lib/api-auth'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/v1/customers/[id]
+ */
+export const GET = withApiKey<RouteContext>(
+  'customers:read',
+  async (_request, { tenant }, { params }) => {
+    const { id } = await params
+    const customer = await customers.getCustomerById(tenant.id, id)
+    if (!customer) {
+      return NextResponse.json(
+        { error: 'Customer not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ customer: toApiCustomer(customer) })
+  },
+)
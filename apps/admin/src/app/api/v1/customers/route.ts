@@ -0,0 +1,26 @@
+import { customers } from '@madebuy/db'
+import type { Customer, PaginatedResult } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { getPaginationParams, toApiCustomer, withApiKey } from '@/lib/api-auth'
+
+/**
+ * GET /api/v1/customers
+ * List customers, newest first. Supports ?search=, ?limit= and ?cursor=
+ */
+export const GET = withApiKey('customers:read', async (request, { tenant }) => {
+  const search = request.nextUrl.searchParams.get('search') || undefined
+  const { limit, cursor } = getPaginationParams(request)
+
+  const result = (await customers.listCustomers(
+    tenant.id,
+    { search },
+    // Passing cursor (even undefined) selects cursor-based pagination
+    { limit, cursor, sortBy: 'createdAt', sortOrder: 'desc' },
+  )) as PaginatedResult<Customer>
+
+  return NextResponse.json({
+    data: result.data.map(toApiCustomer),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  })
+})
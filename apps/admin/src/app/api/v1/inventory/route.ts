@@ -0,0 +1,98 @@
+import { pieces, variants } from '@madebuy/db'
+import type { PaginatedResult, Piece } from '@madebuy/shared'
+import { ApiInventoryUpdateSchema } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { getPaginationParams, readJsonBody, withApiKey } from '@/lib/api-auth'
+
+/**
+ * GET /api/v1/inventory
+ * Stock levels per piece and variant. Undefined stock means unlimited.
+ * Supports ?limit= and ?cursor=
+ */
+export const GET = withApiKey('inventory:read', async (request, { tenant }) => {
+  const result = (await pieces.listPieces(
+    tenant.id,
+    undefined,
+    getPaginationParams(request),
+  )) as PaginatedResult<Piece>
+
+  const data = await Promise.all(
+    result.data.map(async (piece) => {
+      const pieceVariants = piece.hasVariants
+        ? await variants.getVariants(tenant.id, piece.id)
+        : []
+
+      return {
+        pieceId: piece.id,
+        name: piece.name,
+        status: piece.status,
+        stock: piece.stock ?? null,
+        lowStockThreshold: piece.lowStockThreshold ?? null,
+        variants: pieceVariants.map((variant) => ({
+          variantId: variant.id,
+          sku: variant.sku,
+          stock: variant.stock,
+          isAvailable: variant.isAvailable,
+        })),
+      }
+    }),
+  )
+
+  return NextResponse.json({
+    data,
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  })
+})
+
+/**
+ * PATCH /api/v1/inventory
+ * Set absolute stock levels, e.g. after a warehouse count.
+ * Items without a variantId set the piece's own stock.
+ */
+export const PATCH = withApiKey(
+  'inventory:write',
+  async (request, { tenant }) => {
+    const validation = ApiInventoryUpdateSchema.safeParse(
+      await readJsonBody(request),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const { items } = validation.data
+    const failed: string[] = []
+
+    // Variant stock is batched; piece stock is one update per piece
+    const variantUpdates = items.flatMap((item) =>
+      item.variantId ? [{ variantId: item.variantId, stock: item.stock }] : [],
+    )
+    const pieceUpdates = items.filter((item) => !item.variantId)
+
+    let updated = 0
+    if (variantUpdates.length > 0) {
+      const result = await variants.bulkUpdateStock(tenant.id, variantUpdates)
+      updated += result.updated
+      failed.push(...result.failed)
+    }
+
+    for (const item of pieceUpdates) {
+      const piece = await pieces.getPiece(tenant.id, item.pieceId)
+      if (!piece) {
+        failed.push(item.pieceId)
+        continue
+      }
+      await pieces.updatePiece(tenant.id, item.pieceId, { stock: item.stock })
+      updated++
+    }
+
+    return NextResponse.json({ updated, failed })
+  },
+)
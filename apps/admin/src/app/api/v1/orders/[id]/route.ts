@@ -0,0 +1,87 @@
+import { orders } from '@madebuy/db'
+import { ApiOrderUpdateSchema, sanitizeInput } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { readJsonBody, withApiKey, withoutMongoId } from '@/lib/api-auth'
+import { pushOrderShipmentToMarketplace } from '@/lib/marketplace/orders'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/v1/orders/[id]
+ */
+export const GET = withApiKey<RouteContext>(
+  'orders:read',
+  async (_request, { tenant }, { params }) => {
+    const { id } = await params
+    const order = await orders.getOrder(tenant.id, id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ order: withoutMongoId(order) })
+  },
+)
+
+/**
+ * PATCH /api/v1/orders/[id]
+ * Update fulfilment status and tracking. Status changes follow the same
+ * transitions as the admin (e.g. a delivered order can't be reopened)
+ */
+export const PATCH = withApiKey<RouteContext>(
+  'orders:write',
+  async (request, { tenant }, { params }) => {
+    const { id } = await params
+    const existing = await orders.getOrder(tenant.id, id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Order not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    const validation = ApiOrderUpdateSchema.safeParse(
+      await readJsonBody(request),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const { status, trackingNumber, carrier } = validation.data
+
+    if (status && status !== existing.status) {
+      // Throws ConflictError for invalid transitions
+      await orders.updateOrderStatus(tenant.id, id, status)
+    }
+
+    if (trackingNumber || carrier) {
+      await orders.updateOrder(tenant.id, id, {
+        ...(trackingNumber && {
+          trackingNumber: sanitizeInput(trackingNumber),
+        }),
+        ...(carrier && { carrier: sanitizeInput(carrier) }),
+      })
+    }
+
+    const order = await orders.getOrder(tenant.id, id)
+
+    if (order && status === 'shipped' && existing.status !== 'shipped') {
+      dispatchWebhookEvent(tenant.id, 'order.shipped', { order })
+      if (order.marketplace) {
+        await pushOrderShipmentToMarketplace(tenant.id, order)
+      }
+    }
+
+    return NextResponse.json({ order: order && withoutMongoId(order) })
+  },
+)
@@ -0,0 +1,24 @@
+import { orders } from '@madebuy/db'
+import type { Order, OrderStatus, PaginatedResult } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { getPaginationParams, withApiKey, withoutMongoId } from '@/lib/api-auth'
+
+/**
+ * GET /api/v1/orders
+ * List orders, newest first. Supports ?status=, ?limit= and ?cursor=
+ */
+export const GET = withApiKey('orders:read', async (request, { tenant }) => {
+  const status = request.nextUrl.searchParams.get('status') || undefined
+
+  const result = (await orders.listOrders(
+    tenant.id,
+    { status: status as OrderStatus | undefined },
+    getPaginationParams(request),
+  )) as PaginatedResult<Order>
+
+  return NextResponse.json({
+    data: result.data.map(withoutMongoId),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  })
+})
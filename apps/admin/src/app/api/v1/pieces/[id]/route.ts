@@ -0,0 +1,81 @@
+import { pieces } from '@madebuy/db'
+import { safeValidateUpdatePiece, sanitizeInput } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { readJsonBody, withApiKey, withoutMongoId } from '@/lib/api-auth'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/v1/pieces/[id]
+ */
+export const GET = withApiKey<RouteContext>(
+  'pieces:read',
+  async (_request, { tenant }, { params }) => {
+    const { id } = await params
+    const piece = await pieces.getPiece(tenant.id, id)
+    if (!piece) {
+      return NextResponse.json(
+        { error: 'Piece not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ piece: withoutMongoId(piece) })
+  },
+)
+
+/**
+ * PATCH /api/v1/pieces/[id]
+ * Accepts the same fields as the admin piece editor
+ */
+export const PATCH = withApiKey<RouteContext>(
+  'pieces:write',
+  async (request, { tenant }, { params }) => {
+    const { id } = await params
+    const existing = await pieces.getPiece(tenant.id, id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Piece not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    const validation = safeValidateUpdatePiece(await readJsonBody(request))
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const updates = validation.data
+    const cleanedUpdates = Object.fromEntries(
+      Object.entries({
+        ...updates,
+        name: updates.name ? sanitizeInput(updates.name) : undefined,
+        description: updates.description
+          ? sanitizeInput(updates.description)
+          : undefined,
+        category: updates.category
+          ? sanitizeInput(updates.category)
+          : undefined,
+      }).filter(([_, v]) => v !== undefined),
+    )
+
+    if (Object.keys(cleanedUpdates).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update', code: 'VALIDATION_ERROR' },
+        { status: 400 },
+      )
+    }
+
+    await pieces.updatePiece(tenant.id, id, cleanedUpdates)
+    const piece = await pieces.getPiece(tenant.id, id)
+
+    return NextResponse.json({ piece: piece && withoutMongoId(piece) })
+  },
+)
@@ -0,0 +1,25 @@
+import { pieces, variants } from '@madebuy/db'
+import { NextResponse } from 'next/server'
+import { withApiKey } from '@/lib/api-auth'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/v1/pieces/[id]/variants
+ */
+export const GET = withApiKey<RouteContext>(
+  'pieces:read',
+  async (_request, { tenant }, { params }) => {
+    const { id } = await params
+    const piece = await pieces.getPiece(tenant.id, id)
+    if (!piece) {
+      return NextResponse.json(
+        { error: 'Piece not found', code: 'NOT_FOUND' },
+        { status: 404 },
+      )
+    }
+
+    const data = await variants.getVariants(tenant.id, id)
+    return NextResponse.json({ data })
+  },
+)
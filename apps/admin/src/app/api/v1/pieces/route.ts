@@ -0,0 +1,24 @@
+import { pieces } from '@madebuy/db'
+import type { PaginatedResult, Piece, PieceStatus } from '@madebuy/shared'
+import { NextResponse } from 'next/server'
+import { getPaginationParams, withApiKey, withoutMongoId } from '@/lib/api-auth'
+
+/**
+ * GET /api/v1/pieces
+ * List pieces, newest first. Supports ?status=, ?limit= and ?cursor=
+ */
+export const GET = withApiKey('pieces:read', async (request, { tenant }) => {
+  const status = request.nextUrl.searchParams.get('status') || undefined
+
+  const result = (await pieces.listPieces(
+    tenant.id,
+    { status: status as PieceStatus | undefined },
+    getPaginationParams(request),
+  )) as PaginatedResult<Piece>
+
+  return NextResponse.json({
+    data: result.data.map(withoutMongoId),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  })
+})
@@ -0,0 +1,94 @@
+import { webhooks } from '@madebuy/db'
+import { sanitizeInput, UpdateWebhookEndpointSchema } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Change an endpoint's URL, events, or pause/resume it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('settings')
+    const { id } = await params
+
+    const validation = UpdateWebhookEndpointSchema.safeParse(
+      await request.json(),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid webhook endpoint',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const { description, ...updates } = validation.data
+    const endpoint = await webhooks.updateEndpoint(tenant.id, id, {
+      ...updates,
+      ...(description !== undefined && {
+        description: sanitizeInput(description),
+      }),
+    })
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({
+      endpoint: webhooks.toPublicWebhookEndpoint(endpoint),
+    })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error updating webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('settings')
+    const { id } = await params
+
+    const deleted = await webhooks.deleteEndpoint(tenant.id, id)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error deleting webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
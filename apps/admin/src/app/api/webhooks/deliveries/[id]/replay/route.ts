@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+import { replayWebhookDelivery } from '@/lib/webhooks'
+
+/**
+ * POST /api/webhooks/deliveries/[id]/replay
+ * Re-send a delivery's payload and log the attempt as a new delivery
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { tenant } = await requirePermission('settings')
+    const { id } = await params
+
+    const delivery = await replayWebhookDelivery(tenant.id, id)
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Delivery or its endpoint no longer exists' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ delivery })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error replaying webhook delivery:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
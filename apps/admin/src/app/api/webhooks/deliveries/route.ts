@@ -0,0 +1,43 @@
+import { webhooks } from '@madebuy/db'
+import type { WebhookDeliveryStatus } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'succeeded',
+  'failed',
+]
+
+/**
+ * GET /api/webhooks/deliveries
+ * Recent deliveries, newest first. Supports ?endpointId= and ?status=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { tenant } = await requirePermission('settings')
+    const { searchParams } = new URL(request.url)
+
+    const status = searchParams.get('status') as WebhookDeliveryStatus | null
+    const deliveries = await webhooks.listDeliveries(tenant.id, {
+      endpointId: searchParams.get('endpointId') || undefined,
+      status: status && DELIVERY_STATUSES.includes(status) ? status : undefined,
+      limit: 100,
+    })
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error fetching webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
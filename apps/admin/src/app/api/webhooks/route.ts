@@ -0,0 +1,91 @@
+import { webhooks } from '@madebuy/db'
+import { CreateWebhookEndpointSchema, sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  handleFeatureGateError,
+  isFeatureGateError,
+  requirePermission,
+} from '@/lib/feature-gate'
+
+// Endpoints per shop
+const MAX_ENDPOINTS = 10
+
+/**
+ * GET /api/webhooks
+ * List webhook endpoints (signing secrets are only returned on creation)
+ */
+export async function GET() {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    const endpoints = await webhooks.listEndpoints(tenant.id)
+
+    return NextResponse.json({
+      endpoints: endpoints.map(webhooks.toPublicWebhookEndpoint),
+    })
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error fetching webhook endpoints:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register an endpoint. The signing secret is in this response only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { tenant } = await requirePermission('settings')
+
+    const validation = CreateWebhookEndpointSchema.safeParse(
+      await request.json(),
+    )
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid webhook endpoint',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const existing = await webhooks.listEndpoints(tenant.id)
+    if (existing.length >= MAX_ENDPOINTS) {
+      return NextResponse.json(
+        { error: `You can register up to ${MAX_ENDPOINTS} endpoints` },
+        { status: 400 },
+      )
+    }
+
+    const { url, description, events } = validation.data
+    const endpoint = await webhooks.createEndpoint(tenant.id, {
+      url,
+      description: description ? sanitizeInput(description) : undefined,
+      events,
+    })
+
+    return NextResponse.json(
+      {
+        endpoint: webhooks.toPublicWebhookEndpoint(endpoint),
+        secret: endpoint.secret,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (isFeatureGateError(error)) {
+      return handleFeatureGateError(error)
+    }
+    console.error('Error creating webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
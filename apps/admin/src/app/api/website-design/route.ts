@@ -1,6 +1,6 @@
 import { tenants } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/session'
+import { getCurrentTenant } from '@/lib/session'
 import {
   canUseBlog,
   validateWebsiteDesignUpdate,
@@ -8,15 +8,10 @@ import {
 
 export async function GET() {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const tenant = await tenants.getTenantById(user.id)
     if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     return NextResponse.json({
@@ -35,9 +30,9 @@ export async function GET() {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const user = await getCurrentUser()
+    const tenant = await getCurrentTenant()
 
-    if (!user) {
+    if (!tenant) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
@@ -65,12 +60,6 @@ export async function PATCH(request: NextRequest) {
     const resolvedHeader = header ?? headerConfig
     const resolvedFooter = footer ?? footerConfig
 
-    // Get current tenant to merge websiteDesign
-    const tenant = await tenants.getTenantById(user.id)
-    if (!tenant) {
-      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
-    }
-
     // Template selection is available to ALL plans (basic page structure)
     // Only advanced layout customization (custom sections, etc.) is gated
 
@@ -177,7 +166,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Update tenant
-    await tenants.updateTenant(user.id, updateData)
+    await tenants.updateTenant(tenant.id, updateData)
 
     return NextResponse.json({ success: true })
   } catch (error) {
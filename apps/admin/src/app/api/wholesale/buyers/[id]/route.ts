@@ -0,0 +1,116 @@
+import { wholesale } from '@madebuy/db'
+import type { UpdateWholesaleBuyerInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'wholesale' })
+
+function handleWholesaleError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function optionalText(value?: string) {
+  return value !== undefined ? sanitizeInput(value) : undefined
+}
+
+function toBuyerInput(
+  data: UpdateWholesaleBuyerInput,
+): UpdateWholesaleBuyerInput {
+  return {
+    businessName: optionalText(data.businessName),
+    contactName: optionalText(data.contactName),
+    email: optionalText(data.email),
+    phone: optionalText(data.phone),
+    abn: optionalText(data.abn),
+    billingAddress: data.billingAddress
+      ? {
+          line1: sanitizeInput(data.billingAddress.line1 || ''),
+          line2: optionalText(data.billingAddress.line2),
+          city: sanitizeInput(data.billingAddress.city || ''),
+          state: sanitizeInput(data.billingAddress.state || ''),
+          postcode: sanitizeInput(data.billingAddress.postcode || ''),
+          country: sanitizeInput(data.billingAddress.country || 'AU'),
+        }
+      : undefined,
+    paymentTermsDays:
+      data.paymentTermsDays !== undefined
+        ? Number(data.paymentTermsDays)
+        : undefined,
+    discountPercent:
+      data.discountPercent !== undefined
+        ? Number(data.discountPercent)
+        : undefined,
+    prices: data.prices?.map((entry) => ({
+      pieceId: entry.pieceId,
+      price: Number(entry.price),
+    })),
+    notes: optionalText(data.notes),
+  }
+}
+
+/**
+ * PATCH /api/wholesale/buyers/[id]
+ * Update a buyer's details, terms or price list
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: UpdateWholesaleBuyerInput = await request.json()
+    const buyer = await wholesale.updateBuyer(
+      tenant.id,
+      params.id,
+      toBuyerInput(data),
+    )
+
+    return NextResponse.json({ buyer })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error updating buyer')
+  }
+}
+
+/**
+ * DELETE /api/wholesale/buyers/[id]
+ * Remove a buyer once their invoices are paid
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    await wholesale.deleteBuyer(tenant.id, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error deleting buyer')
+  }
+}
@@ -0,0 +1,114 @@
+import { wholesale } from '@madebuy/db'
+import type {
+  CreateWholesaleBuyerInput,
+  UpdateWholesaleBuyerInput,
+} from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'wholesale' })
+
+function handleWholesaleError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function optionalText(value?: string) {
+  return value !== undefined ? sanitizeInput(value) : undefined
+}
+
+function toBuyerInput(
+  data: UpdateWholesaleBuyerInput,
+): UpdateWholesaleBuyerInput {
+  return {
+    businessName: optionalText(data.businessName),
+    contactName: optionalText(data.contactName),
+    email: optionalText(data.email),
+    phone: optionalText(data.phone),
+    abn: optionalText(data.abn),
+    billingAddress: data.billingAddress
+      ? {
+          line1: sanitizeInput(data.billingAddress.line1 || ''),
+          line2: optionalText(data.billingAddress.line2),
+          city: sanitizeInput(data.billingAddress.city || ''),
+          state: sanitizeInput(data.billingAddress.state || ''),
+          postcode: sanitizeInput(data.billingAddress.postcode || ''),
+          country: sanitizeInput(data.billingAddress.country || 'AU'),
+        }
+      : undefined,
+    paymentTermsDays:
+      data.paymentTermsDays !== undefined
+        ? Number(data.paymentTermsDays)
+        : undefined,
+    discountPercent:
+      data.discountPercent !== undefined
+        ? Number(data.discountPercent)
+        : undefined,
+    prices: data.prices?.map((entry) => ({
+      pieceId: entry.pieceId,
+      price: Number(entry.price),
+    })),
+    notes: optionalText(data.notes),
+  }
+}
+
+/**
+ * GET /api/wholesale/buyers
+ * List wholesale buyers with their price lists
+ */
+export async function GET() {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const buyers = await wholesale.listBuyers(tenant.id)
+    return NextResponse.json({ buyers })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error fetching buyers')
+  }
+}
+
+/**
+ * POST /api/wholesale/buyers
+ * Add a wholesale buyer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateWholesaleBuyerInput = await request.json()
+    const input = toBuyerInput(data)
+    const buyer = await wholesale.createBuyer(tenant.id, {
+      ...input,
+      businessName: input.businessName || '',
+      email: input.email || '',
+    })
+
+    return NextResponse.json({ buyer }, { status: 201 })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error creating buyer')
+  }
+}
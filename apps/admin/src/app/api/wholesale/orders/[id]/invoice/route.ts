@@ -0,0 +1,54 @@
+import { orders, tenants } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+import { generateWholesaleInvoicePDF } from '@/lib/wholesale-invoice-pdf'
+
+/**
+ * GET /api/wholesale/orders/[id]/invoice
+ * Download the invoice PDF for a wholesale order
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const order = await orders.getOrder(tenant.id, params.id)
+    if (!order?.wholesale) {
+      return NextResponse.json(
+        { error: 'Wholesale order not found' },
+        { status: 404 },
+      )
+    }
+
+    // Fetch full tenant data for branding
+    const fullTenant = await tenants.getTenantById(tenant.id)
+    if (!fullTenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const pdfBuffer = Buffer.from(
+      await generateWholesaleInvoicePDF(fullTenant, order),
+    )
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="invoice-${order.orderNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length.toString(),
+      },
+    })
+  } catch (error) {
+    console.error('Error generating wholesale invoice PDF:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate invoice' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { wholesale } from '@madebuy/db'
+import {
+  createLogger,
+  isMadeBuyError,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'wholesale' })
+
+function handleWholesaleError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+/**
+ * POST /api/wholesale/orders/[id]/paid
+ * Record the buyer's payment against the invoice and in the ledger
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const order = await wholesale.markOrderPaid(tenant.id, params.id, {
+      gstRate: tenant.taxSettings?.gstRegistered
+        ? (tenant.taxSettings.gstRate ?? 10)
+        : undefined,
+    })
+    return NextResponse.json({ order })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error marking order paid')
+  }
+}
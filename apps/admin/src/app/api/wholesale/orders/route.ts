@@ -0,0 +1,93 @@
+import { wholesale } from '@madebuy/db'
+import type { Address, CreateWholesaleOrderInput } from '@madebuy/shared'
+import {
+  createLogger,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+  UnauthorizedError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+const log = createLogger({ module: 'wholesale' })
+
+function handleWholesaleError(error: unknown, message: string) {
+  if (isMadeBuyError(error)) {
+    const { error: msg, code, statusCode, details } = toErrorResponse(error)
+    return NextResponse.json(
+      { error: msg, code, details },
+      { status: statusCode },
+    )
+  }
+
+  log.error({ err: error }, message)
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+    { status: 500 },
+  )
+}
+
+function sanitizeAddress(address: Address): Address {
+  return {
+    line1: sanitizeInput(address.line1 || ''),
+    line2: address.line2 ? sanitizeInput(address.line2) : undefined,
+    city: sanitizeInput(address.city || ''),
+    state: sanitizeInput(address.state || ''),
+    postcode: sanitizeInput(address.postcode || ''),
+    country: sanitizeInput(address.country || 'AU'),
+  }
+}
+
+/**
+ * GET /api/wholesale/orders
+ * Wholesale orders, newest first - filter with ?buyerId= and ?unpaid=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const list = await wholesale.listWholesaleOrders(tenant.id, {
+      buyerId: searchParams.get('buyerId') || undefined,
+      unpaid: searchParams.get('unpaid') === 'true',
+    })
+    return NextResponse.json({ orders: list })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error fetching orders')
+  }
+}
+
+/**
+ * POST /api/wholesale/orders
+ * Create an order at the buyer's trade prices, invoiced on their terms
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getCurrentTenant()
+    if (!tenant) {
+      throw new UnauthorizedError()
+    }
+
+    const data: CreateWholesaleOrderInput = await request.json()
+    const order = await wholesale.createWholesaleOrder(tenant.id, {
+      buyerId: data.buyerId,
+      items: (data.items || []).map((item) => ({
+        pieceId: item.pieceId,
+        quantity: Number(item.quantity),
+      })),
+      shippingAddress: data.shippingAddress
+        ? sanitizeAddress(data.shippingAddress)
+        : undefined,
+      shipping: data.shipping !== undefined ? Number(data.shipping) : undefined,
+      notes: data.notes ? sanitizeInput(data.notes) : undefined,
+    })
+
+    return NextResponse.json({ order }, { status: 201 })
+  } catch (error) {
+    return handleWholesaleError(error, 'Unexpected error creating order')
+  }
+}
@@ -0,0 +1,75 @@
+import { workshops } from '@madebuy/db'
+import type { UpdateBookingInput, WorkshopBooking } from '@madebuy/shared'
+import { sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
+
+type RouteContext = {
+  params: Promise<{ id: string; bookingId: string }>
+}
+
+const BOOKING_STATUSES: WorkshopBooking['status'][] = [
+  'pending',
+  'confirmed',
+  'attended',
+  'no_show',
+  'cancelled',
+  'refunded',
+]
+
+/**
+ * PATCH /api/workshops/[id]/bookings/[bookingId]
+ * Update a booking's status or notes (e.g. confirm a booking paid offline)
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: workshopId, bookingId } = await context.params
+    const body = await request.json()
+
+    const existing = await workshops.getBookingById(tenant.id, bookingId)
+    if (!existing || existing.workshopId !== workshopId) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (body.status && !BOOKING_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        {
+          error: `Invalid status. Must be one of: ${BOOKING_STATUSES.join(', ')}`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const updates: UpdateBookingInput = {}
+    if (body.status) updates.status = body.status
+    if (typeof body.adminNotes === 'string') {
+      updates.adminNotes = sanitizeInput(body.adminNotes)
+    }
+
+    if (updates.status === 'cancelled' && existing.status !== 'cancelled') {
+      // Releases the seats and offers them to the waitlist
+      await workshops.cancelBooking(tenant.id, bookingId)
+    }
+
+    const booking = await workshops.updateBooking(tenant.id, bookingId, updates)
+
+    if (booking?.status === 'confirmed' && existing.status !== 'confirmed') {
+      dispatchWebhookEvent(tenant.id, 'booking.confirmed', { booking })
+    }
+
+    return NextResponse.json({ booking })
+  } catch (error) {
+    console.error('Error updating booking:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { workshops } from '@madebuy/db'
+import { safeValidateUpdateSlotSeries } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+type RouteContext = {
+  params: Promise<{ id: string; seriesId: string }>
+}
+
+/**
+ * PUT /api/workshops/[id]/slots/series/[seriesId]
+ * Edit the series and apply it to all of its future slots
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: workshopId, seriesId } = await context.params
+    const validation = safeValidateUpdateSlotSeries(await request.json())
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const result = await workshops.updateSlotSeries(
+      tenant.id,
+      workshopId,
+      seriesId,
+      validation.data,
+    )
+
+    if (!result) {
+      return NextResponse.json({ error: 'Series not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error updating slot series:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * DELETE /api/workshops/[id]/slots/series/[seriesId]
+ * Remove the series and its future unbooked slots
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: workshopId, seriesId } = await context.params
+    const deleted = await workshops.deleteSlotSeries(
+      tenant.id,
+      workshopId,
+      seriesId,
+    )
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Series not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting slot series:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
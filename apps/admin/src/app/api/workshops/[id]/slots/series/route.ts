@@ -0,0 +1,61 @@
+import { workshops } from '@madebuy/db'
+import { safeValidateCreateSlotSeries } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/workshops/[id]/slots/series
+ * Create a recurring series (e.g. every Saturday 10am for 12 weeks) and
+ * generate its slots in the tenant's timezone
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: workshopId } = await context.params
+    const validation = safeValidateCreateSlotSeries(await request.json())
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const workshop = await workshops.getWorkshopById(tenant.id, workshopId)
+    if (!workshop) {
+      return NextResponse.json({ error: 'Workshop not found' }, { status: 404 })
+    }
+
+    const regional = tenant.regionalSettings
+    const result = await workshops.createSlotSeries(
+      tenant.id,
+      workshopId,
+      validation.data,
+      {
+        timezone:
+          regional?.customTimezone || regional?.timezone || 'Australia/Sydney',
+        countryCode: regional?.countryCode || 'AU',
+      },
+    )
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error creating slot series:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { workshops } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+type RouteContext = {
+  params: Promise<{ id: string; entryId: string }>
+}
+
+/**
+ * DELETE /api/workshops/[id]/waitlist/[entryId]
+ * Remove a waiting customer from the queue
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { entryId } = await context.params
+    const removed = await workshops.removeFromWaitlist(tenant.id, entryId)
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Waitlist entry not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing waitlist entry:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
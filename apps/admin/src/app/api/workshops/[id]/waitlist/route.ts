@@ -0,0 +1,34 @@
+import { workshops } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getCurrentTenant } from '@/lib/session'
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/workshops/[id]/waitlist
+ * Waiting and promoted entries in queue order, optionally for one slot
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const tenant = await getCurrentTenant()
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: workshopId } = await context.params
+    const slotId = new URL(request.url).searchParams.get('slotId') || undefined
+
+    const entries = await workshops.listWaitlist(tenant.id, workshopId, slotId)
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error('Error fetching waitlist:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,332 @@
+'use client'
+
+import type { ConsigneeSummary, CreateConsigneeInput } from '@madebuy/shared'
+import { Handshake, Pencil, Plus, Trash2, Wallet } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency } from '@/lib/utils'
+
+interface ConsigneeManagerProps {
+  consignees: ConsigneeSummary[]
+}
+
+type ConsigneeForm = {
+  name: string
+  contactName: string
+  email: string
+  phone: string
+  address: string
+  commissionRate: string
+}
+
+const EMPTY_FORM: ConsigneeForm = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  address: '',
+  commissionRate: '35',
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+export function ConsigneeManager({ consignees }: ConsigneeManagerProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<ConsigneeForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function startEdit({ consignee }: ConsigneeSummary) {
+    setEditingId(consignee.id)
+    setError(null)
+    setForm({
+      name: consignee.name,
+      contactName: consignee.contactName || '',
+      email: consignee.email || '',
+      phone: consignee.phone || '',
+      address: consignee.address || '',
+      commissionRate: String(consignee.commissionRate),
+    })
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      throw new Error(errorMessage(data, 'Something went wrong'))
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const body: CreateConsigneeInput = {
+      name: form.name,
+      contactName: form.contactName,
+      email: form.email,
+      phone: form.phone,
+      address: form.address,
+      commissionRate: parseFloat(form.commissionRate),
+    }
+
+    try {
+      if (editingId === 'new') {
+        await send('/api/consignments', 'POST', body)
+      } else {
+        await send(`/api/consignments/${editingId}`, 'PATCH', body)
+      }
+      setEditingId(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save consignee')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSettle(summary: ConsigneeSummary) {
+    const reference = prompt(
+      `Record ${formatCurrency(summary.unsettledNet / 100)} received from ${summary.consignee.name}? Add a payment reference if you have one.`,
+      '',
+    )
+    if (reference === null) return
+    try {
+      await send(`/api/consignments/${summary.consignee.id}/settle`, 'POST', {
+        reference,
+      })
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record payment')
+    }
+  }
+
+  async function handleDelete({ consignee }: ConsigneeSummary) {
+    if (!confirm(`Delete ${consignee.name}?`)) return
+    try {
+      await send(`/api/consignments/${consignee.id}`, 'DELETE')
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete consignee')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {consignees.length === 0 && editingId === null && (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <Handshake className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No consignees yet
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            Add the galleries and shops that sell your work on commission.
+          </p>
+        </div>
+      )}
+
+      {consignees.length > 0 && (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Consignee
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Commission
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Pieces held
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Owed to you
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {consignees.map((summary) => (
+                <tr key={summary.consignee.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {summary.consignee.name}
+                    </div>
+                    {summary.consignee.contactName && (
+                      <div className="text-xs text-gray-500">
+                        {summary.consignee.contactName}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {summary.consignee.commissionRate}%
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {summary.piecesHeld}
+                  </td>
+                  <td className="px-4 py-3">
+                    {summary.unsettledSales > 0 ? (
+                      <span className="font-medium text-gray-900">
+                        {formatCurrency(summary.unsettledNet / 100)}
+                        <span className="ml-1 text-xs font-normal text-gray-500">
+                          from {summary.unsettledSales}{' '}
+                          {summary.unsettledSales === 1 ? 'sale' : 'sales'}
+                        </span>
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">-</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {summary.unsettledSales > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => handleSettle(summary)}
+                        title="Record payment"
+                        className="rounded p-1 text-green-700 hover:bg-green-50"
+                      >
+                        <Wallet className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => startEdit(summary)}
+                      className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(summary)}
+                      className="rounded p-1 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setError(null)
+            setEditingId('new')
+          }}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Consignee
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg bg-white p-6 shadow"
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Gallery or shop name *
+              <input
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Commission (%) *
+              <input
+                required
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={form.commissionRate}
+                onChange={(e) =>
+                  setForm({ ...form, commissionRate: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Contact name
+              <input
+                value={form.contactName}
+                onChange={(e) =>
+                  setForm({ ...form, contactName: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Email
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Phone
+              <input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Address
+              <input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+          </div>
+
+          {editingId !== 'new' && (
+            <p className="text-xs text-gray-500">
+              A new commission rate applies to pieces placed from now on.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,428 @@
+'use client'
+
+import type {
+  Consignee,
+  ConsignmentPlacement,
+  ConsignmentPlacementItem,
+  InventoryLocation,
+} from '@madebuy/shared'
+import { PackagePlus, Plus, Trash2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency } from '@/lib/utils'
+
+interface PlacementManagerProps {
+  consignees: Consignee[]
+  placements: ConsignmentPlacement[] // Active placements
+  locations: InventoryLocation[] // Locations stock can come from or return to
+  pieces: Array<{ id: string; name: string; price?: number }> // Price in cents
+}
+
+type PlacementLine = { pieceId: string; quantity: string; price: string }
+
+type ItemAction = {
+  placementId: string
+  pieceId: string
+  kind: 'sale' | 'return'
+  quantity: string
+  price: string
+  locationId: string
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+function quantityHeld(item: ConsignmentPlacementItem): number {
+  return item.quantityPlaced - item.quantitySold - item.quantityReturned
+}
+
+const toCents = (value: string) => Math.round(parseFloat(value) * 100)
+
+export function PlacementManager({
+  consignees,
+  placements,
+  locations,
+  pieces,
+}: PlacementManagerProps) {
+  const router = useRouter()
+  const [placing, setPlacing] = useState(false)
+  const [consigneeId, setConsigneeId] = useState(consignees[0]?.id ?? '')
+  const [fromLocationId, setFromLocationId] = useState(locations[0]?.id ?? '')
+  const [lines, setLines] = useState<PlacementLine[]>([
+    { pieceId: '', quantity: '1', price: '' },
+  ])
+  const [action, setAction] = useState<ItemAction | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function send(url: string, body: unknown) {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Something went wrong'))
+      }
+      router.refresh()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function updateLine(index: number, changes: Partial<PlacementLine>) {
+    setLines(lines.map((l, i) => (i === index ? { ...l, ...changes } : l)))
+  }
+
+  async function handlePlace(e: React.FormEvent) {
+    e.preventDefault()
+    const placed = await send('/api/consignments/placements', {
+      consigneeId,
+      fromLocationId,
+      items: lines
+        .filter((line) => line.pieceId)
+        .map((line) => ({
+          pieceId: line.pieceId,
+          quantity: parseInt(line.quantity, 10),
+          retailPrice: line.price ? toCents(line.price) : undefined,
+        })),
+    })
+    if (placed) {
+      setPlacing(false)
+      setLines([{ pieceId: '', quantity: '1', price: '' }])
+    }
+  }
+
+  function startAction(
+    placement: ConsignmentPlacement,
+    item: ConsignmentPlacementItem,
+    kind: ItemAction['kind'],
+  ) {
+    setError(null)
+    setAction({
+      placementId: placement.id,
+      pieceId: item.pieceId,
+      kind,
+      quantity: '1',
+      price: (item.retailPrice / 100).toFixed(2),
+      locationId: locations[0]?.id ?? '',
+    })
+  }
+
+  async function handleAction(e: React.FormEvent) {
+    e.preventDefault()
+    if (!action) return
+    const quantity = parseInt(action.quantity, 10)
+    const done =
+      action.kind === 'sale'
+        ? await send('/api/consignments/sales', {
+            placementId: action.placementId,
+            pieceId: action.pieceId,
+            quantity,
+            salePrice: toCents(action.price),
+          })
+        : await send('/api/consignments/returns', {
+            placementId: action.placementId,
+            toLocationId: action.locationId,
+            items: [{ pieceId: action.pieceId, quantity }],
+          })
+    if (done) setAction(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      {placements.length === 0 && !placing && (
+        <p className="text-sm text-gray-600">No pieces out on consignment.</p>
+      )}
+
+      {placements.map((placement) => (
+        <div key={placement.id} className="rounded-lg bg-white p-4 shadow">
+          <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+            <h3 className="font-medium text-gray-900">
+              {placement.consigneeName}
+            </h3>
+            <span className="text-xs text-gray-500">
+              Placed {new Date(placement.placedAt).toLocaleDateString()} at{' '}
+              {placement.commissionRate}% commission
+            </span>
+          </div>
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {placement.items.map((item) => {
+                const held = quantityHeld(item)
+                const isActive =
+                  action?.placementId === placement.id &&
+                  action.pieceId === item.pieceId
+                return (
+                  <tr key={item.pieceId}>
+                    <td className="py-2 pr-4 text-gray-900">{item.name}</td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {formatCurrency(
+                        item.retailPrice / 100,
+                        placement.currency,
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {held} held, {item.quantitySold} sold
+                      {item.quantityReturned > 0 &&
+                        `, ${item.quantityReturned} returned`}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {held > 0 && !isActive && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => startAction(placement, item, 'sale')}
+                            className="mr-3 text-sm font-medium text-blue-600 hover:underline"
+                          >
+                            Sold
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              startAction(placement, item, 'return')
+                            }
+                            className="text-sm font-medium text-gray-600 hover:underline"
+                          >
+                            Returned
+                          </button>
+                        </>
+                      )}
+                      {isActive && action && (
+                        <form
+                          onSubmit={handleAction}
+                          className="inline-flex flex-wrap items-center justify-end gap-2"
+                        >
+                          <input
+                            type="number"
+                            min="1"
+                            max={held}
+                            required
+                            value={action.quantity}
+                            onChange={(e) =>
+                              setAction({ ...action, quantity: e.target.value })
+                            }
+                            className="w-16 rounded border border-gray-300 px-2 py-1"
+                          />
+                          {action.kind === 'sale' ? (
+                            <label className="text-gray-600">
+                              at
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                required
+                                value={action.price}
+                                onChange={(e) =>
+                                  setAction({
+                                    ...action,
+                                    price: e.target.value,
+                                  })
+                                }
+                                className="ml-1 w-24 rounded border border-gray-300 px-2 py-1"
+                              />
+                            </label>
+                          ) : (
+                            <select
+                              value={action.locationId}
+                              onChange={(e) =>
+                                setAction({
+                                  ...action,
+                                  locationId: e.target.value,
+                                })
+                              }
+                              className="rounded border border-gray-300 px-2 py-1"
+                            >
+                              {locations.map((location) => (
+                                <option key={location.id} value={location.id}>
+                                  to {location.name}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            type="submit"
+                            disabled={saving}
+                            className="rounded bg-blue-600 px-2 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setAction(null)}
+                            className="text-gray-500 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {consignees.length > 0 &&
+        (placing ? (
+          <form
+            onSubmit={handlePlace}
+            className="space-y-4 rounded-lg bg-white p-6 shadow"
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Consignee
+                <select
+                  value={consigneeId}
+                  onChange={(e) => setConsigneeId(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+                >
+                  {consignees.map((consignee) => (
+                    <option key={consignee.id} value={consignee.id}>
+                      {consignee.name} ({consignee.commissionRate}%)
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Take stock from
+                <select
+                  value={fromLocationId}
+                  onChange={(e) => setFromLocationId(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+                >
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {lines.map((line, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-2 text-sm"
+                >
+                  <select
+                    value={line.pieceId}
+                    onChange={(e) => {
+                      const piece = pieces.find((p) => p.id === e.target.value)
+                      updateLine(index, {
+                        pieceId: e.target.value,
+                        price:
+                          piece?.price !== undefined
+                            ? (piece.price / 100).toFixed(2)
+                            : '',
+                      })
+                    }}
+                    className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                  >
+                    <option value="">Choose a piece</option>
+                    {pieces.map((piece) => (
+                      <option key={piece.id} value={piece.id}>
+                        {piece.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    value={line.quantity}
+                    onChange={(e) =>
+                      updateLine(index, { quantity: e.target.value })
+                    }
+                    className="w-20 rounded-lg border border-gray-300 px-3 py-2"
+                    aria-label="Quantity"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Retail price"
+                    value={line.price}
+                    onChange={(e) =>
+                      updateLine(index, { price: e.target.value })
+                    }
+                    className="w-28 rounded-lg border border-gray-300 px-3 py-2"
+                    aria-label="Retail price"
+                  />
+                  {lines.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setLines(lines.filter((_, i) => i !== index))
+                      }
+                      className="rounded p-1 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setLines([
+                    ...lines,
+                    { pieceId: '', quantity: '1', price: '' },
+                  ])
+                }
+                className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+              >
+                <Plus className="h-4 w-4" />
+                Add piece
+              </button>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Placing...' : 'Place pieces'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setPlacing(false)}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => {
+              setError(null)
+              setPlacing(true)
+            }}
+            className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            <PackagePlus className="h-4 w-4" />
+            Place Pieces
+          </button>
+        ))}
+    </div>
+  )
+}
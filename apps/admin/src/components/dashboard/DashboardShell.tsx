@@ -1,5 +1,6 @@
 'use client'
 
+import type { TeamRole } from '@madebuy/shared'
 import { useState } from 'react'
 import { ShortcutsHelp } from '@/components/ui/ShortcutsHelp'
 import { ShortcutsHint } from '@/components/ui/ShortcutsHint'
@@ -25,6 +26,7 @@ interface DashboardShellProps {
     plan?: string
   } | null
   marketplaceConnections?: MarketplaceConnections
+  role?: TeamRole
 }
 
 export function DashboardShell({
@@ -32,6 +34,7 @@ export function DashboardShell({
   user,
   tenant,
   marketplaceConnections,
+  role,
 }: DashboardShellProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false)
 
@@ -49,6 +52,7 @@ export function DashboardShell({
           isOpen={sidebarOpen}
           onClose={() => setSidebarOpen(false)}
           marketplaceConnections={marketplaceConnections}
+          role={role}
         />
         <div className="flex flex-1 flex-col overflow-hidden">
           <Header
@@ -1,14 +1,21 @@
 'use client'
 
+import type { TeamRole } from '@madebuy/shared'
+import { canRoleAccessPath } from '@madebuy/shared'
 import {
+  Banknote,
   BarChart3,
   Bell,
+  BookOpen,
   ChevronDown,
   ChevronRight,
   CreditCard,
   Gift,
+  Handshake,
+  Hammer,
   HelpCircle,
   Image,
+  KeyRound,
   Layers,
   LayoutDashboard,
   MapPin,
@@ -17,16 +24,21 @@ import {
   Percent,
   Plug,
   Receipt,
+  RotateCcw,
   Rocket,
   Settings,
   Share2,
   ShoppingCart,
   Sparkles,
   Star,
+  Store,
   Tag,
   Truck,
   Upload,
+  UserCog,
   Users,
+  Wallet,
+  Webhook,
   X,
 } from 'lucide-react'
 import Link from 'next/link'
@@ -48,6 +60,7 @@ interface SidebarProps {
   isOpen?: boolean
   onClose?: () => void
   marketplaceConnections?: MarketplaceConnections
+  role?: TeamRole
 }
 
 const planLabels: Record<string, string> = {
@@ -90,6 +103,12 @@ const settingsSubItems = [
     icon: Percent,
     description: 'Tax settings',
   },
+  {
+    name: 'Accounting',
+    href: '/dashboard/settings/accounting',
+    icon: BookOpen,
+    description: 'Xero & MYOB accounts',
+  },
   {
     name: 'Notifications',
     href: '/dashboard/settings/notifications',
@@ -108,6 +127,24 @@ const settingsSubItems = [
     icon: Upload,
     description: 'Bulk CSV import',
   },
+  {
+    name: 'Team',
+    href: '/dashboard/settings/team',
+    icon: UserCog,
+    description: 'Staff & roles',
+  },
+  {
+    name: 'API Keys',
+    href: '/dashboard/settings/api',
+    icon: KeyRound,
+    description: 'REST API access',
+  },
+  {
+    name: 'Webhooks',
+    href: '/dashboard/settings/webhooks',
+    icon: Webhook,
+    description: 'Event notifications',
+  },
 ]
 
 const navigationGroups = [
@@ -133,9 +170,15 @@ const navigationGroups = [
     label: 'Sales',
     items: [
       { name: 'Orders', href: '/dashboard/orders', icon: ShoppingCart },
+      { name: 'Returns', href: '/dashboard/returns', icon: RotateCcw },
+      { name: 'Production', href: '/dashboard/production', icon: Hammer },
       { name: 'Point of Sale', href: '/dashboard/pos', icon: CreditCard },
+      { name: 'Consignment', href: '/dashboard/consignments', icon: Handshake },
+      { name: 'Wholesale', href: '/dashboard/wholesale', icon: Store },
       { name: 'Customers', href: '/dashboard/customers', icon: Users },
       { name: 'Reports', href: '/dashboard/reports', icon: Receipt },
+      { name: 'Expenses', href: '/dashboard/expenses', icon: Wallet },
+      { name: 'Payouts', href: '/dashboard/payouts', icon: Banknote },
       { name: 'Reviews', href: '/dashboard/reviews', icon: Star },
     ],
   },
@@ -149,6 +192,7 @@ const navigationGroups = [
       },
       { name: 'Content', href: '/dashboard/content', icon: Share2 },
       { name: 'Discounts', href: '/dashboard/discounts', icon: Tag },
+      { name: 'Gift Cards', href: '/dashboard/gift-cards', icon: CreditCard },
     ],
   },
 ]
@@ -158,9 +202,24 @@ export const Sidebar = memo(function Sidebar({
   isOpen,
   onClose,
   marketplaceConnections,
+  role = 'owner',
 }: SidebarProps) {
   const pathname = usePathname()
 
+  // Staff only see the areas their role grants
+  const canView = (href: string) => canRoleAccessPath(role, href)
+  const visibleGroups = navigationGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => canView(item.href)),
+    }))
+    .filter((group) => group.items.length > 0)
+  const visibleSettingsItems = settingsSubItems.filter((item) =>
+    canView(item.href),
+  )
+  const canViewSettings = visibleSettingsItems.length > 0
+  const canViewMarketplaces = canView('/dashboard/marketplace')
+
   // Settings expansion state - auto-expand if on a settings page
   const isOnSettingsPage = pathname?.startsWith('/dashboard/settings')
   const [settingsExpanded, setSettingsExpanded] = useState(
@@ -204,7 +263,7 @@ export const Sidebar = memo(function Sidebar({
 
       {/* Navigation */}
       <nav className="flex-1 overflow-y-auto px-4 py-6">
-        {navigationGroups.map((group, groupIndex) => (
+        {visibleGroups.map((group, groupIndex) => (
           <div key={group.label} className={cn(groupIndex > 0 && 'mt-6')}>
             <h3 className="mb-2 px-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
               {group.label}
@@ -248,184 +307,190 @@ export const Sidebar = memo(function Sidebar({
         ))}
 
         {/* Marketplaces Section */}
-        <div className="mt-6">
-          <h3 className="mb-2 px-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
-            Marketplaces
-          </h3>
-          <div className="space-y-1">
-            <Link
-              href="/dashboard/marketplace/etsy"
-              onClick={onClose}
-              className={cn(
-                'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
-                pathname === '/dashboard/marketplace/etsy'
-                  ? 'bg-blue-50 text-blue-600'
-                  : hasEtsy
-                    ? 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-                    : 'text-gray-400 hover:bg-gray-50 hover:text-gray-600',
-              )}
-            >
-              <span
+        {canViewMarketplaces && (
+          <div className="mt-6">
+            <h3 className="mb-2 px-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
+              Marketplaces
+            </h3>
+            <div className="space-y-1">
+              <Link
+                href="/dashboard/marketplace/etsy"
+                onClick={onClose}
                 className={cn(
-                  'flex h-5 w-5 items-center justify-center rounded',
-                  hasEtsy ? 'bg-orange-100' : 'bg-gray-100',
+                  'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
+                  pathname === '/dashboard/marketplace/etsy'
+                    ? 'bg-blue-50 text-blue-600'
+                    : hasEtsy
+                      ? 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                      : 'text-gray-400 hover:bg-gray-50 hover:text-gray-600',
                 )}
               >
-                <svg
-                  viewBox="0 0 24 24"
-                  className="h-3.5 w-3.5"
-                  fill={hasEtsy ? '#F56400' : '#9CA3AF'}
+                <span
+                  className={cn(
+                    'flex h-5 w-5 items-center justify-center rounded',
+                    hasEtsy ? 'bg-orange-100' : 'bg-gray-100',
+                  )}
                 >
-                  <path d="M8.559 3.891H4.729v7.618h3.652v1.176H4.729v7.437h4.013c.551 0 1.006-.181 1.365-.545.358-.363.538-.804.538-1.324v-.363h1.176v1.544c0 .803-.272 1.486-.816 2.048-.544.562-1.21.844-1.997.844H3.552V2.345h5.372c.787 0 1.453.282 1.997.845.544.562.816 1.244.816 2.047v1.545H10.56v-.363c0-.52-.18-.962-.538-1.324-.359-.364-.814-.545-1.365-.545h-.098v-.659z" />
-                </svg>
-              </span>
-              <span className="flex-1">Etsy</span>
-              {!hasEtsy && (
-                <span className="text-xs text-gray-400">Connect</span>
-              )}
-            </Link>
-            <Link
-              href="/dashboard/marketplace/ebay"
-              onClick={onClose}
-              className={cn(
-                'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
-                pathname === '/dashboard/marketplace/ebay'
-                  ? 'bg-blue-50 text-blue-600'
-                  : hasEbay
-                    ? 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-                    : 'text-gray-400 hover:bg-gray-50 hover:text-gray-600',
-              )}
-            >
-              <span
+                  <svg
+                    viewBox="0 0 24 24"
+                    className="h-3.5 w-3.5"
+                    fill={hasEtsy ? '#F56400' : '#9CA3AF'}
+                  >
+                    <path d="M8.559 3.891H4.729v7.618h3.652v1.176H4.729v7.437h4.013c.551 0 1.006-.181 1.365-.545.358-.363.538-.804.538-1.324v-.363h1.176v1.544c0 .803-.272 1.486-.816 2.048-.544.562-1.21.844-1.997.844H3.552V2.345h5.372c.787 0 1.453.282 1.997.845.544.562.816 1.244.816 2.047v1.545H10.56v-.363c0-.52-.18-.962-.538-1.324-.359-.364-.814-.545-1.365-.545h-.098v-.659z" />
+                  </svg>
+                </span>
+                <span className="flex-1">Etsy</span>
+                {!hasEtsy && (
+                  <span className="text-xs text-gray-400">Connect</span>
+                )}
+              </Link>
+              <Link
+                href="/dashboard/marketplace/ebay"
+                onClick={onClose}
                 className={cn(
-                  'flex h-5 w-5 items-center justify-center rounded',
-                  hasEbay ? 'bg-blue-50' : 'bg-gray-100',
+                  'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
+                  pathname === '/dashboard/marketplace/ebay'
+                    ? 'bg-blue-50 text-blue-600'
+                    : hasEbay
+                      ? 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                      : 'text-gray-400 hover:bg-gray-50 hover:text-gray-600',
                 )}
               >
-                <svg viewBox="0 0 24 24" className="h-4 w-4">
-                  <text
-                    x="1"
-                    y="17"
-                    fontSize="12"
-                    fontWeight="bold"
-                    fontFamily="Arial, sans-serif"
-                  >
-                    <tspan fill={hasEbay ? '#E53238' : '#9CA3AF'}>e</tspan>
-                    <tspan fill={hasEbay ? '#0064D2' : '#9CA3AF'}>b</tspan>
-                    <tspan fill={hasEbay ? '#F5AF02' : '#9CA3AF'}>a</tspan>
-                    <tspan fill={hasEbay ? '#86B817' : '#9CA3AF'}>y</tspan>
-                  </text>
-                </svg>
-              </span>
-              <span className="flex-1">eBay</span>
-              {!hasEbay && (
-                <span className="text-xs text-gray-400">Connect</span>
-              )}
-            </Link>
+                <span
+                  className={cn(
+                    'flex h-5 w-5 items-center justify-center rounded',
+                    hasEbay ? 'bg-blue-50' : 'bg-gray-100',
+                  )}
+                >
+                  <svg viewBox="0 0 24 24" className="h-4 w-4">
+                    <text
+                      x="1"
+                      y="17"
+                      fontSize="12"
+                      fontWeight="bold"
+                      fontFamily="Arial, sans-serif"
+                    >
+                      <tspan fill={hasEbay ? '#E53238' : '#9CA3AF'}>e</tspan>
+                      <tspan fill={hasEbay ? '#0064D2' : '#9CA3AF'}>b</tspan>
+                      <tspan fill={hasEbay ? '#F5AF02' : '#9CA3AF'}>a</tspan>
+                      <tspan fill={hasEbay ? '#86B817' : '#9CA3AF'}>y</tspan>
+                    </text>
+                  </svg>
+                </span>
+                <span className="flex-1">eBay</span>
+                {!hasEbay && (
+                  <span className="text-xs text-gray-400">Connect</span>
+                )}
+              </Link>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Settings Section - Expandable */}
-        <div className="mt-6">
-          <h3 className="mb-2 px-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
-            Settings
-          </h3>
-          <div className="space-y-1">
-            {/* Connections */}
-            <Link
-              href="/dashboard/connections"
-              onClick={onClose}
-              className={cn(
-                'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
-                pathname === '/dashboard/connections'
-                  ? 'bg-blue-50 text-blue-600'
-                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900',
+        {canViewSettings && (
+          <div className="mt-6">
+            <h3 className="mb-2 px-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
+              Settings
+            </h3>
+            <div className="space-y-1">
+              {/* Connections */}
+              {canView('/dashboard/connections') && (
+                <Link
+                  href="/dashboard/connections"
+                  onClick={onClose}
+                  className={cn(
+                    'group flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
+                    pathname === '/dashboard/connections'
+                      ? 'bg-blue-50 text-blue-600'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900',
+                  )}
+                >
+                  <Plug
+                    className={cn(
+                      'h-5 w-5 transition-colors',
+                      pathname === '/dashboard/connections'
+                        ? 'text-blue-600'
+                        : 'text-gray-400 group-hover:text-gray-600',
+                    )}
+                  />
+                  <span className="flex-1">Connections</span>
+                </Link>
               )}
-            >
-              <Plug
-                className={cn(
-                  'h-5 w-5 transition-colors',
-                  pathname === '/dashboard/connections'
-                    ? 'text-blue-600'
-                    : 'text-gray-400 group-hover:text-gray-600',
-                )}
-              />
-              <span className="flex-1">Connections</span>
-            </Link>
 
-            {/* Settings - Expandable */}
-            <div>
-              <button
-                type="button"
-                onClick={() => setSettingsExpanded(!settingsExpanded)}
-                className={cn(
-                  'group flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
-                  isOnSettingsPage
-                    ? 'bg-blue-50 text-blue-600'
-                    : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900',
-                )}
-              >
-                <Settings
+              {/* Settings - Expandable */}
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setSettingsExpanded(!settingsExpanded)}
                   className={cn(
-                    'h-5 w-5 transition-colors',
+                    'group flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-150',
                     isOnSettingsPage
-                      ? 'text-blue-600'
-                      : 'text-gray-400 group-hover:text-gray-600',
+                      ? 'bg-blue-50 text-blue-600'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900',
                   )}
-                />
-                <span className="flex-1 text-left">Settings</span>
-                <ChevronDown
+                >
+                  <Settings
+                    className={cn(
+                      'h-5 w-5 transition-colors',
+                      isOnSettingsPage
+                        ? 'text-blue-600'
+                        : 'text-gray-400 group-hover:text-gray-600',
+                    )}
+                  />
+                  <span className="flex-1 text-left">Settings</span>
+                  <ChevronDown
+                    className={cn(
+                      'h-4 w-4 transition-transform duration-200',
+                      settingsExpanded ? 'rotate-180' : '',
+                      isOnSettingsPage ? 'text-blue-400' : 'text-gray-400',
+                    )}
+                  />
+                </button>
+
+                {/* Settings Sub-items */}
+                <div
                   className={cn(
-                    'h-4 w-4 transition-transform duration-200',
-                    settingsExpanded ? 'rotate-180' : '',
-                    isOnSettingsPage ? 'text-blue-400' : 'text-gray-400',
+                    'overflow-hidden transition-all duration-200 ease-in-out',
+                    settingsExpanded
+                      ? 'max-h-[500px] opacity-100'
+                      : 'max-h-0 opacity-0',
                   )}
-                />
-              </button>
-
-              {/* Settings Sub-items */}
-              <div
-                className={cn(
-                  'overflow-hidden transition-all duration-200 ease-in-out',
-                  settingsExpanded
-                    ? 'max-h-[500px] opacity-100'
-                    : 'max-h-0 opacity-0',
-                )}
-              >
-                <div className="mt-1 ml-3 space-y-0.5 border-l-2 border-gray-100 pl-3">
-                  {settingsSubItems.map((item) => {
-                    const isActive = pathname === item.href
-                    const Icon = item.icon
+                >
+                  <div className="mt-1 ml-3 space-y-0.5 border-l-2 border-gray-100 pl-3">
+                    {visibleSettingsItems.map((item) => {
+                      const isActive = pathname === item.href
+                      const Icon = item.icon
 
-                    return (
-                      <Link
-                        key={item.name}
-                        href={item.href}
-                        onClick={onClose}
-                        className={cn(
-                          'group flex items-center gap-2.5 rounded-lg px-2.5 py-2 text-sm transition-all duration-150',
-                          isActive
-                            ? 'bg-blue-50 text-blue-600 font-medium'
-                            : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900',
-                        )}
-                      >
-                        <Icon
+                      return (
+                        <Link
+                          key={item.name}
+                          href={item.href}
+                          onClick={onClose}
                           className={cn(
-                            'h-4 w-4 transition-colors flex-shrink-0',
+                            'group flex items-center gap-2.5 rounded-lg px-2.5 py-2 text-sm transition-all duration-150',
                             isActive
-                              ? 'text-blue-600'
-                              : 'text-gray-400 group-hover:text-gray-600',
+                              ? 'bg-blue-50 text-blue-600 font-medium'
+                              : 'text-gray-500 hover:bg-gray-50 hover:text-gray-900',
                           )}
-                        />
-                        <span className="truncate">{item.name}</span>
-                      </Link>
-                    )
-                  })}
+                        >
+                          <Icon
+                            className={cn(
+                              'h-4 w-4 transition-colors flex-shrink-0',
+                              isActive
+                                ? 'text-blue-600'
+                                : 'text-gray-400 group-hover:text-gray-600',
+                            )}
+                          />
+                          <span className="truncate">{item.name}</span>
+                        </Link>
+                      )
+                    })}
+                  </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
       </nav>
 
       {/* User card at bottom */}
@@ -0,0 +1,269 @@
+'use client'
+
+import type { ExpenseCategory } from '@madebuy/shared'
+import { EXPENSE_CATEGORY_LABELS } from '@madebuy/shared'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface ExpenseFormProps {
+  gstRegistered: boolean
+  gstRate: number
+}
+
+interface ExpenseDraft {
+  date: string
+  description: string
+  category: ExpenseCategory
+  supplierName: string
+  amount: string // dollars as typed
+  gstAmount: string // dollars as typed
+  notes: string
+  receiptUrl?: string
+  receiptFileName?: string
+}
+
+function emptyDraft(): ExpenseDraft {
+  return {
+    date: new Date().toISOString().slice(0, 10),
+    description: '',
+    category: 'materials',
+    supplierName: '',
+    amount: '',
+    gstAmount: '',
+    notes: '',
+  }
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+function toCents(dollars: string): number {
+  return Math.round(parseFloat(dollars || '0') * 100)
+}
+
+export function ExpenseForm({ gstRegistered, gstRate }: ExpenseFormProps) {
+  const router = useRouter()
+  const [draft, setDraft] = useState<ExpenseDraft>(emptyDraft)
+  const [scanning, setScanning] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function update(changes: Partial<ExpenseDraft>) {
+    setDraft((current) => ({ ...current, ...changes }))
+  }
+
+  // Work out the GST included in the amount paid (1/11th at 10%)
+  function fillGst() {
+    const amount = parseFloat(draft.amount || '0')
+    update({ gstAmount: (amount - amount / (1 + gstRate / 100)).toFixed(2) })
+  }
+
+  async function scanReceipt(file: File) {
+    setScanning(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const res = await fetch('/api/expenses/receipt', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(errorMessage(data, 'Failed to upload receipt'))
+      }
+
+      const { suggestion } = data
+      setDraft((current) => ({
+        ...current,
+        receiptUrl: data.receiptUrl,
+        receiptFileName: data.receiptFileName,
+        date: suggestion.date || current.date,
+        supplierName: suggestion.supplierName || current.supplierName,
+        description:
+          current.description ||
+          (suggestion.supplierName
+            ? `Purchase - ${suggestion.supplierName}`
+            : ''),
+        amount:
+          suggestion.amount !== undefined
+            ? (suggestion.amount / 100).toFixed(2)
+            : current.amount,
+        gstAmount:
+          gstRegistered && suggestion.gstAmount !== undefined
+            ? (suggestion.gstAmount / 100).toFixed(2)
+            : current.gstAmount,
+      }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload receipt')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/expenses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: draft.date,
+          description: draft.description,
+          category: draft.category,
+          supplierName: draft.supplierName,
+          amount: toCents(draft.amount),
+          gstAmount: gstRegistered ? toCents(draft.gstAmount) : 0,
+          notes: draft.notes,
+          receiptUrl: draft.receiptUrl,
+          receiptFileName: draft.receiptFileName,
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to save expense'))
+      }
+      setDraft(emptyDraft())
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save expense')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-normal'
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg bg-white p-6 shadow">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-gray-900">Add expense</h2>
+        <label className="cursor-pointer rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50">
+          {scanning
+            ? 'Reading receipt...'
+            : draft.receiptFileName
+              ? `Receipt: ${draft.receiptFileName}`
+              : 'Scan a receipt'}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,application/pdf"
+            disabled={scanning}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) scanReceipt(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Date
+          <input
+            type="date"
+            required
+            value={draft.date}
+            onChange={(e) => update({ date: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Description
+          <input
+            required
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Category
+          <select
+            value={draft.category}
+            onChange={(e) =>
+              update({ category: e.target.value as ExpenseCategory })
+            }
+            className={inputClass}
+          >
+            {Object.entries(EXPENSE_CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Supplier
+          <input
+            value={draft.supplierName}
+            onChange={(e) => update({ supplierName: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Amount paid (incl. GST)
+          <input
+            type="number"
+            required
+            min="0.01"
+            step="0.01"
+            value={draft.amount}
+            onChange={(e) => update({ amount: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        {gstRegistered && (
+          <label className="block text-sm font-medium text-gray-700">
+            GST
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.gstAmount}
+                onChange={(e) => update({ gstAmount: e.target.value })}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={fillGst}
+                className="mt-1 whitespace-nowrap rounded-lg border border-gray-300 px-3 text-xs hover:bg-gray-50"
+              >
+                Calculate
+              </button>
+            </div>
+          </label>
+        )}
+        <label className="block text-sm font-medium text-gray-700 sm:col-span-2 lg:col-span-3">
+          Notes
+          <input
+            value={draft.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={saving || scanning}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Add expense'}
+        </button>
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import type { Expense, ExpenseCategory } from '@madebuy/shared'
+import { EXPENSE_CATEGORY_LABELS } from '@madebuy/shared'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+interface ExpensesTableProps {
+  expenses: Expense[]
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function ExpensesTable({ expenses }: ExpensesTableProps) {
+  const router = useRouter()
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  async function runAction(
+    expense: Expense,
+    init: RequestInit,
+    fallback: string,
+  ) {
+    setSavingId(expense.id)
+    try {
+      const res = await fetch(`/api/expenses/${expense.id}`, init)
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, fallback))
+      }
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallback)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  function changeCategory(expense: Expense, category: ExpenseCategory) {
+    runAction(
+      expense,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category }),
+      },
+      'Failed to update expense',
+    )
+  }
+
+  function deleteExpense(expense: Expense) {
+    if (!confirm(`Delete "${expense.description}"?`)) return
+    runAction(expense, { method: 'DELETE' }, 'Failed to delete expense')
+  }
+
+  if (expenses.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">No expenses in this quarter yet.</p>
+    )
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg bg-white shadow">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Date
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Description
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Category
+            </th>
+            <th className="px-4 py-3 text-right font-medium text-gray-500">
+              Amount
+            </th>
+            <th className="px-4 py-3 text-right font-medium text-gray-500">
+              GST
+            </th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {expenses.map((expense) => {
+            const saving = savingId === expense.id
+            return (
+              <tr key={expense.id} className="align-top">
+                <td className="whitespace-nowrap px-4 py-3 text-gray-500">
+                  {formatDate(expense.date)}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">
+                    {expense.description}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {expense.supplierName}
+                    {expense.source === 'invoice' && (
+                      <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-blue-800">
+                        Supplier invoice
+                      </span>
+                    )}
+                  </div>
+                  {expense.receiptUrl && (
+                    <a
+                      href={expense.receiptUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      Receipt
+                    </a>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={expense.category}
+                    disabled={saving}
+                    onChange={(e) =>
+                      changeCategory(expense, e.target.value as ExpenseCategory)
+                    }
+                    className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                  >
+                    {Object.entries(EXPENSE_CATEGORY_LABELS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-right text-gray-900">
+                  {formatCurrency(expense.amount / 100, expense.currency)}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-right text-gray-500">
+                  {expense.gstAmount > 0
+                    ? formatCurrency(expense.gstAmount / 100, expense.currency)
+                    : '-'}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-right">
+                  <button
+                    type="button"
+                    disabled={saving}
+                    onClick={() => deleteExpense(expense)}
+                    className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
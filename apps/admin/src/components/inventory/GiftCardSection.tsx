@@ -0,0 +1,106 @@
+'use client'
+
+import type { GiftCardPieceConfig } from '@madebuy/shared'
+import { CreditCard } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface GiftCardSectionProps {
+  pieceId: string
+  giftCard?: GiftCardPieceConfig
+}
+
+export function GiftCardSection({ pieceId, giftCard }: GiftCardSectionProps) {
+  const router = useRouter()
+  const [isGiftCard, setIsGiftCard] = useState(giftCard?.isGiftCard ?? false)
+  const [expiryMonths, setExpiryMonths] = useState(
+    giftCard?.expiryMonths?.toString() ?? '',
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function save(nextIsGiftCard: boolean, nextExpiryMonths: string) {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/pieces/${pieceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          giftCard: {
+            isGiftCard: nextIsGiftCard,
+            expiryMonths: nextExpiryMonths
+              ? parseInt(nextExpiryMonths, 10)
+              : undefined,
+          },
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg bg-white shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <CreditCard className="h-5 w-5 text-gray-400" />
+        Gift Card
+        <span className="text-xs font-normal text-gray-400 ml-2">
+          Buyers receive a code for the price paid
+        </span>
+      </h2>
+
+      <label className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={isGiftCard}
+          disabled={saving}
+          onChange={(e) => {
+            setIsGiftCard(e.target.checked)
+            save(e.target.checked, expiryMonths)
+          }}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">
+          Sell this product as a gift card
+        </span>
+      </label>
+
+      {isGiftCard && (
+        <div className="mt-4 max-w-xs">
+          <label
+            htmlFor="giftCardExpiryMonths"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Expires after (months)
+          </label>
+          <input
+            id="giftCardExpiryMonths"
+            type="number"
+            min="1"
+            max="120"
+            value={expiryMonths}
+            disabled={saving}
+            onChange={(e) => setExpiryMonths(e.target.value)}
+            onBlur={() => save(isGiftCard, expiryMonths)}
+            placeholder="Never"
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Leave blank for cards that never expire
+          </p>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ import {
   FolderOpen,
   Globe,
   Loader2,
+  MapPin,
   Package,
   Pencil,
   Plus,
@@ -162,13 +163,22 @@ export function InventoryPageClient({
             Manage your pieces, listings, and collections
           </p>
         </div>
-        <Link
-          href="/dashboard/inventory/new"
-          className="inline-flex items-center gap-2 rounded-xl bg-gray-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Add Piece
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link
+            href="/dashboard/inventory/locations"
+            className="inline-flex items-center gap-2 rounded-xl border border-gray-200 bg-white px-5 py-2.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 transition-colors"
+          >
+            <MapPin className="h-4 w-4" />
+            Locations
+          </Link>
+          <Link
+            href="/dashboard/inventory/new"
+            className="inline-flex items-center gap-2 rounded-xl bg-gray-900 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-800 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Add Piece
+          </Link>
+        </div>
       </div>
 
       {/* Low Stock Alert */}
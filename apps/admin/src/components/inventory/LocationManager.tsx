@@ -0,0 +1,327 @@
+'use client'
+
+import type {
+  CreateLocationInput,
+  InventoryLocation,
+  InventoryLocationType,
+} from '@madebuy/shared'
+import { INVENTORY_LOCATION_TYPE_LABELS } from '@madebuy/shared'
+import { Globe, MapPin, Pencil, Plus, Star, Trash2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface LocationManagerProps {
+  locations: InventoryLocation[]
+}
+
+type LocationForm = {
+  name: string
+  type: InventoryLocationType
+  fulfillsOnline: boolean
+  address: string
+}
+
+const EMPTY_FORM: LocationForm = {
+  name: '',
+  type: 'home',
+  fulfillsOnline: true,
+  address: '',
+}
+
+const LOCATION_TYPES = Object.keys(
+  INVENTORY_LOCATION_TYPE_LABELS,
+) as InventoryLocationType[]
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+export function LocationManager({ locations }: LocationManagerProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<LocationForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const editing = locations.find((l) => l.id === editingId)
+
+  function startEdit(location: InventoryLocation) {
+    setEditingId(location.id)
+    setError(null)
+    setForm({
+      name: location.name,
+      type: location.type,
+      fulfillsOnline: location.fulfillsOnline,
+      address: location.address || '',
+    })
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      throw new Error(errorMessage(data, 'Failed to save location'))
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const body: CreateLocationInput = {
+      name: form.name,
+      type: form.type,
+      fulfillsOnline: form.fulfillsOnline,
+      address: form.address,
+    }
+
+    try {
+      if (editingId === 'new') {
+        await send('/api/inventory/locations', 'POST', body)
+      } else {
+        await send(`/api/inventory/locations/${editingId}`, 'PATCH', body)
+      }
+      setEditingId(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save location')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleMakeDefault(location: InventoryLocation) {
+    if (
+      !confirm(
+        `Make ${location.name} the default location? Stock not recorded at another location will count as being here.`,
+      )
+    ) {
+      return
+    }
+    try {
+      await send(`/api/inventory/locations/${location.id}`, 'PATCH', {
+        isDefault: true,
+      })
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update location')
+    }
+  }
+
+  async function handleDelete(location: InventoryLocation) {
+    if (!confirm(`Delete ${location.name}?`)) return
+    try {
+      await send(`/api/inventory/locations/${location.id}`, 'DELETE')
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete location')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {locations.length === 0 && editingId === null && (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <MapPin className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No locations yet
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            Add the places you keep stock. Your first location holds all current
+            stock until you move some elsewhere.
+          </p>
+        </div>
+      )}
+
+      {locations.length > 0 && (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Location
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Type
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Online orders
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {locations.map((location) => (
+                <tr key={location.id}>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2 font-medium text-gray-900">
+                      {location.name}
+                      {location.isDefault && (
+                        <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                          Default
+                        </span>
+                      )}
+                    </div>
+                    {location.address && (
+                      <div className="text-xs text-gray-500">
+                        {location.address}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {INVENTORY_LOCATION_TYPE_LABELS[location.type]}
+                  </td>
+                  <td className="px-4 py-3">
+                    {location.fulfillsOnline ? (
+                      <span className="inline-flex items-center gap-1 text-green-700">
+                        <Globe className="h-4 w-4" />
+                        Fulfils online
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">In person only</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {!location.isDefault && (
+                      <button
+                        type="button"
+                        onClick={() => handleMakeDefault(location)}
+                        title="Make default"
+                        className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                      >
+                        <Star className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => startEdit(location)}
+                      className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    {!location.isDefault && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(location)}
+                        className="rounded p-1 text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setError(null)
+            setEditingId('new')
+          }}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Location
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg bg-white p-6 shadow"
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Name *
+              <input
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Studio, Saturday market"
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Type
+              <select
+                value={form.type}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    type: e.target.value as InventoryLocationType,
+                  })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              >
+                {LOCATION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {INVENTORY_LOCATION_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700 md:col-span-2">
+              Address
+              <input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.fulfillsOnline}
+              disabled={editing?.isDefault}
+              onChange={(e) =>
+                setForm({ ...form, fulfillsOnline: e.target.checked })
+              }
+              className="mt-0.5 rounded border-gray-300"
+            />
+            <span>
+              Fulfils online orders
+              <span className="block text-xs text-gray-500">
+                {editing?.isDefault
+                  ? 'The default location always fulfils online orders.'
+                  : "Untick for stock online customers can't buy, like pieces on consignment."}
+              </span>
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import type { InventoryLocation, ItemLocationStock } from '@madebuy/shared'
+import { ArrowRight, Globe, MapPin } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+
+interface LocationStockSectionProps {
+  items: Array<{ label: string; stock: ItemLocationStock }> // Variants each get an entry
+  locations: InventoryLocation[]
+  unit?: string
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+export function LocationStockSection({
+  items,
+  locations,
+  unit,
+}: LocationStockSectionProps) {
+  const router = useRouter()
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [fromId, setFromId] = useState(locations[0]?.id ?? '')
+  const [toId, setToId] = useState(locations[1]?.id ?? '')
+  const [moveQuantity, setMoveQuantity] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = items[Math.min(selectedIndex, items.length - 1)]
+  const stock = selected?.stock
+
+  // Reset edits when the item changes or fresh data arrives
+  useEffect(() => {
+    setCounts(
+      Object.fromEntries(
+        (stock?.levels ?? []).map((level) => [
+          level.locationId,
+          String(level.quantity),
+        ]),
+      ),
+    )
+  }, [stock])
+
+  if (locations.length === 0) {
+    return (
+      <div className="rounded-lg bg-white shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-gray-400" />
+          Stock by Location
+        </h2>
+        <p className="text-sm text-gray-600">
+          Keep stock in more than one place?{' '}
+          <Link
+            href="/dashboard/inventory/locations"
+            className="text-blue-600 hover:underline"
+          >
+            Set up locations
+          </Link>{' '}
+          to track it separately.
+        </p>
+      </div>
+    )
+  }
+
+  if (!stock) return null
+
+  async function send(method: string, url: string, body: unknown) {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to update stock'))
+      }
+      router.refresh()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update stock')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSetCount(locationId: string) {
+    const quantity = parseFloat(counts[locationId])
+    if (Number.isNaN(quantity)) return
+    await send('PUT', '/api/inventory/stock-levels', {
+      itemType: stock.itemType,
+      itemId: stock.itemId,
+      locationId,
+      quantity,
+    })
+  }
+
+  async function handleMove(e: React.FormEvent) {
+    e.preventDefault()
+    const quantity = parseFloat(moveQuantity)
+    if (!quantity) return
+    const moved = await send('POST', '/api/inventory/transfers', {
+      fromLocationId: fromId,
+      toLocationId: toId,
+      items: [{ itemType: stock.itemType, itemId: stock.itemId, quantity }],
+    })
+    if (moved) setMoveQuantity('')
+  }
+
+  return (
+    <div className="rounded-lg bg-white shadow p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-gray-400" />
+          Stock by Location
+        </h2>
+        {items.length > 1 && (
+          <select
+            value={selectedIndex}
+            onChange={(e) => setSelectedIndex(Number(e.target.value))}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm"
+          >
+            {items.map((item, index) => (
+              <option key={item.stock.itemId} value={index}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-gray-100">
+          {stock.levels.map((level) => {
+            const changed = counts[level.locationId] !== String(level.quantity)
+            return (
+              <tr key={level.locationId}>
+                <td className="py-2 pr-4">
+                  <span className="font-medium text-gray-900">
+                    {level.locationName}
+                  </span>
+                  {level.isDefault && (
+                    <span className="ml-2 text-xs text-gray-500">default</span>
+                  )}
+                  {level.fulfillsOnline && (
+                    <Globe
+                      className="ml-2 inline h-3.5 w-3.5 text-green-600"
+                      aria-label="Fulfils online orders"
+                    />
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={counts[level.locationId] ?? ''}
+                    onChange={(e) =>
+                      setCounts({
+                        ...counts,
+                        [level.locationId]: e.target.value,
+                      })
+                    }
+                    className="w-24 rounded border border-gray-300 px-2 py-1 text-right"
+                  />
+                  {unit && <span className="ml-1 text-gray-500">{unit}</span>}
+                </td>
+                <td className="py-2 pl-2 w-16">
+                  {changed && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => handleSetCount(level.locationId)}
+                      className="text-sm font-medium text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <p className="mt-3 text-sm text-gray-600">
+        {stock.total} in total
+        {stock.itemType !== 'material' &&
+          `, ${stock.onlineAvailable} available online`}
+      </p>
+
+      {locations.length > 1 && (
+        <form
+          onSubmit={handleMove}
+          className="mt-4 flex flex-wrap items-center gap-2 border-t border-gray-100 pt-4 text-sm"
+        >
+          <span className="text-gray-700">Move</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            required
+            value={moveQuantity}
+            onChange={(e) => setMoveQuantity(e.target.value)}
+            className="w-20 rounded border border-gray-300 px-2 py-1"
+          />
+          <span className="text-gray-700">from</span>
+          <select
+            value={fromId}
+            onChange={(e) => setFromId(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1"
+          >
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          <ArrowRight className="h-4 w-4 text-gray-400" />
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1"
+          >
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving || fromId === toId}
+            className="rounded-lg bg-blue-600 px-3 py-1.5 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Move
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import type { Material, PieceMaterialUsage } from '@madebuy/shared'
 import {
   calculateCOGS,
   calculateProfitMargin,
+  convertQuantity,
+  getCompatibleUnits,
   getMarginHealth,
   suggestPrice,
   TARGET_MARGINS,
@@ -35,6 +37,7 @@ interface PieceFormProps {
 interface MaterialUsageEntry {
   materialId: string
   quantityUsed: number
+  unit?: string // Defaults to the material's own unit
 }
 
 interface FormErrors {
@@ -97,7 +100,7 @@ export function PieceForm({
         return {
           materialId: u.materialId,
           quantity: u.quantityUsed,
-          unit: material?.unit || 'piece',
+          unit: u.unit || material?.unit || 'piece',
         }
       })
   }, [materialUsages, availableMaterials])
@@ -168,12 +171,16 @@ export function PieceForm({
 
   const updateMaterialUsage = (
     index: number,
-    field: 'materialId' | 'quantityUsed',
+    field: 'materialId' | 'quantityUsed' | 'unit',
     value: string | number,
   ) => {
     setMaterialUsages((prev) =>
       prev.map((usage, i) => {
         if (i !== index) return usage
+        // A new material starts out measured in its own unit
+        if (field === 'materialId') {
+          return { ...usage, materialId: value as string, unit: undefined }
+        }
         return {
           ...usage,
           [field]:
@@ -236,12 +243,21 @@ export function PieceForm({
         )
 
         for (const usage of validUsages) {
+          const material = availableMaterials.find(
+            (m) => m.id === usage.materialId,
+          )
+          // Stock is tracked in the material's unit
+          const quantityUsed = material
+            ? convertQuantity(usage.quantityUsed, usage.unit, material.unit)
+            : usage.quantityUsed
+          if (quantityUsed === null) continue
+
           await fetch(`/api/materials/${usage.materialId}/usage`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               pieceId: createdPiece.id,
-              quantityUsed: usage.quantityUsed,
+              quantityUsed,
             }),
           })
         }
@@ -601,8 +617,15 @@ export function PieceForm({
               const selectedMaterial = availableMaterials.find(
                 (m) => m.id === usage.materialId,
               )
+              const quantityInMaterialUnit = selectedMaterial
+                ? convertQuantity(
+                    usage.quantityUsed,
+                    usage.unit,
+                    selectedMaterial.unit,
+                  )
+                : null
               const lineCost = selectedMaterial
-                ? selectedMaterial.costPerUnit * usage.quantityUsed
+                ? selectedMaterial.costPerUnit * (quantityInMaterialUnit ?? 0)
                 : 0
 
               return (
@@ -656,6 +679,26 @@ export function PieceForm({
                         placeholder="0.00"
                         className="w-full rounded-lg border border-gray-300 p-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
+                      {selectedMaterial &&
+                        getCompatibleUnits(selectedMaterial.unit).length >
+                          1 && (
+                          <select
+                            value={usage.unit || selectedMaterial.unit}
+                            onChange={(e) =>
+                              updateMaterialUsage(index, 'unit', e.target.value)
+                            }
+                            aria-label="Unit"
+                            className="mt-1 w-full rounded-lg border border-gray-300 p-1.5 text-xs focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {getCompatibleUnits(selectedMaterial.unit).map(
+                              (unit) => (
+                                <option key={unit} value={unit}>
+                                  {unit}
+                                </option>
+                              ),
+                            )}
+                          </select>
+                        )}
                       {selectedMaterial && (
                         <p className="mt-1 text-xs text-gray-500">
                           ${selectedMaterial.costPerUnit.toFixed(2)} per{' '}
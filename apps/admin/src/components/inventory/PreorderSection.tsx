@@ -0,0 +1,198 @@
+'use client'
+
+import type { PiecePreorderConfig, PreorderMode } from '@madebuy/shared'
+import { Clock } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface PreorderSectionProps {
+  pieceId: string
+  preorder?: PiecePreorderConfig
+  outstanding?: number
+}
+
+function toDateInput(date?: Date): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : ''
+}
+
+export function PreorderSection({
+  pieceId,
+  preorder,
+  outstanding,
+}: PreorderSectionProps) {
+  const router = useRouter()
+  const [enabled, setEnabled] = useState(preorder?.enabled ?? false)
+  const [mode, setMode] = useState<PreorderMode>(
+    preorder?.mode ?? 'made_to_order',
+  )
+  const [leadTimeDays, setLeadTimeDays] = useState(
+    preorder?.leadTimeDays?.toString() ?? '',
+  )
+  const [expectedShipDate, setExpectedShipDate] = useState(
+    toDateInput(preorder?.expectedShipDate),
+  )
+  const [maxOutstanding, setMaxOutstanding] = useState(
+    preorder?.maxOutstanding?.toString() ?? '',
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function save(nextEnabled: boolean) {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/pieces/${pieceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preorder: {
+            enabled: nextEnabled,
+            mode,
+            leadTimeDays: leadTimeDays ? parseInt(leadTimeDays, 10) : undefined,
+            expectedShipDate: expectedShipDate || undefined,
+            maxOutstanding: maxOutstanding
+              ? parseInt(maxOutstanding, 10)
+              : undefined,
+          },
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(
+          data.details?.preorder?.[0] || data.error || 'Failed to save',
+        )
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg bg-white shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Clock className="h-5 w-5 text-gray-400" />
+        Pre-order / Made to Order
+        <span className="text-xs font-normal text-gray-400 ml-2">
+          Sell without stock and show buyers a lead time
+        </span>
+      </h2>
+
+      <label className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={saving}
+          onChange={(e) => {
+            setEnabled(e.target.checked)
+            // Turning it off needs no other fields - save straight away
+            if (!e.target.checked) save(false)
+          }}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700">
+          Take orders for this product before it&apos;s made
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="mt-4 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="preorderMode"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Mode
+              </label>
+              <select
+                id="preorderMode"
+                value={mode}
+                disabled={saving}
+                onChange={(e) => setMode(e.target.value as PreorderMode)}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="made_to_order">Made to order</option>
+                <option value="preorder">Pre-order (ships on a date)</option>
+              </select>
+            </div>
+
+            {mode === 'made_to_order' ? (
+              <div>
+                <label
+                  htmlFor="preorderLeadTime"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Lead time (days)
+                </label>
+                <input
+                  id="preorderLeadTime"
+                  type="number"
+                  min="1"
+                  max="365"
+                  value={leadTimeDays}
+                  disabled={saving}
+                  onChange={(e) => setLeadTimeDays(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            ) : (
+              <div>
+                <label
+                  htmlFor="preorderShipDate"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Expected ship date
+                </label>
+                <input
+                  id="preorderShipDate"
+                  type="date"
+                  value={expectedShipDate}
+                  disabled={saving}
+                  onChange={(e) => setExpectedShipDate(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="max-w-xs">
+            <label
+              htmlFor="preorderMaxOutstanding"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Maximum open orders
+            </label>
+            <input
+              id="preorderMaxOutstanding"
+              type="number"
+              min="1"
+              value={maxOutstanding}
+              disabled={saving}
+              onChange={(e) => setMaxOutstanding(e.target.value)}
+              placeholder="No limit"
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {outstanding ?? 0} ordered and not yet shipped
+            </p>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => save(true)}
+            disabled={saving}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import type { LabelRequestItem } from '@madebuy/shared'
+import { Loader2, Printer } from 'lucide-react'
+import { useState } from 'react'
+
+interface PrintLabelsButtonProps {
+  items: Omit<LabelRequestItem, 'copies'>[]
+  label?: string
+}
+
+/**
+ * Downloads an A4 barcode label sheet for the given items
+ */
+export function PrintLabelsButton({
+  items,
+  label = 'Print labels',
+}: PrintLabelsButtonProps) {
+  const [copies, setCopies] = useState(1)
+  const [printing, setPrinting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handlePrint() {
+    setPrinting(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/inventory/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: items.map((item) => ({ ...item, copies })),
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(
+          data.details?.items?.[0] || data.error || 'Failed to print labels',
+        )
+      }
+
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'labels.pdf'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to print labels')
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  if (items.length === 0) return null
+
+  return (
+    <div className="inline-flex flex-col items-end">
+      <div className="inline-flex items-center gap-2">
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={copies}
+            onChange={(e) =>
+              setCopies(
+                Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)),
+              )
+            }
+            aria-label="Copies of each label"
+            className="w-16 rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          each
+        </label>
+        <button
+          type="button"
+          onClick={handlePrint}
+          disabled={printing}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {printing ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Printer className="h-4 w-4" />
+          )}
+          {label}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -53,6 +53,7 @@ export function ProfitMarginDisplay({
         materialCosts: [],
         hasMissingMaterials: false,
         missingMaterialIds: [],
+        unitMismatchMaterialIds: [],
       }
     }
     return calculateCOGSWithBreakdown(piece.materialsUsed, materials)
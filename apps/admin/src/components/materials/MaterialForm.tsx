@@ -1,8 +1,10 @@
 'use client'
 
+import type { Supplier } from '@madebuy/shared'
 import { Loader2 } from 'lucide-react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import {
   FALLBACK_MATERIAL_CATEGORIES,
   useTenantCategories,
@@ -34,9 +36,29 @@ export function MaterialForm({ tenantId, material }: MaterialFormProps) {
     reorderPoint: material?.reorderPoint || 0,
     costPerUnit: material?.costPerUnit || 0,
     supplier: material?.supplier || '',
+    supplierId: material?.supplierId || '',
+    barcode: material?.barcode || '',
     notes: material?.notes || '',
   })
 
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+
+  useEffect(() => {
+    fetch('/api/suppliers')
+      .then((res) => (res.ok ? res.json() : { suppliers: [] }))
+      .then((data) => setSuppliers(data.suppliers || []))
+      .catch(() => setSuppliers([]))
+  }, [])
+
+  const handleSupplierSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const supplier = suppliers.find((s) => s.id === e.target.value)
+    setFormData((prev) => ({
+      ...prev,
+      supplierId: supplier?.id || '',
+      supplier: supplier?.name || '',
+    }))
+  }
+
   const handleChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -78,7 +100,11 @@ export function MaterialForm({ tenantId, material }: MaterialFormProps) {
       const response = await fetch('/api/materials', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          supplierId: formData.supplierId || undefined,
+          barcode: formData.barcode || undefined,
+        }),
       })
 
       if (!response.ok) {
@@ -256,15 +282,65 @@ export function MaterialForm({ tenantId, material }: MaterialFormProps) {
             >
               Supplier
             </label>
+            {suppliers.length > 0 ? (
+              <select
+                id="supplier"
+                name="supplierId"
+                value={formData.supplierId}
+                onChange={handleSupplierSelect}
+                className="w-full rounded-lg border border-gray-300 p-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No supplier</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                id="supplier"
+                name="supplier"
+                value={formData.supplier}
+                onChange={handleChange}
+                placeholder="e.g., Rio Grande"
+                className="w-full rounded-lg border border-gray-300 p-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              <Link
+                href="/dashboard/materials/suppliers"
+                className="text-blue-600 hover:text-blue-700"
+              >
+                Manage suppliers
+              </Link>{' '}
+              to reorder this material with a purchase order
+            </p>
+          </div>
+
+          {/* Barcode */}
+          <div className="mb-4">
+            <label
+              htmlFor="barcode"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Barcode
+            </label>
             <input
               type="text"
-              id="supplier"
-              name="supplier"
-              value={formData.supplier}
+              id="barcode"
+              name="barcode"
+              value={formData.barcode}
               onChange={handleChange}
-              placeholder="e.g., Rio Grande"
+              // Scanners end with Enter - don't let it submit the form
+              onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+              placeholder="Scan or type the code on the packaging"
               className="w-full rounded-lg border border-gray-300 p-2.5 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave blank and one is assigned when you print labels
+            </p>
           </div>
 
           {/* Notes */}
@@ -0,0 +1,288 @@
+'use client'
+
+import type { PurchaseOrder, PurchaseOrderStatus } from '@madebuy/shared'
+import { AlertTriangle, ClipboardList, Download, Send } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface PurchaseOrderListProps {
+  purchaseOrders: PurchaseOrder[]
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-AU', { style: 'currency', currency }).format(
+    amount,
+  )
+}
+
+export function PurchaseOrderList({ purchaseOrders }: PurchaseOrderListProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  // Draft quantity edits, keyed by `${poId}:${materialId}`
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+
+  async function run(id: string, request: () => Promise<Response>) {
+    setBusyId(id)
+    setMessage(null)
+    try {
+      const res = await request()
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage(data.error || 'Something went wrong')
+        return data
+      }
+      router.refresh()
+      return data
+    } catch (error) {
+      console.error('Purchase order action failed:', error)
+      setMessage('Something went wrong')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  async function generateDrafts() {
+    const data = await run('generate', () =>
+      fetch('/api/purchase-orders', { method: 'POST' }),
+    )
+    if (data?.purchaseOrders) {
+      setMessage(
+        data.purchaseOrders.length > 0
+          ? `Drafted ${data.purchaseOrders.length} purchase order${data.purchaseOrders.length === 1 ? '' : 's'}`
+          : 'Nothing to reorder - low stock materials are already on order or have no supplier',
+      )
+    }
+  }
+
+  function saveDraft(po: PurchaseOrder) {
+    return run(po.id, () =>
+      fetch(`/api/purchase-orders/${po.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: po.items.map((item) => ({
+            materialId: item.materialId,
+            costPerUnit: item.costPerUnit,
+            quantity: parseFloat(
+              quantities[`${po.id}:${item.materialId}`] ??
+                String(item.quantity),
+            ),
+          })),
+        }),
+      }),
+    )
+  }
+
+  function send(po: PurchaseOrder) {
+    return run(po.id, () =>
+      fetch(`/api/purchase-orders/${po.id}/send`, { method: 'POST' }),
+    )
+  }
+
+  function receive(po: PurchaseOrder) {
+    if (!confirm(`Receive ${po.poNumber} and add its materials to stock?`)) {
+      return
+    }
+    return run(po.id, () =>
+      fetch(`/api/purchase-orders/${po.id}/receive`, { method: 'POST' }),
+    )
+  }
+
+  function cancel(po: PurchaseOrder) {
+    if (!confirm(`Cancel ${po.poNumber}?`)) return
+    return run(po.id, () =>
+      fetch(`/api/purchase-orders/${po.id}`, { method: 'DELETE' }),
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={generateDrafts}
+          disabled={busyId !== null}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          <ClipboardList className="h-4 w-4" />
+          Draft orders for low stock
+        </button>
+        <Link
+          href="/dashboard/materials/suppliers"
+          className="text-sm text-blue-600 hover:text-blue-700"
+        >
+          Manage suppliers
+        </Link>
+      </div>
+
+      {message && <p className="text-sm text-gray-600">{message}</p>}
+
+      {purchaseOrders.length === 0 ? (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No purchase orders yet
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            Link materials to a supplier, then draft orders when they run low.
+          </p>
+        </div>
+      ) : (
+        purchaseOrders.map((po) => {
+          const isOpen = po.status === 'draft' || po.status === 'sent'
+          return (
+            <div key={po.id} className="rounded-lg bg-white shadow p-6">
+              <div className="mb-4 flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {po.supplierName}
+                  </h2>
+                  <p className="text-sm text-gray-500">
+                    {po.poNumber}
+                    {po.expectedAt &&
+                      po.status === 'sent' &&
+                      ` · expected ${new Date(po.expectedAt).toLocaleDateString('en-AU')}`}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-full px-2.5 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[po.status]}`}
+                >
+                  {po.status}
+                </span>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">Material</th>
+                    <th className="pb-2 font-medium">Qty</th>
+                    <th className="pb-2 font-medium">Unit cost</th>
+                    <th className="pb-2 text-right font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {po.items.map((item) => {
+                    const key = `${po.id}:${item.materialId}`
+                    return (
+                      <tr key={item.materialId}>
+                        <td className="py-2 text-gray-900">
+                          {item.materialName}
+                          {item.supplierSku && (
+                            <span className="ml-2 text-xs text-gray-400">
+                              {item.supplierSku}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          {po.status === 'draft' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={quantities[key] ?? item.quantity}
+                              onChange={(e) =>
+                                setQuantities({
+                                  ...quantities,
+                                  [key]: e.target.value,
+                                })
+                              }
+                              className="w-20 rounded border border-gray-300 px-2 py-1"
+                            />
+                          ) : (
+                            (item.quantityReceived ?? item.quantity)
+                          )}{' '}
+                          {item.unit}
+                        </td>
+                        <td className="py-2 text-gray-600">
+                          {formatMoney(item.costPerUnit, po.currency)}
+                        </td>
+                        <td className="py-2 text-right text-gray-900">
+                          {formatMoney(
+                            item.quantity * item.costPerUnit,
+                            po.currency,
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+
+              <div className="mt-3 flex items-center justify-between border-t border-gray-100 pt-3">
+                <div className="text-sm">
+                  <span className="font-semibold text-gray-900">
+                    {formatMoney(po.subtotal, po.currency)}
+                  </span>
+                  {po.belowMinimum && isOpen && (
+                    <span className="ml-3 inline-flex items-center gap-1 text-orange-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      Below the supplier&apos;s minimum order
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <a
+                    href={`/api/purchase-orders/${po.id}/pdf`}
+                    className="flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Download className="h-4 w-4" />
+                    PDF
+                  </a>
+                  {po.status === 'draft' && (
+                    <button
+                      type="button"
+                      onClick={() => saveDraft(po)}
+                      disabled={busyId !== null}
+                      className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  )}
+                  {isOpen && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => send(po)}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Send className="h-4 w-4" />
+                        {po.status === 'sent' ? 'Resend' : 'Email supplier'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => receive(po)}
+                        disabled={busyId !== null}
+                        className="rounded-lg bg-green-600 px-3 py-1.5 text-sm text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Receive
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => cancel(po)}
+                        disabled={busyId !== null}
+                        className="rounded-lg px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import type { CreateSupplierInput, Supplier } from '@madebuy/shared'
+import { Pencil, Plus, Trash2, Truck } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface SupplierManagerProps {
+  suppliers: Supplier[]
+}
+
+type SupplierForm = {
+  name: string
+  contactName: string
+  email: string
+  phone: string
+  leadTimeDays: string
+  minimumOrder: string
+}
+
+const EMPTY_FORM: SupplierForm = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  leadTimeDays: '',
+  minimumOrder: '',
+}
+
+export function SupplierManager({ suppliers }: SupplierManagerProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<SupplierForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function startEdit(supplier: Supplier) {
+    setEditingId(supplier.id)
+    setError(null)
+    setForm({
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      leadTimeDays: supplier.leadTimeDays?.toString() || '',
+      minimumOrder: supplier.minimumOrder?.toString() || '',
+    })
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const body: CreateSupplierInput = {
+      name: form.name,
+      contactName: form.contactName || undefined,
+      email: form.email || undefined,
+      phone: form.phone || undefined,
+      leadTimeDays: form.leadTimeDays
+        ? parseInt(form.leadTimeDays, 10)
+        : undefined,
+      minimumOrder: form.minimumOrder
+        ? parseFloat(form.minimumOrder)
+        : undefined,
+    }
+
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(
+        isNew ? '/api/suppliers' : `/api/suppliers/${editingId}`,
+        {
+          method: isNew ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        },
+      )
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save supplier')
+      }
+      setEditingId(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save supplier')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(supplier: Supplier) {
+    if (!confirm(`Delete ${supplier.name}?`)) return
+
+    const res = await fetch(`/api/suppliers/${supplier.id}`, {
+      method: 'DELETE',
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      alert(data.error || 'Failed to delete supplier')
+      return
+    }
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-4">
+      {suppliers.length === 0 && editingId === null && (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <Truck className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No suppliers yet
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            Add suppliers to draft purchase orders when materials run low.
+          </p>
+        </div>
+      )}
+
+      {suppliers.length > 0 && (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Supplier
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Contact
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Lead time
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Minimum order
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {suppliers.map((supplier) => (
+                <tr key={supplier.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900">
+                    {supplier.name}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {[supplier.contactName, supplier.email, supplier.phone]
+                      .filter(Boolean)
+                      .join(' · ') || '-'}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {supplier.leadTimeDays
+                      ? `${supplier.leadTimeDays} days`
+                      : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {supplier.minimumOrder
+                      ? `$${supplier.minimumOrder.toFixed(2)}`
+                      : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => startEdit(supplier)}
+                      className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(supplier)}
+                      className="rounded p-1 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setError(null)
+            setEditingId('new')
+          }}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Supplier
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg bg-white p-6 shadow"
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Name *
+              <input
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Contact name
+              <input
+                value={form.contactName}
+                onChange={(e) =>
+                  setForm({ ...form, contactName: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Email
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="Purchase orders are emailed here"
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Phone
+              <input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Lead time (days)
+              <input
+                type="number"
+                min="0"
+                value={form.leadTimeDays}
+                onChange={(e) =>
+                  setForm({ ...form, leadTimeDays: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Minimum order ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minimumOrder}
+                onChange={(e) =>
+                  setForm({ ...form, minimumOrder: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
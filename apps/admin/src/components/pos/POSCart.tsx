@@ -15,6 +15,7 @@ interface CartItem {
 
 interface POSCartProps {
   items: CartItem[]
+  locationId?: string
   onUpdateQuantity: (index: number, quantity: number) => void
   onRemoveItem: (index: number) => void
   onClearCart: () => void
@@ -22,6 +23,7 @@ interface POSCartProps {
 
 export function POSCart({
   items,
+  locationId,
   onUpdateQuantity,
   onRemoveItem,
   onClearCart,
@@ -172,6 +174,7 @@ export function POSCart({
         <POSCheckout
           items={items}
           subtotal={subtotal}
+          locationId={locationId}
           onComplete={handleCheckoutComplete}
           onClose={() => setShowCheckout(false)}
         />
@@ -15,6 +15,7 @@ interface CartItem {
 interface POSCheckoutProps {
   items: CartItem[]
   subtotal: number
+  locationId?: string // Stock comes out of this location
   onComplete: () => void
   onClose: () => void
 }
@@ -24,6 +25,7 @@ type PaymentMethod = 'cash' | 'card_manual'
 export function POSCheckout({
   items,
   subtotal,
+  locationId,
   onComplete,
   onClose,
 }: POSCheckoutProps) {
@@ -67,12 +69,15 @@ export function POSCheckout({
           customerPhone: customerPhone || undefined,
           paymentMethod,
           subtotal,
+          locationId,
         }),
       })
 
       if (!response.ok) {
         const data = await response.json()
-        throw new Error(data.error || 'Failed to create order')
+        throw new Error(
+          data.details?.items?.[0] || data.error || 'Failed to create order',
+        )
       }
 
       const data = await response.json()
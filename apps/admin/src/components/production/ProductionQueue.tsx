@@ -0,0 +1,204 @@
+'use client'
+
+import type { MaterialShortfall, ProductionQueueItem } from '@madebuy/shared'
+import { AlertTriangle, Hammer } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface ProductionQueueProps {
+  items: ProductionQueueItem[]
+  shortfalls: MaterialShortfall[]
+}
+
+function itemKey(item: ProductionQueueItem): string {
+  return `${item.orderId}:${item.itemIndex}`
+}
+
+function formatDue(due?: Date): string {
+  if (!due) return 'No due date'
+  return new Date(due).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+  })
+}
+
+/**
+ * Queue items grouped by piece - a production run makes one piece, so items
+ * are selected and recorded per group
+ */
+export function ProductionQueue({ items, shortfalls }: ProductionQueueProps) {
+  const router = useRouter()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [savingPieceId, setSavingPieceId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const groups = new Map<string, ProductionQueueItem[]>()
+  for (const item of items) {
+    groups.set(item.pieceId, [...(groups.get(item.pieceId) || []), item])
+  }
+
+  function toggle(item: ProductionQueueItem) {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(itemKey(item))) {
+        next.delete(itemKey(item))
+      } else {
+        next.add(itemKey(item))
+      }
+      return next
+    })
+  }
+
+  async function recordRun(pieceId: string, groupItems: ProductionQueueItem[]) {
+    const chosen = groupItems.filter((item) => selected.has(itemKey(item)))
+    if (chosen.length === 0) return
+
+    setSavingPieceId(pieceId)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/production-runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pieceId,
+          quantityProduced: chosen.reduce(
+            (sum, item) => sum + item.quantity,
+            0,
+          ),
+          orderItems: chosen.map((item) => ({
+            orderId: item.orderId,
+            itemIndex: item.itemIndex,
+          })),
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to record production')
+      }
+      setSelected(new Set())
+      router.refresh()
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to record production',
+      )
+    } finally {
+      setSavingPieceId(null)
+    }
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+        <Hammer className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-4 text-lg font-medium text-gray-900">
+          Nothing to make
+        </h3>
+        <p className="mt-2 text-sm text-gray-600">
+          Made-to-order and personalised items appear here when they&apos;re
+          ordered.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {shortfalls.length > 0 && (
+        <div className="rounded-lg bg-orange-50 border border-orange-200 p-4">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-orange-600 mt-0.5" />
+            <div>
+              <h3 className="font-medium text-orange-900">
+                Not enough materials for the queue
+              </h3>
+              <ul className="mt-1 space-y-0.5 text-sm text-orange-800">
+                {shortfalls.map((shortfall) => (
+                  <li key={shortfall.materialId}>
+                    {shortfall.materialName}: need {shortfall.required}{' '}
+                    {shortfall.unit}, have {shortfall.inStock} (short{' '}
+                    {shortfall.shortfall})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {[...groups.entries()].map(([pieceId, groupItems]) => {
+        const selectedCount = groupItems
+          .filter((item) => selected.has(itemKey(item)))
+          .reduce((sum, item) => sum + item.quantity, 0)
+
+        return (
+          <div key={pieceId} className="rounded-lg bg-white shadow p-6">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                <Link
+                  href={`/dashboard/inventory/${pieceId}`}
+                  className="hover:text-blue-600"
+                >
+                  {groupItems[0].name}
+                </Link>
+              </h2>
+              <button
+                type="button"
+                onClick={() => recordRun(pieceId, groupItems)}
+                disabled={selectedCount === 0 || savingPieceId !== null}
+                className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Hammer className="h-4 w-4" />
+                {savingPieceId === pieceId
+                  ? 'Recording...'
+                  : `Record run${selectedCount ? ` (${selectedCount})` : ''}`}
+              </button>
+            </div>
+
+            <ul className="divide-y divide-gray-100">
+              {groupItems.map((item) => (
+                <li
+                  key={itemKey(item)}
+                  className="flex items-start gap-3 py-3 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(itemKey(item))}
+                    onChange={() => toggle(item)}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between">
+                      <Link
+                        href={`/dashboard/orders/${item.orderId}`}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {item.orderNumber} - {item.customerName}
+                      </Link>
+                      <span className="text-gray-500">
+                        Due {formatDue(item.productionDue)}
+                      </span>
+                    </div>
+                    <p className="text-gray-600">
+                      Qty {item.quantity}
+                      {item.variantAttributes &&
+                        ` · ${Object.values(item.variantAttributes).join(' / ')}`}
+                    </p>
+                    {item.personalizations?.map((p) => (
+                      <p key={p.fieldId} className="text-gray-500">
+                        {p.fieldName}: {String(p.value)}
+                      </p>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import type { Material, Piece, PieceMaterialUsage } from '@madebuy/shared'
-import { useFocusTrap } from '@madebuy/shared'
+import { convertQuantity, useFocusTrap } from '@madebuy/shared'
 import {
   AlertTriangle,
   Calendar,
@@ -59,15 +59,20 @@ export function RecordProductionModal({
     return piece.materialsUsed
       .map((usage) => {
         const material = materialsMap.get(usage.materialId)
-        const quantityNeeded = usage.quantity * quantity
+        // Recipes may use a different unit to the one the material is stocked in
+        const converted = material
+          ? convertQuantity(usage.quantity, usage.unit, material.unit)
+          : null
+        const quantityNeeded = (converted ?? usage.quantity) * quantity
 
         return {
           material: material!,
           usage,
           quantityNeeded,
-          hasStock: material
-            ? material.quantityInStock >= quantityNeeded
-            : false,
+          hasStock:
+            material && converted !== null
+              ? material.quantityInStock >= quantityNeeded
+              : false,
         }
       })
       .filter((c) => c.material) // Filter out any missing materials
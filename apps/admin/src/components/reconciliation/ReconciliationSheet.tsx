@@ -14,6 +14,7 @@ import {
   ClipboardCheck,
   Package,
   RefreshCw,
+  ScanBarcode,
   Search,
   X,
 } from 'lucide-react'
@@ -42,6 +43,10 @@ export function ReconciliationSheet({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [scanCode, setScanCode] = useState('')
+  const [lastScanned, setLastScanned] = useState<ReconciliationItem | null>(
+    null,
+  )
 
   // Initialize or resume reconciliation
   useEffect(() => {
@@ -135,6 +140,37 @@ export function ReconciliationSheet({
     }
   }
 
+  // Count one unit of a scanned item - keyboard-wedge scanners type the code
+  // into the focused input and press Enter
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const code = scanCode.trim()
+    if (!reconciliation || !code) return
+
+    setScanCode('')
+    setError(null)
+
+    try {
+      const res = await fetch(
+        `/api/reconciliations/${reconciliation.id}/scan`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        },
+      )
+      const data = await res.json()
+
+      if (!res.ok) throw new Error(data.error || 'Failed to record scan')
+
+      setReconciliation(data.reconciliation)
+      setLastScanned(data.item)
+    } catch (err) {
+      setLastScanned(null)
+      setError(err instanceof Error ? err.message : 'Failed to record scan')
+    }
+  }
+
   // Complete reconciliation
   const handleComplete = async () => {
     if (!reconciliation) return
@@ -220,7 +256,7 @@ export function ReconciliationSheet({
                   Stock Count
                 </h3>
                 <p className="text-blue-100 text-sm">
-                  {reconciliation?.items.length || 0} materials to count
+                  {reconciliation?.items.length || 0} items to count
                 </p>
               </div>
             </div>
@@ -247,13 +283,33 @@ export function ReconciliationSheet({
         {/* Counting Step */}
         {step === 'counting' && reconciliation && (
           <>
-            {/* Search */}
-            <div className="px-4 py-3 border-b border-gray-200 flex-shrink-0">
+            {/* Scan + Search */}
+            <div className="px-4 py-3 border-b border-gray-200 flex-shrink-0 space-y-2">
+              <form onSubmit={handleScan} className="relative">
+                <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-blue-500" />
+                <input
+                  type="text"
+                  placeholder="Scan a barcode or type a SKU..."
+                  value={scanCode}
+                  onChange={(e) => setScanCode(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                  autoFocus
+                />
+              </form>
+              {lastScanned && (
+                <p className="text-xs text-gray-600">
+                  Counted {lastScanned.itemName}:{' '}
+                  <span className="font-medium">
+                    {lastScanned.actualQuantity}
+                  </span>{' '}
+                  of {lastScanned.expectedQuantity} expected
+                </p>
+              )}
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Search materials..."
+                  placeholder="Search items..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
@@ -460,6 +516,11 @@ function ReconciliationItemRow({
   onUpdate: (qty: number, reason?: ReconciliationReason, notes?: string) => void
 }) {
   const [actualQty, setActualQty] = useState(item.actualQuantity)
+
+  // Scans update the count from outside this row
+  useEffect(() => {
+    setActualQty(item.actualQuantity)
+  }, [item.actualQuantity])
   const [showReason, setShowReason] = useState(false)
   const [reason, setReason] = useState<ReconciliationReason | undefined>(
     item.adjustmentReason,
@@ -0,0 +1,243 @@
+'use client'
+
+import type { ReturnRequest } from '@madebuy/shared'
+import { RETURN_REASON_LABELS } from '@madebuy/shared'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatDate } from '@/lib/utils'
+
+interface ReturnsTableProps {
+  returns: ReturnRequest[]
+}
+
+const STATUS_COLORS: Record<ReturnRequest['status'], string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-100 text-gray-800',
+  received: 'bg-purple-100 text-purple-800',
+  refunded: 'bg-green-100 text-green-800',
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function ReturnsTable({ returns }: ReturnsTableProps) {
+  const router = useRouter()
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  async function runAction(
+    returnRequest: ReturnRequest,
+    url: string,
+    init: RequestInit,
+    fallback: string,
+  ) {
+    setSavingId(returnRequest.id)
+    try {
+      const res = await fetch(url, init)
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, fallback))
+      }
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallback)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  function updateStatus(
+    returnRequest: ReturnRequest,
+    action: 'approve' | 'reject' | 'receive',
+  ) {
+    let reason: string | undefined
+    if (action === 'reject') {
+      const entered = prompt('Reason for declining (shown to the buyer)')
+      if (entered === null) return
+      reason = entered
+    }
+    runAction(
+      returnRequest,
+      `/api/returns/${returnRequest.id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason }),
+      },
+      'Failed to update return',
+    )
+  }
+
+  function createLabel(returnRequest: ReturnRequest) {
+    runAction(
+      returnRequest,
+      `/api/returns/${returnRequest.id}/label`,
+      { method: 'POST' },
+      'Failed to create return label',
+    )
+  }
+
+  if (returns.length === 0) {
+    return <p className="text-sm text-gray-600">No return requests yet.</p>
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg bg-white shadow">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              RMA
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Items
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Reason
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Status
+            </th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {returns.map((returnRequest) => {
+            const saving = savingId === returnRequest.id
+            return (
+              <tr key={returnRequest.id} className="align-top">
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">
+                    {returnRequest.rmaNumber}
+                  </div>
+                  <Link
+                    href={`/dashboard/orders/${returnRequest.orderId}`}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    {returnRequest.orderNumber}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {returnRequest.customerName} -{' '}
+                    {formatDate(returnRequest.createdAt)}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-gray-700">
+                  {returnRequest.items.map((item, index) => (
+                    <div key={index}>
+                      {item.quantity}x {item.name}
+                    </div>
+                  ))}
+                </td>
+                <td className="px-4 py-3 text-gray-700">
+                  {RETURN_REASON_LABELS[returnRequest.reason]}
+                  {returnRequest.details && (
+                    <p className="mt-1 max-w-xs text-xs text-gray-500">
+                      {returnRequest.details}
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_COLORS[returnRequest.status]}`}
+                  >
+                    {returnRequest.status}
+                  </span>
+                  {returnRequest.trackingNumber && (
+                    <div className="mt-1 text-xs">
+                      {returnRequest.trackingUrl ? (
+                        <a
+                          href={returnRequest.trackingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          {returnRequest.trackingNumber}
+                        </a>
+                      ) : (
+                        returnRequest.trackingNumber
+                      )}
+                    </div>
+                  )}
+                  {returnRequest.rejectionReason && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {returnRequest.rejectionReason}
+                    </p>
+                  )}
+                </td>
+                <td className="space-x-2 whitespace-nowrap px-4 py-3 text-right">
+                  {returnRequest.status === 'requested' && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => updateStatus(returnRequest, 'approve')}
+                      className="rounded-lg bg-blue-600 px-3 py-1 text-xs text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {returnRequest.status === 'approved' &&
+                    !returnRequest.sendleOrderId && (
+                      <button
+                        type="button"
+                        disabled={saving}
+                        onClick={() => createLabel(returnRequest)}
+                        className="rounded-lg border border-gray-300 px-3 py-1 text-xs hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Send label
+                      </button>
+                    )}
+                  {returnRequest.labelUrl && (
+                    <a
+                      href={returnRequest.labelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      Label
+                    </a>
+                  )}
+                  {returnRequest.status === 'approved' && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => updateStatus(returnRequest, 'receive')}
+                      className="rounded-lg border border-gray-300 px-3 py-1 text-xs hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Received
+                    </button>
+                  )}
+                  {(returnRequest.status === 'approved' ||
+                    returnRequest.status === 'received') && (
+                    <Link
+                      href={`/dashboard/orders/${returnRequest.orderId}`}
+                      className="text-xs font-medium text-orange-700 hover:underline"
+                    >
+                      Refund
+                    </Link>
+                  )}
+                  {(returnRequest.status === 'requested' ||
+                    returnRequest.status === 'approved') && (
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => updateStatus(returnRequest, 'reject')}
+                      className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      Decline
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
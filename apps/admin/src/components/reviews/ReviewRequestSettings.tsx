@@ -0,0 +1,101 @@
+'use client'
+
+import type { ReviewRequestSettings as Settings } from '@madebuy/shared'
+import { Loader2, Mail, Save } from 'lucide-react'
+import { useState } from 'react'
+
+interface ReviewRequestSettingsProps {
+  initialSettings: Settings
+}
+
+/**
+ * Toggle post-delivery review request emails and set how long to wait
+ */
+export function ReviewRequestSettings({
+  initialSettings,
+}: ReviewRequestSettingsProps) {
+  const [enabled, setEnabled] = useState(initialSettings.enabled)
+  const [delayDays, setDelayDays] = useState(String(initialSettings.delayDays))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      const response = await fetch('/api/reviews/request-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled, delayDays: Number(delayDays) }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(
+          data.details?.delayDays?.[0] || data.error || 'Failed to save',
+        )
+      }
+
+      setSaved(true)
+      setTimeout(() => setSaved(false), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300 text-blue-600"
+        />
+        <Mail className="h-4 w-4 text-gray-400" />
+        Email buyers asking for a review
+      </label>
+
+      <div>
+        <label
+          htmlFor="reviewRequestDelay"
+          className="block text-xs font-medium text-gray-600 mb-1"
+        >
+          Days after delivery
+        </label>
+        <input
+          id="reviewRequestDelay"
+          type="number"
+          min="1"
+          max="60"
+          value={delayDays}
+          onChange={(e) => setDelayDays(e.target.value)}
+          disabled={!enabled}
+          className="w-24 rounded-lg border border-gray-300 px-3 py-1.5 text-sm disabled:bg-gray-100"
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4" />
+        )}
+        Save
+      </button>
+
+      {saved && <span className="text-sm text-green-600">Saved</span>}
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  )
+}
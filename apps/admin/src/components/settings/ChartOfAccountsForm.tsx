@@ -0,0 +1,111 @@
+'use client'
+
+import type { ChartOfAccounts } from '@madebuy/shared'
+import { CHART_OF_ACCOUNTS_LABELS } from '@madebuy/shared'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface ChartOfAccountsFormProps {
+  accounts: ChartOfAccounts
+}
+
+const ACCOUNT_HINTS: Record<keyof ChartOfAccounts, string> = {
+  sales: 'Income from sales, excluding GST',
+  refunds: 'Refunds to customers, excluding GST',
+  gst: 'GST collected on sales and returned on refunds',
+  paymentFees: 'Stripe and platform fees',
+  payoutClearing: 'Stripe balance waiting to be paid out',
+  bank: 'The account Stripe pays out to',
+  cogs: 'Cost of the pieces sold',
+  inventory: 'Stock on hand, reduced as pieces sell',
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, unknown> },
+  fallback: string,
+): string {
+  const detail = Object.values(data.details ?? {})[0]
+  return (Array.isArray(detail) && detail[0]) || data.error || fallback
+}
+
+export function ChartOfAccountsForm({ accounts }: ChartOfAccountsFormProps) {
+  const router = useRouter()
+  const [draft, setDraft] = useState<ChartOfAccounts>(accounts)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error'
+    text: string
+  } | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/accounting', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accounts: draft }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(errorMessage(data, 'Failed to save accounts'))
+      }
+      setDraft(data.accounts)
+      setMessage({ type: 'success', text: 'Account codes saved' })
+      router.refresh()
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to save accounts',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-lg bg-white p-6 shadow">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {(
+          Object.keys(CHART_OF_ACCOUNTS_LABELS) as (keyof ChartOfAccounts)[]
+        ).map((key) => (
+          <label key={key} className="block text-sm font-medium text-gray-700">
+            {CHART_OF_ACCOUNTS_LABELS[key]}
+            <input
+              required
+              maxLength={10}
+              value={draft[key]}
+              onChange={(e) =>
+                setDraft((current) => ({ ...current, [key]: e.target.value }))
+              }
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-normal"
+            />
+            <span className="mt-1 block text-xs font-normal text-gray-500">
+              {ACCOUNT_HINTS[key]}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-6 flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save account codes'}
+        </button>
+        {message && (
+          <span
+            className={`text-sm ${
+              message.type === 'success' ? 'text-green-600' : 'text-red-600'
+            }`}
+          >
+            {message.text}
+          </span>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,550 @@
+'use client'
+
+import type { ShippingRateTable, ShippingRateZone } from '@madebuy/shared'
+import { Loader2, Package, Plus, Save, Trash2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+interface CarrierSettingsResponse {
+  auspost: { enabled: boolean; apiKey: string }
+  rateTables: ShippingRateTable[]
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+const newId = () => Math.random().toString(36).slice(2, 10)
+
+function newZone(): ShippingRateZone {
+  return {
+    id: newId(),
+    name: 'Australia',
+    countries: ['AU'],
+    brackets: [{ maxWeightGrams: 500, priceCents: 995 }],
+  }
+}
+
+function newRateTable(): ShippingRateTable {
+  return {
+    id: newId(),
+    name: 'Standard Post',
+    enabled: true,
+    estimatedDays: { min: 3, max: 7 },
+    zones: [newZone()],
+  }
+}
+
+// Comma-separated inputs for countries, states and postcodes
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+/**
+ * Australia Post and seller rate tables, quoted alongside Sendle at checkout
+ */
+export function ShippingCarriersSettings() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const [auspostEnabled, setAuspostEnabled] = useState(false)
+  const [auspostApiKey, setAuspostApiKey] = useState('')
+  const [rateTables, setRateTables] = useState<ShippingRateTable[]>([])
+
+  useEffect(() => {
+    async function loadSettings() {
+      try {
+        const response = await fetch('/api/shipping/carriers')
+        if (response.ok) {
+          const data: CarrierSettingsResponse = await response.json()
+          setAuspostEnabled(data.auspost.enabled)
+          setAuspostApiKey(data.auspost.apiKey)
+          setRateTables(data.rateTables)
+        }
+      } catch (err) {
+        console.error('Failed to load carrier settings:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadSettings()
+  }, [])
+
+  const updateTable = (
+    tableId: string,
+    changes: Partial<ShippingRateTable>,
+  ) => {
+    setRateTables((tables) =>
+      tables.map((table) =>
+        table.id === tableId ? { ...table, ...changes } : table,
+      ),
+    )
+  }
+
+  const updateZone = (
+    table: ShippingRateTable,
+    zoneId: string,
+    changes: Partial<ShippingRateZone>,
+  ) => {
+    updateTable(table.id, {
+      zones: table.zones.map((zone) =>
+        zone.id === zoneId ? { ...zone, ...changes } : zone,
+      ),
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const response = await fetch('/api/shipping/carriers', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          auspost: {
+            enabled: auspostEnabled,
+            apiKey: auspostApiKey || undefined,
+          },
+          rateTables,
+        }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setAuspostApiKey(data.auspost.apiKey)
+        setRateTables(data.rateTables)
+        setSuccess('Carrier settings saved.')
+        setTimeout(() => setSuccess(null), 3000)
+      } else {
+        setError(data.error || 'Failed to save carrier settings')
+      }
+    } catch (_err) {
+      setError('Failed to save carrier settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white overflow-hidden">
+      <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-purple-100">
+            <Package className="h-5 w-5 text-purple-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              More Carriers
+            </h2>
+            <p className="text-sm text-gray-500">
+              Quote Australia Post and your own rate tables alongside Sendle.
+              Checkout highlights the cheapest and fastest option.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {/* Australia Post */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">
+                Australia Post
+              </h3>
+              <p className="text-sm text-gray-500">
+                Live Parcel Post and Express Post prices from the Postage
+                Assessment Calculator
+              </p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={auspostEnabled}
+              onClick={() => setAuspostEnabled(!auspostEnabled)}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                auspostEnabled ? 'bg-blue-600' : 'bg-gray-200'
+              }`}
+            >
+              <span
+                className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                  auspostEnabled ? 'translate-x-5' : 'translate-x-0'
+                }`}
+              />
+            </button>
+          </div>
+
+          {auspostEnabled && (
+            <div>
+              <label
+                htmlFor="auspostApiKey"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                PAC API key
+              </label>
+              <input
+                type="text"
+                id="auspostApiKey"
+                value={auspostApiKey}
+                onChange={(e) => setAuspostApiKey(e.target.value)}
+                placeholder="Your Australia Post developer API key"
+                className={`${inputClassName} font-mono`}
+              />
+              <p className="mt-1.5 text-xs text-gray-500">
+                Get a free key from{' '}
+                <a
+                  href="https://developers.auspost.com.au/apis/pacpcs-registration"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  Australia Post Developer Centre
+                </a>
+                . Quotes use the Sendle pickup postcode as the origin.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Rate tables */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Rate Tables</h3>
+              <p className="text-sm text-gray-500">
+                Your own prices by weight and zone. Items use their shipping
+                weight and dimensions.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setRateTables([...rateTables, newRateTable()])}
+              className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Plus className="h-4 w-4" />
+              Add rate table
+            </button>
+          </div>
+
+          {rateTables.map((table) => (
+            <div
+              key={table.id}
+              className="rounded-lg border border-gray-200 p-4 space-y-4"
+            >
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Service name
+                  </label>
+                  <input
+                    type="text"
+                    value={table.name}
+                    onChange={(e) =>
+                      updateTable(table.id, { name: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Delivery days (min - max)
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      value={table.estimatedDays.min}
+                      onChange={(e) =>
+                        updateTable(table.id, {
+                          estimatedDays: {
+                            ...table.estimatedDays,
+                            min: Number(e.target.value),
+                          },
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      value={table.estimatedDays.max}
+                      onChange={(e) =>
+                        updateTable(table.id, {
+                          estimatedDays: {
+                            ...table.estimatedDays,
+                            max: Number(e.target.value),
+                          },
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Cubic divisor (cm³/kg)
+                  </label>
+                  <input
+                    type="number"
+                    min="1000"
+                    value={table.volumetricDivisor ?? ''}
+                    onChange={(e) =>
+                      updateTable(table.id, {
+                        volumetricDivisor: e.target.value
+                          ? Number(e.target.value)
+                          : undefined,
+                      })
+                    }
+                    placeholder="Dead weight only"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              {table.zones.map((zone) => (
+                <div
+                  key={zone.id}
+                  className="rounded-lg bg-gray-50 p-3 space-y-3"
+                >
+                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-4">
+                    <input
+                      type="text"
+                      value={zone.name}
+                      onChange={(e) =>
+                        updateZone(table, zone.id, { name: e.target.value })
+                      }
+                      placeholder="Zone name"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={zone.countries.join(', ')}
+                      onChange={(e) =>
+                        updateZone(table, zone.id, {
+                          countries: splitList(e.target.value),
+                        })
+                      }
+                      placeholder="Countries, e.g. AU"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={zone.states?.join(', ') ?? ''}
+                      onChange={(e) =>
+                        updateZone(table, zone.id, {
+                          states: splitList(e.target.value),
+                        })
+                      }
+                      placeholder="States, e.g. NSW, ACT"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={zone.postcodes?.join(', ') ?? ''}
+                      onChange={(e) =>
+                        updateZone(table, zone.id, {
+                          postcodes: splitList(e.target.value),
+                        })
+                      }
+                      placeholder="Postcodes, e.g. 2000-2249"
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    {zone.brackets.map((bracket, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500">Up to</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={bracket.maxWeightGrams}
+                          onChange={(e) =>
+                            updateZone(table, zone.id, {
+                              brackets: zone.brackets.map((b, i) =>
+                                i === index
+                                  ? {
+                                      ...b,
+                                      maxWeightGrams: Number(e.target.value),
+                                    }
+                                  : b,
+                              ),
+                            })
+                          }
+                          className={`${inputClassName} w-28`}
+                        />
+                        <span className="text-xs text-gray-500">g for $</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={bracket.priceCents / 100}
+                          onChange={(e) =>
+                            updateZone(table, zone.id, {
+                              brackets: zone.brackets.map((b, i) =>
+                                i === index
+                                  ? {
+                                      ...b,
+                                      priceCents: Math.round(
+                                        Number(e.target.value) * 100,
+                                      ),
+                                    }
+                                  : b,
+                              ),
+                            })
+                          }
+                          className={`${inputClassName} w-28`}
+                        />
+                        {zone.brackets.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateZone(table, zone.id, {
+                                brackets: zone.brackets.filter(
+                                  (_, i) => i !== index,
+                                ),
+                              })
+                            }
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label="Remove weight band"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const last = zone.brackets[zone.brackets.length - 1]
+                          updateZone(table, zone.id, {
+                            brackets: [
+                              ...zone.brackets,
+                              {
+                                maxWeightGrams:
+                                  (last?.maxWeightGrams ?? 0) + 500,
+                                priceCents: last?.priceCents ?? 0,
+                              },
+                            ],
+                          })
+                        }}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Add weight band
+                      </button>
+                      <span className="text-xs text-gray-500">
+                        Then $ per extra kg
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={
+                          zone.extraPerKgCents === undefined
+                            ? ''
+                            : zone.extraPerKgCents / 100
+                        }
+                        onChange={(e) =>
+                          updateZone(table, zone.id, {
+                            extraPerKgCents: e.target.value
+                              ? Math.round(Number(e.target.value) * 100)
+                              : undefined,
+                          })
+                        }
+                        placeholder="No quote"
+                        className={`${inputClassName} w-28`}
+                      />
+                      {table.zones.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateTable(table.id, {
+                              zones: table.zones.filter(
+                                (z) => z.id !== zone.id,
+                              ),
+                            })
+                          }
+                          className="ml-auto text-sm text-red-600 hover:underline"
+                        >
+                          Remove zone
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateTable(table.id, {
+                      zones: [...table.zones, newZone()],
+                    })
+                  }
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Add zone
+                </button>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={table.enabled}
+                      onChange={(e) =>
+                        updateTable(table.id, { enabled: e.target.checked })
+                      }
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    Show at checkout
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setRateTables(rateTables.filter((t) => t.id !== table.id))
+                    }
+                    className="text-sm text-red-600 hover:underline"
+                  >
+                    Delete table
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {success && <p className="text-sm text-green-600">{success}</p>}
+
+        <div className="pt-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-white font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            Save Carrier Settings
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
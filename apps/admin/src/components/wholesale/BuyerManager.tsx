@@ -0,0 +1,441 @@
+'use client'
+
+import type { CreateWholesaleBuyerInput, WholesaleBuyer } from '@madebuy/shared'
+import { Pencil, Plus, Store, Trash2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface BuyerManagerProps {
+  buyers: WholesaleBuyer[]
+  pieces: Array<{ id: string; name: string; price?: number }> // Price in cents
+}
+
+type BuyerForm = {
+  businessName: string
+  contactName: string
+  email: string
+  phone: string
+  abn: string
+  line1: string
+  city: string
+  state: string
+  postcode: string
+  paymentTermsDays: string
+  discountPercent: string
+  prices: Array<{ pieceId: string; price: string }>
+}
+
+const EMPTY_FORM: BuyerForm = {
+  businessName: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  abn: '',
+  line1: '',
+  city: '',
+  state: '',
+  postcode: '',
+  paymentTermsDays: '30',
+  discountPercent: '50',
+  prices: [],
+}
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+export function BuyerManager({ buyers, pieces }: BuyerManagerProps) {
+  const router = useRouter()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<BuyerForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function startEdit(buyer: WholesaleBuyer) {
+    setEditingId(buyer.id)
+    setError(null)
+    setForm({
+      businessName: buyer.businessName,
+      contactName: buyer.contactName || '',
+      email: buyer.email,
+      phone: buyer.phone || '',
+      abn: buyer.abn || '',
+      line1: buyer.billingAddress?.line1 || '',
+      city: buyer.billingAddress?.city || '',
+      state: buyer.billingAddress?.state || '',
+      postcode: buyer.billingAddress?.postcode || '',
+      paymentTermsDays: String(buyer.paymentTermsDays),
+      discountPercent: String(buyer.discountPercent),
+      prices: buyer.prices.map((p) => ({
+        pieceId: p.pieceId,
+        price: (p.price / 100).toFixed(2),
+      })),
+    })
+  }
+
+  function updatePrice(
+    index: number,
+    changes: { pieceId?: string; price?: string },
+  ) {
+    setForm({
+      ...form,
+      prices: form.prices.map((p, i) =>
+        i === index ? { ...p, ...changes } : p,
+      ),
+    })
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    if (!res.ok) {
+      const data = await res.json()
+      throw new Error(errorMessage(data, 'Something went wrong'))
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const body: CreateWholesaleBuyerInput = {
+      businessName: form.businessName,
+      contactName: form.contactName,
+      email: form.email,
+      phone: form.phone,
+      abn: form.abn,
+      billingAddress: form.line1
+        ? {
+            line1: form.line1,
+            city: form.city,
+            state: form.state,
+            postcode: form.postcode,
+            country: 'AU',
+          }
+        : undefined,
+      paymentTermsDays: parseInt(form.paymentTermsDays, 10),
+      discountPercent: parseFloat(form.discountPercent) || 0,
+      prices: form.prices
+        .filter((p) => p.pieceId && p.price)
+        .map((p) => ({
+          pieceId: p.pieceId,
+          price: Math.round(parseFloat(p.price) * 100),
+        })),
+    }
+
+    try {
+      if (editingId === 'new') {
+        await send('/api/wholesale/buyers', 'POST', body)
+      } else {
+        await send(`/api/wholesale/buyers/${editingId}`, 'PATCH', body)
+      }
+      setEditingId(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save buyer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(buyer: WholesaleBuyer) {
+    if (!confirm(`Delete ${buyer.businessName}?`)) return
+    try {
+      await send(`/api/wholesale/buyers/${buyer.id}`, 'DELETE')
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete buyer')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {buyers.length === 0 && editingId === null && (
+        <div className="rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <Store className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No wholesale buyers yet
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            Add the retailers you sell to, with their trade prices and payment
+            terms.
+          </p>
+        </div>
+      )}
+
+      {buyers.length > 0 && (
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Buyer
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Terms
+                </th>
+                <th className="px-4 py-3 text-left font-medium text-gray-500">
+                  Pricing
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {buyers.map((buyer) => (
+                <tr key={buyer.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {buyer.businessName}
+                    </div>
+                    <div className="text-xs text-gray-500">{buyer.email}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {buyer.paymentTermsDays === 0
+                      ? 'Due on receipt'
+                      : `Net ${buyer.paymentTermsDays}`}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {buyer.discountPercent}% off retail
+                    {buyer.prices.length > 0 &&
+                      `, ${buyer.prices.length} listed ${buyer.prices.length === 1 ? 'price' : 'prices'}`}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => startEdit(buyer)}
+                      className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(buyer)}
+                      className="rounded p-1 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setError(null)
+            setEditingId('new')
+          }}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Buyer
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg bg-white p-6 shadow"
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Business name *
+              <input
+                required
+                value={form.businessName}
+                onChange={(e) =>
+                  setForm({ ...form, businessName: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Invoice email *
+              <input
+                required
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Contact name
+              <input
+                value={form.contactName}
+                onChange={(e) =>
+                  setForm({ ...form, contactName: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Phone
+              <input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              ABN
+              <input
+                value={form.abn}
+                onChange={(e) => setForm({ ...form, abn: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Street address
+              <input
+                value={form.line1}
+                onChange={(e) => setForm({ ...form, line1: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <div className="grid grid-cols-3 gap-2 md:col-span-2">
+              <input
+                placeholder="Suburb"
+                value={form.city}
+                onChange={(e) => setForm({ ...form, city: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <input
+                placeholder="State"
+                value={form.state}
+                onChange={(e) => setForm({ ...form, state: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <input
+                placeholder="Postcode"
+                value={form.postcode}
+                onChange={(e) => setForm({ ...form, postcode: e.target.value })}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <label className="block text-sm font-medium text-gray-700">
+              Payment terms (days)
+              <input
+                type="number"
+                min="0"
+                value={form.paymentTermsDays}
+                onChange={(e) =>
+                  setForm({ ...form, paymentTermsDays: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Discount off retail (%)
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={form.discountPercent}
+                onChange={(e) =>
+                  setForm({ ...form, discountPercent: e.target.value })
+                }
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Price list</h3>
+            <p className="mb-2 text-xs text-gray-500">
+              Listed prices replace the discount for those pieces.
+            </p>
+            <div className="space-y-2">
+              {form.prices.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <select
+                    value={entry.pieceId}
+                    onChange={(e) =>
+                      updatePrice(index, { pieceId: e.target.value })
+                    }
+                    className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                  >
+                    <option value="">Choose a piece</option>
+                    {pieces.map((piece) => (
+                      <option key={piece.id} value={piece.id}>
+                        {piece.name}
+                        {piece.price !== undefined &&
+                          ` (retail $${(piece.price / 100).toFixed(2)})`}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Price"
+                    value={entry.price}
+                    onChange={(e) =>
+                      updatePrice(index, { price: e.target.value })
+                    }
+                    className="w-28 rounded-lg border border-gray-300 px-3 py-2"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        prices: form.prices.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="rounded p-1 text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    prices: [...form.prices, { pieceId: '', price: '' }],
+                  })
+                }
+                className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+              >
+                <Plus className="h-4 w-4" />
+                Add price
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
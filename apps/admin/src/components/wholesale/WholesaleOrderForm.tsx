@@ -0,0 +1,257 @@
+'use client'
+
+import type { CreateWholesaleOrderInput, WholesaleBuyer } from '@madebuy/shared'
+import { getWholesalePrice } from '@madebuy/shared'
+import { Plus, Trash2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency } from '@/lib/utils'
+
+interface WholesaleOrderFormProps {
+  buyers: WholesaleBuyer[]
+  pieces: Array<{ id: string; name: string; price?: number; stock?: number }> // Price in cents
+}
+
+type OrderLine = { pieceId: string; quantity: string }
+
+function errorMessage(
+  data: { error?: string; details?: Record<string, string[]> },
+  fallback: string,
+): string {
+  return Object.values(data.details ?? {})[0]?.[0] || data.error || fallback
+}
+
+export function WholesaleOrderForm({
+  buyers,
+  pieces,
+}: WholesaleOrderFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [buyerId, setBuyerId] = useState(buyers[0]?.id ?? '')
+  const [lines, setLines] = useState<OrderLine[]>([
+    { pieceId: '', quantity: '1' },
+  ])
+  const [shipping, setShipping] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const buyer = buyers.find((b) => b.id === buyerId)
+
+  function unitPrice(pieceId: string): number {
+    const piece = pieces.find((p) => p.id === pieceId)
+    if (!buyer || !piece) return 0
+    return getWholesalePrice(buyer, piece.id, piece.price ?? 0)
+  }
+
+  const subtotal = lines.reduce(
+    (sum, line) =>
+      sum + unitPrice(line.pieceId) * (parseInt(line.quantity, 10) || 0),
+    0,
+  )
+
+  function updateLine(index: number, changes: Partial<OrderLine>) {
+    setLines(lines.map((l, i) => (i === index ? { ...l, ...changes } : l)))
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const body: CreateWholesaleOrderInput = {
+      buyerId,
+      items: lines
+        .filter((line) => line.pieceId)
+        .map((line) => ({
+          pieceId: line.pieceId,
+          quantity: parseInt(line.quantity, 10),
+        })),
+      shipping: shipping ? Math.round(parseFloat(shipping) * 100) : 0,
+      notes: notes || undefined,
+    }
+
+    try {
+      const res = await fetch('/api/wholesale/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(errorMessage(data, 'Failed to create order'))
+      }
+      setOpen(false)
+      setLines([{ pieceId: '', quantity: '1' }])
+      setShipping('')
+      setNotes('')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (buyers.length === 0) return null
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setError(null)
+          setOpen(true)
+        }}
+        className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+      >
+        <Plus className="h-4 w-4" />
+        New Wholesale Order
+      </button>
+    )
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 rounded-lg bg-white p-6 shadow"
+    >
+      <label className="block text-sm font-medium text-gray-700">
+        Buyer
+        <select
+          value={buyerId}
+          onChange={(e) => setBuyerId(e.target.value)}
+          className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+        >
+          {buyers.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.businessName}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-2">
+        {lines.map((line, index) => {
+          const price = unitPrice(line.pieceId)
+          return (
+            <div
+              key={index}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              <select
+                value={line.pieceId}
+                onChange={(e) => updateLine(index, { pieceId: e.target.value })}
+                className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2"
+              >
+                <option value="">Choose a piece</option>
+                {pieces.map((piece) => (
+                  <option key={piece.id} value={piece.id}>
+                    {piece.name}
+                    {piece.stock !== undefined && ` (${piece.stock} available)`}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="1"
+                value={line.quantity}
+                onChange={(e) =>
+                  updateLine(index, { quantity: e.target.value })
+                }
+                className="w-20 rounded-lg border border-gray-300 px-3 py-2"
+                aria-label="Quantity"
+              />
+              <span className="w-24 text-right text-gray-600">
+                {line.pieceId ? `${formatCurrency(price / 100)} ea` : ''}
+              </span>
+              {lines.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                  className="rounded p-1 text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          )
+        })}
+        <button
+          type="button"
+          onClick={() => setLines([...lines, { pieceId: '', quantity: '1' }])}
+          className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+        >
+          <Plus className="h-4 w-4" />
+          Add piece
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Shipping
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={shipping}
+            onChange={(e) => setShipping(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Notes for the invoice
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+      </div>
+
+      <p className="text-sm text-gray-700">
+        Total{' '}
+        <span className="font-semibold">
+          {formatCurrency(
+            (subtotal + (Math.round(parseFloat(shipping) * 100) || 0)) / 100,
+          )}
+        </span>
+        {buyer && (
+          <span className="text-gray-500">
+            {' '}
+            -{' '}
+            {buyer.paymentTermsDays === 0
+              ? 'due on receipt'
+              : `due in ${buyer.paymentTermsDays} days`}
+          </span>
+        )}
+      </p>
+
+      {!buyer?.billingAddress && (
+        <p className="text-xs text-amber-700">
+          Add a billing address for this buyer so the order has somewhere to
+          ship.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Creating...' : 'Create order'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
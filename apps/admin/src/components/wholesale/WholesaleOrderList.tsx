@@ -0,0 +1,136 @@
+'use client'
+
+import type { Order } from '@madebuy/shared'
+import { CheckCircle, FileText } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { formatCurrency } from '@/lib/utils'
+
+interface WholesaleOrderListProps {
+  orders: Order[]
+}
+
+export function WholesaleOrderList({ orders }: WholesaleOrderListProps) {
+  const router = useRouter()
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  async function handleMarkPaid(order: Order) {
+    if (!confirm(`Mark invoice ${order.orderNumber} as paid?`)) return
+    setSavingId(order.id)
+    try {
+      const res = await fetch(`/api/wholesale/orders/${order.id}/paid`, {
+        method: 'POST',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to mark paid')
+      }
+      router.refresh()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to mark paid')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (orders.length === 0) {
+    return <p className="text-sm text-gray-600">No wholesale orders yet.</p>
+  }
+
+  const now = new Date()
+
+  return (
+    <div className="overflow-hidden rounded-lg bg-white shadow">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Invoice
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Buyer
+            </th>
+            <th className="px-4 py-3 text-right font-medium text-gray-500">
+              Total
+            </th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">
+              Due
+            </th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {orders.map((order) => {
+            const paid = order.paymentStatus === 'paid'
+            const dueDate = order.wholesale
+              ? new Date(order.wholesale.dueDate)
+              : null
+            const overdue =
+              !paid &&
+              order.status !== 'cancelled' &&
+              dueDate !== null &&
+              dueDate < now
+            return (
+              <tr key={order.id}>
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/dashboard/orders/${order.id}`}
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    {order.orderNumber}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {new Date(order.createdAt).toLocaleDateString()}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-gray-900">
+                  {order.wholesale?.businessName}
+                </td>
+                <td className="px-4 py-3 text-right text-gray-900">
+                  {formatCurrency(order.total, order.currency)}
+                </td>
+                <td className="px-4 py-3">
+                  {paid ? (
+                    <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                      Paid
+                    </span>
+                  ) : (
+                    <span
+                      className={
+                        overdue ? 'font-medium text-red-600' : 'text-gray-600'
+                      }
+                    >
+                      {dueDate?.toLocaleDateString()}
+                      {overdue && ' (overdue)'}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <a
+                    href={`/api/wholesale/orders/${order.id}/invoice`}
+                    title="Download invoice"
+                    className="inline-flex rounded p-1 text-gray-500 hover:bg-gray-100"
+                  >
+                    <FileText className="h-4 w-4" />
+                  </a>
+                  {!paid && order.status !== 'cancelled' && (
+                    <button
+                      type="button"
+                      disabled={savingId === order.id}
+                      onClick={() => handleMarkPaid(order)}
+                      title="Mark paid"
+                      className="rounded p-1 text-green-700 hover:bg-green-50 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
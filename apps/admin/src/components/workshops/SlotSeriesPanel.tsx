@@ -0,0 +1,347 @@
+'use client'
+
+import type { CreateSlotSeriesInput, WorkshopSlotSeries } from '@madebuy/shared'
+import { Pencil, Repeat, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface SlotSeriesPanelProps {
+  workshopId: string
+  series: WorkshopSlotSeries[]
+  onChange: () => void
+}
+
+type SeriesForm = {
+  daysOfWeek: number[]
+  intervalWeeks: number
+  startTime: string
+  startDate: string
+  weeks: string
+  skipPublicHolidays: boolean
+  capacity: string
+}
+
+const EMPTY_FORM: SeriesForm = {
+  daysOfWeek: [6],
+  intervalWeeks: 1,
+  startTime: '10:00',
+  startDate: '',
+  weeks: '12',
+  skipPublicHolidays: true,
+  capacity: '',
+}
+
+function describeSeries(series: WorkshopSlotSeries): string {
+  const days = series.daysOfWeek.map((day) => DAY_LABELS[day]).join(', ')
+  const every = series.intervalWeeks === 2 ? 'Every second' : 'Every'
+  const length = series.endDate
+    ? `until ${series.endDate}`
+    : `for ${series.weeks} weeks`
+  return `${every} ${days} at ${series.startTime} from ${series.startDate} ${length}`
+}
+
+/**
+ * Recurring slot rules - create, edit (applies to all future slots) and delete
+ */
+export function SlotSeriesPanel({
+  workshopId,
+  series,
+  onChange,
+}: SlotSeriesPanelProps) {
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<SeriesForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const editingSeries = series.find((item) => item.id === editingId)
+
+  function startEdit(item: WorkshopSlotSeries) {
+    setEditingId(item.id)
+    setMessage(null)
+    setForm({
+      daysOfWeek: item.daysOfWeek,
+      intervalWeeks: item.intervalWeeks,
+      startTime: item.startTime,
+      startDate: item.startDate,
+      weeks: item.weeks ? String(item.weeks) : '',
+      skipPublicHolidays: item.skipPublicHolidays,
+      capacity: item.capacity ? String(item.capacity) : '',
+    })
+  }
+
+  function toggleDay(day: number) {
+    setForm((current) => ({
+      ...current,
+      daysOfWeek: current.daysOfWeek.includes(day)
+        ? current.daysOfWeek.filter((d) => d !== day)
+        : [...current.daysOfWeek, day],
+    }))
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    const body: CreateSlotSeriesInput = {
+      daysOfWeek: form.daysOfWeek,
+      intervalWeeks: form.intervalWeeks,
+      startTime: form.startTime,
+      startDate: form.startDate,
+      weeks: form.weeks ? parseInt(form.weeks) : undefined,
+      skipPublicHolidays: form.skipPublicHolidays,
+      capacity: form.capacity ? parseInt(form.capacity) : undefined,
+    }
+
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(
+        isNew
+          ? `/api/workshops/${workshopId}/slots/series`
+          : `/api/workshops/${workshopId}/slots/series/${editingId}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        },
+      )
+      const data = await res.json()
+
+      if (!res.ok) {
+        setMessage(data.error || 'Failed to save series')
+        return
+      }
+
+      const summary = [
+        data.created && `${data.created} created`,
+        data.updated && `${data.updated} updated`,
+        data.removed && `${data.removed} removed`,
+        data.detached &&
+          `${data.detached} booked slot${data.detached === 1 ? '' : 's'} kept outside the series`,
+      ].filter(Boolean)
+      setMessage(summary.length ? `Slots: ${summary.join(', ')}` : null)
+      setEditingId(null)
+      onChange()
+    } catch (error) {
+      console.error('Failed to save series:', error)
+      setMessage('Failed to save series')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(seriesId: string) {
+    if (
+      !confirm(
+        'Delete this series? Future slots without bookings will be removed.',
+      )
+    ) {
+      return
+    }
+
+    try {
+      const res = await fetch(
+        `/api/workshops/${workshopId}/slots/series/${seriesId}`,
+        { method: 'DELETE' },
+      )
+      if (!res.ok) {
+        const data = await res.json()
+        alert(data.error || 'Failed to delete series')
+        return
+      }
+      onChange()
+    } catch (error) {
+      console.error('Failed to delete series:', error)
+    }
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      {series.map((item) => (
+        <div
+          key={item.id}
+          className="flex items-center justify-between rounded-lg border border-blue-100 bg-blue-50 p-3 text-sm"
+        >
+          <div className="flex items-center gap-2 text-blue-900">
+            <Repeat className="h-4 w-4" />
+            {describeSeries(item)}
+            {item.skipPublicHolidays && (
+              <span className="text-xs text-blue-700">
+                (skips public holidays)
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => startEdit(item)}
+              className="rounded p-1 text-blue-700 hover:bg-blue-100"
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(item.id)}
+              className="rounded p-1 text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+
+      {editingId === null ? (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(EMPTY_FORM)
+            setMessage(null)
+            setEditingId('new')
+          }}
+          className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Repeat className="h-4 w-4" />
+          Add repeating slots
+        </button>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-lg bg-gray-50 p-4"
+        >
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              Repeat on
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`rounded-lg px-3 py-1 text-sm ${
+                    form.daysOfWeek.includes(day)
+                      ? 'bg-blue-600 text-white'
+                      : 'border border-gray-300 bg-white text-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Frequency
+              </label>
+              <select
+                value={form.intervalWeeks}
+                onChange={(e) =>
+                  setForm({ ...form, intervalWeeks: parseInt(e.target.value) })
+                }
+                className="w-full rounded-lg border border-gray-300 px-3 py-2"
+              >
+                <option value={1}>Weekly</option>
+                <option value={2}>Fortnightly</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Start time
+              </label>
+              <input
+                type="time"
+                required
+                value={form.startTime}
+                onChange={(e) =>
+                  setForm({ ...form, startTime: e.target.value })
+                }
+                className="w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                First date
+              </label>
+              <input
+                type="date"
+                required
+                value={form.startDate}
+                onChange={(e) =>
+                  setForm({ ...form, startDate: e.target.value })
+                }
+                className="w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">
+                Weeks
+              </label>
+              <input
+                type="number"
+                required={editingId === 'new'}
+                min="1"
+                max="104"
+                value={form.weeks}
+                placeholder={editingSeries?.endDate ? 'Until end date' : ''}
+                onChange={(e) => setForm({ ...form, weeks: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.skipPublicHolidays}
+                onChange={(e) =>
+                  setForm({ ...form, skipPublicHolidays: e.target.checked })
+                }
+              />
+              Skip public holidays
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Capacity
+              <input
+                type="number"
+                min="1"
+                value={form.capacity}
+                onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                placeholder="Default"
+                className="w-24 rounded-lg border border-gray-300 px-3 py-1"
+              />
+            </label>
+          </div>
+
+          {editingId !== 'new' && (
+            <p className="text-xs text-gray-500">
+              Changes apply to all future slots in this series. Slots you have
+              edited or deleted individually are left as they are.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || form.daysOfWeek.length === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+import { orders, pieces } from '@madebuy/db'
+import type {
+  ChartOfAccounts,
+  Journal,
+  JournalLine,
+  Tenant,
+  Transaction,
+} from '@madebuy/shared'
+import {
+  CHART_OF_ACCOUNTS_LABELS,
+  DEFAULT_CHART_OF_ACCOUNTS,
+  ValidationError,
+} from '@madebuy/shared'
+
+/** Transaction types that move money through the Stripe balance */
+export const JOURNAL_TRANSACTION_TYPES: Transaction['type'][] = [
+  'sale',
+  'refund',
+  'payout',
+  'fee',
+]
+
+/**
+ * The tenant's account mapping, with defaults for anything not set
+ */
+export function getChartOfAccounts(tenant: Tenant): ChartOfAccounts {
+  return {
+    ...DEFAULT_CHART_OF_ACCOUNTS,
+    ...tenant.accountingSettings?.accounts,
+  }
+}
+
+/**
+ * Check an account mapping from a request body. Every account needs a code,
+ * and codes are kept short enough for Xero and MYOB to accept.
+ */
+export function toChartOfAccounts(body: unknown): ChartOfAccounts {
+  const input = (body ?? {}) as Record<string, unknown>
+  const accounts = { ...DEFAULT_CHART_OF_ACCOUNTS }
+
+  for (const key of Object.keys(accounts) as (keyof ChartOfAccounts)[]) {
+    const code = typeof input[key] === 'string' ? input[key].trim() : ''
+    if (!code || code.length > 10 || !/^[\w.-]+$/.test(code)) {
+      const message = `Enter the ${CHART_OF_ACCOUNTS_LABELS[key].toLowerCase()} account code`
+      throw new ValidationError(message, { [key]: [message] })
+    }
+    accounts[key] = code
+  }
+  return accounts
+}
+
+function debit(
+  accountCode: string,
+  description: string,
+  amount: number,
+): JournalLine {
+  return { accountCode, description, debit: amount, credit: 0 }
+}
+
+function credit(
+  accountCode: string,
+  description: string,
+  amount: number,
+): JournalLine {
+  return { accountCode, description, debit: 0, credit: amount }
+}
+
+/**
+ * Cost of the pieces sold on each order (in cents), from the unit cost
+ * recorded on each item when it was sold. Orders placed before unit costs
+ * were recorded fall back to the piece's current calculated COGS.
+ */
+async function getOrderCosts(
+  tenantId: string,
+  transactions: Transaction[],
+): Promise<Map<string, number>> {
+  const orderIds = [
+    ...new Set(
+      transactions
+        .filter((tx) => tx.type === 'sale' && tx.orderId)
+        .map((tx) => tx.orderId as string),
+    ),
+  ]
+  const orderMap = await orders.getOrdersByIds(tenantId, orderIds)
+
+  const pieceIds = [
+    ...new Set(
+      [...orderMap.values()].flatMap((order) =>
+        order.items
+          .filter((item) => item.unitCost === undefined)
+          .map((item) => item.pieceId),
+      ),
+    ),
+  ]
+  const pieceMap = await pieces.getPiecesByIds(tenantId, pieceIds)
+
+  const costs = new Map<string, number>()
+  for (const order of orderMap.values()) {
+    const cost = order.items.reduce(
+      (sum, item) =>
+        sum +
+        (item.unitCost ?? pieceMap.get(item.pieceId)?.calculatedCOGS ?? 0) *
+          item.quantity,
+      0,
+    )
+    if (cost > 0) costs.set(order.id, cost)
+  }
+  return costs
+}
+
+function buildJournal(
+  tx: Transaction,
+  accounts: ChartOfAccounts,
+  cost: number,
+): Journal | null {
+  const label = tx.description || tx.type
+  const gst = tx.gstAmount ?? 0
+  const lines: JournalLine[] = []
+
+  switch (tx.type) {
+    case 'sale': {
+      // Stripe keeps its fees and settles the rest into the Stripe balance
+      const fees = tx.stripeFee + tx.platformFee
+      lines.push(debit(accounts.payoutClearing, label, tx.netAmount))
+      if (fees > 0) {
+        lines.push(debit(accounts.paymentFees, 'Payment fees', fees))
+      }
+      lines.push(credit(accounts.sales, label, tx.grossAmount - gst))
+      if (gst > 0) lines.push(credit(accounts.gst, 'GST on sale', gst))
+      if (cost > 0) {
+        lines.push(debit(accounts.cogs, 'Cost of goods sold', cost))
+        lines.push(credit(accounts.inventory, 'Cost of goods sold', cost))
+      }
+      break
+    }
+    case 'refund': {
+      // Stripe refunds come out of the Stripe balance, manual ones from the bank
+      const paidFrom = tx.stripeRefundId
+        ? accounts.payoutClearing
+        : accounts.bank
+      lines.push(debit(accounts.refunds, label, tx.grossAmount - gst))
+      if (gst > 0) lines.push(debit(accounts.gst, 'GST on refund', gst))
+      lines.push(credit(paidFrom, label, tx.grossAmount))
+      break
+    }
+    case 'payout':
+      lines.push(debit(accounts.bank, label, tx.grossAmount))
+      lines.push(credit(accounts.payoutClearing, label, tx.grossAmount))
+      break
+    case 'fee':
+      lines.push(debit(accounts.paymentFees, label, tx.grossAmount))
+      lines.push(credit(accounts.payoutClearing, label, tx.grossAmount))
+      break
+    default:
+      return null
+  }
+
+  return {
+    transactionId: tx.id,
+    date: tx.completedAt || tx.createdAt,
+    narration: label,
+    reference: tx.type === 'payout' ? tx.stripePayoutId : undefined,
+    lines: lines.filter((line) => line.debit > 0 || line.credit > 0),
+  }
+}
+
+/**
+ * Turn completed ledger transactions into balanced double-entry journals.
+ * Sales are settled into the payout clearing account, so each payout clears
+ * it against the deposit that lands in the bank account.
+ */
+export async function buildJournals(
+  tenantId: string,
+  transactions: Transaction[],
+  accounts: ChartOfAccounts,
+): Promise<Journal[]> {
+  const costs = await getOrderCosts(tenantId, transactions)
+
+  return transactions
+    .filter((tx) => tx.status === 'completed')
+    .map((tx) =>
+      buildJournal(
+        tx,
+        accounts,
+        tx.type === 'sale' && tx.orderId ? (costs.get(tx.orderId) ?? 0) : 0,
+      ),
+    )
+    .filter((journal): journal is Journal => !!journal?.lines.length)
+}
+
+// Both Xero and MYOB import Australian dates as DD/MM/YYYY
+function formatJournalDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-AU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone: 'Australia/Sydney',
+  })
+}
+
+function formatMoney(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+function escapeCSV(value: string): string {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+// Tabs and line breaks would split a MYOB record
+function cleanTabbed(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ')
+}
+
+function journalMemo(journal: Journal): string {
+  const reference = journal.reference ? ` ${journal.reference}` : ''
+  return `${journal.narration}${reference} [${journal.transactionId}]`
+}
+
+/**
+ * Xero manual journal import CSV. Xero groups rows into one journal by
+ * narration and date, so the narration carries the transaction ID. Debits
+ * are positive and credits negative. GST is posted to its own account, so
+ * every line is BAS Excluded.
+ */
+export function formatXeroJournals(journals: Journal[]): string {
+  const rows = [
+    '*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount',
+    ...journals.flatMap((journal) =>
+      journal.lines.map((line) =>
+        [
+          escapeCSV(journalMemo(journal)),
+          formatJournalDate(journal.date),
+          escapeCSV(line.description),
+          escapeCSV(line.accountCode),
+          'BAS Excluded',
+          formatMoney(line.debit - line.credit),
+        ].join(','),
+      ),
+    ),
+  ]
+  return rows.join('\n')
+}
+
+/**
+ * MYOB AccountRight general journal import. Tab-delimited, with a blank
+ * line between journals. GST is posted to its own account, so every line
+ * uses the N-T (not reportable) tax code.
+ */
+export function formatMyobJournals(journals: Journal[]): string {
+  const header = [
+    'Date',
+    'Memo',
+    'Account Number',
+    'Debit Amount',
+    'Credit Amount',
+    'Tax Code',
+    'Allocation Memo',
+  ].join('\t')
+
+  const records = journals.map((journal) =>
+    journal.lines
+      .map((line) =>
+        [
+          formatJournalDate(journal.date),
+          cleanTabbed(journalMemo(journal)),
+          cleanTabbed(line.accountCode),
+          line.debit > 0 ? formatMoney(line.debit) : '',
+          line.credit > 0 ? formatMoney(line.credit) : '',
+          'N-T',
+          cleanTabbed(line.description),
+        ].join('\t'),
+      )
+      .join('\r\n'),
+  )
+
+  return `${header}\r\n${records.join('\r\n\r\n')}`
+}
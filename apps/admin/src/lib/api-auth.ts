@@ -0,0 +1,188 @@
+import { apiKeys, tenants } from '@madebuy/db'
+import type { ApiKey, ApiKeyScope, Customer, Tenant } from '@madebuy/shared'
+import {
+  createRateLimiter,
+  isMadeBuyError,
+  ValidationError,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Public API Authentication
+ *
+ * Authenticates /api/v1 requests with a tenant API key sent as a Bearer token.
+ * The key must carry the route's scope and the tenant must have the apiAccess
+ * feature. Requests are rate limited per key. These routes skip session auth
+ * in middleware.
+ */
+
+// Requests per minute per key
+export const API_RATE_LIMIT = 120
+
+const apiKeyLimiter = createRateLimiter({
+  interval: 60 * 1000, // 1 minute
+  uniqueTokenPerInterval: API_RATE_LIMIT,
+})
+
+export interface ApiContext {
+  tenant: Tenant
+  apiKey: ApiKey
+}
+
+function apiError(
+  status: number,
+  code: string,
+  message: string,
+  headers?: Record<string, string>,
+): NextResponse {
+  return NextResponse.json({ error: message, code }, { status, headers })
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  if (!header?.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+/**
+ * Wrap a /api/v1 route handler with API key authentication
+ *
+ * @example
+ * export const GET = withApiKey('orders:read', async (request, { tenant }) => {
+ *   // Handler code here
+ * })
+ */
+export function withApiKey<RouteContext = unknown>(
+  scope: ApiKeyScope,
+  handler: (
+    request: NextRequest,
+    context: ApiContext,
+    routeContext: RouteContext,
+  ) => Promise<NextResponse>,
+) {
+  return async (
+    request: NextRequest,
+    routeContext: RouteContext,
+  ): Promise<NextResponse> => {
+    const secret = getBearerToken(request)
+    if (!secret) {
+      return apiError(401, 'UNAUTHORIZED', 'Missing API key')
+    }
+
+    const apiKey = await apiKeys.getApiKeyBySecret(secret)
+    if (!apiKey) {
+      return apiError(401, 'UNAUTHORIZED', 'Invalid API key')
+    }
+
+    const rate = await apiKeyLimiter.check(`api-key:${apiKey.id}`)
+    const rateHeaders = {
+      'X-RateLimit-Limit': API_RATE_LIMIT.toString(),
+      'X-RateLimit-Remaining': rate.remaining.toString(),
+      'X-RateLimit-Reset': new Date(rate.reset).toISOString(),
+    }
+    if (!rate.success) {
+      return apiError(429, 'RATE_LIMITED', 'Rate limit exceeded', {
+        ...rateHeaders,
+        'Retry-After': Math.ceil((rate.reset - Date.now()) / 1000).toString(),
+      })
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      return apiError(
+        403,
+        'INSUFFICIENT_SCOPE',
+        `This API key is missing the ${scope} scope`,
+        rateHeaders,
+      )
+    }
+
+    // Feature flag is set from the plan and can be overridden by the manager
+    const tenant = await tenants.getTenantById(apiKey.tenantId)
+    if (!tenant?.features?.apiAccess) {
+      return apiError(
+        403,
+        'FEATURE_GATED',
+        'API access is not enabled for this shop',
+        rateHeaders,
+      )
+    }
+
+    apiKeys
+      .touchApiKey(apiKey.id)
+      .catch((e) => console.error('Failed to update API key lastUsedAt:', e))
+
+    let response: NextResponse
+    try {
+      response = await handler(request, { tenant, apiKey }, routeContext)
+    } catch (error) {
+      if (isMadeBuyError(error)) {
+        response = apiError(error.statusCode, error.code, error.message)
+      } else {
+        console.error('Public API error:', error)
+        response = apiError(500, 'INTERNAL_ERROR', 'Internal server error')
+      }
+    }
+
+    for (const [name, value] of Object.entries(rateHeaders)) {
+      response.headers.set(name, value)
+    }
+    return response
+  }
+}
+
+/**
+ * Read a JSON request body, throwing a ValidationError (400) when it isn't
+ * valid JSON
+ */
+export async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    throw new ValidationError('Request body must be valid JSON', {
+      body: ['Request body must be valid JSON'],
+    })
+  }
+}
+
+/**
+ * Parse ?limit= and ?cursor= for cursor-paginated list endpoints
+ */
+export function getPaginationParams(request: NextRequest): {
+  limit: number
+  cursor?: string
+} {
+  const { searchParams } = new URL(request.url)
+  const limit = Number.parseInt(searchParams.get('limit') || '50', 10)
+  return {
+    limit: Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 200),
+    cursor: searchParams.get('cursor') || undefined,
+  }
+}
+
+/**
+ * Remove the Mongo _id from documents returned by cursor-paginated queries
+ */
+export function withoutMongoId<T extends object>(doc: T): T {
+  const copy = { ...doc } as T & { _id?: unknown }
+  delete copy._id
+  return copy
+}
+
+// Credentials and one-time tokens never leave the admin
+const CUSTOMER_PRIVATE_FIELDS = [
+  'passwordHash',
+  'verificationToken',
+  'verificationTokenExpiry',
+  'resetToken',
+  'resetTokenExpiry',
+  'emailChangeToken',
+  'emailChangeTokenExpiry',
+] as const
+
+export function toApiCustomer(customer: Customer): Partial<Customer> {
+  const apiCustomer: Partial<Customer> = withoutMongoId(customer)
+  for (const field of CUSTOMER_PRIVATE_FIELDS) {
+    delete apiCustomer[field]
+  }
+  return apiCustomer
+}
@@ -1,4 +1,4 @@
-import { auditLog, tenants } from '@madebuy/db'
+import { auditLog, teamMembers, tenants } from '@madebuy/db'
 import bcrypt from 'bcryptjs'
 import type { NextAuthOptions } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
@@ -19,6 +19,37 @@ export const authOptions: NextAuthOptions = {
         const tenant = await tenants.getTenantByEmail(credentials.email)
 
         if (!tenant) {
+          // Not an owner - try staff logins (emails are unique across both)
+          const member = await teamMembers.authenticateTeamMember(
+            credentials.email,
+            credentials.password,
+          )
+
+          if (member) {
+            auditLog
+              .logAuditEvent({
+                tenantId: member.tenantId,
+                eventType: 'auth.login.success',
+                actorId: member.id,
+                actorEmail: member.email,
+                actorType: 'staff',
+                metadata: { role: member.role },
+                success: true,
+              })
+              .catch((e) =>
+                console.error('Audit log failed (staff login success):', e),
+              )
+
+            // Session id stays the tenant ID so existing tenant lookups work
+            return {
+              id: member.tenantId,
+              email: member.email,
+              name: member.name,
+              staffId: member.id,
+              role: member.role,
+            }
+          }
+
           // Log failed login attempt (unknown email) - fire-and-forget for faster response
           auditLog
             .logAuditEvent({
@@ -87,12 +118,16 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id
+        token.staffId = user.staffId
+        token.role = user.role ?? 'owner'
       }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string
+        session.user.staffId = token.staffId
+        session.user.role = token.role ?? 'owner'
       }
       return session
     },
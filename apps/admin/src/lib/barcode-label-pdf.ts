@@ -0,0 +1,165 @@
+import type { BarcodeLabel } from '@madebuy/shared'
+import { encodeBarcode } from '@madebuy/shared'
+import {
+  type PDFFont,
+  type PDFPage,
+  PDFDocument,
+  rgb,
+  StandardFonts,
+} from 'pdf-lib'
+
+const MM = 72 / 25.4
+
+// A4 sheet of 21 labels, 3 x 7 at 63.5 x 38.1 mm (Avery L7160 layout)
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const COLUMNS = 3
+const ROWS = 7
+const LABEL_WIDTH = 63.5 * MM
+const LABEL_HEIGHT = 38.1 * MM
+const COLUMN_GAP = 2.5 * MM
+const MARGIN_LEFT = 7.25 * MM
+const MARGIN_TOP = 15.15 * MM
+
+const PADDING = 3 * MM
+const BAR_HEIGHT = 13 * MM
+const QUIET_ZONE_MODULES = 10 // Blank modules each side so scanners find the edges
+const MAX_MODULE_WIDTH = 1.2 // pt - wider bars only make short codes harder to read
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number) {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text
+  let fitted = text
+  while (
+    fitted.length > 1 &&
+    font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth
+  ) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted}...`
+}
+
+function formatPrice(cents: number, currency?: string): string {
+  return new Intl.NumberFormat('en-AU', {
+    style: 'currency',
+    currency: currency || 'AUD',
+  }).format(cents / 100)
+}
+
+function drawLabel(
+  page: PDFPage,
+  label: BarcodeLabel,
+  x: number,
+  y: number,
+  fonts: { regular: PDFFont; bold: PDFFont },
+) {
+  const black = rgb(0, 0, 0)
+  const gray = rgb(0.4, 0.4, 0.4)
+  const innerWidth = LABEL_WIDTH - PADDING * 2
+  const top = y + LABEL_HEIGHT - PADDING
+
+  // Price on the right, name fills the rest of the first line
+  const price =
+    label.price !== undefined
+      ? formatPrice(label.price, label.currency)
+      : undefined
+  const priceWidth = price ? fonts.bold.widthOfTextAtSize(price, 9) + 4 : 0
+  if (price) {
+    page.drawText(price, {
+      x: x + LABEL_WIDTH - PADDING - priceWidth + 4,
+      y: top - 9,
+      size: 9,
+      font: fonts.bold,
+      color: black,
+    })
+  }
+  page.drawText(fitText(label.name, fonts.bold, 9, innerWidth - priceWidth), {
+    x: x + PADDING,
+    y: top - 9,
+    size: 9,
+    font: fonts.bold,
+    color: black,
+  })
+
+  if (label.detail) {
+    page.drawText(fitText(label.detail, fonts.regular, 7, innerWidth), {
+      x: x + PADDING,
+      y: top - 19,
+      size: 7,
+      font: fonts.regular,
+      color: gray,
+    })
+  }
+
+  // Bars, centred, as wide as the label allows
+  const modules = encodeBarcode(label.code, label.format)
+  const moduleWidth = Math.min(
+    MAX_MODULE_WIDTH,
+    innerWidth / (modules.length + QUIET_ZONE_MODULES * 2),
+  )
+  const barsWidth = modules.length * moduleWidth
+  const barsX = x + (LABEL_WIDTH - barsWidth) / 2
+  const barsY = y + PADDING + 9
+
+  let run = 0
+  modules.forEach((isBar, i) => {
+    if (isBar) run++
+    if (run > 0 && (!isBar || i === modules.length - 1)) {
+      const end = isBar ? i + 1 : i
+      page.drawRectangle({
+        x: barsX + (end - run) * moduleWidth,
+        y: barsY,
+        width: run * moduleWidth,
+        height: BAR_HEIGHT,
+        color: black,
+      })
+      run = 0
+    }
+  })
+
+  // Human-readable code under the bars
+  page.drawText(label.code, {
+    x: x + (LABEL_WIDTH - fonts.regular.widthOfTextAtSize(label.code, 7)) / 2,
+    y: y + PADDING + 1,
+    size: 7,
+    font: fonts.regular,
+    color: black,
+  })
+}
+
+/**
+ * Build an A4 label sheet PDF, one label per entry, filling pages in order
+ * Start at a later position to reuse a partly used sheet.
+ */
+export async function generateBarcodeLabelsPDF(
+  labels: BarcodeLabel[],
+  options?: { startPosition?: number },
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const fonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  const perPage = COLUMNS * ROWS
+  const offset = Math.min(
+    Math.max((options?.startPosition ?? 1) - 1, 0),
+    perPage - 1,
+  )
+
+  let page: PDFPage | null = null
+  for (let index = 0; index < labels.length; index++) {
+    const position = (index + offset) % perPage
+    if (!page || position === 0) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    }
+
+    const column = position % COLUMNS
+    const row = Math.floor(position / COLUMNS)
+    const x = MARGIN_LEFT + column * (LABEL_WIDTH + COLUMN_GAP)
+    const y = PAGE_HEIGHT - MARGIN_TOP - (row + 1) * LABEL_HEIGHT
+
+    drawLabel(page, labels[index], x, y, fonts)
+  }
+
+  return pdfDoc.save()
+}
@@ -0,0 +1,197 @@
+import { downloads, messages, orders } from '@madebuy/db'
+import type { Address, Dispute, DisputeEvidence, Order } from '@madebuy/shared'
+import { ExternalServiceError } from '@madebuy/shared'
+import Stripe from 'stripe'
+
+// Stripe rejects evidence over 150,000 characters in total
+const MAX_FIELD_LENGTH = 10000
+
+const EVIDENCE_FIELDS: (keyof DisputeEvidence)[] = [
+  'productDescription',
+  'customerName',
+  'customerEmailAddress',
+  'billingAddress',
+  'shippingAddress',
+  'shippingDate',
+  'shippingCarrier',
+  'shippingTrackingNumber',
+  'deliveryProof',
+  'customerCommunication',
+  'accessActivityLog',
+  'refundPolicyDisclosure',
+  'refundRefusalExplanation',
+  'uncategorizedText',
+]
+
+function getStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY environment variable is not set')
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2023-10-16',
+  })
+}
+
+function formatAddress(address?: Address): string | undefined {
+  if (!address) return undefined
+  return [
+    address.line1,
+    address.line2,
+    `${address.city} ${address.state} ${address.postcode}`,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(', ')
+}
+
+function formatTimestamp(date: Date | string): string {
+  return new Date(date).toISOString().replace('T', ' ').slice(0, 16)
+}
+
+function describeDelivery(order: Order): string | undefined {
+  const lines: string[] = []
+  if (order.shippedAt)
+    lines.push(`Shipped: ${formatTimestamp(order.shippedAt)}`)
+  if (order.deliveredAt) {
+    lines.push(`Delivered: ${formatTimestamp(order.deliveredAt)}`)
+  }
+  if (order.trackingUrl) lines.push(`Tracking: ${order.trackingUrl}`)
+  for (const event of order.tracking?.events ?? []) {
+    lines.push(
+      `${formatTimestamp(event.occurredAt)} - ${event.description}${event.location ? ` (${event.location})` : ''}`,
+    )
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined
+}
+
+/**
+ * Pre-fill dispute evidence from everything we know about the order: the
+ * customer, shipping and Sendle tracking, the message thread and digital
+ * download logs. The seller reviews and edits it before submitting.
+ */
+export async function buildEvidenceDraft(
+  dispute: Dispute,
+): Promise<DisputeEvidence> {
+  if (!dispute.orderId) return {}
+
+  const order = await orders.getOrder(dispute.tenantId, dispute.orderId)
+  if (!order) return {}
+
+  const [thread, downloadRecords] = await Promise.all([
+    messages.listMessagesByOrder(dispute.tenantId, order.id),
+    order.hasDigitalItems
+      ? downloads.getDownloadsForOrder(dispute.tenantId, order.id)
+      : Promise.resolve([]),
+  ])
+
+  const accessLog = downloadRecords.flatMap((record) =>
+    record.downloads.map(
+      (event) =>
+        `${formatTimestamp(event.timestamp)} - ${event.success ? 'Downloaded' : `Failed (${event.error || 'error'})`} file ${event.fileId} from ${event.ipAddress}`,
+    ),
+  )
+
+  return {
+    productDescription: order.items
+      .map((item) => `${item.quantity}x ${item.name}`)
+      .join('\n'),
+    customerName: order.customerName,
+    customerEmailAddress: order.customerEmail,
+    billingAddress: formatAddress(order.billingAddress),
+    shippingAddress: order.isDigitalOnly
+      ? undefined
+      : formatAddress(order.shippingAddress),
+    shippingDate: order.shippedAt
+      ? new Date(order.shippedAt).toISOString().slice(0, 10)
+      : undefined,
+    shippingCarrier:
+      order.carrier || (order.sendleOrderId ? 'Sendle' : undefined),
+    shippingTrackingNumber: order.trackingNumber || order.sendleReference,
+    deliveryProof: describeDelivery(order),
+    customerCommunication:
+      thread.length > 0
+        ? thread
+            .map(
+              (message) =>
+                `[${formatTimestamp(message.createdAt)}] ${message.senderName} (${message.senderType}): ${message.content}`,
+            )
+            .join('\n\n')
+        : undefined,
+    accessActivityLog: accessLog.length > 0 ? accessLog.join('\n') : undefined,
+  }
+}
+
+/**
+ * Fold our sections into Stripe's evidence fields
+ */
+function toStripeEvidence(
+  evidence: DisputeEvidence,
+): Stripe.DisputeUpdateParams.Evidence {
+  const extra = [
+    evidence.deliveryProof && `Delivery tracking:\n${evidence.deliveryProof}`,
+    evidence.customerCommunication &&
+      `Messages with the customer:\n${evidence.customerCommunication}`,
+    evidence.uncategorizedText,
+  ].filter(Boolean)
+
+  return {
+    product_description: evidence.productDescription,
+    customer_name: evidence.customerName,
+    customer_email_address: evidence.customerEmailAddress,
+    billing_address: evidence.billingAddress,
+    shipping_address: evidence.shippingAddress,
+    shipping_date: evidence.shippingDate,
+    shipping_carrier: evidence.shippingCarrier,
+    shipping_tracking_number: evidence.shippingTrackingNumber,
+    access_activity_log: evidence.accessActivityLog,
+    refund_policy_disclosure: evidence.refundPolicyDisclosure,
+    refund_refusal_explanation: evidence.refundRefusalExplanation,
+    uncategorized_text: extra.length > 0 ? extra.join('\n\n') : undefined,
+  }
+}
+
+/**
+ * Clean evidence from the workspace: keep known fields, strip control
+ * characters but not line breaks, and trim long fields to Stripe's limit
+ */
+export function cleanEvidence(evidence: DisputeEvidence): DisputeEvidence {
+  const cleaned: DisputeEvidence = {}
+  for (const key of EVIDENCE_FIELDS) {
+    const value = evidence?.[key]
+    if (typeof value !== 'string') continue
+    const text = value
+      .split('')
+      .filter((char) => {
+        const code = char.charCodeAt(0)
+        return code === 10 || (code >= 32 && code !== 127)
+      })
+      .join('')
+      .trim()
+    if (text) {
+      cleaned[key] = text.slice(0, MAX_FIELD_LENGTH)
+    }
+  }
+  return cleaned
+}
+
+/**
+ * Submit evidence to Stripe. Orders are destination charges, so the dispute
+ * lives on the platform account. Submitting is final.
+ */
+export async function submitDisputeEvidence(
+  dispute: Dispute,
+  evidence: DisputeEvidence,
+): Promise<void> {
+  try {
+    await getStripe().disputes.update(dispute.stripeDisputeId, {
+      evidence: toStripeEvidence(evidence),
+      submit: true,
+      metadata: { tenantId: dispute.tenantId, disputeId: dispute.id },
+    })
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError) {
+      throw new ExternalServiceError('Stripe', error.message)
+    }
+    throw error
+  }
+}
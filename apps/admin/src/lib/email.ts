@@ -1,11 +1,20 @@
 import type { LowStockPiece } from '@madebuy/db'
 import type {
+  Dispute,
   Newsletter,
   NewsletterTemplate,
   Order,
+  PurchaseOrder,
+  Supplier,
   Tenant,
+  Workshop,
+  WorkshopSlot,
+} from '@madebuy/shared'
+import {
+  renderDeliveredEmail,
+  renderDeliveryDelayedEmail,
+  renderShippedEmail,
 } from '@madebuy/shared'
-import { renderShippedEmail } from '@madebuy/shared'
 import { Resend } from 'resend'
 
 let resend: Resend | null = null
@@ -362,6 +371,92 @@ export async function sendShippingNotificationEmail(
   }
 }
 
+interface DeliveryUpdateEmailData {
+  order: Order
+  tenant: Tenant
+  status: 'delivered' | 'delayed'
+  orderUrl: string
+  latestUpdate?: string
+}
+
+/**
+ * Send delivered / delayed notification email to customer
+ */
+export async function sendDeliveryUpdateEmail(
+  data: DeliveryUpdateEmailData,
+): Promise<{
+  success: boolean
+  error?: string
+}> {
+  const client = getResendClient()
+
+  if (!client) {
+    console.warn(
+      'Resend API key not configured, skipping delivery update email',
+    )
+    return {
+      success: false,
+      error: 'Email service not configured',
+    }
+  }
+
+  const emailData = {
+    orderNumber: data.order.orderNumber,
+    customerName: data.order.customerName,
+    shopName: data.tenant.businessName,
+    trackingNumber: data.order.trackingNumber || '',
+    trackingUrl: data.order.trackingUrl || '',
+    carrier: data.order.carrier || 'Sendle',
+    items: data.order.items.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      imageUrl: item.imageUrl,
+    })),
+    orderUrl: data.orderUrl,
+    latestUpdate: data.latestUpdate && escapeHtml(data.latestUpdate),
+  }
+
+  const baseUrl = data.tenant.customDomain
+    ? `https://${data.tenant.customDomain}`
+    : `https://madebuy.com.au/${data.tenant.slug}`
+  const { subject, html, text } =
+    data.status === 'delivered'
+      ? renderDeliveredEmail(emailData, baseUrl)
+      : renderDeliveryDelayedEmail(emailData, baseUrl)
+
+  const fromEmail =
+    process.env.SHIPPING_FROM_EMAIL ||
+    process.env.DEFAULT_FROM_EMAIL ||
+    'shipping@madebuy.com.au'
+
+  try {
+    const result = await client.emails.send({
+      from: `${data.tenant.businessName} <${fromEmail}>`,
+      to: data.order.customerEmail,
+      subject,
+      html,
+      text,
+      reply_to: data.tenant.email,
+    })
+
+    if (result.error) {
+      console.error('Failed to send delivery update:', result.error)
+      return {
+        success: false,
+        error: result.error.message,
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to send delivery update email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
 /**
  * Abandoned cart email data
  */
@@ -570,9 +665,6 @@ interface ReviewRequestEmailData {
 
 /**
  * Build review request email HTML
- * @deprecated Email-based review requests removed in favor of website design module.
- * Reviews are now submitted directly on product pages after email verification.
- * Keeping for reference.
  */
 function buildReviewRequestEmailHtml(data: ReviewRequestEmailData): string {
   const { order, tenant, reviewUrl } = data
@@ -662,9 +754,7 @@ function buildReviewRequestEmailHtml(data: ReviewRequestEmailData): string {
 
 /**
  * Send review request email
- * @deprecated Email-based review requests removed in favor of website design module.
- * Reviews are now submitted directly on product pages after email verification.
- * Keeping for reference.
+ * The review URL is a signed link that pre-verifies the purchase
  */
 export async function sendReviewRequestEmail(
   data: ReviewRequestEmailData,
@@ -716,6 +806,262 @@ export async function sendReviewRequestEmail(
   }
 }
 
+/**
+ * Workshop email data - shared by reminder, cancellation and waitlist emails
+ */
+interface WorkshopEmailData {
+  customer: {
+    email: string
+    name: string
+    numberOfAttendees: number
+  }
+  workshop: Workshop
+  slot: WorkshopSlot
+  tenant: Tenant
+}
+
+interface WorkshopCancelledEmailData extends WorkshopEmailData {
+  refundedAmount?: number // Cents - omitted when nothing was charged by card
+  manualRefund?: boolean // Paid offline - the seller arranges the refund
+}
+
+/**
+ * Format a slot start time in the tenant's timezone
+ */
+function formatWorkshopTime(slot: WorkshopSlot, tenant: Tenant): string {
+  const regional = tenant.regionalSettings
+  return new Intl.DateTimeFormat(
+    regional?.customLocale || regional?.locale || 'en-AU',
+    {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone:
+        regional?.customTimezone || regional?.timezone || 'Australia/Sydney',
+      timeZoneName: 'short',
+    },
+  ).format(new Date(slot.startTime))
+}
+
+/**
+ * Where to go - venue address and/or join details for virtual sessions
+ */
+function buildWorkshopLocationHtml(workshop: Workshop): string {
+  const parts: string[] = []
+
+  if (workshop.locationType !== 'virtual' && workshop.location) {
+    const address = [
+      workshop.location.name,
+      workshop.location.address,
+      workshop.location.city,
+      workshop.location.state,
+      workshop.location.postcode,
+    ]
+      .filter(Boolean)
+      .map((line) => escapeHtml(line))
+      .join('<br />')
+    if (address) {
+      parts.push(
+        `<p style="margin: 0 0 12px 0; font-size: 14px;"><strong>Location</strong><br />${address}</p>`,
+      )
+    }
+  }
+
+  if (workshop.locationType !== 'physical') {
+    if (workshop.virtualMeetingUrl) {
+      const url = escapeHtml(workshop.virtualMeetingUrl)
+      parts.push(
+        `<p style="margin: 0 0 12px 0; font-size: 14px;"><strong>Join online</strong><br /><a href="${url}" style="color: #2563eb;">${url}</a></p>`,
+      )
+    }
+    if (workshop.virtualInstructions) {
+      parts.push(
+        `<p style="margin: 0 0 12px 0; font-size: 14px; white-space: pre-line;">${escapeHtml(workshop.virtualInstructions)}</p>`,
+      )
+    }
+  }
+
+  return parts.join('')
+}
+
+/**
+ * Build a workshop email around a heading and body paragraphs
+ */
+function buildWorkshopEmailHtml(
+  data: WorkshopEmailData,
+  heading: string,
+  bodyHtml: string,
+): string {
+  const { workshop, slot, tenant, customer } = data
+  const shopName = escapeHtml(tenant.businessName || 'Our Shop')
+  const brandColor = tenant.primaryColor || '#3B82F6'
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${heading}</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 0; background-color: #f3f4f6;">
+  <div style="padding: 40px 20px;">
+    <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+      <div style="background-color: ${brandColor}; padding: 30px 24px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px; font-weight: 600;">${heading}</h1>
+      </div>
+
+      <div style="padding: 30px 24px;">
+        <p style="margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHtml(customer.name) || 'there'},
+        </p>
+
+        ${bodyHtml}
+
+        <div style="background-color: #f9fafb; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
+          <p style="margin: 0 0 4px 0; font-size: 16px; font-weight: 600;">${escapeHtml(workshop.name)}</p>
+          <p style="margin: 0 0 12px 0; font-size: 14px; color: #6b7280;">
+            ${formatWorkshopTime(slot, tenant)} &middot; ${customer.numberOfAttendees} ${customer.numberOfAttendees === 1 ? 'person' : 'people'}
+          </p>
+        </div>
+      </div>
+
+      <div style="background-color: #f9fafb; padding: 20px 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+          Questions? Just reply to this email to reach ${shopName}.
+        </p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `
+}
+
+/**
+ * Send a workshop email through Resend
+ */
+async function sendWorkshopEmail(
+  data: WorkshopEmailData,
+  subject: string,
+  html: string,
+): Promise<{
+  success: boolean
+  error?: string
+}> {
+  const client = getResendClient()
+
+  if (!client) {
+    console.warn('Resend API key not configured, skipping workshop email')
+    return {
+      success: false,
+      error: 'Email service not configured',
+    }
+  }
+
+  const fromEmail = process.env.DEFAULT_FROM_EMAIL || 'hello@madebuy.com.au'
+  const fromName = data.tenant.businessName || 'MadeBuy'
+
+  try {
+    const result = await client.emails.send({
+      from: `${fromName} <${fromEmail}>`,
+      to: data.customer.email,
+      subject,
+      html,
+      reply_to: data.tenant.email,
+    })
+
+    if (result.error) {
+      console.error('Failed to send workshop email:', result.error)
+      return {
+        success: false,
+        error: result.error.message,
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to send workshop email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Send the day-before reminder for a workshop booking
+ * Virtual sessions include the meeting link, which isn't shown anywhere else.
+ */
+export async function sendWorkshopReminderEmail(data: WorkshopEmailData) {
+  const html = buildWorkshopEmailHtml(
+    data,
+    'See you soon!',
+    `<p style="margin: 0 0 20px 0; font-size: 16px;">
+          This is a reminder that your workshop with <strong>${escapeHtml(data.tenant.businessName)}</strong> is coming up.
+        </p>
+        ${buildWorkshopLocationHtml(data.workshop)}
+        ${data.workshop.requirements ? `<p style="margin: 0 0 20px 0; font-size: 14px;"><strong>What to bring</strong><br />${escapeHtml(data.workshop.requirements)}</p>` : ''}`,
+  )
+
+  return sendWorkshopEmail(
+    data,
+    `Reminder: ${data.workshop.name} is coming up`,
+    html,
+  )
+}
+
+/**
+ * Tell a booked customer their session was cancelled for low numbers
+ */
+export async function sendWorkshopCancelledEmail(
+  data: WorkshopCancelledEmailData,
+) {
+  const shopName = escapeHtml(data.tenant.businessName)
+  let refundHtml = ''
+  if (data.refundedAmount) {
+    refundHtml = `<p style="margin: 0 0 20px 0; font-size: 16px;">
+          We've refunded <strong>$${(data.refundedAmount / 100).toFixed(2)}</strong> to your original payment method. It can take 5-10 business days to appear.
+        </p>`
+  } else if (data.manualRefund) {
+    refundHtml = `<p style="margin: 0 0 20px 0; font-size: 16px;">
+          ${shopName} will be in touch to arrange your refund.
+        </p>`
+  }
+
+  const html = buildWorkshopEmailHtml(
+    data,
+    'Workshop cancelled',
+    `<p style="margin: 0 0 20px 0; font-size: 16px;">
+          Unfortunately not enough people signed up, so ${shopName} has had to cancel this session.
+        </p>
+        ${refundHtml}`,
+  )
+
+  return sendWorkshopEmail(data, `Cancelled: ${data.workshop.name}`, html)
+}
+
+/**
+ * Tell a waitlisted customer a seat has been reserved for them
+ */
+export async function sendWaitlistPromotedEmail(data: WorkshopEmailData) {
+  const html = buildWorkshopEmailHtml(
+    data,
+    'A spot opened up!',
+    `<p style="margin: 0 0 20px 0; font-size: 16px;">
+          Good news - a place became available and we've reserved it for you. ${escapeHtml(data.tenant.businessName)} will be in touch to confirm your booking and arrange payment.
+        </p>`,
+  )
+
+  return sendWorkshopEmail(
+    data,
+    `A spot opened up in ${data.workshop.name}`,
+    html,
+  )
+}
+
 /**
  * Low stock alert email data
  */
@@ -904,6 +1250,82 @@ export async function sendLowStockAlertEmail(
   }
 }
 
+/**
+ * Purchase order email data
+ */
+export interface PurchaseOrderEmailData {
+  tenant: Tenant
+  supplier: Supplier & { email: string }
+  purchaseOrder: PurchaseOrder
+  pdf: Buffer
+}
+
+/**
+ * Email a purchase order PDF to the supplier
+ * Replies go to the maker, not MadeBuy.
+ */
+export async function sendPurchaseOrderEmail(
+  data: PurchaseOrderEmailData,
+): Promise<{
+  success: boolean
+  error?: string
+}> {
+  const client = getResendClient()
+
+  if (!client) {
+    console.warn('Resend API key not configured, skipping purchase order email')
+    return {
+      success: false,
+      error: 'Email service not configured',
+    }
+  }
+
+  const fromEmail = process.env.DEFAULT_FROM_EMAIL || 'hello@madebuy.com.au'
+  const shopName = data.tenant.businessName || 'MadeBuy'
+  const greeting = data.supplier.contactName
+    ? `Hi ${escapeHtml(data.supplier.contactName)},`
+    : 'Hi,'
+
+  try {
+    const result = await client.emails.send({
+      from: `${shopName} <${fromEmail}>`,
+      to: data.supplier.email,
+      subject: `Purchase order ${data.purchaseOrder.poNumber} from ${shopName}`,
+      html: `
+<p style="font-size: 16px;">${greeting}</p>
+<p style="font-size: 16px;">
+  Please find attached purchase order <strong>${escapeHtml(data.purchaseOrder.poNumber)}</strong> from ${escapeHtml(shopName)}.
+  Reply to this email with any questions or to confirm the delivery date.
+</p>
+<p style="font-size: 16px;">Thanks,<br />${escapeHtml(shopName)}</p>
+      `,
+      reply_to: data.tenant.email,
+      attachments: [
+        {
+          filename: `${data.purchaseOrder.poNumber}.pdf`,
+          content: data.pdf,
+        },
+      ],
+    })
+
+    if (result.error) {
+      console.error('Failed to send purchase order email:', result.error)
+      return {
+        success: false,
+        error: result.error.message,
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to send purchase order email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
 /**
  * Password reset email data
  */
@@ -1042,3 +1464,251 @@ export async function sendPasswordResetEmail(
     }
   }
 }
+
+/**
+ * Team invitation email data
+ */
+export interface SendTeamInviteEmailParams {
+  to: string
+  name: string
+  inviteToken: string
+  businessName: string
+  roleLabel: string
+}
+
+/**
+ * Build team invitation email HTML
+ */
+function buildTeamInviteEmailHtml(data: SendTeamInviteEmailParams): string {
+  const { name, inviteToken, businessName, roleLabel } = data
+  const baseUrl = process.env.NEXTAUTH_URL
+  if (!baseUrl) {
+    throw new Error(
+      'NEXTAUTH_URL environment variable is required for team invitation emails',
+    )
+  }
+  const inviteUrl = `${baseUrl}/invite/${encodeURIComponent(inviteToken)}`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>You're invited to ${escapeHtml(businessName)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 0; background-color: #f9fafb;">
+  <div style="padding: 40px 20px;">
+    <div style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.05); overflow: hidden;">
+      <!-- Header -->
+      <div style="padding: 40px 40px 30px; text-align: center; border-bottom: 1px solid #e5e7eb;">
+        <h1 style="margin: 0; font-size: 28px; font-weight: bold; color: #111827;">MadeBuy</h1>
+      </div>
+
+      <!-- Content -->
+      <div style="padding: 40px;">
+        <h2 style="margin: 0 0 20px; font-size: 20px; font-weight: 600; color: #111827;">Join ${escapeHtml(businessName)}</h2>
+
+        <p style="margin: 0 0 20px; font-size: 16px; line-height: 24px; color: #374151;">
+          Hi ${escapeHtml(name)},
+        </p>
+
+        <p style="margin: 0 0 20px; font-size: 16px; line-height: 24px; color: #374151;">
+          You've been invited to help run ${escapeHtml(businessName)} on MadeBuy with the <strong>${escapeHtml(roleLabel)}</strong> role. Click the button below to set your password and sign in:
+        </p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteUrl}" style="display: inline-block; padding: 14px 32px; background-color: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 16px; font-weight: 600;">Accept Invitation</a>
+        </div>
+
+        <p style="margin: 0 0 20px; font-size: 14px; line-height: 20px; color: #6b7280;">
+          This invitation expires in 7 days. If you weren't expecting it, you can safely ignore this email.
+        </p>
+      </div>
+
+      <!-- Footer -->
+      <div style="padding: 30px 40px; text-align: center; border-top: 1px solid #e5e7eb; background-color: #f9fafb;">
+        <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+          © ${new Date().getFullYear()} MadeBuy. All rights reserved.
+        </p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `
+}
+
+/**
+ * Send a team invitation with a link to set a password
+ */
+export async function sendTeamInviteEmail(
+  data: SendTeamInviteEmailParams,
+): Promise<{
+  success: boolean
+  error?: string
+}> {
+  const client = getResendClient()
+
+  if (!client) {
+    // In development mode without Resend, log to console
+    console.log('[EMAIL] Team invitation email (not sent - no Resend API key):')
+    console.log(`  To: ${data.to}`)
+    console.log(`  Invite URL: ${process.env.NEXTAUTH_URL}/invite/[REDACTED]`)
+    return {
+      success: true, // Return success in dev mode for testing
+    }
+  }
+
+  const fromEmail = process.env.DEFAULT_FROM_EMAIL || 'noreply@madebuy.com.au'
+
+  try {
+    const result = await client.emails.send({
+      from: `MadeBuy <${fromEmail}>`,
+      to: data.to,
+      subject: `You've been invited to ${data.businessName} on MadeBuy`,
+      html: buildTeamInviteEmailHtml(data),
+    })
+
+    if (result.error) {
+      console.error('Failed to send team invitation email:', result.error)
+      return {
+        success: false,
+        error: result.error.message,
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to send team invitation email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Dispute evidence reminder email data
+ */
+export interface DisputeEvidenceReminderEmailData {
+  tenant: Tenant
+  dispute: Dispute
+  daysLeft: number
+}
+
+function buildDisputeEvidenceReminderEmailHtml(
+  data: DisputeEvidenceReminderEmailData,
+): string {
+  const { tenant, dispute, daysLeft } = data
+  const shopName = tenant.businessName || 'Your Shop'
+  const adminUrl =
+    process.env.NEXT_PUBLIC_ADMIN_URL || 'https://admin.madebuy.com.au'
+  const workspaceUrl = `${adminUrl}/dashboard/disputes/${dispute.id}`
+  const amount = new Intl.NumberFormat('en-AU', {
+    style: 'currency',
+    currency: dispute.currency,
+  }).format(dispute.amount / 100)
+  const dueBy = dispute.evidenceDueBy
+    ? new Date(dispute.evidenceDueBy).toLocaleDateString('en-AU', {
+        weekday: 'long',
+        day: 'numeric',
+        month: 'long',
+      })
+    : ''
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Dispute evidence due</title>
+</head>
+<body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 0; background-color: #f3f4f6;">
+  <div style="padding: 40px 20px;">
+    <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+      <div style="background-color: #dc2626; padding: 30px 24px; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px; font-weight: 600;">Dispute evidence due ${daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`}</h1>
+      </div>
+
+      <div style="padding: 30px 24px;">
+        <p style="margin: 0 0 20px 0; font-size: 16px;">
+          Hi ${escapeHtml(shopName)},
+        </p>
+
+        <p style="margin: 0 0 20px 0; font-size: 16px;">
+          A customer has disputed a ${amount} payment. Evidence is due by <strong>${escapeHtml(dueBy)}</strong> - if nothing is submitted by then, the dispute is lost automatically and the money is returned to the customer.
+        </p>
+
+        <p style="margin: 0 0 20px 0; font-size: 16px;">
+          We've gathered what we can from the order, including tracking, messages and downloads. Review it, add your side and submit it to Stripe.
+        </p>
+
+        <div style="text-align: center; margin: 32px 0;">
+          <a href="${workspaceUrl}" style="display: inline-block; background-color: #dc2626; color: white; padding: 16px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+            Respond to dispute
+          </a>
+        </div>
+      </div>
+
+      <div style="background-color: #f9fafb; padding: 20px 24px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+          This is an automated alert from ${escapeHtml(shopName)} on MadeBuy.
+        </p>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `
+}
+
+/**
+ * Remind the seller that dispute evidence is due soon
+ */
+export async function sendDisputeEvidenceReminderEmail(
+  data: DisputeEvidenceReminderEmailData,
+): Promise<{
+  success: boolean
+  error?: string
+}> {
+  const client = getResendClient()
+
+  if (!client) {
+    console.log(
+      '[EMAIL] Dispute evidence reminder (not sent - no Resend API key):',
+    )
+    console.log(`  To: ${data.tenant.email}`)
+    console.log(`  Dispute: ${data.dispute.id}`)
+    console.log(`  Days left: ${data.daysLeft}`)
+    return { success: true }
+  }
+
+  const fromEmail = process.env.DEFAULT_FROM_EMAIL || 'alerts@madebuy.com.au'
+
+  try {
+    const result = await client.emails.send({
+      from: `MadeBuy Alerts <${fromEmail}>`,
+      to: data.tenant.email,
+      subject: `Dispute evidence due ${data.daysLeft === 1 ? 'tomorrow' : `in ${data.daysLeft} days`}`,
+      html: buildDisputeEvidenceReminderEmailHtml(data),
+    })
+
+    if (result.error) {
+      console.error(
+        'Failed to send dispute evidence reminder email:',
+        result.error,
+      )
+      return { success: false, error: result.error.message }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to send dispute evidence reminder email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
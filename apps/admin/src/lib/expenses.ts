@@ -0,0 +1,90 @@
+import type { ExpenseCategory, UpdateExpenseInput } from '@madebuy/shared'
+import { sanitizeInput } from '@madebuy/shared'
+import { extractTextFromInvoice } from '@/lib/services/invoice-ocr'
+import {
+  extractGstAmount,
+  extractInvoiceDate,
+  extractSupplier,
+  extractTotalAmount,
+} from '@/lib/services/invoice-parser'
+
+export interface ExpenseBody {
+  date?: string
+  description?: string
+  category?: string
+  supplierId?: string
+  supplierName?: string
+  amount?: number
+  gstAmount?: number
+  receiptUrl?: string
+  receiptFileName?: string
+  notes?: string
+}
+
+export interface ReceiptSuggestion {
+  supplierName?: string
+  amount?: number // cents
+  gstAmount?: number // cents
+  date?: string // YYYY-MM-DD
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const text = sanitizeInput(value).trim()
+  return text || undefined
+}
+
+/**
+ * Pick the expense fields out of a request body. Amounts are cents and the
+ * date is YYYY-MM-DD; the repository validates the values.
+ */
+export function toExpenseInput(body: ExpenseBody): UpdateExpenseInput {
+  const input: UpdateExpenseInput = {}
+
+  if (body.date !== undefined) input.date = new Date(body.date)
+  if (body.description !== undefined) {
+    input.description = sanitizeInput(String(body.description))
+  }
+  if (body.category !== undefined) {
+    input.category = body.category as ExpenseCategory
+  }
+  if (body.amount !== undefined) input.amount = Number(body.amount)
+  if (body.gstAmount !== undefined) input.gstAmount = Number(body.gstAmount)
+  if (body.supplierId !== undefined) {
+    input.supplierId = optionalText(body.supplierId)
+  }
+  if (body.supplierName !== undefined) {
+    input.supplierName = optionalText(body.supplierName)
+  }
+  if (body.receiptUrl !== undefined) {
+    input.receiptUrl = optionalText(body.receiptUrl)
+  }
+  if (body.receiptFileName !== undefined) {
+    input.receiptFileName = optionalText(body.receiptFileName)
+  }
+  if (body.notes !== undefined) input.notes = optionalText(body.notes)
+
+  return input
+}
+
+/**
+ * Read the supplier, total, GST and date off a receipt photo with the
+ * invoice-scan OCR. Best effort: anything not found is left for the seller.
+ */
+export async function scanReceipt(buffer: Buffer): Promise<ReceiptSuggestion> {
+  const { lines } = await extractTextFromInvoice(buffer)
+
+  const total = extractTotalAmount(lines)
+  const gst = extractGstAmount(lines)
+  const date = extractInvoiceDate(lines)
+
+  return {
+    supplierName: extractSupplier(lines),
+    amount: total !== undefined ? Math.round(total * 100) : undefined,
+    gstAmount: gst !== undefined ? Math.round(gst * 100) : undefined,
+    date:
+      date && !Number.isNaN(date.getTime())
+        ? date.toISOString().slice(0, 10)
+        : undefined,
+  }
+}
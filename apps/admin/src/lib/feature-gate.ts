@@ -1,6 +1,12 @@
-import type { Tenant, TenantFeatures } from '@madebuy/shared'
+import type {
+  PermissionArea,
+  TeamRole,
+  Tenant,
+  TenantFeatures,
+} from '@madebuy/shared'
+import { canRoleAccess } from '@madebuy/shared'
 import { NextResponse } from 'next/server'
-import { getCurrentTenant } from './session'
+import { getCurrentRole, getCurrentTenant } from './session'
 import {
   checkCanAddMedia,
   checkCanAddPiece,
@@ -23,6 +29,13 @@ export class UnauthorizedError extends Error {
   }
 }
 
+export class ForbiddenError extends Error {
+  constructor(message = 'You do not have permission to do this') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
 export class FeatureGatedError extends Error {
   public requiredPlan?: string
   public upgradeRequired: boolean = true
@@ -73,6 +86,32 @@ export async function requireFeature(
   return tenant
 }
 
+/**
+ * Require the signed-in user's role to grant a permission area
+ * Throws ForbiddenError for staff whose role doesn't include the area
+ *
+ * @example
+ * const { tenant } = await requirePermission('team')
+ */
+export async function requirePermission(
+  area: PermissionArea,
+): Promise<{ tenant: Tenant; role: TeamRole }> {
+  const [tenant, role] = await Promise.all([
+    getCurrentTenant(),
+    getCurrentRole(),
+  ])
+
+  if (!tenant || !role) {
+    throw new UnauthorizedError()
+  }
+
+  if (!canRoleAccess(role, area)) {
+    throw new ForbiddenError()
+  }
+
+  return { tenant, role }
+}
+
 /**
  * Require that the tenant can add another piece/product
  * Throws QuotaExceededError if the limit is reached
@@ -127,6 +166,18 @@ export async function requireMediaQuota(
   return tenant
 }
 
+/**
+ * Check whether an error was thrown by one of the require* gates above
+ */
+export function isFeatureGateError(error: unknown): boolean {
+  return (
+    error instanceof UnauthorizedError ||
+    error instanceof ForbiddenError ||
+    error instanceof FeatureGatedError ||
+    error instanceof QuotaExceededError
+  )
+}
+
 /**
  * Convert a feature gate error to an appropriate NextResponse
  *
@@ -142,6 +193,13 @@ export function handleFeatureGateError(error: unknown): NextResponse {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
+  if (error instanceof ForbiddenError) {
+    return NextResponse.json(
+      { error: error.message, code: 'FORBIDDEN' },
+      { status: 403 },
+    )
+  }
+
   if (error instanceof FeatureGatedError) {
     return NextResponse.json(
       {
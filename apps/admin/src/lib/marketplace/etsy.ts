@@ -0,0 +1,721 @@
+/**
+ * Shared Etsy marketplace utilities
+ *
+ * Client for the Etsy Open API v3 plus the mapping between MadeBuy pieces/
+ * variants and Etsy listings/inventory, and between Etsy receipts and
+ * MarketplaceOrder.
+ * Docs: https://developers.etsy.com/documentation/reference
+ */
+import type {
+  CreateMarketplaceOrderInput,
+  EnhancedProductVariant,
+  MarketplaceConnection,
+  MarketplaceListing,
+  Piece,
+} from '@madebuy/shared'
+
+const ETSY_API_URL = 'https://api.etsy.com/v3/application'
+
+// Etsy reserves these property IDs for seller-defined variations
+const ETSY_CUSTOM_PROPERTY_IDS = [513, 514]
+
+// Etsy limits
+const ETSY_MAX_QUANTITY = 999
+export const ETSY_MAX_IMAGES = 10
+const ETSY_TITLE_MAX_LENGTH = 140
+
+// ============================================================================
+// Etsy API Types
+// ============================================================================
+
+/**
+ * Money as returned by Etsy (amount / divisor, e.g. 1999 / 100)
+ */
+export interface EtsyMoney {
+  amount: number
+  divisor: number
+  currency_code: string
+}
+
+export type EtsyListingState =
+  | 'active'
+  | 'inactive'
+  | 'sold_out'
+  | 'draft'
+  | 'expired'
+
+/**
+ * Etsy listing (subset of fields we use)
+ */
+export interface EtsyListing {
+  listing_id: number
+  shop_id: number
+  state: EtsyListingState
+  title: string
+  description: string
+  quantity: number
+  url?: string
+  price?: EtsyMoney
+  has_variations?: boolean
+}
+
+/**
+ * Payload for createDraftListing
+ */
+export interface EtsyCreateListingInput {
+  quantity: number
+  title: string
+  description: string
+  price: number
+  who_made: 'i_did' | 'someone_else' | 'collective'
+  when_made: string
+  taxonomy_id: number
+  shipping_profile_id?: number
+  type?: 'physical' | 'download' | 'both'
+  materials?: string[]
+  tags?: string[]
+}
+
+/**
+ * Payload for updateListing
+ */
+export interface EtsyUpdateListingInput {
+  title?: string
+  description?: string
+  state?: 'active' | 'inactive'
+  materials?: string[]
+  tags?: string[]
+}
+
+export interface EtsyPropertyValue {
+  property_id: number
+  property_name?: string
+  value_ids?: number[]
+  values: string[]
+}
+
+export interface EtsyOffering {
+  offering_id?: number
+  price: number | EtsyMoney
+  quantity: number
+  is_enabled: boolean
+  is_deleted?: boolean
+}
+
+export interface EtsyInventoryProduct {
+  product_id?: number
+  sku?: string
+  is_deleted?: boolean
+  offerings: EtsyOffering[]
+  property_values: EtsyPropertyValue[]
+}
+
+/**
+ * Listing inventory - one product per variation combination
+ */
+export interface EtsyListingInventory {
+  products: EtsyInventoryProduct[]
+  price_on_property?: number[]
+  quantity_on_property?: number[]
+  sku_on_property?: number[]
+}
+
+export interface EtsyShippingProfile {
+  shipping_profile_id: number
+  title: string
+}
+
+// ============================================================================
+// Etsy Order (Receipt) Types
+// ============================================================================
+
+/**
+ * A purchased line within a receipt
+ */
+export interface EtsyTransaction {
+  transaction_id: number
+  title: string
+  quantity: number
+  price: EtsyMoney
+  listing_id?: number
+  product_id?: number
+  sku?: string
+  variations?: Array<{
+    property_id?: number
+    formatted_name: string
+    formatted_value: string
+  }>
+}
+
+export interface EtsyShipment {
+  receipt_shipping_id?: number
+  carrier_name?: string
+  tracking_code?: string
+  shipment_notification_timestamp?: number
+}
+
+/**
+ * Etsy receipt (order)
+ */
+export interface EtsyReceipt {
+  receipt_id: number
+  status:
+    | 'paid'
+    | 'completed'
+    | 'open'
+    | 'payment processing'
+    | 'canceled'
+    | 'fully refunded'
+    | 'partially refunded'
+  is_paid: boolean
+  is_shipped: boolean
+  buyer_email?: string
+  buyer_user_id?: number
+  name?: string
+  first_line?: string
+  second_line?: string
+  city?: string
+  state?: string
+  zip?: string
+  country_iso?: string
+  create_timestamp: number
+  updated_timestamp?: number
+  grandtotal?: EtsyMoney
+  subtotal?: EtsyMoney
+  total_shipping_cost?: EtsyMoney
+  total_tax_cost?: EtsyMoney
+  transactions?: EtsyTransaction[]
+  shipments?: EtsyShipment[]
+}
+
+interface EtsyPaginated<T> {
+  count: number
+  results: T[]
+}
+
+// ============================================================================
+// Etsy API Client
+// ============================================================================
+
+export class EtsyApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown,
+  ) {
+    super(message)
+    this.name = 'EtsyApiError'
+  }
+}
+
+export class EtsyClient {
+  constructor(
+    private readonly accessToken: string,
+    private readonly apiKey: string,
+    public readonly shopId: string,
+  ) {}
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.accessToken}`,
+      'x-api-key': this.apiKey,
+    }
+
+    let requestBody: BodyInit | undefined
+    if (body instanceof FormData) {
+      requestBody = body
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+      requestBody = JSON.stringify(body)
+    }
+
+    const response = await fetch(`${ETSY_API_URL}${path}`, {
+      method,
+      headers,
+      body: requestBody,
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new EtsyApiError(
+        `Etsy API ${method} ${path} failed: ${error.error || response.statusText}`,
+        response.status,
+        error,
+      )
+    }
+
+    // DELETE returns 204 with no body
+    if (response.status === 204) {
+      return undefined as T
+    }
+    return response.json()
+  }
+
+  // --------------------------------------------------------------------------
+  // Listings
+  // --------------------------------------------------------------------------
+
+  async getListing(listingId: number): Promise<EtsyListing> {
+    return this.request('GET', `/listings/${listingId}`)
+  }
+
+  /**
+   * Create a listing in draft state. It needs at least one image before it
+   * can be activated.
+   */
+  async createDraftListing(
+    input: EtsyCreateListingInput,
+  ): Promise<EtsyListing> {
+    return this.request('POST', `/shops/${this.shopId}/listings`, input)
+  }
+
+  async updateListing(
+    listingId: number,
+    input: EtsyUpdateListingInput,
+  ): Promise<EtsyListing> {
+    return this.request(
+      'PATCH',
+      `/shops/${this.shopId}/listings/${listingId}`,
+      input,
+    )
+  }
+
+  async deleteListing(listingId: number): Promise<void> {
+    await this.request('DELETE', `/listings/${listingId}`)
+  }
+
+  /**
+   * Download an image from our CDN and attach it to the listing
+   */
+  async uploadListingImage(
+    listingId: number,
+    imageUrl: string,
+    rank: number,
+  ): Promise<void> {
+    const imageResponse = await fetch(imageUrl)
+    if (!imageResponse.ok) {
+      throw new Error(`Failed to download image ${imageUrl}`)
+    }
+
+    const form = new FormData()
+    form.append('image', await imageResponse.blob(), `image-${rank}.jpg`)
+    form.append('rank', rank.toString())
+
+    await this.request(
+      'POST',
+      `/shops/${this.shopId}/listings/${listingId}/images`,
+      form,
+    )
+  }
+
+  async getListingInventory(listingId: number): Promise<EtsyListingInventory> {
+    return this.request('GET', `/listings/${listingId}/inventory`)
+  }
+
+  async updateListingInventory(
+    listingId: number,
+    inventory: EtsyListingInventory,
+  ): Promise<EtsyListingInventory> {
+    return this.request('PUT', `/listings/${listingId}/inventory`, inventory)
+  }
+
+  async getShippingProfiles(): Promise<EtsyShippingProfile[]> {
+    const data = await this.request<EtsyPaginated<EtsyShippingProfile>>(
+      'GET',
+      `/shops/${this.shopId}/shipping-profiles`,
+    )
+    return data.results
+  }
+
+  // --------------------------------------------------------------------------
+  // Receipts (orders)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get receipts created since a date, following Etsy's offset pagination
+   */
+  async getShopReceipts(
+    minCreated: Date,
+    maxResults: number = 200,
+  ): Promise<EtsyReceipt[]> {
+    const receipts: EtsyReceipt[] = []
+    const limit = 100
+
+    while (receipts.length < maxResults) {
+      const params = new URLSearchParams({
+        min_created: Math.floor(minCreated.getTime() / 1000).toString(),
+        limit: limit.toString(),
+        offset: receipts.length.toString(),
+      })
+      const page = await this.request<EtsyPaginated<EtsyReceipt>>(
+        'GET',
+        `/shops/${this.shopId}/receipts?${params}`,
+      )
+      receipts.push(...page.results)
+
+      if (page.results.length < limit || receipts.length >= page.count) {
+        break
+      }
+    }
+
+    return receipts.slice(0, maxResults)
+  }
+
+  async getReceipt(receiptId: number): Promise<EtsyReceipt> {
+    return this.request('GET', `/shops/${this.shopId}/receipts/${receiptId}`)
+  }
+
+  /**
+   * Mark a receipt as shipped and notify the buyer with tracking
+   */
+  async createReceiptShipment(
+    receiptId: number,
+    tracking: { trackingCode: string; carrierName: string },
+  ): Promise<EtsyReceipt> {
+    return this.request(
+      'POST',
+      `/shops/${this.shopId}/receipts/${receiptId}/tracking`,
+      {
+        tracking_code: tracking.trackingCode,
+        carrier_name: tracking.carrierName,
+      },
+    )
+  }
+}
+
+/**
+ * Create an Etsy API client for a tenant's connection
+ * The connection's sellerId holds the Etsy shop ID (set in the OAuth callback)
+ */
+export function createEtsyClient(
+  connection: Pick<MarketplaceConnection, 'accessToken' | 'sellerId'>,
+): EtsyClient {
+  if (!process.env.ETSY_CLIENT_ID) {
+    throw new Error(
+      'Etsy API credentials not configured. Set ETSY_CLIENT_ID environment variable.',
+    )
+  }
+  if (!connection.sellerId) {
+    throw new Error('Etsy connection has no shop ID. Please reconnect Etsy.')
+  }
+
+  return new EtsyClient(
+    connection.accessToken,
+    process.env.ETSY_CLIENT_ID,
+    connection.sellerId,
+  )
+}
+
+/**
+ * Public URL for a listing
+ */
+export function getEtsyListingUrl(listingId: number): string {
+  return `https://www.etsy.com/listing/${listingId}`
+}
+
+/**
+ * Seller-facing URL for a receipt
+ */
+export function getEtsyReceiptUrl(receiptId: number): string {
+  return `https://www.etsy.com/your/orders/sold?order_id=${receiptId}`
+}
+
+export function etsyMoneyToNumber(money?: EtsyMoney): number {
+  if (!money || !money.divisor) return 0
+  return money.amount / money.divisor
+}
+
+// ============================================================================
+// Piece -> Etsy listing mapping
+// ============================================================================
+
+/**
+ * Build the listing fields Etsy shares across create and update
+ */
+export function buildEtsyListingDetails(piece: Piece): {
+  title: string
+  description: string
+  materials?: string[]
+  tags?: string[]
+} {
+  return {
+    title: piece.name.slice(0, ETSY_TITLE_MAX_LENGTH),
+    description: piece.description || `${piece.name} - Handmade item`,
+    // Etsy allows 13 of each, letters/numbers/spaces only
+    materials: piece.materials?.length
+      ? piece.materials.slice(0, 13).map(toEtsyTag)
+      : undefined,
+    tags: piece.tags?.length
+      ? piece.tags.slice(0, 13).map(toEtsyTag)
+      : undefined,
+  }
+}
+
+function toEtsyTag(value: string): string {
+  return value
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .trim()
+    .slice(0, 20)
+}
+
+function toEtsyQuantity(stock: number | undefined): number {
+  // Undefined stock means unlimited - list a single unit like eBay does
+  return Math.min(Math.max(stock ?? 1, 0), ETSY_MAX_QUANTITY)
+}
+
+/**
+ * Build listing inventory from a piece and its active variants
+ * Etsy supports up to two variation properties per listing.
+ */
+export function buildEtsyInventory(
+  piece: Piece,
+  variants: EnhancedProductVariant[],
+): EtsyListingInventory {
+  const price = piece.price ?? 0
+  const activeVariants = variants.filter((v) => !v.isDeleted)
+
+  if (!piece.hasVariants || activeVariants.length === 0) {
+    return {
+      products: [
+        {
+          sku: '',
+          property_values: [],
+          offerings: [
+            {
+              price,
+              quantity: toEtsyQuantity(piece.stock),
+              is_enabled: true,
+            },
+          ],
+        },
+      ],
+      price_on_property: [],
+      quantity_on_property: [],
+      sku_on_property: [],
+    }
+  }
+
+  const attributeNames = getVariantAttributeNames(piece, activeVariants)
+  if (attributeNames.length > ETSY_CUSTOM_PROPERTY_IDS.length) {
+    throw new Error(
+      `Etsy supports at most ${ETSY_CUSTOM_PROPERTY_IDS.length} variation attributes (this piece has ${attributeNames.length})`,
+    )
+  }
+  const propertyIds = attributeNames.map((_, i) => ETSY_CUSTOM_PROPERTY_IDS[i])
+
+  const products = activeVariants.map((variant) => ({
+    sku: variant.sku,
+    property_values: attributeNames.map((name, i) => ({
+      property_id: propertyIds[i],
+      property_name: name,
+      values: [variant.attributes[name] ?? ''],
+    })),
+    offerings: [
+      {
+        // Variant prices are stored in cents, piece prices in dollars
+        price: variant.price != null ? variant.price / 100 : price,
+        quantity: toEtsyQuantity(variant.stock),
+        is_enabled: variant.isAvailable && variant.stock > 0,
+      },
+    ],
+  }))
+
+  const hasPriceOverrides = activeVariants.some(
+    (v) => v.price != null && v.price / 100 !== price,
+  )
+
+  return {
+    products,
+    price_on_property: hasPriceOverrides ? propertyIds : [],
+    quantity_on_property: propertyIds,
+    sku_on_property: propertyIds,
+  }
+}
+
+function getVariantAttributeNames(
+  piece: Piece,
+  variants: EnhancedProductVariant[],
+): string[] {
+  if (piece.variantAttributes?.length) {
+    return [...piece.variantAttributes]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .map((a) => a.name)
+  }
+  const names = new Set<string>()
+  for (const variant of variants) {
+    for (const name of Object.keys(variant.attributes)) {
+      names.add(name)
+    }
+  }
+  return Array.from(names)
+}
+
+/**
+ * Stock recorded as lastSyncedQuantity, used to detect changes between syncs
+ */
+export function getEtsySyncQuantity(
+  piece: Piece,
+  variants: EnhancedProductVariant[],
+): number {
+  return piece.hasVariants
+    ? variants.reduce((sum, v) => sum + v.stock, 0)
+    : (piece.stock ?? 1)
+}
+
+/**
+ * Total sellable quantity for an inventory payload
+ */
+export function getEtsyInventoryQuantity(
+  inventory: EtsyListingInventory,
+): number {
+  return inventory.products.reduce(
+    (sum, product) =>
+      sum +
+      product.offerings
+        .filter((o) => o.is_enabled)
+        .reduce((s, o) => s + o.quantity, 0),
+    0,
+  )
+}
+
+/**
+ * Push a piece's price and stock to its Etsy listing
+ *
+ * Etsy rejects inventory where nothing is in stock, so a listing that runs
+ * out is deactivated instead. Pass `activate` to publish a draft or bring
+ * back a listing we deactivated; listings the seller paused or that sold
+ * out on Etsy (reactivating those is a paid renewal) are left alone.
+ */
+export async function pushEtsyInventory(
+  client: EtsyClient,
+  etsyListingId: number,
+  piece: Piece,
+  variants: EnhancedProductVariant[],
+  options: { activate?: boolean } = {},
+): Promise<{ quantity: number; state: EtsyListingState }> {
+  const inventory = buildEtsyInventory(piece, variants)
+  const quantity = getEtsyInventoryQuantity(inventory)
+
+  if (quantity === 0) {
+    await client.updateListing(etsyListingId, { state: 'inactive' })
+    return { quantity, state: 'inactive' }
+  }
+
+  await client.updateListingInventory(etsyListingId, inventory)
+
+  const listing = await client.getListing(etsyListingId)
+  if (
+    options.activate &&
+    (listing.state === 'draft' || listing.state === 'inactive')
+  ) {
+    await client.updateListing(etsyListingId, { state: 'active' })
+    return { quantity, state: 'active' }
+  }
+  return { quantity, state: listing.state }
+}
+
+// ============================================================================
+// Etsy receipt -> MarketplaceOrder mapping
+// ============================================================================
+
+/**
+ * Map an Etsy receipt to a MadeBuy marketplace order
+ *
+ * @param listingsMap - MadeBuy listings keyed by Etsy listing ID
+ */
+export function mapEtsyReceiptToMarketplaceOrder(
+  receipt: EtsyReceipt,
+  listingsMap: Map<string, MarketplaceListing>,
+): CreateMarketplaceOrderInput {
+  const items = (receipt.transactions || []).map((transaction) => {
+    const listing =
+      transaction.listing_id !== undefined
+        ? listingsMap.get(transaction.listing_id.toString())
+        : undefined
+    const unitPrice = etsyMoneyToNumber(transaction.price)
+    const quantity = transaction.quantity || 1
+
+    // Etsy returns personalization as a variation named "Personalization"
+    const personalization = transaction.variations?.find(
+      (v) => v.formatted_name.toLowerCase() === 'personalization',
+    )?.formatted_value
+    const variations = transaction.variations
+      ?.filter((v) => v.formatted_name.toLowerCase() !== 'personalization')
+      .map((v) => ({ name: v.formatted_name, value: v.formatted_value }))
+
+    return {
+      externalItemId: transaction.transaction_id.toString(),
+      pieceId: listing?.pieceId,
+      marketplaceListingId: listing?.id,
+      title: transaction.title,
+      sku: transaction.sku || undefined,
+      quantity,
+      unitPrice,
+      totalPrice: unitPrice * quantity,
+      variations: variations?.length ? variations : undefined,
+      personalization,
+    }
+  })
+
+  const orderDate = new Date(receipt.create_timestamp * 1000)
+  const shipment = receipt.shipments?.find(
+    (s) => s.shipment_notification_timestamp,
+  )
+
+  return {
+    marketplace: 'etsy',
+    externalOrderId: receipt.receipt_id.toString(),
+    externalUrl: getEtsyReceiptUrl(receipt.receipt_id),
+    status: mapEtsyReceiptStatus(receipt),
+    paymentStatus:
+      receipt.status === 'fully refunded'
+        ? 'refunded'
+        : receipt.is_paid
+          ? 'paid'
+          : 'pending',
+    buyer: {
+      name: receipt.name || 'Unknown',
+      email: receipt.buyer_email || undefined,
+    },
+    shippingAddress: receipt.first_line
+      ? {
+          name: receipt.name || 'Unknown',
+          street1: receipt.first_line,
+          street2: receipt.second_line || undefined,
+          city: receipt.city || '',
+          state: receipt.state || undefined,
+          postalCode: receipt.zip || '',
+          country: receipt.country_iso || 'AU',
+        }
+      : undefined,
+    items,
+    subtotal: etsyMoneyToNumber(receipt.subtotal),
+    shippingCost: etsyMoneyToNumber(receipt.total_shipping_cost),
+    tax: etsyMoneyToNumber(receipt.total_tax_cost),
+    total: etsyMoneyToNumber(receipt.grandtotal),
+    currency: receipt.grandtotal?.currency_code || 'AUD',
+    orderDate,
+    paidAt: receipt.is_paid ? orderDate : undefined,
+    shippedAt: shipment?.shipment_notification_timestamp
+      ? new Date(shipment.shipment_notification_timestamp * 1000)
+      : undefined,
+    rawData: receipt as unknown as Record<string, unknown>,
+  }
+}
+
+export function mapEtsyReceiptStatus(
+  receipt: EtsyReceipt,
+): CreateMarketplaceOrderInput['status'] {
+  switch (receipt.status) {
+    case 'canceled':
+      return 'cancelled'
+    case 'fully refunded':
+      return 'refunded'
+  }
+  if (receipt.is_shipped) return 'shipped'
+  return receipt.is_paid ? 'paid' : 'pending'
+}
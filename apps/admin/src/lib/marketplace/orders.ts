@@ -0,0 +1,322 @@
+/**
+ * Marketplace order fulfilment
+ *
+ * Imported eBay/Etsy orders are converted into native orders so they are
+ * fulfilled from the same order list as storefront sales. Shipping the native
+ * order pushes tracking back to the marketplace it came from.
+ */
+import { marketplace, orders, pieces } from '@madebuy/db'
+import {
+  ConflictError,
+  MARKETPLACE_LABELS,
+  type MarketplaceOrder,
+  type Order,
+  type OrderItem,
+  type Piece,
+  type ProductVariant,
+} from '@madebuy/shared'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
+import { EBAY_HEADERS, getEbayApiUrl } from './ebay'
+import { createEtsyClient } from './etsy'
+
+const MARKETPLACE_ORDER_STATUS_MAP: Record<
+  MarketplaceOrder['status'],
+  Order['status']
+> = {
+  pending: 'pending',
+  paid: 'confirmed',
+  shipped: 'shipped',
+  completed: 'delivered',
+  cancelled: 'cancelled',
+  refunded: 'refunded',
+}
+
+/**
+ * The native order a marketplace order is linked to, if it has been created
+ */
+async function getLinkedOrder(
+  tenantId: string,
+  marketplaceOrderId: string,
+): Promise<Order | null> {
+  const current = await marketplace.getOrder(tenantId, marketplaceOrderId)
+  if (!current?.linkedOrderId) return null
+  return orders.getOrder(tenantId, current.linkedOrderId)
+}
+
+/**
+ * The piece variant a marketplace line item was sold as, matched on SKU
+ */
+function findVariant(
+  piece: Piece | undefined,
+  sku: string | undefined,
+): ProductVariant | undefined {
+  if (!piece?.variants || !sku) return undefined
+  return piece.variants.find((variant) => variant.sku === sku)
+}
+
+/**
+ * Create the native order for a marketplace order and link the two
+ *
+ * The marketplace order is claimed before the native order is created, so a
+ * cron import and a manual conversion can't both create one. A conversion
+ * that died after creating the order is finished by the next claim. Stock for
+ * matched pieces (or their variant, matched on SKU) is decremented, unless it
+ * was already taken when the order was imported (`stockDecremented` unset).
+ */
+export async function convertMarketplaceOrder(
+  tenantId: string,
+  marketplaceOrder: MarketplaceOrder,
+): Promise<Order> {
+  if (marketplaceOrder.linkedOrderId) {
+    const linked = await orders.getOrder(
+      tenantId,
+      marketplaceOrder.linkedOrderId,
+    )
+    if (linked) return linked
+  }
+
+  const orderId = await marketplace.claimOrderLink(
+    tenantId,
+    marketplaceOrder.id,
+  )
+  if (!orderId) {
+    const linked = await getLinkedOrder(tenantId, marketplaceOrder.id)
+    if (linked) return linked
+    throw new ConflictError('This order is already being converted')
+  }
+
+  // An interrupted conversion leaves its order under the claimed ID
+  const existingOrder = await orders.getOrder(tenantId, orderId)
+
+  const pieceIds = marketplaceOrder.items
+    .map((item) => item.pieceId)
+    .filter((id): id is string => !!id)
+  const piecesMap = await pieces.getPiecesByIds(tenantId, pieceIds)
+
+  const items: OrderItem[] = marketplaceOrder.items.map((item) => {
+    const piece = item.pieceId ? piecesMap.get(item.pieceId) : undefined
+    const variant = findVariant(piece, item.sku)
+    const variantAttributes = item.variations?.length
+      ? Object.fromEntries(item.variations.map((v) => [v.name, v.value]))
+      : undefined
+
+    return {
+      pieceId: item.pieceId ?? '',
+      name: item.title,
+      price: item.unitPrice,
+      quantity: item.quantity,
+      description: piece?.description,
+      category: piece?.category ?? 'Marketplace',
+      variantId: variant?.id,
+      variantSku: item.sku,
+      variantAttributes,
+      personalizations: item.personalization
+        ? [
+            {
+              fieldId: 'marketplace',
+              fieldName: 'Personalization',
+              value: item.personalization,
+              priceAdjustment: 0,
+            },
+          ]
+        : undefined,
+    }
+  })
+
+  const address = marketplaceOrder.shippingAddress
+  let order: Order
+  try {
+    order =
+      existingOrder ??
+      (await orders.createMarketplaceOrder(
+        tenantId,
+        {
+          customerEmail: marketplaceOrder.buyer.email || '',
+          customerName: marketplaceOrder.buyer.name,
+          customerPhone: address?.phone,
+          items,
+          shippingAddress: {
+            line1: address?.street1 || '',
+            line2: address?.street2,
+            city: address?.city || '',
+            state: address?.state || '',
+            postcode: address?.postalCode || '',
+            country: address?.country || 'AU',
+          },
+          shippingMethod: `${MARKETPLACE_LABELS[marketplaceOrder.marketplace]} shipping`,
+          shippingType:
+            address && address.country !== 'AU' ? 'international' : 'domestic',
+        },
+        {
+          id: orderId,
+          marketplace: {
+            platform: marketplaceOrder.marketplace,
+            marketplaceOrderId: marketplaceOrder.id,
+            externalOrderId: marketplaceOrder.externalOrderId,
+            externalUrl: marketplaceOrder.externalUrl,
+          },
+          subtotal: marketplaceOrder.subtotal,
+          shipping: marketplaceOrder.shippingCost,
+          tax: marketplaceOrder.tax,
+          total: marketplaceOrder.total,
+          currency: marketplaceOrder.currency,
+          status: MARKETPLACE_ORDER_STATUS_MAP[marketplaceOrder.status],
+          paymentStatus: marketplaceOrder.paymentStatus,
+          paidAt: marketplaceOrder.paidAt,
+          shippedAt: marketplaceOrder.shippedAt,
+          orderDate: marketplaceOrder.orderDate,
+        },
+      ))
+  } catch (error) {
+    await marketplace.releaseOrderLink(tenantId, marketplaceOrder.id, orderId)
+    throw error
+  }
+  await marketplace.completeOrderLink(tenantId, marketplaceOrder.id, orderId)
+
+  const stockSyncErrors: NonNullable<MarketplaceOrder['stockSyncErrors']> = []
+  const isCancelled =
+    marketplaceOrder.status === 'cancelled' ||
+    marketplaceOrder.status === 'refunded'
+  if (marketplaceOrder.stockDecremented === false && !isCancelled) {
+    for (const item of marketplaceOrder.items) {
+      const piece = item.pieceId ? piecesMap.get(item.pieceId) : undefined
+      if (!piece) continue
+      // Variant pieces keep stock per variant, like storefront reservations
+      const variant = findVariant(piece, item.sku)
+      // Undefined stock means unlimited
+      if ((variant ?? piece).stock === undefined) continue
+
+      const result = variant
+        ? await pieces.updateVariantStockSafe(
+            tenantId,
+            piece.id,
+            variant.id,
+            -item.quantity,
+          )
+        : await pieces.updateStockSafe(tenantId, piece.id, -item.quantity)
+      if (!result.success) {
+        const error = variant
+          ? `Insufficient stock for variant ${variant.sku} quantity ${item.quantity}`
+          : `Insufficient stock for quantity ${item.quantity}`
+        console.error(
+          `[marketplace] Stock decrement failed for piece ${piece.id} (order ${marketplaceOrder.externalOrderId}): ${error}`,
+        )
+        stockSyncErrors.push({ pieceId: piece.id, error })
+      }
+    }
+
+    await marketplace.recordStockDecrement(
+      tenantId,
+      marketplaceOrder.id,
+      stockSyncErrors,
+    )
+  }
+
+  if (order.paymentStatus === 'paid') {
+    dispatchWebhookEvent(tenantId, 'order.paid', { order })
+  }
+
+  return order
+}
+
+/**
+ * Send a shipped order's tracking to the marketplace it was sold on
+ * Never throws - a failed push shouldn't fail the shipment itself.
+ */
+export async function pushOrderShipmentToMarketplace(
+  tenantId: string,
+  order: Order,
+): Promise<{ success: boolean; error?: string }> {
+  const link = order.marketplace
+  if (!link) {
+    return { success: false, error: 'Not a marketplace order' }
+  }
+  if (!order.trackingNumber) {
+    return { success: false, error: 'Order has no tracking number' }
+  }
+
+  try {
+    const [marketplaceOrder, connection] = await Promise.all([
+      marketplace.getOrder(tenantId, link.marketplaceOrderId),
+      marketplace.getConnectionByMarketplace(tenantId, link.platform),
+    ])
+    if (!marketplaceOrder) {
+      return { success: false, error: 'Marketplace order not found' }
+    }
+    if (!connection || connection.status !== 'connected') {
+      return {
+        success: false,
+        error: `${MARKETPLACE_LABELS[link.platform]} not connected`,
+      }
+    }
+
+    const shippedAt = order.shippedAt ? new Date(order.shippedAt) : new Date()
+
+    if (link.platform === 'etsy') {
+      await createEtsyClient(connection).createReceiptShipment(
+        Number(link.externalOrderId),
+        {
+          trackingCode: order.trackingNumber,
+          carrierName: toCarrierSlug(order.carrier),
+        },
+      )
+    } else {
+      const response = await fetch(
+        getEbayApiUrl(
+          `/sell/fulfillment/v1/order/${encodeURIComponent(link.externalOrderId)}/shipping_fulfillment`,
+        ),
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${connection.accessToken}`,
+            'Content-Type': 'application/json',
+            ...EBAY_HEADERS,
+          },
+          body: JSON.stringify({
+            lineItems: marketplaceOrder.items.map((item) => ({
+              lineItemId: item.externalItemId,
+              quantity: item.quantity,
+            })),
+            shippedDate: shippedAt.toISOString(),
+            shippingCarrierCode: order.carrier || 'Other',
+            trackingNumber: order.trackingNumber,
+          }),
+        },
+      )
+      if (!response.ok) {
+        throw new Error(
+          `eBay shipping fulfillment failed: ${response.status} ${await response.text()}`,
+        )
+      }
+    }
+
+    await marketplace.updateOrderStatus(
+      tenantId,
+      marketplaceOrder.id,
+      'shipped',
+      shippedAt,
+    )
+    await orders.updateOrder(tenantId, order.id, {
+      marketplace: { ...link, trackingSyncedAt: new Date() },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error(
+      `[marketplace] Failed to push tracking for order ${order.id}:`,
+      error,
+    )
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Etsy expects carrier slugs (e.g. "australia-post"), "other" is always accepted
+ */
+function toCarrierSlug(carrier?: string): string {
+  if (!carrier) return 'other'
+  return carrier.trim().toLowerCase().replace(/\s+/g, '-')
+}
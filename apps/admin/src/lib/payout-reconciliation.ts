@@ -0,0 +1,271 @@
+import { payouts, transactions } from '@madebuy/db'
+import type {
+  Payout,
+  PayoutBalanceTransaction,
+  PayoutReconciliation,
+  Tenant,
+  Transaction,
+} from '@madebuy/shared'
+import {
+  ExternalServiceError,
+  getPayoutContribution,
+  ValidationError,
+} from '@madebuy/shared'
+import Stripe from 'stripe'
+
+// Balance transaction types that take money back out of the balance
+const REFUND_TYPES = ['refund', 'payment_refund', 'transfer_refund']
+
+function getStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY environment variable is not set')
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2023-10-16',
+  })
+}
+
+function idOf(value: string | { id: string } | null | undefined) {
+  if (!value) return undefined
+  return typeof value === 'string' ? value : value.id
+}
+
+/**
+ * The platform payment intent behind a charge. Destination charges reach the
+ * connected account through a transfer grouped as `group_<payment intent>`.
+ */
+function chargePaymentIntent(charge: Stripe.Charge): string | undefined {
+  const paymentIntent = idOf(charge.payment_intent)
+  if (paymentIntent) return paymentIntent
+
+  const transfer = charge.source_transfer
+  if (transfer && typeof transfer !== 'string') {
+    const group = transfer.transfer_group ?? ''
+    if (group.startsWith('group_')) return group.slice('group_'.length)
+  }
+  return undefined
+}
+
+function sourcePaymentIntent(
+  source: Stripe.BalanceTransaction['source'],
+): string | undefined {
+  if (!source || typeof source === 'string') return undefined
+
+  if (source.object === 'charge') {
+    return chargePaymentIntent(source)
+  }
+  if (source.object === 'refund') {
+    const refund = source as Stripe.Refund
+    const paymentIntent = idOf(refund.payment_intent)
+    if (paymentIntent) return paymentIntent
+    if (refund.charge && typeof refund.charge !== 'string') {
+      return chargePaymentIntent(refund.charge)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Fetch the balance transactions Stripe paid out in a payout from the
+ * seller's connected account. The payout's own entry is left out.
+ */
+async function fetchBalanceTransactions(
+  payout: Payout,
+  connectAccountId: string,
+): Promise<PayoutBalanceTransaction[]> {
+  let balanceTransactions: Stripe.BalanceTransaction[]
+  try {
+    balanceTransactions = await getStripe()
+      .balanceTransactions.list(
+        {
+          payout: payout.stripePayoutId,
+          limit: 100,
+          expand: [
+            'data.source',
+            'data.source.source_transfer',
+            'data.source.charge.source_transfer',
+          ],
+        },
+        { stripeAccount: connectAccountId },
+      )
+      .autoPagingToArray({ limit: 10000 })
+  } catch (error) {
+    throw new ExternalServiceError(
+      'Stripe',
+      error instanceof Error ? error.message : 'Failed to fetch payout',
+    )
+  }
+
+  return balanceTransactions
+    .filter((bt) => bt.type !== 'payout')
+    .map((bt) => ({
+      stripeBalanceTransactionId: bt.id,
+      type: bt.type,
+      amount: bt.amount,
+      fee: bt.fee,
+      net: bt.net,
+      description: bt.description || undefined,
+      sourceId: idOf(bt.source),
+      paymentIntentId: sourcePaymentIntent(bt.source),
+      createdAt: new Date(bt.created * 1000),
+    }))
+}
+
+/**
+ * Match each balance transaction to one ledger transaction: refunds by
+ * Stripe refund ID, then by payment intent and amount; everything else by
+ * payment intent. A ledger transaction is only matched once.
+ */
+function matchBalanceTransactions(
+  lines: PayoutBalanceTransaction[],
+  ledger: Transaction[],
+): PayoutBalanceTransaction[] {
+  const used = new Set<string>()
+
+  function take(match: (tx: Transaction) => boolean): string | undefined {
+    const tx = ledger.find(
+      (candidate) => !used.has(candidate.id) && match(candidate),
+    )
+    if (tx) used.add(tx.id)
+    return tx?.id
+  }
+
+  return lines.map((line) => {
+    let transactionId: string | undefined
+
+    if (REFUND_TYPES.includes(line.type)) {
+      transactionId =
+        take(
+          (tx) =>
+            tx.type === 'refund' &&
+            !!line.sourceId &&
+            tx.stripeRefundId === line.sourceId,
+        ) ??
+        take(
+          (tx) =>
+            tx.type === 'refund' &&
+            !!line.paymentIntentId &&
+            tx.stripePaymentIntentId === line.paymentIntentId &&
+            tx.grossAmount === Math.abs(line.amount),
+        )
+    } else if (line.paymentIntentId) {
+      transactionId = take(
+        (tx) =>
+          tx.type === 'sale' &&
+          tx.stripePaymentIntentId === line.paymentIntentId,
+      )
+    }
+
+    return { ...line, transactionId }
+  })
+}
+
+/**
+ * Fetch a payout's balance transactions from Stripe, match them to the
+ * ledger and link the matched transactions to the payout
+ */
+export async function reconcilePayout(
+  tenant: Tenant,
+  payout: Payout,
+): Promise<void> {
+  const connectAccountId = tenant.paymentConfig?.stripe?.connectAccountId
+  if (!connectAccountId) {
+    throw new ValidationError('Stripe is not connected', {
+      stripe: ['Connect Stripe to reconcile payouts'],
+    })
+  }
+
+  const lines = await fetchBalanceTransactions(payout, connectAccountId)
+
+  const ledger = await transactions.getTransactionsByStripeIds(tenant.id, {
+    paymentIntentIds: [
+      ...new Set(
+        lines
+          .map((line) => line.paymentIntentId)
+          .filter((id): id is string => !!id),
+      ),
+    ],
+    refundIds: lines
+      .filter((line) => REFUND_TYPES.includes(line.type) && line.sourceId)
+      .map((line) => line.sourceId as string),
+  })
+
+  await payouts.saveBalanceTransactions(
+    tenant.id,
+    payout.id,
+    matchBalanceTransactions(lines, ledger),
+  )
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10)
+}
+
+function formatMoney(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+function escapeCSV(value: string): string {
+  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * Per-payout statement CSV: every balance transaction in the payout beside
+ * the ledger transaction it matched, then the totals and any difference
+ */
+export function formatPayoutStatement({
+  payout,
+  transactions: linked,
+  ledgerTotal,
+  stripeTotal,
+  difference,
+}: PayoutReconciliation): string {
+  const ledgerById = new Map(linked.map((tx) => [tx.id, tx]))
+  const lines = payout.balanceTransactions ?? []
+
+  const rows = [
+    `Payout,${escapeCSV(payout.stripePayoutId)}`,
+    `Status,${payout.status}`,
+    `Arrival date,${payout.arrivalDate ? formatDate(payout.arrivalDate) : ''}`,
+    `Amount,${formatMoney(payout.amount)},${payout.currency.toUpperCase()}`,
+    '',
+    [
+      'Date',
+      'Type',
+      'Description',
+      'Stripe ID',
+      'Gross',
+      'Stripe Fee',
+      'Net',
+      'Ledger Transaction',
+      'Ledger Amount',
+      'Difference',
+    ].join(','),
+    ...lines.map((line) => {
+      const tx = line.transactionId
+        ? ledgerById.get(line.transactionId)
+        : undefined
+      const ledgerAmount = tx ? getPayoutContribution(tx) : undefined
+      return [
+        formatDate(line.createdAt),
+        line.type,
+        escapeCSV(tx?.description || line.description || ''),
+        line.sourceId || line.stripeBalanceTransactionId,
+        formatMoney(line.amount),
+        formatMoney(line.fee),
+        formatMoney(line.net),
+        tx ? tx.id : 'Not in ledger',
+        ledgerAmount !== undefined ? formatMoney(ledgerAmount) : '',
+        ledgerAmount !== undefined ? formatMoney(line.net - ledgerAmount) : '',
+      ].join(',')
+    }),
+    '',
+    `Stripe total,${formatMoney(stripeTotal)}`,
+    `Ledger total,${formatMoney(ledgerTotal)}`,
+    `Difference,${formatMoney(difference)}`,
+  ]
+  return rows.join('\n')
+}
@@ -0,0 +1,221 @@
+import type { PurchaseOrder, Supplier, Tenant } from '@madebuy/shared'
+import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'
+
+/**
+ * Build a purchase order PDF to send to a supplier
+ * Laid out like the monthly statement PDF (A4, Helvetica, blue headings)
+ */
+export async function generatePurchaseOrderPDF(
+  tenant: Tenant,
+  supplier: Supplier | null,
+  purchaseOrder: PurchaseOrder,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const page = pdfDoc.addPage([595.28, 841.89]) // A4 size
+  const { width, height } = page.getSize()
+
+  const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  // Colors
+  const black = rgb(0, 0, 0)
+  const gray = rgb(0.4, 0.4, 0.4)
+  const blue = rgb(0.2, 0.4, 0.8)
+  const lightGray = rgb(0.9, 0.9, 0.9)
+
+  let y = height - 50
+
+  // Header - Shop name and PO number
+  page.drawText(tenant.businessName || tenant.slug, {
+    x: 50,
+    y,
+    size: 20,
+    font: helveticaBold,
+    color: black,
+  })
+  const title = 'PURCHASE ORDER'
+  page.drawText(title, {
+    x: width - 50 - helveticaBold.widthOfTextAtSize(title, 14),
+    y,
+    size: 14,
+    font: helveticaBold,
+    color: blue,
+  })
+
+  y -= 18
+  // Deliveries go to the same address parcels are sent from
+  const address = tenant.sendleSettings?.pickupAddress
+  const fromLines = [
+    address
+      ? `${address.addressLine1}, ${address.suburb} ${address.state} ${address.postcode}`
+      : undefined,
+    tenant.taxSettings?.abn ? `ABN ${tenant.taxSettings.abn}` : undefined,
+    tenant.email,
+  ].filter((line): line is string => !!line)
+  for (const line of fromLines) {
+    page.drawText(line, { x: 50, y, size: 9, font: helvetica, color: gray })
+    y -= 13
+  }
+
+  const metaLines = [
+    purchaseOrder.poNumber,
+    `Date: ${formatDatePDF(purchaseOrder.sentAt || new Date())}`,
+    purchaseOrder.expectedAt
+      ? `Expected by: ${formatDatePDF(purchaseOrder.expectedAt)}`
+      : undefined,
+  ].filter((line): line is string => !!line)
+  let metaY = height - 68
+  for (const line of metaLines) {
+    page.drawText(line, {
+      x: width - 50 - helvetica.widthOfTextAtSize(line, 9),
+      y: metaY,
+      size: 9,
+      font: helvetica,
+      color: gray,
+    })
+    metaY -= 13
+  }
+
+  // Supplier
+  y = Math.min(y, metaY) - 20
+  page.drawText('To', { x: 50, y, size: 14, font: helveticaBold, color: blue })
+  y -= 18
+  const toLines = [
+    purchaseOrder.supplierName,
+    supplier?.contactName,
+    supplier?.email,
+    supplier?.phone,
+  ].filter((line): line is string => !!line)
+  for (const line of toLines) {
+    page.drawText(line, { x: 50, y, size: 10, font: helvetica, color: black })
+    y -= 14
+  }
+
+  // Items table
+  y -= 20
+  page.drawLine({
+    start: { x: 50, y },
+    end: { x: width - 50, y },
+    thickness: 1,
+    color: lightGray,
+  })
+
+  y -= 20
+  const colX = { item: 50, sku: 250, qty: 350, cost: 420, total: 490 }
+  const headers: Array<[string, number]> = [
+    ['Item', colX.item],
+    ['Supplier SKU', colX.sku],
+    ['Qty', colX.qty],
+    ['Unit cost', colX.cost],
+    ['Total', colX.total],
+  ]
+  for (const [label, x] of headers) {
+    page.drawText(label, { x, y, size: 9, font: helveticaBold, color: gray })
+  }
+
+  y -= 10
+  page.drawLine({
+    start: { x: 50, y },
+    end: { x: width - 50, y },
+    thickness: 0.5,
+    color: lightGray,
+  })
+
+  y -= 15
+  const currency = purchaseOrder.currency
+  for (const item of purchaseOrder.items) {
+    if (y < 120) break // Leave room for the total and footer
+
+    const cells: Array<[string, number]> = [
+      [item.materialName.slice(0, 38), colX.item],
+      [(item.supplierSku || '-').slice(0, 18), colX.sku],
+      [`${item.quantity} ${item.unit}`, colX.qty],
+      [formatCurrency(item.costPerUnit, currency), colX.cost],
+      [formatCurrency(item.quantity * item.costPerUnit, currency), colX.total],
+    ]
+    for (const [text, x] of cells) {
+      page.drawText(text, { x, y, size: 9, font: helvetica, color: black })
+    }
+    y -= 15
+  }
+
+  // Total
+  y -= 5
+  page.drawLine({
+    start: { x: colX.cost, y },
+    end: { x: width - 50, y },
+    thickness: 0.5,
+    color: lightGray,
+  })
+  y -= 18
+  page.drawText('Total', {
+    x: colX.cost,
+    y,
+    size: 11,
+    font: helveticaBold,
+    color: black,
+  })
+  page.drawText(formatCurrency(purchaseOrder.subtotal, currency), {
+    x: colX.total,
+    y,
+    size: 11,
+    font: helveticaBold,
+    color: black,
+  })
+
+  if (purchaseOrder.notes) {
+    y -= 35
+    page.drawText('Notes', {
+      x: 50,
+      y,
+      size: 10,
+      font: helveticaBold,
+      color: gray,
+    })
+    y -= 14
+    page.drawText(purchaseOrder.notes.slice(0, 120), {
+      x: 50,
+      y,
+      size: 9,
+      font: helvetica,
+      color: black,
+    })
+  }
+
+  // Footer
+  const footerY = 50
+  page.drawLine({
+    start: { x: 50, y: footerY + 15 },
+    end: { x: width - 50, y: footerY + 15 },
+    thickness: 0.5,
+    color: lightGray,
+  })
+
+  page.drawText(
+    `Please quote ${purchaseOrder.poNumber} on your invoice and delivery.`,
+    {
+      x: 50,
+      y: footerY,
+      size: 8,
+      font: helvetica,
+      color: gray,
+    },
+  )
+
+  return await pdfDoc.save()
+}
+
+function formatDatePDF(date: Date): string {
+  return new Date(date).toLocaleDateString('en-AU', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-AU', {
+    style: 'currency',
+    currency,
+  }).format(amount)
+}
@@ -0,0 +1,151 @@
+import type { Order, RefundProvider } from '@madebuy/shared'
+import {
+  ADMIN_REFUND_SOURCE,
+  ExternalServiceError,
+  fromMinorUnits,
+  isZeroDecimalCurrency,
+  stripeIdempotencyKey,
+  ValidationError,
+} from '@madebuy/shared'
+import Stripe from 'stripe'
+
+function getStripe() {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY environment variable is not set')
+  }
+  return new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: '2023-10-16',
+  })
+}
+
+function getPayPalBaseUrl(): string {
+  return process.env.PAYPAL_MODE === 'production'
+    ? 'https://api-m.paypal.com'
+    : 'https://api-m.sandbox.paypal.com'
+}
+
+async function getPayPalAccessToken(): Promise<string> {
+  const clientId = process.env.PAYPAL_CLIENT_ID
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET
+  if (!clientId || !clientSecret) {
+    throw new ExternalServiceError('PayPal', 'PayPal is not configured')
+  }
+
+  const res = await fetch(`${getPayPalBaseUrl()}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  })
+  if (!res.ok) {
+    throw new ExternalServiceError('PayPal', `Auth failed (${res.status})`)
+  }
+  const data = (await res.json()) as { access_token: string }
+  return data.access_token
+}
+
+async function refundPayPalCapture(
+  order: Order,
+  captureId: string,
+  amount: number,
+  refundKey: string,
+): Promise<string> {
+  const accessToken = await getPayPalAccessToken()
+
+  const res = await fetch(
+    `${getPayPalBaseUrl()}/v2/payments/captures/${captureId}/refund`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'PayPal-Request-Id': refundKey,
+      },
+      body: JSON.stringify({
+        amount: {
+          value: fromMinorUnits(amount, order.currency).toFixed(
+            isZeroDecimalCurrency(order.currency) ? 0 : 2,
+          ),
+          currency_code: order.currency.toUpperCase(),
+        },
+        invoice_id: `${order.orderNumber}-${refundKey}`,
+      }),
+    },
+  )
+  const data = (await res.json().catch(() => ({}))) as {
+    id?: string
+    message?: string
+  }
+  if (!res.ok || !data.id) {
+    throw new ExternalServiceError(
+      'PayPal',
+      data.message || `Refund failed (${res.status})`,
+    )
+  }
+  return data.id
+}
+
+/**
+ * Pay a refund back through the provider that took the order's payment
+ * Bank transfer orders are refunded by the seller directly, so nothing is
+ * sent anywhere and the refund is recorded as manual.
+ *
+ * @param amount - In the currency's minor unit (cents), as Stripe takes it
+ * @param refundKey - Unique per refund attempt, used for provider idempotency
+ */
+export async function issueProviderRefund(
+  order: Order,
+  amount: number,
+  refundKey: string,
+): Promise<{ provider: RefundProvider; providerRefundId?: string }> {
+  if (order.paymentMethod === 'stripe') {
+    const paymentIntentId = order.stripePaymentIntentId || order.paymentIntentId
+    if (!paymentIntentId) {
+      throw new ValidationError('No Stripe payment found for this order', {
+        order: ['No Stripe payment found for this order'],
+      })
+    }
+
+    try {
+      const refund = await getStripe().refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount,
+          // Destination charge - pull the funds back from the seller
+          reverse_transfer: true,
+          metadata: {
+            tenantId: order.tenantId,
+            orderId: order.id,
+            source: ADMIN_REFUND_SOURCE,
+          },
+        },
+        { idempotencyKey: stripeIdempotencyKey('refund', refundKey) },
+      )
+      return { provider: 'stripe', providerRefundId: refund.id }
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new ExternalServiceError('Stripe', error.message)
+      }
+      throw error
+    }
+  }
+
+  if (order.paymentMethod === 'paypal') {
+    if (!order.paypalCaptureId) {
+      throw new ValidationError('No PayPal payment found for this order', {
+        order: ['No PayPal payment found for this order'],
+      })
+    }
+    const providerRefundId = await refundPayPalCapture(
+      order,
+      order.paypalCaptureId,
+      amount,
+      refundKey,
+    )
+    return { provider: 'paypal', providerRefundId }
+  }
+
+  return { provider: 'manual' }
+}
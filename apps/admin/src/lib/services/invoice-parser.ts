@@ -202,6 +202,30 @@ export function extractTotalAmount(lines: string[]): number | undefined {
   return undefined
 }
 
+/**
+ * Extract the GST component printed on an invoice or receipt (best effort)
+ * Matches "GST: $10.00", "Total GST 10.00" or "Includes GST of $10.00", but
+ * skips totals such as "Total inc GST: $110.00".
+ */
+export function extractGstAmount(lines: string[]): number | undefined {
+  // GST sits near the totals at the bottom
+  const bottomLines = lines.slice(-15)
+
+  for (const line of bottomLines) {
+    if (!/\bgst\b/i.test(line)) continue
+    if (/\b(inc|incl|including|ex|excl|excluding)\.?\s+gst\b/i.test(line)) {
+      continue
+    }
+
+    const amounts = line.match(/\$?\s*\d[\d,]*\.\d{2}/g)
+    if (amounts) {
+      return parseFloat(amounts[amounts.length - 1].replace(/[\s,$]/g, ''))
+    }
+  }
+
+  return undefined
+}
+
 /**
  * Extract invoice date (best effort)
  */
@@ -1,5 +1,7 @@
-import { tenants } from '@madebuy/db'
-import type { Tenant } from '@madebuy/shared'
+import { auditLog, teamMembers, tenants } from '@madebuy/db'
+import type { TeamMember, TeamRole, Tenant } from '@madebuy/shared'
+import { canRoleAccessPath } from '@madebuy/shared'
+import { headers } from 'next/headers'
 import { getServerSession } from 'next-auth'
 import { cache } from 'react'
 import { authOptions } from './auth'
@@ -10,6 +12,37 @@ export const getCurrentUser = cache(async () => {
   return session?.user
 })
 
+// Cached per-request - staff are re-checked against the database so removed
+// members and role changes take effect without waiting for the JWT to expire
+export const getCurrentStaffMember = cache(
+  async (): Promise<TeamMember | null> => {
+    const user = await getCurrentUser()
+
+    if (!user?.id || !user.staffId) {
+      return null
+    }
+
+    return await teamMembers.getActiveTeamMember(user.id, user.staffId)
+  },
+)
+
+// Cached per-request - the signed-in user's role (null if not signed in or
+// the staff member has been removed)
+export const getCurrentRole = cache(async (): Promise<TeamRole | null> => {
+  const user = await getCurrentUser()
+
+  if (!user?.id) {
+    return null
+  }
+
+  if (!user.staffId) {
+    return 'owner'
+  }
+
+  const member = await getCurrentStaffMember()
+  return member?.role ?? null
+})
+
 // Cached per-request - prevents duplicate tenant DB lookups within same request
 // This is critical: layout, page, and API routes all call this, but now it only
 // executes once per request regardless of how many times it's called
@@ -20,6 +53,35 @@ export const getCurrentTenant = cache(async (): Promise<Tenant | null> => {
     return null
   }
 
+  if (user.staffId) {
+    const member = await getCurrentStaffMember()
+
+    if (!member) {
+      return null
+    }
+
+    // Path and method are forwarded by middleware for signed-in requests
+    const requestHeaders = headers()
+    const pathname = requestHeaders.get('x-pathname')
+    const method = requestHeaders.get('x-request-method') || 'GET'
+
+    if (pathname && !canRoleAccessPath(member.role, pathname, method)) {
+      return null
+    }
+
+    if (pathname && method !== 'GET' && method !== 'HEAD') {
+      await auditLog.logAuditEvent({
+        tenantId: member.tenantId,
+        eventType: 'staff.action',
+        actorId: member.id,
+        actorEmail: member.email,
+        actorType: 'staff',
+        metadata: { role: member.role, method, path: pathname },
+        success: true,
+      })
+    }
+  }
+
   return await tenants.getTenantById(user.id)
 })
 
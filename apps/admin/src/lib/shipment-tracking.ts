@@ -0,0 +1,91 @@
+/**
+ * Shipment tracking
+ *
+ * Turns Sendle tracking scans into the timeline stored on the order and
+ * decides when the customer should hear about a delivery or a delay.
+ */
+import type { SendleTrackingEvent } from '@madebuy/shipping'
+import type {
+  OrderTracking,
+  OrderTrackingEvent,
+  OrderTrackingState,
+} from '@madebuy/shared'
+
+/**
+ * A parcel with no new scan for this long is treated as delayed
+ */
+export const TRACKING_STALLED_AFTER_DAYS = 5
+
+// Sendle exception scans - the parcel won't arrive when expected
+const DELAY_EVENT_TYPES = new Set([
+  'delivery attempted',
+  'card left',
+  'unable to deliver',
+  'damaged',
+  'delayed',
+])
+
+/**
+ * Build the order's tracking timeline from Sendle's scan history
+ */
+export function buildOrderTracking(
+  events: SendleTrackingEvent[],
+  previous: OrderTracking | undefined,
+  now: Date = new Date(),
+): OrderTracking {
+  const timeline: OrderTrackingEvent[] = events
+    .map((event) => ({
+      occurredAt: new Date(event.scan_time),
+      type: event.event_type,
+      description: event.reason
+        ? `${event.description} (${event.reason})`
+        : event.description,
+      location: event.location || undefined,
+    }))
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+
+  return {
+    state: getTrackingState(timeline, now),
+    events: timeline,
+    checkedAt: now,
+    delayNotifiedAt: previous?.delayNotifiedAt,
+  }
+}
+
+function getTrackingState(
+  timeline: OrderTrackingEvent[],
+  now: Date,
+): OrderTrackingState {
+  if (timeline.some((event) => isType(event, 'delivered'))) {
+    return 'delivered'
+  }
+
+  const latest = timeline[0]
+  if (!latest) {
+    return 'awaiting_pickup'
+  }
+
+  const stalledAt = new Date(latest.occurredAt)
+  stalledAt.setDate(stalledAt.getDate() + TRACKING_STALLED_AFTER_DAYS)
+  if (DELAY_EVENT_TYPES.has(latest.type.toLowerCase()) || now >= stalledAt) {
+    return 'delayed'
+  }
+
+  if (isType(latest, 'out for delivery')) {
+    return 'out_for_delivery'
+  }
+
+  return 'in_transit'
+}
+
+function isType(event: OrderTrackingEvent, type: string): boolean {
+  return event.type.toLowerCase() === type
+}
+
+/**
+ * When the delivered scan happened, falling back to now
+ */
+export function getDeliveredAt(tracking: OrderTracking): Date {
+  const delivered = tracking.events.find((event) => isType(event, 'delivered'))
+  return delivered?.occurredAt ?? tracking.checkedAt
+}
@@ -1,7 +1,8 @@
-import { pieces } from '@madebuy/db'
+import { pieces, teamMembers } from '@madebuy/db'
 import {
   canAddMoreMedia,
   canAddMorePieces,
+  canAddTeamMember,
   getPlanLimits,
   getRequiredPlanForFeature,
   getUpgradeMessage,
@@ -65,6 +66,33 @@ export function checkCanAddMedia(
   return { allowed: true }
 }
 
+/**
+ * Check if tenant can invite another team member
+ * The owner occupies one seat of the plan's team limit
+ */
+export async function checkCanAddTeamMember(
+  tenant: Tenant,
+): Promise<SubscriptionCheckResult> {
+  const staffCount = await teamMembers.countTeamMembers(tenant.id)
+
+  if (!canAddTeamMember(tenant.plan, staffCount + 1)) {
+    const limits = getPlanLimits(tenant.plan)
+    return {
+      allowed: false,
+      message:
+        limits.teamMembers <= 1
+          ? `Team members aren't available on the ${PLAN_NAMES[tenant.plan]} plan. Upgrade to invite staff.`
+          : `You've reached your limit of ${limits.teamMembers} team members on the ${PLAN_NAMES[tenant.plan]} plan.`,
+      upgradeRequired: true,
+      // Studio is currently the only plan with staff seats
+      requiredPlan:
+        limits.teamMembers <= 1 ? 'studio' : getNextPlan(tenant.plan),
+    }
+  }
+
+  return { allowed: true }
+}
+
 /**
  * Check if tenant can use a specific feature
  */
@@ -0,0 +1,296 @@
+import type { Order, Tenant } from '@madebuy/shared'
+import {
+  calculateGstFromInclusive,
+  fromMinorUnits,
+  toMinorUnits,
+} from '@madebuy/shared'
+import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'
+
+/**
+ * Build the invoice PDF for a wholesale order
+ * Laid out like the purchase order PDF. Trade prices are GST inclusive like
+ * storefront prices, so GST-registered sellers get a tax invoice showing
+ * the GST component.
+ */
+export async function generateWholesaleInvoicePDF(
+  tenant: Tenant,
+  order: Order,
+): Promise<Uint8Array> {
+  const wholesale = order.wholesale
+  if (!wholesale) {
+    throw new Error('Not a wholesale order')
+  }
+
+  const pdfDoc = await PDFDocument.create()
+  const page = pdfDoc.addPage([595.28, 841.89]) // A4 size
+  const { width, height } = page.getSize()
+
+  const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  // Colors
+  const black = rgb(0, 0, 0)
+  const gray = rgb(0.4, 0.4, 0.4)
+  const blue = rgb(0.2, 0.4, 0.8)
+  const lightGray = rgb(0.9, 0.9, 0.9)
+
+  const taxSettings = tenant.taxSettings
+  const gstRegistered = !!taxSettings?.gstRegistered
+
+  let y = height - 50
+
+  // Header - Shop name and invoice title
+  page.drawText(tenant.businessName || tenant.slug, {
+    x: 50,
+    y,
+    size: 20,
+    font: helveticaBold,
+    color: black,
+  })
+  const title = gstRegistered ? 'TAX INVOICE' : 'INVOICE'
+  page.drawText(title, {
+    x: width - 50 - helveticaBold.widthOfTextAtSize(title, 14),
+    y,
+    size: 14,
+    font: helveticaBold,
+    color: blue,
+  })
+
+  y -= 18
+  const address = tenant.sendleSettings?.pickupAddress
+  const fromLines = [
+    address
+      ? `${address.addressLine1}, ${address.suburb} ${address.state} ${address.postcode}`
+      : undefined,
+    taxSettings?.abn ? `ABN ${taxSettings.abn}` : undefined,
+    tenant.email,
+  ].filter((line): line is string => !!line)
+  for (const line of fromLines) {
+    page.drawText(line, { x: 50, y, size: 9, font: helvetica, color: gray })
+    y -= 13
+  }
+
+  const metaLines = [
+    `Invoice ${order.orderNumber}`,
+    `Date: ${formatDatePDF(order.createdAt)}`,
+    `Terms: ${wholesale.paymentTermsDays === 0 ? 'Due on receipt' : `Net ${wholesale.paymentTermsDays} days`}`,
+    `Due: ${formatDatePDF(wholesale.dueDate)}`,
+  ]
+  let metaY = height - 68
+  for (const line of metaLines) {
+    page.drawText(line, {
+      x: width - 50 - helvetica.widthOfTextAtSize(line, 9),
+      y: metaY,
+      size: 9,
+      font: helvetica,
+      color: gray,
+    })
+    metaY -= 13
+  }
+
+  // Buyer
+  y = Math.min(y, metaY) - 20
+  page.drawText('Bill to', {
+    x: 50,
+    y,
+    size: 14,
+    font: helveticaBold,
+    color: blue,
+  })
+  y -= 18
+  const billing = order.billingAddress || order.shippingAddress
+  const toLines = [
+    wholesale.businessName,
+    order.customerName !== wholesale.businessName
+      ? order.customerName
+      : undefined,
+    billing?.line1
+      ? `${billing.line1}${billing.line2 ? `, ${billing.line2}` : ''}`
+      : undefined,
+    billing?.city
+      ? `${billing.city} ${billing.state} ${billing.postcode}`
+      : undefined,
+    wholesale.abn ? `ABN ${wholesale.abn}` : undefined,
+    order.customerEmail,
+  ].filter((line): line is string => !!line)
+  for (const line of toLines) {
+    page.drawText(line, { x: 50, y, size: 10, font: helvetica, color: black })
+    y -= 14
+  }
+
+  // Items table
+  y -= 20
+  page.drawLine({
+    start: { x: 50, y },
+    end: { x: width - 50, y },
+    thickness: 1,
+    color: lightGray,
+  })
+
+  y -= 20
+  const colX = { item: 50, qty: 350, price: 420, total: 490 }
+  const headers: Array<[string, number]> = [
+    ['Item', colX.item],
+    ['Qty', colX.qty],
+    ['Unit price', colX.price],
+    ['Total', colX.total],
+  ]
+  for (const [label, x] of headers) {
+    page.drawText(label, { x, y, size: 9, font: helveticaBold, color: gray })
+  }
+
+  y -= 10
+  page.drawLine({
+    start: { x: 50, y },
+    end: { x: width - 50, y },
+    thickness: 0.5,
+    color: lightGray,
+  })
+
+  y -= 15
+  const currency = order.currency
+  for (const item of order.items) {
+    if (y < 170) break // Leave room for the totals and footer
+
+    const cells: Array<[string, number]> = [
+      [item.name.slice(0, 55), colX.item],
+      [String(item.quantity), colX.qty],
+      [formatCurrency(item.price, currency), colX.price],
+      [formatCurrency(item.price * item.quantity, currency), colX.total],
+    ]
+    for (const [text, x] of cells) {
+      page.drawText(text, { x, y, size: 9, font: helvetica, color: black })
+    }
+    y -= 15
+  }
+
+  // Totals
+  y -= 5
+  page.drawLine({
+    start: { x: colX.price, y },
+    end: { x: width - 50, y },
+    thickness: 0.5,
+    color: lightGray,
+  })
+
+  const totalLines: Array<[string, number]> = [['Subtotal', order.subtotal]]
+  if (order.shipping > 0) {
+    totalLines.push(['Shipping', order.shipping])
+  }
+  for (const [label, amount] of totalLines) {
+    y -= 15
+    page.drawText(label, {
+      x: colX.price,
+      y,
+      size: 9,
+      font: helvetica,
+      color: gray,
+    })
+    page.drawText(formatCurrency(amount, currency), {
+      x: colX.total,
+      y,
+      size: 9,
+      font: helvetica,
+      color: black,
+    })
+  }
+
+  y -= 18
+  page.drawText('Total', {
+    x: colX.price,
+    y,
+    size: 11,
+    font: helveticaBold,
+    color: black,
+  })
+  page.drawText(formatCurrency(order.total, currency), {
+    x: colX.total,
+    y,
+    size: 11,
+    font: helveticaBold,
+    color: black,
+  })
+
+  if (gstRegistered) {
+    y -= 14
+    const gst = fromMinorUnits(
+      calculateGstFromInclusive(
+        toMinorUnits(order.total, currency),
+        taxSettings?.gstRate,
+      ),
+      currency,
+    )
+    page.drawText(`Includes GST of ${formatCurrency(gst, currency)}`, {
+      x: colX.price,
+      y,
+      size: 8,
+      font: helvetica,
+      color: gray,
+    })
+  }
+
+  if (order.paymentStatus === 'paid') {
+    y -= 20
+    page.drawText(
+      order.paidAt ? `PAID ${formatDatePDF(order.paidAt)}` : 'PAID',
+      { x: colX.price, y, size: 11, font: helveticaBold, color: blue },
+    )
+  }
+
+  if (order.customerNotes) {
+    y -= 35
+    page.drawText('Notes', {
+      x: 50,
+      y,
+      size: 10,
+      font: helveticaBold,
+      color: gray,
+    })
+    y -= 14
+    page.drawText(order.customerNotes.slice(0, 120), {
+      x: 50,
+      y,
+      size: 9,
+      font: helvetica,
+      color: black,
+    })
+  }
+
+  // Footer
+  const footerY = 50
+  page.drawLine({
+    start: { x: 50, y: footerY + 15 },
+    end: { x: width - 50, y: footerY + 15 },
+    thickness: 0.5,
+    color: lightGray,
+  })
+
+  page.drawText(
+    `Payment due by ${formatDatePDF(wholesale.dueDate)}. Please quote ${order.orderNumber} with your payment.`,
+    {
+      x: 50,
+      y: footerY,
+      size: 8,
+      font: helvetica,
+      color: gray,
+    },
+  )
+
+  return await pdfDoc.save()
+}
+
+function formatDatePDF(date: Date): string {
+  return new Date(date).toLocaleDateString('en-AU', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+// Order amounts are in major units
+function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-AU', {
+    style: 'currency',
+    currency,
+  }).format(amount)
+}
@@ -1,4 +1,5 @@
 import { timingSafeEqual } from 'node:crypto'
+import { canRoleAccessPath } from '@madebuy/shared'
 import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { getToken } from 'next-auth/jwt'
@@ -38,7 +39,7 @@ function isValidCallbackUrl(url: string): boolean {
 }
 
 // Routes that don't require authentication
-const PUBLIC_ROUTES = ['/login', '/register', '/forgot-password', '/reset-password', '/api/auth']
+const PUBLIC_ROUTES = ['/login', '/register', '/forgot-password', '/reset-password', '/api/auth', '/invite', '/api/team/accept']
 
 // Cron endpoints that use CRON_SECRET instead of session auth
 const CRON_ROUTES = [
@@ -50,8 +51,15 @@ const CRON_ROUTES = [
   '/api/cron/marketplace-refresh-tokens',
   '/api/cron/marketplace-sync',
   '/api/cron/marketplace-orders',
+  '/api/cron/shipment-tracking',
+  '/api/cron/review-requests',
+  '/api/cron/workshops',
+  '/api/cron/dispute-reminders',
 ]
 
+// Public REST API - authenticated per request with a tenant API key
+const API_KEY_ROUTES = ['/api/v1/']
+
 // Internal endpoints that accept either session auth OR CRON_SECRET
 const INTERNAL_CRON_ROUTES = [
   '/api/publish/', // Execute endpoint called by cron
@@ -83,6 +91,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
+  // Public API routes: let through (withApiKey validates the key, scope and rate limit)
+  if (API_KEY_ROUTES.some((route) => pathname.startsWith(route))) {
+    return NextResponse.next()
+  }
+
   // Internal cron routes: allow if valid CRON_SECRET is provided (timing-safe)
   if (INTERNAL_CRON_ROUTES.some((route) => pathname.startsWith(route))) {
     const authHeader = request.headers.get('authorization')
@@ -109,7 +122,25 @@ export async function middleware(request: NextRequest) {
   // If authenticated with valid token, skip rate limiting entirely
   // Rate limiting is primarily to prevent abuse from unauthenticated users
   if (token?.email) {
-    return NextResponse.next()
+    // Staff are limited to the areas their role grants (re-checked against
+    // the stored role in getCurrentTenant)
+    if (
+      token.staffId &&
+      token.role &&
+      !canRoleAccessPath(token.role, pathname, request.method)
+    ) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+      return NextResponse.redirect(new URL('/dashboard', request.url))
+    }
+
+    // Forward path and method so session lookups can enforce role permissions
+    // (overwrites any client-supplied values)
+    const requestHeaders = new Headers(request.headers)
+    requestHeaders.set('x-pathname', pathname)
+    requestHeaders.set('x-request-method', request.method)
+    return NextResponse.next({ request: { headers: requestHeaders } })
   }
 
   // Debug logging disabled in production for security
@@ -1,11 +1,14 @@
+import type { TeamRole } from '@madebuy/shared'
 import 'next-auth'
 
 declare module 'next-auth' {
   interface Session {
     user: {
-      id: string
+      id: string // Tenant ID (for staff, the tenant they belong to)
       email: string
       name: string
+      staffId?: string // Set when signed in as a team member
+      role: TeamRole
     }
   }
 
@@ -13,11 +16,15 @@ declare module 'next-auth' {
     id: string
     email: string
     name: string
+    staffId?: string
+    role?: TeamRole
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     id: string
+    staffId?: string
+    role?: TeamRole
   }
 }
@@ -136,6 +136,28 @@ vi.mock('@madebuy/db', () => ({
   downloads: {
     createDownloadRecord: vi.fn(),
     getDownloadRecordByToken: vi.fn(),
+    getDownloadRecord: vi.fn(),
+    regenerateToken: vi.fn(),
+  },
+  customers: {
+    getCustomerById: vi.fn(),
+    registerCustomer: vi.fn(),
+    authenticateCustomer: vi.fn(),
+    verifyCustomerEmail: vi.fn(),
+    createVerificationToken: vi.fn(),
+    addCustomerAddress: vi.fn(),
+    setDefaultAddress: vi.fn(),
+  },
+  wishlist: {
+    mergeWishlist: vi.fn(),
+  },
+  messages: {
+    createOrderAccessToken: vi.fn(),
+  },
+  webhooks: {
+    listEndpointsForEvent: vi.fn().mockResolvedValue([]),
+    createDelivery: vi.fn(),
+    completeDelivery: vi.fn(),
   },
   getDatabase: vi.fn(),
 }))
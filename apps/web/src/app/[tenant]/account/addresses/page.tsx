@@ -0,0 +1,45 @@
+import { AccountLayout } from '@/components/account/AccountLayout'
+import { AddressBook } from '@/components/account/AddressBook'
+import { requireCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `Addresses - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function AccountAddressesPage({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+  const customer = await requireCustomer(tenant, params.tenant)
+
+  return (
+    <AccountLayout
+      tenantSlug={params.tenant}
+      tenantId={tenant.id}
+      customerName={customer.name}
+      active="addresses"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        Saved Addresses
+      </h2>
+      <AddressBook
+        tenantId={tenant.id}
+        initialAddresses={customer.addresses || []}
+      />
+    </AccountLayout>
+  )
+}
@@ -0,0 +1,97 @@
+import { downloads, pieces } from '@madebuy/db'
+import { Download } from 'lucide-react'
+import { AccountLayout } from '@/components/account/AccountLayout'
+import { requireCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+import { formatDate } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `Downloads - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function AccountDownloadsPage({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+  const customer = await requireCustomer(tenant, params.tenant)
+
+  const records = await downloads.listDownloadRecords(tenant.id, {
+    customerEmail: customer.email,
+    isRevoked: false,
+  })
+  const products = await pieces.getPiecesByIds(
+    tenant.id,
+    Array.from(new Set(records.map((r) => r.pieceId))),
+  )
+
+  return (
+    <AccountLayout
+      tenantSlug={params.tenant}
+      tenantId={tenant.id}
+      customerName={customer.name}
+      active="downloads"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        Digital Downloads
+      </h2>
+
+      {records.length === 0 ? (
+        <div className="rounded-2xl border border-gray-100 p-8 text-center">
+          <Download className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-gray-600">No digital purchases yet</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-2xl border border-gray-100">
+          {records.map((record) => {
+            const remaining =
+              record.maxDownloads !== undefined && record.maxDownloads !== null
+                ? record.maxDownloads - record.downloadCount
+                : null
+
+            return (
+              <li
+                key={record.id}
+                className="flex items-center justify-between gap-4 p-4"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {products.get(record.pieceId)?.name || 'Digital product'}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Purchased {formatDate(record.createdAt)}
+                    {remaining !== null &&
+                      ` · ${Math.max(remaining, 0)} downloads remaining`}
+                  </p>
+                </div>
+                {remaining === null || remaining > 0 ? (
+                  <a
+                    href={`/api/account/downloads/${record.id}?tenantId=${tenant.id}`}
+                    className="inline-flex items-center gap-2 rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 transition-colors"
+                  >
+                    <Download className="h-4 w-4" />
+                    Download
+                  </a>
+                ) : (
+                  <span className="text-sm text-gray-500">Limit reached</span>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </AccountLayout>
+  )
+}
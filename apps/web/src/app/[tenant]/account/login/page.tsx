@@ -0,0 +1,74 @@
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { AccountAuthForm } from '@/components/account/AccountAuthForm'
+import { getSignedInCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `Sign In - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function AccountLoginPage({
+  params,
+  searchParams,
+}: {
+  params: { tenant: string }
+  searchParams: { verification?: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  if (await getSignedInCustomer(tenant.id)) {
+    redirect(`/${params.tenant}/account`)
+  }
+
+  return (
+    <div className="min-h-screen bg-white tenant-theme">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-gray-100 bg-white/80 backdrop-blur-lg">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <Link
+              href={`/${params.tenant}`}
+              className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Continue Shopping
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-md px-4 py-16">
+        <h1 className="text-2xl font-bold text-gray-900">
+          Sign in to your account
+        </h1>
+        <p className="mt-2 mb-8 text-gray-600">
+          Track orders, re-download purchases and manage your details
+        </p>
+        {searchParams.verification === 'expired' && (
+          <div className="mb-6 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+            That confirmation link has expired or was already used. Sign in to
+            get a new one.
+          </div>
+        )}
+        <AccountAuthForm
+          mode="login"
+          tenantSlug={params.tenant}
+          tenantId={tenant.id}
+        />
+      </main>
+    </div>
+  )
+}
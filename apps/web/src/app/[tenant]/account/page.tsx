@@ -0,0 +1,106 @@
+import { customers } from '@madebuy/db'
+import { getTenantCurrency } from '@madebuy/shared'
+import { ChevronRight, Package } from 'lucide-react'
+import Link from 'next/link'
+import { AccountLayout } from '@/components/account/AccountLayout'
+import { requireCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `My Account - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+}
+
+export default async function AccountPage({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+  const customer = await requireCustomer(tenant, params.tenant)
+  const withOrders = await customers.getCustomerWithOrders(
+    tenant.id,
+    customer.id,
+  )
+  const orderHistory = withOrders?.orders || []
+  const currency = getTenantCurrency(tenant)
+
+  return (
+    <AccountLayout
+      tenantSlug={params.tenant}
+      tenantId={tenant.id}
+      customerName={customer.name}
+      active="orders"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        Order History
+      </h2>
+
+      {orderHistory.length === 0 ? (
+        <div className="rounded-2xl border border-gray-100 p-8 text-center">
+          <Package className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-gray-600 mb-6">You haven&apos;t ordered yet</p>
+          <Link
+            href={`/${params.tenant}`}
+            className="inline-flex items-center gap-2 rounded-full bg-gray-900 px-6 py-3 font-medium text-white hover:bg-gray-800 transition-colors"
+          >
+            Start Shopping
+          </Link>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-2xl border border-gray-100">
+          {orderHistory.map((order) => (
+            <li key={order.id}>
+              <a
+                href={`/api/account/orders/${order.id}?tenantId=${tenant.id}`}
+                className="flex items-center justify-between gap-4 p-4 hover:bg-gray-50 transition-colors"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    Order #{order.orderNumber}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(order.createdAt)} &middot; {order.itemCount}{' '}
+                    {order.itemCount === 1 ? 'item' : 'items'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-medium text-gray-900">
+                      {formatCurrency(order.total, currency)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {STATUS_LABELS[order.status] || order.status}
+                    </p>
+                  </div>
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                </div>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </AccountLayout>
+  )
+}
@@ -0,0 +1,46 @@
+import { AccountLayout } from '@/components/account/AccountLayout'
+import { NewsletterPreferences } from '@/components/account/NewsletterPreferences'
+import { requireCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `Email Preferences - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function AccountPreferencesPage({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+  const customer = await requireCustomer(tenant, params.tenant)
+
+  return (
+    <AccountLayout
+      tenantSlug={params.tenant}
+      tenantId={tenant.id}
+      customerName={customer.name}
+      active="preferences"
+    >
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        Email Preferences
+      </h2>
+      <NewsletterPreferences
+        tenantId={tenant.id}
+        businessName={tenant.businessName}
+        initialSubscribed={customer.emailSubscribed}
+      />
+    </AccountLayout>
+  )
+}
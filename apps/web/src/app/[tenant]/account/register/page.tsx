@@ -0,0 +1,65 @@
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { AccountAuthForm } from '@/components/account/AccountAuthForm'
+import { getSignedInCustomer } from '@/lib/customer-session'
+import { requireTenant } from '@/lib/tenant'
+
+export const dynamic = 'force-dynamic'
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  return {
+    title: `Create Account - ${tenant.businessName}`,
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function AccountRegisterPage({
+  params,
+}: {
+  params: { tenant: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+
+  if (await getSignedInCustomer(tenant.id)) {
+    redirect(`/${params.tenant}/account`)
+  }
+
+  return (
+    <div className="min-h-screen bg-white tenant-theme">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-gray-100 bg-white/80 backdrop-blur-lg">
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center">
+            <Link
+              href={`/${params.tenant}`}
+              className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Continue Shopping
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-md px-4 py-16">
+        <h1 className="text-2xl font-bold text-gray-900">Create an account</h1>
+        <p className="mt-2 mb-8 text-gray-600">
+          Save addresses, sync your wishlist and see all your orders in one
+          place
+        </p>
+        <AccountAuthForm
+          mode="register"
+          tenantSlug={params.tenant}
+          tenantId={tenant.id}
+        />
+      </main>
+    </div>
+  )
+}
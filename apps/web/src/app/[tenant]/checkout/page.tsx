@@ -1,3 +1,4 @@
+import { getDisplayCurrencies, getTenantCurrency } from '@madebuy/shared'
 import { ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
 import { CheckoutStartTracker } from '@/components/analytics/CheckoutStartTracker'
@@ -44,7 +45,13 @@ export default async function CheckoutPage({
       {/* Checkout Content */}
       <main className="container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold text-gray-900">Checkout</h1>
-        <CheckoutForm tenant={params.tenant} tenantId={tenant.id} />
+        <CheckoutForm
+          tenant={params.tenant}
+          tenantId={tenant.id}
+          currency={getTenantCurrency(tenant)}
+          displayCurrencies={getDisplayCurrencies(tenant)}
+          exchangeRates={tenant.regionalSettings?.exchangeRates}
+        />
       </main>
     </div>
   )
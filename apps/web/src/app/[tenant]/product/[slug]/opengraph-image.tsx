@@ -1,3 +1,4 @@
+import { getOnlineAvailableStock } from '@madebuy/shared'
 import { ImageResponse } from 'next/og'
 import { getPieceBySlug, populatePieceWithMedia } from '@/lib/pieces'
 import { getTenantBySlug } from '@/lib/tenant'
@@ -174,7 +175,7 @@ export default async function Image({
         )}
 
         {/* Out of stock badge */}
-        {piece.stock !== undefined && piece.stock <= 0 && (
+        {getOnlineAvailableStock(piece) === 0 && (
           <div
             style={{
               marginTop: 20,
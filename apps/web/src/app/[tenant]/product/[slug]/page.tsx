@@ -1,5 +1,10 @@
 import { reviews } from '@madebuy/db'
-import type { ProductReviewStats } from '@madebuy/shared'
+import {
+  formatLeadTime,
+  getOnlineAvailableStock,
+  isPreorderEnabled,
+  type ProductReviewStats,
+} from '@madebuy/shared'
 import { notFound } from 'next/navigation'
 import { getPieceBySlug, populatePieceWithMedia } from '@/lib/pieces'
 import { requireTenant } from '@/lib/tenant'
@@ -7,7 +12,7 @@ import { requireTenant } from '@/lib/tenant'
 // ISR: Revalidate product pages every 5 minutes
 export const revalidate = 300
 
-import { ArrowLeft, ShoppingCart } from 'lucide-react'
+import { ArrowLeft, Clock, ShoppingCart } from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { ProductViewTracker } from '@/components/analytics/ProductViewTracker'
@@ -74,7 +79,12 @@ export default async function PieceDetailPage({
     // Continue without reviews - non-critical feature
   }
 
-  const inStock = piece.stock === undefined || piece.stock > 0
+  // Pre-order / made-to-order pieces sell regardless of stock
+  const isPreorder = isPreorderEnabled(piece.preorder)
+  const leadTime = formatLeadTime(piece.preorder)
+  const availableStock = getOnlineAvailableStock(piece)
+  const inStock =
+    isPreorder || availableStock === undefined || availableStock > 0
 
   // Build URLs for structured data
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://madebuy.com.au'
@@ -110,9 +120,11 @@ export default async function PieceDetailPage({
       '@type': 'Offer',
       price: piece.price,
       priceCurrency: piece.currency || 'AUD',
-      availability: inStock
-        ? 'https://schema.org/InStock'
-        : 'https://schema.org/OutOfStock',
+      availability: isPreorder
+        ? 'https://schema.org/PreOrder'
+        : inStock
+          ? 'https://schema.org/InStock'
+          : 'https://schema.org/OutOfStock',
       url: productUrl,
       seller: {
         '@type': 'Organization',
@@ -318,14 +330,19 @@ export default async function PieceDetailPage({
 
               {/* Stock status */}
               <div className="mt-6">
-                {inStock ? (
+                {leadTime ? (
+                  <span className="inline-flex items-center gap-2 text-amber-700 font-medium">
+                    <Clock className="h-4 w-4" />
+                    {leadTime}
+                  </span>
+                ) : inStock ? (
                   <span className="text-green-600 font-medium">In Stock</span>
                 ) : (
                   <span className="text-red-600 font-medium">Out of Stock</span>
                 )}
-                {piece.stock !== undefined && inStock && (
+                {availableStock !== undefined && inStock && !isPreorder && (
                   <span className="ml-2 text-gray-600">
-                    ({piece.stock} available)
+                    ({availableStock} available)
                   </span>
                 )}
               </div>
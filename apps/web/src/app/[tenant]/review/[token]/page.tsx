@@ -0,0 +1,90 @@
+import { orders } from '@madebuy/db'
+import { verifyReviewRequestToken } from '@madebuy/shared'
+import { Star } from 'lucide-react'
+import Link from 'next/link'
+import { OrderItemReview } from '@/components/reviews'
+import { requireTenant } from '@/lib/tenant'
+
+// Signed per-customer links - never cache or index
+export const dynamic = 'force-dynamic'
+
+export const metadata = {
+  title: 'Review your order',
+  robots: { index: false, follow: false },
+}
+
+/**
+ * Landing page for post-delivery review request emails.
+ * The signed token identifies the order, so each item goes straight to the
+ * review form without asking for the buyer's email.
+ */
+export default async function ReviewRequestPage({
+  params,
+}: {
+  params: { tenant: string; token: string }
+}) {
+  const tenant = await requireTenant(params.tenant)
+  const token = decodeURIComponent(params.token)
+
+  const secret = process.env.REVIEW_REQUEST_SECRET
+  const payload = secret ? verifyReviewRequestToken(secret, token) : null
+  const order =
+    payload && payload.tenantId === tenant.id
+      ? await orders.getOrder(tenant.id, payload.orderId)
+      : null
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+          <Star className="mx-auto h-12 w-12 text-gray-300" />
+          <h1 className="mt-4 text-xl font-semibold text-gray-900">
+            This review link has expired
+          </h1>
+          <p className="mt-2 text-gray-600">
+            You can still review your purchase from the product page using your
+            order email.
+          </p>
+          <Link
+            href={`/${params.tenant}`}
+            className="mt-6 inline-block text-blue-600 hover:text-blue-800"
+          >
+            Visit {tenant.businessName}
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  // One form per product, even if it was ordered in several variants
+  const items = order.items.filter(
+    (item, index, all) =>
+      all.findIndex((other) => other.pieceId === item.pieceId) === index,
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">
+            How was your order from {tenant.businessName}?
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Order #{order.orderNumber} - your purchase is already verified.
+          </p>
+        </div>
+
+        {items.map((item) => (
+          <OrderItemReview
+            key={item.pieceId}
+            tenantId={tenant.id}
+            token={token}
+            pieceId={item.pieceId}
+            pieceName={item.name}
+            imageUrl={item.imageUrl}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
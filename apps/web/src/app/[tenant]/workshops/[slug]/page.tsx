@@ -12,6 +12,7 @@ import {
 import Link from 'next/link'
 import { useParams } from 'next/navigation'
 import { useEffect, useState } from 'react'
+import { WaitlistForm } from '@/components/workshops'
 
 function formatPrice(cents: number): string {
   return new Intl.NumberFormat('en-AU', {
@@ -37,6 +38,7 @@ export default function WorkshopDetailPage() {
 
   const [workshop, setWorkshop] = useState<Workshop | null>(null)
   const [availableSlots, setAvailableSlots] = useState<WorkshopSlot[]>([])
+  const [fullSlots, setFullSlots] = useState<WorkshopSlot[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedSlot, setSelectedSlot] = useState<string | null>(null)
 
@@ -60,21 +62,22 @@ export default function WorkshopDetailPage() {
 
       setWorkshop(foundWorkshop)
 
-      // Get available slots
-      const slots = foundWorkshop.slots.filter(
-        (slot: WorkshopSlot) =>
-          slot.status === 'available' &&
-          slot.bookedCount < slot.capacity &&
-          new Date(slot.startTime) > new Date(),
-      )
-
-      // Sort by date
-      slots.sort(
-        (a: WorkshopSlot, b: WorkshopSlot) =>
-          new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
-      )
+      // Upcoming slots, sorted by date
+      const upcoming = foundWorkshop.slots
+        .filter(
+          (slot: WorkshopSlot) =>
+            slot.status !== 'cancelled' &&
+            new Date(slot.startTime) > new Date(),
+        )
+        .sort(
+          (a: WorkshopSlot, b: WorkshopSlot) =>
+            new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+        )
 
-      setAvailableSlots(slots)
+      const isOpen = (slot: WorkshopSlot) =>
+        slot.status === 'available' && slot.bookedCount < slot.capacity
+      setAvailableSlots(upcoming.filter(isOpen))
+      setFullSlots(upcoming.filter((slot: WorkshopSlot) => !isOpen(slot)))
     } catch (error) {
       console.error('Failed to fetch workshop:', error)
     } finally {
@@ -271,6 +274,21 @@ export default function WorkshopDetailPage() {
                 </button>
               )}
 
+              {fullSlots.length > 0 && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <p className="text-xs text-gray-500 mb-3">
+                    {fullSlots.length} session
+                    {fullSlots.length !== 1 ? 's are' : ' is'} fully booked.
+                  </p>
+                  <WaitlistForm
+                    tenantSlug={tenantSlug}
+                    workshopId={workshop.id}
+                    slots={fullSlots}
+                    formatDateTime={formatDateTime}
+                  />
+                </div>
+              )}
+
               {workshop.cancellationPolicy && (
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <h3 className="text-sm font-semibold text-gray-900 mb-2">
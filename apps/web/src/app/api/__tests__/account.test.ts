@@ -0,0 +1,337 @@
+import { customers, messages, orders, tenants, wishlist } from '@madebuy/db'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Cookie jar shared between the login response and later requests
+const cookieJar = new Map<string, string>()
+
+vi.mock('next/headers', () => ({
+  cookies: vi.fn(() => ({
+    get: vi.fn((name: string) =>
+      cookieJar.has(name) ? { value: cookieJar.get(name) } : undefined,
+    ),
+  })),
+}))
+
+vi.mock('@/lib/email', () => ({
+  sendCustomerVerificationEmail: vi.fn(),
+}))
+
+import { sendCustomerVerificationEmail } from '@/lib/email'
+// Import handlers after mocks
+import { POST as addAddress } from '../account/addresses/route'
+import { POST as login } from '../account/login/route'
+import { GET as openOrder } from '../account/orders/[id]/route'
+import { POST as register } from '../account/register/route'
+import { GET as verify } from '../account/verify/route'
+
+const mockTenant = { id: 'tenant-1', slug: 'test-shop' }
+const mockCustomer = {
+  id: 'cust-1',
+  tenantId: 'tenant-1',
+  email: 'jo@example.com',
+  name: 'Jo',
+  passwordHash: 'hash',
+  emailVerified: true,
+  addresses: [],
+}
+
+async function signIn() {
+  vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+  vi.mocked(customers.authenticateCustomer).mockResolvedValue({
+    success: true,
+    customer: mockCustomer as any,
+  })
+
+  const response = await login(
+    new NextRequest('http://localhost/api/account/login', {
+      method: 'POST',
+      body: JSON.stringify({
+        tenantId: 'tenant-1',
+        email: 'jo@example.com',
+        password: 'Secret123!',
+      }),
+    }),
+  )
+
+  const cookie = response.cookies.get('customer_session_tenant-1')
+  if (cookie) cookieJar.set(cookie.name, cookie.value)
+  return response
+}
+
+describe('Account API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    cookieJar.clear()
+    vi.stubEnv('CUSTOMER_SESSION_SECRET', 'test-session-secret')
+  })
+
+  describe('POST /api/account/login', () => {
+    it('rejects invalid credentials', async () => {
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      vi.mocked(customers.authenticateCustomer).mockResolvedValue({
+        success: false,
+        error: 'Invalid email or password',
+      })
+
+      const response = await login(
+        new NextRequest('http://localhost/api/account/login', {
+          method: 'POST',
+          body: JSON.stringify({
+            tenantId: 'tenant-1',
+            email: 'jo@example.com',
+            password: 'wrong',
+          }),
+        }),
+      )
+
+      expect(response.status).toBe(401)
+      expect(response.cookies.get('customer_session_tenant-1')).toBeUndefined()
+    })
+
+    it('resends the verification link for an unverified account', async () => {
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      vi.mocked(customers.authenticateCustomer).mockResolvedValue({
+        success: true,
+        customer: { ...mockCustomer, emailVerified: false } as any,
+      })
+      vi.mocked(customers.createVerificationToken).mockResolvedValue(
+        'verify-456',
+      )
+
+      const response = await login(
+        new NextRequest('http://localhost/api/account/login', {
+          method: 'POST',
+          body: JSON.stringify({
+            tenantId: 'tenant-1',
+            email: 'jo@example.com',
+            password: 'Secret123!',
+          }),
+        }),
+      )
+
+      expect(response.status).toBe(403)
+      expect(response.cookies.get('customer_session_tenant-1')).toBeUndefined()
+      expect(sendCustomerVerificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ verificationToken: 'verify-456' }),
+      )
+    })
+
+    it('sets a session cookie and merges the guest wishlist', async () => {
+      cookieJar.set('wishlist_session', 'guest-123')
+
+      const response = await signIn()
+
+      expect(response.status).toBe(200)
+      expect(cookieJar.get('customer_session_tenant-1')).toBeTruthy()
+      expect(wishlist.mergeWishlist).toHaveBeenCalledWith(
+        'tenant-1',
+        'guest-123',
+        'jo@example.com',
+      )
+    })
+  })
+
+  describe('POST /api/account/register', () => {
+    it('emails a verification link instead of signing in', async () => {
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      vi.mocked(customers.registerCustomer).mockResolvedValue({
+        customer: { ...mockCustomer, emailVerified: false } as any,
+        verificationToken: 'verify-123',
+      })
+
+      const response = await register(
+        new NextRequest('http://localhost/api/account/register', {
+          method: 'POST',
+          body: JSON.stringify({
+            tenantId: 'tenant-1',
+            name: 'Jo',
+            email: 'jo@example.com',
+            password: 'Secret123!',
+          }),
+        }),
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.verificationRequired).toBe(true)
+      expect(response.cookies.get('customer_session_tenant-1')).toBeUndefined()
+      expect(sendCustomerVerificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ verificationToken: 'verify-123' }),
+      )
+    })
+  })
+
+  describe('GET /api/account/verify', () => {
+    it('signs the customer in once the email is verified', async () => {
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      vi.mocked(customers.verifyCustomerEmail).mockResolvedValue(
+        mockCustomer as any,
+      )
+
+      const response = await verify(
+        new NextRequest(
+          'http://localhost/api/account/verify?tenantId=tenant-1&token=verify-123',
+        ),
+      )
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe(
+        'http://localhost/test-shop/account',
+      )
+      expect(response.cookies.get('customer_session_tenant-1')).toBeDefined()
+    })
+
+    it('sends an expired link back to sign in', async () => {
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      vi.mocked(customers.verifyCustomerEmail).mockResolvedValue(null)
+
+      const response = await verify(
+        new NextRequest(
+          'http://localhost/api/account/verify?tenantId=tenant-1&token=old',
+        ),
+      )
+
+      expect(response.headers.get('location')).toBe(
+        'http://localhost/test-shop/account/login?verification=expired',
+      )
+      expect(response.cookies.get('customer_session_tenant-1')).toBeUndefined()
+    })
+  })
+
+  describe('POST /api/account/addresses', () => {
+    const address = {
+      line1: '1 Main St',
+      city: 'Sydney',
+      state: 'NSW',
+      postcode: '2000',
+      country: 'AU',
+    }
+
+    it('returns 401 without a session', async () => {
+      const response = await addAddress(
+        new NextRequest('http://localhost/api/account/addresses', {
+          method: 'POST',
+          body: JSON.stringify({ tenantId: 'tenant-1', address }),
+        }),
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects a tampered session cookie', async () => {
+      await signIn()
+      const token = cookieJar.get('customer_session_tenant-1')!
+      cookieJar.set('customer_session_tenant-1', `${token}x`)
+
+      const response = await addAddress(
+        new NextRequest('http://localhost/api/account/addresses', {
+          method: 'POST',
+          body: JSON.stringify({ tenantId: 'tenant-1', address }),
+        }),
+      )
+
+      expect(response.status).toBe(401)
+      expect(customers.getCustomerById).not.toHaveBeenCalled()
+    })
+
+    it('rejects a session for an unverified account', async () => {
+      await signIn()
+      vi.mocked(customers.getCustomerById).mockResolvedValue({
+        ...mockCustomer,
+        emailVerified: false,
+      } as any)
+
+      const response = await addAddress(
+        new NextRequest('http://localhost/api/account/addresses', {
+          method: 'POST',
+          body: JSON.stringify({ tenantId: 'tenant-1', address }),
+        }),
+      )
+
+      expect(response.status).toBe(401)
+      expect(customers.addCustomerAddress).not.toHaveBeenCalled()
+    })
+
+    it('saves the first address as the default', async () => {
+      await signIn()
+      vi.mocked(customers.getCustomerById).mockResolvedValue(
+        mockCustomer as any,
+      )
+      const saved = { ...address, id: 'addr-1' }
+      vi.mocked(customers.addCustomerAddress).mockResolvedValue({
+        ...mockCustomer,
+        addresses: [saved],
+      } as any)
+      vi.mocked(customers.setDefaultAddress).mockResolvedValue({
+        ...mockCustomer,
+        addresses: [{ ...saved, isDefault: true }],
+      } as any)
+
+      const response = await addAddress(
+        new NextRequest('http://localhost/api/account/addresses', {
+          method: 'POST',
+          body: JSON.stringify({ tenantId: 'tenant-1', address }),
+        }),
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(customers.setDefaultAddress).toHaveBeenCalledWith(
+        'tenant-1',
+        'cust-1',
+        'addr-1',
+      )
+      expect(data.addresses[0].isDefault).toBe(true)
+    })
+  })
+
+  describe('GET /api/account/orders/[id]', () => {
+    it("does not open another customer's order", async () => {
+      await signIn()
+      vi.mocked(customers.getCustomerById).mockResolvedValue(
+        mockCustomer as any,
+      )
+      vi.mocked(orders.getOrder).mockResolvedValue({
+        id: 'order-1',
+        customerEmail: 'someone@example.com',
+      } as any)
+
+      const response = await openOrder(
+        new NextRequest(
+          'http://localhost/api/account/orders/order-1?tenantId=tenant-1',
+        ),
+        { params: { id: 'order-1' } },
+      )
+
+      expect(response.status).toBe(404)
+      expect(messages.createOrderAccessToken).not.toHaveBeenCalled()
+    })
+
+    it('redirects to the order page for the customer', async () => {
+      await signIn()
+      vi.mocked(customers.getCustomerById).mockResolvedValue(
+        mockCustomer as any,
+      )
+      vi.mocked(orders.getOrder).mockResolvedValue({
+        id: 'order-1',
+        customerEmail: 'Jo@Example.com',
+      } as any)
+      vi.mocked(messages.createOrderAccessToken).mockResolvedValue({
+        token: 'access-token-123',
+      } as any)
+
+      const response = await openOrder(
+        new NextRequest(
+          'http://localhost/api/account/orders/order-1?tenantId=tenant-1',
+        ),
+        { params: { id: 'order-1' } },
+      )
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe(
+        'http://localhost/order/access-token-123',
+      )
+    })
+  })
+})
@@ -143,6 +143,29 @@ describe('Cart API - Validate', () => {
     expect(data.items[0].available).toBe(5)
   })
 
+  it('should not count variant stock held at offline locations', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({ id: 'tenant-1' } as any)
+    vi.mocked(pieces.getPiece).mockResolvedValue({
+      id: 'piece-1',
+      stock: null,
+      variants: [{ id: 'var-1', stock: 5, heldStock: 3 }],
+    } as any)
+
+    const request = new NextRequest('http://localhost/api/carts/validate', {
+      method: 'POST',
+      body: JSON.stringify({
+        tenantId: 'tenant-1',
+        items: [{ pieceId: 'piece-1', variantId: 'var-1', quantity: 3 }],
+      }),
+    })
+
+    const response = await validateCart(request)
+    const data = await response.json()
+
+    expect(data.valid).toBe(false)
+    expect(data.items[0].available).toBe(2)
+  })
+
   it('should handle unlimited stock (null)', async () => {
     const mockTenant = { id: 'tenant-1' }
     const mockPiece = {
@@ -212,7 +212,8 @@ describe('Discounts API - Validate', () => {
       'SAVE10',
       10000,
       ['piece-1', 'piece-2'],
-      'test@example.com'
+      'test@example.com',
+      'AUD'
     )
   })
 
@@ -1,6 +1,7 @@
 import { orders, pieces, reviews, tenants } from '@madebuy/db'
+import { createReviewRequestToken } from '@madebuy/shared'
 import { NextRequest } from 'next/server'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Mock rate limiters
 vi.mock('@/lib/rate-limit', () => ({
@@ -517,3 +518,101 @@ describe('Reviews API - Verify Purchase', () => {
     expect(data.alreadyReviewed).toBe(true)
   })
 })
+
+describe('Reviews API - Verify Purchase with review link', () => {
+  const SECRET = 'review-secret'
+  const pieceId = '507f1f77bcf86cd799439011'
+  const mockOrder = {
+    id: '507f1f77bcf86cd799439012',
+    status: 'delivered',
+    customerEmail: 'Buyer@Example.com',
+    customerName: 'Buyer',
+    items: [{ pieceId, name: 'Test Piece', quantity: 1 }],
+  }
+
+  function verifyWithToken(token: string) {
+    return verifyPurchase(
+      new NextRequest('http://localhost/api/reviews/verify-purchase', {
+        method: 'POST',
+        body: JSON.stringify({ tenantId: 'tenant-1', pieceId, token }),
+      }),
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('REVIEW_REQUEST_SECRET', SECRET)
+    vi.mocked(tenants.getTenantById).mockResolvedValue({ id: 'tenant-1' } as any)
+    vi.mocked(orders.getOrder).mockResolvedValue(mockOrder as any)
+    vi.mocked(reviews.hasReviewedOrder).mockResolvedValue(false)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should verify the purchase from a signed link without an email', async () => {
+    const token = createReviewRequestToken(SECRET, {
+      tenantId: 'tenant-1',
+      orderId: mockOrder.id,
+      email: mockOrder.customerEmail,
+    })
+
+    const response = await verifyWithToken(token)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(orders.getOrder).toHaveBeenCalledWith('tenant-1', mockOrder.id)
+    expect(orders.findDeliveredOrderWithProduct).not.toHaveBeenCalled()
+    expect(data).toEqual({
+      canReview: true,
+      orderId: mockOrder.id,
+      customerEmail: 'Buyer@Example.com',
+      customerName: 'Buyer',
+    })
+  })
+
+  it('should reject a link signed for another tenant', async () => {
+    const token = createReviewRequestToken(SECRET, {
+      tenantId: 'tenant-2',
+      orderId: mockOrder.id,
+      email: mockOrder.customerEmail,
+    })
+
+    const response = await verifyWithToken(token)
+
+    expect(response.status).toBe(403)
+    expect(orders.getOrder).not.toHaveBeenCalled()
+  })
+
+  it('should reject a forged link', async () => {
+    const token = createReviewRequestToken('wrong-secret', {
+      tenantId: 'tenant-1',
+      orderId: mockOrder.id,
+      email: mockOrder.customerEmail,
+    })
+
+    const response = await verifyWithToken(token)
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.error).toContain('invalid or has expired')
+  })
+
+  it('should not allow reviewing a product outside the linked order', async () => {
+    vi.mocked(orders.getOrder).mockResolvedValue({
+      ...mockOrder,
+      items: [{ pieceId: 'other-piece', name: 'Other', quantity: 1 }],
+    } as any)
+    const token = createReviewRequestToken(SECRET, {
+      tenantId: 'tenant-1',
+      orderId: mockOrder.id,
+      email: mockOrder.customerEmail,
+    })
+
+    const response = await verifyWithToken(token)
+    const data = await response.json()
+
+    expect(data.canReview).toBe(false)
+  })
+})
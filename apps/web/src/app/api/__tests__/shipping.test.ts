@@ -2,8 +2,9 @@ import { pieces, tenants } from '@madebuy/db'
 import { NextRequest } from 'next/server'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-// Mock shipping client
-vi.mock('@madebuy/shipping', () => ({
+// Mock Sendle client - the carrier abstraction and rate tables are real
+vi.mock('@madebuy/shipping', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@madebuy/shipping')>()),
   createSendleClient: vi.fn(() => ({
     getQuotes: vi.fn().mockResolvedValue({
       quotes: [
@@ -248,6 +249,199 @@ describe('Shipping Quote API - POST (New Format)', () => {
   })
 })
 
+describe('Shipping Quote API - Multiple Carriers', () => {
+  const rateTable = {
+    id: 'table-1',
+    name: 'Flat Rate Post',
+    enabled: true,
+    estimatedDays: { min: 4, max: 8 },
+    volumetricDivisor: 4000,
+    zones: [
+      {
+        id: 'au',
+        name: 'Australia',
+        countries: ['AU'],
+        brackets: [
+          { maxWeightGrams: 500, priceCents: 1100 },
+          { maxWeightGrams: 2000, priceCents: 1600 },
+        ],
+      },
+      {
+        id: 'sydney',
+        name: 'Sydney Metro',
+        countries: ['AU'],
+        postcodes: ['2000-2249'],
+        brackets: [
+          { maxWeightGrams: 500, priceCents: 750 },
+          { maxWeightGrams: 2000, priceCents: 1200 },
+        ],
+        extraPerKgCents: 200,
+      },
+    ],
+  }
+
+  function quoteRequest(postcode: string, state: string) {
+    return new NextRequest('http://localhost/api/shipping/quote', {
+      method: 'POST',
+      body: JSON.stringify({
+        tenantId: 'tenant-1',
+        items: [{ pieceId: 'piece-1', quantity: 1 }],
+        destination: { postcode, suburb: 'SUBURB', state },
+      }),
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(pieces.getPiece).mockResolvedValue({
+      id: 'piece-1',
+      shippingWeight: 400,
+      shippingLength: 20,
+      shippingWidth: 15,
+      shippingHeight: 5,
+    } as any)
+  })
+
+  it('should merge rate table quotes with Sendle and flag cheapest and fastest', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      sendleSettings: {
+        isConnected: true,
+        apiKey: 'test-key',
+        senderId: 'sender-123',
+      },
+      shippingCarriers: { rateTables: [rateTable] },
+    } as any)
+
+    const response = await getShippingQuotePOST(quoteRequest('2010', 'NSW'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.quotes).toHaveLength(3)
+    // Sydney postcode zone beats the Australia-wide zone
+    expect(data.quotes[0]).toMatchObject({
+      carrier: 'Clay Studio',
+      service: 'Flat Rate Post',
+      price: 750,
+      highlights: ['cheapest'],
+    })
+    expect(data.quotes[2]).toMatchObject({
+      carrier: 'Sendle',
+      service: 'Express',
+      highlights: ['fastest'],
+    })
+  })
+
+  it('should only convert AUD carrier prices into the shop currency', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      regionalSettings: {
+        currency: 'NZD',
+        exchangeRates: { base: 'AUD', rates: { NZD: 1.1 } },
+      },
+      sendleSettings: {
+        isConnected: true,
+        apiKey: 'test-key',
+        senderId: 'sender-123',
+      },
+      shippingCarriers: { rateTables: [rateTable] },
+    } as any)
+
+    const response = await getShippingQuotePOST(quoteRequest('2010', 'NSW'))
+    const data = await response.json()
+
+    const prices = Object.fromEntries(
+      data.quotes.map((q: any) => [`${q.carrier} ${q.service}`, q.price]),
+    )
+    expect(prices).toEqual({
+      'Clay Studio Flat Rate Post': 750, // Entered in NZD
+      'Sendle Standard': 1095,
+      'Sendle Express': 1645,
+    })
+    expect(data.quotes.every((q: any) => q.currency === 'NZD')).toBe(true)
+  })
+
+  it('should leave out carrier prices with no exchange rate to the shop currency', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      regionalSettings: { currency: 'NZD' },
+      sendleSettings: {
+        isConnected: true,
+        apiKey: 'test-key',
+        senderId: 'sender-123',
+      },
+      shippingCarriers: { rateTables: [rateTable] },
+    } as any)
+
+    const response = await getShippingQuotePOST(quoteRequest('2010', 'NSW'))
+    const data = await response.json()
+
+    // Sendle quotes in AUD and can't be converted, so only the NZD table is left
+    expect(data.quotes).toHaveLength(1)
+    expect(data.quotes[0]).toMatchObject({
+      carrier: 'Clay Studio',
+      price: 750,
+      currency: 'NZD',
+    })
+  })
+
+  it('should not fall back to AUD flat rates without an exchange rate', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      regionalSettings: { currency: 'NZD' },
+    } as any)
+
+    const response = await getShippingQuotePOST(quoteRequest('2010', 'NSW'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.quotes).toEqual([])
+  })
+
+  it('should price rate tables on cubic weight when it exceeds dead weight', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      shippingCarriers: { rateTables: [rateTable] },
+    } as any)
+    vi.mocked(pieces.getPiece).mockResolvedValue({
+      id: 'piece-1',
+      shippingWeight: 400,
+      shippingLength: 40,
+      shippingWidth: 30,
+      shippingHeight: 20,
+    } as any)
+
+    // 40x30x20cm / 4000 = 6kg cubic: 2kg bracket + 4kg extra
+    const response = await getShippingQuotePOST(quoteRequest('2000', 'NSW'))
+    const data = await response.json()
+
+    expect(data.quotes).toHaveLength(1)
+    expect(data.quotes[0].price).toBe(1200 + 4 * 200)
+  })
+
+  it('should fall back when no carrier covers the destination', async () => {
+    vi.mocked(tenants.getTenantById).mockResolvedValue({
+      id: 'tenant-1',
+      businessName: 'Clay Studio',
+      shippingCarriers: {
+        rateTables: [{ ...rateTable, zones: [rateTable.zones[1]] }],
+      },
+    } as any)
+
+    const response = await getShippingQuotePOST(quoteRequest('6000', 'WA'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.message).toBe('Using fallback shipping rates')
+    expect(data.quotes[0].carrier).toBe('Standard Shipping')
+  })
+})
+
 describe('Shipping Quote API - POST (Legacy Format)', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -0,0 +1,117 @@
+import { customers } from '@madebuy/db'
+import { sanitizeInput, UpdateCustomerAddressSchema } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+/**
+ * PATCH /api/account/addresses/[id]
+ * Update a saved address, or make it the default
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const { tenantId, address, isDefault } = await request.json()
+
+    if (!tenantId || typeof tenantId !== 'string') {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!customer.addresses.some((a) => a.id === params.id)) {
+      return NextResponse.json({ error: 'Address not found' }, { status: 404 })
+    }
+
+    let updated = customer
+    if (address) {
+      const validation = UpdateCustomerAddressSchema.safeParse(address)
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            error: 'Invalid address',
+            details: validation.error.flatten().fieldErrors,
+          },
+          { status: 400 },
+        )
+      }
+
+      // Sanitize text fields and drop anything not provided
+      const fields = Object.fromEntries(
+        Object.entries(validation.data)
+          .filter(([_, v]) => v !== undefined)
+          .map(([k, v]) => [
+            k,
+            k === 'country' ? v : sanitizeInput(v as string),
+          ]),
+      )
+      updated =
+        (await customers.updateCustomerAddress(
+          tenantId,
+          customer.id,
+          params.id,
+          fields,
+        )) || updated
+    }
+
+    if (isDefault) {
+      updated =
+        (await customers.setDefaultAddress(tenantId, customer.id, params.id)) ||
+        updated
+    }
+
+    return NextResponse.json({ addresses: updated.addresses })
+  } catch (error) {
+    console.error('Error updating address:', error)
+    return NextResponse.json(
+      { error: 'Failed to update address' },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * DELETE /api/account/addresses/[id]?tenantId=
+ * Remove a saved address
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenantId = new URL(request.url).searchParams.get('tenantId')
+
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const updated = await customers.removeCustomerAddress(
+      tenantId,
+      customer.id,
+      params.id,
+    )
+
+    return NextResponse.json({ addresses: updated?.addresses || [] })
+  } catch (error) {
+    console.error('Error removing address:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove address' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { customers } from '@madebuy/db'
+import { CustomerAddressSchema, sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+const MAX_ADDRESSES = 10
+
+/**
+ * POST /api/account/addresses
+ * Save a new address to the signed-in customer's account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { tenantId, address, isDefault } = await request.json()
+
+    if (!tenantId || typeof tenantId !== 'string') {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = CustomerAddressSchema.safeParse(address)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid address',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    if (customer.addresses.length >= MAX_ADDRESSES) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_ADDRESSES} addresses` },
+        { status: 400 },
+      )
+    }
+
+    const data = validation.data
+    let updated = await customers.addCustomerAddress(tenantId, customer.id, {
+      ...data,
+      label: data.label ? sanitizeInput(data.label) : undefined,
+      line1: sanitizeInput(data.line1),
+      line2: data.line2 ? sanitizeInput(data.line2) : undefined,
+      city: sanitizeInput(data.city),
+      state: sanitizeInput(data.state),
+      postcode: sanitizeInput(data.postcode),
+    })
+
+    // First address becomes the default automatically
+    const added = updated?.addresses[updated.addresses.length - 1]
+    if (added && (isDefault || customer.addresses.length === 0)) {
+      updated = await customers.setDefaultAddress(
+        tenantId,
+        customer.id,
+        added.id,
+      )
+    }
+
+    return NextResponse.json(
+      { addresses: updated?.addresses || [] },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error('Error saving address:', error)
+    return NextResponse.json(
+      { error: 'Failed to save address' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { downloads } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+const REISSUED_TOKEN_EXPIRY_DAYS = 7
+
+/**
+ * GET /api/account/downloads/[id]?tenantId=
+ * Re-access a digital purchase from the account page
+ * Issues a fresh download token when the emailed one has expired, then
+ * redirects to the token-based download page. Download limits still apply.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenantId = new URL(request.url).searchParams.get('tenantId')
+
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const record = await downloads.getDownloadRecord(tenantId, params.id)
+    if (!record || record.customerEmail.toLowerCase() !== customer.email) {
+      return NextResponse.json({ error: 'Download not found' }, { status: 404 })
+    }
+
+    if (record.isRevoked) {
+      return NextResponse.json(
+        { error: 'Access to this download has been revoked by the seller' },
+        { status: 403 },
+      )
+    }
+
+    let token = record.downloadToken
+    if (record.tokenExpiresAt && new Date(record.tokenExpiresAt) < new Date()) {
+      const reissued = await downloads.regenerateToken(
+        tenantId,
+        record.id,
+        REISSUED_TOKEN_EXPIRY_DAYS,
+      )
+      if (!reissued) {
+        return NextResponse.json(
+          { error: 'Failed to reissue download link' },
+          { status: 500 },
+        )
+      }
+      token = reissued
+    }
+
+    return NextResponse.redirect(new URL(`/downloads/${token}`, request.url))
+  } catch (error) {
+    console.error('Error opening download:', error)
+    return NextResponse.json(
+      { error: 'Failed to open download' },
+      { status: 500 },
+    )
+  }
+}
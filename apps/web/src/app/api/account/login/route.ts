@@ -0,0 +1,79 @@
+import { customers, tenants } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  setCustomerSessionCookie,
+  syncGuestWishlist,
+} from '@/lib/customer-session'
+import { sendCustomerVerificationEmail } from '@/lib/email'
+import { rateLimiters } from '@/lib/rate-limit'
+
+/**
+ * POST /api/account/login
+ * Sign a customer in to a storefront account
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await rateLimiters.auth(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { tenantId, email, password } = await request.json()
+
+    if (!tenantId || !email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 },
+      )
+    }
+
+    const tenant = await tenants.getTenantById(tenantId)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Invalid store' }, { status: 404 })
+    }
+
+    const result = await customers.authenticateCustomer(
+      tenant.id,
+      email,
+      password,
+    )
+    if (!result.success || !result.customer) {
+      return NextResponse.json(
+        { error: result.error || 'Invalid email or password' },
+        { status: 401 },
+      )
+    }
+
+    // Unverified accounts get a fresh link instead of a session
+    if (!result.customer.emailVerified) {
+      const verificationToken = await customers.createVerificationToken(
+        tenant.id,
+        result.customer.email,
+      )
+      if (verificationToken) {
+        await sendCustomerVerificationEmail({
+          tenant,
+          customer: result.customer,
+          verificationToken,
+        })
+      }
+      return NextResponse.json(
+        {
+          error:
+            'Please confirm your email first. We have sent you a new link.',
+          verificationRequired: true,
+        },
+        { status: 403 },
+      )
+    }
+
+    await syncGuestWishlist(tenant.id, result.customer.email)
+
+    const response = NextResponse.json({
+      customer: { name: result.customer.name, email: result.customer.email },
+    })
+    setCustomerSessionCookie(response, tenant.id, result.customer.id)
+    return response
+  } catch (error) {
+    console.error('Customer login error:', error)
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 })
+  }
+}
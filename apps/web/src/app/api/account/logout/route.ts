@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { clearCustomerSessionCookie } from '@/lib/customer-session'
+
+/**
+ * POST /api/account/logout
+ * Sign the customer out of a storefront
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { tenantId } = await request.json()
+
+    if (!tenantId || typeof tenantId !== 'string') {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const response = NextResponse.json({ success: true })
+    clearCustomerSessionCookie(response, tenantId)
+    return response
+  } catch (error) {
+    console.error('Customer logout error:', error)
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 })
+  }
+}
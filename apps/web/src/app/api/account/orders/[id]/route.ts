@@ -0,0 +1,49 @@
+import { messages, orders } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+/**
+ * GET /api/account/orders/[id]?tenantId=
+ * Open an order from the account page
+ * Reuses the emailed order access token (creating one if needed) and
+ * redirects to the token-based order page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const tenantId = new URL(request.url).searchParams.get('tenantId')
+
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'tenantId is required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Customer isolation: only orders placed with the account email
+    const order = await orders.getOrder(tenantId, params.id)
+    if (!order || order.customerEmail.toLowerCase() !== customer.email) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const accessToken = await messages.createOrderAccessToken(
+      tenantId,
+      order.id,
+      order.customerEmail,
+    )
+
+    return NextResponse.redirect(
+      new URL(`/order/${accessToken.token}`, request.url),
+    )
+  } catch (error) {
+    console.error('Error opening order:', error)
+    return NextResponse.json({ error: 'Failed to open order' }, { status: 500 })
+  }
+}
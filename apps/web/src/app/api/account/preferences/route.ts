@@ -0,0 +1,41 @@
+import { customers } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+/**
+ * PATCH /api/account/preferences
+ * Update the signed-in customer's newsletter subscription
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { tenantId, emailSubscribed } = await request.json()
+
+    if (!tenantId || typeof emailSubscribed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'tenantId and emailSubscribed are required' },
+        { status: 400 },
+      )
+    }
+
+    const customer = await getSignedInCustomer(tenantId)
+    if (!customer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const updated = await customers.updateEmailSubscription(
+      tenantId,
+      customer.id,
+      emailSubscribed,
+    )
+
+    return NextResponse.json({
+      emailSubscribed: updated?.emailSubscribed ?? emailSubscribed,
+    })
+  } catch (error) {
+    console.error('Error updating preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { customers, tenants } from '@madebuy/db'
+import type { Customer } from '@madebuy/shared'
+import { sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { sendCustomerVerificationEmail } from '@/lib/email'
+import { rateLimiters } from '@/lib/rate-limit'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * POST /api/account/register
+ * Create a storefront account (or upgrade a guest customer record)
+ * The customer isn't signed in until they follow the emailed verification
+ * link - a guest record holds past orders, so the email must be proven first
+ */
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await rateLimiters.auth(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { tenantId, name, email, password, phone } = await request.json()
+
+    if (!tenantId || !name || !email || !password) {
+      return NextResponse.json(
+        { error: 'Name, email and password are required' },
+        { status: 400 },
+      )
+    }
+
+    if (typeof email !== 'string' || !EMAIL_REGEX.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 },
+      )
+    }
+
+    const tenant = await tenants.getTenantById(tenantId)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Invalid store' }, { status: 404 })
+    }
+
+    let customer: Customer
+    let verificationToken: string
+    try {
+      const result = await customers.registerCustomer(tenant.id, {
+        email,
+        name: sanitizeInput(name),
+        password,
+        phone: phone ? sanitizeInput(phone) : undefined,
+      })
+      customer = result.customer
+      verificationToken = result.verificationToken
+    } catch (error) {
+      // Password strength and duplicate account errors are safe to show
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error ? error.message : 'Failed to create account',
+        },
+        { status: 400 },
+      )
+    }
+
+    await sendCustomerVerificationEmail({ tenant, customer, verificationToken })
+
+    return NextResponse.json(
+      {
+        customer: { name: customer.name, email: customer.email },
+        verificationRequired: true,
+      },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error('Customer registration error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 },
+    )
+  }
+}
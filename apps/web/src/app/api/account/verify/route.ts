@@ -0,0 +1,59 @@
+import { customers, tenants } from '@madebuy/db'
+import { type NextRequest, NextResponse } from 'next/server'
+import {
+  setCustomerSessionCookie,
+  syncGuestWishlist,
+} from '@/lib/customer-session'
+import { rateLimiters } from '@/lib/rate-limit'
+
+/**
+ * GET /api/account/verify?tenantId=&token=
+ * Confirm a storefront account email from the emailed link, sign the
+ * customer in and send them to their account
+ */
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await rateLimiters.auth(request)
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const tenantId = searchParams.get('tenantId')
+    const token = searchParams.get('token')
+
+    if (!tenantId || !token) {
+      return NextResponse.json(
+        { error: 'tenantId and token are required' },
+        { status: 400 },
+      )
+    }
+
+    const tenant = await tenants.getTenantById(tenantId)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Invalid store' }, { status: 404 })
+    }
+
+    const customer = await customers.verifyCustomerEmail(tenant.id, token)
+    if (!customer) {
+      return NextResponse.redirect(
+        new URL(
+          `/${tenant.slug}/account/login?verification=expired`,
+          request.url,
+        ),
+      )
+    }
+
+    await syncGuestWishlist(tenant.id, customer.email)
+
+    const response = NextResponse.redirect(
+      new URL(`/${tenant.slug}/account`, request.url),
+    )
+    setCustomerSessionCookie(response, tenant.id, customer.id)
+    return response
+  } catch (error) {
+    console.error('Customer email verification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify email' },
+      { status: 500 },
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { pieces, tenants } from '@madebuy/db'
+import { getOnlineAvailableStock } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 
 interface CartItem {
@@ -63,9 +64,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
       if (item.variantId) {
         const variant = piece.variants?.find((v) => v.id === item.variantId)
-        availableStock = variant?.stock ?? null
+        availableStock = variant
+          ? (getOnlineAvailableStock(variant) ?? null)
+          : null
       } else {
-        availableStock = piece.stock ?? null
+        availableStock = getOnlineAvailableStock(piece) ?? null
       }
 
       // null/undefined stock means unlimited
@@ -1,10 +1,25 @@
-import { orders, pieces, stockReservations } from '@madebuy/db'
-import type { OrderItem } from '@madebuy/shared'
-import { createLogger, isMadeBuyError, toErrorResponse } from '@madebuy/shared'
+import {
+  giftCards,
+  orders,
+  pieces,
+  stockReservations,
+  tenants,
+} from '@madebuy/db'
+import type { OrderItem, Piece } from '@madebuy/shared'
+import {
+  createLogger,
+  getProductionDueDate,
+  isMadeBuyError,
+  toErrorResponse,
+  toMinorUnits,
+} from '@madebuy/shared'
 import paypal from '@paypal/checkout-server-sdk'
 import { type NextRequest, NextResponse } from 'next/server'
+import { issuePurchasedGiftCards } from '@/lib/checkout/giftCards'
+import { sendGiftCardEmail } from '@/lib/email'
 import { getPayPalClient, isPayPalEnabled } from '@/lib/paypal'
 import { rateLimiters } from '@/lib/rate-limit'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 const log = createLogger({ module: 'checkout-paypal-capture' })
 
@@ -17,6 +32,7 @@ interface PayPalCaptureResult {
       breakdown?: {
         item_total?: { value: string }
         shipping?: { value: string }
+        discount?: { value: string }
       }
     }
     items?: Array<{
@@ -94,9 +110,10 @@ export async function POST(request: NextRequest) {
     } catch (err: any) {
       log.error({ err, orderID, tenantId }, 'PayPal capture failed')
 
-      // Release stock reservation on payment failure
+      // Release stock reservation and gift card hold on payment failure
       if (reservationSessionId) {
         await stockReservations.cancelReservation(reservationSessionId)
+        await giftCards.releaseHolds(reservationSessionId)
       }
 
       return NextResponse.json(
@@ -116,9 +133,10 @@ export async function POST(request: NextRequest) {
         'PayPal payment not completed',
       )
 
-      // Release stock reservation
+      // Release stock reservation and gift card hold
       if (reservationSessionId) {
         await stockReservations.cancelReservation(reservationSessionId)
+        await giftCards.releaseHolds(reservationSessionId)
       }
 
       return NextResponse.json(
@@ -153,6 +171,8 @@ export async function POST(request: NextRequest) {
 
     // Build order items from PayPal items
     const orderItems: OrderItem[] = []
+    const piecesMap = new Map<string, Piece>()
+    const unitAmounts = new Map<string, number>()
     for (const item of purchaseUnit.items || []) {
       const pieceId = item.sku || ''
       const piece = await pieces.getPiece(tenantId, pieceId)
@@ -161,6 +181,11 @@ export async function POST(request: NextRequest) {
         log.warn({ pieceId, tenantId }, 'Piece not found for PayPal order item')
         continue
       }
+      piecesMap.set(piece.id, piece)
+      unitAmounts.set(
+        piece.id,
+        toMinorUnits(parseFloat(item.unit_amount.value), amount.currency_code),
+      )
 
       orderItems.push({
         pieceId: piece.id,
@@ -173,6 +198,7 @@ export async function POST(request: NextRequest) {
         description: piece.description,
         category: piece.category || 'uncategorized',
         isDigital: !!piece.digital,
+        productionDue: getProductionDueDate(piece.preorder),
       })
     }
 
@@ -181,6 +207,8 @@ export async function POST(request: NextRequest) {
       parseFloat(amount.breakdown?.item_total?.value || '0') * 100
     const shippingCents =
       parseFloat(amount.breakdown?.shipping?.value || '0') * 100
+    const discountCents =
+      parseFloat(amount.breakdown?.discount?.value || '0') * 100
     const totalCents = parseFloat(amount.value) * 100
 
     const order = await orders.createOrder(
@@ -214,7 +242,7 @@ export async function POST(request: NextRequest) {
       {
         shipping: shippingCents,
         tax: 0, // Tax handled by PayPal
-        discount: 0,
+        discount: discountCents, // Gift card redemption
         currency: amount.currency_code,
         paymentMethod: 'paypal',
         paypalOrderId: orderID,
@@ -229,11 +257,42 @@ export async function POST(request: NextRequest) {
       paypalCaptureId: purchaseUnit.payments?.captures?.[0]?.id,
     })
 
-    // Confirm stock reservation (deducts from inventory)
+    // Confirm stock reservation (deducts from inventory) and redeem gift card hold
     if (reservationSessionId) {
       await stockReservations.commitReservation(tenantId, reservationSessionId)
+      await giftCards.commitHolds(tenantId, reservationSessionId, order.id)
+    }
+
+    // Issue gift cards for gift card pieces and email the codes
+    try {
+      const purchasedGiftCards = await issuePurchasedGiftCards(
+        tenantId,
+        order,
+        piecesMap,
+        unitAmounts,
+      )
+      const tenant =
+        purchasedGiftCards.length > 0
+          ? await tenants.getTenantById(tenantId)
+          : null
+      if (tenant) {
+        await sendGiftCardEmail({
+          order,
+          tenant,
+          giftCards: purchasedGiftCards,
+        })
+      }
+    } catch (giftCardError) {
+      log.error(
+        { err: giftCardError, orderId: order.id, tenantId },
+        'Failed to issue gift cards for PayPal order',
+      )
     }
 
+    dispatchWebhookEvent(tenantId, 'order.paid', {
+      order: (await orders.getOrder(tenantId, order.id)) ?? order,
+    })
+
     log.info(
       {
         tenantId,
@@ -1,16 +1,25 @@
 import { media, pieces, stockReservations, tenants } from '@madebuy/db'
 import type { ProductVariant } from '@madebuy/shared'
 import {
+  convertAmount,
   createLogger,
+  fromMinorUnits,
+  getTenantCurrency,
   InsufficientStockError,
   isMadeBuyError,
   NotFoundError,
   safeValidateCheckoutRequest,
   toErrorResponse,
+  toMinorUnits,
+  toProviderAmountString,
   ValidationError,
 } from '@madebuy/shared'
 import paypal from '@paypal/checkout-server-sdk'
 import { type NextRequest, NextResponse } from 'next/server'
+import {
+  type GiftCardRedemption,
+  holdGiftCardBalance,
+} from '@/lib/checkout/giftCards'
 import { getPayPalClient, isPayPalEnabled } from '@/lib/paypal'
 import { rateLimiters } from '@/lib/rate-limit'
 
@@ -53,7 +62,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { tenantId, items, customerInfo, shippingAddress } = validation.data
+    const { tenantId, items, customerInfo, shippingAddress, giftCardCode } =
+      validation.data
+
+    // Verify tenant exists before reserving any stock
+    const tenant = await tenants.getTenantById(tenantId)
+    if (!tenant) {
+      log.error({ tenantId }, 'Tenant not found during PayPal checkout')
+      throw new NotFoundError('Tenant', tenantId)
+    }
+
+    // PayPal orders settle in the tenant's configured currency
+    const currency = getTenantCurrency(tenant)
+    const exchangeRates = tenant.regionalSettings?.exchangeRates
+    const toCheckoutCurrency = (amount: number, from: string | undefined) =>
+      convertAmount(amount, from || currency, currency, exchangeRates)
 
     // Generate a temporary session ID for reservations
     const tempSessionId = `paypal_${Date.now()}_${Math.random().toString(36).slice(2)}`
@@ -117,6 +140,14 @@ export async function POST(request: NextRequest) {
         throw new ValidationError(`Please select a variant for ${piece.name}`)
       }
 
+      // Pieces priced in another currency need a configured exchange rate
+      if (toCheckoutCurrency(0, piece.currency) === null) {
+        await stockReservations.cancelReservation(tempSessionId)
+        throw new ValidationError(
+          `${piece.name} cannot be purchased in ${currency}`,
+        )
+      }
+
       // Try to reserve stock
       const reservation = await stockReservations.reserveStock(
         tenantId,
@@ -157,14 +188,6 @@ export async function POST(request: NextRequest) {
       validatedItems.push({ item, piece, selectedVariant })
     }
 
-    // Verify tenant exists
-    const tenant = await tenants.getTenantById(tenantId)
-    if (!tenant) {
-      await stockReservations.cancelReservation(tempSessionId)
-      log.error({ tenantId }, 'Tenant not found during PayPal checkout')
-      throw new NotFoundError('Tenant', tenantId)
-    }
-
     // Build PayPal order items
     const paypalItems: any[] = []
     let subtotal = 0
@@ -172,8 +195,14 @@ export async function POST(request: NextRequest) {
     for (const { item, piece, selectedVariant } of validatedItems) {
       if (!piece) continue
 
-      const basePrice = selectedVariant?.price ?? item.price
-      const personalizationTotal = item.personalizationTotal || 0
+      // Prices are in the piece's currency - convert if it differs from the tenant's
+      const basePrice =
+        toCheckoutCurrency(
+          selectedVariant?.price ?? item.price,
+          piece.currency,
+        ) ?? 0
+      const personalizationTotal =
+        toCheckoutCurrency(item.personalizationTotal || 0, piece.currency) ?? 0
       const effectivePrice = basePrice + personalizationTotal
 
       let productName = piece.name
@@ -189,22 +218,42 @@ export async function POST(request: NextRequest) {
         description: piece.description?.substring(0, 127) || undefined,
         sku: selectedVariant?.sku || piece.id,
         unit_amount: {
-          currency_code: (
-            item.currency ||
-            piece.currency ||
-            'AUD'
-          ).toUpperCase(),
-          value: effectivePrice.toFixed(2),
+          currency_code: currency,
+          value: toProviderAmountString(effectivePrice, currency),
         },
         quantity: item.quantity,
         category: piece.digital ? 'DIGITAL_GOODS' : 'PHYSICAL_GOODS',
       })
     }
 
-    // Calculate shipping cost (simplified - using fixed rate or from request)
-    const shippingCost = shippingAddress ? 10.0 : 0.0 // Default $10 shipping, or 0 for digital
+    // Calculate shipping cost (simplified - using fixed AUD rate converted to the
+    // tenant currency, or 0 for digital)
+    const shippingCost = shippingAddress
+      ? (toCheckoutCurrency(10.0, 'AUD') ?? 10.0)
+      : 0.0
+
+    // Redeem a gift card against the order (PayPal needs a non-zero total,
+    // so the card covers everything except one minor unit at most)
+    let giftCardRedemption: GiftCardRedemption | undefined
+    if (giftCardCode) {
+      try {
+        giftCardRedemption = await holdGiftCardBalance({
+          tenantId,
+          code: giftCardCode,
+          currency,
+          maxAmount: toMinorUnits(subtotal + shippingCost, currency) - 1,
+          sessionId: tempSessionId,
+        })
+      } catch (error) {
+        await stockReservations.cancelReservation(tempSessionId)
+        throw error
+      }
+    }
+    const giftCardAmount = giftCardRedemption
+      ? fromMinorUnits(giftCardRedemption.amount, currency)
+      : 0
 
-    const total = subtotal + shippingCost
+    const total = subtotal + shippingCost - giftCardAmount
 
     // Create PayPal order
     const client = getPayPalClient()
@@ -224,17 +273,23 @@ export async function POST(request: NextRequest) {
       purchase_units: [
         {
           amount: {
-            currency_code: 'AUD',
-            value: total.toFixed(2),
+            currency_code: currency,
+            value: toProviderAmountString(total, currency),
             breakdown: {
               item_total: {
-                currency_code: 'AUD',
-                value: subtotal.toFixed(2),
+                currency_code: currency,
+                value: toProviderAmountString(subtotal, currency),
               },
               shipping: {
-                currency_code: 'AUD',
-                value: shippingCost.toFixed(2),
+                currency_code: currency,
+                value: toProviderAmountString(shippingCost, currency),
               },
+              discount: giftCardRedemption
+                ? {
+                    currency_code: currency,
+                    value: toProviderAmountString(giftCardAmount, currency),
+                  }
+                : undefined,
             },
           },
           items: paypalItems,
@@ -273,9 +328,11 @@ export async function POST(request: NextRequest) {
       {
         tenantId,
         paypalOrderId: order.id,
+        currency,
         itemCount: items.length,
         customerEmail: customerInfo.email,
         reservationSessionId: tempSessionId,
+        giftCardAmount: giftCardRedemption?.amount,
       },
       'PayPal order created',
     )
@@ -1,18 +1,27 @@
 import { media, pieces, stockReservations, tenants } from '@madebuy/db'
 import type { ProductVariant, ShippingMethod } from '@madebuy/shared'
 import {
+  convertAmount,
   createLogger,
   ExternalServiceError,
+  formatLeadTime,
+  getTenantCurrency,
   InsufficientStockError,
   isMadeBuyError,
+  isPreorderEnabled,
   NotFoundError,
   safeValidateCheckoutRequest,
   sanitizeInput,
   toErrorResponse,
+  toMinorUnits,
   ValidationError,
 } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
+import {
+  type GiftCardRedemption,
+  holdGiftCardBalance,
+} from '@/lib/checkout/giftCards'
 import { rateLimiters } from '@/lib/rate-limit'
 
 const log = createLogger({ module: 'checkout' })
@@ -27,6 +36,7 @@ function getStripe() {
 }
 
 // Default shipping methods if tenant hasn't configured any
+// (prices are AUD and converted to the tenant currency at checkout)
 const DEFAULT_SHIPPING_METHODS: ShippingMethod[] = [
   {
     id: 'standard',
@@ -50,6 +60,15 @@ const DEFAULT_SHIPPING_METHODS: ShippingMethod[] = [
   },
 ]
 
+// Stripe rejects payments below its minimum charge (50 minor units covers the
+// supported currencies), so a gift card can't take the total to zero
+const STRIPE_MINIMUM_CHARGE = 50
+
+// Checkout sessions expire after Stripe's minimum of 30 minutes when a gift card
+// is redeemed, so the session can't outlive its balance hold
+const GIFT_CARD_SESSION_MINUTES = 30
+const GIFT_CARD_HOLD_MINUTES = 35
+
 // Helper to format variant options for display
 function formatVariantOptions(options: Record<string, string>): string {
   return Object.entries(options)
@@ -81,10 +100,28 @@ export async function POST(request: NextRequest) {
       customerInfo,
       shippingAddress,
       notes,
+      displayCurrency,
+      giftCardCode,
       successUrl,
       cancelUrl,
     } = validation.data
 
+    // Verify tenant exists before reserving any stock
+    const tenant = await tenants.getTenantById(tenantId)
+    if (!tenant) {
+      log.error({ tenantId }, 'Tenant not found during checkout')
+      throw new NotFoundError('Tenant', tenantId)
+    }
+
+    // Checkout always settles in the tenant's configured currency
+    const currency = getTenantCurrency(tenant)
+    const exchangeRates = tenant.regionalSettings?.exchangeRates
+
+    // Convert an amount priced in another currency into the checkout currency
+    // (null when the tenant's exchange-rate table has no rate for it)
+    const toCheckoutCurrency = (amount: number, from: string | undefined) =>
+      convertAmount(amount, from || currency, currency, exchangeRates)
+
     // Generate a temporary session ID for reservations
     // Will be replaced with actual Stripe session ID after creation
     const tempSessionId = `temp_${Date.now()}_${Math.random().toString(36).slice(2)}`
@@ -161,6 +198,23 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Pieces priced in another currency need a configured exchange rate
+      if (toCheckoutCurrency(0, piece.currency) === null) {
+        await stockReservations.cancelReservation(tempSessionId)
+        log.warn(
+          {
+            pieceId: item.pieceId,
+            pieceCurrency: piece.currency,
+            currency,
+            tenantId,
+          },
+          'No exchange rate for piece currency during checkout',
+        )
+        throw new ValidationError(
+          `${piece.name} cannot be purchased in ${currency}`,
+        )
+      }
+
       // Try to reserve stock (handles race conditions, supports variants)
       const reservation = await stockReservations.reserveStock(
         tenantId,
@@ -171,6 +225,22 @@ export async function POST(request: NextRequest) {
         30, // 30 minutes expiration
       )
 
+      if (!reservation && isPreorderEnabled(piece.preorder)) {
+        await stockReservations.cancelReservation(tempSessionId)
+        log.warn(
+          {
+            pieceId: item.pieceId,
+            quantity: item.quantity,
+            maxOutstanding: piece.preorder.maxOutstanding,
+            tenantId,
+          },
+          'Pre-order limit reached during checkout',
+        )
+        throw new ValidationError(
+          `${piece.name} has reached its pre-order limit`,
+        )
+      }
+
       if (!reservation) {
         // Release any reservations made so far
         await stockReservations.cancelReservation(tempSessionId)
@@ -218,6 +288,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Items as charged, in the checkout currency (stored in session metadata for order creation)
+    const chargedItems: typeof items = []
+
     // Second pass: build line items with pre-fetched media
     for (const { item, piece, selectedVariant } of validatedItems) {
       if (!piece) continue // Type guard
@@ -234,9 +307,24 @@ export async function POST(request: NextRequest) {
       }
 
       // Determine price (variant can override base price, personalization adds to it)
-      const basePrice = selectedVariant?.price ?? item.price
-      const personalizationTotal = item.personalizationTotal || 0
+      // Prices are in the piece's currency - convert if it differs from the tenant's
+      // (rate availability was checked before reserving stock)
+      const basePrice =
+        toCheckoutCurrency(
+          selectedVariant?.price ?? item.price,
+          piece.currency,
+        ) ?? 0
+      const personalizationTotal =
+        toCheckoutCurrency(item.personalizationTotal || 0, piece.currency) ?? 0
       const effectivePrice = basePrice + personalizationTotal
+      chargedItems.push({
+        ...item,
+        price: basePrice,
+        currency,
+        personalizationTotal: item.personalizationTotal
+          ? personalizationTotal
+          : undefined,
+      })
 
       // Build product name with variant info
       let productName = piece.name
@@ -244,8 +332,12 @@ export async function POST(request: NextRequest) {
         productName += ` (${formatVariantOptions(selectedVariant.options)})`
       }
 
-      // Build description including personalization details
+      // Build description including lead time and personalization details
       let description = piece.description || ''
+      const leadTime = formatLeadTime(piece.preorder)
+      if (leadTime) {
+        description = description ? `${leadTime}\n\n${description}` : leadTime
+      }
       if (item.personalization && item.personalization.length > 0) {
         const personalizationLines = item.personalization
           .map((p) => `${p.fieldName}: ${String(p.value)}`)
@@ -269,7 +361,7 @@ export async function POST(request: NextRequest) {
       // Create Stripe line item
       lineItems.push({
         price_data: {
-          currency: (item.currency || piece.currency || 'aud').toLowerCase(),
+          currency: currency.toLowerCase(),
           product_data: {
             name: productName,
             description: description || undefined,
@@ -279,14 +371,14 @@ export async function POST(request: NextRequest) {
                 ? productMetadata
                 : undefined,
           },
-          unit_amount: Math.round(effectivePrice * 100), // Convert to cents (includes personalization)
+          unit_amount: toMinorUnits(effectivePrice, currency), // Minor units (includes personalization)
         },
         quantity: item.quantity,
       })
     }
 
     // Calculate subtotal for free shipping threshold (includes personalization costs)
-    const _subtotal = items.reduce(
+    const subtotal = chargedItems.reduce(
       (
         sum: number,
         item: {
@@ -299,14 +391,6 @@ export async function POST(request: NextRequest) {
       0,
     )
 
-    // Verify tenant exists and is valid before processing
-    const tenant = await tenants.getTenantById(tenantId)
-    if (!tenant) {
-      await stockReservations.cancelReservation(tempSessionId)
-      log.error({ tenantId }, 'Tenant not found during checkout')
-      throw new NotFoundError('Tenant', tenantId)
-    }
-
     // Verify seller has Stripe Connect set up and can accept payments
     const stripeConfig = tenant.paymentConfig?.stripe
     const connectAccountId = stripeConfig?.connectAccountId
@@ -325,6 +409,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Redeem a gift card against the items. Shipping is picked on the Stripe page,
+    // so the card can cover at most the item subtotal.
+    let giftCardRedemption: GiftCardRedemption | undefined
+    const discounts: Stripe.Checkout.SessionCreateParams.Discount[] = []
+    if (giftCardCode) {
+      try {
+        giftCardRedemption = await holdGiftCardBalance({
+          tenantId,
+          code: giftCardCode,
+          currency,
+          maxAmount: toMinorUnits(subtotal, currency) - STRIPE_MINIMUM_CHARGE,
+          sessionId: tempSessionId,
+          expirationMinutes: GIFT_CARD_HOLD_MINUTES,
+        })
+      } catch (error) {
+        await stockReservations.cancelReservation(tempSessionId)
+        throw error
+      }
+
+      // One-off coupon for the redeemed amount
+      const coupon = await getStripe().coupons.create({
+        amount_off: giftCardRedemption.amount,
+        currency: currency.toLowerCase(),
+        duration: 'once',
+        max_redemptions: 1,
+        name: `Gift card ${giftCardRedemption.code}`,
+      })
+      discounts.push({ coupon: coupon.id })
+    }
+
     // Marketplace mode with destination charges
 
     // Use tenant's shipping methods if configured, otherwise fall back to defaults
@@ -336,14 +450,30 @@ export async function POST(request: NextRequest) {
         ? configuredMethods
         : DEFAULT_SHIPPING_METHODS
 
-    // Build Stripe shipping options
+    // Build Stripe shipping options (all options must share the session currency,
+    // so methods priced in a currency without a configured rate are skipped)
     const shippingOptions: Stripe.Checkout.SessionCreateParams.ShippingOption[] =
-      effectiveShippingMethods.map((method) => ({
+      []
+    for (const method of effectiveShippingMethods) {
+      const price = toCheckoutCurrency(method.price, method.currency)
+      if (price === null) {
+        log.warn(
+          {
+            tenantId,
+            methodId: method.id,
+            methodCurrency: method.currency,
+            currency,
+          },
+          'Skipping shipping method without exchange rate',
+        )
+        continue
+      }
+      shippingOptions.push({
         shipping_rate_data: {
           type: 'fixed_amount' as const,
           fixed_amount: {
-            amount: Math.round(method.price * 100),
-            currency: (method.currency || 'AUD').toLowerCase(),
+            amount: toMinorUnits(price, currency),
+            currency: currency.toLowerCase(),
           },
           display_name: method.name,
           delivery_estimate: {
@@ -357,7 +487,8 @@ export async function POST(request: NextRequest) {
             },
           },
         },
-      }))
+      })
+    }
 
     // Add local pickup option
     shippingOptions.push({
@@ -365,7 +496,7 @@ export async function POST(request: NextRequest) {
         type: 'fixed_amount',
         fixed_amount: {
           amount: 0,
-          currency: 'aud',
+          currency: currency.toLowerCase(),
         },
         display_name: 'Local Pickup',
         delivery_estimate: {
@@ -393,6 +524,10 @@ export async function POST(request: NextRequest) {
         allowed_countries: ['AU', 'NZ', 'US', 'GB'],
       },
       shipping_options: shippingOptions,
+      discounts: discounts.length > 0 ? discounts : undefined,
+      expires_at: giftCardRedemption
+        ? Math.floor(Date.now() / 1000) + GIFT_CARD_SESSION_MINUTES * 60
+        : undefined,
       // Destination charges: payment goes to seller's Connect account
       payment_intent_data: {
         application_fee_amount: platformFeeAmount,
@@ -425,7 +560,13 @@ export async function POST(request: NextRequest) {
           ? sanitizeInput(shippingAddress.country)
           : '',
         notes: notes ? sanitizeInput(notes) : '',
-        items: JSON.stringify(items),
+        items: JSON.stringify(chargedItems),
+        currency,
+        displayCurrency: displayCurrency ? displayCurrency.toUpperCase() : '',
+        giftCardCode: giftCardRedemption?.code ?? '',
+        giftCardAmount: giftCardRedemption
+          ? String(giftCardRedemption.amount)
+          : '',
         reservationSessionId: tempSessionId, // Link to stock reservations
         connectAccountId, // Track which Connect account received funds
       },
@@ -438,9 +579,11 @@ export async function POST(request: NextRequest) {
         tenantId,
         sessionId: session.id,
         connectAccountId,
+        currency,
         itemCount: items.length,
         customerEmail: customerInfo.email,
         reservationSessionId: tempSessionId,
+        giftCardAmount: giftCardRedemption?.amount,
       },
       'Checkout session created',
     )
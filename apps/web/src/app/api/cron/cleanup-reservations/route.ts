@@ -1,5 +1,5 @@
 import { timingSafeEqual } from 'node:crypto'
-import { stockReservations } from '@madebuy/db'
+import { giftCards, stockReservations } from '@madebuy/db'
 import { type NextRequest, NextResponse } from 'next/server'
 
 /**
@@ -25,7 +25,8 @@ function verifySecret(received: string | null, expected: string): boolean {
  * GET/POST /api/cron/cleanup-reservations
  *
  * Stock reservation cleanup cron endpoint.
- * Called by Vercel Cron (or external cron service) to clean up expired stock reservations.
+ * Called by Vercel Cron (or external cron service) to clean up expired stock reservations
+ * and release expired gift card balance holds.
  *
  * Vercel cron config: Set path to /api/cron/cleanup-reservations, schedule every 5 minutes
  */
@@ -54,11 +55,17 @@ export async function GET(request: NextRequest) {
     // Clean up expired reservations
     const cleanupCount = await stockReservations.cleanupExpiredReservations()
 
-    console.log(`[CRON] Cleaned up ${cleanupCount} expired reservations`)
+    // Release gift card balance held by abandoned checkouts
+    const giftCardHoldCount = await giftCards.cleanupExpiredHolds()
+
+    console.log(
+      `[CRON] Cleaned up ${cleanupCount} expired reservations and ${giftCardHoldCount} gift card holds`,
+    )
 
     return NextResponse.json({
       success: true,
       cleanupCount,
+      giftCardHoldCount,
       message: `Cleaned up ${cleanupCount} expired stock reservations`,
     })
   } catch (error) {
@@ -1,4 +1,5 @@
 import { discounts, tenants } from '@madebuy/db'
+import { getTenantCurrency } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import { checkRateLimit } from '@/lib/rate-limit'
 
@@ -46,16 +47,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid tenant' }, { status: 400 })
     }
 
-    // Validate the discount code
+    // Validate the discount code (orderTotal is in the tenant's currency)
+    const currency = getTenantCurrency(tenant)
     const result = await discounts.validateDiscountCode(
       tenant.id,
       code,
       orderTotal,
       pieceIds || [],
       customerEmail,
+      currency,
     )
 
-    return NextResponse.json(result)
+    return NextResponse.json({ ...result, currency })
   } catch (error) {
     console.error('Discount validation error:', error)
     return NextResponse.json(
@@ -0,0 +1,64 @@
+import { giftCards, tenants } from '@madebuy/db'
+import { getTenantCurrency } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+
+/**
+ * POST /api/gift-cards/validate
+ * Check a gift card code and its remaining balance for checkout
+ */
+export async function POST(request: NextRequest) {
+  // Rate limit: 10 requests per minute per IP (prevent brute-force code guessing)
+  const rateLimitResponse = await checkRateLimit(request, {
+    limit: 10,
+    windowMs: 60000, // 1 minute
+    keyPrefix: 'gift-card-validate',
+  })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const body = await request.json()
+    const { tenantId, code } = body
+
+    if (!tenantId || !code) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tenantId, code' },
+        { status: 400 },
+      )
+    }
+
+    if (typeof tenantId !== 'string' || typeof code !== 'string') {
+      return NextResponse.json({ error: 'Invalid input type' }, { status: 400 })
+    }
+
+    const tenant =
+      (await tenants.getTenantById(tenantId)) ||
+      (await tenants.getTenantBySlug(tenantId))
+    if (!tenant) {
+      return NextResponse.json({ error: 'Invalid tenant' }, { status: 400 })
+    }
+
+    // Gift cards can only be redeemed in the checkout currency
+    const currency = getTenantCurrency(tenant)
+    const result = await giftCards.validateGiftCard(tenant.id, code, currency)
+
+    if (!result.valid || !result.giftCard) {
+      return NextResponse.json({ valid: false, error: result.error })
+    }
+
+    // Only expose what the buyer needs - not purchaser/recipient details
+    return NextResponse.json({
+      valid: true,
+      code: result.giftCard.code,
+      balance: result.availableBalance,
+      currency: result.giftCard.currency,
+      expiresAt: result.giftCard.expiresAt,
+    })
+  } catch (error) {
+    console.error('Gift card validation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to validate gift card' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { messages, orders, returns } from '@madebuy/db'
+import type { CreateReturnRequestInput, ReturnReason } from '@madebuy/shared'
+import {
+  createRateLimiter,
+  isMadeBuyError,
+  sanitizeInput,
+  toErrorResponse,
+} from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+
+// Rate limiter for return requests: 5 per hour per token
+const returnLimiter = createRateLimiter({
+  interval: 60 * 60 * 1000, // 1 hour
+  uniqueTokenPerInterval: 5,
+})
+
+/**
+ * POST /api/orders/[orderId]/returns?token=xxx
+ * Start a return for a shipped order as the customer (requires valid access token)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string } },
+) {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Access token required' },
+        { status: 401 },
+      )
+    }
+
+    // Validate access token
+    const accessToken = await messages.validateOrderAccessToken(token)
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Invalid or expired access token' },
+        { status: 401 },
+      )
+    }
+
+    // Verify order ID matches token
+    if (accessToken.orderId !== params.orderId) {
+      return NextResponse.json(
+        { error: 'Token does not match order' },
+        { status: 403 },
+      )
+    }
+
+    const rateLimitResult = await returnLimiter.check(token)
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many return requests. Please try again later.' },
+        { status: 429 },
+      )
+    }
+
+    const order = await orders.getOrder(accessToken.tenantId, params.orderId)
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const data: CreateReturnRequestInput = await request.json()
+
+    const returnRequest = await returns.createReturnRequest(order, {
+      reason: String(data.reason) as ReturnReason,
+      details: data.details
+        ? sanitizeInput(String(data.details)).slice(0, 2000)
+        : undefined,
+      items: Array.isArray(data.items)
+        ? data.items.map((item) => ({
+            pieceId: String(item.pieceId),
+            variantId: item.variantId ? String(item.variantId) : undefined,
+            quantity: Number(item.quantity),
+          }))
+        : [],
+    })
+
+    return NextResponse.json({ return: returnRequest }, { status: 201 })
+  } catch (error) {
+    if (isMadeBuyError(error)) {
+      const { error: msg, code, statusCode, details } = toErrorResponse(error)
+      return NextResponse.json(
+        { error: msg, code, details },
+        { status: statusCode },
+      )
+    }
+
+    console.error('Error creating return request:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
@@ -3,6 +3,7 @@ import type { CreateReviewInput } from '@madebuy/shared'
 import { safeValidateCreateReview, sanitizeInput } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import { rateLimiters } from '@/lib/rate-limit'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 /**
  * GET /api/reviews
@@ -211,6 +212,8 @@ export async function POST(request: NextRequest) {
     // REV-05 FIX: Pass order to determine verified purchase status
     const review = await reviews.createReview(tenantId, reviewInput, order)
 
+    dispatchWebhookEvent(tenantId, 'review.created', { review })
+
     return NextResponse.json({ review }, { status: 201 })
   } catch (error) {
     console.error('Error creating review:', error)
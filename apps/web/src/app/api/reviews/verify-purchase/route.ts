@@ -1,4 +1,5 @@
 import { orders, reviews, tenants } from '@madebuy/db'
+import { type Order, verifyReviewRequestToken } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 
 /**
@@ -9,20 +10,22 @@ import { type NextRequest, NextResponse } from 'next/server'
  * Body:
  *   - tenantId (required): The tenant ID
  *   - pieceId (required): The piece/product ID to review
- *   - email (required): Customer email to verify
+ *   - email: Customer email to verify
+ *   - token: Signed review request link token (instead of email)
  *
  * Returns:
  *   - canReview: boolean
  *   - orderId: string (if canReview is true)
+ *   - customerEmail: string (if canReview is true)
  *   - alreadyReviewed: boolean (if they've already left a review)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { tenantId, pieceId, email } = body
+    const { tenantId, pieceId, email, token } = body
 
     // Validate required fields
-    if (!tenantId || !pieceId || !email) {
+    if (!tenantId || !pieceId || (!email && !token)) {
       return NextResponse.json(
         { error: 'tenantId, pieceId, and email are required' },
         { status: 400 },
@@ -31,7 +34,7 @@ export async function POST(request: NextRequest) {
 
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(email)) {
+    if (!token && !emailRegex.test(email)) {
       return NextResponse.json(
         { error: 'Invalid email format' },
         { status: 400 },
@@ -44,12 +47,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
     }
 
-    // Find a delivered order with this product
-    const order = await orders.findDeliveredOrderWithProduct(
-      tenantId,
-      email,
-      pieceId,
-    )
+    let order: Order | null
+    if (token) {
+      // Signed link from a review request email - the order is in the token
+      const secret = process.env.REVIEW_REQUEST_SECRET
+      const payload = secret ? verifyReviewRequestToken(secret, token) : null
+      if (!payload || payload.tenantId !== tenantId) {
+        return NextResponse.json(
+          { error: 'This review link is invalid or has expired' },
+          { status: 403 },
+        )
+      }
+
+      const linkedOrder = await orders.getOrder(tenantId, payload.orderId)
+      order =
+        linkedOrder &&
+        linkedOrder.status === 'delivered' &&
+        linkedOrder.customerEmail.toLowerCase() === payload.email &&
+        linkedOrder.items.some((item) => item.pieceId === pieceId)
+          ? linkedOrder
+          : null
+    } else {
+      // Find a delivered order with this product
+      order = await orders.findDeliveredOrderWithProduct(
+        tenantId,
+        email,
+        pieceId,
+      )
+    }
 
     if (!order) {
       return NextResponse.json({
@@ -77,6 +102,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       canReview: true,
       orderId: order.id,
+      customerEmail: order.customerEmail,
       customerName: order.customerName,
     })
   } catch (error) {
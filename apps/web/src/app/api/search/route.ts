@@ -1,5 +1,6 @@
 import { pieces, tenants } from '@madebuy/db'
 import type { Piece } from '@madebuy/shared'
+import { getOnlineAvailableStock } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 
 /**
@@ -69,7 +70,7 @@ export async function GET(req: NextRequest) {
       currency: piece.currency,
       category: piece.category,
       tags: piece.tags,
-      stock: piece.stock,
+      stock: getOnlineAvailableStock(piece),
       hasVariants: piece.hasVariants,
       mediaIds: piece.mediaIds,
       isFeatured: piece.isFeatured,
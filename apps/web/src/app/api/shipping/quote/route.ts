@@ -1,5 +1,21 @@
 import { pieces, tenants } from '@madebuy/db'
-import { createSendleClient } from '@madebuy/shipping'
+import {
+  convertAmount,
+  type ExchangeRateTable,
+  fromMinorUnits,
+  getTenantCurrency,
+  type Tenant,
+  toMinorUnits,
+} from '@madebuy/shared'
+import {
+  type CarrierProvider,
+  createAusPostClient,
+  createAusPostProvider,
+  createRateTableProvider,
+  createSendleClient,
+  createSendleProvider,
+  getCarrierQuotes,
+} from '@madebuy/shipping'
 import { type NextRequest, NextResponse } from 'next/server'
 
 // Simple unique ID generator using built-in crypto
@@ -54,11 +70,28 @@ interface ShippingQuote {
     max: number
   }
   features?: string[]
+  highlights?: Array<'cheapest' | 'fastest'>
+}
+
+/**
+ * Convert a price in minor units between currencies using the tenant's rate
+ * table. Returns null when no rate is configured so the price is never shown
+ * unconverted under the wrong currency.
+ */
+function convertMinorUnits(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRateTable | undefined,
+): number | null {
+  const converted = convertAmount(fromMinorUnits(amount, from), from, to, rates)
+  return converted === null ? null : toMinorUnits(converted, to)
 }
 
 /**
  * POST /api/shipping/quote
- * Get shipping quotes from Sendle based on cart items
+ * Get shipping quotes from Sendle, Australia Post and the tenant's rate
+ * tables based on cart items, flagging the cheapest and fastest options
  *
  * Supports two request formats:
  * 1. New format (from checkout): { tenantId, items: [...], destination: {...} }
@@ -235,10 +268,51 @@ async function handleLegacyFormat(body: QuoteRequestLegacy) {
 }
 
 /**
- * Get shipping quotes from Sendle or return fallback rates
+ * Carriers the tenant has configured, in the order they're shown on ties
+ */
+function getCarrierProviders(tenant: Tenant): CarrierProvider[] {
+  const providers: CarrierProvider[] = []
+
+  const sendle = tenant.sendleSettings
+  if (sendle?.isConnected && sendle.apiKey && sendle.senderId) {
+    providers.push(
+      createSendleProvider(
+        createSendleClient({
+          apiKey: sendle.apiKey,
+          senderId: sendle.senderId,
+          environment: sendle.environment,
+        }),
+      ),
+    )
+  }
+
+  const auspost = tenant.shippingCarriers?.auspost
+  if (auspost?.enabled && auspost.apiKey) {
+    providers.push(
+      createAusPostProvider(createAusPostClient({ apiKey: auspost.apiKey })),
+    )
+  }
+
+  for (const table of tenant.shippingCarriers?.rateTables || []) {
+    if (table.enabled) {
+      providers.push(
+        createRateTableProvider(
+          table,
+          tenant.businessName,
+          getTenantCurrency(tenant),
+        ),
+      )
+    }
+  }
+
+  return providers
+}
+
+/**
+ * Get shipping quotes from every configured carrier or return fallback rates
  */
 async function getQuotes(
-  tenant: any,
+  tenant: Tenant,
   destPostcode: string,
   destSuburb: string,
   destState: string,
@@ -249,22 +323,26 @@ async function getQuotes(
   heightCm: number,
   cartTotalCents: number = 0, // Cart total for free shipping calculation
 ) {
+  // Quotes are returned in the tenant's currency. Fallback rates are AUD;
+  // carrier quotes carry their own currency. Anything without an exchange
+  // rate is left out rather than quoted in the wrong currency.
+  const currency = getTenantCurrency(tenant)
+  const exchangeRates = tenant.regionalSettings?.exchangeRates
+  const fromAud = (cents: number) =>
+    convertMinorUnits(cents, 'AUD', currency, exchangeRates)
+
   // Calculate free shipping eligibility
   const freeShippingThreshold = tenant.freeShippingThreshold || null
   const freeShippingEligible =
-    freeShippingThreshold && cartTotalCents >= freeShippingThreshold
+    freeShippingThreshold !== null && cartTotalCents >= freeShippingThreshold
   const amountUntilFreeShipping = freeShippingThreshold
     ? Math.max(0, freeShippingThreshold - cartTotalCents)
     : null
 
-  // Check if Sendle is configured
-  if (
-    !tenant.sendleSettings?.isConnected ||
-    !tenant.sendleSettings.apiKey ||
-    !tenant.sendleSettings.senderId
-  ) {
-    // Return fallback flat-rate if Sendle not configured
-    const quotes = createFallbackQuotes(freeShippingEligible)
+  const providers = getCarrierProviders(tenant)
+  if (providers.length === 0) {
+    // Return fallback flat-rate if no carrier is configured
+    const quotes = createFallbackQuotes(freeShippingEligible, currency, fromAud)
     return NextResponse.json({
       quotes,
       freeShippingEligible,
@@ -276,162 +354,154 @@ async function getQuotes(
 
   // Get origin from tenant's pickup address (default to Brisbane if not set)
   const pickupAddress = tenant.sendleSettings?.pickupAddress
-  const originPostcode = pickupAddress?.postcode || '4000'
-  const originSuburb = pickupAddress?.suburb || 'BRISBANE'
-  const originState = pickupAddress?.state || 'QLD'
-
-  // Create Sendle client
-  const client = createSendleClient({
-    apiKey: tenant.sendleSettings.apiKey,
-    senderId: tenant.sendleSettings.senderId,
-    environment: tenant.sendleSettings.environment,
+  const parcelDetails = {
+    weightGrams,
+    lengthCm,
+    widthCm,
+    heightCm,
+  }
+
+  const merged = await getCarrierQuotes(providers, {
+    origin: {
+      postcode: pickupAddress?.postcode || '4000',
+      suburb: pickupAddress?.suburb || 'BRISBANE',
+      state: pickupAddress?.state || 'QLD',
+      country: 'AU',
+    },
+    destination: {
+      postcode: destPostcode,
+      suburb: destSuburb,
+      state: destState,
+      country: destCountry,
+    },
+    parcel: parcelDetails,
   })
 
-  try {
-    // Get quotes from Sendle
-    const sendleResponse = await client.getQuotes({
-      sender_address: {
-        address_line1: '',
-        suburb: originSuburb,
-        state_name: originState,
-        postcode: originPostcode,
-        country: 'AU',
-      },
-      receiver_address: {
-        address_line1: '',
-        suburb: destSuburb,
-        state_name: destState,
-        postcode: destPostcode,
-        country: destCountry,
-      },
-      parcel: {
-        weight_value: weightGrams / 1000, // Convert grams to kg
-        weight_units: 'kg',
-        length_value: lengthCm,
-        width_value: widthCm,
-        height_value: heightCm,
-        dimension_units: 'cm',
-      },
-    })
+  for (const error of merged.errors) {
+    console.error(`Shipping quote error (${error.providerId}):`, error)
+  }
 
-    // Transform Sendle quotes to our format
-    let quotes: ShippingQuote[] = (sendleResponse.quotes || []).map(
-      (q: any, index: number) => ({
-        id: `sendle-${index}-${generateId()}`,
-        carrier: 'Sendle',
-        service: q.plan_name,
-        price: freeShippingEligible ? 0 : q.price_in_cents, // Free if eligible
-        currency: 'AUD',
-        estimatedDays: q.estimated_delivery_days || { min: 2, max: 7 },
-        features: freeShippingEligible
-          ? [...(q.features || []), 'Free shipping applied']
-          : q.features || [],
-      }),
+  // Transform carrier quotes to our format (already cheapest first)
+  let quotes: ShippingQuote[] = []
+  for (const [index, q] of merged.quotes.entries()) {
+    const price = convertMinorUnits(
+      q.priceCents,
+      q.currency,
+      currency,
+      exchangeRates,
     )
-
-    // Sort by price (cheapest first)
-    quotes.sort((a, b) => a.price - b.price)
-
-    // If free shipping eligible, add a "Free Shipping" option at the top
-    if (freeShippingEligible && quotes.length > 0) {
-      // Use the cheapest option's delivery time for free shipping
-      const cheapestQuote = quotes[0]
-      quotes = [
-        {
-          id: `free-shipping-${generateId()}`,
-          carrier: 'Free Shipping',
-          service: 'Standard Free Shipping',
-          price: 0,
-          currency: 'AUD',
-          estimatedDays: cheapestQuote.estimatedDays,
-          features: ['Free shipping for qualifying orders'],
-        },
-        ...quotes.filter((q) => q.price > 0), // Keep paid options as alternatives
-      ]
+    if (price === null) {
+      console.error(
+        `Shipping quote skipped (${q.providerId}): no ${q.currency} to ${currency} exchange rate`,
+      )
+      continue
     }
-
-    return NextResponse.json({
-      quotes,
-      freeShippingEligible,
-      freeShippingThreshold,
-      amountUntilFreeShipping,
-      parcelDetails: {
-        weightGrams,
-        lengthCm,
-        widthCm,
-        heightCm,
-      },
+    quotes.push({
+      id: `${q.providerId.replace(/[^a-z0-9]+/gi, '-')}-${index}-${generateId()}`,
+      carrier: q.carrier,
+      service: q.service,
+      price: freeShippingEligible ? 0 : price, // Free if eligible
+      currency,
+      estimatedDays: q.estimatedDays,
+      features: freeShippingEligible
+        ? [...(q.features || []), 'Free shipping applied']
+        : q.features || [],
+      highlights: [
+        ...(q === merged.cheapest ? (['cheapest'] as const) : []),
+        ...(q === merged.fastest ? (['fastest'] as const) : []),
+      ],
     })
-  } catch (sendleError) {
-    console.error('Sendle API error:', sendleError)
+  }
 
+  if (quotes.length === 0) {
     // Return fallback flat-rate shipping options
     return NextResponse.json({
-      quotes: createFallbackQuotes(freeShippingEligible),
+      quotes: createFallbackQuotes(freeShippingEligible, currency, fromAud),
       freeShippingEligible,
       freeShippingThreshold,
       amountUntilFreeShipping,
       message: 'Using fallback shipping rates',
-      parcelDetails: {
-        weightGrams,
-        lengthCm,
-        widthCm,
-        heightCm,
-      },
+      parcelDetails,
     })
   }
-}
 
-/**
- * Create fallback shipping quotes when Sendle is unavailable
- */
-function createFallbackQuotes(
-  freeShippingEligible: boolean = false,
-): ShippingQuote[] {
-  // If free shipping eligible, return free option first
+  // If free shipping eligible, add a "Free Shipping" option at the top
   if (freeShippingEligible) {
-    return [
+    // Use the cheapest option's delivery time for free shipping
+    const cheapestQuote = quotes[0]
+    quotes = [
       {
         id: `free-shipping-${generateId()}`,
         carrier: 'Free Shipping',
         service: 'Standard Free Shipping',
         price: 0,
-        currency: 'AUD',
-        estimatedDays: { min: 3, max: 7 },
-        features: ['Free shipping for qualifying orders', 'Tracking included'],
-      },
-      {
-        id: `express-${generateId()}`,
-        carrier: 'Express Shipping',
-        service: 'Express Delivery',
-        price: 1495, // $14.95 in cents - express still costs extra
-        currency: 'AUD',
-        estimatedDays: { min: 1, max: 3 },
-        features: ['Tracking included', 'Priority handling'],
+        currency,
+        estimatedDays: cheapestQuote.estimatedDays,
+        features: ['Free shipping for qualifying orders'],
       },
+      ...quotes.filter((q) => q.price > 0), // Keep paid options as alternatives
     ]
   }
 
-  return [
-    {
+  return NextResponse.json({
+    quotes,
+    freeShippingEligible,
+    freeShippingThreshold,
+    amountUntilFreeShipping,
+    parcelDetails,
+  })
+}
+
+/**
+ * Create fallback shipping quotes when no carrier can quote
+ * Flat rates are defined in AUD cents and converted with `fromAud`; a rate
+ * that can't be converted is left out
+ */
+function createFallbackQuotes(
+  freeShippingEligible: boolean = false,
+  currency: string = 'AUD',
+  fromAud: (cents: number) => number | null = (cents) => cents,
+): ShippingQuote[] {
+  const standardPrice = fromAud(995) // $9.95 in cents
+  const expressPrice = fromAud(1495) // $14.95 in cents - express still costs extra
+  const quotes: ShippingQuote[] = []
+
+  // If free shipping eligible, return free option first
+  if (freeShippingEligible) {
+    quotes.push({
+      id: `free-shipping-${generateId()}`,
+      carrier: 'Free Shipping',
+      service: 'Standard Free Shipping',
+      price: 0,
+      currency,
+      estimatedDays: { min: 3, max: 7 },
+      features: ['Free shipping for qualifying orders', 'Tracking included'],
+    })
+  } else if (standardPrice !== null) {
+    quotes.push({
       id: `standard-${generateId()}`,
       carrier: 'Standard Shipping',
       service: 'Standard Delivery',
-      price: 995, // $9.95 in cents
-      currency: 'AUD',
+      price: standardPrice,
+      currency,
       estimatedDays: { min: 3, max: 7 },
       features: ['Tracking included'],
-    },
-    {
+    })
+  }
+
+  if (expressPrice !== null) {
+    quotes.push({
       id: `express-${generateId()}`,
       carrier: 'Express Shipping',
       service: 'Express Delivery',
-      price: 1495, // $14.95 in cents
-      currency: 'AUD',
+      price: expressPrice,
+      currency,
       estimatedDays: { min: 1, max: 3 },
       features: ['Tracking included', 'Priority handling'],
-    },
-  ]
+    })
+  }
+
+  return quotes
 }
 
 /**
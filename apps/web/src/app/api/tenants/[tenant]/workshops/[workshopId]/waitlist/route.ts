@@ -0,0 +1,89 @@
+import { workshops } from '@madebuy/db'
+import { safeValidateJoinWaitlist, sanitizeInput } from '@madebuy/shared'
+import { type NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { getTenantBySlug } from '@/lib/tenant'
+
+type RouteContext = {
+  params: Promise<{ tenant: string; workshopId: string }>
+}
+
+// Errors from joinWaitlist that are the customer's to fix
+const WAITLIST_CLIENT_ERRORS = [
+  'Slot not found',
+  'Slot is not available',
+  'Slot has seats available',
+  'Not enough capacity for this booking',
+]
+
+/**
+ * POST /api/tenants/[tenant]/workshops/[workshopId]/waitlist
+ * Join the waitlist for a full workshop slot
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  // Rate limit: 5 requests per 15 minutes per IP (prevent spam)
+  const rateLimitResponse = await checkRateLimit(request, {
+    limit: 5,
+    windowMs: 900000, // 15 minutes
+    keyPrefix: 'waitlist',
+  })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { tenant: tenantSlug, workshopId } = await context.params
+    const tenant = await getTenantBySlug(tenantSlug)
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Shop not found' }, { status: 404 })
+    }
+
+    const workshop = await workshops.getWorkshopById(tenant.id, workshopId)
+    if (!workshop || workshop.status !== 'published') {
+      return NextResponse.json({ error: 'Workshop not found' }, { status: 404 })
+    }
+
+    const validation = safeValidateJoinWaitlist(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 },
+      )
+    }
+
+    const { slotId, customerName, customerEmail, numberOfAttendees } =
+      validation.data
+
+    try {
+      const entry = await workshops.joinWaitlist(tenant.id, {
+        workshopId,
+        slotId,
+        customerName: sanitizeInput(customerName),
+        customerEmail,
+        numberOfAttendees,
+      })
+
+      return NextResponse.json(
+        { success: true, entryId: entry.id },
+        { status: 201 },
+      )
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        WAITLIST_CLIENT_ERRORS.includes(error.message)
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+  } catch (error) {
+    console.error('Error joining waitlist:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 },
+    )
+  }
+}
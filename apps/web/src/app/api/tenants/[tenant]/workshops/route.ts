@@ -22,7 +22,13 @@ export async function GET(request: NextRequest, context: RouteContext) {
       { limit: 100, sortBy: 'createdAt', sortOrder: 'desc' },
     )
 
-    return NextResponse.json(result)
+    // The meeting link is only for attendees - it goes out in reminder emails
+    return NextResponse.json({
+      ...result,
+      data: result.data.map(
+        ({ virtualMeetingUrl: _, ...workshop }) => workshop,
+      ),
+    })
   } catch (error) {
     console.error('Error fetching workshops:', error)
     return NextResponse.json(
@@ -42,6 +42,7 @@ const {
   mockLogError,
   mockLogInfo,
   mockLogWarn,
+  mockRefundsList,
 } = vi.hoisted(() => ({
   mockConstructEvent: vi.fn(),
   mockSendOrderConfirmation: vi.fn().mockResolvedValue(true),
@@ -52,6 +53,7 @@ const {
   mockLogError: vi.fn(),
   mockLogInfo: vi.fn(),
   mockLogWarn: vi.fn(),
+  mockRefundsList: vi.fn(),
 }))
 
 // Mock @madebuy/db
@@ -74,6 +76,9 @@ vi.mock('@madebuy/db', () => ({
     getOrderByPaymentIntent: vi.fn(),
     updateRefundStatus: vi.fn(),
   },
+  refunds: {
+    recordRefund: vi.fn(),
+  },
   pieces: {
     getPiece: vi.fn(),
     getLowStockPieces: vi.fn(),
@@ -94,6 +99,17 @@ vi.mock('@madebuy/db', () => ({
     createTransaction: vi.fn(),
     getTransactionByStripeSessionId: vi.fn(),
   },
+  giftCards: {
+    commitHolds: vi.fn().mockResolvedValue([]),
+    releaseHolds: vi.fn().mockResolvedValue(0),
+    getGiftCardsByOrder: vi.fn().mockResolvedValue([]),
+    issueGiftCard: vi.fn(),
+  },
+  webhooks: {
+    listEndpointsForEvent: vi.fn().mockResolvedValue([]),
+    createDelivery: vi.fn(),
+    completeDelivery: vi.fn(),
+  },
 }))
 
 // Mock Stripe SDK
@@ -103,6 +119,11 @@ vi.mock('stripe', () => {
       webhooks: {
         constructEvent: mockConstructEvent,
       },
+      refunds: {
+        list: (...args: unknown[]) => ({
+          autoPagingToArray: () => mockRefundsList(...args),
+        }),
+      },
     })),
   }
 })
@@ -141,6 +162,7 @@ import {
   downloads,
   orders,
   pieces,
+  refunds,
   stockReservations,
   tenants,
   transactions,
@@ -440,6 +462,8 @@ describe('Stripe Webhook Route', () => {
     vi.mocked(stockReservations.cancelReservation).mockReset()
     vi.mocked(transactions.createTransaction).mockReset()
     vi.mocked(transactions.getTransactionByStripeSessionId).mockReset()
+    vi.mocked(refunds.recordRefund).mockReset()
+    mockRefundsList.mockReset()
 
     // Default mock implementation for Stripe event construction
     mockConstructEvent.mockImplementation((body, _sig, _secret) => {
@@ -802,4 +826,99 @@ describe('Stripe Webhook Route', () => {
       expect(tenants.updateTenant).not.toHaveBeenCalled()
     })
   })
+
+  // ---------------------------------------------------------------------------
+  // charge.refunded - Only refunds made outside admin are recorded, once
+  // ---------------------------------------------------------------------------
+  describe('charge.refunded', () => {
+    const chargeEvent = {
+      id: 'evt_refund_123',
+      type: 'charge.refunded',
+      data: {
+        object: {
+          id: 'ch_123',
+          object: 'charge',
+          payment_intent: 'pi_123',
+          amount: 10000,
+          amount_refunded: 6000,
+          metadata: { tenantId: 'tenant-123' },
+        },
+      },
+    }
+
+    it('records dashboard refunds and skips admin and already recorded ones', async () => {
+      vi.mocked(orders.getOrderByPaymentIntent).mockResolvedValue({
+        ...mockOrder,
+        id: 'order-123',
+        tenantId: 'tenant-123',
+        items: [{ pieceId: 'piece-456', quantity: 2 }],
+        refunds: [{ id: 'refund-1', providerRefundId: 're_earlier' }],
+      } as any)
+      vi.mocked(tenants.getTenantById).mockResolvedValue(mockTenant as any)
+      mockRefundsList.mockResolvedValue([
+        {
+          id: 're_admin',
+          amount: 1000,
+          status: 'succeeded',
+          metadata: { source: 'admin_refund' },
+        },
+        { id: 're_earlier', amount: 2500, status: 'succeeded', metadata: {} },
+        {
+          id: 're_dashboard',
+          amount: 5000,
+          status: 'succeeded',
+          metadata: {},
+          reason: 'requested_by_customer',
+        },
+      ])
+
+      const response = await POST(
+        createMockRequest(JSON.stringify(chargeEvent)),
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockRefundsList).toHaveBeenCalledWith(
+        expect.objectContaining({ charge: 'ch_123' }),
+      )
+      expect(refunds.recordRefund).toHaveBeenCalledTimes(1)
+      expect(refunds.recordRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-123' }),
+        expect.objectContaining({ amount: 5000, restock: false }),
+        expect.objectContaining({
+          provider: 'stripe',
+          providerRefundId: 're_dashboard',
+        }),
+      )
+      // Half the charge refunded - one of the two items goes back
+      expect(pieces.incrementStock).toHaveBeenCalledWith(
+        'tenant-123',
+        'piece-456',
+        1,
+      )
+    })
+
+    it('does nothing when every refund came from admin', async () => {
+      vi.mocked(orders.getOrderByPaymentIntent).mockResolvedValue({
+        ...mockOrder,
+        tenantId: 'tenant-123',
+        items: [{ pieceId: 'piece-456', quantity: 2 }],
+      } as any)
+      mockRefundsList.mockResolvedValue([
+        {
+          id: 're_admin',
+          amount: 10000,
+          status: 'succeeded',
+          metadata: { source: 'admin_refund' },
+        },
+      ])
+
+      const response = await POST(
+        createMockRequest(JSON.stringify(chargeEvent)),
+      )
+
+      expect(response.status).toBe(200)
+      expect(refunds.recordRefund).not.toHaveBeenCalled()
+      expect(pieces.incrementStock).not.toHaveBeenCalled()
+    })
+  })
 })
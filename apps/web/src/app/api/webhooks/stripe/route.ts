@@ -1,7 +1,9 @@
 import {
   downloads,
+  giftCards,
   orders,
   pieces,
+  refunds,
   stockReservations,
   tenants,
   transactions,
@@ -12,23 +14,31 @@ import type {
   Plan,
 } from '@madebuy/shared'
 import {
+  ADMIN_REFUND_SOURCE,
   calculateStripeFee,
   createLogger,
+  type GiftCard,
   ExternalServiceError,
+  fromMinorUnits,
   getFeaturesForPlan,
+  getProductionDueDate,
   isMadeBuyError,
   toErrorResponse,
+  toMinorUnits,
   ValidationError,
 } from '@madebuy/shared'
 import { type NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
+import { issuePurchasedGiftCards } from '@/lib/checkout/giftCards'
 import {
   sendDownloadEmail,
+  sendGiftCardEmail,
   sendLowStockAlertEmail,
   sendOrderConfirmation,
   sendPaymentFailedEmail,
   sendSubscriptionCancelledEmail,
 } from '@/lib/email'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 const log = createLogger({ module: 'stripe-webhook' })
 
@@ -261,6 +271,7 @@ async function handleCheckoutCompleted(
       description: piece.description,
       personalizations: item.personalization, // Maps from cart personalization to order personalizations
       personalizationTotal: item.personalizationTotal || 0,
+      productionDue: getProductionDueDate(piece.preorder),
     })
   }
 
@@ -309,13 +320,21 @@ async function handleCheckoutCompleted(
         country: session.metadata?.shippingCountry || 'AU',
       }
 
-  // Calculate pricing from session
-  const shippingAmount = session.total_details?.amount_shipping
-    ? session.total_details.amount_shipping / 100
-    : 0
-  const taxAmount = session.total_details?.amount_tax
-    ? session.total_details.amount_tax / 100
-    : 0
+  // Calculate pricing from session (Stripe amounts are in minor units)
+  const currency = (session.currency || 'aud').toUpperCase()
+  const shippingAmount = fromMinorUnits(
+    session.total_details?.amount_shipping ?? 0,
+    currency,
+  )
+  const taxAmount = fromMinorUnits(
+    session.total_details?.amount_tax ?? 0,
+    currency,
+  )
+  // Discounts are gift card redemptions (applied as a one-off coupon at checkout)
+  const discountAmount = fromMinorUnits(
+    session.total_details?.amount_discount ?? 0,
+    currency,
+  )
 
   // Create order
   const orderData: CreateOrderInput = {
@@ -336,8 +355,8 @@ async function handleCheckoutCompleted(
   const order = await orders.createOrder(tenantId, orderData, {
     shipping: shippingAmount,
     tax: taxAmount,
-    discount: 0,
-    currency: (session.currency || 'aud').toUpperCase(),
+    discount: discountAmount,
+    currency,
     stripeSessionId: session.id, // For idempotency
     paymentIntentId: session.payment_intent as string, // WH-03: For refund lookup
   })
@@ -351,6 +370,25 @@ async function handleCheckoutCompleted(
     'Order created from checkout session',
   )
 
+  // Redeem the gift card balance held for this checkout
+  if (reservationSessionId && session.metadata?.giftCardCode) {
+    const redeemed = await giftCards.commitHolds(
+      tenantId,
+      reservationSessionId,
+      order.id,
+    )
+    if (redeemed.length === 0) {
+      log.warn(
+        {
+          reservationSessionId,
+          sessionId: session.id,
+          giftCardCode: session.metadata.giftCardCode,
+        },
+        'No active gift card hold for session - may have already been redeemed or expired',
+      )
+    }
+  }
+
   // WH-05: Add idempotency check for transaction creation
   // Check if transaction already exists for this Stripe session
   const existingTransaction = await transactions.getTransactionByStripeSessionId(
@@ -372,7 +410,7 @@ async function handleCheckoutCompleted(
       stripeFee,
       platformFee,
       netAmount: grossAmountCents - stripeFee - platformFee,
-      currency: (session.currency || 'aud').toUpperCase(),
+      currency,
       stripePaymentIntentId: session.payment_intent as string,
       stripeSessionId: session.id, // WH-05: For idempotency
       status: 'completed',
@@ -440,6 +478,29 @@ async function handleCheckoutCompleted(
     }
   }
 
+  // Issue gift cards for gift card pieces (value is the price paid per unit)
+  let purchasedGiftCards: GiftCard[] = []
+  try {
+    const unitAmounts = new Map(
+      items.map((item) => [
+        item.pieceId,
+        toMinorUnits(item.price + (item.personalizationTotal || 0), order.currency),
+      ]),
+    )
+    purchasedGiftCards = await issuePurchasedGiftCards(
+      tenantId,
+      order,
+      piecesMap,
+      unitAmounts,
+    )
+  } catch (giftCardError) {
+    log.error(
+      { err: giftCardError, orderId: order.id },
+      'Failed to issue gift cards for order',
+    )
+    // Don't fail the webhook - cards can be issued manually from the admin
+  }
+
   // Send confirmation email to customer
   const tenant = await tenants.getTenantById(tenantId)
   try {
@@ -450,6 +511,22 @@ async function handleCheckoutCompleted(
         'Order confirmation email sent',
       )
 
+      // Send purchased gift card codes
+      if (purchasedGiftCards.length > 0) {
+        try {
+          await sendGiftCardEmail({
+            order,
+            tenant,
+            giftCards: purchasedGiftCards,
+          })
+        } catch (giftCardEmailError) {
+          log.error(
+            { err: giftCardEmailError, orderId: order.id },
+            'Failed to send gift card email',
+          )
+        }
+      }
+
       // Send download emails for digital products
       // Reuse piecesMap to avoid N+1 query
       for (const download of downloadLinks) {
@@ -506,9 +583,25 @@ async function handleCheckoutCompleted(
     // Don't fail the webhook if email fails
   }
 
+  dispatchWebhookEvent(tenantId, 'order.paid', { order })
+
   // Check for low stock and send alert if needed
   try {
     const lowStockPieces = await pieces.getLowStockPieces(tenantId)
+
+    // Only notify webhooks about pieces this order pushed below the threshold
+    for (const piece of lowStockPieces) {
+      if (!piecesMap.has(piece.id)) continue
+      dispatchWebhookEvent(tenantId, 'piece.stock_low', {
+        piece: {
+          id: piece.id,
+          name: piece.name,
+          stock: piece.stock,
+          lowStockThreshold: piece.lowStockThreshold,
+        },
+      })
+    }
+
     if (lowStockPieces.length > 0 && tenant) {
       const adminBaseUrl =
         process.env.NEXT_PUBLIC_ADMIN_URL || 'https://admin.madebuy.com.au'
@@ -533,12 +626,13 @@ async function handleCheckoutCompleted(
 
 /**
  * Handle payment_intent.payment_failed
- * Cancels stock reservations
+ * Cancels stock reservations and gift card holds
  */
 async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
   const reservationSessionId = paymentIntent.metadata?.reservationSessionId
   if (reservationSessionId) {
     await stockReservations.cancelReservation(reservationSessionId)
+    await giftCards.releaseHolds(reservationSessionId)
     log.info(
       { reservationSessionId, paymentIntentId: paymentIntent.id },
       'Stock reservation cancelled after payment failure',
@@ -548,7 +642,7 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
 
 /**
  * Handle charge.refunded
- * Updates order refund status and restores stock for full/partial refunds
+ * Records refunds made outside admin and restores stock in proportion
  */
 async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
   const paymentIntentId = charge.payment_intent as string
@@ -564,39 +658,81 @@ async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
     return
   }
 
+  // Get the order to calculate stock restoration
+  const order = await orders.getOrderByPaymentIntent(tenantId, paymentIntentId)
+  if (!order || order.tenantId !== tenantId) {
+    log.error(
+      { chargeId: charge.id, tenantId, paymentIntentId },
+      'Order not found for refund',
+    )
+    return
+  }
+
+  // Webhook payloads don't include charge.refunds, so list them. Refunds
+  // issued from admin are recorded (and restocked) when they're made, and
+  // anything already on the order came from an earlier delivery.
+  const recordedRefundIds = new Set(
+    (order.refunds ?? []).map((refund) => refund.providerRefundId),
+  )
+  const stripeRefunds = await getStripe()
+    .refunds.list({ charge: charge.id, limit: 100 })
+    .autoPagingToArray({ limit: 1000 })
+  const newRefunds = stripeRefunds.filter(
+    (refund) =>
+      (refund.status === 'succeeded' || refund.status === 'pending') &&
+      refund.metadata?.source !== ADMIN_REFUND_SOURCE &&
+      !recordedRefundIds.has(refund.id),
+  )
+
+  if (newRefunds.length === 0) {
+    log.info(
+      { chargeId: charge.id, tenantId },
+      'Charge refunds already recorded',
+    )
+    return
+  }
+
+  const newRefundAmount = newRefunds.reduce(
+    (sum, refund) => sum + refund.amount,
+    0,
+  )
+
   log.info(
     {
       chargeId: charge.id,
       tenantId,
-      refundedAmount: charge.amount_refunded,
+      refundCount: newRefunds.length,
+      newRefundAmount,
       totalAmount: charge.amount,
     },
     'Processing charge refund',
   )
 
-  // Get the order to calculate stock restoration
-  const order = await orders.getOrderByPaymentIntent(tenantId, paymentIntentId)
-  if (!order || order.tenantId !== tenantId) {
-    log.error(
-      { chargeId: charge.id, tenantId, paymentIntentId },
-      'Order not found for refund',
+  const tenant = await tenants.getTenantById(tenantId)
+  const gstRate = tenant?.taxSettings?.gstRegistered
+    ? (tenant.taxSettings.gstRate ?? 10)
+    : undefined
+
+  // Record each refund made outside admin (e.g. the Stripe dashboard) so the
+  // order history and ledger include it and later deliveries skip it
+  for (const refund of newRefunds) {
+    await refunds.recordRefund(
+      order,
+      {
+        amount: refund.amount,
+        items: [],
+        includesShipping: false,
+        reason: refund.reason || undefined,
+        restock: false,
+      },
+      { provider: 'stripe', providerRefundId: refund.id, gstRate },
     )
-    return
   }
 
-  // Calculate refund percentage for proportional stock restoration
-  const refundPercentage = charge.amount_refunded / charge.amount
+  // Restore stock in proportion to the newly refunded amount
+  const refundPercentage = newRefundAmount / charge.amount
   const isFullRefund = refundPercentage >= 0.99 // Account for rounding
 
-  // Update order refund status
-  await orders.updateRefundStatus(tenantId, paymentIntentId, {
-    refundedAmount: charge.amount_refunded,
-    refundedAt: new Date(),
-    refundId: charge.refunds?.data[0]?.id,
-    reason: charge.refunds?.data[0]?.reason || undefined,
-  })
-
-  // Restore stock proportionally based on refund amount
   log.info(
     {
       chargeId: charge.id,
@@ -633,12 +769,13 @@ async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
 
 /**
  * Handle checkout.session.expired
- * Releases stock reservations when checkout times out
+ * Releases stock reservations and gift card holds when checkout times out
  */
 async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
   const reservationSessionId = session.metadata?.reservationSessionId
   if (reservationSessionId) {
     await stockReservations.cancelReservation(reservationSessionId)
+    await giftCards.releaseHolds(reservationSessionId)
     log.info(
       { reservationSessionId, sessionId: session.id },
       'Stock reservations released after checkout expiration',
@@ -2,6 +2,20 @@ import { wishlist } from '@madebuy/db'
 import { nanoid } from 'nanoid'
 import { cookies } from 'next/headers'
 import { type NextRequest, NextResponse } from 'next/server'
+import { getSignedInCustomer } from '@/lib/customer-session'
+
+/**
+ * Resolve the wishlist owner email
+ * Signed-in customers always use their account email so the wishlist
+ * follows them across devices
+ */
+async function resolveCustomerEmail(
+  tenantId: string,
+  requestedEmail?: string | null,
+): Promise<string | undefined> {
+  const customer = await getSignedInCustomer(tenantId)
+  return customer?.email || requestedEmail || undefined
+}
 
 /**
  * GET /api/wishlist
@@ -11,7 +25,6 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const tenantId = searchParams.get('tenantId')
-    const customerEmail = searchParams.get('email')
 
     if (!tenantId) {
       return NextResponse.json(
@@ -20,15 +33,16 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const customerEmail = await resolveCustomerEmail(
+      tenantId,
+      searchParams.get('email'),
+    )
+
     // Get session ID from cookie for guest users
     const cookieStore = await cookies()
     const sessionId = cookieStore.get('wishlist_session')?.value
 
-    const items = await wishlist.getWishlist(
-      tenantId,
-      customerEmail || undefined,
-      sessionId,
-    )
+    const items = await wishlist.getWishlist(tenantId, customerEmail, sessionId)
 
     return NextResponse.json({ items })
   } catch (error) {
@@ -47,7 +61,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { tenantId, pieceId, customerEmail, variantId } = body
+    const { tenantId, pieceId, variantId } = body
 
     if (!tenantId || !pieceId) {
       return NextResponse.json(
@@ -56,6 +70,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const customerEmail = await resolveCustomerEmail(
+      tenantId,
+      body.customerEmail,
+    )
+
     // For guest users, create or get session ID
     const cookieStore = await cookies()
     let sessionId = cookieStore.get('wishlist_session')?.value
@@ -67,7 +86,7 @@ export async function POST(request: NextRequest) {
 
     const item = await wishlist.addToWishlist(tenantId, {
       pieceId,
-      customerEmail: customerEmail || undefined,
+      customerEmail,
       sessionId: customerEmail ? undefined : sessionId,
       variantId,
     })
@@ -103,7 +122,6 @@ export async function DELETE(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const tenantId = searchParams.get('tenantId')
     const pieceId = searchParams.get('pieceId')
-    const customerEmail = searchParams.get('email')
 
     if (!tenantId || !pieceId) {
       return NextResponse.json(
@@ -112,6 +130,11 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
+    const customerEmail = await resolveCustomerEmail(
+      tenantId,
+      searchParams.get('email'),
+    )
+
     // Get session ID from cookie for guest users
     const cookieStore = await cookies()
     const sessionId = cookieStore.get('wishlist_session')?.value
@@ -122,7 +145,7 @@ export async function DELETE(request: NextRequest) {
     const removed = await wishlist.removeFromWishlist(
       tenantId,
       pieceId,
-      customerEmail || undefined,
+      customerEmail,
       customerEmail ? undefined : sessionId,
     )
 
@@ -1,12 +1,14 @@
 'use client'
 
-import type { Message } from '@madebuy/shared'
+import type { Message, ReturnReason } from '@madebuy/shared'
+import { RETURN_REASON_LABELS } from '@madebuy/shared'
 import {
   CheckCircle,
   Clock,
   MapPin,
   MessageSquare,
   Package,
+  RotateCcw,
   Send,
   Truck,
   User,
@@ -15,12 +17,21 @@ import {
 import { useCallback, useEffect, useRef, useState } from 'react'
 
 interface OrderItem {
+  pieceId: string
+  variantId?: string
+  returnable: number // Quantity that can still be returned
   name: string
   quantity: number
   price: number
   imageUrl?: string
 }
 
+interface TrackingEvent {
+  occurredAt: string
+  description: string
+  location?: string
+}
+
 interface OrderData {
   id: string
   orderNumber: string
@@ -51,6 +62,20 @@ interface OrderData {
   paidAt?: string
   shippedAt?: string
   deliveredAt?: string
+  trackingState?: string
+  trackingEvents: TrackingEvent[]
+}
+
+interface ReturnData {
+  rmaNumber: string
+  status: string
+  reason: string
+  items: Array<{ name: string; quantity: number }>
+  labelUrl?: string
+  trackingNumber?: string
+  trackingUrl?: string
+  rejectionReason?: string
+  createdAt: string
 }
 
 interface SellerData {
@@ -64,6 +89,7 @@ interface OrderViewClientProps {
   order: OrderData
   seller: SellerData
   initialMessages: Message[]
+  initialReturn: ReturnData | null
 }
 
 export function OrderViewClient({
@@ -71,12 +97,22 @@ export function OrderViewClient({
   order,
   seller,
   initialMessages,
+  initialReturn,
 }: OrderViewClientProps) {
   const [messages, setMessages] = useState<Message[]>(initialMessages)
   const [newMessage, setNewMessage] = useState('')
   const [isSending, setIsSending] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showMessages, setShowMessages] = useState(false)
+  const [returnRequest, setReturnRequest] = useState(initialReturn)
+  const [showReturnForm, setShowReturnForm] = useState(false)
+  const [returnReason, setReturnReason] = useState<ReturnReason>('damaged')
+  const [returnDetails, setReturnDetails] = useState('')
+  const [returnQuantities, setReturnQuantities] = useState<
+    Record<number, number>
+  >({})
+  const [returnError, setReturnError] = useState<string | null>(null)
+  const [isSubmittingReturn, setIsSubmittingReturn] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -95,6 +131,15 @@ export function OrderViewClient({
     })
   }
 
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-AU', {
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
   // Fetch messages
   const fetchMessages = useCallback(async () => {
     try {
@@ -165,6 +210,69 @@ export function OrderViewClient({
     }
   }
 
+  const returnOpen =
+    returnRequest !== null &&
+    returnRequest.status !== 'rejected' &&
+    returnRequest.status !== 'refunded'
+  const canReturn =
+    (order.status === 'shipped' || order.status === 'delivered') &&
+    order.paymentStatus === 'paid' &&
+    !returnOpen &&
+    order.items.some((item) => item.returnable > 0)
+
+  // Start a return
+  const handleReturnSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmittingReturn(true)
+    setReturnError(null)
+
+    try {
+      const response = await fetch(
+        `/api/orders/${order.id}/returns?token=${token}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            reason: returnReason,
+            details: returnDetails.trim() || undefined,
+            items: order.items
+              .map((item, index) => ({
+                pieceId: item.pieceId,
+                variantId: item.variantId,
+                quantity: returnQuantities[index] || 0,
+              }))
+              .filter((item) => item.quantity > 0),
+          }),
+        },
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        const detail = Object.values(data.details ?? {})[0]
+        throw new Error(
+          (Array.isArray(detail) && detail[0]) ||
+            data.error ||
+            'Failed to start return',
+        )
+      }
+
+      setReturnRequest({
+        rmaNumber: data.return.rmaNumber,
+        status: data.return.status,
+        reason: data.return.reason,
+        items: data.return.items,
+        createdAt: data.return.createdAt,
+      })
+      setShowReturnForm(false)
+    } catch (err) {
+      setReturnError(
+        err instanceof Error ? err.message : 'Failed to start return',
+      )
+    } finally {
+      setIsSubmittingReturn(false)
+    }
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -294,6 +402,32 @@ export function OrderViewClient({
                       <span>{order.trackingNumber}</span>
                     )}
                   </p>
+                  {order.trackingState === 'delayed' && (
+                    <p className="mt-2 text-sm text-amber-700">
+                      Your delivery is running late. It&apos;s still on its way.
+                    </p>
+                  )}
+                  {order.trackingEvents.length > 0 && (
+                    <ol className="mt-4 space-y-3 border-l border-gray-200 pl-4">
+                      {order.trackingEvents.map((event, index) => (
+                        <li
+                          key={`${event.occurredAt}-${index}`}
+                          className="relative"
+                        >
+                          <div
+                            className={`absolute -left-[21px] top-1.5 h-2 w-2 rounded-full ${index === 0 ? 'bg-blue-500' : 'bg-gray-300'}`}
+                          />
+                          <p className="text-sm text-gray-900">
+                            {event.description}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDateTime(event.occurredAt)}
+                            {event.location && ` - ${event.location}`}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
               )}
             </div>
@@ -416,6 +550,156 @@ export function OrderViewClient({
                 Have a question about your order? Send us a message.
               </p>
             </div>
+
+            {/* Returns */}
+            {(returnRequest || canReturn) && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5 text-gray-400" />
+                  Returns
+                </h2>
+                {returnRequest && (
+                  <div className="text-sm text-gray-600 space-y-1 mb-4">
+                    <p>
+                      <span className="font-medium text-gray-900">
+                        {returnRequest.rmaNumber}
+                      </span>{' '}
+                      - {getReturnStatusLabel(returnRequest.status)}
+                    </p>
+                    <p>
+                      {returnRequest.items
+                        .map((item) => `${item.quantity}x ${item.name}`)
+                        .join(', ')}
+                    </p>
+                    {returnRequest.status === 'approved' &&
+                      !returnRequest.labelUrl && (
+                        <p>
+                          Your return is approved. {seller.name} will send you a
+                          return label.
+                        </p>
+                      )}
+                    {returnRequest.labelUrl &&
+                      returnRequest.status === 'approved' && (
+                        <a
+                          href={returnRequest.labelUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-block text-blue-600 hover:underline"
+                        >
+                          Download return label
+                        </a>
+                      )}
+                    {returnRequest.trackingNumber && (
+                      <p>
+                        Tracking:{' '}
+                        {returnRequest.trackingUrl ? (
+                          <a
+                            href={returnRequest.trackingUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline"
+                          >
+                            {returnRequest.trackingNumber}
+                          </a>
+                        ) : (
+                          returnRequest.trackingNumber
+                        )}
+                      </p>
+                    )}
+                    {returnRequest.rejectionReason && (
+                      <p>{returnRequest.rejectionReason}</p>
+                    )}
+                  </div>
+                )}
+                {canReturn && !showReturnForm && (
+                  <button
+                    onClick={() => setShowReturnForm(true)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                  >
+                    Return items
+                  </button>
+                )}
+                {canReturn && showReturnForm && (
+                  <form onSubmit={handleReturnSubmit} className="space-y-3">
+                    {order.items.map((item, index) =>
+                      item.returnable > 0 ? (
+                        <label
+                          key={index}
+                          className="flex items-center justify-between gap-2 text-sm"
+                        >
+                          <span className="min-w-0 truncate">{item.name}</span>
+                          <select
+                            value={returnQuantities[index] || 0}
+                            onChange={(e) =>
+                              setReturnQuantities({
+                                ...returnQuantities,
+                                [index]: Number(e.target.value),
+                              })
+                            }
+                            className="rounded-lg border border-gray-300 px-2 py-1"
+                          >
+                            {Array.from(
+                              { length: item.returnable + 1 },
+                              (_, qty) => (
+                                <option key={qty} value={qty}>
+                                  {qty}
+                                </option>
+                              ),
+                            )}
+                          </select>
+                        </label>
+                      ) : null,
+                    )}
+                    <select
+                      value={returnReason}
+                      onChange={(e) =>
+                        setReturnReason(e.target.value as ReturnReason)
+                      }
+                      className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                    >
+                      {Object.entries(RETURN_REASON_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                    <textarea
+                      value={returnDetails}
+                      onChange={(e) => setReturnDetails(e.target.value)}
+                      placeholder="Anything the seller should know?"
+                      rows={3}
+                      className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                    />
+                    {returnError && (
+                      <p className="text-sm text-red-600">{returnError}</p>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        disabled={
+                          isSubmittingReturn ||
+                          !Object.values(returnQuantities).some(
+                            (qty) => qty > 0,
+                          )
+                        }
+                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        {isSubmittingReturn ? 'Sending...' : 'Request return'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowReturnForm(false)}
+                        className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -506,6 +790,23 @@ export function OrderViewClient({
   )
 }
 
+function getReturnStatusLabel(status: string) {
+  switch (status) {
+    case 'requested':
+      return 'Waiting for the seller to review'
+    case 'approved':
+      return 'Approved'
+    case 'rejected':
+      return 'Declined'
+    case 'received':
+      return 'Received by the seller'
+    case 'refunded':
+      return 'Refunded'
+    default:
+      return status
+  }
+}
+
 function StatusStep({
   label,
   date,
@@ -1,4 +1,4 @@
-import { messages, orders, tenants } from '@madebuy/db'
+import { messages, orders, returns, tenants } from '@madebuy/db'
 import type { Metadata } from 'next'
 import { notFound } from 'next/navigation'
 import { OrderViewClient } from './OrderViewClient'
@@ -76,6 +76,11 @@ export default async function OrderViewPage({ params }: OrderViewPageProps) {
     )
   }
 
+  // Latest return request, if the customer has started one
+  const [latestReturn] = await returns.listReturns(accessToken.tenantId, {
+    orderId: accessToken.orderId,
+  })
+
   // Prepare data for client
   const orderData = {
     id: order.id,
@@ -85,6 +90,11 @@ export default async function OrderViewPage({ params }: OrderViewPageProps) {
     customerName: order.customerName,
     customerEmail: order.customerEmail,
     items: order.items.map((item) => ({
+      pieceId: item.pieceId,
+      variantId: item.variantId,
+      returnable: item.isDigital
+        ? 0
+        : returns.getReturnableQuantity(order, item.pieceId, item.variantId),
       name: item.name,
       quantity: item.quantity,
       price: item.price,
@@ -105,8 +115,31 @@ export default async function OrderViewPage({ params }: OrderViewPageProps) {
     paidAt: order.paidAt?.toISOString(),
     shippedAt: order.shippedAt?.toISOString(),
     deliveredAt: order.deliveredAt?.toISOString(),
+    trackingState: order.tracking?.state,
+    trackingEvents: (order.tracking?.events ?? []).map((event) => ({
+      occurredAt: new Date(event.occurredAt).toISOString(),
+      description: event.description,
+      location: event.location,
+    })),
   }
 
+  const returnData = latestReturn
+    ? {
+        rmaNumber: latestReturn.rmaNumber,
+        status: latestReturn.status,
+        reason: latestReturn.reason,
+        items: latestReturn.items.map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+        })),
+        labelUrl: latestReturn.labelUrl,
+        trackingNumber: latestReturn.trackingNumber,
+        trackingUrl: latestReturn.trackingUrl,
+        rejectionReason: latestReturn.rejectionReason,
+        createdAt: latestReturn.createdAt.toISOString(),
+      }
+    : null
+
   const sellerData = {
     name: tenant.businessName || 'Seller',
     email: tenant.email,
@@ -118,6 +151,7 @@ export default async function OrderViewPage({ params }: OrderViewPageProps) {
       token={token}
       order={orderData}
       seller={sellerData}
+      initialReturn={returnData}
       initialMessages={thread.messages}
     />
   )
@@ -0,0 +1,186 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { useWishlist } from '@/contexts/WishlistContext'
+
+interface AccountAuthFormProps {
+  mode: 'login' | 'register'
+  tenantSlug: string
+  tenantId: string
+}
+
+/**
+ * Storefront sign in / create account form
+ * Guest wishlist items are merged into the account on success
+ */
+export function AccountAuthForm({
+  mode,
+  tenantSlug,
+  tenantId,
+}: AccountAuthFormProps) {
+  const router = useRouter()
+  const { refresh: refreshWishlist } = useWishlist()
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [verificationSent, setVerificationSent] = useState(false)
+
+  const isRegister = mode === 'register'
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(
+        isRegister ? '/api/account/register' : '/api/account/login',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            tenantId,
+            email,
+            password,
+            ...(isRegister && { name }),
+          }),
+        },
+      )
+      const data = await res.json()
+
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong')
+        return
+      }
+
+      // New accounts sign in from the emailed confirmation link
+      if (data.verificationRequired) {
+        setVerificationSent(true)
+        return
+      }
+
+      await refreshWishlist()
+      router.push(`/${tenantSlug}/account`)
+      router.refresh()
+    } catch {
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (verificationSent) {
+    return (
+      <div className="rounded-lg bg-green-50 p-4 text-sm text-green-800">
+        Check your inbox - we sent a link to <strong>{email}</strong>. Follow it
+        to confirm your email and sign in.
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {isRegister && (
+        <div>
+          <label
+            htmlFor="name"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Name
+          </label>
+          <input
+            id="name"
+            type="text"
+            required
+            autoComplete="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 px-4 py-2.5 focus:border-gray-900 focus:ring-gray-900"
+          />
+        </div>
+      )}
+
+      <div>
+        <label
+          htmlFor="email"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Email
+        </label>
+        <input
+          id="email"
+          type="email"
+          required
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full rounded-lg border border-gray-300 px-4 py-2.5 focus:border-gray-900 focus:ring-gray-900"
+        />
+      </div>
+
+      <div>
+        <label
+          htmlFor="password"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Password
+        </label>
+        <input
+          id="password"
+          type="password"
+          required
+          autoComplete={isRegister ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full rounded-lg border border-gray-300 px-4 py-2.5 focus:border-gray-900 focus:ring-gray-900"
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-full bg-gray-900 px-6 py-3 font-medium text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+      >
+        {submitting
+          ? 'Please wait...'
+          : isRegister
+            ? 'Create Account'
+            : 'Sign In'}
+      </button>
+
+      <p className="text-center text-sm text-gray-600">
+        {isRegister ? (
+          <>
+            Already have an account?{' '}
+            <Link
+              href={`/${tenantSlug}/account/login`}
+              className="font-medium text-gray-900 hover:underline"
+            >
+              Sign in
+            </Link>
+          </>
+        ) : (
+          <>
+            New here?{' '}
+            <Link
+              href={`/${tenantSlug}/account/register`}
+              className="font-medium text-gray-900 hover:underline"
+            >
+              Create an account
+            </Link>
+          </>
+        )}
+      </p>
+    </form>
+  )
+}
@@ -0,0 +1,106 @@
+import { ArrowLeft, Download, Heart, Mail, MapPin, Package } from 'lucide-react'
+import Link from 'next/link'
+import type { ReactNode } from 'react'
+import { SignOutButton } from './SignOutButton'
+
+type AccountSection = 'orders' | 'addresses' | 'downloads' | 'preferences'
+
+interface AccountLayoutProps {
+  tenantSlug: string
+  tenantId: string
+  customerName: string
+  active: AccountSection
+  children: ReactNode
+}
+
+/**
+ * Shared shell for signed-in account pages (header + section nav)
+ */
+export function AccountLayout({
+  tenantSlug,
+  tenantId,
+  customerName,
+  active,
+  children,
+}: AccountLayoutProps) {
+  const sections = [
+    {
+      id: 'orders',
+      label: 'Orders',
+      href: `/${tenantSlug}/account`,
+      icon: Package,
+    },
+    {
+      id: 'addresses',
+      label: 'Addresses',
+      href: `/${tenantSlug}/account/addresses`,
+      icon: MapPin,
+    },
+    {
+      id: 'downloads',
+      label: 'Downloads',
+      href: `/${tenantSlug}/account/downloads`,
+      icon: Download,
+    },
+    {
+      id: 'preferences',
+      label: 'Email Preferences',
+      href: `/${tenantSlug}/account/preferences`,
+      icon: Mail,
+    },
+  ]
+
+  return (
+    <div className="min-h-screen bg-white tenant-theme">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-gray-100 bg-white/80 backdrop-blur-lg">
+        <div className="mx-auto max-w-5xl px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <Link
+              href={`/${tenantSlug}`}
+              className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Continue Shopping
+            </Link>
+            <SignOutButton tenantSlug={tenantSlug} tenantId={tenantId} />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-2xl font-bold text-gray-900">My Account</h1>
+        <p className="mt-1 text-gray-600">Welcome back, {customerName}</p>
+
+        <div className="mt-8 grid gap-8 md:grid-cols-[200px_1fr]">
+          {/* Section Nav */}
+          <nav className="flex md:flex-col gap-1 overflow-x-auto">
+            {sections.map((section) => (
+              <Link
+                key={section.id}
+                href={section.href}
+                className={`flex items-center gap-2 whitespace-nowrap rounded-lg px-3 py-2 text-sm font-medium transition-colors ${
+                  active === section.id
+                    ? 'bg-gray-900 text-white'
+                    : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                }`}
+              >
+                <section.icon className="h-4 w-4" />
+                {section.label}
+              </Link>
+            ))}
+            <Link
+              href={`/${tenantSlug}/wishlist`}
+              className="flex items-center gap-2 whitespace-nowrap rounded-lg px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+            >
+              <Heart className="h-4 w-4" />
+              Wishlist
+            </Link>
+          </nav>
+
+          <section>{children}</section>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import type { CustomerAddress } from '@madebuy/shared'
+import { MapPin, Plus, Star, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+
+interface AddressBookProps {
+  tenantId: string
+  initialAddresses: CustomerAddress[]
+}
+
+const EMPTY_ADDRESS = {
+  label: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postcode: '',
+  country: 'AU',
+}
+
+export function AddressBook({ tenantId, initialAddresses }: AddressBookProps) {
+  const [addresses, setAddresses] = useState(initialAddresses)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_ADDRESS)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/account/addresses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tenantId,
+          address: {
+            ...form,
+            label: form.label || undefined,
+            line2: form.line2 || undefined,
+            country: form.country.toUpperCase(),
+          },
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to save address')
+        return
+      }
+
+      setAddresses(data.addresses)
+      setForm(EMPTY_ADDRESS)
+      setShowForm(false)
+    } catch {
+      setError('Failed to save address')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSetDefault(addressId: string) {
+    const res = await fetch(`/api/account/addresses/${addressId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tenantId, isDefault: true }),
+    })
+    if (res.ok) {
+      const data = await res.json()
+      setAddresses(data.addresses)
+    }
+  }
+
+  async function handleRemove(addressId: string) {
+    if (!confirm('Remove this address?')) return
+
+    const res = await fetch(
+      `/api/account/addresses/${addressId}?tenantId=${tenantId}`,
+      { method: 'DELETE' },
+    )
+    if (res.ok) {
+      const data = await res.json()
+      setAddresses(data.addresses)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {addresses.length === 0 && !showForm && (
+        <div className="rounded-2xl border border-gray-100 p-8 text-center">
+          <MapPin className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-gray-600">No saved addresses yet</p>
+        </div>
+      )}
+
+      {addresses.map((address) => (
+        <div
+          key={address.id}
+          className="flex items-start justify-between gap-4 rounded-2xl border border-gray-100 p-4"
+        >
+          <div className="text-sm text-gray-700">
+            <p className="font-medium text-gray-900">
+              {address.label || 'Address'}
+              {address.isDefault && (
+                <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                  Default
+                </span>
+              )}
+            </p>
+            <p>{address.line1}</p>
+            {address.line2 && <p>{address.line2}</p>}
+            <p>
+              {address.city} {address.state} {address.postcode}
+            </p>
+            <p>{address.country}</p>
+          </div>
+          <div className="flex gap-1">
+            {!address.isDefault && (
+              <button
+                type="button"
+                onClick={() => handleSetDefault(address.id)}
+                title="Make default"
+                className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-400 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              >
+                <Star className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleRemove(address.id)}
+              title="Remove"
+              className="flex h-9 w-9 items-center justify-center rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <form
+          onSubmit={handleAdd}
+          className="space-y-3 rounded-2xl border border-gray-100 p-4"
+        >
+          <input
+            type="text"
+            placeholder="Label (e.g. Home, Work)"
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            required
+            placeholder="Address line 1"
+            autoComplete="address-line1"
+            value={form.line1}
+            onChange={(e) => setForm({ ...form, line1: e.target.value })}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Address line 2 (optional)"
+            autoComplete="address-line2"
+            value={form.line2}
+            onChange={(e) => setForm({ ...form, line2: e.target.value })}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <input
+              type="text"
+              required
+              placeholder="City"
+              autoComplete="address-level2"
+              value={form.city}
+              onChange={(e) => setForm({ ...form, city: e.target.value })}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+            <input
+              type="text"
+              required
+              placeholder="State"
+              autoComplete="address-level1"
+              value={form.state}
+              onChange={(e) => setForm({ ...form, state: e.target.value })}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+            <input
+              type="text"
+              required
+              placeholder="Postcode"
+              autoComplete="postal-code"
+              value={form.postcode}
+              onChange={(e) => setForm({ ...form, postcode: e.target.value })}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+            <input
+              type="text"
+              required
+              maxLength={2}
+              placeholder="Country"
+              autoComplete="country"
+              value={form.country}
+              onChange={(e) => setForm({ ...form, country: e.target.value })}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm uppercase"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setError(null)
+              }}
+              className="rounded-lg px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Address'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Add Address
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+
+interface NewsletterPreferencesProps {
+  tenantId: string
+  businessName: string
+  initialSubscribed: boolean
+}
+
+export function NewsletterPreferences({
+  tenantId,
+  businessName,
+  initialSubscribed,
+}: NewsletterPreferencesProps) {
+  const [subscribed, setSubscribed] = useState(initialSubscribed)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleChange(next: boolean) {
+    setSubscribed(next)
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/account/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, emailSubscribed: next }),
+      })
+      if (!res.ok) {
+        setSubscribed(!next)
+        setError('Failed to update preferences')
+      }
+    } catch {
+      setSubscribed(!next)
+      setError('Failed to update preferences')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-100 p-6">
+      <label className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={subscribed}
+          disabled={saving}
+          onChange={(e) => handleChange(e.target.checked)}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+        />
+        <span>
+          <span className="block font-medium text-gray-900">Newsletter</span>
+          <span className="block text-sm text-gray-600">
+            New products, sales and news from {businessName}
+          </span>
+        </span>
+      </label>
+      <p className="mt-4 text-xs text-gray-500">
+        Order confirmations and shipping updates are always sent.
+      </p>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
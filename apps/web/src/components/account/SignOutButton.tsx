@@ -0,0 +1,46 @@
+'use client'
+
+import { LogOut } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { useWishlist } from '@/contexts/WishlistContext'
+
+interface SignOutButtonProps {
+  tenantSlug: string
+  tenantId: string
+}
+
+export function SignOutButton({ tenantSlug, tenantId }: SignOutButtonProps) {
+  const router = useRouter()
+  const { refresh: refreshWishlist } = useWishlist()
+  const [signingOut, setSigningOut] = useState(false)
+
+  async function handleSignOut() {
+    setSigningOut(true)
+    try {
+      await fetch('/api/account/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId }),
+      })
+      // Wishlist falls back to the guest session once signed out
+      await refreshWishlist()
+      router.push(`/${tenantSlug}`)
+      router.refresh()
+    } finally {
+      setSigningOut(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleSignOut}
+      disabled={signingOut}
+      className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors disabled:opacity-50"
+    >
+      <LogOut className="h-4 w-4" />
+      {signingOut ? 'Signing out...' : 'Sign Out'}
+    </button>
+  )
+}
@@ -1,8 +1,9 @@
 'use client'
 
-import type { BundleProductData } from '@madebuy/shared'
+import { type BundleProductData, formatLeadTime } from '@madebuy/shared'
 import {
   ArrowRight,
+  Clock,
   ImageIcon,
   Minus,
   Package,
@@ -237,6 +238,12 @@ export function CartContent({
                         )}{' '}
                         each
                       </p>
+                      {formatLeadTime(item.product.preorder) && (
+                        <div className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                          <Clock className="h-3 w-3" />
+                          <span>{formatLeadTime(item.product.preorder)}</span>
+                        </div>
+                      )}
                       {/* Show bundle savings */}
                       {isBundle &&
                         bundleData &&
@@ -298,6 +305,7 @@ export function CartContent({
                           className="flex h-9 w-9 items-center justify-center text-gray-500 hover:text-gray-900 hover:bg-gray-50 transition-colors rounded-r-lg disabled:opacity-50"
                           aria-label="Increase quantity"
                           disabled={
+                            !item.product.preorder?.enabled &&
                             item.product.stock !== undefined &&
                             item.quantity >= item.product.stock
                           }
@@ -1,5 +1,10 @@
 'use client'
 
+import {
+  convertAmount,
+  type ExchangeRateTable,
+  formatLeadTime,
+} from '@madebuy/shared'
 import { useRouter } from 'next/navigation'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useCart } from '@/contexts/CartContext'
@@ -38,9 +43,18 @@ async function updateCartWithEmail(tenantId: string, email: string) {
 interface CheckoutFormProps {
   tenant: string
   tenantId: string
+  currency?: string // Tenant settlement currency
+  displayCurrencies?: string[] // Currencies the buyer may view the total in
+  exchangeRates?: ExchangeRateTable
 }
 
-export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
+export function CheckoutForm({
+  tenant,
+  tenantId,
+  currency = 'AUD',
+  displayCurrencies = [],
+  exchangeRates,
+}: CheckoutFormProps) {
   const router = useRouter()
   const { items, totalAmount, clearCart } = useCart()
   const [loading, setLoading] = useState(false)
@@ -60,6 +74,18 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
   // Order notes
   const [notes, setNotes] = useState('')
 
+  // Buyer-facing display currency (payment is always taken in `currency`)
+  const [displayCurrency, setDisplayCurrency] = useState(currency)
+
+  // Gift card redemption (balance is in cents of the settlement currency)
+  const [giftCardInput, setGiftCardInput] = useState('')
+  const [giftCard, setGiftCard] = useState<{
+    code: string
+    balance: number
+  } | null>(null)
+  const [giftCardError, setGiftCardError] = useState<string | null>(null)
+  const [checkingGiftCard, setCheckingGiftCard] = useState(false)
+
   // Check if order needs physical shipping
   const needsShipping = useMemo(() => requiresShipping(items), [items])
   const isDigitalOnly = useMemo(() => isDigitalOnlyOrder(items), [items])
@@ -70,7 +96,19 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
     [totalAmount],
   )
   const shippingCents = selectedShipping?.price || 0
-  const totalCents = subtotalCents + (needsShipping ? shippingCents : 0)
+  const orderCents = subtotalCents + (needsShipping ? shippingCents : 0)
+  // Estimate only - the server decides how much of the card can be applied
+  const giftCardCents = giftCard ? Math.min(giftCard.balance, orderCents) : 0
+  const totalCents = orderCents - giftCardCents
+  const convertedTotal =
+    displayCurrency !== currency
+      ? convertAmount(
+          totalCents / 100,
+          currency,
+          displayCurrency,
+          exchangeRates,
+        )
+      : null
 
   // Form validation
   const canProceedToReview = useMemo(() => {
@@ -116,6 +154,33 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
     setError(null)
   }
 
+  const handleApplyGiftCard = async () => {
+    const code = giftCardInput.trim()
+    if (!code) return
+
+    setCheckingGiftCard(true)
+    setGiftCardError(null)
+    try {
+      const response = await fetch('/api/gift-cards/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId, code }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.valid) {
+        setGiftCard(null)
+        setGiftCardError(data.error || 'Invalid gift card code')
+        return
+      }
+      setGiftCard({ code: data.code, balance: data.balance })
+      setGiftCardInput('')
+    } catch {
+      setGiftCardError('Failed to check gift card')
+    } finally {
+      setCheckingGiftCard(false)
+    }
+  }
+
   const handleProceedToReview = () => {
     if (!canProceedToReview) {
       if (isDigitalOnly && !shippingAddress.email?.trim()) {
@@ -188,6 +253,9 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
               }
             : undefined,
           notes: notes || undefined,
+          displayCurrency:
+            displayCurrency !== currency ? displayCurrency : undefined,
+          giftCardCode: giftCard?.code,
           successUrl: `${window.location.origin}/${tenant}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: `${window.location.origin}/${tenant}/checkout/cancel`,
         }),
@@ -512,6 +580,56 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
                   />
                 </div>
 
+                {/* Gift Card */}
+                <div>
+                  <label
+                    htmlFor="gift-card"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Gift Card <span className="text-gray-400">(optional)</span>
+                  </label>
+                  {giftCard ? (
+                    <div className="mt-1 flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                      <span className="font-mono text-green-800">
+                        {giftCard.code}
+                      </span>
+                      <span className="text-green-700">
+                        {formatCurrency(giftCard.balance / 100, currency)}{' '}
+                        available
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setGiftCard(null)}
+                        className="font-medium text-blue-600 hover:text-blue-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="mt-1 flex gap-2">
+                      <input
+                        type="text"
+                        id="gift-card"
+                        value={giftCardInput}
+                        onChange={(e) => setGiftCardInput(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 font-mono uppercase shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+                        placeholder="XXXX-XXXX-XXXX-XXXX"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleApplyGiftCard}
+                        disabled={checkingGiftCard || !giftCardInput.trim()}
+                        className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {checkingGiftCard ? 'Checking...' : 'Apply'}
+                      </button>
+                    </div>
+                  )}
+                  {giftCardError && (
+                    <p className="mt-1 text-sm text-red-600">{giftCardError}</p>
+                  )}
+                </div>
+
                 {/* Error Display */}
                 {error && (
                   <div className="rounded-md bg-red-50 p-4">
@@ -618,6 +736,7 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
                   <>
                     <PayPalButton
                       tenantId={tenantId}
+                      currency={currency}
                       items={items.map((item) => ({
                         pieceId: item.product.id,
                         quantity: item.quantity,
@@ -648,6 +767,7 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
                           : undefined
                       }
                       notes={notes}
+                      giftCardCode={giftCard?.code}
                       onSuccess={handlePayPalSuccess}
                       onError={handlePayPalError}
                       disabled={loading}
@@ -699,6 +819,11 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
                           {item.product.name}
                         </p>
                         <p className="text-gray-600">Qty: {item.quantity}</p>
+                        {formatLeadTime(item.product.preorder) && (
+                          <p className="text-xs text-amber-700">
+                            {formatLeadTime(item.product.preorder)}
+                          </p>
+                        )}
                       </div>
                       <p className="font-medium text-gray-900">
                         {formatCurrency(
@@ -719,7 +844,7 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
           <div className="mt-4 space-y-2 border-t pt-4">
             <div className="flex justify-between text-gray-600">
               <span>Subtotal</span>
-              <span>{formatCurrency(totalAmount)}</span>
+              <span>{formatCurrency(totalAmount, currency)}</span>
             </div>
 
             {needsShipping && (
@@ -727,20 +852,58 @@ export function CheckoutForm({ tenant, tenantId }: CheckoutFormProps) {
                 <span>Shipping</span>
                 <span>
                   {selectedShipping
-                    ? formatShippingPrice(selectedShipping.price)
+                    ? formatShippingPrice(
+                        selectedShipping.price,
+                        selectedShipping.currency,
+                      )
                     : 'Select shipping'}
                 </span>
               </div>
             )}
 
+            {giftCard && giftCardCents > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>Gift card</span>
+                <span>-{formatCurrency(giftCardCents / 100, currency)}</span>
+              </div>
+            )}
+
             <div className="border-t pt-2">
               <div className="flex justify-between text-lg font-semibold text-gray-900">
                 <span>Total</span>
-                <span>{formatCurrency(totalCents / 100)}</span>
+                <span>{formatCurrency(totalCents / 100, currency)}</span>
               </div>
+              {convertedTotal !== null && (
+                <p className="mt-1 text-right text-sm text-gray-500">
+                  approx. {formatCurrency(convertedTotal, displayCurrency)}
+                </p>
+              )}
               <p className="mt-1 text-xs text-gray-500">
                 {needsShipping ? 'Including shipping' : 'No shipping required'}
               </p>
+              {displayCurrencies.length > 1 && (
+                <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+                  <label htmlFor="display-currency">Show total in</label>
+                  <select
+                    id="display-currency"
+                    value={displayCurrency}
+                    onChange={(e) => setDisplayCurrency(e.target.value)}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    {displayCurrencies.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {convertedTotal !== null && (
+                <p className="mt-1 text-xs text-gray-500">
+                  You will be charged in {currency}. Converted amounts are
+                  estimates only.
+                </p>
+              )}
             </div>
           </div>
 
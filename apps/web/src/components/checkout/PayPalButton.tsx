@@ -8,6 +8,7 @@ import { useState } from 'react'
 
 interface PayPalButtonProps {
   tenantId: string
+  currency?: string // Tenant settlement currency (must match the server-created order)
   items: Array<{
     pieceId: string
     quantity: number
@@ -32,6 +33,7 @@ interface PayPalButtonProps {
     country: string
   }
   notes?: string
+  giftCardCode?: string
   onSuccess: (orderId: string, orderNumber: string) => void
   onError: (error: string) => void
   disabled?: boolean
@@ -39,10 +41,12 @@ interface PayPalButtonProps {
 
 export function PayPalButton({
   tenantId,
+  currency = 'AUD',
   items,
   customerInfo,
   shippingAddress,
   notes,
+  giftCardCode,
   onSuccess,
   onError,
   disabled = false,
@@ -62,7 +66,7 @@ export function PayPalButton({
     <PayPalScriptProvider
       options={{
         clientId,
-        currency: 'AUD',
+        currency,
         intent: 'capture',
       }}
     >
@@ -85,6 +89,7 @@ export function PayPalButton({
                 customerInfo,
                 shippingAddress,
                 notes,
+                giftCardCode,
               }),
             })
 
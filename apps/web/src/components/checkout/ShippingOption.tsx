@@ -115,11 +115,21 @@ export function ShippingOption({
       {/* Content */}
       <div className="ml-4 flex flex-1 flex-col">
         <div className="flex items-center justify-between">
-          <span
-            id={`shipping-${quote.id}-label`}
-            className="text-sm font-medium text-gray-900"
-          >
-            {quote.service}
+          <span className="flex items-center gap-2">
+            <span
+              id={`shipping-${quote.id}-label`}
+              className="text-sm font-medium text-gray-900"
+            >
+              {quote.service}
+            </span>
+            {quote.highlights?.map((highlight) => (
+              <span
+                key={highlight}
+                className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700"
+              >
+                {highlight === 'cheapest' ? 'Cheapest' : 'Fastest'}
+              </span>
+            ))}
           </span>
           <span
             className={`text-sm font-semibold ${
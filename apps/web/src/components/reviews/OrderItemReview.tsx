@@ -0,0 +1,134 @@
+'use client'
+
+import { CheckCircle2, Loader2, Star } from 'lucide-react'
+import Image from 'next/image'
+import { useEffect, useState } from 'react'
+import { ReviewForm } from './ReviewForm'
+
+interface OrderItemReviewProps {
+  tenantId: string
+  token: string
+  pieceId: string
+  pieceName: string
+  imageUrl?: string
+}
+
+type ItemState =
+  | { status: 'verifying' }
+  | {
+      status: 'verified'
+      orderId: string
+      customerEmail: string
+      customerName: string
+    }
+  | { status: 'already_reviewed' }
+  | { status: 'unavailable'; message: string }
+  | { status: 'submitted' }
+
+/**
+ * OrderItemReview - One item on the review request page.
+ *
+ * The signed link token stands in for the email step of ProductReviewSubmit:
+ * the purchase is verified on load and the ReviewForm shown straight away.
+ */
+export function OrderItemReview({
+  tenantId,
+  token,
+  pieceId,
+  pieceName,
+  imageUrl,
+}: OrderItemReviewProps) {
+  const [state, setState] = useState<ItemState>({ status: 'verifying' })
+
+  useEffect(() => {
+    async function verify() {
+      try {
+        const response = await fetch('/api/reviews/verify-purchase', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tenantId, pieceId, token }),
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Verification failed')
+        }
+
+        if (data.alreadyReviewed) {
+          setState({ status: 'already_reviewed' })
+        } else if (data.canReview) {
+          setState({
+            status: 'verified',
+            orderId: data.orderId,
+            customerEmail: data.customerEmail,
+            customerName: data.customerName,
+          })
+        } else {
+          setState({
+            status: 'unavailable',
+            message: data.reason || 'This item can no longer be reviewed',
+          })
+        }
+      } catch (err) {
+        setState({
+          status: 'unavailable',
+          message: err instanceof Error ? err.message : 'Verification failed',
+        })
+      }
+    }
+    verify()
+  }, [tenantId, pieceId, token])
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex items-center gap-4">
+        {imageUrl && (
+          <Image
+            src={imageUrl}
+            alt={pieceName}
+            width={64}
+            height={64}
+            className="h-16 w-16 rounded-lg object-cover"
+          />
+        )}
+        <h2 className="text-lg font-semibold text-gray-900">{pieceName}</h2>
+      </div>
+
+      {state.status === 'verifying' && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Verifying your purchase...
+        </div>
+      )}
+
+      {state.status === 'verified' && (
+        <ReviewForm
+          pieceId={pieceId}
+          orderId={state.orderId}
+          pieceName={pieceName}
+          customerEmail={state.customerEmail}
+          customerName={state.customerName}
+          onSuccess={() => setState({ status: 'submitted' })}
+        />
+      )}
+
+      {state.status === 'submitted' && (
+        <div className="flex items-center gap-2 text-sm text-emerald-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Thank you! Your review is pending approval.
+        </div>
+      )}
+
+      {state.status === 'already_reviewed' && (
+        <div className="flex items-center gap-2 text-sm text-amber-600">
+          <Star className="h-4 w-4 fill-amber-500" />
+          You have already reviewed this item. Thank you!
+        </div>
+      )}
+
+      {state.status === 'unavailable' && (
+        <p className="text-sm text-gray-500">{state.message}</p>
+      )}
+    </div>
+  )
+}
@@ -119,6 +119,8 @@ export function ProductReviewSubmit({
           pieceId={pieceId}
           orderId={state.orderId}
           pieceName={pieceName}
+          customerEmail={email.trim()}
+          customerName={state.customerName}
           onSuccess={handleReviewSuccess}
           onCancel={handleReset}
         />
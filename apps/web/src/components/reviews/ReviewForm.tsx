@@ -7,6 +7,8 @@ interface ReviewFormProps {
   pieceId: string
   orderId: string
   pieceName?: string
+  customerEmail?: string // From purchase verification
+  customerName?: string
   onSuccess?: () => void
   onCancel?: () => void
 }
@@ -45,6 +47,8 @@ export function ReviewForm({
   pieceId,
   orderId,
   pieceName,
+  customerEmail,
+  customerName,
   onSuccess,
   onCancel,
 }: ReviewFormProps) {
@@ -207,6 +211,8 @@ export function ReviewForm({
         body: JSON.stringify({
           pieceId,
           orderId,
+          customerEmail,
+          customerName,
           rating,
           title: title.trim() || undefined,
           text: text.trim(),
@@ -1,3 +1,4 @@
+export { OrderItemReview } from './OrderItemReview'
 export { ProductReviewSubmit } from './ProductReviewSubmit'
 export { ReviewCard } from './ReviewCard'
 export { ReviewForm } from './ReviewForm'
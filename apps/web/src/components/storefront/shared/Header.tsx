@@ -8,6 +8,7 @@ import {
   Menu,
   Search,
   ShoppingBag,
+  User,
   X,
 } from 'lucide-react'
 import Image from 'next/image'
@@ -219,6 +220,19 @@ export function Header({
               )}
             </Link>
 
+            {/* Account */}
+            <Link
+              href={`/${tenantSlug}/account`}
+              className={`p-2 rounded-lg transition-colors ${
+                isTransparent
+                  ? 'text-white hover:bg-white/10'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              aria-label="Your account"
+            >
+              <User className="w-5 h-5" />
+            </Link>
+
             {/* Shopping Cart */}
             <Link
               href={`/${tenantSlug}/cart`}
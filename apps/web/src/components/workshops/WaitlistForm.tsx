@@ -0,0 +1,134 @@
+'use client'
+
+import type { WorkshopSlot } from '@madebuy/shared'
+import { CheckCircle } from 'lucide-react'
+import { useState } from 'react'
+
+interface WaitlistFormProps {
+  tenantSlug: string
+  workshopId: string
+  slots: WorkshopSlot[]
+  formatDateTime: (date: Date) => string
+}
+
+/**
+ * Join the waitlist for a full slot
+ * When a booking is cancelled the oldest entry that fits gets the seat.
+ */
+export function WaitlistForm({
+  tenantSlug,
+  workshopId,
+  slots,
+  formatDateTime,
+}: WaitlistFormProps) {
+  const [slotId, setSlotId] = useState(slots[0]?.id || '')
+  const [customerName, setCustomerName] = useState('')
+  const [customerEmail, setCustomerEmail] = useState('')
+  const [numberOfAttendees, setNumberOfAttendees] = useState(1)
+  const [submitting, setSubmitting] = useState(false)
+  const [joined, setJoined] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(
+        `/api/tenants/${tenantSlug}/workshops/${workshopId}/waitlist`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            slotId,
+            customerName,
+            customerEmail,
+            numberOfAttendees,
+          }),
+        },
+      )
+
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to join the waitlist')
+        return
+      }
+
+      setJoined(true)
+    } catch {
+      setError('Failed to join the waitlist')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (joined) {
+    return (
+      <div className="flex items-start gap-2 rounded-lg bg-green-50 p-4 text-sm text-green-800">
+        <CheckCircle className="h-5 w-5 flex-shrink-0" />
+        <p>
+          You&apos;re on the waitlist. We&apos;ll email you if a spot opens up.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900">Join the waitlist</h3>
+
+      <select
+        value={slotId}
+        onChange={(e) => setSlotId(e.target.value)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+      >
+        {slots.map((slot) => (
+          <option key={slot.id} value={slot.id}>
+            {formatDateTime(slot.startTime)}
+          </option>
+        ))}
+      </select>
+
+      <input
+        type="text"
+        required
+        placeholder="Your name"
+        value={customerName}
+        onChange={(e) => setCustomerName(e.target.value)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+      />
+      <input
+        type="email"
+        required
+        placeholder="Email"
+        value={customerEmail}
+        onChange={(e) => setCustomerEmail(e.target.value)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+      />
+      <label className="flex items-center justify-between text-sm text-gray-700">
+        People
+        <input
+          type="number"
+          min="1"
+          max="50"
+          value={numberOfAttendees}
+          onChange={(e) =>
+            setNumberOfAttendees(Math.max(1, parseInt(e.target.value) || 1))
+          }
+          className="w-20 rounded-lg border border-gray-300 px-3 py-1 text-sm"
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting || !slotId}
+        className="w-full rounded-lg border border-blue-600 px-4 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+      >
+        {submitting ? 'Joining...' : 'Join Waitlist'}
+      </button>
+    </form>
+  )
+}
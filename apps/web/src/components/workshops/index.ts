@@ -0,0 +1 @@
+export { WaitlistForm } from './WaitlistForm'
@@ -0,0 +1,121 @@
+/**
+ * Gift card utilities for checkout
+ * Shared by the Stripe and PayPal checkout flows
+ */
+
+import { giftCards } from '@madebuy/db'
+import type { GiftCard, Order, Piece } from '@madebuy/shared'
+import { createLogger, ValidationError } from '@madebuy/shared'
+
+const log = createLogger({ module: 'checkout-gift-cards' })
+
+export interface GiftCardRedemption {
+  code: string
+  amount: number // Minor units held against the card
+}
+
+/**
+ * Hold gift card balance for a checkout session
+ * Covers as much of maxAmount (minor units) as the card balance allows.
+ * Throws ValidationError if the card can't be redeemed - the caller is
+ * responsible for releasing its stock reservations.
+ */
+export async function holdGiftCardBalance(params: {
+  tenantId: string
+  code: string
+  currency: string
+  maxAmount: number
+  sessionId: string
+  expirationMinutes?: number
+}): Promise<GiftCardRedemption> {
+  const { tenantId, code, currency, maxAmount, sessionId } = params
+
+  const validation = await giftCards.validateGiftCard(tenantId, code, currency)
+  if (!validation.valid || !validation.giftCard) {
+    throw new ValidationError(validation.error || 'Invalid gift card code', {
+      giftCardCode: [validation.error || 'Invalid gift card code'],
+    })
+  }
+
+  const amount = Math.min(validation.giftCard.balance, maxAmount)
+  if (amount <= 0) {
+    throw new ValidationError('Gift card cannot be applied to this order', {
+      giftCardCode: ['Gift card cannot be applied to this order'],
+    })
+  }
+
+  const hold = await giftCards.holdBalance(
+    tenantId,
+    validation.giftCard.code,
+    amount,
+    sessionId,
+    params.expirationMinutes,
+  )
+  if (!hold) {
+    // Balance changed between validation and hold (concurrent checkout)
+    throw new ValidationError('Gift card balance is no longer available', {
+      giftCardCode: ['Gift card balance is no longer available'],
+    })
+  }
+
+  log.info(
+    { tenantId, giftCardId: hold.giftCardId, amount, sessionId },
+    'Gift card balance held for checkout',
+  )
+
+  return { code: hold.code, amount }
+}
+
+/**
+ * Issue gift cards for gift card pieces in a paid order
+ * Idempotent - returns the existing cards if the order already has them
+ *
+ * @param unitAmounts - Price paid per unit (minor units) keyed by pieceId
+ */
+export async function issuePurchasedGiftCards(
+  tenantId: string,
+  order: Order,
+  piecesMap: Map<string, Piece>,
+  unitAmounts: Map<string, number>,
+): Promise<GiftCard[]> {
+  const giftCardItems = order.items.filter(
+    (item) => piecesMap.get(item.pieceId)?.giftCard?.isGiftCard,
+  )
+  if (giftCardItems.length === 0) return []
+
+  const existing = await giftCards.getGiftCardsByOrder(tenantId, order.id)
+  if (existing.length > 0) return existing
+
+  const issued: GiftCard[] = []
+  for (const item of giftCardItems) {
+    const config = piecesMap.get(item.pieceId)?.giftCard
+    const amount = unitAmounts.get(item.pieceId) ?? 0
+    if (amount <= 0) continue
+
+    let expiresAt: Date | undefined
+    if (config?.expiryMonths) {
+      expiresAt = new Date()
+      expiresAt.setMonth(expiresAt.getMonth() + config.expiryMonths)
+    }
+
+    for (let i = 0; i < item.quantity; i++) {
+      issued.push(
+        await giftCards.issueGiftCard(tenantId, {
+          amount,
+          currency: order.currency,
+          source: 'purchase',
+          orderId: order.id,
+          purchaserEmail: order.customerEmail,
+          expiresAt,
+        }),
+      )
+    }
+  }
+
+  log.info(
+    { tenantId, orderId: order.id, count: issued.length },
+    'Gift cards issued for order',
+  )
+
+  return issued
+}
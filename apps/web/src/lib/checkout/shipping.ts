@@ -29,6 +29,7 @@ export interface ShippingQuote {
     max: number
   }
   features?: string[]
+  highlights?: Array<'cheapest' | 'fastest'> // Set when several carriers quote
 }
 
 export interface AddressValidationResult {
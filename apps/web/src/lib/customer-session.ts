@@ -0,0 +1,173 @@
+import crypto from 'node:crypto'
+import { customers, wishlist } from '@madebuy/db'
+import type { Customer, Tenant } from '@madebuy/shared'
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
+import type { NextResponse } from 'next/server'
+
+/**
+ * Customer Session (storefront accounts)
+ *
+ * Signed cookie holding the customer id, one cookie per tenant so a shopper
+ * can be signed in to several storefronts on the same host. Signed with
+ * HMAC-SHA256 using CUSTOMER_SESSION_SECRET - no server-side session store.
+ */
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30 // 30 days
+
+interface CustomerSessionPayload {
+  customerId: string
+  tenantId: string
+  exp: number // Unix seconds
+}
+
+function getSessionCookieName(tenantId: string): string {
+  return `customer_session_${tenantId}`
+}
+
+function getSessionSecret(): string | undefined {
+  return process.env.CUSTOMER_SESSION_SECRET
+}
+
+function sign(value: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+function createSessionToken(tenantId: string, customerId: string): string {
+  const secret = getSessionSecret()
+  if (!secret) {
+    throw new Error('CUSTOMER_SESSION_SECRET environment variable is not set')
+  }
+
+  const payload: CustomerSessionPayload = {
+    customerId,
+    tenantId,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(encoded, secret)}`
+}
+
+function verifySessionToken(
+  token: string,
+  tenantId: string,
+): CustomerSessionPayload | null {
+  const secret = getSessionSecret()
+  if (!secret) return null
+
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) return null
+
+  // Timing-safe comparison
+  const expected = sign(encoded, secret)
+  try {
+    if (
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return null
+    }
+  } catch {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as CustomerSessionPayload
+    if (payload.tenantId !== tenantId) return null
+    if (payload.exp < Math.floor(Date.now() / 1000)) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Set the session cookie after login/registration
+ */
+export function setCustomerSessionCookie(
+  response: NextResponse,
+  tenantId: string,
+  customerId: string,
+): void {
+  response.cookies.set(
+    getSessionCookieName(tenantId),
+    createSessionToken(tenantId, customerId),
+    {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    },
+  )
+}
+
+export function clearCustomerSessionCookie(
+  response: NextResponse,
+  tenantId: string,
+): void {
+  response.cookies.set(getSessionCookieName(tenantId), '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  })
+}
+
+/**
+ * Get the signed-in customer for a tenant, or null for guests
+ * Returns null if the account was deleted, has no password (guest record)
+ * or its email hasn't been verified - account pages expose past orders,
+ * addresses and downloads, so the email has to be proven first
+ */
+export async function getSignedInCustomer(
+  tenantId: string,
+): Promise<Customer | null> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(getSessionCookieName(tenantId))?.value
+  if (!token) return null
+
+  const session = verifySessionToken(token, tenantId)
+  if (!session) return null
+
+  const customer = await customers.getCustomerById(tenantId, session.customerId)
+  if (!customer || !customer.passwordHash || !customer.emailVerified) {
+    return null
+  }
+
+  return customer
+}
+
+/**
+ * Require a signed-in customer on an account page
+ * Redirects to the storefront login page when signed out
+ */
+export async function requireCustomer(
+  tenant: Tenant,
+  tenantSlug: string,
+): Promise<Customer> {
+  const customer = await getSignedInCustomer(tenant.id)
+
+  if (!customer) {
+    redirect(`/${tenantSlug}/account/login`)
+  }
+
+  return customer
+}
+
+/**
+ * Move the guest wishlist (cookie session) onto the customer's account
+ * Called on login/registration so items saved while browsing aren't lost
+ */
+export async function syncGuestWishlist(
+  tenantId: string,
+  customerEmail: string,
+): Promise<void> {
+  const cookieStore = await cookies()
+  const sessionId = cookieStore.get('wishlist_session')?.value
+  if (!sessionId) return
+
+  await wishlist.mergeWishlist(tenantId, sessionId, customerEmail)
+}
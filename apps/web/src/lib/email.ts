@@ -1,8 +1,10 @@
 import type { LowStockPiece } from '@madebuy/db'
 import type {
+  Customer,
   DigitalFile,
   DisputeReason,
   DownloadRecord,
+  GiftCard,
   Order,
   Tenant,
 } from '@madebuy/shared'
@@ -10,6 +12,8 @@ import {
   buildDownloadEmailHtml,
   buildDownloadEmailText,
   type DownloadEmailData,
+  formatMoney,
+  fromMinorUnits,
   getDownloadPageUrl,
   getFileDownloadUrl,
 } from '@madebuy/shared'
@@ -264,6 +268,156 @@ export async function sendDownloadEmail(params: SendDownloadEmailParams) {
   }
 }
 
+/**
+ * Send purchased gift card codes to the customer
+ */
+export interface SendGiftCardEmailParams {
+  order: Order
+  tenant: Tenant
+  giftCards: GiftCard[]
+}
+
+export async function sendGiftCardEmail(params: SendGiftCardEmailParams) {
+  const { order, tenant, giftCards } = params
+
+  const fromEmail =
+    tenant.email || process.env.DEFAULT_FROM_EMAIL || 'orders@madebuy.com.au'
+  const shopUrl =
+    process.env.NEXT_PUBLIC_BASE_URL || `https://${tenant.slug}.madebuy.com.au`
+
+  const cardRows = giftCards
+    .map((card) => {
+      const value = formatMoney(
+        fromMinorUnits(card.initialBalance, card.currency),
+        card.currency,
+      )
+      const expiry = card.expiresAt
+        ? `<br><span style="color: #6b7280; font-size: 13px;">Expires ${new Date(card.expiresAt).toLocaleDateString('en-AU')}</span>`
+        : ''
+      return `
+      <div style="background-color: white; padding: 16px; border-radius: 5px; margin: 12px 0; border: 1px dashed #d1d5db;">
+        <p style="margin: 0; font-size: 20px; font-family: monospace; letter-spacing: 2px;"><strong>${escapeHtml(card.code)}</strong></p>
+        <p style="margin: 6px 0 0 0;">Value: <strong>${value}</strong>${expiry}</p>
+      </div>`
+    })
+    .join('')
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Gift Card</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+    <h1 style="color: #374151; margin-top: 0;">Your Gift Card${giftCards.length === 1 ? '' : 's'}</h1>
+
+    <p>Hi ${escapeHtml(order.customerName) || 'there'},</p>
+
+    <p>Thanks for your order <strong>#${escapeHtml(order.orderNumber)}</strong>. Here ${giftCards.length === 1 ? 'is your gift card code' : 'are your gift card codes'} for ${escapeHtml(tenant.businessName)}:</p>
+
+    ${cardRows}
+
+    <p>Enter the code at checkout on <a href="${shopUrl}" style="color: #2563eb;">${escapeHtml(tenant.businessName)}</a>. Any unused balance stays on the card for next time.</p>
+  </div>
+</body>
+</html>
+  `
+
+  const client = getResendClient()
+
+  if (!client) {
+    console.warn('Resend API key not configured, skipping gift card email')
+    return null
+  }
+
+  try {
+    const result = await client.emails.send({
+      from: `${tenant.businessName} <${fromEmail}>`,
+      to: order.customerEmail,
+      subject: `Your gift card from ${tenant.businessName}`,
+      html: emailHtml,
+    })
+
+    console.log('Gift card email sent:', result)
+    return result
+  } catch (error) {
+    console.error('Failed to send gift card email:', error)
+    throw error
+  }
+}
+
+/**
+ * Send the link that confirms a storefront account email address
+ */
+export interface SendCustomerVerificationEmailParams {
+  tenant: Tenant
+  customer: Customer
+  verificationToken: string
+}
+
+export async function sendCustomerVerificationEmail(
+  params: SendCustomerVerificationEmailParams,
+) {
+  const { tenant, customer, verificationToken } = params
+
+  const fromEmail =
+    tenant.email || process.env.DEFAULT_FROM_EMAIL || 'orders@madebuy.com.au'
+  const baseUrl =
+    process.env.NEXT_PUBLIC_BASE_URL || `https://${tenant.slug}.madebuy.com.au`
+  const verifyUrl = `${baseUrl}/api/account/verify?tenantId=${encodeURIComponent(tenant.id)}&token=${encodeURIComponent(verificationToken)}`
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Confirm your email</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+    <h1 style="color: #374151; margin-top: 0;">Confirm your email</h1>
+
+    <p>Hi ${escapeHtml(customer.name) || 'there'},</p>
+
+    <p>Confirm this email address to finish setting up your ${escapeHtml(tenant.businessName)} account. Your orders, addresses and downloads appear once it's confirmed.</p>
+
+    <p style="margin: 24px 0;">
+      <a href="${verifyUrl}" style="background-color: #111827; color: white; padding: 12px 24px; border-radius: 9999px; text-decoration: none; display: inline-block;">Confirm email</a>
+    </p>
+
+    <p style="color: #6b7280; font-size: 13px;">If you didn't create an account, you can ignore this email. The link expires in 24 hours.</p>
+  </div>
+</body>
+</html>
+  `
+
+  const client = getResendClient()
+
+  if (!client) {
+    console.warn('Resend API key not configured, skipping verification email')
+    return null
+  }
+
+  try {
+    const result = await client.emails.send({
+      from: `${tenant.businessName} <${fromEmail}>`,
+      to: customer.email,
+      subject: `Confirm your email for ${tenant.businessName}`,
+      html: emailHtml,
+    })
+
+    console.log('Verification email sent:', result)
+    return result
+  } catch (error) {
+    console.error('Failed to send verification email:', error)
+    throw error
+  }
+}
+
 /**
  * Send payment failed notification email to tenant
  */
@@ -0,0 +1,9 @@
+import { webhooks } from '@madebuy/db'
+import { createWebhookDispatcher } from '@madebuy/shared'
+
+/**
+ * Outbound webhooks, logged to the webhook deliveries collection
+ * See createWebhookDispatcher in @madebuy/shared for the delivery logic.
+ */
+export const { dispatchWebhookEvent, replayWebhookDelivery } =
+  createWebhookDispatcher(webhooks)
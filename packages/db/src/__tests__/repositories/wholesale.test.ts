@@ -0,0 +1,70 @@
+/**
+ * Tests for wholesale repository
+ * Covers trade pricing on wholesale orders
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import * as wholesale from '../../repositories/wholesale'
+import { getMockCollectionData, seedMockCollection } from '../setup'
+
+describe('Wholesale Repository', () => {
+  const tenantId = 'tenant-123'
+
+  const buyer = {
+    id: 'buyer-1',
+    tenantId,
+    businessName: 'Corner Store',
+    email: 'orders@corner.store',
+    discountPercent: 50,
+    paymentTermsDays: 30,
+    prices: [{ pieceId: 'piece-2', price: 1250 }],
+    billingAddress: {
+      line1: '1 High St',
+      city: 'Hobart',
+      state: 'TAS',
+      postcode: '7000',
+      country: 'AU',
+    },
+  }
+
+  beforeEach(() => {
+    seedMockCollection('wholesale_buyers', [buyer])
+    seedMockCollection('pieces', [
+      {
+        id: 'piece-1',
+        tenantId,
+        name: 'Stoneware mug',
+        price: 45, // Dollars, like every piece price
+        currency: 'AUD',
+        category: 'Ceramics',
+      },
+      {
+        id: 'piece-2',
+        tenantId,
+        name: 'Serving bowl',
+        price: 60,
+        currency: 'AUD',
+        category: 'Ceramics',
+      },
+    ])
+  })
+
+  describe('createWholesaleOrder', () => {
+    it('prices pieces from dollars and stores the order in dollars', async () => {
+      const order = await wholesale.createWholesaleOrder(tenantId, {
+        buyerId: 'buyer-1',
+        items: [
+          { pieceId: 'piece-1', quantity: 2 },
+          { pieceId: 'piece-2', quantity: 1 },
+        ],
+        shipping: 1500, // cents
+      })
+
+      expect(order.items.map((item) => item.price)).toEqual([22.5, 12.5])
+      expect(order.subtotal).toBe(57.5)
+      expect(order.shipping).toBe(15)
+      expect(order.total).toBe(72.5)
+      expect(getMockCollectionData('orders')[0].total).toBe(72.5)
+    })
+  })
+})
@@ -24,22 +24,29 @@ export { ensureIndexes } from './indexes'
 export * as abandonedCarts from './repositories/abandonedCarts'
 export * as admins from './repositories/admins'
 export * as analytics from './repositories/analytics'
+export * as apiKeys from './repositories/apiKeys'
 export * as auditLog from './repositories/auditLog'
+export * as barcodes from './repositories/barcodes'
 export * as blog from './repositories/blog'
 export * as bulk from './repositories/bulk'
 export * as bundles from './repositories/bundles'
 export * as captionStyles from './repositories/captionStyles'
 export * as collections from './repositories/collections'
+export * as consignments from './repositories/consignments'
 export * as customers from './repositories/customers'
 export * as discounts from './repositories/discounts'
 export * as disputes from './repositories/disputes'
 export * as domains from './repositories/domains'
 export * as downloads from './repositories/downloads'
 export * as enquiries from './repositories/enquiries'
+export * as expenses from './repositories/expenses'
+export * as giftCards from './repositories/giftCards'
 export * as imports from './repositories/imports'
 export * as invoices from './repositories/invoices'
 export * as keyDates from './repositories/keyDates'
+export * as locations from './repositories/locations'
 export * as marketplace from './repositories/marketplace'
+export * as materialLots from './repositories/materialLots'
 export * as materials from './repositories/materials'
 export * as media from './repositories/media'
 export * as messages from './repositories/messages'
@@ -54,14 +61,21 @@ export * as platformAnalytics from './repositories/platformAnalytics'
 export * as previews from './repositories/previews'
 export * as productionRuns from './repositories/productionRuns'
 export * as publish from './repositories/publish'
+export * as purchaseOrders from './repositories/purchaseOrders'
 export * as reconciliations from './repositories/reconciliations'
+export * as refunds from './repositories/refunds'
+export * as returns from './repositories/returns'
 export * as reviews from './repositories/reviews'
+export * as suppliers from './repositories/suppliers'
 export * as systemHealth from './repositories/systemHealth'
+export * as teamMembers from './repositories/teamMembers'
 // Export active repositories
 export * as tenants from './repositories/tenants'
 export * as tracking from './repositories/tracking'
 export * as transactions from './repositories/transactions'
 export * as variants from './repositories/variants'
+export * as webhooks from './repositories/webhooks'
+export * as wholesale from './repositories/wholesale'
 export * as wishlist from './repositories/wishlist'
 export * as workshops from './repositories/workshops'
 
@@ -44,6 +44,13 @@ export async function ensureIndexes(db: Db): Promise<void> {
       name: 'pieces_text_search',
     },
   )
+  // Barcode / SKU lookups from scanners
+  await db
+    .collection('pieces')
+    .createIndex({ tenantId: 1, barcode: 1 }, { sparse: true })
+  await db
+    .collection('pieces')
+    .createIndex({ tenantId: 1, sku: 1 }, { sparse: true })
 
   // Media
   await db.collection('media').createIndex({ tenantId: 1 })
@@ -57,6 +64,96 @@ export async function ensureIndexes(db: Db): Promise<void> {
   await db.collection('materials').createIndex({ tenantId: 1 })
   await db.collection('materials').createIndex({ tenantId: 1, category: 1 })
   await db.collection('materials').createIndex({ tenantId: 1, isLowStock: 1 })
+  await db
+    .collection('materials')
+    .createIndex({ tenantId: 1, barcode: 1 }, { sparse: true })
+
+  // Suppliers & purchase orders
+  await db
+    .collection('suppliers')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('purchase_orders')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('purchase_orders')
+    .createIndex({ tenantId: 1, status: 1, createdAt: -1 })
+
+  // Material Lots (FIFO - oldest lot with stock first)
+  await db
+    .collection('material_lots')
+    .createIndex({ tenantId: 1, materialId: 1, receivedAt: 1 })
+
+  // Inventory locations, per-location stock and transfers
+  await db
+    .collection('inventory_locations')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('location_stock')
+    .createIndex(
+      { tenantId: 1, itemType: 1, itemId: 1, locationId: 1 },
+      { unique: true },
+    )
+  await db
+    .collection('location_stock')
+    .createIndex({ tenantId: 1, locationId: 1 })
+  await db
+    .collection('stock_transfers')
+    .createIndex({ tenantId: 1, createdAt: -1 })
+
+  // Consignment - consignees, placements, reported sales and settlements
+  await db
+    .collection('consignees')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('consignment_placements')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('consignment_placements')
+    .createIndex({ tenantId: 1, consigneeId: 1, status: 1 })
+  await db
+    .collection('consignment_sales')
+    .createIndex({ tenantId: 1, consigneeId: 1, settlementId: 1 })
+  await db
+    .collection('consignment_settlements')
+    .createIndex({ tenantId: 1, consigneeId: 1, settledAt: -1 })
+
+  // Wholesale buyers (their orders live in orders, linked by wholesale.buyerId)
+  await db
+    .collection('wholesale_buyers')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('orders')
+    .createIndex(
+      { tenantId: 1, 'wholesale.buyerId': 1, createdAt: -1 },
+      { sparse: true },
+    )
+
+  // Expenses ledger
+  await db
+    .collection('expenses')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db.collection('expenses').createIndex({ tenantId: 1, date: -1 })
+  await db
+    .collection('expenses')
+    .createIndex(
+      { tenantId: 1, invoiceId: 1 },
+      {
+        unique: true,
+        partialFilterExpression: { invoiceId: { $exists: true } },
+      },
+    )
+
+  // Return requests (RMAs)
+  await db
+    .collection('return_requests')
+    .createIndex({ tenantId: 1, id: 1 }, { unique: true })
+  await db
+    .collection('return_requests')
+    .createIndex({ tenantId: 1, orderId: 1, status: 1 })
+  await db
+    .collection('return_requests')
+    .createIndex({ tenantId: 1, status: 1, createdAt: -1 })
 
   // Material Usages
   await db.collection('material_usages').createIndex({ tenantId: 1 })
@@ -127,6 +224,13 @@ export async function ensureIndexes(db: Db): Promise<void> {
     .collection('payouts')
     .createIndex({ stripePayoutId: 1 }, { unique: true })
   await db.collection('payouts').createIndex({ tenantId: 1, arrivalDate: -1 })
+  // Transactions paid out in a payout (reconciliation)
+  await db
+    .collection('transactions')
+    .createIndex(
+      { tenantId: 1, stripePayoutId: 1 },
+      { partialFilterExpression: { stripePayoutId: { $exists: true } } },
+    )
 
   // Download Records (digital products)
   await db.collection('download_records').createIndex({ tenantId: 1 })
@@ -217,6 +321,9 @@ export async function ensureIndexes(db: Db): Promise<void> {
       { tenantId: 1, isDeleted: 1, stock: 1 },
       { name: 'low_stock_lookup' },
     )
+  await db
+    .collection('variant_combinations')
+    .createIndex({ tenantId: 1, barcode: 1 }, { sparse: true })
 
   // Discount Codes
   await db
@@ -229,6 +336,53 @@ export async function ensureIndexes(db: Db): Promise<void> {
     .collection('discount_codes')
     .createIndex({ tenantId: 1, expiresAt: 1 })
 
+  // Gift Cards
+  await db
+    .collection('gift_cards')
+    .createIndex({ tenantId: 1, code: 1 }, { unique: true })
+  await db
+    .collection('gift_cards')
+    .createIndex({ tenantId: 1, status: 1, createdAt: -1 })
+  await db.collection('gift_cards').createIndex({ tenantId: 1, orderId: 1 })
+
+  // Gift Card Holds (checkout flow - holds balance during payment)
+  await db
+    .collection('gift_card_holds')
+    .createIndex({ id: 1 }, { unique: true })
+  await db
+    .collection('gift_card_holds')
+    .createIndex({ sessionId: 1, status: 1 })
+  await db
+    .collection('gift_card_holds')
+    .createIndex({ status: 1, expiresAt: 1 })
+
+  // API Keys (public REST API - looked up by hash on every request)
+  await db.collection('api_keys').createIndex({ keyHash: 1 }, { unique: true })
+  await db.collection('api_keys').createIndex({ tenantId: 1, createdAt: -1 })
+
+  // Webhooks (endpoints are matched by subscribed event on dispatch)
+  await db.collection('webhook_endpoints').createIndex({ tenantId: 1, id: 1 })
+  await db
+    .collection('webhook_endpoints')
+    .createIndex({ tenantId: 1, isActive: 1, events: 1 })
+  await db.collection('webhook_deliveries').createIndex({ tenantId: 1, id: 1 })
+  await db
+    .collection('webhook_deliveries')
+    .createIndex({ tenantId: 1, endpointId: 1, createdAt: -1 })
+  // TTL index - delivery log is kept for 30 days
+  await db
+    .collection('webhook_deliveries')
+    .createIndex({ createdAt: 1 }, { expireAfterSeconds: 86400 * 30 })
+
+  // Team Members (staff logins - email is unique across tenants)
+  await db
+    .collection('team_members')
+    .createIndex({ email: 1 }, { unique: true })
+  await db.collection('team_members').createIndex({ tenantId: 1, id: 1 })
+  await db
+    .collection('team_members')
+    .createIndex({ inviteToken: 1 }, { unique: true, sparse: true })
+
   // Newsletters
   await db.collection('newsletters').createIndex({ tenantId: 1, status: 1 })
   await db.collection('newsletters').createIndex({ tenantId: 1, createdAt: -1 })
@@ -252,6 +406,16 @@ export async function ensureIndexes(db: Db): Promise<void> {
   await db.collection('key_dates').createIndex({ tenantId: 1, date: 1 })
   await db.collection('key_dates').createIndex({ tenantId: 1, repeat: 1 })
 
+  // Workshop Bookings (reminder cron looks up confirmed bookings per slot)
+  await db
+    .collection('workshop_bookings')
+    .createIndex({ tenantId: 1, slotId: 1, status: 1 })
+
+  // Workshop Waitlist (queue order per slot)
+  await db
+    .collection('workshop_waitlist')
+    .createIndex({ tenantId: 1, slotId: 1, status: 1, createdAt: 1 })
+
   // Customers (extended indexes for auth)
   await db
     .collection('customers')
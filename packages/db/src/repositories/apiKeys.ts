@@ -0,0 +1,117 @@
+/**
+ * API Keys Repository
+ * Per-tenant keys for the public REST API
+ *
+ * Secrets are high-entropy random tokens, so a SHA-256 hash is enough for
+ * storage and allows direct lookup by hash on every request (no bcrypt scan)
+ */
+
+import { createHash, randomBytes } from 'node:crypto'
+import type { ApiKey, CreateApiKeyInput, PublicApiKey } from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+const COLLECTION = 'api_keys'
+const KEY_PREFIX = 'mb_live_'
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+/**
+ * Generate a new secret
+ * 32 bytes = 256 bits of entropy, base64url encoded
+ */
+function generateSecret(): string {
+  return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+}
+
+/**
+ * Strip the hash before returning a key from an API route
+ */
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const publicKey: Partial<ApiKey> = { ...apiKey }
+  delete publicKey.keyHash
+  return publicKey as PublicApiKey
+}
+
+/**
+ * Create an API key
+ * Returns the plaintext secret - it cannot be retrieved again
+ */
+export async function createApiKey(
+  tenantId: string,
+  input: CreateApiKeyInput,
+): Promise<{ apiKey: ApiKey; secret: string }> {
+  const db = await getDatabase()
+  const secret = generateSecret()
+  const now = new Date()
+
+  const apiKey: ApiKey = {
+    id: nanoid(),
+    tenantId,
+    name: input.name,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashSecret(secret),
+    scopes: input.scopes,
+    createdBy: input.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection(COLLECTION).insertOne({ ...apiKey })
+  return { apiKey, secret }
+}
+
+/**
+ * Resolve an active (non-revoked) key from its plaintext secret
+ */
+export async function getApiKeyBySecret(
+  secret: string,
+): Promise<ApiKey | null> {
+  if (!secret.startsWith(KEY_PREFIX)) return null
+
+  const db = await getDatabase()
+  return (await db.collection(COLLECTION).findOne({
+    keyHash: hashSecret(secret),
+    revokedAt: { $exists: false },
+  })) as unknown as ApiKey | null
+}
+
+export async function listApiKeys(tenantId: string): Promise<ApiKey[]> {
+  const db = await getDatabase()
+  return (await db
+    .collection(COLLECTION)
+    .find({ tenantId })
+    .sort({ createdAt: -1 })
+    .toArray()) as unknown as ApiKey[]
+}
+
+/**
+ * Revoke a key - requests using it fail immediately
+ */
+export async function revokeApiKey(
+  tenantId: string,
+  id: string,
+): Promise<boolean> {
+  const db = await getDatabase()
+  const now = new Date()
+  const result = await db
+    .collection(COLLECTION)
+    .updateOne(
+      { tenantId, id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now, updatedAt: now } },
+    )
+  return result.modifiedCount === 1
+}
+
+/**
+ * Record that a key was used
+ */
+export async function touchApiKey(id: string): Promise<void> {
+  const db = await getDatabase()
+  await db
+    .collection(COLLECTION)
+    .updateOne({ id }, { $set: { lastUsedAt: new Date() } })
+}
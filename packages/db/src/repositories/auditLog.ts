@@ -40,6 +40,24 @@ export type AuditEventType =
   | 'admin.tenant.view'
   | 'admin.tenant.suspend'
   | 'admin.tenant.unsuspend'
+  // Team events
+  | 'team.invite'
+  | 'team.invite.accept'
+  | 'team.role.change'
+  | 'team.remove'
+  | 'staff.action'
+  // API key events
+  | 'api.key.create'
+  | 'api.key.revoke'
+
+/** 'tenant' is the shop owner, 'staff' an invited team member */
+export type AuditActorType =
+  | 'tenant'
+  | 'staff'
+  | 'customer'
+  | 'system'
+  | 'anonymous'
+  | 'admin'
 
 export interface AuditLogEntry {
   id: string
@@ -47,7 +65,7 @@ export interface AuditLogEntry {
   eventType: AuditEventType
   actorId?: string // User/customer ID who performed the action
   actorEmail?: string
-  actorType: 'tenant' | 'customer' | 'system' | 'anonymous' | 'admin'
+  actorType: AuditActorType
   ip?: string
   userAgent?: string
   metadata?: Record<string, unknown>
@@ -61,7 +79,7 @@ export interface CreateAuditLogInput {
   eventType: AuditEventType
   actorId?: string
   actorEmail?: string
-  actorType: 'tenant' | 'customer' | 'system' | 'anonymous' | 'admin'
+  actorType: AuditActorType
   ip?: string
   userAgent?: string
   metadata?: Record<string, unknown>
@@ -0,0 +1,230 @@
+/**
+ * Barcodes Repository
+ * Resolves scanned codes to pieces, variants and materials, and prepares
+ * label sheets - items with no barcode or SKU are given an in-store EAN-13
+ * the first time their labels are printed.
+ */
+
+import type {
+  BarcodeLabel,
+  EnhancedProductVariant,
+  LabelRequestItem,
+  Material,
+  Piece,
+  ScannedItem,
+} from '@madebuy/shared'
+import {
+  createInternalEan13,
+  getBarcodeFormat,
+  NotFoundError,
+  ValidationError,
+} from '@madebuy/shared'
+import { customAlphabet } from 'nanoid'
+import { getDatabase } from '../client'
+import * as materials from './materials'
+import * as pieces from './pieces'
+import * as variants from './variants'
+
+export const MAX_LABELS_PER_SHEET_REQUEST = 500
+
+const randomDigits = customAlphabet('0123456789', 11)
+
+function describeAttributes(attributes: Record<string, string>): string {
+  return Object.values(attributes).join(' / ')
+}
+
+async function findVariantByBarcode(
+  tenantId: string,
+  barcode: string,
+): Promise<EnhancedProductVariant | null> {
+  const db = await getDatabase()
+  return (await db.collection('variant_combinations').findOne({
+    tenantId,
+    barcode,
+    isDeleted: { $ne: true },
+  })) as EnhancedProductVariant | null
+}
+
+async function getVariantById(
+  tenantId: string,
+  variantId: string,
+): Promise<EnhancedProductVariant | null> {
+  const db = await getDatabase()
+  return (await db.collection('variant_combinations').findOne({
+    tenantId,
+    id: variantId,
+    isDeleted: { $ne: true },
+  })) as EnhancedProductVariant | null
+}
+
+/**
+ * Find the item a scanned barcode or typed SKU belongs to
+ * Variants are checked first (SKU via getVariantBySku, then barcode) as they
+ * identify the exact option, then pieces (barcode or SKU), then materials.
+ */
+export async function findByCode(
+  tenantId: string,
+  code: string,
+): Promise<ScannedItem | null> {
+  const value = code.trim()
+  if (!value) return null
+
+  const variant =
+    (await variants.getVariantBySku(tenantId, value)) ??
+    (await findVariantByBarcode(tenantId, value))
+  if (variant) {
+    const piece = await pieces.getPiece(tenantId, variant.pieceId)
+    if (piece) {
+      return {
+        itemType: 'variant',
+        itemId: variant.id,
+        pieceId: piece.id,
+        name: piece.name,
+        code: value,
+        stock: variant.stock,
+        price: variant.price ?? piece.price,
+        variantAttributes: variant.attributes,
+      }
+    }
+  }
+
+  const db = await getDatabase()
+
+  const piece = (await db.collection('pieces').findOne({
+    tenantId,
+    $or: [{ barcode: value }, { sku: value }],
+  })) as Piece | null
+  if (piece) {
+    return {
+      itemType: 'piece',
+      itemId: piece.id,
+      pieceId: piece.id,
+      name: piece.name,
+      code: value,
+      stock: piece.stock ?? 0,
+      price: piece.price,
+    }
+  }
+
+  const material = (await db
+    .collection('materials')
+    .findOne({ tenantId, barcode: value })) as Material | null
+  if (material) {
+    return {
+      itemType: 'material',
+      itemId: material.id,
+      name: material.name,
+      code: value,
+      stock: material.quantityInStock,
+      unit: material.unit,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Generate an in-store EAN-13 not already used by another item
+ */
+async function generateBarcode(tenantId: string): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = createInternalEan13(randomDigits())
+    if (!(await findByCode(tenantId, code))) return code
+  }
+  throw new Error('Could not generate a unique barcode')
+}
+
+async function getLabel(
+  tenantId: string,
+  item: LabelRequestItem,
+): Promise<BarcodeLabel> {
+  if (item.itemType === 'variant') {
+    const variant = await getVariantById(tenantId, item.itemId)
+    const piece = variant
+      ? await pieces.getPiece(tenantId, variant.pieceId)
+      : null
+    if (!variant || !piece) {
+      throw new NotFoundError('Variant', item.itemId)
+    }
+
+    // Every variant has a SKU, so no code needs assigning
+    const code = variant.barcode || variant.sku
+    return {
+      itemType: 'variant',
+      itemId: variant.id,
+      name: piece.name,
+      detail: describeAttributes(variant.attributes),
+      code,
+      format: getBarcodeFormat(code),
+      price: variant.price ?? piece.price,
+      currency: piece.currency,
+    }
+  }
+
+  if (item.itemType === 'piece') {
+    const piece = await pieces.getPiece(tenantId, item.itemId)
+    if (!piece) {
+      throw new NotFoundError('Piece', item.itemId)
+    }
+
+    let code = piece.barcode || piece.sku
+    if (!code) {
+      code = await generateBarcode(tenantId)
+      await pieces.updatePiece(tenantId, piece.id, { barcode: code })
+    }
+    return {
+      itemType: 'piece',
+      itemId: piece.id,
+      name: piece.name,
+      code,
+      format: getBarcodeFormat(code),
+      price: piece.price,
+      currency: piece.currency,
+    }
+  }
+
+  const material = await materials.getMaterial(tenantId, item.itemId)
+  if (!material) {
+    throw new NotFoundError('Material', item.itemId)
+  }
+
+  let code = material.barcode
+  if (!code) {
+    code = await generateBarcode(tenantId)
+    await materials.updateMaterial(tenantId, material.id, { barcode: code })
+  }
+  return {
+    itemType: 'material',
+    itemId: material.id,
+    name: material.name,
+    detail: material.category,
+    code,
+    format: getBarcodeFormat(code),
+  }
+}
+
+/**
+ * Build the labels for a sheet, one per copy, in the order requested
+ * @throws ValidationError if more than MAX_LABELS_PER_SHEET_REQUEST labels
+ * @throws NotFoundError if an item doesn't exist
+ */
+export async function getLabels(
+  tenantId: string,
+  items: LabelRequestItem[],
+): Promise<BarcodeLabel[]> {
+  const total = items.reduce((sum, item) => sum + (item.copies ?? 1), 0)
+  if (total > MAX_LABELS_PER_SHEET_REQUEST) {
+    throw new ValidationError(
+      `Labels are limited to ${MAX_LABELS_PER_SHEET_REQUEST} per print`,
+    )
+  }
+
+  const labels: BarcodeLabel[] = []
+  for (const item of items) {
+    const label = await getLabel(tenantId, item)
+    for (let i = 0; i < (item.copies ?? 1); i++) {
+      labels.push(label)
+    }
+  }
+  return labels
+}
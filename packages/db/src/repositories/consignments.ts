@@ -0,0 +1,705 @@
+/**
+ * Consignments Repository
+ * Galleries and shops selling pieces on commission - placements move stock
+ * to the consignee's inventory location, reported sales take it out, and
+ * settlements record the consignee's payment in the ledger.
+ */
+
+import type {
+  Consignee,
+  ConsigneeSummary,
+  ConsignmentPlacement,
+  ConsignmentPlacementItem,
+  ConsignmentSale,
+  ConsignmentSettlement,
+  CreateConsigneeInput,
+  CreateConsignmentPlacementInput,
+  InventoryLocation,
+  RecordConsignmentReturnInput,
+  RecordConsignmentSaleInput,
+  Transaction,
+  UpdateConsigneeInput,
+} from '@madebuy/shared'
+import {
+  ConflictError,
+  calculateConsignmentSplit,
+  calculateGstFromInclusive,
+  NotFoundError,
+  toMinorUnits,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as locations from './locations'
+import * as pieces from './pieces'
+import * as transactions from './transactions'
+
+function validateCommissionRate(rate: unknown): void {
+  if (typeof rate !== 'number' || !(rate >= 0 && rate <= 100)) {
+    throw new ValidationError('Commission must be between 0 and 100%', {
+      commissionRate: ['Commission must be between 0 and 100%'],
+    })
+  }
+}
+
+function validateQuantity(quantity: unknown): void {
+  if (!Number.isInteger(quantity) || (quantity as number) <= 0) {
+    throw new ValidationError('Quantities must be whole numbers above zero', {
+      items: ['Quantities must be whole numbers above zero'],
+    })
+  }
+}
+
+function quantityHeld(item: ConsignmentPlacementItem): number {
+  return item.quantityPlaced - item.quantitySold - item.quantityReturned
+}
+
+// ============================================================================
+// CONSIGNEES
+// ============================================================================
+
+export async function listConsignees(tenantId: string): Promise<Consignee[]> {
+  const db = await getDatabase()
+  const results = await db
+    .collection('consignees')
+    .find({ tenantId })
+    .sort({ name: 1 })
+    .toArray()
+  return results as unknown as Consignee[]
+}
+
+export async function getConsignee(
+  tenantId: string,
+  id: string,
+): Promise<Consignee | null> {
+  const db = await getDatabase()
+  const result = await db.collection('consignees').findOne({ tenantId, id })
+  return result as unknown as Consignee | null
+}
+
+/**
+ * Create the inventory location that holds a consignee's stock
+ * Needs an existing default location - otherwise the consignee's would
+ * become the default and hold everything.
+ */
+async function createConsigneeLocation(
+  tenantId: string,
+  name: string,
+  address?: string,
+): Promise<InventoryLocation> {
+  const existing = await locations.listLocations(tenantId)
+  if (existing.length === 0) {
+    const message =
+      'Add the location you keep stock at before adding consignees'
+    throw new ValidationError(message, { locationId: [message] })
+  }
+
+  return locations.createLocation(tenantId, {
+    name,
+    type: 'consignment',
+    fulfillsOnline: false,
+    address,
+  })
+}
+
+/**
+ * The consignee's location, recreated if it was deleted while empty
+ */
+async function getConsigneeLocation(
+  tenantId: string,
+  consignee: Consignee,
+): Promise<InventoryLocation> {
+  const location = await locations.getLocation(tenantId, consignee.locationId)
+  if (location) return location
+
+  const created = await createConsigneeLocation(
+    tenantId,
+    consignee.name,
+    consignee.address,
+  )
+  const db = await getDatabase()
+  await db
+    .collection('consignees')
+    .updateOne(
+      { tenantId, id: consignee.id },
+      { $set: { locationId: created.id, updatedAt: new Date() } },
+    )
+  consignee.locationId = created.id
+  return created
+}
+
+/**
+ * Create a consignee along with an inventory location for their stock
+ */
+export async function createConsignee(
+  tenantId: string,
+  input: CreateConsigneeInput,
+): Promise<Consignee> {
+  const name = input.name?.trim()
+  if (!name) {
+    throw new ValidationError('Consignee name is required', {
+      name: ['Consignee name is required'],
+    })
+  }
+  validateCommissionRate(input.commissionRate)
+
+  const address = input.address?.trim() || undefined
+  const location = await createConsigneeLocation(tenantId, name, address)
+
+  const now = new Date()
+  const consignee: Consignee = {
+    id: nanoid(),
+    tenantId,
+    name,
+    contactName: input.contactName?.trim() || undefined,
+    email: input.email?.trim() || undefined,
+    phone: input.phone?.trim() || undefined,
+    address,
+    commissionRate: input.commissionRate,
+    locationId: location.id,
+    notes: input.notes?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const db = await getDatabase()
+  await db.collection('consignees').insertOne({ ...consignee })
+  return consignee
+}
+
+/**
+ * Update a consignee - a new commission rate applies to future placements
+ */
+export async function updateConsignee(
+  tenantId: string,
+  id: string,
+  input: UpdateConsigneeInput,
+): Promise<Consignee> {
+  const consignee = await getConsignee(tenantId, id)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', id)
+  }
+
+  const updates: Partial<Consignee> = {}
+  if (input.name !== undefined) {
+    const name = input.name.trim()
+    if (!name) {
+      throw new ValidationError('Consignee name is required', {
+        name: ['Consignee name is required'],
+      })
+    }
+    updates.name = name
+  }
+  if (input.commissionRate !== undefined) {
+    validateCommissionRate(input.commissionRate)
+    updates.commissionRate = input.commissionRate
+  }
+  for (const field of [
+    'contactName',
+    'email',
+    'phone',
+    'address',
+    'notes',
+  ] as const) {
+    if (input[field] !== undefined) {
+      updates[field] = input[field]?.trim() || undefined
+    }
+  }
+
+  const db = await getDatabase()
+  const result = await db
+    .collection('consignees')
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+
+  // Keep the location's name and address in step
+  if (updates.name || input.address !== undefined) {
+    const location = await locations.getLocation(tenantId, consignee.locationId)
+    if (location) {
+      await locations.updateLocation(tenantId, location.id, {
+        name: updates.name,
+        address:
+          input.address !== undefined ? (updates.address ?? '') : undefined,
+      })
+    }
+  }
+
+  return result as unknown as Consignee
+}
+
+/**
+ * Delete a consignee - refused while they hold placed stock
+ * Past placements, sales and settlements are kept for the records.
+ */
+export async function deleteConsignee(
+  tenantId: string,
+  id: string,
+): Promise<void> {
+  const consignee = await getConsignee(tenantId, id)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', id)
+  }
+
+  const db = await getDatabase()
+  const active = await db
+    .collection('consignment_placements')
+    .countDocuments({ tenantId, consigneeId: id, status: 'active' })
+  if (active > 0) {
+    const message = `${consignee.name} still has pieces on consignment. Record them as sold or returned first.`
+    throw new ConflictError(message, { consignee: [message] })
+  }
+
+  if (await locations.getLocation(tenantId, consignee.locationId)) {
+    await locations.deleteLocation(tenantId, consignee.locationId)
+  }
+  await db.collection('consignees').deleteOne({ tenantId, id })
+}
+
+/**
+ * Consignees with what they hold and owe, for the consignments overview
+ */
+export async function listConsigneeSummaries(
+  tenantId: string,
+): Promise<ConsigneeSummary[]> {
+  const db = await getDatabase()
+  const [consignees, placements, unsettled] = await Promise.all([
+    listConsignees(tenantId),
+    listPlacements(tenantId, { status: 'active' }),
+    db
+      .collection('consignment_sales')
+      .find({ tenantId, settlementId: { $exists: false } })
+      .toArray() as unknown as Promise<ConsignmentSale[]>,
+  ])
+
+  return consignees.map((consignee) => {
+    const active = placements.filter((p) => p.consigneeId === consignee.id)
+    const sales = unsettled.filter((s) => s.consigneeId === consignee.id)
+    return {
+      consignee,
+      activePlacements: active.length,
+      piecesHeld: active.reduce(
+        (sum, p) =>
+          sum + p.items.reduce((count, item) => count + quantityHeld(item), 0),
+        0,
+      ),
+      unsettledSales: sales.length,
+      unsettledGross: sales.reduce((sum, s) => sum + s.grossAmount, 0),
+      unsettledNet: sales.reduce((sum, s) => sum + s.netAmount, 0),
+    }
+  })
+}
+
+// ============================================================================
+// PLACEMENTS
+// ============================================================================
+
+export async function listPlacements(
+  tenantId: string,
+  filters: {
+    consigneeId?: string
+    status?: ConsignmentPlacement['status']
+  } = {},
+): Promise<ConsignmentPlacement[]> {
+  const db = await getDatabase()
+  const query: Record<string, unknown> = { tenantId }
+  if (filters.consigneeId) query.consigneeId = filters.consigneeId
+  if (filters.status) query.status = filters.status
+
+  const results = await db
+    .collection('consignment_placements')
+    .find(query)
+    .sort({ placedAt: -1 })
+    .toArray()
+  return results as unknown as ConsignmentPlacement[]
+}
+
+export async function getPlacement(
+  tenantId: string,
+  id: string,
+): Promise<ConsignmentPlacement | null> {
+  const db = await getDatabase()
+  const result = await db
+    .collection('consignment_placements')
+    .findOne({ tenantId, id })
+  return result as unknown as ConsignmentPlacement | null
+}
+
+/**
+ * Place pieces with a consignee, moving their stock to the consignee's
+ * location at the consignee's current commission rate
+ */
+export async function createPlacement(
+  tenantId: string,
+  input: CreateConsignmentPlacementInput,
+): Promise<ConsignmentPlacement> {
+  const consignee = await getConsignee(tenantId, input.consigneeId)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', input.consigneeId)
+  }
+  if (!input.items?.length) {
+    throw new ValidationError('A placement needs at least one piece', {
+      items: ['Add at least one piece to place'],
+    })
+  }
+
+  const piecesMap = await pieces.getPiecesByIds(
+    tenantId,
+    input.items.map((line) => line.pieceId),
+  )
+  const items: ConsignmentPlacementItem[] = []
+  for (const line of input.items) {
+    validateQuantity(line.quantity)
+    const piece = piecesMap.get(line.pieceId)
+    if (!piece) {
+      throw new NotFoundError('Piece', line.pieceId)
+    }
+    // Piece prices are in major units; placements are in cents
+    const retailPrice =
+      line.retailPrice ??
+      (piece.price !== undefined
+        ? toMinorUnits(piece.price, piece.currency)
+        : undefined)
+    if (retailPrice === undefined || retailPrice < 0) {
+      const message = `Set a retail price for ${piece.name}`
+      throw new ValidationError(message, { items: [message] })
+    }
+    items.push({
+      pieceId: piece.id,
+      name: piece.name,
+      retailPrice,
+      quantityPlaced: line.quantity,
+      quantitySold: 0,
+      quantityReturned: 0,
+    })
+  }
+
+  // Checks every piece's stock at the source before anything moves
+  const location = await getConsigneeLocation(tenantId, consignee)
+  await locations.transferStock(tenantId, {
+    fromLocationId: input.fromLocationId,
+    toLocationId: location.id,
+    items: items.map((item) => ({
+      itemType: 'piece',
+      itemId: item.pieceId,
+      quantity: item.quantityPlaced,
+    })),
+    notes: `Placed on consignment with ${consignee.name}`,
+  })
+
+  const firstPiece = piecesMap.get(items[0].pieceId)
+  const now = new Date()
+  const placement: ConsignmentPlacement = {
+    id: nanoid(),
+    tenantId,
+    consigneeId: consignee.id,
+    consigneeName: consignee.name,
+    status: 'active',
+    items,
+    commissionRate: consignee.commissionRate,
+    currency: firstPiece?.currency || 'AUD',
+    notes: input.notes?.trim() || undefined,
+    placedAt: now,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const db = await getDatabase()
+  await db.collection('consignment_placements').insertOne({ ...placement })
+  return placement
+}
+
+async function getActivePlacement(
+  tenantId: string,
+  placementId: string,
+): Promise<ConsignmentPlacement> {
+  const placement = await getPlacement(tenantId, placementId)
+  if (!placement) {
+    throw new NotFoundError('Consignment placement', placementId)
+  }
+  if (placement.status !== 'active') {
+    throw new ValidationError('This placement is closed', {
+      items: ['This placement is closed'],
+    })
+  }
+  return placement
+}
+
+/**
+ * The placement line for a piece, checking the consignee still holds enough
+ */
+function getHeldItem(
+  placement: ConsignmentPlacement,
+  pieceId: string,
+  quantity: number,
+): ConsignmentPlacementItem {
+  const item = placement.items.find((i) => i.pieceId === pieceId)
+  if (!item) {
+    throw new ValidationError('That piece is not part of this placement', {
+      items: ['That piece is not part of this placement'],
+    })
+  }
+
+  validateQuantity(quantity)
+  const held = quantityHeld(item)
+  if (quantity > held) {
+    const message = `Only ${held} of ${item.name} still with ${placement.consigneeName}`
+    throw new ValidationError(message, { items: [message] })
+  }
+  return item
+}
+
+/**
+ * Save updated placement lines, closing the placement once nothing is held
+ */
+async function savePlacementItems(
+  tenantId: string,
+  placement: ConsignmentPlacement,
+): Promise<ConsignmentPlacement> {
+  const now = new Date()
+  const closed = placement.items.every((item) => quantityHeld(item) === 0)
+  const updates: Partial<ConsignmentPlacement> = {
+    items: placement.items,
+    updatedAt: now,
+  }
+  if (closed) {
+    updates.status = 'closed'
+    updates.closedAt = now
+  }
+
+  const db = await getDatabase()
+  await db
+    .collection('consignment_placements')
+    .updateOne({ tenantId, id: placement.id }, { $set: updates })
+  return { ...placement, ...updates }
+}
+
+/**
+ * Record a sale the consignee reported, taking the piece out of their stock
+ * and splitting the sale by the placement's commission rate
+ */
+export async function recordSale(
+  tenantId: string,
+  input: RecordConsignmentSaleInput,
+): Promise<ConsignmentSale> {
+  const placement = await getActivePlacement(tenantId, input.placementId)
+  const item = getHeldItem(placement, input.pieceId, input.quantity)
+  const salePrice = input.salePrice ?? item.retailPrice
+  if (!Number.isInteger(salePrice) || salePrice < 0) {
+    throw new ValidationError('Sale price must be zero or more', {
+      salePrice: ['Sale price must be zero or more'],
+    })
+  }
+
+  const consignee = await getConsignee(tenantId, placement.consigneeId)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', placement.consigneeId)
+  }
+  await locations.recordSale(tenantId, consignee.locationId, [
+    { pieceId: item.pieceId, quantity: input.quantity },
+  ])
+
+  const grossAmount = salePrice * input.quantity
+  const sale: ConsignmentSale = {
+    id: nanoid(),
+    tenantId,
+    consigneeId: consignee.id,
+    placementId: placement.id,
+    pieceId: item.pieceId,
+    name: item.name,
+    quantity: input.quantity,
+    salePrice,
+    grossAmount,
+    ...calculateConsignmentSplit(grossAmount, placement.commissionRate),
+    currency: placement.currency,
+    soldAt: input.soldAt ? new Date(input.soldAt) : new Date(),
+    createdAt: new Date(),
+  }
+
+  const db = await getDatabase()
+  await db.collection('consignment_sales').insertOne({ ...sale })
+
+  item.quantitySold += input.quantity
+  await savePlacementItems(tenantId, placement)
+
+  return sale
+}
+
+/**
+ * Take unsold pieces back from a consignee, moving their stock to
+ * another location
+ */
+export async function recordReturn(
+  tenantId: string,
+  input: RecordConsignmentReturnInput,
+): Promise<ConsignmentPlacement> {
+  if (!input.items?.length) {
+    throw new ValidationError('Choose at least one piece to return', {
+      items: ['Choose at least one piece to return'],
+    })
+  }
+
+  const placement = await getActivePlacement(tenantId, input.placementId)
+  const returned = input.items.map((line) => ({
+    item: getHeldItem(placement, line.pieceId, line.quantity),
+    quantity: line.quantity,
+  }))
+  if (new Set(input.items.map((line) => line.pieceId)).size < returned.length) {
+    throw new ValidationError('Each piece can only be listed once', {
+      items: ['Each piece can only be listed once'],
+    })
+  }
+
+  const consignee = await getConsignee(tenantId, placement.consigneeId)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', placement.consigneeId)
+  }
+  await locations.transferStock(tenantId, {
+    fromLocationId: consignee.locationId,
+    toLocationId: input.toLocationId,
+    items: input.items.map((line) => ({
+      itemType: 'piece',
+      itemId: line.pieceId,
+      quantity: line.quantity,
+    })),
+    notes: `Returned from consignment with ${consignee.name}`,
+  })
+
+  for (const { item, quantity } of returned) {
+    item.quantityReturned += quantity
+  }
+  return savePlacementItems(tenantId, placement)
+}
+
+// ============================================================================
+// SALES & SETTLEMENTS
+// ============================================================================
+
+export async function listSales(
+  tenantId: string,
+  filters: { consigneeId?: string; unsettled?: boolean } = {},
+): Promise<ConsignmentSale[]> {
+  const db = await getDatabase()
+  const query: Record<string, unknown> = { tenantId }
+  if (filters.consigneeId) query.consigneeId = filters.consigneeId
+  if (filters.unsettled) query.settlementId = { $exists: false }
+
+  const results = await db
+    .collection('consignment_sales')
+    .find(query)
+    .sort({ soldAt: -1 })
+    .limit(200)
+    .toArray()
+  return results as unknown as ConsignmentSale[]
+}
+
+export async function listSettlements(
+  tenantId: string,
+  consigneeId?: string,
+): Promise<ConsignmentSettlement[]> {
+  const db = await getDatabase()
+  const query: Record<string, unknown> = { tenantId }
+  if (consigneeId) query.consigneeId = consigneeId
+
+  const results = await db
+    .collection('consignment_settlements')
+    .find(query)
+    .sort({ settledAt: -1 })
+    .limit(100)
+    .toArray()
+  return results as unknown as ConsignmentSettlement[]
+}
+
+/**
+ * Record payment from a consignee for all their unsettled sales
+ * Adds a 'consignment' transaction to the ledger with the commission split.
+ * GST is on the full sale price; the commission is the consignee's fee.
+ */
+export async function settleConsignee(
+  tenantId: string,
+  consigneeId: string,
+  options: { reference?: string; gstRate?: number } = {},
+): Promise<ConsignmentSettlement> {
+  const consignee = await getConsignee(tenantId, consigneeId)
+  if (!consignee) {
+    throw new NotFoundError('Consignee', consigneeId)
+  }
+
+  // Claim the unsettled sales first, so a second settlement running at the
+  // same time can't count them again
+  const db = await getDatabase()
+  const settlementId = nanoid()
+  await db
+    .collection('consignment_sales')
+    .updateMany(
+      { tenantId, consigneeId, settlementId: { $exists: false } },
+      { $set: { settlementId } },
+    )
+
+  const sales = (await db
+    .collection('consignment_sales')
+    .find({ tenantId, settlementId })
+    .toArray()) as unknown as ConsignmentSale[]
+  if (sales.length === 0) {
+    const message = `${consignee.name} has no unsettled sales`
+    throw new ValidationError(message, { consignee: [message] })
+  }
+
+  const grossAmount = sales.reduce((sum, s) => sum + s.grossAmount, 0)
+  const commissionAmount = sales.reduce((sum, s) => sum + s.commissionAmount, 0)
+  const netAmount = sales.reduce((sum, s) => sum + s.netAmount, 0)
+  const currency = sales[0].currency
+  const reference = options.reference?.trim() || undefined
+  const settledAt = new Date()
+
+  let transaction: Transaction
+  try {
+    transaction = await transactions.createTransaction({
+      tenantId,
+      type: 'consignment',
+      grossAmount,
+      stripeFee: 0,
+      platformFee: 0,
+      commissionAmount,
+      netAmount,
+      gstAmount:
+        options.gstRate !== undefined
+          ? calculateGstFromInclusive(grossAmount, options.gstRate)
+          : undefined,
+      gstRate: options.gstRate,
+      currency,
+      status: 'completed',
+      description: reference
+        ? `Consignment settlement - ${consignee.name} (${reference})`
+        : `Consignment settlement - ${consignee.name}`,
+      completedAt: settledAt,
+    })
+  } catch (error) {
+    // Release the claim so the sales can be settled again
+    await db
+      .collection('consignment_sales')
+      .updateMany({ tenantId, settlementId }, { $unset: { settlementId: '' } })
+    throw error
+  }
+
+  const settlement: ConsignmentSettlement = {
+    id: settlementId,
+    tenantId,
+    consigneeId,
+    consigneeName: consignee.name,
+    saleIds: sales.map((s) => s.id),
+    grossAmount,
+    commissionAmount,
+    netAmount,
+    currency,
+    transactionId: transaction.id,
+    reference,
+    settledAt,
+  }
+
+  await db.collection('consignment_settlements').insertOne({ ...settlement })
+
+  return settlement
+}
@@ -832,23 +832,20 @@ export async function authenticateCustomer(
 /**
  * Verify customer email using token
  * Requires tenantId to prevent cross-tenant token usage
+ * Returns the verified customer, or null if the token is invalid or expired
  */
 export async function verifyCustomerEmail(
   tenantId: string,
   token: string,
-): Promise<boolean> {
+): Promise<Customer | null> {
   const db = await getDatabase()
 
-  const customer = await db.collection('customers').findOne({
-    tenantId,
-    verificationToken: token,
-    verificationTokenExpiry: { $gt: new Date() },
-  })
-
-  if (!customer) return false
-
-  await db.collection('customers').updateOne(
-    { tenantId, id: customer.id },
+  const result = await db.collection('customers').findOneAndUpdate(
+    {
+      tenantId,
+      verificationToken: token,
+      verificationTokenExpiry: { $gt: new Date() },
+    },
     {
       $set: {
         emailVerified: true,
@@ -860,9 +857,10 @@ export async function verifyCustomerEmail(
         verificationTokenExpiry: '',
       },
     },
+    { returnDocument: 'after' },
   )
 
-  return true
+  return result as unknown as Customer | null
 }
 
 /**
@@ -6,6 +6,7 @@ import type {
   DiscountValidationResult,
   UpdateDiscountCodeInput,
 } from '@madebuy/shared'
+import { formatMoney } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
 
@@ -251,6 +252,7 @@ export async function validateDiscountCode(
   orderTotal: number,
   pieceIds: string[],
   customerEmail?: string,
+  currency: string = 'AUD', // Tenant currency - orderTotal and amounts are in this currency
 ): Promise<DiscountValidationResult> {
   const discount = await getDiscountCodeByCode(tenantId, code)
 
@@ -299,7 +301,7 @@ export async function validateDiscountCode(
   if (discount.minOrderAmount && orderTotal < discount.minOrderAmount) {
     return {
       valid: false,
-      error: `Minimum order amount of $${discount.minOrderAmount.toFixed(2)} required`,
+      error: `Minimum order amount of ${formatMoney(discount.minOrderAmount, currency)} required`,
     }
   }
 
@@ -1,11 +1,13 @@
 import type {
   CreateDisputeInput,
   Dispute,
+  DisputeEvidence,
   DisputeFilters,
   DisputeListOptions,
   DisputeStats,
   UpdateDisputeInput,
 } from '@madebuy/shared'
+import { ConflictError, NotFoundError } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
 
@@ -276,6 +278,97 @@ export async function getDisputesNeedingResponse(
   return results as unknown as Dispute[]
 }
 
+/**
+ * Check a dispute can still take evidence: it needs a response and nothing
+ * has been sent to Stripe yet
+ */
+export async function getDisputeAwaitingEvidence(
+  tenantId: string,
+  id: string,
+): Promise<Dispute> {
+  const dispute = await getDispute(tenantId, id)
+  if (!dispute) {
+    throw new NotFoundError('Dispute', id)
+  }
+  if (dispute.status !== 'needs_response' || dispute.evidenceSubmittedAt) {
+    throw new ConflictError('Evidence can no longer be changed', {
+      evidence: ['This dispute is no longer waiting for evidence'],
+    })
+  }
+  return dispute
+}
+
+/**
+ * Save the evidence draft from the workspace
+ */
+export async function saveDisputeEvidence(
+  tenantId: string,
+  id: string,
+  evidence: DisputeEvidence,
+): Promise<Dispute> {
+  const db = await getDatabase()
+  await getDisputeAwaitingEvidence(tenantId, id)
+
+  const result = await db
+    .collection('disputes')
+    .findOneAndUpdate(
+      { tenantId, id, evidenceSubmittedAt: { $exists: false } },
+      { $set: { evidence, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+  if (!result) {
+    throw new ConflictError('Evidence can no longer be changed')
+  }
+  return result as unknown as Dispute
+}
+
+/**
+ * Record that evidence was submitted to Stripe
+ * Stripe moves the dispute to under_review once it has the evidence.
+ */
+export async function markEvidenceSubmitted(
+  tenantId: string,
+  id: string,
+  evidence: DisputeEvidence,
+): Promise<Dispute> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const result = await db.collection('disputes').findOneAndUpdate(
+    { tenantId, id },
+    {
+      $set: {
+        evidence,
+        evidenceSubmittedAt: now,
+        status: 'under_review',
+        updatedAt: now,
+      },
+    },
+    { returnDocument: 'after' },
+  )
+  if (!result) {
+    throw new NotFoundError('Dispute', id)
+  }
+  return result as unknown as Dispute
+}
+
+/**
+ * Remember which evidence reminder was emailed so each is sent once
+ */
+export async function markEvidenceReminderSent(
+  tenantId: string,
+  id: string,
+  days: number,
+): Promise<void> {
+  const db = await getDatabase()
+  await db
+    .collection('disputes')
+    .updateOne(
+      { tenantId, id },
+      { $set: { evidenceReminderDays: days, updatedAt: new Date() } },
+    )
+}
+
 /**
  * Get recent disputes (for dashboard display)
  */
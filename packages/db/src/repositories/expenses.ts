@@ -0,0 +1,392 @@
+import type {
+  CreateExpenseInput,
+  ExchangeRateTable,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters,
+  InvoiceRecord,
+  ProfitAndLoss,
+  UpdateExpenseInput,
+} from '@madebuy/shared'
+import {
+  calculateGstFromInclusive,
+  EXPENSE_CATEGORY_LABELS,
+  getExchangeRate,
+  NotFoundError,
+  normalizeCurrency,
+  OFF_STRIPE_SALE_TYPES,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+function invalid(field: string, message: string): ValidationError {
+  return new ValidationError(message, { [field]: [message] })
+}
+
+/**
+ * Check the fields being written. New expenses need every required field;
+ * updates only check what changes. Amounts are whole cents and the GST
+ * component can never be more than the total paid.
+ */
+function validateExpense(
+  input: UpdateExpenseInput,
+  current?: Pick<Expense, 'amount' | 'gstAmount'>,
+): void {
+  const isNew = !current
+
+  if (
+    (isNew || input.description !== undefined) &&
+    !input.description?.trim()
+  ) {
+    throw invalid('description', 'Describe what the expense was for')
+  }
+  if (
+    (isNew || input.category !== undefined) &&
+    !(input.category && input.category in EXPENSE_CATEGORY_LABELS)
+  ) {
+    throw invalid('category', 'Choose a category')
+  }
+  if (
+    (isNew || input.date !== undefined) &&
+    !(input.date instanceof Date && !Number.isNaN(input.date.getTime()))
+  ) {
+    throw invalid('date', 'Enter the date on the receipt')
+  }
+
+  const amount = input.amount ?? current?.amount
+  const gstAmount = input.gstAmount ?? current?.gstAmount ?? 0
+  if (amount === undefined || !Number.isInteger(amount) || amount <= 0) {
+    throw invalid('amount', 'Enter the amount paid')
+  }
+  if (!Number.isInteger(gstAmount) || gstAmount < 0) {
+    throw invalid('gstAmount', 'GST must be zero or more')
+  }
+  if (gstAmount > amount) {
+    throw invalid('gstAmount', 'GST cannot be more than the amount paid')
+  }
+}
+
+/**
+ * Record a business expense entered by the seller
+ */
+export async function createExpense(
+  tenantId: string,
+  data: CreateExpenseInput,
+): Promise<Expense> {
+  validateExpense(data)
+  const db = await getDatabase()
+  const now = new Date()
+
+  const expense: Expense = {
+    id: nanoid(),
+    tenantId,
+    date: data.date,
+    description: data.description.trim(),
+    category: data.category,
+    supplierId: data.supplierId,
+    supplierName: data.supplierName,
+    amount: data.amount,
+    gstAmount: data.gstAmount ?? 0,
+    currency: data.currency || 'AUD',
+    receiptUrl: data.receiptUrl,
+    receiptFileName: data.receiptFileName,
+    source: 'manual',
+    notes: data.notes,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection('expenses').insertOne(expense)
+  return expense
+}
+
+/**
+ * Get an expense by ID
+ */
+export async function getExpense(
+  tenantId: string,
+  id: string,
+): Promise<Expense | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection('expenses')
+    .findOne({ tenantId, id })) as Expense | null
+}
+
+/**
+ * List expenses, newest first
+ */
+export async function listExpenses(
+  tenantId: string,
+  filters?: ExpenseFilters,
+): Promise<Expense[]> {
+  const db = await getDatabase()
+
+  const query: Record<string, unknown> = { tenantId }
+
+  if (filters?.category) {
+    query.category = filters.category
+  }
+
+  if (filters?.startDate || filters?.endDate) {
+    const date: Record<string, Date> = {}
+    if (filters.startDate) date.$gte = filters.startDate
+    if (filters.endDate) date.$lte = filters.endDate
+    query.date = date
+  }
+
+  const results = await db
+    .collection('expenses')
+    .find(query)
+    .sort({ date: -1, createdAt: -1 })
+    .limit(500)
+    .toArray()
+
+  return results as unknown as Expense[]
+}
+
+/**
+ * Update an expense
+ */
+export async function updateExpense(
+  tenantId: string,
+  id: string,
+  updates: UpdateExpenseInput,
+): Promise<Expense> {
+  const db = await getDatabase()
+
+  const existing = await getExpense(tenantId, id)
+  if (!existing) {
+    throw new NotFoundError('Expense', id)
+  }
+  validateExpense(updates, existing)
+
+  const $set: Record<string, unknown> = { ...updates, updatedAt: new Date() }
+  if (updates.description !== undefined) {
+    $set.description = updates.description.trim()
+  }
+
+  const result = await db
+    .collection('expenses')
+    .findOneAndUpdate({ tenantId, id }, { $set }, { returnDocument: 'after' })
+  if (!result) {
+    throw new NotFoundError('Expense', id)
+  }
+  return result as unknown as Expense
+}
+
+/**
+ * Delete an expense
+ */
+export async function deleteExpense(
+  tenantId: string,
+  id: string,
+): Promise<void> {
+  const db = await getDatabase()
+  const result = await db.collection('expenses').deleteOne({ tenantId, id })
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Expense', id)
+  }
+}
+
+/**
+ * Post a confirmed supplier invoice to the ledger as a materials expense.
+ * Posting the same invoice again returns the existing expense. Invoice
+ * amounts are in dollars. GST is only claimable when the tenant is GST
+ * registered; the printed GST is used when the scan found it, otherwise
+ * it is worked out from the total. Invoices in another currency are
+ * converted to the tenant's with their exchange rates, so reports only
+ * ever add up one currency.
+ */
+export async function postInvoiceExpense(
+  tenantId: string,
+  invoice: InvoiceRecord,
+  options: {
+    gstRegistered: boolean
+    gstRate?: number
+    currency: string // Tenant currency
+    exchangeRates?: ExchangeRateTable
+  },
+): Promise<Expense | null> {
+  if (!invoice.totalAmount || invoice.totalAmount <= 0) return null
+
+  const currency = normalizeCurrency(options.currency)
+  const invoiceCurrency = normalizeCurrency(invoice.currency || currency)
+  const rate = getExchangeRate(invoiceCurrency, currency, options.exchangeRates)
+  if (rate === null) {
+    throw invalid(
+      'currency',
+      `Add a ${invoiceCurrency} exchange rate to record this invoice as an expense`,
+    )
+  }
+
+  const db = await getDatabase()
+  const amount = Math.round(invoice.totalAmount * rate * 100)
+
+  let gstAmount = 0
+  if (options.gstRegistered) {
+    gstAmount =
+      invoice.gstAmount !== undefined
+        ? Math.round(invoice.gstAmount * rate * 100)
+        : calculateGstFromInclusive(amount, options.gstRate ?? 10)
+    gstAmount = Math.min(Math.max(gstAmount, 0), amount)
+  }
+
+  const now = new Date()
+  const expense: Expense = {
+    id: nanoid(),
+    tenantId,
+    date: invoice.invoiceDate || invoice.uploadedAt,
+    description: invoice.supplier
+      ? `Supplier invoice - ${invoice.supplier}`
+      : `Supplier invoice - ${invoice.fileName}`,
+    category: 'materials',
+    supplierName: invoice.supplier,
+    amount,
+    gstAmount,
+    currency,
+    receiptUrl: invoice.fileUrl,
+    receiptFileName: invoice.fileName,
+    source: 'invoice',
+    invoiceId: invoice.id,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const result = await db
+    .collection('expenses')
+    .findOneAndUpdate(
+      { tenantId, invoiceId: invoice.id },
+      { $setOnInsert: expense },
+      { upsert: true, returnDocument: 'after' },
+    )
+  return result as unknown as Expense
+}
+
+/**
+ * Totals for expenses dated within a period (in cents)
+ */
+export async function getPurchasesSummary(
+  tenantId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<{ count: number; total: number; gstAmount: number }> {
+  const db = await getDatabase()
+
+  const result = await db
+    .collection('expenses')
+    .aggregate([
+      { $match: { tenantId, date: { $gte: startDate, $lte: endDate } } },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          total: { $sum: '$amount' },
+          gstAmount: { $sum: '$gstAmount' },
+        },
+      },
+    ])
+    .toArray()
+
+  return {
+    count: result[0]?.count ?? 0,
+    total: result[0]?.total ?? 0,
+    gstAmount: result[0]?.gstAmount ?? 0,
+  }
+}
+
+/**
+ * Profit and loss for a period. Every figure is GST exclusive, so what was
+ * collected for or claimed back from the ATO is not counted as income or cost.
+ * Sales include consignment settlements and paid wholesale invoices.
+ */
+export async function getProfitAndLoss(
+  tenantId: string,
+  startDate: Date,
+  endDate: Date,
+  currency = 'AUD', // Tenant currency
+): Promise<ProfitAndLoss> {
+  const db = await getDatabase()
+
+  const [transactionResult, expenseResult] = await Promise.all([
+    db
+      .collection('transactions')
+      .aggregate([
+        {
+          $match: {
+            tenantId,
+            type: { $in: ['sale', 'refund', ...OFF_STRIPE_SALE_TYPES] },
+            status: 'completed',
+            createdAt: { $gte: startDate, $lte: endDate },
+          },
+        },
+        {
+          $group: {
+            _id: '$type',
+            amount: {
+              $sum: {
+                $subtract: ['$grossAmount', { $ifNull: ['$gstAmount', 0] }],
+              },
+            },
+            fees: {
+              $sum: {
+                $add: [
+                  { $ifNull: ['$stripeFee', 0] },
+                  { $ifNull: ['$platformFee', 0] },
+                ],
+              },
+            },
+            commission: { $sum: { $ifNull: ['$commissionAmount', 0] } },
+          },
+        },
+      ])
+      .toArray(),
+    db
+      .collection('expenses')
+      .aggregate([
+        { $match: { tenantId, date: { $gte: startDate, $lte: endDate } } },
+        {
+          $group: {
+            _id: '$category',
+            amount: { $sum: { $subtract: ['$amount', '$gstAmount'] } },
+          },
+        },
+        { $sort: { amount: -1 } },
+      ])
+      .toArray(),
+  ])
+
+  const sale = transactionResult.find((r) => r._id === 'sale')
+  const refund = transactionResult.find((r) => r._id === 'refund')
+  const consignment = transactionResult.find((r) => r._id === 'consignment')
+
+  const sales = transactionResult
+    .filter((r) => r._id === 'sale' || OFF_STRIPE_SALE_TYPES.includes(r._id))
+    .reduce((sum, r) => sum + r.amount, 0)
+  const refunds = refund?.amount ?? 0
+  const netSales = sales - refunds
+  const paymentFees = sale?.fees ?? 0
+  const commission = consignment?.commission ?? 0
+
+  const expenses = expenseResult.map((r) => ({
+    category: r._id as ExpenseCategory,
+    amount: r.amount as number,
+  }))
+  const totalExpenses =
+    paymentFees + commission + expenses.reduce((sum, e) => sum + e.amount, 0)
+
+  return {
+    startDate,
+    endDate,
+    currency,
+    sales,
+    refunds,
+    netSales,
+    paymentFees,
+    commission,
+    expenses,
+    totalExpenses,
+    netProfit: netSales - totalExpenses,
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * Gift Cards Repository
+ * Issues gift card codes, tracks balances and records ledger entries
+ *
+ * Redemption flow (mirrors stock reservations):
+ * 1. holdBalance() - Atomically decrements the card balance and records a hold for the checkout session
+ * 2. commitHolds() - Marks the session's holds as redeemed after successful payment
+ * 3. releaseHolds() - Restores the held balance when checkout is abandoned or payment fails
+ *
+ * Holds have a TTL and are cleaned up by the reservations cron job
+ */
+
+import type {
+  GiftCard,
+  GiftCardHold,
+  GiftCardListOptions,
+  GiftCardStats,
+  GiftCardValidationResult,
+  IssueGiftCardInput,
+} from '@madebuy/shared'
+import { normalizeCurrency, ValidationError } from '@madebuy/shared'
+import { customAlphabet, nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as transactions from './transactions'
+
+// Unambiguous characters only (no 0/O, 1/I/L)
+const generateCodeSegment = customAlphabet('23456789ABCDEFGHJKMNPQRSTUVWXYZ', 4)
+
+/** Escape special regex characters to prevent ReDoS attacks */
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function generateCode(): string {
+  return Array.from({ length: 4 }, () => generateCodeSegment()).join('-')
+}
+
+/**
+ * Normalize a customer-entered code (case and separators are ignored)
+ */
+export function normalizeCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return compact.match(/.{1,4}/g)?.join('-') ?? ''
+}
+
+function isExpired(card: GiftCard, now = new Date()): boolean {
+  return !!card.expiresAt && new Date(card.expiresAt) <= now
+}
+
+/**
+ * Record a gift card movement in the transactions ledger
+ * Positive amounts increase outstanding stored value (issue, top-up),
+ * negative amounts decrease it (redemption, void)
+ */
+async function recordLedgerEntry(
+  card: Pick<GiftCard, 'tenantId' | 'code' | 'currency'>,
+  amountCents: number,
+  description: string,
+  orderId?: string,
+): Promise<void> {
+  await transactions.createTransaction({
+    tenantId: card.tenantId,
+    orderId,
+    type: 'gift_card',
+    grossAmount: amountCents,
+    stripeFee: 0,
+    platformFee: 0,
+    netAmount: amountCents,
+    currency: card.currency,
+    status: 'completed',
+    description: `${description} (${card.code})`,
+    completedAt: new Date(),
+  })
+}
+
+// ============ CRUD Operations ============
+
+export async function issueGiftCard(
+  tenantId: string,
+  input: IssueGiftCardInput,
+): Promise<GiftCard> {
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw new ValidationError('Gift card amount must be greater than zero')
+  }
+
+  const db = await getDatabase()
+
+  // Codes are random - retry on the (unlikely) collision within the tenant
+  let code = generateCode()
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const existing = await db
+      .collection('gift_cards')
+      .findOne({ tenantId, code })
+    if (!existing) break
+    code = generateCode()
+  }
+
+  const now = new Date()
+  const giftCard: GiftCard = {
+    id: nanoid(),
+    tenantId,
+    code,
+    initialBalance: input.amount,
+    balance: input.amount,
+    currency: normalizeCurrency(input.currency),
+    status: 'active',
+    source: input.source ?? 'manual',
+    orderId: input.orderId,
+    purchaserEmail: input.purchaserEmail?.toLowerCase(),
+    recipientEmail: input.recipientEmail?.toLowerCase(),
+    recipientName: input.recipientName,
+    message: input.message,
+    note: input.note,
+    expiresAt: input.expiresAt ? new Date(input.expiresAt) : undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection('gift_cards').insertOne(giftCard)
+
+  await recordLedgerEntry(
+    giftCard,
+    giftCard.balance,
+    giftCard.source === 'purchase' ? 'Gift card sold' : 'Gift card issued',
+    giftCard.orderId,
+  )
+
+  return giftCard
+}
+
+export async function getGiftCard(
+  tenantId: string,
+  id: string,
+): Promise<GiftCard | null> {
+  const db = await getDatabase()
+  const doc = await db.collection('gift_cards').findOne({ tenantId, id })
+  return doc as unknown as GiftCard | null
+}
+
+export async function getGiftCardByCode(
+  tenantId: string,
+  code: string,
+): Promise<GiftCard | null> {
+  const db = await getDatabase()
+  const doc = await db
+    .collection('gift_cards')
+    .findOne({ tenantId, code: normalizeCode(code) })
+  return doc as unknown as GiftCard | null
+}
+
+/**
+ * Get cards issued for an order (used to keep issuing idempotent on webhook retries)
+ */
+export async function getGiftCardsByOrder(
+  tenantId: string,
+  orderId: string,
+): Promise<GiftCard[]> {
+  const db = await getDatabase()
+  const docs = await db
+    .collection('gift_cards')
+    .find({ tenantId, orderId, source: 'purchase' })
+    .toArray()
+  return docs as unknown as GiftCard[]
+}
+
+export async function listGiftCards(
+  tenantId: string,
+  options: GiftCardListOptions = {},
+): Promise<{ items: GiftCard[]; total: number; hasMore: boolean }> {
+  const db = await getDatabase()
+
+  const { limit = 20, offset = 0, status, search } = options
+
+  const query: Record<string, unknown> = { tenantId }
+
+  if (status) {
+    query.status = status
+  }
+
+  if (search) {
+    const escapedSearch = escapeRegex(search)
+    query.$or = [
+      { code: { $regex: escapedSearch, $options: 'i' } },
+      { recipientEmail: { $regex: escapedSearch, $options: 'i' } },
+      { purchaserEmail: { $regex: escapedSearch, $options: 'i' } },
+    ]
+  }
+
+  const [items, total] = await Promise.all([
+    db
+      .collection('gift_cards')
+      .find(query)
+      .sort({ createdAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray(),
+    db.collection('gift_cards').countDocuments(query),
+  ])
+
+  return {
+    items: items as unknown as GiftCard[],
+    total,
+    hasMore: offset + items.length < total,
+  }
+}
+
+/**
+ * Add balance (in cents) to a card - reactivates depleted cards
+ */
+export async function topUpGiftCard(
+  tenantId: string,
+  id: string,
+  amount: number,
+): Promise<GiftCard | null> {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new ValidationError('Top-up amount must be greater than zero')
+  }
+
+  const db = await getDatabase()
+  const result = await db.collection('gift_cards').findOneAndUpdate(
+    { tenantId, id, status: { $ne: 'voided' } },
+    {
+      $inc: { balance: amount },
+      $set: { status: 'active', updatedAt: new Date() },
+    },
+    { returnDocument: 'after' },
+  )
+
+  const giftCard = result as unknown as GiftCard | null
+  if (!giftCard) return null
+
+  await recordLedgerEntry(giftCard, amount, 'Gift card top-up')
+  return giftCard
+}
+
+/**
+ * Void a card - the remaining balance can no longer be redeemed
+ */
+export async function voidGiftCard(
+  tenantId: string,
+  id: string,
+  reason?: string,
+): Promise<GiftCard | null> {
+  const db = await getDatabase()
+  const now = new Date()
+  const result = await db.collection('gift_cards').findOneAndUpdate(
+    { tenantId, id, status: { $ne: 'voided' } },
+    {
+      $set: {
+        status: 'voided',
+        voidedAt: now,
+        voidReason: reason,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: 'before' },
+  )
+
+  const previous = result as unknown as GiftCard | null
+  if (!previous) return null
+
+  if (previous.balance > 0) {
+    await recordLedgerEntry(previous, -previous.balance, 'Gift card voided')
+  }
+
+  return {
+    ...previous,
+    status: 'voided',
+    voidedAt: now,
+    voidReason: reason,
+    updatedAt: now,
+  }
+}
+
+// ============ Redemption ============
+
+/**
+ * Check a code can be redeemed in the given currency
+ */
+export async function validateGiftCard(
+  tenantId: string,
+  code: string,
+  currency: string,
+): Promise<GiftCardValidationResult> {
+  const giftCard = await getGiftCardByCode(tenantId, code)
+
+  if (!giftCard) {
+    return { valid: false, error: 'Invalid gift card code' }
+  }
+
+  if (giftCard.status === 'voided') {
+    return { valid: false, error: 'This gift card is no longer valid' }
+  }
+
+  if (isExpired(giftCard)) {
+    return { valid: false, error: 'This gift card has expired' }
+  }
+
+  if (giftCard.status === 'depleted' || giftCard.balance <= 0) {
+    return { valid: false, error: 'This gift card has no remaining balance' }
+  }
+
+  if (giftCard.currency !== normalizeCurrency(currency)) {
+    return {
+      valid: false,
+      error: `This gift card can only be used for ${giftCard.currency} purchases`,
+    }
+  }
+
+  return { valid: true, giftCard, availableBalance: giftCard.balance }
+}
+
+/**
+ * Hold balance (in cents) atomically for a checkout session
+ *
+ * @returns GiftCardHold if successful, null if the card can't cover the amount
+ */
+export async function holdBalance(
+  tenantId: string,
+  code: string,
+  amount: number,
+  sessionId: string,
+  expirationMinutes: number = 30,
+): Promise<GiftCardHold | null> {
+  if (!Number.isInteger(amount) || amount <= 0) return null
+
+  const db = await getDatabase()
+  const now = new Date()
+
+  const result = await db.collection('gift_cards').findOneAndUpdate(
+    {
+      tenantId,
+      code: normalizeCode(code),
+      status: 'active',
+      balance: { $gte: amount },
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    },
+    {
+      $inc: { balance: -amount },
+      $set: { updatedAt: now },
+    },
+    { returnDocument: 'after' },
+  )
+
+  const giftCard = result as unknown as GiftCard | null
+  if (!giftCard) return null // Insufficient balance, or card not redeemable
+
+  const hold: GiftCardHold = {
+    id: nanoid(),
+    tenantId,
+    giftCardId: giftCard.id,
+    code: giftCard.code,
+    amount,
+    currency: giftCard.currency,
+    sessionId,
+    status: 'active',
+    expiresAt: new Date(now.getTime() + expirationMinutes * 60 * 1000),
+    createdAt: now,
+  }
+
+  await db.collection('gift_card_holds').insertOne(hold)
+  return hold
+}
+
+/**
+ * Commit holds for a session after successful payment
+ * Requires tenantId for cross-tenant data isolation
+ *
+ * @returns The holds that were committed (empty if none were active)
+ */
+export async function commitHolds(
+  tenantId: string,
+  sessionId: string,
+  orderId?: string,
+): Promise<GiftCardHold[]> {
+  const db = await getDatabase()
+  const holds = (await db
+    .collection('gift_card_holds')
+    .find({ tenantId, sessionId, status: 'active' })
+    .toArray()) as unknown as GiftCardHold[]
+
+  const committed: GiftCardHold[] = []
+  for (const hold of holds) {
+    const result = await db
+      .collection('gift_card_holds')
+      .updateOne(
+        { id: hold.id, status: 'active' },
+        { $set: { status: 'completed', orderId, completedAt: new Date() } },
+      )
+    if (result.modifiedCount === 0) continue // Committed or released concurrently
+
+    const now = new Date()
+    await db
+      .collection('gift_cards')
+      .updateOne(
+        { tenantId, id: hold.giftCardId },
+        { $set: { lastUsedAt: now, updatedAt: now } },
+      )
+    await db
+      .collection('gift_cards')
+      .updateOne(
+        {
+          tenantId,
+          id: hold.giftCardId,
+          status: 'active',
+          balance: { $lte: 0 },
+        },
+        { $set: { status: 'depleted' } },
+      )
+
+    await recordLedgerEntry(hold, -hold.amount, 'Gift card redeemed', orderId)
+    committed.push({ ...hold, status: 'completed', orderId })
+  }
+
+  return committed
+}
+
+/**
+ * Release holds for a session - restores the held balance
+ * Called when checkout is abandoned, expires or payment fails
+ */
+export async function releaseHolds(sessionId: string): Promise<number> {
+  const db = await getDatabase()
+  const holds = (await db
+    .collection('gift_card_holds')
+    .find({ sessionId, status: 'active' })
+    .toArray()) as unknown as GiftCardHold[]
+
+  let released = 0
+  for (const hold of holds) {
+    const result = await db
+      .collection('gift_card_holds')
+      .updateOne(
+        { id: hold.id, status: 'active' },
+        { $set: { status: 'cancelled', cancelledAt: new Date() } },
+      )
+    if (result.modifiedCount === 0) continue
+
+    await db.collection('gift_cards').updateOne(
+      { tenantId: hold.tenantId, id: hold.giftCardId },
+      {
+        $inc: { balance: hold.amount },
+        $set: { updatedAt: new Date() },
+      },
+    )
+    released++
+  }
+
+  return released
+}
+
+/**
+ * Release expired holds - should be called by a cron job
+ * NOTE: Intentionally cross-tenant -- this is a cron/maintenance function
+ */
+export async function cleanupExpiredHolds(): Promise<number> {
+  const db = await getDatabase()
+  const sessionIds = (await db
+    .collection('gift_card_holds')
+    .distinct('sessionId', {
+      status: 'active',
+      expiresAt: { $lt: new Date() },
+    })) as string[]
+
+  let released = 0
+  for (const sessionId of sessionIds) {
+    released += await releaseHolds(sessionId)
+  }
+
+  return released
+}
+
+// ============ Stats ============
+
+export async function getGiftCardStats(
+  tenantId: string,
+): Promise<GiftCardStats> {
+  const db = await getDatabase()
+
+  const [result] = await db
+    .collection('gift_cards')
+    .aggregate([
+      { $match: { tenantId } },
+      {
+        $group: {
+          _id: null,
+          totalCards: { $sum: 1 },
+          activeCards: {
+            $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] },
+          },
+          outstandingBalance: {
+            $sum: {
+              $cond: [{ $eq: ['$status', 'active'] }, '$balance', 0],
+            },
+          },
+        },
+      },
+    ])
+    .toArray()
+
+  const [redeemed] = await db
+    .collection('gift_card_holds')
+    .aggregate([
+      { $match: { tenantId, status: 'completed' } },
+      { $group: { _id: null, amount: { $sum: '$amount' } } },
+    ])
+    .toArray()
+
+  return {
+    totalCards: result?.totalCards ?? 0,
+    activeCards: result?.activeCards ?? 0,
+    outstandingBalance: result?.outstandingBalance ?? 0,
+    redeemedAmount: redeemed?.amount ?? 0,
+  }
+}
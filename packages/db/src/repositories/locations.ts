@@ -0,0 +1,826 @@
+/**
+ * Locations Repository
+ * Inventory locations, per-location stock and transfers between locations
+ *
+ * Item totals stay on the items (Piece.stock, variant stock and
+ * Material.quantityInStock). location_stock only records quantities at
+ * non-default locations - the default location holds the rest, so sales,
+ * production runs and stock edits that don't name a location need no changes.
+ * Pieces and variants carry heldStock (their stock at offline locations) so
+ * the storefront reads online availability from the item itself.
+ */
+
+import type {
+  CreateLocationInput,
+  CreateStockTransferInput,
+  InventoryLocation,
+  ItemLocationStock,
+  LocationSaleItem,
+  StockItemType,
+  StockTransfer,
+  StockTransferItem,
+  UpdateLocationInput,
+} from '@madebuy/shared'
+import {
+  allocateLocationStock,
+  ConflictError,
+  getHeldStock,
+  NotFoundError,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as materials from './materials'
+import * as pieces from './pieces'
+import * as variants from './variants'
+
+interface LocationStockRecord {
+  tenantId: string
+  locationId: string
+  itemType: StockItemType
+  itemId: string
+  quantity: number
+  updatedAt: Date
+}
+
+interface StockItem {
+  itemType: StockItemType
+  itemId: string
+  name: string
+  total: number
+}
+
+// ============================================================================
+// LOCATIONS
+// ============================================================================
+
+/**
+ * List locations, default first
+ */
+export async function listLocations(
+  tenantId: string,
+): Promise<InventoryLocation[]> {
+  const db = await getDatabase()
+  const results = await db
+    .collection('inventory_locations')
+    .find({ tenantId })
+    .sort({ isDefault: -1, name: 1 })
+    .toArray()
+  return results as unknown as InventoryLocation[]
+}
+
+export async function getLocation(
+  tenantId: string,
+  id: string,
+): Promise<InventoryLocation | null> {
+  const db = await getDatabase()
+  const result = await db
+    .collection('inventory_locations')
+    .findOne({ tenantId, id })
+  return result as unknown as InventoryLocation | null
+}
+
+/**
+ * Create a location - a tenant's first location becomes the default
+ */
+export async function createLocation(
+  tenantId: string,
+  input: CreateLocationInput,
+): Promise<InventoryLocation> {
+  const name = input.name?.trim()
+  if (!name) {
+    throw new ValidationError('Location name is required', {
+      name: ['Location name is required'],
+    })
+  }
+
+  const db = await getDatabase()
+  const existing = await listLocations(tenantId)
+  const isDefault = existing.length === 0 || input.isDefault === true
+
+  const now = new Date()
+  const location: InventoryLocation = {
+    id: nanoid(),
+    tenantId,
+    name,
+    type: input.type || 'other',
+    fulfillsOnline: isDefault || input.fulfillsOnline !== false,
+    isDefault: false,
+    address: input.address?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection('inventory_locations').insertOne({ ...location })
+
+  if (isDefault) {
+    await setDefaultLocation(tenantId, location)
+    location.isDefault = true
+    location.fulfillsOnline = true
+  }
+
+  return location
+}
+
+/**
+ * Update a location
+ * Making a location the default moves the old default's stock into its own
+ * records; the default can't be switched off directly or stop fulfilling
+ * online orders.
+ */
+export async function updateLocation(
+  tenantId: string,
+  id: string,
+  input: UpdateLocationInput,
+): Promise<InventoryLocation> {
+  const location = await getLocation(tenantId, id)
+  if (!location) {
+    throw new NotFoundError('Location', id)
+  }
+
+  if (location.isDefault && input.isDefault === false) {
+    throw new ValidationError('Choose another default location instead', {
+      isDefault: ['Choose another location as the default instead'],
+    })
+  }
+  const willBeDefault = location.isDefault || input.isDefault === true
+  if (willBeDefault && input.fulfillsOnline === false) {
+    throw new ValidationError(
+      'The default location must fulfil online orders',
+      {
+        fulfillsOnline: ['The default location must fulfil online orders'],
+      },
+    )
+  }
+
+  const set: Record<string, unknown> = { updatedAt: new Date() }
+  if (input.name !== undefined) {
+    const name = input.name.trim()
+    if (!name) {
+      throw new ValidationError('Location name is required', {
+        name: ['Location name is required'],
+      })
+    }
+    set.name = name
+  }
+  if (input.type !== undefined) set.type = input.type
+  if (input.fulfillsOnline !== undefined) {
+    set.fulfillsOnline = input.fulfillsOnline
+  }
+  if (input.address !== undefined) set.address = input.address.trim()
+  if (input.notes !== undefined) set.notes = input.notes.trim()
+
+  const db = await getDatabase()
+  await db
+    .collection('inventory_locations')
+    .updateOne({ tenantId, id }, { $set: set })
+
+  if (!location.isDefault && input.isDefault) {
+    await setDefaultLocation(tenantId, {
+      ...location,
+      ...set,
+    } as InventoryLocation)
+  } else if (
+    input.fulfillsOnline !== undefined &&
+    input.fulfillsOnline !== location.fulfillsOnline
+  ) {
+    await refreshHeldStock(tenantId)
+  }
+
+  return (await getLocation(tenantId, id)) as InventoryLocation
+}
+
+/**
+ * Make a location the default
+ * The old default's share of every item is recorded against it, and the new
+ * default's records are dropped as it now holds whatever isn't elsewhere.
+ */
+async function setDefaultLocation(
+  tenantId: string,
+  location: InventoryLocation,
+): Promise<void> {
+  const db = await getDatabase()
+  const locations = await listLocations(tenantId)
+  const previous = locations.find((l) => l.isDefault && l.id !== location.id)
+
+  if (previous) {
+    for (const item of await listStockItems(tenantId)) {
+      const { levels } = await allocate(tenantId, item, locations)
+      const quantity =
+        levels.find((level) => level.locationId === previous.id)?.quantity ?? 0
+      if (quantity > 0) {
+        await writeRecord(tenantId, item, previous.id, quantity)
+      }
+    }
+    await db
+      .collection('inventory_locations')
+      .updateOne(
+        { tenantId, id: previous.id },
+        { $set: { isDefault: false, updatedAt: new Date() } },
+      )
+  }
+
+  await db
+    .collection('location_stock')
+    .deleteMany({ tenantId, locationId: location.id })
+  await db
+    .collection('inventory_locations')
+    .updateOne(
+      { tenantId, id: location.id },
+      {
+        $set: { isDefault: true, fulfillsOnline: true, updatedAt: new Date() },
+      },
+    )
+
+  await refreshHeldStock(tenantId)
+}
+
+/**
+ * Delete a location - only once it holds no stock and isn't the default
+ */
+export async function deleteLocation(
+  tenantId: string,
+  id: string,
+): Promise<void> {
+  const location = await getLocation(tenantId, id)
+  if (!location) {
+    throw new NotFoundError('Location', id)
+  }
+  if (location.isDefault) {
+    const message = 'Choose another default location before deleting this one'
+    throw new ConflictError(message, { location: [message] })
+  }
+
+  const db = await getDatabase()
+  const stocked = await db
+    .collection('location_stock')
+    .findOne({ tenantId, locationId: id, quantity: { $gt: 0 } })
+  if (stocked) {
+    const message = `Move the stock at ${location.name} elsewhere before deleting it`
+    throw new ConflictError(message, { location: [message] })
+  }
+
+  await db.collection('location_stock').deleteMany({ tenantId, locationId: id })
+  await db.collection('inventory_locations').deleteOne({ tenantId, id })
+}
+
+// ============================================================================
+// STOCK BY LOCATION
+// ============================================================================
+
+function describeAttributes(attributes: Record<string, string>): string {
+  return Object.values(attributes).join(' / ')
+}
+
+/**
+ * Look up an item's name and total stock
+ * @throws ValidationError for pieces with unlimited stock - there's nothing
+ * to split between locations
+ */
+async function getStockItem(
+  tenantId: string,
+  itemType: StockItemType,
+  itemId: string,
+): Promise<StockItem> {
+  if (itemType === 'piece') {
+    const piece = await pieces.getPiece(tenantId, itemId)
+    if (!piece) {
+      throw new NotFoundError('Piece', itemId)
+    }
+    if (piece.stock === undefined || piece.stock === null) {
+      throw new ValidationError(`${piece.name} has unlimited stock`, {
+        items: [`${piece.name} has unlimited stock - set a stock level first`],
+      })
+    }
+    return { itemType, itemId, name: piece.name, total: piece.stock }
+  }
+
+  if (itemType === 'variant') {
+    const db = await getDatabase()
+    const variant = await db
+      .collection('variant_combinations')
+      .findOne({ tenantId, id: itemId, isDeleted: { $ne: true } })
+    const piece = variant
+      ? await pieces.getPiece(tenantId, variant.pieceId)
+      : null
+    if (!variant || !piece) {
+      throw new NotFoundError('Variant', itemId)
+    }
+    return {
+      itemType,
+      itemId,
+      name: `${piece.name} - ${describeAttributes(variant.attributes || {})}`,
+      total: variant.stock ?? 0,
+    }
+  }
+
+  const material = await materials.getMaterial(tenantId, itemId)
+  if (!material) {
+    throw new NotFoundError('Material', itemId)
+  }
+  return {
+    itemType,
+    itemId,
+    name: material.name,
+    total: material.quantityInStock,
+  }
+}
+
+/**
+ * Every item with tracked stock - used when the default location changes
+ */
+async function listStockItems(tenantId: string): Promise<StockItem[]> {
+  const db = await getDatabase()
+  const [pieceDocs, variantDocs, materialDocs] = await Promise.all([
+    db
+      .collection('pieces')
+      .find(
+        { tenantId, stock: { $type: 'number' } },
+        { projection: { id: 1, name: 1, stock: 1 } },
+      )
+      .toArray(),
+    db
+      .collection('variant_combinations')
+      .find(
+        { tenantId, isDeleted: { $ne: true } },
+        { projection: { id: 1, sku: 1, stock: 1 } },
+      )
+      .toArray(),
+    db
+      .collection('materials')
+      .find(
+        { tenantId },
+        { projection: { id: 1, name: 1, quantityInStock: 1 } },
+      )
+      .toArray(),
+  ])
+
+  return [
+    ...pieceDocs.map((doc) => ({
+      itemType: 'piece' as const,
+      itemId: doc.id,
+      name: doc.name,
+      total: doc.stock,
+    })),
+    ...variantDocs.map((doc) => ({
+      itemType: 'variant' as const,
+      itemId: doc.id,
+      name: doc.sku,
+      total: doc.stock ?? 0,
+    })),
+    ...materialDocs.map((doc) => ({
+      itemType: 'material' as const,
+      itemId: doc.id,
+      name: doc.name,
+      total: doc.quantityInStock ?? 0,
+    })),
+  ]
+}
+
+async function writeRecord(
+  tenantId: string,
+  item: Pick<StockItem, 'itemType' | 'itemId'>,
+  locationId: string,
+  quantity: number,
+): Promise<void> {
+  const db = await getDatabase()
+  await db
+    .collection('location_stock')
+    .updateOne(
+      { tenantId, locationId, itemType: item.itemType, itemId: item.itemId },
+      { $set: { quantity, updatedAt: new Date() } },
+      { upsert: true },
+    )
+}
+
+/**
+ * Split an item across locations, saving any corrections made because the
+ * total fell below what other locations had recorded
+ */
+async function allocate(
+  tenantId: string,
+  item: StockItem,
+  locations: InventoryLocation[],
+) {
+  const db = await getDatabase()
+  const records = (await db
+    .collection('location_stock')
+    .find({ tenantId, itemType: item.itemType, itemId: item.itemId })
+    .toArray()) as unknown as LocationStockRecord[]
+
+  const recorded = Object.fromEntries(
+    records.map((record) => [record.locationId, record.quantity]),
+  )
+  const allocation = allocateLocationStock(item.total, locations, recorded)
+
+  for (const correction of allocation.corrections) {
+    await writeRecord(
+      tenantId,
+      item,
+      correction.locationId,
+      correction.quantity,
+    )
+  }
+  if (allocation.corrections.length > 0) {
+    await refreshHeldStock(tenantId, [item])
+  }
+
+  return allocation
+}
+
+// Items that carry heldStock, and the collection each is stored in
+const HELD_STOCK_COLLECTIONS = {
+  piece: 'pieces',
+  variant: 'variant_combinations',
+} as const
+
+/**
+ * Recalculate heldStock on pieces and variants from their stock at offline
+ * locations. Pass items to limit the update to those whose records just
+ * changed. Variant holds are copied onto the piece's own variant list, which
+ * is what the storefront sells from.
+ */
+async function refreshHeldStock(
+  tenantId: string,
+  items?: Pick<StockItem, 'itemType' | 'itemId'>[],
+): Promise<void> {
+  const db = await getDatabase()
+  const offlineIds = (await listLocations(tenantId))
+    .filter((l) => !l.fulfillsOnline && !l.isDefault)
+    .map((l) => l.id)
+
+  for (const itemType of ['piece', 'variant'] as const) {
+    const itemIds = items
+      ?.filter((item) => item.itemType === itemType)
+      .map((item) => item.itemId)
+    if (itemIds?.length === 0) continue
+
+    const held = await db
+      .collection('location_stock')
+      .aggregate<{ _id: string; heldStock: number }>([
+        {
+          $match: {
+            tenantId,
+            itemType,
+            locationId: { $in: offlineIds },
+            ...(itemIds ? { itemId: { $in: itemIds } } : {}),
+          },
+        },
+        { $group: { _id: '$itemId', heldStock: { $sum: '$quantity' } } },
+      ])
+      .toArray()
+    const heldById = new Map(held.map((h) => [h._id, h.heldStock]))
+    const collection = db.collection(HELD_STOCK_COLLECTIONS[itemType])
+
+    // Clear items that no longer hold anything offline
+    const cleared = await collection
+      .find(
+        {
+          tenantId,
+          heldStock: { $gt: 0 },
+          id: itemIds
+            ? { $in: itemIds.filter((id) => !heldById.get(id)) }
+            : { $nin: [...heldById.keys()] },
+        },
+        { projection: { id: 1 } },
+      )
+      .toArray()
+    const clearedIds = cleared.map((doc) => doc.id as string)
+    if (clearedIds.length > 0) {
+      await collection.updateMany(
+        { tenantId, id: { $in: clearedIds } },
+        { $set: { heldStock: 0 } },
+      )
+    }
+    for (const [id, heldStock] of heldById) {
+      await collection.updateOne({ tenantId, id }, { $set: { heldStock } })
+    }
+
+    if (itemType === 'variant') {
+      const changed = await collection
+        .find(
+          { tenantId, id: { $in: [...clearedIds, ...heldById.keys()] } },
+          { projection: { id: 1, pieceId: 1 } },
+        )
+        .toArray()
+      for (const variant of changed) {
+        await db.collection('pieces').updateOne(
+          { tenantId, id: variant.pieceId, 'variants.id': variant.id },
+          {
+            $set: { 'variants.$.heldStock': heldById.get(variant.id) ?? 0 },
+          },
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Change an item's total, so the default location's share moves with it
+ */
+async function changeItemTotal(
+  tenantId: string,
+  item: StockItem,
+  change: number,
+): Promise<void> {
+  if (change === 0) return
+  if (item.itemType === 'piece') {
+    await pieces.updateStock(tenantId, item.itemId, change)
+  } else if (item.itemType === 'variant') {
+    await variants.updateVariantStock(tenantId, item.itemId, change)
+  } else {
+    await materials.adjustStock(tenantId, item.itemId, change, 'manual')
+  }
+}
+
+/**
+ * An item's stock at each location
+ * With no locations set up, levels is empty and everything is online.
+ */
+export async function getItemStock(
+  tenantId: string,
+  itemType: StockItemType,
+  itemId: string,
+): Promise<ItemLocationStock> {
+  const item = await getStockItem(tenantId, itemType, itemId)
+  const locations = await listLocations(tenantId)
+  const { levels } = await allocate(tenantId, item, locations)
+
+  return {
+    itemType,
+    itemId,
+    total: item.total,
+    onlineAvailable: item.total - getHeldStock(levels),
+    levels,
+  }
+}
+
+/**
+ * Set how many of an item are at a location (a stock count there)
+ * The item's total changes by the difference.
+ */
+export async function setLocationQuantity(
+  tenantId: string,
+  itemType: StockItemType,
+  itemId: string,
+  locationId: string,
+  quantity: number,
+): Promise<ItemLocationStock> {
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    throw new ValidationError('Quantity must be zero or more', {
+      quantity: ['Quantity must be zero or more'],
+    })
+  }
+
+  const locations = await listLocations(tenantId)
+  const location = locations.find((l) => l.id === locationId)
+  if (!location) {
+    throw new NotFoundError('Location', locationId)
+  }
+
+  const item = await getStockItem(tenantId, itemType, itemId)
+  const { levels } = await allocate(tenantId, item, locations)
+  const current =
+    levels.find((level) => level.locationId === locationId)?.quantity ?? 0
+
+  if (!location.isDefault) {
+    await writeRecord(tenantId, item, locationId, quantity)
+  }
+  await changeItemTotal(tenantId, item, quantity - current)
+  await refreshHeldStock(tenantId, [item])
+
+  return getItemStock(tenantId, itemType, itemId)
+}
+
+// ============================================================================
+// TRANSFERS
+// ============================================================================
+
+/**
+ * Move stock between locations - totals don't change
+ * Every item is checked before anything moves, so a transfer applies fully
+ * or not at all.
+ */
+export async function transferStock(
+  tenantId: string,
+  input: CreateStockTransferInput,
+): Promise<StockTransfer> {
+  if (input.fromLocationId === input.toLocationId) {
+    throw new ValidationError('Choose two different locations', {
+      toLocationId: ['Choose a different location to move stock to'],
+    })
+  }
+  if (!input.items?.length) {
+    throw new ValidationError('A transfer needs at least one item', {
+      items: ['Add at least one item to move'],
+    })
+  }
+
+  const locations = await listLocations(tenantId)
+  const from = locations.find((l) => l.id === input.fromLocationId)
+  const to = locations.find((l) => l.id === input.toLocationId)
+  if (!from) {
+    throw new NotFoundError('Location', input.fromLocationId)
+  }
+  if (!to) {
+    throw new NotFoundError('Location', input.toLocationId)
+  }
+
+  const moves: Array<{
+    item: StockItem
+    quantity: number
+    fromQuantity: number
+    toQuantity: number
+  }> = []
+  for (const line of input.items) {
+    if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+      throw new ValidationError('Transfer quantities must be more than zero', {
+        items: ['Transfer quantities must be more than zero'],
+      })
+    }
+    if (
+      moves.some(
+        (m) =>
+          m.item.itemType === line.itemType && m.item.itemId === line.itemId,
+      )
+    ) {
+      throw new ValidationError('Each item can only be listed once', {
+        items: ['Each item can only be listed once'],
+      })
+    }
+
+    const item = await getStockItem(tenantId, line.itemType, line.itemId)
+    const { levels } = await allocate(tenantId, item, locations)
+    const fromQuantity =
+      levels.find((level) => level.locationId === from.id)?.quantity ?? 0
+    const toQuantity =
+      levels.find((level) => level.locationId === to.id)?.quantity ?? 0
+    if (fromQuantity < line.quantity) {
+      const message = `Only ${fromQuantity} of ${item.name} at ${from.name}`
+      throw new ValidationError(message, { items: [message] })
+    }
+    moves.push({ item, quantity: line.quantity, fromQuantity, toQuantity })
+  }
+
+  for (const move of moves) {
+    if (!from.isDefault) {
+      await writeRecord(
+        tenantId,
+        move.item,
+        from.id,
+        move.fromQuantity - move.quantity,
+      )
+    }
+    if (!to.isDefault) {
+      await writeRecord(
+        tenantId,
+        move.item,
+        to.id,
+        move.toQuantity + move.quantity,
+      )
+    }
+  }
+
+  await refreshHeldStock(
+    tenantId,
+    moves.map((m) => m.item),
+  )
+
+  const transfer: StockTransfer = {
+    id: nanoid(),
+    tenantId,
+    fromLocationId: from.id,
+    fromLocationName: from.name,
+    toLocationId: to.id,
+    toLocationName: to.name,
+    items: moves.map(
+      (m): StockTransferItem => ({
+        itemType: m.item.itemType,
+        itemId: m.item.itemId,
+        name: m.item.name,
+        quantity: m.quantity,
+      }),
+    ),
+    notes: input.notes?.trim() || undefined,
+    createdAt: new Date(),
+  }
+
+  const db = await getDatabase()
+  await db.collection('stock_transfers').insertOne({ ...transfer })
+  return transfer
+}
+
+/**
+ * Transfer history, newest first - optionally only those moving an item
+ */
+export async function listTransfers(
+  tenantId: string,
+  options: { itemId?: string; limit?: number } = {},
+): Promise<StockTransfer[]> {
+  const db = await getDatabase()
+  const query: Record<string, unknown> = { tenantId }
+  if (options.itemId) {
+    query['items.itemId'] = options.itemId
+  }
+
+  const results = await db
+    .collection('stock_transfers')
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(options.limit ?? 50)
+    .toArray()
+  return results as unknown as StockTransfer[]
+}
+
+// ============================================================================
+// SALES
+// ============================================================================
+
+/**
+ * Take sold items out of a location's stock (POS sales at a market stall)
+ * A variantId from the variant system sells that variant's stock; other
+ * items sell the piece's. Pieces with unlimited stock or on pre-order are
+ * skipped. Everything is checked before any stock changes.
+ */
+export async function recordSale(
+  tenantId: string,
+  locationId: string,
+  items: LocationSaleItem[],
+): Promise<void> {
+  const locations = await listLocations(tenantId)
+  const location = locations.find((l) => l.id === locationId)
+  if (!location) {
+    throw new NotFoundError('Location', locationId)
+  }
+
+  const db = await getDatabase()
+  const sales = new Map<
+    string,
+    { item: StockItem; quantity: number; current: number }
+  >()
+
+  for (const line of items) {
+    let itemType: StockItemType = 'piece'
+    let itemId = line.pieceId
+
+    if (line.variantId) {
+      const variant = await db.collection('variant_combinations').findOne(
+        {
+          tenantId,
+          id: line.variantId,
+          pieceId: line.pieceId,
+          isDeleted: { $ne: true },
+        },
+        { projection: { id: 1 } },
+      )
+      if (variant) {
+        itemType = 'variant'
+        itemId = line.variantId
+      }
+    }
+
+    if (itemType === 'piece') {
+      const piece = await pieces.getPiece(tenantId, line.pieceId)
+      if (!piece) {
+        throw new NotFoundError('Piece', line.pieceId)
+      }
+      if (piece.stock === undefined || piece.stock === null) continue
+      if (piece.preorder?.enabled) continue
+    }
+
+    const key = `${itemType}:${itemId}`
+    let sale = sales.get(key)
+    if (!sale) {
+      const item = await getStockItem(tenantId, itemType, itemId)
+      const { levels } = await allocate(tenantId, item, locations)
+      const current =
+        levels.find((level) => level.locationId === locationId)?.quantity ?? 0
+      sale = { item, quantity: 0, current }
+      sales.set(key, sale)
+    }
+
+    sale.quantity += line.quantity
+    if (sale.current < sale.quantity) {
+      const message = `Only ${sale.current} of ${sale.item.name} at ${location.name}`
+      throw new ValidationError(message, { items: [message] })
+    }
+  }
+
+  for (const sale of sales.values()) {
+    if (!location.isDefault) {
+      await writeRecord(
+        tenantId,
+        sale.item,
+        locationId,
+        sale.current - sale.quantity,
+      )
+    }
+    await changeItemTotal(tenantId, sale.item, -sale.quantity)
+  }
+
+  await refreshHeldStock(
+    tenantId,
+    [...sales.values()].map((s) => s.item),
+  )
+}
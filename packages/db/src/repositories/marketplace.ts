@@ -30,6 +30,9 @@ const LISTINGS_COLLECTION = 'marketplace_listings'
 const ORDERS_COLLECTION = 'marketplace_orders'
 const OAUTH_STATE_COLLECTION = 'marketplace_oauth_states'
 
+// A conversion claim older than this is assumed to have died mid-way
+const CONVERSION_CLAIM_TTL_MS = 5 * 60 * 1000
+
 // =============================================================================
 // Connection Operations
 // =============================================================================
@@ -590,7 +593,10 @@ export async function createOrder(
     marketplaceFees: input.marketplaceFees,
     orderDate: input.orderDate,
     paidAt: input.paidAt,
+    shippedAt: input.shippedAt,
     rawData: input.rawData,
+    stockSyncErrors: input.stockSyncErrors,
+    stockDecremented: false,
     importedAt: new Date(),
     updatedAt: new Date(),
   }
@@ -706,25 +712,105 @@ export async function updateOrderStatus(
 }
 
 /**
- * Link marketplace order to MadeBuy order
+ * Claim a marketplace order for conversion. Only one caller can hold the
+ * claim, so an order is never converted (or its stock taken) twice.
+ * The native order ID is picked once and reused when a stale claim is
+ * retaken, so a conversion that died after creating the order can finish.
+ * Returns the native order ID, or null if the order is linked or claimed.
+ */
+export async function claimOrderLink(
+  tenantId: string,
+  marketplaceOrderId: string,
+): Promise<string | null> {
+  const db = await getDatabase()
+  const collection = db.collection(ORDERS_COLLECTION)
+
+  await collection.updateOne(
+    { tenantId, id: marketplaceOrderId, conversionClaimId: { $exists: false } },
+    { $set: { conversionClaimId: nanoid() } },
+  )
+
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - CONVERSION_CLAIM_TTL_MS)
+  const claimed = await collection.findOneAndUpdate(
+    {
+      tenantId,
+      id: marketplaceOrderId,
+      linkedOrderId: { $exists: false },
+      $or: [
+        { conversionClaimedAt: { $exists: false } },
+        { conversionClaimedAt: { $lt: staleBefore } },
+      ],
+    },
+    { $set: { conversionClaimedAt: now, updatedAt: now } },
+    { returnDocument: 'after' },
+  )
+
+  return (
+    (claimed as unknown as MarketplaceOrder | null)?.conversionClaimId ?? null
+  )
+}
+
+/**
+ * Link a claimed marketplace order to the native order created for it
  */
-export async function linkOrderToMadeBuyOrder(
+export async function completeOrderLink(
   tenantId: string,
   marketplaceOrderId: string,
   madeBuyOrderId: string,
 ): Promise<void> {
   const db = await getDatabase()
   await db.collection(ORDERS_COLLECTION).updateOne(
-    { tenantId, id: marketplaceOrderId },
+    { tenantId, id: marketplaceOrderId, conversionClaimId: madeBuyOrderId },
     {
-      $set: {
-        linkedOrderId: madeBuyOrderId,
-        updatedAt: new Date(),
-      },
+      $set: { linkedOrderId: madeBuyOrderId, updatedAt: new Date() },
+      $unset: { conversionClaimedAt: '' },
     },
   )
 }
 
+/**
+ * Undo claimOrderLink when the native order couldn't be created
+ */
+export async function releaseOrderLink(
+  tenantId: string,
+  marketplaceOrderId: string,
+  madeBuyOrderId: string,
+): Promise<void> {
+  const db = await getDatabase()
+  await db.collection(ORDERS_COLLECTION).updateOne(
+    {
+      tenantId,
+      id: marketplaceOrderId,
+      conversionClaimId: madeBuyOrderId,
+      linkedOrderId: { $exists: false },
+    },
+    { $unset: { conversionClaimedAt: '' }, $set: { updatedAt: new Date() } },
+  )
+}
+
+/**
+ * Mark stock as taken for a marketplace order, with any pieces that failed
+ */
+export async function recordStockDecrement(
+  tenantId: string,
+  marketplaceOrderId: string,
+  stockSyncErrors?: MarketplaceOrder['stockSyncErrors'],
+): Promise<void> {
+  const db = await getDatabase()
+  const updates: Record<string, unknown> = {
+    stockDecremented: true,
+    updatedAt: new Date(),
+  }
+  if (stockSyncErrors?.length) {
+    updates.stockSyncErrors = stockSyncErrors
+  }
+
+  await db
+    .collection(ORDERS_COLLECTION)
+    .updateOne({ tenantId, id: marketplaceOrderId }, { $set: updates })
+}
+
 /**
  * Get recent orders for sync (to check for updates)
  */
@@ -0,0 +1,224 @@
+/**
+ * Material Lots Repository
+ * Each restock is kept as its own lot with its own cost, and stock is drawn
+ * from the oldest lots first (FIFO).
+ *
+ * Lots are kept in step with Material.quantityInStock lazily: stock that was
+ * added without a lot (before lot tracking, or by editing the quantity) becomes
+ * an 'opening' lot at the material's current cost, and stock removed without
+ * drawing from lots is written off the oldest lots.
+ */
+
+import type {
+  Material,
+  MaterialLot,
+  MaterialLotConsumption,
+  MaterialLotSource,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+// Quantities are fractional (e.g. 0.25 kg), so ignore floating point dust
+const EPSILON = 1e-9
+
+export async function addLot(
+  tenantId: string,
+  materialId: string,
+  quantity: number,
+  costPerUnit: number,
+  source: MaterialLotSource,
+  options?: { sourceId?: string; receivedAt?: Date },
+): Promise<MaterialLot> {
+  const db = await getDatabase()
+
+  const lot: MaterialLot = {
+    id: nanoid(),
+    tenantId,
+    materialId,
+    quantityReceived: quantity,
+    quantityRemaining: quantity,
+    costPerUnit,
+    source,
+    sourceId: options?.sourceId,
+    receivedAt: options?.receivedAt || new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  await db.collection('material_lots').insertOne(lot)
+  return lot
+}
+
+/**
+ * Lots for a material, oldest first
+ */
+export async function listLots(
+  tenantId: string,
+  materialId: string,
+  options?: { includeEmpty?: boolean },
+): Promise<MaterialLot[]> {
+  const db = await getDatabase()
+
+  const query: Record<string, unknown> = { tenantId, materialId }
+  if (!options?.includeEmpty) {
+    query.quantityRemaining = { $gt: EPSILON }
+  }
+
+  const results = await db
+    .collection('material_lots')
+    .find(query)
+    .sort({ receivedAt: 1, createdAt: 1 })
+    .limit(500)
+    .toArray()
+
+  return results as unknown as MaterialLot[]
+}
+
+/**
+ * Take quantity from the oldest lots first without recording a cost
+ */
+async function drawFromLots(
+  tenantId: string,
+  materialId: string,
+  quantity: number,
+): Promise<{ taken: MaterialLotConsumption[]; shortBy: number }> {
+  const db = await getDatabase()
+  const taken: MaterialLotConsumption[] = []
+  let remaining = quantity
+
+  // Re-read after a lost race - another request drew from the same lot
+  for (let attempt = 0; attempt < 5 && remaining > EPSILON; attempt++) {
+    const lots = await listLots(tenantId, materialId)
+    if (lots.length === 0) break
+
+    for (const lot of lots) {
+      if (remaining <= EPSILON) break
+      const take = Math.min(lot.quantityRemaining, remaining)
+
+      const result = await db.collection('material_lots').updateOne(
+        { tenantId, id: lot.id, quantityRemaining: { $gte: take } },
+        {
+          $inc: { quantityRemaining: -take },
+          $set: { updatedAt: new Date() },
+        },
+      )
+      if (result.matchedCount === 0) break
+
+      taken.push({
+        lotId: lot.id,
+        quantity: take,
+        costPerUnit: lot.costPerUnit,
+      })
+      remaining -= take
+    }
+  }
+
+  return { taken, shortBy: Math.max(remaining, 0) }
+}
+
+/**
+ * Bring lot quantities in line with the material's stock
+ */
+async function syncLots(tenantId: string, material: Material): Promise<void> {
+  const db = await getDatabase()
+
+  const [totals] = await db
+    .collection('material_lots')
+    .aggregate([
+      { $match: { tenantId, materialId: material.id } },
+      { $group: { _id: null, remaining: { $sum: '$quantityRemaining' } } },
+    ])
+    .toArray()
+  const inLots = (totals?.remaining as number) || 0
+  const difference = material.quantityInStock - inLots
+
+  if (difference > EPSILON) {
+    // Untracked stock is treated as the oldest
+    await addLot(
+      tenantId,
+      material.id,
+      difference,
+      material.costPerUnit,
+      'opening',
+      { receivedAt: material.createdAt },
+    )
+  } else if (difference < -EPSILON) {
+    await drawFromLots(tenantId, material.id, -difference)
+  }
+}
+
+/**
+ * Consume stock from lots, oldest first, and return what it cost
+ * `material` is the material as it was before its stock was reduced.
+ */
+export async function consumeLots(
+  tenantId: string,
+  material: Material,
+  quantity: number,
+): Promise<MaterialLotConsumption[]> {
+  await syncLots(tenantId, material)
+
+  const { taken, shortBy } = await drawFromLots(tenantId, material.id, quantity)
+  if (shortBy > EPSILON) {
+    // Only reachable under concurrent updates - price the rest at today's cost
+    const lot = await addLot(
+      tenantId,
+      material.id,
+      shortBy,
+      material.costPerUnit,
+      'opening',
+      { receivedAt: material.createdAt },
+    )
+    const db = await getDatabase()
+    await db
+      .collection('material_lots')
+      .updateOne({ tenantId, id: lot.id }, { $set: { quantityRemaining: 0 } })
+    taken.push({
+      lotId: lot.id,
+      quantity: shortBy,
+      costPerUnit: material.costPerUnit,
+    })
+  }
+
+  return taken
+}
+
+/**
+ * Put consumed quantities back into the lots they came from
+ */
+export async function restoreLots(
+  tenantId: string,
+  consumption: MaterialLotConsumption[],
+): Promise<void> {
+  const db = await getDatabase()
+
+  for (const entry of consumption) {
+    await db.collection('material_lots').updateOne(
+      { tenantId, id: entry.lotId },
+      {
+        $inc: { quantityRemaining: entry.quantity },
+        $set: { updatedAt: new Date() },
+      },
+    )
+  }
+}
+
+/**
+ * Total cost of consumed lots
+ */
+export function getConsumptionCost(
+  consumption: MaterialLotConsumption[],
+): number {
+  return consumption.reduce(
+    (sum, entry) => sum + entry.quantity * entry.costPerUnit,
+    0,
+  )
+}
+
+export async function deleteLotsForMaterial(
+  tenantId: string,
+  materialId: string,
+): Promise<void> {
+  const db = await getDatabase()
+  await db.collection('material_lots').deleteMany({ tenantId, materialId })
+}
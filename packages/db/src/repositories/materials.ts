@@ -1,10 +1,13 @@
 import type {
   CreateMaterialInput,
   Material,
+  MaterialLotConsumption,
+  MaterialLotSource,
   MaterialUsage,
 } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as materialLots from './materialLots'
 
 /** Escape special regex characters to prevent ReDoS attacks */
 function escapeRegex(str: string): string {
@@ -31,7 +34,9 @@ export async function createMaterial(
     costPerUnit: data.costPerUnit,
     currency: data.currency || 'AUD',
     supplier: data.supplier,
+    supplierId: data.supplierId,
     supplierSku: data.supplierSku,
+    barcode: data.barcode,
     notes: data.notes,
     tags: data.tags || [],
     invoiceIds: [],
@@ -40,6 +45,17 @@ export async function createMaterial(
   }
 
   await db.collection('materials').insertOne(material)
+
+  if (material.quantityInStock > 0) {
+    await materialLots.addLot(
+      tenantId,
+      material.id,
+      material.quantityInStock,
+      material.costPerUnit,
+      'opening',
+    )
+  }
+
   return material
 }
 
@@ -190,6 +206,7 @@ export async function deleteMaterial(
 ): Promise<void> {
   const db = await getDatabase()
   await db.collection('materials').deleteOne({ tenantId, id })
+  await materialLots.deleteLotsForMaterial(tenantId, id)
 }
 
 // Material Usage tracking
@@ -289,22 +306,62 @@ export async function calculateBatchCOGS(
   return new Map(results.map((r) => [r._id as string, r.total || 0]))
 }
 
+type StockAdjustmentReason =
+  | 'production'
+  | 'production_reversal'
+  | 'reconciliation'
+  | 'manual'
+  | 'restock'
+
+export interface StockAdjustmentOptions {
+  costPerUnit?: number // Cost of added stock (defaults to the material's cost)
+  source?: MaterialLotSource // Lot source for added stock (defaults from reason)
+  sourceId?: string // Invoice or purchase order the stock came from
+  restoreLots?: MaterialLotConsumption[] // Put stock back into these lots instead
+}
+
 /**
  * Adjust material stock by a delta amount
  * Positive = add stock, Negative = remove stock
  * Used by production runs and reconciliation
+ * Added stock becomes a new lot; removed stock is drawn from the oldest lots.
  */
 export async function adjustStock(
   tenantId: string,
   materialId: string,
   adjustment: number,
-  reason:
-    | 'production'
-    | 'production_reversal'
-    | 'reconciliation'
-    | 'manual'
-    | 'restock',
+  reason: StockAdjustmentReason,
+  options?: StockAdjustmentOptions,
 ): Promise<Material> {
+  const { material } = await applyStockAdjustment(
+    tenantId,
+    materialId,
+    adjustment,
+    reason,
+    options,
+  )
+  return material
+}
+
+/**
+ * Remove stock and return the lots it was drawn from (oldest first)
+ * Production runs use this to cost materials at what they were bought for.
+ */
+export async function consumeStock(
+  tenantId: string,
+  materialId: string,
+  quantity: number,
+): Promise<{ material: Material; lots: MaterialLotConsumption[] }> {
+  return applyStockAdjustment(tenantId, materialId, -quantity, 'production')
+}
+
+async function applyStockAdjustment(
+  tenantId: string,
+  materialId: string,
+  adjustment: number,
+  reason: StockAdjustmentReason,
+  options?: StockAdjustmentOptions,
+): Promise<{ material: Material; lots: MaterialLotConsumption[] }> {
   const db = await getDatabase()
 
   // Get current material to calculate isLowStock
@@ -353,13 +410,35 @@ export async function adjustStock(
     throw new Error(`Material ${materialId} not found`)
   }
 
+  // Keep lots in step with the stock change
+  let lots: MaterialLotConsumption[] = []
+  if (adjustment < 0) {
+    lots = await materialLots.consumeLots(tenantId, material, -adjustment)
+  } else if (adjustment > 0 && options?.restoreLots?.length) {
+    await materialLots.restoreLots(tenantId, options.restoreLots)
+  } else if (adjustment > 0) {
+    await materialLots.addLot(
+      tenantId,
+      materialId,
+      adjustment,
+      options?.costPerUnit ?? material.costPerUnit,
+      options?.source ?? getLotSource(reason),
+      { sourceId: options?.sourceId },
+    )
+  }
+
   // Re-fetch to get properly typed material
   const updatedMaterial = await getMaterial(tenantId, materialId)
   if (!updatedMaterial) {
     throw new Error(`Material ${materialId} not found after update`)
   }
 
-  return updatedMaterial
+  return { material: updatedMaterial, lots }
+}
+
+function getLotSource(reason: StockAdjustmentReason): MaterialLotSource {
+  if (reason === 'restock' || reason === 'reconciliation') return reason
+  return 'manual'
 }
 
 export async function restockMaterialFromInvoice(
@@ -385,10 +464,23 @@ export async function restockMaterialFromInvoice(
     (updateData.$set as Record<string, unknown>).costPerUnit = costPerUnit
   }
 
+  const before = await getMaterial(tenantId, materialId)
+
   await db
     .collection('materials')
     .updateOne({ tenantId, id: materialId }, updateData)
 
+  if (before) {
+    await materialLots.addLot(
+      tenantId,
+      materialId,
+      quantityAdded,
+      costPerUnit ?? before.costPerUnit,
+      'invoice',
+      { sourceId: invoiceId },
+    )
+  }
+
   // Recalculate isLowStock
   const material = await getMaterial(tenantId, materialId)
   if (material) {
@@ -1,12 +1,22 @@
 import type {
   CreateOrderInput,
   Order,
+  OrderItem,
   PaginatedResult,
   PaginationParams,
 } from '@madebuy/shared'
+import {
+  ConflictError,
+  getOrderProductionDue,
+  NotFoundError,
+} from '@madebuy/shared'
 import { ObjectId } from 'mongodb'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as pieces from './pieces'
+
+// Review requests only go to orders delivered within this many days past the delay
+const REVIEW_REQUEST_WINDOW_DAYS = 30
 
 function generateOrderNumber(): string {
   const timestamp = Date.now().toString(36).toUpperCase()
@@ -28,6 +38,49 @@ function calculateOrderTotals(
   return { subtotal, total }
 }
 
+/**
+ * Record what each item cost to make at the time of sale, so exported COGS
+ * doesn't move when material prices or recipes change later. A piece costs
+ * what its latest production run did (materials drawn from FIFO lots);
+ * pieces that were never produced fall back to their recipe COGS.
+ */
+async function withUnitCosts(
+  tenantId: string,
+  items: OrderItem[],
+): Promise<OrderItem[]> {
+  const pieceIds = [
+    ...new Set(
+      items
+        .filter((item) => item.unitCost === undefined && item.pieceId)
+        .map((item) => item.pieceId),
+    ),
+  ]
+  if (pieceIds.length === 0) return items
+
+  const db = await getDatabase()
+  const [piecesMap, runs] = await Promise.all([
+    pieces.getPiecesByIds(tenantId, pieceIds),
+    db
+      .collection('production_runs')
+      .find({ tenantId, pieceId: { $in: pieceIds } })
+      .project({ pieceId: 1, costPerUnit: 1 })
+      .sort({ productionDate: -1 })
+      .toArray(),
+  ])
+
+  const costs = new Map<string, number>()
+  for (const run of runs) {
+    if (!costs.has(run.pieceId)) costs.set(run.pieceId, run.costPerUnit)
+  }
+
+  return items.map((item) => {
+    if (item.unitCost !== undefined) return item
+    const unitCost =
+      costs.get(item.pieceId) ?? piecesMap.get(item.pieceId)?.calculatedCOGS
+    return unitCost === undefined ? item : { ...item, unitCost }
+  })
+}
+
 export async function createOrder(
   tenantId: string,
   data: CreateOrderInput,
@@ -44,8 +97,9 @@ export async function createOrder(
 ): Promise<Order> {
   const db = await getDatabase()
 
+  const items = await withUnitCosts(tenantId, data.items)
   const { subtotal, total } = calculateOrderTotals(
-    data.items,
+    items,
     pricing.shipping,
     pricing.tax,
     pricing.discount || 0,
@@ -58,7 +112,7 @@ export async function createOrder(
     customerEmail: data.customerEmail,
     customerName: data.customerName,
     customerPhone: data.customerPhone,
-    items: data.items,
+    items,
     subtotal,
     shipping: pricing.shipping,
     tax: pricing.tax,
@@ -74,6 +128,7 @@ export async function createOrder(
     status: 'pending',
     promotionCode: data.promotionCode,
     customerNotes: data.customerNotes,
+    productionDue: getOrderProductionDue(data.items),
     stripeSessionId: pricing.stripeSessionId, // For idempotency
     paymentIntentId: pricing.paymentIntentId, // WH-03: For refund lookup
     paypalOrderId: pricing.paypalOrderId, // For PayPal orders
@@ -85,6 +140,114 @@ export async function createOrder(
   return order
 }
 
+/**
+ * Create an order for a sale made on an external marketplace
+ * The marketplace took payment, so the order starts in the marketplace's
+ * payment/fulfilment state instead of going through checkout.
+ */
+export async function createMarketplaceOrder(
+  tenantId: string,
+  data: CreateOrderInput,
+  details: {
+    id?: string // Set when the marketplace order was claimed with this ID
+    marketplace: NonNullable<Order['marketplace']>
+    subtotal: number
+    shipping: number
+    tax: number
+    total: number
+    currency: string
+    status: Order['status']
+    paymentStatus: Order['paymentStatus']
+    paidAt?: Date
+    shippedAt?: Date
+    orderDate: Date
+  },
+): Promise<Order> {
+  const db = await getDatabase()
+  const items = await withUnitCosts(tenantId, data.items)
+
+  const order: Order = {
+    id: details.id ?? nanoid(),
+    tenantId,
+    orderNumber: generateOrderNumber(),
+    customerEmail: data.customerEmail,
+    customerName: data.customerName,
+    customerPhone: data.customerPhone,
+    items,
+    subtotal: details.subtotal,
+    shipping: details.shipping,
+    tax: details.tax,
+    discount: 0,
+    total: details.total,
+    currency: details.currency,
+    shippingAddress: data.shippingAddress,
+    shippingMethod: data.shippingMethod,
+    shippingType: data.shippingType,
+    paymentMethod: 'marketplace',
+    paymentStatus: details.paymentStatus,
+    status: details.status,
+    customerNotes: data.customerNotes,
+    marketplace: details.marketplace,
+    paidAt: details.paidAt,
+    shippedAt: details.shippedAt,
+    createdAt: details.orderDate,
+    updatedAt: new Date(),
+  }
+
+  await db.collection('orders').insertOne(order)
+  return order
+}
+
+/**
+ * Create a wholesale order invoiced to a trade buyer
+ * Paid later by bank transfer, so it starts confirmed with payment pending.
+ */
+export async function createWholesaleOrder(
+  tenantId: string,
+  data: CreateOrderInput,
+  details: {
+    wholesale: NonNullable<Order['wholesale']>
+    subtotal: number
+    shipping: number
+    total: number
+    currency: string
+  },
+): Promise<Order> {
+  const db = await getDatabase()
+  const items = await withUnitCosts(tenantId, data.items)
+
+  const now = new Date()
+  const order: Order = {
+    id: nanoid(),
+    tenantId,
+    orderNumber: generateOrderNumber(),
+    customerEmail: data.customerEmail,
+    customerName: data.customerName,
+    customerPhone: data.customerPhone,
+    items,
+    subtotal: details.subtotal,
+    shipping: details.shipping,
+    tax: 0,
+    discount: 0,
+    total: details.total,
+    currency: details.currency,
+    shippingAddress: data.shippingAddress,
+    billingAddress: data.billingAddress,
+    shippingMethod: data.shippingMethod,
+    shippingType: data.shippingType,
+    paymentMethod: 'bank_transfer',
+    paymentStatus: 'pending',
+    status: 'confirmed',
+    customerNotes: data.customerNotes,
+    wholesale: details.wholesale,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection('orders').insertOne(order)
+  return order
+}
+
 export async function getOrder(
   tenantId: string,
   id: string,
@@ -95,6 +258,24 @@ export async function getOrder(
     .findOne({ tenantId, id })) as Order | null
 }
 
+/**
+ * Get multiple orders by their IDs in a single query (batch lookup)
+ */
+export async function getOrdersByIds(
+  tenantId: string,
+  orderIds: string[],
+): Promise<Map<string, Order>> {
+  if (orderIds.length === 0) {
+    return new Map()
+  }
+  const db = await getDatabase()
+  const orderList = (await db
+    .collection('orders')
+    .find({ tenantId, id: { $in: orderIds } })
+    .toArray()) as unknown as Order[]
+  return new Map(orderList.map((o) => [o.id, o]))
+}
+
 export async function getOrderByNumber(
   tenantId: string,
   orderNumber: string,
@@ -300,6 +481,29 @@ const VALID_STATUS_TRANSITIONS: Record<
   refunded: [], // Terminal state
 }
 
+/**
+ * Pre-order units count against the piece's cap until the order ships or is
+ * cancelled (a shipped order that is later cancelled was already released)
+ */
+function releasesPreorderUnits(
+  from: Order['status'],
+  to: Order['status'],
+): boolean {
+  return (to === 'shipped' || to === 'cancelled') && from !== 'shipped'
+}
+
+async function releaseOrderPreorderUnits(order: Order): Promise<void> {
+  for (const item of order.items) {
+    if (item.productionDue) {
+      await pieces.releasePreorderUnits(
+        order.tenantId,
+        item.pieceId,
+        item.quantity,
+      )
+    }
+  }
+}
+
 export async function updateOrderStatus(
   tenantId: string,
   id: string,
@@ -314,13 +518,13 @@ export async function updateOrderStatus(
     .findOne({ tenantId, id })) as unknown as Order | null
 
   if (!order) {
-    throw new Error(`Order ${id} not found`)
+    throw new NotFoundError('Order', id)
   }
 
   // Check if transition is valid
   const allowedTransitions = VALID_STATUS_TRANSITIONS[order.status]
   if (!allowedTransitions.includes(status)) {
-    throw new Error(
+    throw new ConflictError(
       `Invalid status transition: cannot change from "${order.status}" to "${status}". Allowed transitions: ${allowedTransitions.join(', ') || 'none (terminal state)'}`,
     )
   }
@@ -334,6 +538,10 @@ export async function updateOrderStatus(
       },
     },
   )
+
+  if (releasesPreorderUnits(order.status, status)) {
+    await releaseOrderPreorderUnits(order)
+  }
 }
 
 export async function updateOrderPaymentStatus(
@@ -572,36 +780,75 @@ export async function bulkUpdateOrderStatus(
     },
   )
 
+  for (const order of orders) {
+    if (
+      validOrderIds.includes(order.id) &&
+      releasesPreorderUnits(order.status, status)
+    ) {
+      await releaseOrderPreorderUnits(order)
+    }
+  }
+
   return result.modifiedCount
 }
 
+/**
+ * Get shipped Sendle orders that haven't been delivered yet, for tracking polls
+ * Least recently checked first so a capped run still reaches every order
+ */
+export async function getOrdersInTransit(
+  tenantId: string,
+  limit: number = 100,
+): Promise<Order[]> {
+  const db = await getDatabase()
+
+  const orders = await db
+    .collection('orders')
+    .find({
+      tenantId,
+      status: 'shipped',
+      sendleReference: { $exists: true, $ne: null },
+    })
+    .sort({ 'tracking.checkedAt': 1 })
+    .limit(limit)
+    .toArray()
+
+  return orders as unknown as Order[]
+}
+
 /**
  * Get orders that are ready for review request emails
- * (delivered at least 7 days ago, review request not yet sent)
- * @deprecated Part of email review request system - being removed.
- * Reviews are now submitted via website design module.
+ * (delivered at least `minDeliveryDays` ago, review request not yet sent).
+ * Orders delivered long before the tenant turned requests on are left alone,
+ * and marketplace orders are excluded - the marketplace asks for reviews.
  */
 export async function getOrdersForReviewRequest(
   tenantId: string,
   minDeliveryDays: number = 7,
+  limit: number = 100,
 ): Promise<Order[]> {
   const db = await getDatabase()
 
   const cutoff = new Date()
   cutoff.setDate(cutoff.getDate() - minDeliveryDays)
+  const oldest = new Date(cutoff)
+  oldest.setDate(oldest.getDate() - REVIEW_REQUEST_WINDOW_DAYS)
 
   const orders = await db
     .collection('orders')
     .find({
       tenantId,
       status: 'delivered',
-      deliveredAt: { $lte: cutoff },
+      deliveredAt: { $lte: cutoff, $gte: oldest },
+      marketplace: { $exists: false },
       // Not yet sent a review request
       $or: [
         { reviewRequestSentAt: { $exists: false } },
         { reviewRequestSentAt: null },
       ],
     })
+    .sort({ deliveredAt: 1 })
+    .limit(limit)
     .toArray()
 
   return orders as unknown as Order[]
@@ -609,7 +856,6 @@ export async function getOrdersForReviewRequest(
 
 /**
  * Mark review request as sent for an order
- * @deprecated Part of email review request system - being removed
  */
 export async function markReviewRequestSent(
   tenantId: string,
@@ -628,6 +874,67 @@ export async function markReviewRequestSent(
   )
 }
 
+/**
+ * Review request conversion - how many requested orders went on to be reviewed
+ * @param since - Only count requests sent on or after this date
+ */
+export async function getReviewRequestStats(
+  tenantId: string,
+  since?: Date,
+): Promise<{ requested: number; reviewed: number; conversionRate: number }> {
+  const db = await getDatabase()
+
+  const [result] = await db
+    .collection('orders')
+    .aggregate([
+      {
+        $match: {
+          tenantId,
+          reviewRequestSentAt: since ? { $gte: since } : { $ne: null },
+        },
+      },
+      {
+        $lookup: {
+          from: 'reviews',
+          let: { orderId: '$id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$tenantId', tenantId] },
+                    { $eq: ['$orderId', '$$orderId'] },
+                  ],
+                },
+              },
+            },
+            { $limit: 1 },
+          ],
+          as: 'reviews',
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          requested: { $sum: 1 },
+          reviewed: {
+            $sum: { $cond: [{ $gt: [{ $size: '$reviews' }, 0] }, 1, 0] },
+          },
+        },
+      },
+    ])
+    .toArray()
+
+  const requested = result?.requested || 0
+  const reviewed = result?.reviewed || 0
+  return {
+    requested,
+    reviewed,
+    conversionRate:
+      requested > 0 ? Math.round((reviewed / requested) * 1000) / 10 : 0,
+  }
+}
+
 /**
  * Find a delivered order where the customer purchased a specific product.
  * Used for verifying purchase before allowing review submission.
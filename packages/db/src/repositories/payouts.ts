@@ -1,13 +1,17 @@
 import type {
   CreatePayoutInput,
   Payout,
+  PayoutBalanceTransaction,
   PayoutFilters,
   PayoutListOptions,
+  PayoutReconciliation,
   PayoutStatus,
   PayoutSummary,
 } from '@madebuy/shared'
+import { getPayoutContribution } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as transactions from './transactions'
 
 /**
  * Create a new payout record
@@ -88,6 +92,73 @@ export async function updatePayoutStatus(
     .updateOne({ stripePayoutId }, { $set: updates })
 }
 
+/**
+ * Store the Stripe balance transactions in a payout and link the matched
+ * ledger transactions to it
+ */
+export async function saveBalanceTransactions(
+  tenantId: string,
+  id: string,
+  balanceTransactions: PayoutBalanceTransaction[],
+): Promise<Payout | null> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const payout = (await db
+    .collection('payouts')
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { balanceTransactions, reconciledAt: now, updatedAt: now } },
+      { returnDocument: 'after' },
+    )) as unknown as Payout | null
+  if (!payout) return null
+
+  await transactions.linkTransactionsToPayout(
+    tenantId,
+    payout.stripePayoutId,
+    balanceTransactions
+      .map((line) => line.transactionId)
+      .filter((transactionId): transactionId is string => !!transactionId),
+  )
+  return payout
+}
+
+/**
+ * Get a payout with the ledger transactions linked to it, flagging any
+ * difference between the payout amount and what those transactions add up to
+ */
+export async function getPayoutReconciliation(
+  tenantId: string,
+  id: string,
+): Promise<PayoutReconciliation | null> {
+  const payout = await getPayout(tenantId, id)
+  if (!payout) return null
+
+  const linked = await transactions.getTransactionsByPayout(
+    tenantId,
+    payout.stripePayoutId,
+  )
+  const lines = payout.balanceTransactions ?? []
+
+  const ledgerTotal = linked.reduce(
+    (sum, tx) => sum + getPayoutContribution(tx),
+    0,
+  )
+  const difference = payout.amount - ledgerTotal
+  const unmatchedCount = lines.filter((line) => !line.transactionId).length
+
+  return {
+    payout,
+    transactions: linked,
+    ledgerTotal,
+    stripeTotal: lines.reduce((sum, line) => sum + line.net, 0),
+    difference,
+    unmatchedCount,
+    isReconciled:
+      !!payout.reconciledAt && difference === 0 && unmatchedCount === 0,
+  }
+}
+
 /**
  * List payouts for a tenant
  */
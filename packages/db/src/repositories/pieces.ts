@@ -117,6 +117,10 @@ export async function createPiece(
     hasVariants: data.hasVariants || false,
     variantOptions: data.variantOptions,
     variants,
+    // Gift card
+    giftCard: data.giftCard,
+    // Pre-order / made-to-order
+    preorder: data.preorder,
     status: data.status || 'draft',
     mediaIds: [],
     isFeatured: data.isFeatured || false,
@@ -1236,6 +1240,71 @@ export async function updateStockSafe(
   return { success: !!result, newStock: result?.stock }
 }
 
+/**
+ * Count units against a pre-order / made-to-order piece's outstanding cap
+ * Atomic - the cap check and increment happen in one update.
+ * Returns false if the cap would be exceeded.
+ */
+export async function reservePreorderUnits(
+  tenantId: string,
+  pieceId: string,
+  quantity: number,
+  maxOutstanding?: number,
+): Promise<boolean> {
+  const db = await getDatabase()
+
+  const filter: Record<string, unknown> = { tenantId, id: pieceId }
+  if (maxOutstanding !== undefined) {
+    filter.$expr = {
+      $lte: [
+        { $add: [{ $ifNull: ['$preorderOutstanding', 0] }, quantity] },
+        maxOutstanding,
+      ],
+    }
+  }
+
+  const result = await db.collection('pieces').updateOne(filter, {
+    $inc: { preorderOutstanding: quantity },
+    $set: { updatedAt: new Date() },
+  })
+
+  return result.modifiedCount > 0
+}
+
+/**
+ * Release pre-order units (order shipped or cancelled, checkout abandoned)
+ */
+export async function releasePreorderUnits(
+  tenantId: string,
+  pieceId: string,
+  quantity: number,
+): Promise<void> {
+  const db = await getDatabase()
+
+  // Clamp at zero so a repeated release can't leave a negative count
+  await db.collection('pieces').updateOne(
+    { tenantId, id: pieceId },
+    [
+      {
+        $set: {
+          preorderOutstanding: {
+            $max: [
+              0,
+              {
+                $subtract: [
+                  { $ifNull: ['$preorderOutstanding', 0] },
+                  quantity,
+                ],
+              },
+            ],
+          },
+          updatedAt: new Date(),
+        },
+      },
+    ],
+  )
+}
+
 // =============================================================================
 // CACHED LOOKUPS
 // =============================================================================
@@ -1,16 +1,36 @@
 import type {
   CreateProductionRunInput,
   Material,
+  MaterialShortfall,
+  Order,
+  OrderItem,
   ProductionMaterialConsumption,
+  ProductionQueue,
+  ProductionQueueItem,
+  ProductionQueueItemRef,
   ProductionRun,
   ProductionRunListOptions,
+  ProductionRunOrderLink,
   ProductionSummary,
 } from '@madebuy/shared'
+import { convertQuantity } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as materialLots from './materialLots'
 import * as materials from './materials'
+import * as orders from './orders'
 import * as pieces from './pieces'
 
+// Orders whose items can still be made - shipped/cancelled orders drop out
+const QUEUE_ORDER_STATUSES: Order['status'][] = [
+  'pending',
+  'confirmed',
+  'processing',
+]
+
+// Safety limit on orders scanned for the production queue
+const MAX_QUEUE_ORDERS = 500
+
 export interface ProductionRunListResult {
   runs: ProductionRun[]
   total: number
@@ -19,8 +39,113 @@ export interface ProductionRunListResult {
   totalPages: number
 }
 
+/**
+ * Made-to-order and personalised items are made per order; everything else
+ * ships from stock
+ */
+function needsProduction(item: OrderItem): boolean {
+  return !!item.productionDue || (item.personalizations?.length ?? 0) > 0
+}
+
+/**
+ * Check queue item references against their orders and build the run's links
+ */
+async function resolveQueueItems(
+  tenantId: string,
+  pieceId: string,
+  refs: ProductionQueueItemRef[],
+): Promise<{ links: ProductionRunOrderLink[]; orders: Map<string, Order> }> {
+  const db = await getDatabase()
+
+  const orderIds = [...new Set(refs.map((ref) => ref.orderId))]
+  const found = (await db
+    .collection('orders')
+    .find({ tenantId, id: { $in: orderIds } })
+    .toArray()) as unknown as Order[]
+  const ordersMap = new Map(found.map((order) => [order.id, order]))
+
+  const links: ProductionRunOrderLink[] = []
+  const seen = new Set<string>()
+  for (const ref of refs) {
+    const order = ordersMap.get(ref.orderId)
+    if (!order) {
+      throw new Error(`Order ${ref.orderId} not found`)
+    }
+
+    const item = order.items[ref.itemIndex]
+    const key = `${ref.orderId}:${ref.itemIndex}`
+    if (
+      !item ||
+      seen.has(key) ||
+      item.pieceId !== pieceId ||
+      item.productionRunId ||
+      !needsProduction(item) ||
+      !QUEUE_ORDER_STATUSES.includes(order.status)
+    ) {
+      throw new Error(
+        `Order ${order.orderNumber} item ${ref.itemIndex + 1} is not in the production queue for this piece`,
+      )
+    }
+    seen.add(key)
+
+    links.push({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      itemIndex: ref.itemIndex,
+      quantity: item.quantity,
+    })
+  }
+
+  return { links, orders: ordersMap }
+}
+
+/**
+ * Mark queue items as made and move their orders along
+ * Orders start processing with their first run and are ready to ship once
+ * every made-to-order / personalised item has been made.
+ */
+async function linkOrderItems(
+  tenantId: string,
+  run: Pick<ProductionRun, 'id' | 'costPerUnit'>,
+  links: ProductionRunOrderLink[],
+  ordersMap: Map<string, Order>,
+): Promise<void> {
+  const db = await getDatabase()
+
+  for (const order of ordersMap.values()) {
+    const indexes = links
+      .filter((link) => link.orderId === order.id)
+      .map((link) => link.itemIndex)
+
+    const set: Record<string, unknown> = { updatedAt: new Date() }
+    for (const index of indexes) {
+      set[`items.${index}.productionRunId`] = run.id
+      // Made for this order, so it cost what this run did
+      set[`items.${index}.unitCost`] = run.costPerUnit
+    }
+
+    const allMade = order.items.every(
+      (item, index) =>
+        !needsProduction(item) ||
+        !!item.productionRunId ||
+        indexes.includes(index),
+    )
+    if (allMade) {
+      set.readyToShipAt = new Date()
+    }
+
+    await db.collection('orders').updateOne({ tenantId, id: order.id }, { $set: set })
+
+    if (order.status === 'pending' || order.status === 'confirmed') {
+      await orders.updateOrderStatus(tenantId, order.id, 'processing')
+    }
+  }
+}
+
 /**
  * Create a production run - logs piece production and decrements material stock
+ * When it fulfils queued order items, the units made for those orders are
+ * handed straight to them instead of going into piece stock.
  */
 export async function createProductionRun(
   tenantId: string,
@@ -34,6 +159,17 @@ export async function createProductionRun(
     throw new Error(`Piece ${input.pieceId} not found`)
   }
 
+  const { links, orders: linkedOrders } = input.orderItems?.length
+    ? await resolveQueueItems(tenantId, piece.id, input.orderItems)
+    : { links: [], orders: new Map<string, Order>() }
+  const quantityForOrders = links.reduce((sum, link) => sum + link.quantity, 0)
+  if (quantityForOrders > input.quantityProduced) {
+    throw new Error(
+      `Insufficient quantity: the selected orders need ${quantityForOrders} units`,
+    )
+  }
+  const quantityToStock = input.quantityProduced - quantityForOrders
+
   if (!piece.materialsUsed || piece.materialsUsed.length === 0) {
     throw new Error(
       `Piece "${piece.name}" has no materials configured. Add materials to the piece first.`,
@@ -49,8 +185,8 @@ export async function createProductionRun(
 
   const materialsMap = new Map(materialsList.map((m) => [m.id, m]))
 
-  // Calculate material consumption and check stock availability
-  const materialsConsumption: ProductionMaterialConsumption[] = []
+  // Work out how much of each material is needed, in its stock unit
+  const needs: Array<{ material: Material; quantityNeeded: number }> = []
   const insufficientStock: string[] = []
 
   for (const usage of piece.materialsUsed) {
@@ -59,29 +195,63 @@ export async function createProductionRun(
       throw new Error(`Material ${usage.materialId} not found`)
     }
 
-    const quantityNeeded = usage.quantity * input.quantityProduced
+    const perUnit = convertQuantity(usage.quantity, usage.unit, material.unit)
+    if (perUnit === null) {
+      throw new Error(
+        `${material.name} is stocked in ${material.unit} and can't be measured in ${usage.unit}`,
+      )
+    }
+
+    const quantityNeeded = perUnit * input.quantityProduced
     if (material.quantityInStock < quantityNeeded) {
       insufficientStock.push(
         `${material.name}: need ${quantityNeeded} ${material.unit}, have ${material.quantityInStock}`,
       )
     }
-
-    materialsConsumption.push({
-      materialId: material.id,
-      materialName: material.name,
-      quantityUsed: quantityNeeded,
-      unit: material.unit,
-      costPerUnit: material.costPerUnit,
-      totalCost: material.costPerUnit * quantityNeeded,
-      stockBefore: material.quantityInStock,
-      stockAfter: material.quantityInStock - quantityNeeded,
-    })
+    needs.push({ material, quantityNeeded })
   }
 
   if (insufficientStock.length > 0) {
     throw new Error(`Insufficient materials:\n${insufficientStock.join('\n')}`)
   }
 
+  // Take the materials from stock, oldest lots first, so the run is costed
+  // at what they were bought for. Undo everything if one of them fails.
+  const materialsConsumption: ProductionMaterialConsumption[] = []
+  try {
+    for (const { material, quantityNeeded } of needs) {
+      const { material: updated, lots } = await materials.consumeStock(
+        tenantId,
+        material.id,
+        quantityNeeded,
+      )
+      const totalCost = materialLots.getConsumptionCost(lots)
+
+      materialsConsumption.push({
+        materialId: material.id,
+        materialName: material.name,
+        quantityUsed: quantityNeeded,
+        unit: material.unit,
+        costPerUnit: quantityNeeded > 0 ? totalCost / quantityNeeded : 0,
+        totalCost,
+        lots,
+        stockBefore: material.quantityInStock,
+        stockAfter: updated.quantityInStock,
+      })
+    }
+  } catch (error) {
+    for (const consumption of materialsConsumption) {
+      await materials.adjustStock(
+        tenantId,
+        consumption.materialId,
+        consumption.quantityUsed,
+        'production_reversal',
+        { restoreLots: consumption.lots },
+      )
+    }
+    throw error
+  }
+
   // Calculate totals
   const totalMaterialCost = materialsConsumption.reduce(
     (sum, m) => sum + m.totalCost,
@@ -106,7 +276,8 @@ export async function createProductionRun(
     productionDate: input.productionDate || new Date(),
     notes: input.notes,
     pieceStockBefore,
-    pieceStockAfter: pieceStockBefore + input.quantityProduced,
+    pieceStockAfter: pieceStockBefore + quantityToStock,
+    orderItems: links.length > 0 ? links : undefined,
     createdAt: new Date(),
   }
 
@@ -117,18 +288,15 @@ export async function createProductionRun(
   // 1. Insert the production run
   await db.collection('production_runs').insertOne(productionRun)
 
-  // 2. Decrement material stock for each material used
-  for (const consumption of materialsConsumption) {
-    await materials.adjustStock(
-      tenantId,
-      consumption.materialId,
-      -consumption.quantityUsed,
-      'production',
-    )
+  // 2. Increment piece stock with whatever wasn't made for an order
+  if (quantityToStock > 0) {
+    await pieces.incrementStock(tenantId, piece.id, quantityToStock)
   }
 
-  // 3. Increment piece stock
-  await pieces.incrementStock(tenantId, piece.id, input.quantityProduced)
+  // 3. Hand the rest to the queued orders
+  if (links.length > 0) {
+    await linkOrderItems(tenantId, productionRun, links, linkedOrders)
+  }
 
   return productionRun
 }
@@ -242,21 +410,48 @@ export async function deleteProductionRun(
   }
 
   // Reverse material stock changes (add back what was consumed)
+  // Stock goes back into the lots it came from; runs recorded before lot
+  // tracking get a new lot at the cost they were charged.
   for (const consumption of productionRun.materialsUsed) {
     await materials.adjustStock(
       tenantId,
       consumption.materialId,
       consumption.quantityUsed, // Add back (positive)
       'production_reversal',
+      {
+        costPerUnit: consumption.costPerUnit,
+        restoreLots: consumption.lots,
+      },
     )
   }
 
   // Reverse piece stock change (subtract what was added)
-  await pieces.decrementStock(
-    tenantId,
-    productionRun.pieceId,
-    productionRun.quantityProduced,
+  const quantityForOrders = (productionRun.orderItems || []).reduce(
+    (sum, link) => sum + link.quantity,
+    0,
   )
+  const quantityStocked = productionRun.quantityProduced - quantityForOrders
+  if (quantityStocked > 0) {
+    await pieces.decrementStock(
+      tenantId,
+      productionRun.pieceId,
+      quantityStocked,
+    )
+  }
+
+  // Put the order items back in the queue
+  for (const link of productionRun.orderItems || []) {
+    await db.collection('orders').updateOne(
+      { tenantId, id: link.orderId },
+      {
+        $unset: {
+          [`items.${link.itemIndex}.productionRunId`]: '',
+          readyToShipAt: '',
+        },
+        $set: { updatedAt: new Date() },
+      },
+    )
+  }
 
   // Delete the production run record
   await db.collection('production_runs').deleteOne({ tenantId, id })
@@ -315,3 +510,134 @@ export async function getProductionSummary(
         : 0,
   }
 }
+
+/**
+ * Get unfulfilled made-to-order and personalised order items, soonest due
+ * first, with the materials they'll need beyond what's in stock
+ */
+export async function getProductionQueue(
+  tenantId: string,
+): Promise<ProductionQueue> {
+  const db = await getDatabase()
+
+  const queuedOrders = (await db
+    .collection('orders')
+    .find({
+      tenantId,
+      status: { $in: QUEUE_ORDER_STATUSES },
+      paymentStatus: { $nin: ['failed', 'refunded'] },
+      items: {
+        $elemMatch: {
+          productionRunId: { $exists: false },
+          $or: [
+            { productionDue: { $ne: null } },
+            { 'personalizations.0': { $exists: true } },
+          ],
+        },
+      },
+    })
+    .sort({ createdAt: 1 })
+    .limit(MAX_QUEUE_ORDERS)
+    .toArray()) as unknown as Order[]
+
+  const items: ProductionQueueItem[] = []
+  for (const order of queuedOrders) {
+    order.items.forEach((item, itemIndex) => {
+      if (item.productionRunId || !needsProduction(item)) return
+      items.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        customerName: order.customerName,
+        orderedAt: order.createdAt,
+        itemIndex,
+        pieceId: item.pieceId,
+        name: item.name,
+        quantity: item.quantity,
+        variantAttributes: item.variantAttributes,
+        personalizations: item.personalizations,
+        productionDue: item.productionDue,
+      })
+    })
+  }
+
+  // Items with a due date first (soonest first), then oldest orders
+  items.sort((a, b) => {
+    if (a.productionDue && b.productionDue) {
+      return (
+        new Date(a.productionDue).getTime() - new Date(b.productionDue).getTime()
+      )
+    }
+    if (a.productionDue) return -1
+    if (b.productionDue) return 1
+    return new Date(a.orderedAt).getTime() - new Date(b.orderedAt).getTime()
+  })
+
+  return {
+    items,
+    shortfalls: await projectMaterialShortfalls(tenantId, items),
+  }
+}
+
+/**
+ * Project material needs for queued items from each piece's materialsUsed
+ * Only materials short of what the queue needs are returned.
+ */
+async function projectMaterialShortfalls(
+  tenantId: string,
+  items: ProductionQueueItem[],
+): Promise<MaterialShortfall[]> {
+  if (items.length === 0) return []
+
+  const db = await getDatabase()
+
+  const quantityByPiece = new Map<string, number>()
+  for (const item of items) {
+    quantityByPiece.set(
+      item.pieceId,
+      (quantityByPiece.get(item.pieceId) || 0) + item.quantity,
+    )
+  }
+
+  const piecesMap = await pieces.getPiecesByIds(tenantId, [
+    ...quantityByPiece.keys(),
+  ])
+
+  const required = new Map<string, Array<{ quantity: number; unit: string }>>()
+  for (const [pieceId, quantity] of quantityByPiece) {
+    for (const usage of piecesMap.get(pieceId)?.materialsUsed || []) {
+      required.set(usage.materialId, [
+        ...(required.get(usage.materialId) || []),
+        { quantity: usage.quantity * quantity, unit: usage.unit },
+      ])
+    }
+  }
+
+  if (required.size === 0) return []
+
+  const materialsList = (await db
+    .collection('materials')
+    .find({ tenantId, id: { $in: [...required.keys()] } })
+    .toArray()) as unknown as Material[]
+
+  const shortfalls: MaterialShortfall[] = []
+  for (const material of materialsList) {
+    // Recipes may use a different unit to the one the material is stocked in
+    const needed = (required.get(material.id) || []).reduce(
+      (sum, need) =>
+        sum + (convertQuantity(need.quantity, need.unit, material.unit) ?? 0),
+      0,
+    )
+    if (needed > material.quantityInStock) {
+      shortfalls.push({
+        materialId: material.id,
+        materialName: material.name,
+        unit: material.unit,
+        required: needed,
+        inStock: material.quantityInStock,
+        shortfall: needed - material.quantityInStock,
+      })
+    }
+  }
+
+  return shortfalls.sort((a, b) => b.shortfall - a.shortfall)
+}
@@ -0,0 +1,365 @@
+/**
+ * Purchase Orders Repository
+ * Material orders to suppliers, drafted from low stock and restocked on receipt
+ *
+ * Lifecycle:
+ * 1. generateDraftPurchaseOrders() - One draft per supplier for materials at
+ *    or below their reorder point (skipping materials already on order)
+ * 2. markPurchaseOrderSent() - Once the PDF has been emailed to the supplier
+ * 3. receivePurchaseOrder() - Restocks each material with what was delivered
+ */
+
+import type {
+  Material,
+  PurchaseOrder,
+  PurchaseOrderFilters,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderInput,
+  Supplier,
+  UpdatePurchaseOrderInput,
+} from '@madebuy/shared'
+import {
+  ConflictError,
+  getExpectedDeliveryDate,
+  getPurchaseOrderSubtotal,
+  NotFoundError,
+  suggestReorderQuantity,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as materials from './materials'
+import * as suppliers from './suppliers'
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent']
+
+function generatePoNumber(): string {
+  const timestamp = Date.now().toString(36).toUpperCase()
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+  return `PO-${timestamp}-${random}`
+}
+
+function isBelowMinimum(supplier: Supplier, subtotal: number): boolean {
+  return !!supplier.minimumOrder && subtotal < supplier.minimumOrder
+}
+
+/**
+ * Find the supplier for a material - by link, or by the legacy free-text name
+ */
+function findSupplierForMaterial(
+  material: Material,
+  supplierList: Supplier[],
+): Supplier | undefined {
+  if (material.supplierId) {
+    return supplierList.find((s) => s.id === material.supplierId)
+  }
+  const name = material.supplier?.trim().toLowerCase()
+  if (!name) return undefined
+  return supplierList.find((s) => s.name.trim().toLowerCase() === name)
+}
+
+/**
+ * Create draft purchase orders for low stock materials, one per supplier
+ * Materials without a known supplier, or already on an open order, are skipped.
+ */
+export async function generateDraftPurchaseOrders(
+  tenantId: string,
+): Promise<PurchaseOrder[]> {
+  const db = await getDatabase()
+
+  const [lowStock, supplierList, openOrders] = await Promise.all([
+    db
+      .collection('materials')
+      .find({ tenantId, isLowStock: true })
+      .toArray() as unknown as Promise<Material[]>,
+    suppliers.listSuppliers(tenantId),
+    db
+      .collection('purchase_orders')
+      .find({ tenantId, status: { $in: OPEN_STATUSES } })
+      .toArray() as unknown as Promise<PurchaseOrder[]>,
+  ])
+
+  const onOrder = new Set(
+    openOrders.flatMap((po) => po.items.map((item) => item.materialId)),
+  )
+
+  const itemsBySupplier = new Map<string, PurchaseOrderItem[]>()
+  for (const material of lowStock) {
+    if (onOrder.has(material.id)) continue
+    const supplier = findSupplierForMaterial(material, supplierList)
+    if (!supplier) continue
+
+    const items = itemsBySupplier.get(supplier.id) || []
+    items.push({
+      materialId: material.id,
+      materialName: material.name,
+      supplierSku: material.supplierSku,
+      unit: material.unit,
+      quantity: suggestReorderQuantity(material),
+      costPerUnit: material.costPerUnit,
+    })
+    itemsBySupplier.set(supplier.id, items)
+  }
+
+  const drafts: PurchaseOrder[] = []
+  for (const [supplierId, items] of itemsBySupplier) {
+    const supplier = supplierList.find((s) => s.id === supplierId)
+    if (!supplier) continue
+
+    const subtotal = getPurchaseOrderSubtotal(items)
+    drafts.push({
+      id: nanoid(),
+      tenantId,
+      poNumber: generatePoNumber(),
+      supplierId,
+      supplierName: supplier.name,
+      status: 'draft',
+      items,
+      subtotal,
+      currency: supplier.currency,
+      belowMinimum: isBelowMinimum(supplier, subtotal),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+  }
+
+  if (drafts.length > 0) {
+    await db.collection('purchase_orders').insertMany(drafts)
+  }
+
+  return drafts
+}
+
+export async function getPurchaseOrder(
+  tenantId: string,
+  id: string,
+): Promise<PurchaseOrder | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection('purchase_orders')
+    .findOne({ tenantId, id })) as PurchaseOrder | null
+}
+
+export async function listPurchaseOrders(
+  tenantId: string,
+  filters?: PurchaseOrderFilters,
+): Promise<PurchaseOrder[]> {
+  const db = await getDatabase()
+
+  const query: Record<string, unknown> = { tenantId }
+  if (filters?.status) {
+    query.status = filters.status
+  }
+  if (filters?.supplierId) {
+    query.supplierId = filters.supplierId
+  }
+
+  const results = await db
+    .collection('purchase_orders')
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .toArray()
+
+  return results as unknown as PurchaseOrder[]
+}
+
+/**
+ * Change quantities, costs or notes on a draft
+ * Lines with a quantity of 0 are removed.
+ */
+export async function updatePurchaseOrder(
+  tenantId: string,
+  id: string,
+  input: UpdatePurchaseOrderInput,
+): Promise<PurchaseOrder> {
+  const db = await getDatabase()
+
+  const purchaseOrder = await getPurchaseOrder(tenantId, id)
+  if (!purchaseOrder) {
+    throw new NotFoundError('Purchase order', id)
+  }
+  if (purchaseOrder.status !== 'draft') {
+    throw new ConflictError('Only draft purchase orders can be edited')
+  }
+
+  const set: Record<string, unknown> = { updatedAt: new Date() }
+  if (input.notes !== undefined) {
+    set.notes = input.notes
+  }
+
+  if (input.items) {
+    const changes = new Map(input.items.map((item) => [item.materialId, item]))
+    const items = purchaseOrder.items
+      .map((item) => {
+        const change = changes.get(item.materialId)
+        return change
+          ? {
+              ...item,
+              quantity: change.quantity,
+              costPerUnit: change.costPerUnit,
+            }
+          : item
+      })
+      .filter((item) => item.quantity > 0)
+    if (items.length === 0) {
+      throw new ValidationError('A purchase order needs at least one item')
+    }
+
+    const supplier = await suppliers.getSupplier(
+      tenantId,
+      purchaseOrder.supplierId,
+    )
+    const subtotal = getPurchaseOrderSubtotal(items)
+    set.items = items
+    set.subtotal = subtotal
+    set.belowMinimum = supplier ? isBelowMinimum(supplier, subtotal) : false
+  }
+
+  const result = await db
+    .collection('purchase_orders')
+    .findOneAndUpdate(
+      { tenantId, id, status: 'draft' },
+      { $set: set },
+      { returnDocument: 'after' },
+    )
+  if (!result) {
+    throw new ConflictError('Only draft purchase orders can be edited')
+  }
+
+  return result as unknown as PurchaseOrder
+}
+
+/**
+ * Record that the purchase order went to the supplier
+ * Sending again (e.g. a corrected email) keeps it as sent.
+ */
+export async function markPurchaseOrderSent(
+  tenantId: string,
+  id: string,
+): Promise<PurchaseOrder> {
+  const db = await getDatabase()
+
+  const purchaseOrder = await getPurchaseOrder(tenantId, id)
+  if (!purchaseOrder) {
+    throw new NotFoundError('Purchase order', id)
+  }
+
+  const supplier = await suppliers.getSupplier(
+    tenantId,
+    purchaseOrder.supplierId,
+  )
+  const sentAt = new Date()
+
+  const result = await db.collection('purchase_orders').findOneAndUpdate(
+    { tenantId, id, status: { $in: OPEN_STATUSES } },
+    {
+      $set: {
+        status: 'sent',
+        sentAt,
+        expectedAt: getExpectedDeliveryDate(sentAt, supplier?.leadTimeDays),
+        updatedAt: sentAt,
+      },
+    },
+    { returnDocument: 'after' },
+  )
+  if (!result) {
+    throw new ConflictError(`Purchase order is already ${purchaseOrder.status}`)
+  }
+
+  return result as unknown as PurchaseOrder
+}
+
+/**
+ * Receive a purchase order and restock its materials
+ * Material costs are updated to what was paid on the order.
+ */
+export async function receivePurchaseOrder(
+  tenantId: string,
+  id: string,
+  input: ReceivePurchaseOrderInput = {},
+): Promise<PurchaseOrder> {
+  const db = await getDatabase()
+
+  const purchaseOrder = await getPurchaseOrder(tenantId, id)
+  if (!purchaseOrder) {
+    throw new NotFoundError('Purchase order', id)
+  }
+
+  const received = new Map(
+    (input.items || []).map((item) => [item.materialId, item.quantityReceived]),
+  )
+  const items = purchaseOrder.items.map((item) => ({
+    ...item,
+    quantityReceived: Math.max(
+      received.get(item.materialId) ?? item.quantity,
+      0,
+    ),
+  }))
+
+  // Claim the order first so a double submit can't restock twice
+  const receivedAt = new Date()
+  const result = await db
+    .collection('purchase_orders')
+    .findOneAndUpdate(
+      { tenantId, id, status: { $in: OPEN_STATUSES } },
+      {
+        $set: { status: 'received', items, receivedAt, updatedAt: receivedAt },
+      },
+      { returnDocument: 'after' },
+    )
+  if (!result) {
+    throw new ConflictError(`Purchase order is already ${purchaseOrder.status}`)
+  }
+
+  for (const item of items) {
+    if (item.quantityReceived <= 0) continue
+    const material = await materials.getMaterial(tenantId, item.materialId)
+    if (!material) continue // Deleted since the order was placed
+
+    await materials.adjustStock(
+      tenantId,
+      item.materialId,
+      item.quantityReceived,
+      'restock',
+      {
+        costPerUnit: item.costPerUnit,
+        source: 'purchase_order',
+        sourceId: purchaseOrder.id,
+      },
+    )
+    if (item.costPerUnit !== material.costPerUnit) {
+      await materials.updateMaterial(tenantId, item.materialId, {
+        costPerUnit: item.costPerUnit,
+      })
+    }
+  }
+
+  return result as unknown as PurchaseOrder
+}
+
+export async function cancelPurchaseOrder(
+  tenantId: string,
+  id: string,
+): Promise<void> {
+  const db = await getDatabase()
+
+  const result = await db.collection('purchase_orders').updateOne(
+    { tenantId, id, status: { $in: OPEN_STATUSES } },
+    {
+      $set: {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        updatedAt: new Date(),
+      },
+    },
+  )
+  if (result.matchedCount === 0) {
+    const purchaseOrder = await getPurchaseOrder(tenantId, id)
+    if (!purchaseOrder) {
+      throw new NotFoundError('Purchase order', id)
+    }
+    throw new ConflictError(`Purchase order is already ${purchaseOrder.status}`)
+  }
+}
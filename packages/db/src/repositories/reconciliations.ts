@@ -9,8 +9,10 @@ import type {
 } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as barcodes from './barcodes'
 import * as materials from './materials'
 import * as pieces from './pieces'
+import * as variants from './variants'
 
 export interface ReconciliationListResult {
   reconciliations: InventoryReconciliation[]
@@ -154,6 +156,7 @@ export async function addItem(
   let expectedQuantity: number
   let unit: string | undefined
   let costPerUnit: number | undefined
+  let pieceId: string | undefined
 
   if (input.itemType === 'material') {
     const material = await materials.getMaterial(tenantId, input.itemId)
@@ -164,6 +167,22 @@ export async function addItem(
     expectedQuantity = material.quantityInStock
     unit = material.unit
     costPerUnit = material.costPerUnit
+  } else if (input.itemType === 'variant') {
+    const variant = await db.collection('variant_combinations').findOne({
+      tenantId,
+      id: input.itemId,
+      isDeleted: { $ne: true },
+    })
+    const piece = variant
+      ? await pieces.getPiece(tenantId, variant.pieceId)
+      : null
+    if (!variant || !piece) {
+      throw new Error(`Variant ${input.itemId} not found`)
+    }
+    const attributes: Record<string, string> = variant.attributes || {}
+    itemName = `${piece.name} - ${Object.values(attributes).join(' / ')}`
+    expectedQuantity = variant.stock ?? 0
+    pieceId = piece.id
   } else {
     const piece = await pieces.getPiece(tenantId, input.itemId)
     if (!piece) {
@@ -177,6 +196,7 @@ export async function addItem(
     id: nanoid(),
     itemType: input.itemType,
     itemId: input.itemId,
+    pieceId,
     itemName,
     unit,
     expectedQuantity,
@@ -284,6 +304,52 @@ export async function updateItem(
   await recalculateTotals(tenantId, reconciliationId)
 }
 
+/**
+ * Count one unit of a scanned item
+ * The item is added to the count if it isn't on it yet. The first scan of an
+ * item sets its count to 1 (replacing the expected quantity it starts with);
+ * each later scan adds 1.
+ */
+export async function recordScan(
+  tenantId: string,
+  reconciliationId: string,
+  code: string,
+): Promise<ReconciliationItem> {
+  const scanned = await barcodes.findByCode(tenantId, code)
+  if (!scanned) {
+    throw new Error(`No item found with barcode or SKU ${code.trim()}`)
+  }
+
+  const reconciliation = await getReconciliation(tenantId, reconciliationId)
+  if (!reconciliation) {
+    throw new Error(`Reconciliation ${reconciliationId} not found`)
+  }
+
+  let item = reconciliation.items.find(
+    (i) => i.itemType === scanned.itemType && i.itemId === scanned.itemId,
+  )
+  if (!item) {
+    item = await addItem(tenantId, reconciliationId, {
+      itemType: scanned.itemType,
+      itemId: scanned.itemId,
+    })
+  }
+
+  const actualQuantity = item.countedAt ? item.actualQuantity + 1 : 1
+  await updateItem(tenantId, reconciliationId, item.id, {
+    actualQuantity,
+    adjustmentReason: item.adjustmentReason,
+    notes: item.notes,
+  })
+
+  return {
+    ...item,
+    actualQuantity,
+    discrepancy: actualQuantity - item.expectedQuantity,
+    countedAt: new Date(),
+  }
+}
+
 /**
  * Recalculate reconciliation totals
  */
@@ -349,6 +415,11 @@ export async function completeReconciliation(
         item.discrepancy,
         'reconciliation',
       )
+    } else if (item.itemType === 'variant') {
+      // Set variant stock to actual quantity
+      await variants.bulkUpdateStock(tenantId, [
+        { variantId: item.itemId, stock: item.actualQuantity },
+      ])
     } else {
       // Set piece stock to actual quantity
       await pieces.updatePiece(tenantId, item.itemId, {
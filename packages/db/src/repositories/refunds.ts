@@ -0,0 +1,382 @@
+/**
+ * Refunds Repository
+ * Admin-issued refunds - works out what a refund covers, then records it once
+ * the payment provider has paid it back: the order's refund history, restocked
+ * items, the ledger entry and the return it settles.
+ */
+
+import type {
+  CreateRefundInput,
+  Order,
+  OrderRefund,
+  OrderRefundItem,
+  RefundLineInput,
+  RefundProvider,
+} from '@madebuy/shared'
+import {
+  ConflictError,
+  calculateGstFromInclusive,
+  formatMoney,
+  fromMinorUnits,
+  MARKETPLACE_LABELS,
+  toMinorUnits,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as pieces from './pieces'
+import * as returns from './returns'
+import * as transactions from './transactions'
+
+export interface RefundPlan {
+  amount: number // cents
+  items: OrderRefundItem[]
+  includesShipping: boolean
+  reason?: string
+  restock: boolean
+  returnId?: string
+}
+
+/**
+ * Amount (cents) still available to refund on an order
+ * Order totals are in major units; refundedAmount is in cents.
+ */
+export function getRefundableAmount(order: Order): number {
+  return Math.max(
+    0,
+    toMinorUnits(order.total, order.currency) - (order.refundedAmount || 0),
+  )
+}
+
+function toRefundItems(
+  order: Order,
+  lines: RefundLineInput[],
+): OrderRefundItem[] {
+  const seen = new Set<string>()
+  return lines.map((line) => {
+    const key = `${line.pieceId}:${line.variantId ?? ''}`
+    const orderItem = order.items.find(
+      (item) =>
+        item.pieceId === line.pieceId &&
+        (item.variantId ?? '') === (line.variantId ?? ''),
+    )
+    if (!orderItem || seen.has(key)) {
+      throw new ValidationError('Item is not on this order', {
+        items: ['Item is not on this order'],
+      })
+    }
+    seen.add(key)
+
+    const refundable = returns.getReturnableQuantity(
+      order,
+      line.pieceId,
+      line.variantId,
+    )
+    if (
+      !Number.isInteger(line.quantity) ||
+      line.quantity < 1 ||
+      line.quantity > refundable
+    ) {
+      const message = `Only ${refundable} of ${orderItem.name} left to refund`
+      throw new ValidationError(message, { items: [message] })
+    }
+
+    return {
+      pieceId: line.pieceId,
+      variantId: line.variantId,
+      name: orderItem.name,
+      quantity: line.quantity,
+      amount: toMinorUnits(orderItem.price, order.currency) * line.quantity,
+    }
+  })
+}
+
+/**
+ * Work out and validate what a refund covers before any money moves
+ * - No items and no amount refunds everything left on the order
+ * - Items refund those lines (plus shipping if asked), unless an amount is given
+ * - Refunding a return defaults to the returned items
+ */
+export async function prepareRefund(
+  order: Order,
+  input: CreateRefundInput,
+): Promise<RefundPlan> {
+  if (order.marketplace) {
+    const platform = MARKETPLACE_LABELS[order.marketplace.platform]
+    throw new ValidationError(`Refund this order on ${platform}`, {
+      order: [`Refund this order on ${platform}`],
+    })
+  }
+  if (order.paymentStatus !== 'paid') {
+    throw new ValidationError('Only paid orders can be refunded', {
+      order: ['Only paid orders can be refunded'],
+    })
+  }
+
+  const refundable = getRefundableAmount(order)
+  if (refundable <= 0) {
+    throw new ValidationError('This order has already been fully refunded', {
+      order: ['This order has already been fully refunded'],
+    })
+  }
+
+  let lines = input.items ?? []
+  if (input.returnId) {
+    const returnRequest = await returns.getReturn(
+      order.tenantId,
+      input.returnId,
+    )
+    if (
+      !returnRequest ||
+      returnRequest.orderId !== order.id ||
+      returnRequest.status === 'rejected' ||
+      returnRequest.status === 'refunded'
+    ) {
+      throw new ValidationError('Return is not open on this order', {
+        returnId: ['Return is not open on this order'],
+      })
+    }
+    if (lines.length === 0) {
+      lines = returnRequest.items
+    }
+  }
+
+  const fullRefund = lines.length === 0 && input.amount === undefined
+  const items = fullRefund
+    ? toRefundItems(
+        order,
+        order.items
+          .map((item) => ({
+            pieceId: item.pieceId,
+            variantId: item.variantId,
+            quantity: returns.getReturnableQuantity(
+              order,
+              item.pieceId,
+              item.variantId,
+            ),
+          }))
+          .filter(
+            (line, index, all) =>
+              line.quantity > 0 &&
+              all.findIndex(
+                (other) =>
+                  other.pieceId === line.pieceId &&
+                  other.variantId === line.variantId,
+              ) === index,
+          ),
+      )
+    : toRefundItems(order, lines)
+  const includesShipping = fullRefund || !!input.includeShipping
+
+  let amount: number
+  if (fullRefund) {
+    amount = refundable
+  } else if (input.amount !== undefined) {
+    amount = input.amount
+  } else {
+    amount = Math.min(
+      refundable,
+      items.reduce((sum, item) => sum + item.amount, 0) +
+        (includesShipping ? toMinorUnits(order.shipping, order.currency) : 0),
+    )
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+    const message = `Refund must be more than 0 and at most ${formatMoney(fromMinorUnits(refundable, order.currency), order.currency)}`
+    throw new ValidationError(message, { amount: [message] })
+  }
+
+  if (input.restock && items.length === 0) {
+    throw new ValidationError('Choose the items to put back in stock', {
+      items: ['Choose the items to put back in stock'],
+    })
+  }
+
+  return {
+    amount,
+    items,
+    includesShipping,
+    reason: input.reason?.trim() || undefined,
+    restock: !!input.restock,
+    returnId: input.returnId,
+  }
+}
+
+/**
+ * Hold a refund's amount on the order before asking the provider to pay it.
+ * The check and the increment are one conditional update, so two refunds
+ * made at the same time can't take the order past its total.
+ */
+export async function reserveRefund(
+  order: Order,
+  amount: number,
+): Promise<void> {
+  const db = await getDatabase()
+
+  const result = await db.collection('orders').updateOne(
+    {
+      tenantId: order.tenantId,
+      id: order.id,
+      $expr: {
+        $lte: [
+          { $add: [{ $ifNull: ['$refundedAmount', 0] }, amount] },
+          toMinorUnits(order.total, order.currency),
+        ],
+      },
+    },
+    { $inc: { refundedAmount: amount }, $set: { updatedAt: new Date() } },
+  )
+
+  if (result.matchedCount === 0) {
+    throw new ConflictError(
+      'Another refund has already been made on this order. Reload and try again.',
+    )
+  }
+}
+
+/**
+ * Give back an amount held by reserveRefund when the provider refund fails
+ */
+export async function releaseRefund(
+  order: Order,
+  amount: number,
+): Promise<void> {
+  const db = await getDatabase()
+
+  await db
+    .collection('orders')
+    .updateOne(
+      { tenantId: order.tenantId, id: order.id },
+      { $inc: { refundedAmount: -amount }, $set: { updatedAt: new Date() } },
+    )
+}
+
+/**
+ * Put refunded items back in stock
+ * Digital items and pieces that don't track stock are left alone.
+ */
+async function restockItems(
+  order: Order,
+  items: OrderRefundItem[],
+): Promise<void> {
+  for (const item of items) {
+    const orderItem = order.items.find(
+      (line) =>
+        line.pieceId === item.pieceId &&
+        (line.variantId ?? '') === (item.variantId ?? ''),
+    )
+    if (orderItem?.isDigital) continue
+
+    const piece = await pieces.getPiece(order.tenantId, item.pieceId)
+    if (!piece) continue
+
+    if (item.variantId) {
+      const variant = piece.variants?.find((v) => v.id === item.variantId)
+      if (typeof variant?.stock !== 'number') continue
+      await pieces.incrementVariantStock(
+        order.tenantId,
+        item.pieceId,
+        item.variantId,
+        item.quantity,
+      )
+    } else {
+      if (typeof piece.stock !== 'number') continue
+      await pieces.incrementStock(order.tenantId, item.pieceId, item.quantity)
+    }
+  }
+}
+
+/**
+ * Record a refund the payment provider has already paid back
+ * Fully refunded orders move to refunded; partial refunds keep their status.
+ */
+export async function recordRefund(
+  order: Order,
+  plan: RefundPlan,
+  payment: {
+    provider: RefundProvider
+    providerRefundId?: string
+    gstRate?: number // Set for GST-registered sellers
+    reserved?: boolean // Amount already held on the order by reserveRefund
+  },
+): Promise<OrderRefund> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const transaction = await transactions.createTransaction({
+    tenantId: order.tenantId,
+    orderId: order.id,
+    type: 'refund',
+    grossAmount: plan.amount,
+    stripeFee: 0,
+    platformFee: 0,
+    netAmount: plan.amount,
+    gstAmount:
+      payment.gstRate !== undefined
+        ? calculateGstFromInclusive(plan.amount, payment.gstRate)
+        : undefined,
+    gstRate: payment.gstRate,
+    currency: order.currency,
+    stripePaymentIntentId:
+      payment.provider === 'stripe'
+        ? order.stripePaymentIntentId || order.paymentIntentId
+        : undefined,
+    stripeRefundId:
+      payment.provider === 'stripe' ? payment.providerRefundId : undefined,
+    status: 'completed',
+    description: `Refund for order ${order.orderNumber}`,
+    completedAt: now,
+  })
+
+  const refund: OrderRefund = {
+    id: nanoid(),
+    amount: plan.amount,
+    items: plan.items,
+    includesShipping: plan.includesShipping,
+    reason: plan.reason,
+    restocked: plan.restock,
+    provider: payment.provider,
+    providerRefundId: payment.providerRefundId,
+    returnId: plan.returnId,
+    transactionId: transaction.id,
+    createdAt: now,
+  }
+
+  const updated = await db.collection('orders').findOneAndUpdate(
+    { tenantId: order.tenantId, id: order.id },
+    {
+      $push: { refunds: refund } as any,
+      ...(!payment.reserved && { $inc: { refundedAmount: plan.amount } }),
+      $set: {
+        refundedAt: now,
+        refundId: payment.providerRefundId,
+        refundReason: plan.reason,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: 'after' },
+  )
+
+  if (
+    updated &&
+    (updated.refundedAmount || 0) >=
+      toMinorUnits(updated.total, updated.currency)
+  ) {
+    await db
+      .collection('orders')
+      .updateOne(
+        { tenantId: order.tenantId, id: order.id },
+        { $set: { status: 'refunded', paymentStatus: 'refunded' } },
+      )
+  }
+
+  if (plan.restock) {
+    await restockItems(order, plan.items)
+  }
+
+  if (plan.returnId) {
+    await returns.markReturnRefunded(order.tenantId, plan.returnId, refund.id)
+  }
+
+  return refund
+}
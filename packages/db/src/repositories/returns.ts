@@ -0,0 +1,287 @@
+/**
+ * Returns Repository
+ * Return requests (RMAs) buyers start from their order page - the seller
+ * approves them, sends a return label, receives the parcel and refunds it.
+ */
+
+import type {
+  CreateReturnRequestInput,
+  Order,
+  ReturnItem,
+  ReturnRequest,
+  ReturnStatus,
+} from '@madebuy/shared'
+import {
+  ConflictError,
+  NotFoundError,
+  RETURN_REASON_LABELS,
+  ValidationError,
+} from '@madebuy/shared'
+import { customAlphabet, nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+const generateRmaCode = customAlphabet('23456789ABCDEFGHJKMNPQRSTUVWXYZ', 6)
+
+const OPEN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received']
+
+/**
+ * Quantity of an order line not yet refunded
+ */
+export function getReturnableQuantity(
+  order: Order,
+  pieceId: string,
+  variantId?: string,
+): number {
+  const ordered = order.items
+    .filter(
+      (item) =>
+        item.pieceId === pieceId &&
+        (item.variantId ?? '') === (variantId ?? ''),
+    )
+    .reduce((sum, item) => sum + item.quantity, 0)
+  const refunded = (order.refunds ?? [])
+    .flatMap((refund) => refund.items)
+    .filter(
+      (item) =>
+        item.pieceId === pieceId &&
+        (item.variantId ?? '') === (variantId ?? ''),
+    )
+    .reduce((sum, item) => sum + item.quantity, 0)
+  return Math.max(0, ordered - refunded)
+}
+
+function validateReturnItems(
+  order: Order,
+  input: CreateReturnRequestInput,
+): ReturnItem[] {
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    throw new ValidationError('Choose the items you want to return', {
+      items: ['Choose the items you want to return'],
+    })
+  }
+
+  const seen = new Set<string>()
+  return input.items.map((line) => {
+    const key = `${line.pieceId}:${line.variantId ?? ''}`
+    const orderItem = order.items.find(
+      (item) =>
+        item.pieceId === line.pieceId &&
+        (item.variantId ?? '') === (line.variantId ?? ''),
+    )
+    if (!orderItem || seen.has(key)) {
+      throw new ValidationError('Item is not on this order', {
+        items: ['Item is not on this order'],
+      })
+    }
+    seen.add(key)
+
+    if (orderItem.isDigital) {
+      const message = `${orderItem.name} is a digital download and can't be returned`
+      throw new ValidationError(message, { items: [message] })
+    }
+
+    const returnable = getReturnableQuantity(
+      order,
+      line.pieceId,
+      line.variantId,
+    )
+    if (
+      !Number.isInteger(line.quantity) ||
+      line.quantity < 1 ||
+      line.quantity > returnable
+    ) {
+      const message = `You can return up to ${returnable} of ${orderItem.name}`
+      throw new ValidationError(message, { items: [message] })
+    }
+
+    return {
+      pieceId: line.pieceId,
+      variantId: line.variantId,
+      name: orderItem.name,
+      quantity: line.quantity,
+    }
+  })
+}
+
+/**
+ * Start a return for a shipped or delivered order
+ * An order can only have one open return at a time.
+ */
+export async function createReturnRequest(
+  order: Order,
+  input: CreateReturnRequestInput,
+): Promise<ReturnRequest> {
+  const db = await getDatabase()
+
+  if (order.status !== 'shipped' && order.status !== 'delivered') {
+    throw new ValidationError('Returns open once your order has shipped', {
+      order: ['Returns open once your order has shipped'],
+    })
+  }
+  if (order.paymentStatus !== 'paid' || order.marketplace) {
+    throw new ValidationError('This order cannot be returned here', {
+      order: ['This order cannot be returned here'],
+    })
+  }
+  if (!(input.reason in RETURN_REASON_LABELS)) {
+    throw new ValidationError('Choose a reason for the return', {
+      reason: ['Choose a reason for the return'],
+    })
+  }
+
+  const items = validateReturnItems(order, input)
+
+  const open = await db.collection('return_requests').findOne({
+    tenantId: order.tenantId,
+    orderId: order.id,
+    status: { $in: OPEN_STATUSES },
+  })
+  if (open) {
+    throw new ConflictError('A return is already open for this order', {
+      order: ['A return is already open for this order'],
+    })
+  }
+
+  const now = new Date()
+  const returnRequest: ReturnRequest = {
+    id: nanoid(),
+    tenantId: order.tenantId,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    rmaNumber: `RMA-${generateRmaCode()}`,
+    status: 'requested',
+    reason: input.reason,
+    details: input.details?.trim() || undefined,
+    items,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection('return_requests').insertOne(returnRequest)
+  return returnRequest
+}
+
+export async function getReturn(
+  tenantId: string,
+  id: string,
+): Promise<ReturnRequest | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection('return_requests')
+    .findOne({ tenantId, id })) as ReturnRequest | null
+}
+
+export async function listReturns(
+  tenantId: string,
+  filters?: { status?: ReturnStatus; orderId?: string },
+): Promise<ReturnRequest[]> {
+  const db = await getDatabase()
+
+  const query: Record<string, unknown> = { tenantId }
+  if (filters?.status) {
+    query.status = filters.status
+  }
+  if (filters?.orderId) {
+    query.orderId = filters.orderId
+  }
+
+  const results = await db
+    .collection('return_requests')
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .toArray()
+
+  return results as unknown as ReturnRequest[]
+}
+
+async function transitionReturn(
+  tenantId: string,
+  id: string,
+  from: ReturnStatus[],
+  set: Partial<ReturnRequest>,
+): Promise<ReturnRequest> {
+  const db = await getDatabase()
+
+  const result = await db
+    .collection('return_requests')
+    .findOneAndUpdate(
+      { tenantId, id, status: { $in: from } },
+      { $set: { ...set, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+  if (!result) {
+    const existing = await getReturn(tenantId, id)
+    if (!existing) {
+      throw new NotFoundError('Return', id)
+    }
+    throw new ConflictError(`Return is already ${existing.status}`)
+  }
+
+  return result as unknown as ReturnRequest
+}
+
+export async function approveReturn(
+  tenantId: string,
+  id: string,
+): Promise<ReturnRequest> {
+  return transitionReturn(tenantId, id, ['requested'], {
+    status: 'approved',
+    approvedAt: new Date(),
+  })
+}
+
+export async function rejectReturn(
+  tenantId: string,
+  id: string,
+  reason?: string,
+): Promise<ReturnRequest> {
+  return transitionReturn(tenantId, id, ['requested', 'approved'], {
+    status: 'rejected',
+    rejectionReason: reason?.trim() || undefined,
+    resolvedAt: new Date(),
+  })
+}
+
+export async function markReturnReceived(
+  tenantId: string,
+  id: string,
+): Promise<ReturnRequest> {
+  return transitionReturn(tenantId, id, ['approved'], {
+    status: 'received',
+    receivedAt: new Date(),
+  })
+}
+
+/**
+ * Attach the Sendle return label once it has been booked
+ */
+export async function setReturnLabel(
+  tenantId: string,
+  id: string,
+  label: {
+    sendleOrderId: string
+    trackingNumber: string
+    trackingUrl: string
+    labelUrl: string
+  },
+): Promise<ReturnRequest> {
+  return transitionReturn(tenantId, id, ['approved'], label)
+}
+
+/**
+ * Close the return once its refund has been issued
+ */
+export async function markReturnRefunded(
+  tenantId: string,
+  id: string,
+  refundId: string,
+): Promise<ReturnRequest> {
+  return transitionReturn(tenantId, id, OPEN_STATUSES, {
+    status: 'refunded',
+    refundId,
+    resolvedAt: new Date(),
+  })
+}
@@ -8,10 +8,16 @@
  * 3. cancelReservation() - Restores stock and marks reservation as cancelled
  *
  * Reservations have TTL (default 15 minutes) and should be cleaned up via cron job
+ *
+ * Pre-order / made-to-order pieces don't touch stock - their reservations
+ * count against the piece's outstanding cap instead, which stays held until
+ * the order ships or is cancelled.
  */
 
+import { getOnlineAvailableStock } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as pieces from './pieces'
 
 export interface StockReservation {
   id: string
@@ -22,6 +28,7 @@ export interface StockReservation {
   sessionId: string
   expiresAt: Date
   status: 'active' | 'completed' | 'cancelled'
+  preorder?: boolean // Counted against the pre-order cap, not stock
   createdAt: Date
 }
 
@@ -41,8 +48,24 @@ export async function reserveStock(
 ): Promise<StockReservation | null> {
   const db = await getDatabase()
 
-  // For variant products, we need to use arrayFilters to update the specific variant
-  if (variantId) {
+  const preorderPiece = await db
+    .collection('pieces')
+    .findOne(
+      { tenantId, id: pieceId, 'preorder.enabled': true },
+      { projection: { preorder: 1 } },
+    )
+
+  if (preorderPiece) {
+    // Sold without stock - only the outstanding cap applies
+    const reserved = await pieces.reservePreorderUnits(
+      tenantId,
+      pieceId,
+      quantity,
+      preorderPiece.preorder?.maxOutstanding,
+    )
+    if (!reserved) return null // Pre-order cap reached
+  } else if (variantId) {
+    // For variant products, we need to use arrayFilters to update the specific variant
     // First check if there's sufficient stock
     const piece = await db.collection('pieces').findOne({
       tenantId,
@@ -57,13 +80,20 @@ export async function reserveStock(
 
     if (!piece) return null // Insufficient stock or piece/variant not found
 
+    // Stock held at locations that don't fulfil online orders can't be sold here
+    const held =
+      (piece.variants as Array<{ id: string; heldStock?: number }>).find(
+        (v) => v.id === variantId,
+      )?.heldStock ?? 0
+
     // Atomically decrement variant stock
     const result = await db.collection('pieces').updateOne(
       {
         tenantId,
         id: pieceId,
-        'variants.id': variantId,
-        'variants.stock': { $gte: quantity },
+        variants: {
+          $elemMatch: { id: variantId, stock: { $gte: quantity + held } },
+        },
       },
       {
         $inc: { 'variants.$[v].stock': -quantity },
@@ -85,22 +115,28 @@ export async function reserveStock(
     // Handle unlimited stock (null/undefined)
     if (!piece) return null
 
-    // If stock is defined and insufficient, reject
-    if (
-      piece.stock !== null &&
-      piece.stock !== undefined &&
-      piece.stock < quantity
-    ) {
+    // If stock is defined and insufficient, reject - stock held at
+    // locations that don't fulfil online orders can't be sold here
+    const available = getOnlineAvailableStock({
+      stock: piece.stock,
+      heldStock: piece.heldStock,
+    })
+    if (available !== undefined && available < quantity) {
       return null
     }
 
     // Only decrement if stock is tracked (not null/undefined)
-    if (piece.stock !== null && piece.stock !== undefined) {
+    if (available !== undefined) {
       const result = await db.collection('pieces').updateOne(
         {
           tenantId,
           id: pieceId,
-          stock: { $gte: quantity },
+          $expr: {
+            $gte: [
+              { $subtract: ['$stock', { $ifNull: ['$heldStock', 0] }] },
+              quantity,
+            ],
+          },
         },
         {
           $inc: { stock: -quantity },
@@ -123,6 +159,7 @@ export async function reserveStock(
     sessionId,
     expiresAt: new Date(Date.now() + expirationMinutes * 60 * 1000),
     status: 'active',
+    preorder: preorderPiece ? true : undefined,
     createdAt: new Date(),
   }
 
@@ -167,7 +204,13 @@ export async function cancelReservation(
   if (!reservation) return false
 
   // Restore stock
-  if (reservation.variantId) {
+  if (reservation.preorder) {
+    await pieces.releasePreorderUnits(
+      reservation.tenantId,
+      reservation.pieceId,
+      reservation.quantity,
+    )
+  } else if (reservation.variantId) {
     // Restore variant stock
     await db.collection('pieces').updateOne(
       {
@@ -215,7 +258,8 @@ export async function cancelReservation(
 
 /**
  * Get available stock (current stock from piece/variant)
- * Stock reservations are already reflected in the decremented stock
+ * Stock reservations are already reflected in the decremented stock; stock
+ * held at offline locations isn't available
  */
 export async function getAvailableStock(
   tenantId: string,
@@ -229,13 +273,22 @@ export async function getAvailableStock(
 
   if (variantId && piece.variants) {
     const variant = (
-      piece.variants as Array<{ id: string; stock?: number }>
+      piece.variants as Array<{
+        id: string
+        stock?: number
+        heldStock?: number
+      }>
     ).find((v) => v.id === variantId)
-    return variant?.stock ?? 0
+    return (variant && getOnlineAvailableStock(variant)) ?? 0
   }
 
   // Return 0 for unlimited stock indicator - caller should check for null/undefined
-  return piece.stock ?? 0
+  return (
+    getOnlineAvailableStock({
+      stock: piece.stock,
+      heldStock: piece.heldStock,
+    }) ?? 0
+  )
 }
 
 /**
@@ -0,0 +1,118 @@
+/**
+ * Suppliers Repository
+ * Where materials are bought from - contact details and ordering terms
+ */
+
+import type {
+  CreateSupplierInput,
+  Supplier,
+  UpdateSupplierInput,
+} from '@madebuy/shared'
+import { ConflictError } from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+export async function createSupplier(
+  tenantId: string,
+  data: CreateSupplierInput,
+): Promise<Supplier> {
+  const db = await getDatabase()
+
+  const supplier: Supplier = {
+    id: nanoid(),
+    tenantId,
+    name: data.name,
+    contactName: data.contactName,
+    email: data.email,
+    phone: data.phone,
+    website: data.website,
+    leadTimeDays: data.leadTimeDays,
+    minimumOrder: data.minimumOrder,
+    currency: data.currency || 'AUD',
+    notes: data.notes,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  await db.collection('suppliers').insertOne(supplier)
+  return supplier
+}
+
+export async function getSupplier(
+  tenantId: string,
+  id: string,
+): Promise<Supplier | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection('suppliers')
+    .findOne({ tenantId, id })) as Supplier | null
+}
+
+export async function listSuppliers(tenantId: string): Promise<Supplier[]> {
+  const db = await getDatabase()
+  const results = await db
+    .collection('suppliers')
+    .find({ tenantId })
+    .sort({ name: 1 })
+    .toArray()
+
+  return results as unknown as Supplier[]
+}
+
+export async function updateSupplier(
+  tenantId: string,
+  id: string,
+  updates: UpdateSupplierInput,
+): Promise<Supplier | null> {
+  const db = await getDatabase()
+
+  const result = await db
+    .collection('suppliers')
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+
+  if (result && updates.name) {
+    // Keep the legacy free-text name on linked materials in step
+    await db
+      .collection('materials')
+      .updateMany(
+        { tenantId, supplierId: id },
+        { $set: { supplier: updates.name, updatedAt: new Date() } },
+      )
+  }
+
+  return result as unknown as Supplier | null
+}
+
+/**
+ * Delete a supplier - refused while it has open purchase orders
+ * Linked materials keep the supplier's name as free text.
+ */
+export async function deleteSupplier(
+  tenantId: string,
+  id: string,
+): Promise<void> {
+  const db = await getDatabase()
+
+  const openOrders = await db.collection('purchase_orders').countDocuments({
+    tenantId,
+    supplierId: id,
+    status: { $in: ['draft', 'sent'] },
+  })
+  if (openOrders > 0) {
+    throw new ConflictError(
+      'This supplier has open purchase orders. Receive or cancel them first.',
+    )
+  }
+
+  await db
+    .collection('materials')
+    .updateMany(
+      { tenantId, supplierId: id },
+      { $unset: { supplierId: '' }, $set: { updatedAt: new Date() } },
+    )
+  await db.collection('suppliers').deleteOne({ tenantId, id })
+}
@@ -0,0 +1,232 @@
+/**
+ * Team Members Repository
+ * Staff users invited to a tenant's admin (the owner is the tenant itself)
+ *
+ * Invitation flow:
+ * 1. inviteTeamMember() - Creates an 'invited' record with a single-use token
+ * 2. acceptInvitation() - Sets the password, clears the token and activates the member
+ */
+
+import { randomBytes } from 'node:crypto'
+import type {
+  InviteTeamMemberInput,
+  PublicTeamMember,
+  StaffRole,
+  TeamMember,
+} from '@madebuy/shared'
+import { ConflictError } from '@madebuy/shared'
+import bcrypt from 'bcryptjs'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+const COLLECTION = 'team_members'
+const BCRYPT_ROUNDS = 10
+const INVITE_EXPIRY_DAYS = 7
+
+// Dummy hash for timing attack prevention (cost 10 to match BCRYPT_ROUNDS)
+const DUMMY_HASH =
+  '$2a$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy'
+
+function generateInviteToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Strip credentials before returning a member from an API route
+ */
+export function toPublicTeamMember(member: TeamMember): PublicTeamMember {
+  const publicMember: Partial<TeamMember> = { ...member }
+  delete publicMember.passwordHash
+  delete publicMember.inviteToken
+  return publicMember as PublicTeamMember
+}
+
+/**
+ * Invite a staff member
+ * Staff emails are unique across the platform so login can resolve the tenant
+ * Returns the member with the invite token to email them
+ */
+export async function inviteTeamMember(
+  tenantId: string,
+  input: InviteTeamMemberInput,
+): Promise<TeamMember & { inviteToken: string }> {
+  const db = await getDatabase()
+  const email = input.email.trim().toLowerCase()
+
+  const [existingMember, existingTenant] = await Promise.all([
+    db.collection(COLLECTION).findOne({ email }),
+    db.collection('tenants').findOne({ email }),
+  ])
+  if (existingMember || existingTenant) {
+    throw new ConflictError('This email already has a MadeBuy login')
+  }
+
+  const now = new Date()
+  const member: TeamMember & { inviteToken: string } = {
+    id: nanoid(),
+    tenantId,
+    email,
+    name: input.name.trim(),
+    role: input.role,
+    status: 'invited',
+    inviteToken: generateInviteToken(),
+    inviteExpiresAt: new Date(
+      now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+    ),
+    invitedBy: input.invitedBy,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection(COLLECTION).insertOne({ ...member })
+  return member
+}
+
+export async function getTeamMember(
+  tenantId: string,
+  id: string,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection(COLLECTION)
+    .findOne({ tenantId, id })) as unknown as TeamMember | null
+}
+
+/**
+ * Get a pending invitation by token (expired invitations are not returned)
+ */
+export async function getInvitationByToken(
+  token: string,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  return (await db.collection(COLLECTION).findOne({
+    inviteToken: token,
+    status: 'invited',
+    inviteExpiresAt: { $gt: new Date() },
+  })) as unknown as TeamMember | null
+}
+
+/**
+ * Accept an invitation and set the member's password
+ * Atomic so a token can only be used once (password strength is checked by the caller)
+ */
+export async function acceptInvitation(
+  token: string,
+  password: string,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS)
+  const now = new Date()
+
+  const result = await db.collection(COLLECTION).findOneAndUpdate(
+    {
+      inviteToken: token,
+      status: 'invited',
+      inviteExpiresAt: { $gt: now },
+    },
+    {
+      $set: {
+        status: 'active',
+        passwordHash,
+        acceptedAt: now,
+        updatedAt: now,
+      },
+      $unset: { inviteToken: '', inviteExpiresAt: '' },
+    },
+    { returnDocument: 'after' },
+  )
+  return result as unknown as TeamMember | null
+}
+
+/**
+ * Verify staff credentials
+ * Uses timing-attack safe comparison
+ */
+export async function authenticateTeamMember(
+  email: string,
+  password: string,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  const member = (await db.collection(COLLECTION).findOne({
+    email: email.trim().toLowerCase(),
+    status: 'active',
+  })) as unknown as TeamMember | null
+
+  // Always run bcrypt compare to prevent timing attacks
+  const isValid = await bcrypt.compare(
+    password,
+    member?.passwordHash || DUMMY_HASH,
+  )
+  if (!member?.passwordHash || !isValid) {
+    return null
+  }
+
+  await db
+    .collection(COLLECTION)
+    .updateOne({ id: member.id }, { $set: { lastLoginAt: new Date() } })
+
+  return member
+}
+
+/**
+ * Get an active member by ID (used to re-check role on every request)
+ */
+export async function getActiveTeamMember(
+  tenantId: string,
+  id: string,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection(COLLECTION)
+    .findOne({
+      tenantId,
+      id,
+      status: 'active',
+    })) as unknown as TeamMember | null
+}
+
+export async function listTeamMembers(tenantId: string): Promise<TeamMember[]> {
+  const db = await getDatabase()
+  return (await db
+    .collection(COLLECTION)
+    .find({ tenantId })
+    .sort({ createdAt: 1 })
+    .toArray()) as unknown as TeamMember[]
+}
+
+/**
+ * Count staff seats in use (active and pending invitations, owner excluded)
+ */
+export async function countTeamMembers(tenantId: string): Promise<number> {
+  const db = await getDatabase()
+  return db.collection(COLLECTION).countDocuments({ tenantId })
+}
+
+export async function updateTeamMemberRole(
+  tenantId: string,
+  id: string,
+  role: StaffRole,
+): Promise<TeamMember | null> {
+  const db = await getDatabase()
+  const result = await db
+    .collection(COLLECTION)
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { role, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+  return result as unknown as TeamMember | null
+}
+
+/**
+ * Remove a member (or cancel a pending invitation)
+ * Their next request fails the active-member check and signs them out
+ */
+export async function removeTeamMember(
+  tenantId: string,
+  id: string,
+): Promise<boolean> {
+  const db = await getDatabase()
+  const result = await db.collection(COLLECTION).deleteOne({ tenantId, id })
+  return result.deletedCount === 1
+}
@@ -1,6 +1,7 @@
 import type {
   OnboardingStep,
   PayPalConnectStatus,
+  PublicTenant,
   StripeConnectStatus,
   Tenant,
   TenantPaymentConfig,
@@ -10,6 +11,37 @@ import { nanoid } from 'nanoid'
 import { cache } from '../cache'
 import { getDatabase } from '../client'
 
+/**
+ * Strip credentials before returning a tenant from an API route
+ * Carrier API keys and social tokens stay behind their own settings routes.
+ */
+export function toPublicTenant(tenant: Tenant): PublicTenant {
+  const publicTenant: Partial<Tenant> = { ...tenant }
+  delete publicTenant.passwordHash
+
+  if (tenant.socialConnections) {
+    publicTenant.socialConnections = tenant.socialConnections.map(
+      (connection) => {
+        const publicConnection = { ...connection }
+        delete publicConnection.accessToken
+        delete publicConnection.refreshToken
+        return publicConnection
+      },
+    )
+  }
+  if (tenant.sendleSettings) {
+    publicTenant.sendleSettings = { ...tenant.sendleSettings }
+    delete publicTenant.sendleSettings.apiKey
+  }
+  if (tenant.shippingCarriers?.auspost) {
+    const auspost = { ...tenant.shippingCarriers.auspost }
+    delete auspost.apiKey
+    publicTenant.shippingCarriers = { ...tenant.shippingCarriers, auspost }
+  }
+
+  return publicTenant as PublicTenant
+}
+
 export async function createTenant(
   email: string,
   passwordHash: string,
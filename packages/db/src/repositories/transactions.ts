@@ -7,9 +7,10 @@ import type {
   TransactionListOptions,
   TransactionSummary,
 } from '@madebuy/shared'
-import { parseQuarter } from '@madebuy/shared'
+import { OFF_STRIPE_SALE_TYPES, parseQuarter } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { getDatabase } from '../client'
+import * as expenses from './expenses'
 
 /**
  * Create a new transaction record
@@ -27,6 +28,7 @@ export async function createTransaction(
     grossAmount: data.grossAmount,
     stripeFee: data.stripeFee,
     platformFee: data.platformFee,
+    commissionAmount: data.commissionAmount,
     netAmount: data.netAmount,
     gstAmount: data.gstAmount,
     gstRate: data.gstRate,
@@ -102,6 +104,80 @@ export async function getTransactionsByOrder(
   return results as unknown as Transaction[]
 }
 
+/**
+ * Get the sales, refunds and fees paid out in a Stripe payout
+ */
+export async function getTransactionsByPayout(
+  tenantId: string,
+  stripePayoutId: string,
+): Promise<Transaction[]> {
+  const db = await getDatabase()
+  const results = await db
+    .collection('transactions')
+    .find({ tenantId, stripePayoutId, type: { $ne: 'payout' } })
+    .sort({ createdAt: 1 })
+    .toArray()
+  return results as unknown as Transaction[]
+}
+
+/**
+ * Find sales, refunds and fees by Stripe payment intent or refund ID
+ */
+export async function getTransactionsByStripeIds(
+  tenantId: string,
+  ids: { paymentIntentIds: string[]; refundIds: string[] },
+): Promise<Transaction[]> {
+  if (ids.paymentIntentIds.length === 0 && ids.refundIds.length === 0) {
+    return []
+  }
+  const db = await getDatabase()
+  const results = await db
+    .collection('transactions')
+    .find({
+      tenantId,
+      type: { $in: ['sale', 'refund', 'fee'] },
+      $or: [
+        { stripePaymentIntentId: { $in: ids.paymentIntentIds } },
+        { stripeRefundId: { $in: ids.refundIds } },
+      ],
+    })
+    .sort({ createdAt: 1 })
+    .toArray()
+  return results as unknown as Transaction[]
+}
+
+/**
+ * Link transactions to the Stripe payout that paid them out. Anything
+ * previously linked to the payout but not in the list is unlinked.
+ */
+export async function linkTransactionsToPayout(
+  tenantId: string,
+  stripePayoutId: string,
+  transactionIds: string[],
+): Promise<void> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  await db.collection('transactions').updateMany(
+    {
+      tenantId,
+      stripePayoutId,
+      type: { $ne: 'payout' },
+      id: { $nin: transactionIds },
+    },
+    { $unset: { stripePayoutId: '' }, $set: { updatedAt: now } },
+  )
+
+  if (transactionIds.length > 0) {
+    await db
+      .collection('transactions')
+      .updateMany(
+        { tenantId, id: { $in: transactionIds } },
+        { $set: { stripePayoutId, updatedAt: now } },
+      )
+  }
+}
+
 /**
  * List transactions with filters and pagination
  */
@@ -198,6 +274,10 @@ export async function getTenantBalance(
     matchQuery.type = Array.isArray(filters.type)
       ? { $in: filters.type }
       : filters.type
+  } else {
+    // Gift card entries track stored value, not money in or out, and
+    // consignment settlements and wholesale invoices aren't paid via Stripe
+    matchQuery.type = { $nin: ['gift_card', 'consignment', 'wholesale'] }
   }
 
   const result = await db
@@ -284,7 +364,7 @@ export async function getTransactionSummary(
       {
         $match: {
           tenantId,
-          type: 'sale',
+          type: { $in: ['sale', ...OFF_STRIPE_SALE_TYPES] },
           status: 'completed',
           createdAt: { $gte: startDate, $lte: endDate },
         },
@@ -402,12 +482,14 @@ export async function deleteTransaction(id: string): Promise<void> {
 
 /**
  * Get quarterly GST report for BAS (Business Activity Statement)
- * Aggregates GST collected from sales and GST paid on refunds
+ * Aggregates GST collected from sales (including consignment settlements and
+ * paid wholesale invoices) and GST paid on refunds
  */
 export async function getQuarterlyGSTReport(
   tenantId: string,
   quarterString: string,
   gstRate = 10,
+  currency = 'AUD', // Tenant currency
 ): Promise<QuarterlyGSTReport | null> {
   const parsed = parseQuarter(quarterString)
   if (!parsed) return null
@@ -474,12 +556,24 @@ export async function getQuarterlyGSTReport(
   }
   const refunds = refundsResult[0] || { count: 0, total: 0, gstPaid: 0 }
 
+  // GST credits on purchases from the expenses ledger
+  const purchases = await expenses.getPurchasesSummary(
+    tenantId,
+    startDate,
+    endDate,
+  )
+
   // Calculate net sales after GST
   const salesNet = sales.gross - sales.gstCollected
 
-  // Net GST = GST collected - GST refunded
+  // BAS: refunds are adjustments that reduce sales and GST on sales
+  const basG1 = sales.gross - refunds.total
+  const bas1A = sales.gstCollected - refunds.gstPaid
+  const bas1B = purchases.gstAmount
+
+  // Net GST = 1A - 1B
   // Positive = owe ATO, Negative = ATO owes you
-  const netGst = sales.gstCollected - refunds.gstPaid
+  const netGst = bas1A - bas1B
 
   return {
     quarter: quarterString,
@@ -494,8 +588,14 @@ export async function getQuarterlyGSTReport(
     gstPaid: refunds.gstPaid,
     refundsCount: refunds.count,
     refundsTotal: refunds.total,
+    gstOnPurchases: purchases.gstAmount,
+    purchasesCount: purchases.count,
+    purchasesTotal: purchases.total,
+    basG1,
+    bas1A,
+    bas1B,
     netGst,
-    currency: 'AUD',
+    currency,
     gstRate,
   }
 }
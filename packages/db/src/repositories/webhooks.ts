@@ -0,0 +1,221 @@
+/**
+ * Webhooks Repository
+ * Tenant webhook endpoints and the log of deliveries made to them
+ */
+
+import { randomBytes } from 'node:crypto'
+import type {
+  CreateWebhookEndpointInput,
+  PublicWebhookEndpoint,
+  UpdateWebhookEndpointInput,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+
+const ENDPOINTS = 'webhook_endpoints'
+const DELIVERIES = 'webhook_deliveries'
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Strip the signing secret before returning an endpoint from an API route
+ */
+export function toPublicWebhookEndpoint(
+  endpoint: WebhookEndpoint,
+): PublicWebhookEndpoint {
+  const publicEndpoint: Partial<WebhookEndpoint> = { ...endpoint }
+  delete publicEndpoint.secret
+  return publicEndpoint as PublicWebhookEndpoint
+}
+
+// ============================================================================
+// ENDPOINTS
+// ============================================================================
+
+export async function createEndpoint(
+  tenantId: string,
+  input: CreateWebhookEndpointInput,
+): Promise<WebhookEndpoint> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const endpoint: WebhookEndpoint = {
+    id: nanoid(),
+    tenantId,
+    url: input.url,
+    description: input.description,
+    events: input.events,
+    secret: generateSecret(),
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await db.collection(ENDPOINTS).insertOne({ ...endpoint })
+  return endpoint
+}
+
+export async function getEndpoint(
+  tenantId: string,
+  id: string,
+): Promise<WebhookEndpoint | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection(ENDPOINTS)
+    .findOne({ tenantId, id })) as unknown as WebhookEndpoint | null
+}
+
+export async function listEndpoints(
+  tenantId: string,
+): Promise<WebhookEndpoint[]> {
+  const db = await getDatabase()
+  return (await db
+    .collection(ENDPOINTS)
+    .find({ tenantId })
+    .sort({ createdAt: -1 })
+    .toArray()) as unknown as WebhookEndpoint[]
+}
+
+/**
+ * Active endpoints subscribed to an event
+ */
+export async function listEndpointsForEvent(
+  tenantId: string,
+  eventType: WebhookEventType,
+): Promise<WebhookEndpoint[]> {
+  const db = await getDatabase()
+  return (await db
+    .collection(ENDPOINTS)
+    .find({ tenantId, isActive: true, events: eventType })
+    .toArray()) as unknown as WebhookEndpoint[]
+}
+
+export async function updateEndpoint(
+  tenantId: string,
+  id: string,
+  updates: UpdateWebhookEndpointInput,
+): Promise<WebhookEndpoint | null> {
+  const db = await getDatabase()
+  const result = await db
+    .collection(ENDPOINTS)
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+  return result as unknown as WebhookEndpoint | null
+}
+
+/**
+ * Delete an endpoint - its delivery log is kept for reference
+ */
+export async function deleteEndpoint(
+  tenantId: string,
+  id: string,
+): Promise<boolean> {
+  const db = await getDatabase()
+  const result = await db.collection(ENDPOINTS).deleteOne({ tenantId, id })
+  return result.deletedCount === 1
+}
+
+// ============================================================================
+// DELIVERIES
+// ============================================================================
+
+/**
+ * Record a delivery before it is sent
+ */
+export async function createDelivery(
+  endpoint: WebhookEndpoint,
+  payload: WebhookPayload,
+  replayOf?: string,
+): Promise<WebhookDelivery> {
+  const db = await getDatabase()
+
+  const delivery: WebhookDelivery = {
+    id: nanoid(),
+    tenantId: endpoint.tenantId,
+    endpointId: endpoint.id,
+    url: endpoint.url,
+    eventId: payload.id,
+    eventType: payload.type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    ...(replayOf && { replayOf }),
+    createdAt: new Date(),
+  }
+
+  await db.collection(DELIVERIES).insertOne({ ...delivery })
+  return delivery
+}
+
+/**
+ * Record the outcome of a delivery
+ */
+export async function completeDelivery(
+  tenantId: string,
+  id: string,
+  result: {
+    success: boolean
+    attempts: number
+    responseStatus?: number
+    error?: string
+    durationMs: number
+  },
+): Promise<void> {
+  const db = await getDatabase()
+  await db.collection(DELIVERIES).updateOne(
+    { tenantId, id },
+    {
+      $set: {
+        status: result.success ? 'succeeded' : 'failed',
+        attempts: result.attempts,
+        responseStatus: result.responseStatus,
+        error: result.error,
+        durationMs: result.durationMs,
+        completedAt: new Date(),
+      },
+    },
+  )
+}
+
+export async function getDelivery(
+  tenantId: string,
+  id: string,
+): Promise<WebhookDelivery | null> {
+  const db = await getDatabase()
+  return (await db
+    .collection(DELIVERIES)
+    .findOne({ tenantId, id })) as unknown as WebhookDelivery | null
+}
+
+export async function listDeliveries(
+  tenantId: string,
+  filters: WebhookDeliveryFilters = {},
+): Promise<WebhookDelivery[]> {
+  const db = await getDatabase()
+
+  const query: Record<string, unknown> = { tenantId }
+  if (filters.endpointId) {
+    query.endpointId = filters.endpointId
+  }
+  if (filters.status) {
+    query.status = filters.status
+  }
+
+  // Older deliveries stored the endpoint's response body - never return it
+  return (await db
+    .collection(DELIVERIES)
+    .find(query, { projection: { responseBody: 0 } })
+    .sort({ createdAt: -1 })
+    .limit(Math.min(filters.limit || 50, 200))
+    .toArray()) as unknown as WebhookDelivery[]
+}
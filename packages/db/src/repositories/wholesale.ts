@@ -0,0 +1,437 @@
+/**
+ * Wholesale Repository
+ * Trade buyers with their own price lists and payment terms, and the orders
+ * invoiced to them
+ */
+
+import type {
+  CreateWholesaleBuyerInput,
+  CreateWholesaleOrderInput,
+  Order,
+  OrderItem,
+  UpdateWholesaleBuyerInput,
+  WholesaleBuyer,
+  WholesalePrice,
+} from '@madebuy/shared'
+import {
+  ConflictError,
+  calculateGstFromInclusive,
+  fromMinorUnits,
+  getOnlineAvailableStock,
+  getWholesalePrice,
+  NotFoundError,
+  toMinorUnits,
+  ValidationError,
+} from '@madebuy/shared'
+import { nanoid } from 'nanoid'
+import { getDatabase } from '../client'
+import * as orders from './orders'
+import * as pieces from './pieces'
+import * as transactions from './transactions'
+
+const DEFAULT_PAYMENT_TERMS_DAYS = 30
+
+function validateTerms(input: UpdateWholesaleBuyerInput): void {
+  if (
+    input.paymentTermsDays !== undefined &&
+    (!Number.isInteger(input.paymentTermsDays) || input.paymentTermsDays < 0)
+  ) {
+    throw new ValidationError('Payment terms must be a whole number of days', {
+      paymentTermsDays: ['Payment terms must be a whole number of days'],
+    })
+  }
+  if (
+    input.discountPercent !== undefined &&
+    !(input.discountPercent >= 0 && input.discountPercent <= 100)
+  ) {
+    throw new ValidationError('Discount must be between 0 and 100%', {
+      discountPercent: ['Discount must be between 0 and 100%'],
+    })
+  }
+}
+
+/**
+ * Drop blank rows and keep one price per piece (the last entered wins)
+ */
+function normalisePrices(prices: WholesalePrice[]): WholesalePrice[] {
+  const byPiece = new Map<string, number>()
+  for (const entry of prices) {
+    if (!entry.pieceId) continue
+    if (!Number.isInteger(entry.price) || entry.price < 0) {
+      throw new ValidationError('Wholesale prices must be zero or more', {
+        prices: ['Wholesale prices must be zero or more'],
+      })
+    }
+    byPiece.set(entry.pieceId, entry.price)
+  }
+  return [...byPiece].map(([pieceId, price]) => ({ pieceId, price }))
+}
+
+// ============================================================================
+// BUYERS
+// ============================================================================
+
+export async function listBuyers(tenantId: string): Promise<WholesaleBuyer[]> {
+  const db = await getDatabase()
+  const results = await db
+    .collection('wholesale_buyers')
+    .find({ tenantId })
+    .sort({ businessName: 1 })
+    .toArray()
+  return results as unknown as WholesaleBuyer[]
+}
+
+export async function getBuyer(
+  tenantId: string,
+  id: string,
+): Promise<WholesaleBuyer | null> {
+  const db = await getDatabase()
+  const result = await db
+    .collection('wholesale_buyers')
+    .findOne({ tenantId, id })
+  return result as unknown as WholesaleBuyer | null
+}
+
+export async function createBuyer(
+  tenantId: string,
+  input: CreateWholesaleBuyerInput,
+): Promise<WholesaleBuyer> {
+  const businessName = input.businessName?.trim()
+  if (!businessName) {
+    throw new ValidationError('Business name is required', {
+      businessName: ['Business name is required'],
+    })
+  }
+  const email = input.email?.trim()
+  if (!email) {
+    throw new ValidationError('An email for invoices is required', {
+      email: ['An email for invoices is required'],
+    })
+  }
+  validateTerms(input)
+
+  const now = new Date()
+  const buyer: WholesaleBuyer = {
+    id: nanoid(),
+    tenantId,
+    businessName,
+    contactName: input.contactName?.trim() || undefined,
+    email,
+    phone: input.phone?.trim() || undefined,
+    abn: input.abn?.trim() || undefined,
+    billingAddress: input.billingAddress,
+    paymentTermsDays: input.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS,
+    discountPercent: input.discountPercent ?? 0,
+    prices: normalisePrices(input.prices ?? []),
+    notes: input.notes?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const db = await getDatabase()
+  await db.collection('wholesale_buyers').insertOne({ ...buyer })
+  return buyer
+}
+
+export async function updateBuyer(
+  tenantId: string,
+  id: string,
+  input: UpdateWholesaleBuyerInput,
+): Promise<WholesaleBuyer> {
+  const updates: Partial<WholesaleBuyer> = {}
+  if (input.businessName !== undefined) {
+    const businessName = input.businessName.trim()
+    if (!businessName) {
+      throw new ValidationError('Business name is required', {
+        businessName: ['Business name is required'],
+      })
+    }
+    updates.businessName = businessName
+  }
+  if (input.email !== undefined) {
+    const email = input.email.trim()
+    if (!email) {
+      throw new ValidationError('An email for invoices is required', {
+        email: ['An email for invoices is required'],
+      })
+    }
+    updates.email = email
+  }
+  validateTerms(input)
+  if (input.paymentTermsDays !== undefined) {
+    updates.paymentTermsDays = input.paymentTermsDays
+  }
+  if (input.discountPercent !== undefined) {
+    updates.discountPercent = input.discountPercent
+  }
+  if (input.prices !== undefined) {
+    updates.prices = normalisePrices(input.prices)
+  }
+  if (input.billingAddress !== undefined) {
+    updates.billingAddress = input.billingAddress
+  }
+  for (const field of ['contactName', 'phone', 'abn', 'notes'] as const) {
+    if (input[field] !== undefined) {
+      updates[field] = input[field]?.trim() || undefined
+    }
+  }
+
+  const db = await getDatabase()
+  const result = await db
+    .collection('wholesale_buyers')
+    .findOneAndUpdate(
+      { tenantId, id },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    )
+  if (!result) {
+    throw new NotFoundError('Wholesale buyer', id)
+  }
+  return result as unknown as WholesaleBuyer
+}
+
+/**
+ * Delete a buyer - refused while they have unpaid invoices
+ * Their orders keep the business name and terms they were invoiced with.
+ */
+export async function deleteBuyer(tenantId: string, id: string): Promise<void> {
+  const db = await getDatabase()
+  const unpaid = await db.collection('orders').countDocuments({
+    tenantId,
+    'wholesale.buyerId': id,
+    paymentStatus: 'pending',
+    status: { $ne: 'cancelled' },
+  })
+  if (unpaid > 0) {
+    const message =
+      'This buyer has unpaid invoices. Mark them paid or cancel them first.'
+    throw new ConflictError(message, { buyer: [message] })
+  }
+
+  await db.collection('wholesale_buyers').deleteOne({ tenantId, id })
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+/**
+ * Create an order at the buyer's trade prices, due on their payment terms
+ * Stock is checked for every piece before any is taken; pieces on
+ * consignment or at other offline locations aren't available.
+ */
+export async function createWholesaleOrder(
+  tenantId: string,
+  input: CreateWholesaleOrderInput,
+): Promise<Order> {
+  const buyer = await getBuyer(tenantId, input.buyerId)
+  if (!buyer) {
+    throw new NotFoundError('Wholesale buyer', input.buyerId)
+  }
+  if (!input.items?.length) {
+    throw new ValidationError('An order needs at least one piece', {
+      items: ['Add at least one piece to the order'],
+    })
+  }
+  const shippingAddress = input.shippingAddress ?? buyer.billingAddress
+  if (!shippingAddress) {
+    throw new ValidationError('A delivery address is required', {
+      shippingAddress: [
+        'Add a delivery address or a billing address for the buyer',
+      ],
+    })
+  }
+  const shipping = input.shipping ?? 0
+  if (!Number.isInteger(shipping) || shipping < 0) {
+    throw new ValidationError('Shipping must be zero or more', {
+      shipping: ['Shipping must be zero or more'],
+    })
+  }
+
+  const piecesMap = await pieces.getPiecesByIds(
+    tenantId,
+    input.items.map((line) => line.pieceId),
+  )
+  const currency = piecesMap.get(input.items[0].pieceId)?.currency || 'AUD'
+
+  // Trade prices and shipping are worked out in cents; the order itself is
+  // stored in major units like every other order
+  const items: OrderItem[] = []
+  let subtotalCents = 0
+  for (const line of input.items) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new ValidationError('Quantities must be whole numbers above zero', {
+        items: ['Quantities must be whole numbers above zero'],
+      })
+    }
+    if (items.some((item) => item.pieceId === line.pieceId)) {
+      throw new ValidationError('Each piece can only be listed once', {
+        items: ['Each piece can only be listed once'],
+      })
+    }
+    const piece = piecesMap.get(line.pieceId)
+    if (!piece) {
+      throw new NotFoundError('Piece', line.pieceId)
+    }
+
+    const available = getOnlineAvailableStock({
+      stock: piece.stock,
+      heldStock: piece.heldStock,
+    })
+    if (available !== undefined && available < line.quantity) {
+      const message = `Only ${available} of ${piece.name} available`
+      throw new ValidationError(message, { items: [message] })
+    }
+
+    const priceCents = getWholesalePrice(
+      buyer,
+      piece.id,
+      toMinorUnits(piece.price ?? 0, currency),
+    )
+    subtotalCents += priceCents * line.quantity
+    items.push({
+      pieceId: piece.id,
+      name: piece.name,
+      price: fromMinorUnits(priceCents, currency),
+      quantity: line.quantity,
+      description: piece.description,
+      category: piece.category,
+    })
+  }
+
+  const taken: OrderItem[] = []
+  for (const item of items) {
+    const decremented = await pieces.decrementStock(
+      tenantId,
+      item.pieceId,
+      item.quantity,
+    )
+    if (decremented) {
+      taken.push(item)
+    } else {
+      // Put back what was already taken (unlimited stock was never touched)
+      for (const done of taken) {
+        const stock = piecesMap.get(done.pieceId)?.stock
+        if (stock !== undefined && stock !== null) {
+          await pieces.incrementStock(tenantId, done.pieceId, done.quantity)
+        }
+      }
+      const message = `${item.name} sold out while the order was being placed`
+      throw new ConflictError(message, { items: [message] })
+    }
+  }
+
+  const now = new Date()
+  const dueDate = new Date(now)
+  dueDate.setDate(dueDate.getDate() + buyer.paymentTermsDays)
+
+  return orders.createWholesaleOrder(
+    tenantId,
+    {
+      customerEmail: buyer.email,
+      customerName: buyer.contactName || buyer.businessName,
+      customerPhone: buyer.phone,
+      items,
+      shippingAddress,
+      billingAddress: buyer.billingAddress,
+      shippingMethod: 'Wholesale delivery',
+      shippingType:
+        shippingAddress.country && shippingAddress.country !== 'AU'
+          ? 'international'
+          : 'domestic',
+      customerNotes: input.notes?.trim() || undefined,
+    },
+    {
+      wholesale: {
+        buyerId: buyer.id,
+        businessName: buyer.businessName,
+        abn: buyer.abn,
+        paymentTermsDays: buyer.paymentTermsDays,
+        dueDate,
+      },
+      subtotal: fromMinorUnits(subtotalCents, currency),
+      shipping: fromMinorUnits(shipping, currency),
+      total: fromMinorUnits(subtotalCents + shipping, currency),
+      currency,
+    },
+  )
+}
+
+/**
+ * Wholesale orders, newest first
+ */
+export async function listWholesaleOrders(
+  tenantId: string,
+  filters: { buyerId?: string; unpaid?: boolean } = {},
+): Promise<Order[]> {
+  const db = await getDatabase()
+  const query: Record<string, unknown> = {
+    tenantId,
+    wholesale: { $exists: true },
+  }
+  if (filters.buyerId) query['wholesale.buyerId'] = filters.buyerId
+  if (filters.unpaid) {
+    query.paymentStatus = 'pending'
+    query.status = { $ne: 'cancelled' }
+  }
+
+  const results = await db
+    .collection('orders')
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .toArray()
+  return results as unknown as Order[]
+}
+
+/**
+ * Record the buyer's bank transfer against a wholesale invoice
+ * Adds a 'wholesale' transaction to the ledger so the sale is reported.
+ * Only the request that flips the invoice to paid records it.
+ */
+export async function markOrderPaid(
+  tenantId: string,
+  orderId: string,
+  options: { gstRate?: number } = {}, // Set for GST-registered sellers
+): Promise<Order> {
+  const order = await orders.getOrder(tenantId, orderId)
+  if (!order?.wholesale) {
+    throw new NotFoundError('Wholesale order', orderId)
+  }
+  if (order.paymentStatus === 'paid') return order
+
+  const db = await getDatabase()
+  const paidAt = new Date()
+  const result = await db
+    .collection('orders')
+    .updateOne(
+      { tenantId, id: orderId, paymentStatus: { $ne: 'paid' } },
+      { $set: { paymentStatus: 'paid', paidAt, updatedAt: paidAt } },
+    )
+  if (result.modifiedCount === 0) {
+    return (await orders.getOrder(tenantId, orderId)) ?? order
+  }
+
+  // Ledger amounts are in cents
+  const amount = toMinorUnits(order.total, order.currency)
+  await transactions.createTransaction({
+    tenantId,
+    orderId,
+    type: 'wholesale',
+    grossAmount: amount,
+    stripeFee: 0,
+    platformFee: 0,
+    netAmount: amount,
+    gstAmount:
+      options.gstRate !== undefined
+        ? calculateGstFromInclusive(amount, options.gstRate)
+        : undefined,
+    gstRate: options.gstRate,
+    currency: order.currency,
+    status: 'completed',
+    description: `Wholesale invoice ${order.orderNumber} - ${order.wholesale.businessName}`,
+    completedAt: paidAt,
+  })
+
+  return { ...order, paymentStatus: 'paid', paidAt, updatedAt: paidAt }
+}
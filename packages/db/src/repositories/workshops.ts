@@ -1,17 +1,24 @@
-import type {
-  BookingFilters,
-  CreateBookingInput,
-  CreateSlotInput,
-  CreateWorkshopInput,
-  PaginatedResult,
-  PaginationParams,
-  UpdateBookingInput,
-  UpdateSlotInput,
-  UpdateWorkshopInput,
-  Workshop,
-  WorkshopBooking,
-  WorkshopFilters,
-  WorkshopSlot,
+import {
+  type BookingFilters,
+  type CreateBookingInput,
+  type CreateSlotInput,
+  type CreateSlotSeriesInput,
+  type CreateWaitlistEntryInput,
+  type CreateWorkshopInput,
+  DEFAULT_MIN_CAPACITY_CUTOFF_HOURS,
+  generateSeriesOccurrences,
+  type PaginatedResult,
+  type PaginationParams,
+  type UpdateBookingInput,
+  type UpdateSlotInput,
+  type UpdateSlotSeriesInput,
+  type UpdateWorkshopInput,
+  type Workshop,
+  type WorkshopBooking,
+  type WorkshopFilters,
+  type WorkshopSlot,
+  type WorkshopSlotSeries,
+  type WorkshopWaitlistEntry,
 } from '@madebuy/shared'
 import { nanoid } from 'nanoid'
 import { cache } from '../cache'
@@ -82,6 +89,7 @@ export async function createWorkshop(
     durationMinutes: data.durationMinutes,
     capacity: data.capacity,
     minCapacity: data.minCapacity,
+    minCapacityCutoffHours: data.minCapacityCutoffHours,
     locationType: data.locationType,
     location: data.location,
     virtualMeetingUrl: data.virtualMeetingUrl,
@@ -343,6 +351,16 @@ export async function updateSlot(
   if (data.status) updateFields['slots.$.status'] = data.status
   updateFields['slots.$.updatedAt'] = new Date()
 
+  // A series slot edited on its own keeps its changes when the series is edited
+  if (
+    data.startTime ||
+    data.endTime ||
+    data.capacity !== undefined ||
+    data.priceOverride !== undefined
+  ) {
+    updateFields['slots.$.isSeriesException'] = true
+  }
+
   const result = await db
     .collection('workshops')
     .findOneAndUpdate(
@@ -381,12 +399,21 @@ export async function deleteSlot(
     )
   }
 
+  // Deleting one date of a series excludes it so the series never recreates it
+  const workshop = await getWorkshopById(tenantId, workshopId)
+  const slot = workshop?.slots.find((s) => s.id === slotId)
+  const inSeries = Boolean(slot?.seriesId && slot.seriesDate)
+
   const result = await db.collection('workshops').updateOne(
     { id: workshopId, tenantId },
     {
       $pull: { slots: { id: slotId } } as any,
       $set: { updatedAt: new Date() },
+      ...(inSeries && {
+        $addToSet: { 'slotSeries.$[series].excludedDates': slot?.seriesDate },
+      }),
     },
+    inSeries ? { arrayFilters: [{ 'series.id': slot?.seriesId }] } : undefined,
   )
 
   if (result.modifiedCount > 0) {
@@ -425,6 +452,277 @@ export async function getAvailableSlots(
   return slots
 }
 
+// ============================================================================
+// SLOT SERIES
+// ============================================================================
+
+export interface SlotSeriesResult {
+  series: WorkshopSlotSeries
+  created: number
+  updated: number
+  removed: number
+  detached: number // Booked slots no longer in the rule - left for the seller
+}
+
+function buildSeriesSlot(
+  workshopId: string,
+  series: WorkshopSlotSeries,
+  occurrence: { seriesDate: string; startTime: Date; endTime: Date },
+  defaultCapacity: number,
+): WorkshopSlot {
+  return {
+    id: nanoid(),
+    workshopId,
+    startTime: occurrence.startTime,
+    endTime: occurrence.endTime,
+    capacity: series.capacity || defaultCapacity,
+    bookedCount: 0,
+    status: 'available',
+    priceOverride: series.priceOverride,
+    seriesId: series.id,
+    seriesDate: occurrence.seriesDate,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+}
+
+/**
+ * Create a recurrence rule and generate its upcoming slots
+ * Times are local to the tenant's timezone; dates already past are skipped.
+ */
+export async function createSlotSeries(
+  tenantId: string,
+  workshopId: string,
+  data: CreateSlotSeriesInput,
+  regional: { timezone: string; countryCode: string },
+): Promise<SlotSeriesResult> {
+  const db = await getDatabase()
+
+  const workshop = await getWorkshopById(tenantId, workshopId)
+  if (!workshop) {
+    throw new Error('Workshop not found')
+  }
+
+  const series: WorkshopSlotSeries = {
+    id: nanoid(),
+    daysOfWeek: [...new Set(data.daysOfWeek)].sort(),
+    intervalWeeks: data.intervalWeeks || 1,
+    startTime: data.startTime,
+    startDate: data.startDate,
+    weeks: data.weeks,
+    endDate: data.endDate,
+    timezone: regional.timezone,
+    countryCode: regional.countryCode,
+    skipPublicHolidays: data.skipPublicHolidays ?? true,
+    excludedDates: [],
+    capacity: data.capacity,
+    priceOverride: data.priceOverride,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  const now = new Date()
+  const slots = generateSeriesOccurrences(series, workshop.durationMinutes)
+    .filter((occurrence) => occurrence.startTime > now)
+    .map((occurrence) =>
+      buildSeriesSlot(workshopId, series, occurrence, workshop.capacity),
+    )
+
+  await db.collection('workshops').updateOne(
+    { id: workshopId, tenantId },
+    {
+      $push: { slots: { $each: slots }, slotSeries: series } as any,
+      $set: { updatedAt: new Date() },
+    },
+  )
+
+  cache.del(`workshop:${workshopId}`)
+
+  return { series, created: slots.length, updated: 0, removed: 0, detached: 0 }
+}
+
+/**
+ * Edit a series and apply it to every future slot it generated
+ * Past slots and slots edited individually (isSeriesException) are left
+ * alone, deleted dates stay deleted, and booked slots that fall outside the
+ * new rule are detached from the series rather than removed.
+ */
+export async function updateSlotSeries(
+  tenantId: string,
+  workshopId: string,
+  seriesId: string,
+  data: UpdateSlotSeriesInput,
+): Promise<SlotSeriesResult | null> {
+  const db = await getDatabase()
+
+  const workshop = await getWorkshopById(tenantId, workshopId)
+  const existing = workshop?.slotSeries?.find((s) => s.id === seriesId)
+  if (!workshop || !existing) return null
+
+  const series: WorkshopSlotSeries = {
+    ...existing,
+    ...data,
+    daysOfWeek: data.daysOfWeek
+      ? [...new Set(data.daysOfWeek)].sort()
+      : existing.daysOfWeek,
+    updatedAt: new Date(),
+  }
+  // Weeks and end date are alternatives - setting one clears the other
+  if (data.weeks !== undefined) series.endDate = data.endDate
+  else if (data.endDate !== undefined) series.weeks = undefined
+
+  const now = new Date()
+  const occurrences = new Map(
+    generateSeriesOccurrences(series, workshop.durationMinutes)
+      .filter((occurrence) => occurrence.startTime > now)
+      .map((occurrence) => [occurrence.seriesDate, occurrence]),
+  )
+
+  const seriesSlots = workshop.slots.filter((s) => s.seriesId === seriesId)
+  const coveredDates = new Set(seriesSlots.map((s) => s.seriesDate))
+  const futureSlots = seriesSlots.filter(
+    (s) =>
+      !s.isSeriesException &&
+      s.status !== 'cancelled' &&
+      new Date(s.startTime) > now,
+  )
+
+  const toUpdate: Array<{
+    slot: WorkshopSlot
+    startTime: Date
+    endTime: Date
+  }> = []
+  const toRemove: string[] = []
+  const toDetach: string[] = []
+
+  for (const slot of futureSlots) {
+    const occurrence = slot.seriesDate
+      ? occurrences.get(slot.seriesDate)
+      : undefined
+    if (occurrence) {
+      toUpdate.push({
+        slot,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+      })
+    } else if (slot.bookedCount > 0) {
+      toDetach.push(slot.id)
+    } else {
+      toRemove.push(slot.id)
+    }
+  }
+
+  const toCreate = [...occurrences.values()]
+    .filter((occurrence) => !coveredDates.has(occurrence.seriesDate))
+    .map((occurrence) =>
+      buildSeriesSlot(workshopId, series, occurrence, workshop.capacity),
+    )
+
+  const collection = db.collection('workshops')
+
+  for (const { slot, startTime, endTime } of toUpdate) {
+    const update: Record<string, unknown> = {
+      'slots.$.startTime': startTime,
+      'slots.$.endTime': endTime,
+      'slots.$.updatedAt': new Date(),
+    }
+    if (series.capacity) {
+      // Never drop below seats already sold
+      update['slots.$.capacity'] = Math.max(series.capacity, slot.bookedCount)
+    }
+    if (series.priceOverride !== existing.priceOverride) {
+      update['slots.$.priceOverride'] = series.priceOverride
+    }
+    await collection.updateOne(
+      { id: workshopId, tenantId, 'slots.id': slot.id },
+      { $set: update },
+    )
+  }
+
+  for (const slotId of toDetach) {
+    await collection.updateOne(
+      { id: workshopId, tenantId, 'slots.id': slotId },
+      {
+        $unset: { 'slots.$.seriesId': '', 'slots.$.seriesDate': '' },
+        $set: { 'slots.$.updatedAt': new Date() },
+      },
+    )
+  }
+
+  // bookedCount is re-checked so a seat sold since we read the slot survives
+  await collection.updateOne(
+    { id: workshopId, tenantId },
+    {
+      $pull: { slots: { id: { $in: toRemove }, bookedCount: 0 } } as any,
+      $set: { 'slotSeries.$[series]': series, updatedAt: new Date() },
+    },
+    { arrayFilters: [{ 'series.id': seriesId }] },
+  )
+
+  if (toCreate.length > 0) {
+    await collection.updateOne(
+      { id: workshopId, tenantId },
+      { $push: { slots: { $each: toCreate } } as any },
+    )
+  }
+
+  cache.del(`workshop:${workshopId}`)
+
+  return {
+    series,
+    created: toCreate.length,
+    updated: toUpdate.length,
+    removed: toRemove.length,
+    detached: toDetach.length,
+  }
+}
+
+/**
+ * Delete a series and its future unbooked slots
+ * Booked and past slots are kept as standalone slots.
+ */
+export async function deleteSlotSeries(
+  tenantId: string,
+  workshopId: string,
+  seriesId: string,
+): Promise<boolean> {
+  const db = await getDatabase()
+
+  const workshop = await getWorkshopById(tenantId, workshopId)
+  if (!workshop?.slotSeries?.some((s) => s.id === seriesId)) return false
+
+  const now = new Date()
+  const collection = db.collection('workshops')
+
+  await collection.updateOne(
+    { id: workshopId, tenantId },
+    {
+      $pull: {
+        slots: { seriesId, bookedCount: 0, startTime: { $gt: now } },
+        slotSeries: { id: seriesId },
+      } as any,
+      $set: { updatedAt: new Date() },
+    },
+  )
+
+  // Whatever is left no longer belongs to a series
+  await collection.updateOne(
+    { id: workshopId, tenantId },
+    {
+      $unset: {
+        'slots.$[slot].seriesId': '',
+        'slots.$[slot].seriesDate': '',
+        'slots.$[slot].isSeriesException': '',
+      },
+    },
+    { arrayFilters: [{ 'slot.seriesId': seriesId }] },
+  )
+
+  cache.del(`workshop:${workshopId}`)
+
+  return true
+}
+
 // ============================================================================
 // BOOKINGS
 // ============================================================================
@@ -586,6 +884,17 @@ export async function cancelBooking(
 
   cache.del(`workshop:${booking.workshopId}`)
 
+  // Hand the freed seats to the waitlist - the cancellation itself has
+  // already succeeded, so a failed promotion must not surface as an error
+  try {
+    await promoteWaitlist(tenantId, booking.workshopId, booking.slotId)
+  } catch (error) {
+    console.error(
+      `[workshops] Waitlist promotion failed for slot ${booking.slotId}:`,
+      error,
+    )
+  }
+
   return result ? serializeMongo<WorkshopBooking>(result) : null
 }
 
@@ -657,3 +966,431 @@ export async function listBookings(
     total,
   }
 }
+
+// ============================================================================
+// REMINDERS & MINIMUM CAPACITY
+// ============================================================================
+
+export interface ScheduledSlot {
+  workshop: Workshop
+  slot: WorkshopSlot
+}
+
+/**
+ * Published workshop slots starting within a time window
+ * Cancelled slots are excluded.
+ */
+export async function getSlotsStartingBetween(
+  tenantId: string,
+  from: Date,
+  to: Date,
+): Promise<ScheduledSlot[]> {
+  const db = await getDatabase()
+
+  const docs = await db
+    .collection('workshops')
+    .find({
+      tenantId,
+      status: 'published',
+      slots: {
+        $elemMatch: {
+          startTime: { $gte: from, $lte: to },
+          status: { $ne: 'cancelled' },
+        },
+      },
+    })
+    .toArray()
+
+  const results: ScheduledSlot[] = []
+  for (const workshop of serializeMongoArray<Workshop>(docs)) {
+    for (const slot of workshop.slots) {
+      const start = new Date(slot.startTime)
+      if (slot.status !== 'cancelled' && start >= from && start <= to) {
+        results.push({ workshop, slot })
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Confirmed bookings for a slot that haven't been sent a reminder yet
+ */
+export async function getBookingsForReminder(
+  tenantId: string,
+  slotId: string,
+): Promise<WorkshopBooking[]> {
+  const db = await getDatabase()
+
+  const bookings = await db
+    .collection('workshop_bookings')
+    .find({
+      tenantId,
+      slotId,
+      status: 'confirmed',
+      reminderSentAt: { $exists: false },
+    })
+    .toArray()
+
+  return serializeMongoArray<WorkshopBooking>(bookings)
+}
+
+export async function markReminderSent(
+  tenantId: string,
+  bookingId: string,
+): Promise<void> {
+  const db = await getDatabase()
+
+  await db
+    .collection('workshop_bookings')
+    .updateOne(
+      { id: bookingId, tenantId },
+      { $set: { reminderSentAt: new Date(), updatedAt: new Date() } },
+    )
+}
+
+/**
+ * Upcoming slots still below their workshop's minCapacity once the
+ * cancellation cutoff (minCapacityCutoffHours before start) has passed
+ */
+export async function getSlotsBelowMinCapacity(
+  tenantId: string,
+  now: Date = new Date(),
+): Promise<ScheduledSlot[]> {
+  const db = await getDatabase()
+
+  const docs = await db
+    .collection('workshops')
+    .find({
+      tenantId,
+      minCapacity: { $gt: 0 },
+      slots: {
+        $elemMatch: {
+          startTime: { $gt: now },
+          status: { $in: ['available', 'full'] },
+        },
+      },
+    })
+    .toArray()
+
+  const results: ScheduledSlot[] = []
+  for (const workshop of serializeMongoArray<Workshop>(docs)) {
+    const minCapacity = workshop.minCapacity || 0
+    const cutoffMs =
+      (workshop.minCapacityCutoffHours ?? DEFAULT_MIN_CAPACITY_CUTOFF_HOURS) *
+      60 *
+      60 *
+      1000
+
+    for (const slot of workshop.slots) {
+      const start = new Date(slot.startTime).getTime()
+      if (
+        slot.status !== 'cancelled' &&
+        start > now.getTime() &&
+        start - cutoffMs <= now.getTime() &&
+        slot.bookedCount < minCapacity
+      ) {
+        results.push({ workshop, slot })
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Cancel a whole slot
+ * Waiting waitlist entries are cancelled too. Bookings are settled separately
+ * with cancelBookingForSlot so each can be refunded first.
+ */
+export async function cancelSlot(
+  tenantId: string,
+  workshopId: string,
+  slotId: string,
+  reason: string,
+): Promise<WorkshopSlot | null> {
+  const db = await getDatabase()
+
+  const result = await db.collection('workshops').findOneAndUpdate(
+    { id: workshopId, tenantId, 'slots.id': slotId },
+    {
+      $set: {
+        'slots.$.status': 'cancelled',
+        'slots.$.cancelledAt': new Date(),
+        'slots.$.cancellationReason': reason,
+        'slots.$.updatedAt': new Date(),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: 'after' },
+  )
+
+  if (!result) return null
+
+  await db
+    .collection('workshop_waitlist')
+    .updateMany(
+      { tenantId, slotId, status: 'waiting' },
+      { $set: { status: 'cancelled', updatedAt: new Date() } },
+    )
+
+  cache.del(`workshop:${workshopId}`)
+
+  const workshop = serializeMongo<Workshop>(result)
+  return workshop.slots.find((s) => s.id === slotId) || null
+}
+
+export interface BookingRefund {
+  refundId: string
+  amount: number // Cents
+  reason: string
+}
+
+/**
+ * Close a booking because its slot is being cancelled
+ * Unlike cancelBooking, seats aren't released and the waitlist isn't promoted.
+ */
+export async function cancelBookingForSlot(
+  tenantId: string,
+  bookingId: string,
+  refund?: BookingRefund,
+): Promise<WorkshopBooking | null> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const update: Record<string, unknown> = refund
+    ? {
+        status: 'refunded',
+        paymentStatus: 'refunded',
+        refundId: refund.refundId,
+        refundedAmount: refund.amount,
+        refundReason: refund.reason,
+        refundedAt: now,
+      }
+    : { status: 'cancelled' }
+
+  const result = await db
+    .collection('workshop_bookings')
+    .findOneAndUpdate(
+      { id: bookingId, tenantId },
+      { $set: { ...update, cancelledAt: now, updatedAt: now } },
+      { returnDocument: 'after' },
+    )
+
+  return result ? serializeMongo<WorkshopBooking>(result) : null
+}
+
+// ============================================================================
+// WAITLIST
+// ============================================================================
+
+/**
+ * Add a customer to the waitlist for a slot that can't fit their party
+ * Joining twice with the same email returns the existing entry.
+ */
+export async function joinWaitlist(
+  tenantId: string,
+  data: CreateWaitlistEntryInput,
+): Promise<WorkshopWaitlistEntry> {
+  const db = await getDatabase()
+
+  const workshop = await getWorkshopById(tenantId, data.workshopId)
+  if (!workshop) {
+    throw new Error('Workshop not found')
+  }
+
+  const slot = workshop.slots.find((s) => s.id === data.slotId)
+  if (!slot) {
+    throw new Error('Slot not found')
+  }
+
+  if (slot.status === 'cancelled' || new Date(slot.startTime) <= new Date()) {
+    throw new Error('Slot is not available')
+  }
+
+  if (data.numberOfAttendees > slot.capacity) {
+    throw new Error('Not enough capacity for this booking')
+  }
+
+  if (
+    slot.status === 'available' &&
+    slot.bookedCount + data.numberOfAttendees <= slot.capacity
+  ) {
+    throw new Error('Slot has seats available')
+  }
+
+  const customerEmail = data.customerEmail.toLowerCase()
+  const existing = await db.collection('workshop_waitlist').findOne({
+    tenantId,
+    slotId: data.slotId,
+    customerEmail,
+    status: 'waiting',
+  })
+  if (existing) {
+    return serializeMongo<WorkshopWaitlistEntry>(existing)
+  }
+
+  const entry: WorkshopWaitlistEntry = {
+    id: nanoid(),
+    tenantId,
+    workshopId: data.workshopId,
+    slotId: data.slotId,
+    customerEmail,
+    customerName: data.customerName,
+    customerPhone: data.customerPhone,
+    numberOfAttendees: data.numberOfAttendees,
+    status: 'waiting',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  await db.collection('workshop_waitlist').insertOne(entry)
+
+  return serializeMongo<WorkshopWaitlistEntry>(entry)
+}
+
+/**
+ * Waitlist entries for a workshop in queue order (oldest first)
+ */
+export async function listWaitlist(
+  tenantId: string,
+  workshopId: string,
+  slotId?: string,
+): Promise<WorkshopWaitlistEntry[]> {
+  const db = await getDatabase()
+
+  const query: any = {
+    tenantId,
+    workshopId,
+    status: { $in: ['waiting', 'promoted'] },
+  }
+  if (slotId) {
+    query.slotId = slotId
+  }
+
+  const entries = await db
+    .collection('workshop_waitlist')
+    .find(query)
+    .sort({ createdAt: 1 })
+    .toArray()
+
+  return serializeMongoArray<WorkshopWaitlistEntry>(entries)
+}
+
+export async function removeFromWaitlist(
+  tenantId: string,
+  entryId: string,
+): Promise<boolean> {
+  const db = await getDatabase()
+
+  const result = await db
+    .collection('workshop_waitlist')
+    .updateOne(
+      { id: entryId, tenantId, status: 'waiting' },
+      { $set: { status: 'cancelled', updatedAt: new Date() } },
+    )
+
+  return result.modifiedCount > 0
+}
+
+/**
+ * Move waitlisted customers into free seats, oldest entry first
+ * Each promotion creates a pending booking; a party too large for the
+ * remaining seats keeps its place while smaller parties behind it fit in.
+ */
+export async function promoteWaitlist(
+  tenantId: string,
+  workshopId: string,
+  slotId: string,
+): Promise<WorkshopWaitlistEntry[]> {
+  const db = await getDatabase()
+
+  const workshop = await getWorkshopById(tenantId, workshopId)
+  const slot = workshop?.slots.find((s) => s.id === slotId)
+  if (
+    !slot ||
+    slot.status !== 'available' ||
+    new Date(slot.startTime) <= new Date()
+  ) {
+    return []
+  }
+
+  let seatsLeft = slot.capacity - slot.bookedCount
+  if (seatsLeft <= 0) return []
+
+  const waiting = serializeMongoArray<WorkshopWaitlistEntry>(
+    await db
+      .collection('workshop_waitlist')
+      .find({ tenantId, slotId, status: 'waiting' })
+      .sort({ createdAt: 1 })
+      .toArray(),
+  )
+
+  const promoted: WorkshopWaitlistEntry[] = []
+  for (const entry of waiting) {
+    if (seatsLeft <= 0) break
+    if (entry.numberOfAttendees > seatsLeft) continue
+
+    const booking = await createBooking(tenantId, {
+      workshopId,
+      slotId,
+      customerEmail: entry.customerEmail,
+      customerName: entry.customerName,
+      customerPhone: entry.customerPhone,
+      numberOfAttendees: entry.numberOfAttendees,
+    })
+    seatsLeft -= entry.numberOfAttendees
+
+    const result = await db.collection('workshop_waitlist').findOneAndUpdate(
+      { id: entry.id, tenantId },
+      {
+        $set: {
+          status: 'promoted',
+          bookingId: booking.id,
+          promotedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: 'after' },
+    )
+    if (result) {
+      promoted.push(serializeMongo<WorkshopWaitlistEntry>(result))
+    }
+  }
+
+  return promoted
+}
+
+/**
+ * Promoted entries whose customer hasn't been emailed yet
+ */
+export async function getWaitlistPromotionsToNotify(
+  tenantId: string,
+  limit = 100,
+): Promise<WorkshopWaitlistEntry[]> {
+  const db = await getDatabase()
+
+  const entries = await db
+    .collection('workshop_waitlist')
+    .find({ tenantId, status: 'promoted', notifiedAt: { $exists: false } })
+    .sort({ promotedAt: 1 })
+    .limit(limit)
+    .toArray()
+
+  return serializeMongoArray<WorkshopWaitlistEntry>(entries)
+}
+
+export async function markWaitlistNotified(
+  tenantId: string,
+  entryId: string,
+): Promise<void> {
+  const db = await getDatabase()
+
+  await db
+    .collection('workshop_waitlist')
+    .updateOne(
+      { id: entryId, tenantId },
+      { $set: { notifiedAt: new Date(), updatedAt: new Date() } },
+    )
+}
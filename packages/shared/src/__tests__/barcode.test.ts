@@ -0,0 +1,71 @@
+/**
+ * Tests for barcode label encoding
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  calculateEan13CheckDigit,
+  createInternalEan13,
+  encodeBarcode,
+  getBarcodeFormat,
+  isValidEan13,
+} from '../services/barcode'
+
+function toBits(modules: boolean[]): string {
+  return modules.map((bar) => (bar ? '1' : '0')).join('')
+}
+
+describe('EAN-13', () => {
+  it('calculates and checks the check digit', () => {
+    expect(calculateEan13CheckDigit('400638133393')).toBe(1)
+    expect(isValidEan13('4006381333931')).toBe(true)
+    expect(isValidEan13('4006381333932')).toBe(false)
+    expect(isValidEan13('ABC-123')).toBe(false)
+  })
+
+  it('builds in-store codes with the 2 prefix', () => {
+    const code = createInternalEan13('00000012345')
+
+    expect(code).toMatch(/^200000012345\d$/)
+    expect(isValidEan13(code)).toBe(true)
+  })
+
+  it('encodes 95 modules with guard bars', () => {
+    const bits = toBits(encodeBarcode('4006381333931', 'ean13'))
+
+    expect(bits).toHaveLength(95)
+    expect(bits.startsWith('101')).toBe(true)
+    expect(bits.slice(45, 50)).toBe('01010')
+    expect(bits.endsWith('101')).toBe(true)
+  })
+})
+
+describe('Code 128', () => {
+  it('encodes SKUs in code set B with checksum and stop', () => {
+    const bits = toBits(encodeBarcode('RING-01', 'code128'))
+
+    // Start + 7 characters + checksum = 9 symbols of 11 modules, stop is 13
+    expect(bits).toHaveLength(9 * 11 + 13)
+    expect(bits.startsWith('11010010000')).toBe(true) // Start B
+    expect(bits.endsWith('1100011101011')).toBe(true) // Stop
+  })
+
+  it('packs even-length digit strings two per symbol', () => {
+    const bits = toBits(encodeBarcode('123456', 'code128'))
+
+    expect(bits).toHaveLength(5 * 11 + 13)
+    expect(bits.startsWith('11010011100')).toBe(true) // Start C
+  })
+
+  it('rejects characters outside printable ASCII', () => {
+    expect(() => encodeBarcode('café', 'code128')).toThrow()
+  })
+})
+
+describe('getBarcodeFormat', () => {
+  it('prints valid EANs as EAN-13 and everything else as Code 128', () => {
+    expect(getBarcodeFormat('4006381333931')).toBe('ean13')
+    expect(getBarcodeFormat('4006381333932')).toBe('code128')
+    expect(getBarcodeFormat('TEE-BLU-M')).toBe('code128')
+  })
+})
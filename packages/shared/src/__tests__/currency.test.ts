@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  convertAmount,
+  getDisplayCurrencies,
+  getExchangeRate,
+  getTenantCurrency,
+  toMinorUnits,
+  toProviderAmountString,
+} from '../lib/currency'
+import type { ExchangeRateTable } from '../types/tenant'
+
+const rates: ExchangeRateTable = {
+  base: 'AUD',
+  rates: { NZD: 1.08, USD: 0.66, GBP: 0.52, JPY: 98 },
+}
+
+describe('getTenantCurrency', () => {
+  it('defaults to AUD when regional settings are missing', () => {
+    expect(getTenantCurrency({})).toBe('AUD')
+    expect(getTenantCurrency(null)).toBe('AUD')
+  })
+
+  it('prefers customCurrency over the preset currency', () => {
+    expect(
+      getTenantCurrency({
+        regionalSettings: {
+          countryCode: 'NZ',
+          currency: 'NZD',
+          customCurrency: 'usd',
+          locale: 'en-NZ',
+          timezone: 'Pacific/Auckland',
+          measurementSystem: 'metric',
+        },
+      }),
+    ).toBe('USD')
+  })
+})
+
+describe('getExchangeRate', () => {
+  it('returns 1 for the same currency without a table', () => {
+    expect(getExchangeRate('nzd', 'NZD', undefined)).toBe(1)
+  })
+
+  it('crosses rates through the table base', () => {
+    expect(getExchangeRate('USD', 'GBP', rates)).toBeCloseTo(0.52 / 0.66)
+  })
+
+  it('returns null for currencies missing from the table', () => {
+    expect(getExchangeRate('AUD', 'EUR', rates)).toBeNull()
+  })
+})
+
+describe('convertAmount', () => {
+  it('converts and rounds to 2dp', () => {
+    expect(convertAmount(100, 'AUD', 'NZD', rates)).toBe(108)
+    expect(convertAmount(9.95, 'AUD', 'USD', rates)).toBe(6.57)
+  })
+
+  it('rounds zero-decimal currencies to whole units', () => {
+    expect(convertAmount(9.95, 'AUD', 'JPY', rates)).toBe(975)
+  })
+})
+
+describe('minor units', () => {
+  it('converts to cents for decimal currencies', () => {
+    expect(toMinorUnits(19.95, 'NZD')).toBe(1995)
+    expect(toProviderAmountString(19.9, 'GBP')).toBe('19.90')
+  })
+
+  it('leaves zero-decimal currencies unscaled', () => {
+    expect(toMinorUnits(975, 'JPY')).toBe(975)
+    expect(toProviderAmountString(975, 'JPY')).toBe('975')
+  })
+})
+
+describe('getDisplayCurrencies', () => {
+  it('only offers currencies with a configured rate', () => {
+    expect(
+      getDisplayCurrencies({
+        regionalSettings: {
+          countryCode: 'AU',
+          currency: 'AUD',
+          locale: 'en-AU',
+          timezone: 'Australia/Sydney',
+          measurementSystem: 'metric',
+          displayCurrencies: ['NZD', 'EUR', 'aud', 'GBP'],
+          exchangeRates: rates,
+        },
+      }),
+    ).toEqual(['AUD', 'NZD', 'GBP'])
+  })
+})
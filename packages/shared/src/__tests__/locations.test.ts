@@ -0,0 +1,83 @@
+/**
+ * Tests for splitting stock across inventory locations
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  allocateLocationStock,
+  getHeldStock,
+  getOnlineAvailableStock,
+} from '../services/locations'
+import type { InventoryLocation } from '../types/location'
+
+function location(
+  id: string,
+  overrides: Partial<InventoryLocation> = {},
+): InventoryLocation {
+  return {
+    id,
+    tenantId: 'tenant-1',
+    name: id,
+    type: 'other',
+    fulfillsOnline: true,
+    isDefault: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+const HOME = location('home', { isDefault: true })
+const STUDIO = location('studio')
+const CONSIGNMENT = location('consignment', { fulfillsOnline: false })
+
+describe('allocateLocationStock', () => {
+  it('gives the default location whatever other locations do not hold', () => {
+    const { levels, corrections } = allocateLocationStock(
+      10,
+      [HOME, STUDIO, CONSIGNMENT],
+      { studio: 3, consignment: 2 },
+    )
+
+    expect(levels.map((l) => [l.locationId, l.quantity])).toEqual([
+      ['home', 5],
+      ['studio', 3],
+      ['consignment', 2],
+    ])
+    expect(corrections).toEqual([])
+  })
+
+  it('takes a shortfall from online locations before offline ones', () => {
+    const { levels, corrections } = allocateLocationStock(
+      3,
+      [HOME, STUDIO, CONSIGNMENT],
+      { studio: 2, consignment: 4 },
+    )
+
+    expect(levels.map((l) => [l.locationId, l.quantity])).toEqual([
+      ['home', 0],
+      ['studio', 0],
+      ['consignment', 3],
+    ])
+    expect(corrections).toEqual([
+      { locationId: 'studio', quantity: 0 },
+      { locationId: 'consignment', quantity: 3 },
+    ])
+  })
+})
+
+describe('online availability', () => {
+  it('excludes stock held at offline locations', () => {
+    const { levels } = allocateLocationStock(10, [HOME, CONSIGNMENT], {
+      consignment: 4,
+    })
+
+    expect(getHeldStock(levels)).toBe(4)
+    expect(getOnlineAvailableStock({ stock: 10, heldStock: 4 })).toBe(6)
+  })
+
+  it('keeps unlimited stock unlimited and never goes below zero', () => {
+    expect(getOnlineAvailableStock({ stock: undefined })).toBeUndefined()
+    expect(getOnlineAvailableStock({ stock: 2, heldStock: 5 })).toBe(0)
+  })
+})
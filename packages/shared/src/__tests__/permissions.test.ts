@@ -0,0 +1,45 @@
+/**
+ * Tests for team role path permissions
+ */
+
+import { describe, expect, it } from 'vitest'
+import { canRoleAccessPath } from '../lib/permissions'
+
+describe('canRoleAccessPath', () => {
+  it('allows staff into the areas their role grants', () => {
+    expect(canRoleAccessPath('fulfilment', '/dashboard/orders')).toBe(true)
+    expect(canRoleAccessPath('fulfilment', '/api/orders/o-1', 'PATCH')).toBe(
+      true,
+    )
+    expect(canRoleAccessPath('content', '/api/orders', 'POST')).toBe(false)
+  })
+
+  it('keeps shop settings readable but not writable for every role', () => {
+    expect(canRoleAccessPath('content', '/api/tenant')).toBe(true)
+    expect(canRoleAccessPath('content', '/api/tenant', 'PATCH')).toBe(false)
+  })
+
+  it('treats carrier credentials as settings rather than orders', () => {
+    expect(
+      canRoleAccessPath('fulfilment', '/api/shipping/labels', 'POST'),
+    ).toBe(true)
+    expect(
+      canRoleAccessPath('fulfilment', '/api/shipping/sendle', 'POST'),
+    ).toBe(false)
+    expect(canRoleAccessPath('manager', '/api/shipping/sendle', 'POST')).toBe(
+      true,
+    )
+  })
+
+  it('opens the dashboard home and help to every role', () => {
+    expect(canRoleAccessPath('content', '/dashboard')).toBe(true)
+    expect(canRoleAccessPath('content', '/dashboard/help')).toBe(true)
+    expect(canRoleAccessPath('fulfilment', '/api/dashboard/stats')).toBe(true)
+  })
+
+  it('denies unmapped paths to staff but not the owner', () => {
+    expect(canRoleAccessPath('manager', '/api/new-feature')).toBe(false)
+    expect(canRoleAccessPath('manager', '/dashboard/new-feature')).toBe(false)
+    expect(canRoleAccessPath('owner', '/api/new-feature', 'POST')).toBe(true)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Tests for pre-order / made-to-order lead times
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  formatLeadTime,
+  getOrderProductionDue,
+  getProductionDueDate,
+} from '../services/preorder'
+
+const ORDERED_AT = new Date('2026-03-02T00:00:00Z')
+
+describe('getProductionDueDate', () => {
+  it('adds the lead time for made-to-order pieces', () => {
+    const due = getProductionDueDate(
+      { enabled: true, mode: 'made_to_order', leadTimeDays: 21 },
+      ORDERED_AT,
+    )
+
+    expect(due?.toISOString()).toBe('2026-03-23T00:00:00.000Z')
+  })
+
+  it('uses the ship date for pre-orders, or now once it has passed', () => {
+    const config = {
+      enabled: true,
+      mode: 'preorder' as const,
+      expectedShipDate: new Date('2026-04-01T00:00:00Z'),
+    }
+
+    expect(getProductionDueDate(config, ORDERED_AT)?.toISOString()).toBe(
+      '2026-04-01T00:00:00.000Z',
+    )
+    expect(
+      getProductionDueDate(
+        config,
+        new Date('2026-05-01T00:00:00Z'),
+      )?.toISOString(),
+    ).toBe('2026-05-01T00:00:00.000Z')
+  })
+
+  it('returns undefined for pieces sold from stock', () => {
+    expect(getProductionDueDate(undefined, ORDERED_AT)).toBeUndefined()
+    expect(
+      getProductionDueDate(
+        { enabled: false, mode: 'made_to_order', leadTimeDays: 7 },
+        ORDERED_AT,
+      ),
+    ).toBeUndefined()
+  })
+})
+
+describe('getOrderProductionDue', () => {
+  it('returns the latest item due date', () => {
+    const due = getOrderProductionDue([
+      { productionDue: new Date('2026-03-10T00:00:00Z') },
+      {},
+      { productionDue: new Date('2026-03-20T00:00:00Z') },
+    ])
+
+    expect(due?.toISOString()).toBe('2026-03-20T00:00:00.000Z')
+  })
+
+  it('returns undefined when no item is a pre-order', () => {
+    expect(getOrderProductionDue([{}, {}])).toBeUndefined()
+  })
+})
+
+describe('formatLeadTime', () => {
+  it('describes made-to-order lead times in days or weeks', () => {
+    expect(
+      formatLeadTime({ enabled: true, mode: 'made_to_order', leadTimeDays: 5 }),
+    ).toBe('Made to order - ships in 5 days')
+    expect(
+      formatLeadTime({
+        enabled: true,
+        mode: 'made_to_order',
+        leadTimeDays: 21,
+      }),
+    ).toBe('Made to order - ships in 3 weeks')
+  })
+
+  it('describes pre-orders with their ship date, including from JSON', () => {
+    const config = JSON.parse(
+      JSON.stringify({
+        enabled: true,
+        mode: 'preorder',
+        expectedShipDate: new Date('2026-04-15T00:00:00Z'),
+      }),
+    )
+
+    expect(formatLeadTime(config)).toBe(
+      'Pre-order - expected to ship 15 April 2026',
+    )
+  })
+
+  it('returns undefined when disabled', () => {
+    expect(formatLeadTime(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Tests for purchase order reorder helpers
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  getExpectedDeliveryDate,
+  getPurchaseOrderSubtotal,
+  suggestReorderQuantity,
+} from '../services/purchase-orders'
+
+describe('suggestReorderQuantity', () => {
+  it('tops stock up to twice the reorder point', () => {
+    expect(
+      suggestReorderQuantity({ quantityInStock: 3, reorderPoint: 10 }),
+    ).toBe(17)
+    expect(
+      suggestReorderQuantity({ quantityInStock: 0.5, reorderPoint: 2 }),
+    ).toBe(4)
+  })
+
+  it('always orders at least one unit', () => {
+    expect(
+      suggestReorderQuantity({ quantityInStock: 0, reorderPoint: 0 }),
+    ).toBe(1)
+    expect(
+      suggestReorderQuantity({ quantityInStock: 30, reorderPoint: 10 }),
+    ).toBe(1)
+  })
+})
+
+describe('getPurchaseOrderSubtotal', () => {
+  it('sums line costs to the cent', () => {
+    expect(
+      getPurchaseOrderSubtotal([
+        { quantity: 3, costPerUnit: 2.5 },
+        { quantity: 1.5, costPerUnit: 0.99 },
+      ]),
+    ).toBe(8.99)
+  })
+})
+
+describe('getExpectedDeliveryDate', () => {
+  it('adds the supplier lead time', () => {
+    const sentAt = new Date('2026-03-02T00:00:00Z')
+
+    expect(getExpectedDeliveryDate(sentAt, 10)?.toISOString()).toBe(
+      '2026-03-12T00:00:00.000Z',
+    )
+    expect(getExpectedDeliveryDate(sentAt, undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Tests for signed review request links
+ * Tokens sit in customers' inboxes, so the format must stay stable
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  createReviewRequestToken,
+  getReviewRequestUrl,
+  REVIEW_REQUEST_LINK_TTL_DAYS,
+  verifyReviewRequestToken,
+} from '../services/review-request'
+
+const SECRET = 'review-secret'
+const ORDER = {
+  tenantId: 'tenant-1',
+  orderId: 'order-1',
+  email: 'Buyer@Example.com',
+}
+
+describe('review request tokens', () => {
+  it('round-trips the order and lowercases the email', () => {
+    const token = createReviewRequestToken(SECRET, ORDER)
+
+    expect(verifyReviewRequestToken(SECRET, token)).toMatchObject({
+      tenantId: 'tenant-1',
+      orderId: 'order-1',
+      email: 'buyer@example.com',
+    })
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = createReviewRequestToken('other-secret', ORDER)
+
+    expect(verifyReviewRequestToken(SECRET, token)).toBeNull()
+  })
+
+  it('rejects a tampered payload', () => {
+    const token = createReviewRequestToken(SECRET, ORDER)
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(
+      JSON.stringify({ ...ORDER, orderId: 'order-2', exp: 9999999999 }),
+    ).toString('base64url')
+
+    expect(
+      verifyReviewRequestToken(SECRET, `${forged}.${signature}`),
+    ).toBeNull()
+    expect(verifyReviewRequestToken(SECRET, 'not-a-token')).toBeNull()
+  })
+
+  it('expires after the link lifetime', () => {
+    const issuedAt = Date.UTC(2026, 0, 1)
+    const token = createReviewRequestToken(SECRET, ORDER, issuedAt)
+    const day = 24 * 60 * 60 * 1000
+
+    expect(
+      verifyReviewRequestToken(
+        SECRET,
+        token,
+        issuedAt + (REVIEW_REQUEST_LINK_TTL_DAYS - 1) * day,
+      ),
+    ).not.toBeNull()
+    expect(
+      verifyReviewRequestToken(
+        SECRET,
+        token,
+        issuedAt + (REVIEW_REQUEST_LINK_TTL_DAYS + 1) * day,
+      ),
+    ).toBeNull()
+  })
+
+  it('builds the storefront review URL', () => {
+    expect(getReviewRequestUrl('https://shop.example.com', 'abc.def')).toBe(
+      'https://shop.example.com/review/abc.def',
+    )
+  })
+})
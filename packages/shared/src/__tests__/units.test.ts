@@ -0,0 +1,64 @@
+/**
+ * Tests for material unit conversion and unit-aware COGS
+ */
+
+import { describe, expect, it } from 'vitest'
+import { calculateCOGSWithBreakdown } from '../lib/cogs'
+import {
+  areUnitsCompatible,
+  convertQuantity,
+  getCompatibleUnits,
+} from '../lib/units'
+
+describe('convertQuantity', () => {
+  it('converts within a dimension', () => {
+    expect(convertQuantity(250, 'gram', 'kg')).toBe(0.25)
+    expect(convertQuantity(30, 'cm', 'meter')).toBe(0.3)
+    expect(convertQuantity(1.5, 'l', 'ml')).toBe(1500)
+  })
+
+  it('accepts common spellings', () => {
+    expect(convertQuantity(500, 'g', 'kg')).toBe(0.5)
+    expect(areUnitsCompatible('metre', 'cm')).toBe(true)
+  })
+
+  it('returns null across dimensions and leaves unitless usage alone', () => {
+    expect(convertQuantity(1, 'piece', 'gram')).toBeNull()
+    expect(convertQuantity(1, 'piece', 'set')).toBeNull()
+    expect(convertQuantity(3, undefined, 'kg')).toBe(3)
+  })
+})
+
+describe('getCompatibleUnits', () => {
+  it('lists units of the same dimension', () => {
+    expect(getCompatibleUnits('kg')).toEqual(['mg', 'gram', 'kg', 'oz', 'lb'])
+    expect(getCompatibleUnits('piece')).toEqual(['piece'])
+  })
+})
+
+describe('calculateCOGSWithBreakdown', () => {
+  const clay = { id: 'mat-clay', name: 'Clay', unit: 'kg', costPerUnit: 12 }
+
+  it('costs usage recorded in a different unit', () => {
+    const breakdown = calculateCOGSWithBreakdown(
+      [{ materialId: 'mat-clay', quantity: 250, unit: 'gram' }],
+      [clay],
+    )
+
+    expect(breakdown.totalCOGS).toBe(3)
+    expect(breakdown.materialCosts[0]).toMatchObject({
+      quantity: 0.25,
+      unit: 'kg',
+    })
+  })
+
+  it('flags usage in an incompatible unit', () => {
+    const breakdown = calculateCOGSWithBreakdown(
+      [{ materialId: 'mat-clay', quantity: 2, unit: 'piece' }],
+      [clay],
+    )
+
+    expect(breakdown.totalCOGS).toBe(0)
+    expect(breakdown.unitMismatchMaterialIds).toEqual(['mat-clay'])
+  })
+})
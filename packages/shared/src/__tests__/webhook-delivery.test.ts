@@ -0,0 +1,272 @@
+/**
+ * Tests for outbound webhook signing and delivery
+ * Tenants verify these signatures, so the format must stay stable
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+const { mockLookup } = vi.hoisted(() => ({
+  mockLookup: vi.fn(async () => [{ address: '93.184.216.34', family: 4 }]),
+}))
+vi.mock('node:dns/promises', () => ({ lookup: mockLookup }))
+
+import {
+  buildWebhookSignatureHeader,
+  createWebhookDispatcher,
+  createWebhookPayload,
+  deliverWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../services/webhook-delivery'
+
+const SECRET = 'whsec_test'
+
+describe('webhook signatures', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const signature = signWebhookPayload(SECRET, 1700000000, '{"a":1}')
+
+    expect(signature).toMatch(/^[a-f0-9]{64}$/)
+    expect(signWebhookPayload(SECRET, 1700000000, '{"a":1}')).toBe(signature)
+    expect(signWebhookPayload(SECRET, 1700000001, '{"a":1}')).not.toBe(
+      signature,
+    )
+  })
+
+  it('verifies a fresh header for the same body and secret', () => {
+    const header = buildWebhookSignatureHeader(SECRET, '{"a":1}')
+
+    expect(verifyWebhookSignature(SECRET, header, '{"a":1}')).toBe(true)
+    expect(verifyWebhookSignature(SECRET, header, '{"a":2}')).toBe(false)
+    expect(verifyWebhookSignature('whsec_other', header, '{"a":1}')).toBe(false)
+  })
+
+  it('rejects stale or malformed headers', () => {
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 600
+    const stale = buildWebhookSignatureHeader(SECRET, '{}', staleTimestamp)
+
+    expect(verifyWebhookSignature(SECRET, stale, '{}')).toBe(false)
+    expect(verifyWebhookSignature(SECRET, 'garbage', '{}')).toBe(false)
+    expect(verifyWebhookSignature(SECRET, null, '{}')).toBe(false)
+  })
+})
+
+describe('deliverWebhook', () => {
+  const endpoint = { url: 'https://example.com/hook', secret: SECRET }
+  const payload = createWebhookPayload('tenant-1', 'order.paid', {
+    order: { id: 'order-1' },
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends a signed JSON body', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: 'delivery-1',
+    })
+
+    expect(result).toMatchObject({
+      success: true,
+      attempts: 1,
+      responseStatus: 200,
+    })
+    const [, init] = fetchMock.mock.calls[0]
+    expect(init.headers['X-MadeBuy-Event']).toBe('order.paid')
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        init.headers['X-MadeBuy-Signature'],
+        init.body,
+      ),
+    ).toBe(true)
+  })
+
+  it('retries server errors then gives up', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(async () => new Response('down', { status: 503 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: 'delivery-1',
+      maxRetries: 2,
+      baseDelayMs: 1,
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(result).toMatchObject({
+      success: false,
+      attempts: 3,
+      responseStatus: 503,
+    })
+    expect(result).not.toHaveProperty('responseBody')
+  })
+
+  it('refuses hosts that resolve to private addresses', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'))
+    vi.stubGlobal('fetch', fetchMock)
+    mockLookup.mockResolvedValueOnce([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ])
+
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: 'delivery-1',
+      baseDelayMs: 1,
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ success: false, attempts: 1 })
+    expect(result.error).toContain('public address')
+  })
+
+  it('refuses hosts that rebind to a private address after the check', async () => {
+    mockLookup.mockClear()
+    mockLookup
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }])
+      .mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }])
+
+    // Real fetch - the second resolution happens when it connects
+    const result = await deliverWebhook(
+      { ...endpoint, url: 'http://rebind.example.com/hook' },
+      payload,
+      { deliveryId: 'delivery-1', baseDelayMs: 1 },
+    )
+
+    expect(mockLookup).toHaveBeenCalledTimes(2)
+    expect(result).toMatchObject({ success: false, attempts: 1 })
+    expect(result.error).toContain('public address')
+  })
+
+  it('refuses IPv4-mapped IPv6 loopback literals', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('ok'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverWebhook(
+      { ...endpoint, url: 'https://[::ffff:7f00:1]/hook' },
+      payload,
+      { deliveryId: 'delivery-1', baseDelayMs: 1 },
+    )
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result.success).toBe(false)
+  })
+
+  it('does not follow redirects', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(null, {
+        status: 302,
+        headers: { Location: 'http://169.254.169.254/' },
+      }),
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: 'delivery-1',
+      baseDelayMs: 1,
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][1].redirect).toBe('manual')
+    expect(result).toMatchObject({ success: false, responseStatus: 302 })
+    expect(result.error).toContain('redirects are not followed')
+  })
+
+  it('does not retry client errors', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response('nope', { status: 410 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: 'delivery-1',
+      baseDelayMs: 1,
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result.success).toBe(false)
+    expect(result.responseStatus).toBe(410)
+  })
+})
+
+describe('createWebhookDispatcher', () => {
+  const endpoint = {
+    id: 'endpoint-1',
+    tenantId: 'tenant-1',
+    url: 'https://example.com/hook',
+    secret: SECRET,
+    events: ['order.paid' as const],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  function createStore() {
+    return {
+      listEndpointsForEvent: vi.fn().mockResolvedValue([endpoint]),
+      getEndpoint: vi.fn().mockResolvedValue(endpoint),
+      createDelivery: vi.fn().mockResolvedValue({ id: 'delivery-1' }),
+      completeDelivery: vi.fn().mockResolvedValue(undefined),
+      getDelivery: vi.fn(),
+    }
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('logs each delivery through the store', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok')))
+    const store = createStore()
+
+    createWebhookDispatcher(store).dispatchWebhookEvent(
+      'tenant-1',
+      'order.paid',
+      { order: { id: 'order-1' } },
+    )
+
+    expect(store.listEndpointsForEvent).toHaveBeenCalledWith(
+      'tenant-1',
+      'order.paid',
+    )
+    await vi.waitFor(() =>
+      expect(store.completeDelivery).toHaveBeenCalledWith(
+        'tenant-1',
+        'delivery-1',
+        expect.objectContaining({ success: true }),
+      ),
+    )
+  })
+
+  it('returns before slow endpoints respond', () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => new Promise(() => {})),
+    )
+    const store = createStore()
+
+    createWebhookDispatcher(store).dispatchWebhookEvent(
+      'tenant-1',
+      'order.paid',
+      {},
+    )
+
+    expect(store.completeDelivery).not.toHaveBeenCalled()
+  })
+
+  it('never throws when the store fails', () => {
+    const store = createStore()
+    store.listEndpointsForEvent.mockRejectedValue(new Error('db down'))
+
+    expect(() =>
+      createWebhookDispatcher(store).dispatchWebhookEvent(
+        'tenant-1',
+        'order.paid',
+        {},
+      ),
+    ).not.toThrow()
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Tests for workshop slot recurrence
+ * Occurrences are generated in the maker's local time, so daylight saving and
+ * holiday handling have to hold up across a whole series
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  generateSeriesOccurrences,
+  getPublicHolidays,
+  MAX_SERIES_WEEKS,
+  type SeriesRule,
+  zonedTimeToUtc,
+} from '../services/workshop-recurrence'
+
+const SATURDAYS: SeriesRule = {
+  daysOfWeek: [6],
+  intervalWeeks: 1,
+  startTime: '10:00',
+  startDate: '2026-03-07',
+  weeks: 12,
+  timezone: 'Australia/Sydney',
+  countryCode: 'AU',
+  skipPublicHolidays: false,
+  excludedDates: [],
+}
+
+describe('zonedTimeToUtc', () => {
+  it('converts Sydney summer and winter times', () => {
+    // AEDT (UTC+11) in January, AEST (UTC+10) in July
+    expect(
+      zonedTimeToUtc('2026-01-10', '10:00', 'Australia/Sydney').toISOString(),
+    ).toBe('2026-01-09T23:00:00.000Z')
+    expect(
+      zonedTimeToUtc('2026-07-11', '10:00', 'Australia/Sydney').toISOString(),
+    ).toBe('2026-07-11T00:00:00.000Z')
+  })
+
+  it('handles timezones without daylight saving', () => {
+    expect(
+      zonedTimeToUtc('2026-07-11', '09:30', 'Australia/Brisbane').toISOString(),
+    ).toBe('2026-07-10T23:30:00.000Z')
+  })
+})
+
+describe('getPublicHolidays', () => {
+  it('includes Easter and substitute days', () => {
+    const holidays = getPublicHolidays(2026, 'AU')
+
+    expect(holidays).toContain('2026-04-03') // Good Friday
+    expect(holidays).toContain('2026-04-06') // Easter Monday
+    expect(holidays).toContain('2026-04-25') // Anzac Day (Saturday)
+    expect(holidays).toContain('2026-12-28') // Boxing Day substitute
+  })
+
+  it('returns nothing for unsupported countries', () => {
+    expect(getPublicHolidays(2026, 'NZ')).toEqual([])
+  })
+})
+
+describe('generateSeriesOccurrences', () => {
+  it('creates one slot per Saturday for the number of weeks', () => {
+    const occurrences = generateSeriesOccurrences(SATURDAYS, 120)
+
+    expect(occurrences).toHaveLength(12)
+    expect(occurrences[0].seriesDate).toBe('2026-03-07')
+    expect(occurrences[11].seriesDate).toBe('2026-05-23')
+    expect(
+      occurrences[0].endTime.getTime() - occurrences[0].startTime.getTime(),
+    ).toBe(120 * 60 * 1000)
+  })
+
+  it('keeps the local start time across the end of daylight saving', () => {
+    // Sydney leaves daylight saving on 5 April 2026
+    const occurrences = generateSeriesOccurrences(SATURDAYS, 60)
+    const before = occurrences.find((o) => o.seriesDate === '2026-04-04')
+    const after = occurrences.find((o) => o.seriesDate === '2026-04-11')
+
+    expect(before?.startTime.toISOString()).toBe('2026-04-03T23:00:00.000Z')
+    expect(after?.startTime.toISOString()).toBe('2026-04-11T00:00:00.000Z')
+  })
+
+  it('skips public holidays when asked', () => {
+    const dates = generateSeriesOccurrences(
+      { ...SATURDAYS, skipPublicHolidays: true },
+      60,
+    ).map((o) => o.seriesDate)
+
+    expect(dates).not.toContain('2026-04-25')
+    expect(dates).toHaveLength(11)
+  })
+
+  it('skips excluded dates', () => {
+    const dates = generateSeriesOccurrences(
+      { ...SATURDAYS, excludedDates: ['2026-03-14'] },
+      60,
+    ).map((o) => o.seriesDate)
+
+    expect(dates).not.toContain('2026-03-14')
+    expect(dates).toHaveLength(11)
+  })
+
+  it('supports fortnightly rules on several days', () => {
+    const dates = generateSeriesOccurrences(
+      {
+        ...SATURDAYS,
+        daysOfWeek: [3, 6],
+        intervalWeeks: 2,
+        startDate: '2026-03-02',
+        weeks: 4,
+      },
+      60,
+    ).map((o) => o.seriesDate)
+
+    expect(dates).toEqual([
+      '2026-03-04',
+      '2026-03-07',
+      '2026-03-18',
+      '2026-03-21',
+    ])
+  })
+
+  it('stops at the end date and caps long series', () => {
+    const untilEnd = generateSeriesOccurrences(
+      { ...SATURDAYS, weeks: undefined, endDate: '2026-03-21' },
+      60,
+    )
+    expect(untilEnd.map((o) => o.seriesDate)).toEqual([
+      '2026-03-07',
+      '2026-03-14',
+      '2026-03-21',
+    ])
+
+    const capped = generateSeriesOccurrences(
+      { ...SATURDAYS, weeks: undefined, endDate: '2035-01-01' },
+      60,
+    )
+    expect(capped).toHaveLength(MAX_SERIES_WEEKS)
+  })
+})
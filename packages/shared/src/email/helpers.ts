@@ -17,6 +17,8 @@ import { renderOrderNotificationEmail } from './templates/order-notification'
 import { renderPasswordResetEmail } from './templates/password-reset'
 import {
   renderDeliveredEmail,
+  renderDeliveryDelayedEmail,
+  renderDeliveryFailedEmail,
   renderOutForDeliveryEmail,
   renderShippedEmail,
   type ShippingNotificationData,
@@ -104,7 +106,12 @@ export async function sendShippingNotification(params: {
     carrier?: string
     estimatedDelivery?: string
   }
-  status: 'shipped' | 'out_for_delivery' | 'delivered' | 'delivery_failed'
+  status:
+    | 'shipped'
+    | 'out_for_delivery'
+    | 'delivered'
+    | 'delivery_failed'
+    | 'delayed'
   baseUrl?: string
 }): Promise<{ success: boolean; error?: string }> {
   const sender = createEmailSender()
@@ -157,7 +164,10 @@ export async function sendShippingNotification(params: {
       emailContent = renderDeliveredEmail(data, baseUrl)
       break
     case 'delivery_failed':
-      emailContent = renderDeliveredEmail(data, baseUrl) // Using delivered template for now
+      emailContent = renderDeliveryFailedEmail(data, baseUrl)
+      break
+    case 'delayed':
+      emailContent = renderDeliveryDelayedEmail(data, baseUrl)
       break
     default:
       return { success: false, error: 'Invalid shipping status' }
@@ -6,6 +6,7 @@
  * - Out for Delivery: When package is out for final delivery
  * - Delivered: When package is successfully delivered
  * - Delivery Failed: When delivery attempt failed
+ * - Delivery Delayed: When tracking shows an exception or has stalled
  */
 
 export interface ShippingNotificationData {
@@ -21,6 +22,8 @@ export interface ShippingNotificationData {
     city?: string
     state?: string
   }
+  orderUrl?: string // Customer order page, linked instead of the tracking page
+  latestUpdate?: string // Most recent carrier scan, shown on delay emails
 }
 
 // Common styles for all emails
@@ -41,8 +44,12 @@ const STYLES = {
 /**
  * Generate tracking URL for the email
  */
-function getTrackingPageUrl(baseUrl: string, trackingNumber: string): string {
-  return `${baseUrl}/tracking/${encodeURIComponent(trackingNumber)}`
+function getTrackingPageUrl(
+  baseUrl: string,
+  data: ShippingNotificationData,
+): string {
+  if (data.orderUrl) return data.orderUrl
+  return `${baseUrl}/tracking/${encodeURIComponent(data.trackingNumber)}`
 }
 
 /**
@@ -64,7 +71,7 @@ export function renderShippedEmail(
   data: ShippingNotificationData,
   baseUrl: string = 'https://madebuy.com.au',
 ): { subject: string; html: string; text: string } {
-  const trackingPageUrl = getTrackingPageUrl(baseUrl, data.trackingNumber)
+  const trackingPageUrl = getTrackingPageUrl(baseUrl, data)
 
   const subject = `Your order from ${data.shopName} is on its way!`
 
@@ -192,7 +199,7 @@ export function renderOutForDeliveryEmail(
   data: ShippingNotificationData,
   baseUrl: string = 'https://madebuy.com.au',
 ): { subject: string; html: string; text: string } {
-  const trackingPageUrl = getTrackingPageUrl(baseUrl, data.trackingNumber)
+  const trackingPageUrl = getTrackingPageUrl(baseUrl, data)
 
   const subject = `Your order is out for delivery today!`
 
@@ -379,7 +386,7 @@ export function renderDeliveryFailedEmail(
   data: ShippingNotificationData,
   baseUrl: string = 'https://madebuy.com.au',
 ): { subject: string; html: string; text: string } {
-  const trackingPageUrl = getTrackingPageUrl(baseUrl, data.trackingNumber)
+  const trackingPageUrl = getTrackingPageUrl(baseUrl, data)
 
   const subject = `Delivery issue with your order from ${data.shopName}`
 
@@ -470,3 +477,105 @@ Need help? Contact the seller through MadeBuy.
 
   return { subject, html, text }
 }
+
+/**
+ * Render delivery delayed email
+ */
+export function renderDeliveryDelayedEmail(
+  data: ShippingNotificationData,
+  baseUrl: string = 'https://madebuy.com.au',
+): { subject: string; html: string; text: string } {
+  const trackingPageUrl = getTrackingPageUrl(baseUrl, data)
+
+  const subject = `Your order from ${data.shopName} is running late`
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="${STYLES.container}">
+  <div style="background: linear-gradient(135deg, #d97706 0%, #f59e0b 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="${STYLES.headerTitle}">Your Delivery Is Delayed</h1>
+  </div>
+
+  <div style="${STYLES.body}">
+    <p>Hi ${data.customerName},</p>
+
+    <p>Your package from <strong>${data.shopName}</strong> is taking longer than expected to reach you. It's still on its way and we're keeping an eye on it.</p>
+
+    ${
+      data.latestUpdate
+        ? `
+    <div style="background: #fffbeb; border-radius: 8px; padding: 20px; margin: 24px 0;">
+      <p style="margin: 0; color: #92400e;">
+        <strong>Latest update from ${data.carrier}</strong><br>
+        ${data.latestUpdate}
+      </p>
+    </div>
+    `
+        : ''
+    }
+
+    <div style="${STYLES.infoBox}">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr>
+          <td style="padding: 8px 0; color: #666;">Tracking Number</td>
+          <td style="padding: 8px 0; text-align: right; font-family: monospace; font-weight: bold;">${data.trackingNumber}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; color: #666;">Carrier</td>
+          <td style="padding: 8px 0; text-align: right;">${data.carrier}</td>
+        </tr>
+      </table>
+    </div>
+
+    <div style="text-align: center; margin: 24px 0;">
+      <a href="${trackingPageUrl}" style="${STYLES.button}">View Tracking</a>
+    </div>
+
+    <p style="color: #666; font-size: 14px; text-align: center;">
+      If your package doesn't arrive in the next few days, please contact ${data.shopName}.
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;">
+
+    <p style="color: #666; font-size: 14px;">
+      Order #${data.orderNumber}<br>
+      From ${data.shopName}
+    </p>
+  </div>
+
+  <p style="${STYLES.footer}">
+    Need help? Contact the seller through MadeBuy.
+  </p>
+</body>
+</html>
+  `.trim()
+
+  const text = `
+Your Delivery Is Delayed
+
+Hi ${data.customerName},
+
+Your package from ${data.shopName} is taking longer than expected to reach you. It's still on its way and we're keeping an eye on it.
+${data.latestUpdate ? `\nLatest update from ${data.carrier}: ${data.latestUpdate}\n` : ''}
+TRACKING INFORMATION
+Tracking Number: ${data.trackingNumber}
+Carrier: ${data.carrier}
+
+View tracking: ${trackingPageUrl}
+
+If your package doesn't arrive in the next few days, please contact ${data.shopName}.
+
+---
+Order #${data.orderNumber}
+From ${data.shopName}
+
+Need help? Contact the seller through MadeBuy.
+  `.trim()
+
+  return { subject, html, text }
+}
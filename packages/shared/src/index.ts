@@ -48,12 +48,16 @@ export { useFocusTrap } from './hooks/useFocusTrap'
 export * from './lib/cogs'
 // Export cryptographic utilities
 export * from './lib/crypto'
+// Export currency conversion and formatting utilities
+export * from './lib/currency'
 export type { Logger } from './lib/logger'
 // Export logger utilities
 export { createLogger, getRequestContext, logger } from './lib/logger'
 export type { RateLimitConfig, RateLimitResult } from './lib/rate-limit'
 // Export rate limiting utilities
 export { createRateLimiter } from './lib/rate-limit'
+// Export team role permissions
+export * from './lib/permissions'
 // Export sanitization utilities
 // Pure JS functions (safe for API routes and server components)
 export {
@@ -67,16 +71,33 @@ export {
 // import { sanitizeHtml } from '@madebuy/shared/lib/sanitize'
 // Export subscription utilities
 export * from './lib/subscription'
+// Export material unit conversion
+export * from './lib/units'
 // Export Zod validation schemas
 export * from './schemas'
+// Export barcode label encoding
+export * from './services/barcode'
 // Export digital delivery service
 export * from './services/digital-delivery'
+// Export inventory location stock allocation
+export * from './services/locations'
+// Export pre-order / made-to-order lead times
+export * from './services/preorder'
+// Export purchase order reorder helpers
+export * from './services/purchase-orders'
+// Export review request link signing
+export * from './services/review-request'
+// Export webhook signing and delivery
+export * from './services/webhook-delivery'
+// Export workshop slot recurrence
+export * from './services/workshop-recurrence'
 // Export Stripe utilities (config only - Connect archived)
 export * from './stripe'
 // Export all types
 export * from './types'
 // Explicit re-export of value constants from types (needed for bundler resolution)
 export {
+  DEFAULT_MIN_CAPACITY_CUTOFF_HOURS,
   IMAGE_EXTENSIONS,
   MAX_IMAGE_SIZE,
   MAX_MEDIA_PER_PIECE,
@@ -86,6 +107,8 @@ export {
   VALID_IMAGE_TYPES,
   VALID_VIDEO_TYPES,
   VIDEO_EXTENSIONS,
+  // Workshop constants
+  WORKSHOP_REMINDER_HOURS,
 } from './types'
 // Export template utilities
 export {
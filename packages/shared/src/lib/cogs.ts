@@ -3,10 +3,13 @@
  *
  * Provides functions for calculating product costs, profit margins,
  * and suggested pricing based on material usage.
+ * Usage quantities are converted into the material's stock unit before
+ * pricing (e.g. 250 gram of a material costed per kg).
  */
 
 import type { Material } from '../types/material'
 import type { PieceMaterialUsage } from '../types/piece'
+import { convertQuantity } from './units'
 
 /**
  * Material catalog entry for COGS calculation
@@ -26,6 +29,7 @@ export interface COGSBreakdown {
   materialCosts: MaterialCostItem[] // Individual material costs
   hasMissingMaterials: boolean // True if any materials weren't found
   missingMaterialIds: string[] // IDs of materials that weren't found
+  unitMismatchMaterialIds: string[] // Usage unit can't convert to the material's unit
 }
 
 /**
@@ -34,7 +38,7 @@ export interface COGSBreakdown {
 export interface MaterialCostItem {
   materialId: string
   materialName?: string
-  quantity: number
+  quantity: number // In the material's unit
   unit: string
   costPerUnit: number
   totalCost: number // quantity * costPerUnit
@@ -73,7 +77,12 @@ export function calculateCOGS(
       // Material not found in catalog - skip (logged in breakdown version)
       return total
     }
-    return total + material.costPerUnit * usage.quantity
+    const quantity = convertQuantity(usage.quantity, usage.unit, material.unit)
+    if (quantity === null) {
+      // Incompatible units - skip (logged in breakdown version)
+      return total
+    }
+    return total + material.costPerUnit * quantity
   }, 0)
 }
 
@@ -94,6 +103,7 @@ export function calculateCOGSWithBreakdown(
       materialCosts: [],
       hasMissingMaterials: false,
       missingMaterialIds: [],
+      unitMismatchMaterialIds: [],
     }
   }
 
@@ -102,6 +112,7 @@ export function calculateCOGSWithBreakdown(
 
   const materialCosts: MaterialCostItem[] = []
   const missingMaterialIds: string[] = []
+  const unitMismatchMaterialIds: string[] = []
   let totalCOGS = 0
 
   for (const usage of materialsUsed) {
@@ -111,14 +122,20 @@ export function calculateCOGSWithBreakdown(
       continue
     }
 
-    const cost = material.costPerUnit * usage.quantity
+    const quantity = convertQuantity(usage.quantity, usage.unit, material.unit)
+    if (quantity === null) {
+      unitMismatchMaterialIds.push(usage.materialId)
+      continue
+    }
+
+    const cost = material.costPerUnit * quantity
     totalCOGS += cost
 
     materialCosts.push({
       materialId: usage.materialId,
       materialName: 'name' in material ? material.name : undefined,
-      quantity: usage.quantity,
-      unit: usage.unit,
+      quantity,
+      unit: material.unit,
       costPerUnit: material.costPerUnit,
       totalCost: cost,
     })
@@ -129,6 +146,7 @@ export function calculateCOGSWithBreakdown(
     materialCosts,
     hasMissingMaterials: missingMaterialIds.length > 0,
     missingMaterialIds,
+    unitMismatchMaterialIds,
   }
 }
 
@@ -0,0 +1,188 @@
+/**
+ * Currency Utilities
+ *
+ * Resolves a tenant's settlement currency, converts amounts between
+ * currencies using a locally configured exchange-rate table, and handles
+ * minor-unit conversion for payment providers.
+ *
+ * No live FX lookups happen here - rates come from the tenant's
+ * regionalSettings.exchangeRates table so sellers control what buyers see.
+ */
+
+import type { ExchangeRateTable, RegionalSettings } from '../types/tenant'
+
+export const DEFAULT_CURRENCY = 'AUD'
+
+/**
+ * Currencies the storefront can settle checkout in
+ * (must be supported by both Stripe and PayPal)
+ */
+export const SUPPORTED_CURRENCIES = [
+  'AUD',
+  'NZD',
+  'USD',
+  'GBP',
+  'CAD',
+  'EUR',
+  'SGD',
+  'JPY',
+] as const
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number]
+
+/**
+ * Currencies with no minor unit (Stripe "zero-decimal" currencies)
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'VND', 'CLP'])
+
+/**
+ * Normalize a currency code to uppercase ISO 4217, falling back to AUD
+ */
+export function normalizeCurrency(currency: string | undefined | null): string {
+  const code = currency?.trim().toUpperCase()
+  return code && code.length === 3 ? code : DEFAULT_CURRENCY
+}
+
+export function isSupportedCurrency(
+  currency: string,
+): currency is SupportedCurrency {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(
+    currency.toUpperCase(),
+  )
+}
+
+/**
+ * Get the currency a tenant transacts in.
+ * customCurrency overrides the country preset currency.
+ */
+export function getTenantCurrency(
+  tenant: { regionalSettings?: RegionalSettings } | null | undefined,
+): string {
+  const settings = tenant?.regionalSettings
+  return normalizeCurrency(settings?.customCurrency || settings?.currency)
+}
+
+/**
+ * Get the locale used for formatting a tenant's prices
+ */
+export function getTenantLocale(
+  tenant: { regionalSettings?: RegionalSettings } | null | undefined,
+): string {
+  const settings = tenant?.regionalSettings
+  return settings?.customLocale || settings?.locale || 'en-AU'
+}
+
+/**
+ * Currencies a buyer may choose to view prices in.
+ * Always includes the tenant currency, plus any configured display currency
+ * that has a rate in the exchange-rate table.
+ */
+export function getDisplayCurrencies(
+  tenant: { regionalSettings?: RegionalSettings } | null | undefined,
+): string[] {
+  const base = getTenantCurrency(tenant)
+  const table = tenant?.regionalSettings?.exchangeRates
+  const configured = tenant?.regionalSettings?.displayCurrencies || []
+
+  const currencies = [base]
+  for (const code of configured) {
+    const normalized = normalizeCurrency(code)
+    if (currencies.includes(normalized)) continue
+    if (getExchangeRate(base, normalized, table) === null) continue
+    currencies.push(normalized)
+  }
+  return currencies
+}
+
+/**
+ * Look up the rate to multiply an amount in `from` by to get `to`.
+ * Rates in the table are expressed as units of currency per 1 unit of
+ * table.base. Returns null if either currency has no rate.
+ */
+export function getExchangeRate(
+  from: string,
+  to: string,
+  table: ExchangeRateTable | undefined,
+): number | null {
+  const source = normalizeCurrency(from)
+  const target = normalizeCurrency(to)
+  if (source === target) return 1
+  if (!table) return null
+
+  const base = normalizeCurrency(table.base)
+  const rateFor = (code: string): number | null => {
+    if (code === base) return 1
+    const rate = table.rates[code]
+    return typeof rate === 'number' && rate > 0 ? rate : null
+  }
+
+  const sourceRate = rateFor(source)
+  const targetRate = rateFor(target)
+  if (sourceRate === null || targetRate === null) return null
+
+  return targetRate / sourceRate
+}
+
+/**
+ * Convert an amount (in major units) between currencies.
+ * Returns null when the table has no rate for either currency.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRateTable | undefined,
+): number | null {
+  const rate = getExchangeRate(from, to, table)
+  if (rate === null) return null
+  const decimals = isZeroDecimalCurrency(to) ? 0 : 2
+  const factor = 10 ** decimals
+  return Math.round(amount * rate * factor) / factor
+}
+
+export function isZeroDecimalCurrency(currency: string): boolean {
+  return ZERO_DECIMAL_CURRENCIES.has(normalizeCurrency(currency))
+}
+
+/**
+ * Convert a major-unit amount (e.g. 9.95) into the provider's minor unit
+ * (e.g. 995 cents, or 10 for JPY which has no minor unit)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency)
+    ? Math.round(amount)
+    : Math.round(amount * 100)
+}
+
+/**
+ * Convert a minor-unit amount back to major units
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? amount : amount / 100
+}
+
+/**
+ * Format a major-unit amount as a localized currency string
+ */
+export function formatMoney(
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = 'en-AU',
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: normalizeCurrency(currency),
+  }).format(amount)
+}
+
+/**
+ * Format a PayPal amount value string (2dp, or 0dp for zero-decimal currencies)
+ */
+export function toProviderAmountString(
+  amount: number,
+  currency: string,
+): string {
+  return isZeroDecimalCurrency(currency)
+    ? Math.round(amount).toString()
+    : amount.toFixed(2)
+}
@@ -0,0 +1,167 @@
+/**
+ * Team Role Permissions
+ *
+ * Maps admin pages and API routes to permission areas, and roles to the
+ * areas they can use. Shared by the admin middleware (early rejection) and
+ * session lookup (authoritative check against the stored role).
+ */
+
+import type { PermissionArea, TeamRole } from '../types/team'
+
+export const ROLE_PERMISSIONS: Record<TeamRole, PermissionArea[]> = {
+  owner: [
+    'orders',
+    'catalog',
+    'content',
+    'marketing',
+    'finance',
+    'settings',
+    'billing',
+    'team',
+  ],
+  manager: ['orders', 'catalog', 'content', 'marketing', 'finance', 'settings'],
+  fulfilment: ['orders', 'catalog'],
+  content: ['catalog', 'content', 'marketing'],
+}
+
+/**
+ * Area for the first segment under /api/ or /dashboard/
+ * Nested settings pages are keyed as "settings/<page>"
+ */
+const SEGMENT_AREAS: Record<string, PermissionArea> = {
+  // Orders & customers
+  orders: 'orders',
+  customers: 'orders',
+  enquiries: 'orders',
+  disputes: 'orders',
+  shipping: 'orders',
+  'shipping/carriers': 'settings',
+  'shipping/sendle': 'settings',
+  pos: 'orders',
+  reviews: 'orders',
+  workshops: 'orders',
+  consignments: 'orders',
+  wholesale: 'orders',
+  returns: 'orders',
+
+  // Catalog
+  pieces: 'catalog',
+  inventory: 'catalog',
+  media: 'catalog',
+  materials: 'catalog',
+  suppliers: 'catalog',
+  'purchase-orders': 'catalog',
+  bundles: 'catalog',
+  collections: 'catalog',
+  'production-runs': 'catalog',
+  alerts: 'catalog',
+  production: 'catalog',
+  reconciliations: 'catalog',
+  import: 'catalog',
+
+  // Content
+  blog: 'content',
+  content: 'content',
+  publish: 'content',
+  social: 'content',
+  late: 'content',
+  ai: 'content',
+  'caption-styles': 'content',
+  'website-design': 'content',
+  wizard: 'content',
+  calendar: 'content',
+  celebrations: 'content',
+  'tracked-links': 'content',
+
+  // Marketing
+  discounts: 'marketing',
+  'gift-cards': 'marketing',
+  newsletters: 'marketing',
+  analytics: 'marketing',
+
+  // Finance
+  ledger: 'finance',
+  transactions: 'finance',
+  statements: 'finance',
+  reports: 'finance',
+  invoices: 'finance',
+  expenses: 'finance',
+  accounting: 'finance',
+  'settings/accounting': 'finance',
+  stripe: 'finance',
+  payouts: 'finance',
+
+  // Settings
+  settings: 'settings',
+  tenant: 'settings',
+  connections: 'settings',
+  domain: 'settings',
+  cloudflare: 'settings',
+  marketplace: 'settings',
+  onboarding: 'settings',
+  'api-keys': 'settings',
+  webhooks: 'settings',
+  'settings/import': 'catalog',
+
+  // Billing
+  billing: 'billing',
+  subscription: 'billing',
+  'settings/billing': 'billing',
+
+  // Team
+  team: 'team',
+  'settings/team': 'team',
+}
+
+/**
+ * Segments every signed-in user can use (dashboard home stats, help)
+ * Anything else without an area is owner-only until it is mapped above
+ */
+const OPEN_SEGMENTS = new Set(['dashboard', 'help'])
+
+/**
+ * Resolve the permission area for an admin pathname
+ * Returns null for the dashboard home and for segments without an area
+ */
+export function getAreaForPath(pathname: string): PermissionArea | null {
+  const segments = pathname.split('/').filter(Boolean)
+  if (segments[0] !== 'api' && segments[0] !== 'dashboard') return null
+
+  const [first, second] = segments.slice(1)
+  if (!first) return null
+
+  if (second && SEGMENT_AREAS[`${first}/${second}`]) {
+    return SEGMENT_AREAS[`${first}/${second}`]
+  }
+  return SEGMENT_AREAS[first] ?? null
+}
+
+/**
+ * Check whether a role can use an area
+ */
+export function canRoleAccess(role: TeamRole, area: PermissionArea): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(area) ?? false
+}
+
+/**
+ * Check whether a role can make a request to an admin pathname
+ * Every role can read shop settings (currency, regional settings, etc.)
+ * Unmapped paths are denied to staff so new routes are not open by default
+ */
+export function canRoleAccessPath(
+  role: TeamRole,
+  pathname: string,
+  method = 'GET',
+): boolean {
+  const area = getAreaForPath(pathname)
+  if (!area) {
+    if (role === 'owner') return true
+    const segments = pathname.split('/').filter(Boolean)
+    if (segments[0] !== 'api' && segments[0] !== 'dashboard') return true
+    return !segments[1] || OPEN_SEGMENTS.has(segments[1])
+  }
+  if (area === 'settings' && method === 'GET' && pathname.startsWith('/api/')) {
+    return true
+  }
+  return canRoleAccess(role, area)
+}
@@ -151,6 +151,16 @@ export function getRemainingPieceSlots(
   return Math.max(0, limits.pieces - currentCount)
 }
 
+/**
+ * Check if another team member can be invited
+ * The owner counts toward the limit, so currentCount includes them
+ */
+export function canAddTeamMember(plan: Plan, currentCount: number): boolean {
+  const limits = getPlanLimits(plan)
+  if (limits.teamMembers === -1) return true // Unlimited
+  return currentCount < limits.teamMembers
+}
+
 /**
  * Check if adding more media would exceed plan limit
  */
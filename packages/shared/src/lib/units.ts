@@ -0,0 +1,100 @@
+/**
+ * Material Unit Conversion
+ *
+ * Materials are stocked in one unit (MaterialUnit) but pieces may record usage
+ * in another compatible unit - e.g. a 1 kg bag of clay used 250 g at a time.
+ * Units only convert within the same dimension; 'piece' and 'set' are counts
+ * of different things and never convert to each other.
+ */
+
+type UnitDimension = 'mass' | 'length' | 'volume' | 'piece' | 'set'
+
+interface UnitDefinition {
+  dimension: UnitDimension
+  factor: number // Multiplier to the dimension's base unit (gram, meter, ml)
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Mass (base: gram)
+  mg: { dimension: 'mass', factor: 0.001 },
+  gram: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+
+  // Length (base: meter)
+  mm: { dimension: 'length', factor: 0.001 },
+  cm: { dimension: 'length', factor: 0.01 },
+  meter: { dimension: 'length', factor: 1 },
+  inch: { dimension: 'length', factor: 0.0254 },
+  yard: { dimension: 'length', factor: 0.9144 },
+
+  // Volume (base: ml)
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+
+  // Counts
+  piece: { dimension: 'piece', factor: 1 },
+  set: { dimension: 'set', factor: 1 },
+}
+
+// Common spellings of the units above
+const ALIASES: Record<string, string> = {
+  g: 'gram',
+  grams: 'gram',
+  m: 'meter',
+  metre: 'meter',
+  meters: 'meter',
+  pieces: 'piece',
+}
+
+function getUnit(unit: string | undefined): UnitDefinition | undefined {
+  if (!unit) return undefined
+  const key = unit.trim().toLowerCase()
+  return UNITS[ALIASES[key] ?? key]
+}
+
+/**
+ * Whether a quantity in one unit can be expressed in the other
+ * Unknown units are only compatible with themselves.
+ */
+export function areUnitsCompatible(from: string, to: string): boolean {
+  if (from === to) return true
+  const fromUnit = getUnit(from)
+  const toUnit = getUnit(to)
+  return !!fromUnit && !!toUnit && fromUnit.dimension === toUnit.dimension
+}
+
+/**
+ * Convert a quantity between compatible units
+ * A missing source unit is taken to already be in the target unit (older
+ * piece recipes didn't record one). Returns null when the units can't convert.
+ *
+ * @example
+ * convertQuantity(250, 'gram', 'kg') // 0.25
+ * convertQuantity(1, 'piece', 'gram') // null
+ */
+export function convertQuantity(
+  quantity: number,
+  from: string | undefined,
+  to: string,
+): number | null {
+  if (!from || from === to) return quantity
+  if (!areUnitsCompatible(from, to)) return null
+
+  const fromUnit = getUnit(from) as UnitDefinition
+  const toUnit = getUnit(to) as UnitDefinition
+  // Round off floating point noise (e.g. 0.1 + 0.2) without losing precision
+  return Math.round(((quantity * fromUnit.factor) / toUnit.factor) * 1e9) / 1e9
+}
+
+/**
+ * Units a material stocked in `unit` can be used in, for recipe pickers
+ */
+export function getCompatibleUnits(unit: string): string[] {
+  const definition = getUnit(unit)
+  if (!definition) return [unit]
+  return Object.keys(UNITS).filter(
+    (candidate) => UNITS[candidate].dimension === definition.dimension,
+  )
+}
@@ -68,8 +68,10 @@ export {
   BulkUpdatePiecesSchema,
   CreatePieceSchema,
   DigitalFileSchema,
+  GiftCardPieceConfigSchema,
   MaterialUsageSchema,
   PiecePersonalizationFieldSchema,
+  PiecePreorderConfigSchema,
   PieceStatusSchema,
   ProductVariantSchema,
   ShippingDimensionsSchema,
@@ -87,6 +89,7 @@ export {
 export {
   CreateReviewSchema,
   ReviewFiltersSchema,
+  ReviewRequestSettingsSchema,
   ReviewStatusSchema,
   safeValidateCreateReview,
   safeValidateUpdateReview,
@@ -115,3 +118,13 @@ export {
   validateUpdateTenant,
   WebsiteDesignSchema,
 } from './tenant.schema'
+// Workshop schemas
+export {
+  CreateSlotSeriesSchema,
+  JoinWaitlistSchema,
+  safeValidateCreateSlotSeries,
+  safeValidateJoinWaitlist,
+  safeValidateUpdateSlotSeries,
+  UpdateSlotSeriesSchema,
+  validateJoinWaitlist,
+} from './workshop.schema'
@@ -73,6 +73,34 @@ export const DigitalFileSchema = z.object({
   uploadedAt: z.date(),
 })
 
+// Gift card piece configuration
+export const GiftCardPieceConfigSchema = z.object({
+  isGiftCard: z.boolean(),
+  expiryMonths: z.number().int().min(1).max(120).optional(),
+})
+
+// Pre-order / made-to-order configuration
+export const PiecePreorderConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    mode: z.enum(['preorder', 'made_to_order']),
+    expectedShipDate: z.coerce.date().optional(),
+    leadTimeDays: z.number().int().min(1).max(365).optional(),
+    maxOutstanding: z.number().int().positive().optional(),
+  })
+  .refine(
+    (config) =>
+      !config.enabled ||
+      (config.mode === 'preorder'
+        ? config.expectedShipDate !== undefined
+        : config.leadTimeDays !== undefined),
+    {
+      message:
+        'Pre-orders need an expected ship date and made-to-order pieces need a lead time',
+      path: ['mode'],
+    },
+  )
+
 // Create piece input
 export const CreatePieceSchema = z.object({
   name: z.string().min(1).max(200),
@@ -116,6 +144,12 @@ export const CreatePieceSchema = z.object({
   // Digital files (if isDigital)
   digitalFiles: z.array(DigitalFileSchema).optional(),
 
+  // Gift card (buying the piece issues a code for the price paid)
+  giftCard: GiftCardPieceConfigSchema.optional(),
+
+  // Pre-order / made-to-order (sells without stock)
+  preorder: PiecePreorderConfigSchema.optional(),
+
   // Collections
   collectionIds: z.array(ObjectIdSchema).optional(),
 })
@@ -26,6 +26,12 @@ export const UpdateReviewSchema = z.object({
   moderatorNotes: z.string().max(500).optional(),
 })
 
+// Post-delivery review request emails
+export const ReviewRequestSettingsSchema = z.object({
+  enabled: z.boolean(),
+  delayDays: z.number().int().min(1).max(60),
+})
+
 // Review filters
 export const ReviewFiltersSchema = z.object({
   pieceId: ObjectIdSchema.optional(),
@@ -22,11 +22,29 @@ export const MakerTypeSchema = z.enum([
   'other',
 ])
 
+// Exchange rates used for buyer-facing price display
+export const ExchangeRateTableSchema = z.object({
+  base: z.string().length(3).toUpperCase(),
+  rates: z.record(z.string().length(3), z.number().positive()),
+  updatedAt: z.coerce.date().optional(),
+})
+
 // Regional settings
 export const RegionalSettingsSchema = z.object({
   country: z.string().length(2).toUpperCase().default('AU'),
+  countryCode: z.string().length(2).toUpperCase().optional(),
   currency: z.string().length(3).toUpperCase().default('AUD'),
+  locale: ShortTextSchema.optional(),
   timezone: z.string().default('Australia/Sydney'),
+  measurementSystem: z.enum(['metric', 'imperial']).optional(),
+  customCurrency: z.string().length(3).toUpperCase().optional(),
+  customLocale: ShortTextSchema.optional(),
+  customTimezone: z.string().optional(),
+  displayCurrencies: z
+    .array(z.string().length(3).toUpperCase())
+    .max(10)
+    .optional(),
+  exchangeRates: ExchangeRateTableSchema.optional(),
   taxEnabled: z.boolean().default(false),
   taxRate: z.number().min(0).max(100).optional(),
   taxLabel: ShortTextSchema.optional(),
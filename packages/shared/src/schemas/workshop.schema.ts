@@ -0,0 +1,66 @@
+import { z } from 'zod'
+import { EmailSchema, ShortTextSchema } from './common.schema'
+
+/**
+ * Workshop validation schemas
+ */
+
+// Join the waitlist for a full slot (public storefront)
+export const JoinWaitlistSchema = z.object({
+  slotId: ShortTextSchema.min(1),
+  customerName: z.string().min(1).max(100),
+  customerEmail: EmailSchema,
+  numberOfAttendees: z.number().int().min(1).max(50),
+})
+
+const LocalDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+
+const LocalTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm')
+
+const SlotSeriesFieldsSchema = z.object({
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  intervalWeeks: z.number().int().min(1).max(4).default(1),
+  startTime: LocalTimeSchema,
+  startDate: LocalDateSchema,
+  weeks: z.number().int().min(1).max(104).optional(),
+  endDate: LocalDateSchema.optional(),
+  skipPublicHolidays: z.boolean().default(true),
+  capacity: z.number().int().min(1).optional(),
+  priceOverride: z.number().int().min(0).optional(),
+})
+
+// Create a recurring slot series
+export const CreateSlotSeriesSchema = SlotSeriesFieldsSchema.refine(
+  (data) => data.weeks !== undefined || data.endDate !== undefined,
+  { message: 'Either weeks or endDate is required', path: ['weeks'] },
+).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: 'End date must be on or after the start date',
+  path: ['endDate'],
+})
+
+// Edit a series - omitted fields keep their current value
+export const UpdateSlotSeriesSchema = SlotSeriesFieldsSchema.partial()
+
+// Inferred types
+export type JoinWaitlistInput = z.infer<typeof JoinWaitlistSchema>
+
+// Validation helpers
+export function validateJoinWaitlist(data: unknown): JoinWaitlistInput {
+  return JoinWaitlistSchema.parse(data)
+}
+
+export function safeValidateJoinWaitlist(data: unknown) {
+  return JoinWaitlistSchema.safeParse(data)
+}
+
+export function safeValidateCreateSlotSeries(data: unknown) {
+  return CreateSlotSeriesSchema.safeParse(data)
+}
+
+export function safeValidateUpdateSlotSeries(data: unknown) {
+  return UpdateSlotSeriesSchema.safeParse(data)
+}
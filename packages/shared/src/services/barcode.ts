@@ -0,0 +1,172 @@
+/**
+ * Barcode Encoding Service
+ *
+ * Encodes label codes as bar/space modules for the label PDF. Valid EAN-13
+ * numbers print as EAN-13 so retail scanners read them; everything else
+ * (SKUs, internal codes) prints as Code 128, which any keyboard-wedge
+ * scanner types back exactly as encoded.
+ */
+
+import type { BarcodeFormat } from '../types/barcode'
+
+// Code 128 symbol widths (bar, space, bar, space, bar, space), values 0-106
+const CODE128_PATTERNS = (
+  '212222 222122 222221 121223 121322 131222 122213 122312 132212 ' +
+  '221213 221312 231212 112232 122132 122231 113222 123122 123221 ' +
+  '223211 221132 221231 213212 223112 312131 311222 321122 321221 ' +
+  '312212 322112 322211 212123 212321 232121 111323 131123 131321 ' +
+  '112313 132113 132311 211313 231113 231311 112133 112331 132131 ' +
+  '113123 113321 133121 313121 211331 231131 213113 213311 213131 ' +
+  '311123 311321 331121 312113 312311 332111 314111 221411 431111 ' +
+  '111224 111422 121124 121421 141122 141221 112214 112412 122114 ' +
+  '122411 142112 142211 241211 221114 413111 241112 134111 111242 ' +
+  '121142 121241 114212 124112 124211 411212 421112 421211 212141 ' +
+  '214121 412121 111143 111341 131141 114113 114311 411113 411311 ' +
+  '113141 114131 311141 411131 211412 211214 211232 2331112'
+).split(' ')
+
+const CODE128_START_B = 104
+const CODE128_START_C = 105
+const CODE128_STOP = 106
+
+// EAN-13 digit encodings - L (odd parity), G (even parity) and R (right half)
+const EAN_L = (
+  '0001101 0011001 0010011 0111101 0100011 0110001 0101111 ' +
+  '0111011 0110111 0001011'
+).split(' ')
+const EAN_G = (
+  '0100111 0110011 0011011 0100001 0011101 0111001 0000101 ' +
+  '0010001 0001001 0010111'
+).split(' ')
+const EAN_R = (
+  '1110010 1100110 1101100 1000010 1011100 1001110 1010000 ' +
+  '1000100 1001000 1110100'
+).split(' ')
+
+// Left-half parity for each leading digit (the leading digit isn't drawn)
+const EAN_PARITY =
+  'LLLLLL LLGLGG LLGGLG LLGGGL LGLLGG LGGLLG LGGGLL LGLGLG LGLGGL LGGLGL'.split(
+    ' ',
+  )
+
+/**
+ * EAN-13 check digit for the first 12 digits
+ */
+export function calculateEan13CheckDigit(digits: string): number {
+  let sum = 0
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3)
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Whether a code is a 13-digit EAN with a correct check digit
+ */
+export function isValidEan13(code: string): boolean {
+  return (
+    /^\d{13}$/.test(code) && calculateEan13CheckDigit(code) === Number(code[12])
+  )
+}
+
+/**
+ * Build an in-store EAN-13 from 11 digits
+ * The 2 prefix is reserved for restricted (in-store) use, so these never
+ * clash with manufacturer barcodes.
+ */
+export function createInternalEan13(digits: string): string {
+  if (!/^\d{11}$/.test(digits)) {
+    throw new Error('Internal barcodes need exactly 11 digits')
+  }
+  const body = `2${digits}`
+  return `${body}${calculateEan13CheckDigit(body)}`
+}
+
+/**
+ * Format a code prints in - EAN-13 when it is one, otherwise Code 128
+ */
+export function getBarcodeFormat(code: string): BarcodeFormat {
+  return isValidEan13(code) ? 'ean13' : 'code128'
+}
+
+function widthsToModules(widths: string): boolean[] {
+  const modules: boolean[] = []
+  for (let i = 0; i < widths.length; i++) {
+    const isBar = i % 2 === 0
+    for (let w = 0; w < Number(widths[i]); w++) modules.push(isBar)
+  }
+  return modules
+}
+
+/**
+ * Code 128 symbol values for a code, including start, checksum and stop
+ * Even-length digit strings use code set C (two digits per symbol);
+ * everything else uses code set B (printable ASCII).
+ */
+function getCode128Values(code: string): number[] {
+  const values: number[] = []
+
+  if (code.length >= 4 && code.length % 2 === 0 && /^\d+$/.test(code)) {
+    values.push(CODE128_START_C)
+    for (let i = 0; i < code.length; i += 2) {
+      values.push(Number(code.slice(i, i + 2)))
+    }
+  } else {
+    values.push(CODE128_START_B)
+    for (const char of code) {
+      const charCode = char.charCodeAt(0)
+      if (charCode < 32 || charCode > 126) {
+        throw new Error(`Can't encode "${char}" in a Code 128 barcode`)
+      }
+      values.push(charCode - 32)
+    }
+  }
+
+  const checksum =
+    values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103
+  values.push(checksum, CODE128_STOP)
+  return values
+}
+
+function encodeCode128(code: string): boolean[] {
+  return getCode128Values(code).flatMap((value) =>
+    widthsToModules(CODE128_PATTERNS[value]),
+  )
+}
+
+function encodeEan13(code: string): boolean[] {
+  const digits = code.split('').map(Number)
+  const parity = EAN_PARITY[digits[0]]
+
+  let bits = '101'
+  for (let i = 1; i <= 6; i++) {
+    const table = parity[i - 1] === 'L' ? EAN_L : EAN_G
+    bits += table[digits[i]]
+  }
+  bits += '01010'
+  for (let i = 7; i <= 12; i++) {
+    bits += EAN_R[digits[i]]
+  }
+  bits += '101'
+
+  return bits.split('').map((bit) => bit === '1')
+}
+
+/**
+ * Encode a code as modules (true = bar), left to right, without quiet zones
+ *
+ * @example
+ * encodeBarcode('4006381333931', 'ean13').length // 95
+ */
+export function encodeBarcode(code: string, format: BarcodeFormat): boolean[] {
+  if (!code) {
+    throw new Error('Barcode value is empty')
+  }
+  if (format === 'ean13') {
+    if (!isValidEan13(code)) {
+      throw new Error(`${code} is not a valid EAN-13 barcode`)
+    }
+    return encodeEan13(code)
+  }
+  return encodeCode128(code)
+}
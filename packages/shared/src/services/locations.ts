@@ -0,0 +1,97 @@
+/**
+ * Inventory Location Service
+ *
+ * An item's stock field is its total on hand. Other locations record their
+ * own quantities; the default location holds the rest. When the total drops
+ * below what other locations record (a sale or stock edit that didn't say
+ * where it came from), the shortfall is taken from online-fulfilling
+ * locations first, as online sales are the likely cause.
+ */
+
+import type { InventoryLocation, LocationStockLevel } from '../types/location'
+
+export interface LocationStockAllocation {
+  levels: LocationStockLevel[] // Default location first
+  corrections: Array<{ locationId: string; quantity: number }> // Recorded quantities to lower
+}
+
+/**
+ * Split an item's total across locations
+ *
+ * @example
+ * allocateLocationStock(5, [home, shop], { shop: 2 }).levels
+ * // home (default): 3, shop: 2
+ */
+export function allocateLocationStock(
+  total: number,
+  locations: InventoryLocation[],
+  recorded: Record<string, number>,
+): LocationStockAllocation {
+  const defaultLocation = locations.find((l) => l.isDefault)
+  const others = locations.filter((l) => !l.isDefault)
+
+  const quantities = new Map(
+    others.map((l) => [l.id, Math.max(recorded[l.id] ?? 0, 0)]),
+  )
+  const recordedTotal = [...quantities.values()].reduce((a, b) => a + b, 0)
+  let defaultQuantity = total - recordedTotal
+
+  const corrections: LocationStockAllocation['corrections'] = []
+  if (defaultQuantity < 0) {
+    let deficit = -defaultQuantity
+    const byPriority = [
+      ...others.filter((l) => l.fulfillsOnline),
+      ...others.filter((l) => !l.fulfillsOnline),
+    ]
+    for (const location of byPriority) {
+      if (deficit === 0) break
+      const quantity = quantities.get(location.id) ?? 0
+      const taken = Math.min(quantity, deficit)
+      if (taken === 0) continue
+      quantities.set(location.id, quantity - taken)
+      corrections.push({ locationId: location.id, quantity: quantity - taken })
+      deficit -= taken
+    }
+    defaultQuantity = 0
+  }
+
+  const toLevel = (
+    location: InventoryLocation,
+    quantity: number,
+  ): LocationStockLevel => ({
+    locationId: location.id,
+    locationName: location.name,
+    fulfillsOnline: location.fulfillsOnline,
+    isDefault: location.isDefault,
+    quantity,
+  })
+
+  return {
+    levels: [
+      ...(defaultLocation ? [toLevel(defaultLocation, defaultQuantity)] : []),
+      ...others.map((l) => toLevel(l, quantities.get(l.id) ?? 0)),
+    ],
+    corrections,
+  }
+}
+
+/**
+ * Stock at locations that don't fulfil online orders
+ */
+export function getHeldStock(levels: LocationStockLevel[]): number {
+  return levels
+    .filter((level) => !level.fulfillsOnline)
+    .reduce((sum, level) => sum + level.quantity, 0)
+}
+
+/**
+ * Quantity the storefront can sell - the total less stock held at offline
+ * locations. Undefined stock means unlimited and stays undefined.
+ */
+export function getOnlineAvailableStock(item: {
+  stock?: number | null
+  heldStock?: number
+}): number | undefined {
+  if (item.stock === null || item.stock === undefined) return undefined
+  return Math.max(item.stock - (item.heldStock ?? 0), 0)
+}
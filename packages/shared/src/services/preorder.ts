@@ -0,0 +1,86 @@
+/**
+ * Pre-order / Made-to-order Service
+ *
+ * Pieces in pre-order or made-to-order mode sell without stock. Each order
+ * item gets a productionDue date - the batch ship date for pre-orders, or the
+ * order date plus the lead time for made-to-order pieces - and the order
+ * carries the latest of those so the production queue knows when it must ship.
+ */
+
+import type { PiecePreorderConfig } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether a piece is currently selling as a pre-order / made-to-order
+ */
+export function isPreorderEnabled(
+  config: PiecePreorderConfig | undefined,
+): config is PiecePreorderConfig {
+  return config?.enabled === true
+}
+
+/**
+ * When an item ordered now must be ready to ship
+ * A pre-order whose ship date has already passed is due immediately.
+ */
+export function getProductionDueDate(
+  config: PiecePreorderConfig | undefined,
+  orderedAt: Date = new Date(),
+): Date | undefined {
+  if (!isPreorderEnabled(config)) return undefined
+
+  if (config.mode === 'preorder') {
+    if (!config.expectedShipDate) return undefined
+    const shipDate = new Date(config.expectedShipDate)
+    return shipDate > orderedAt ? shipDate : orderedAt
+  }
+
+  if (!config.leadTimeDays) return undefined
+  return new Date(orderedAt.getTime() + config.leadTimeDays * DAY_MS)
+}
+
+/**
+ * Latest production due date across order items (undefined if none are
+ * pre-orders)
+ */
+export function getOrderProductionDue(
+  items: Array<{ productionDue?: Date }>,
+): Date | undefined {
+  let latest: Date | undefined
+  for (const item of items) {
+    if (item.productionDue && (!latest || item.productionDue > latest)) {
+      latest = new Date(item.productionDue)
+    }
+  }
+  return latest
+}
+
+function formatDays(days: number): string {
+  if (days >= 14 && days % 7 === 0) return `${days / 7} weeks`
+  return `${days} day${days === 1 ? '' : 's'}`
+}
+
+/**
+ * Customer-facing lead time, e.g. "Made to order - ships in 3 weeks"
+ * Config may come from JSON (cart storage), so dates are re-parsed.
+ */
+export function formatLeadTime(
+  config: PiecePreorderConfig | undefined,
+  locale: string = 'en-AU',
+): string | undefined {
+  if (!isPreorderEnabled(config)) return undefined
+
+  if (config.mode === 'preorder') {
+    if (!config.expectedShipDate) return 'Pre-order'
+    // Ship dates are saved as calendar dates (UTC midnight)
+    const shipDate = new Date(config.expectedShipDate).toLocaleDateString(
+      locale,
+      { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' },
+    )
+    return `Pre-order - expected to ship ${shipDate}`
+  }
+
+  if (!config.leadTimeDays) return 'Made to order'
+  return `Made to order - ships in ${formatDays(config.leadTimeDays)}`
+}
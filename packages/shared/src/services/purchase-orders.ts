@@ -0,0 +1,46 @@
+/**
+ * Purchase Order Service
+ *
+ * Draft purchase orders are generated from materials at or below their
+ * reorder point. Each material is topped back up to twice its reorder point,
+ * so the next reorder isn't triggered by the first production run.
+ */
+
+import type { Material, PurchaseOrderItem } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How much of a material to order to bring it back above its reorder point
+ */
+export function suggestReorderQuantity(
+  material: Pick<Material, 'quantityInStock' | 'reorderPoint'>,
+): number {
+  const target = Math.max(material.reorderPoint * 2, 1)
+  return Math.max(Math.ceil(target - material.quantityInStock), 1)
+}
+
+/**
+ * Purchase order subtotal, rounded to the cent
+ * Material costs are kept in dollars, so this is too.
+ */
+export function getPurchaseOrderSubtotal(
+  items: Array<Pick<PurchaseOrderItem, 'quantity' | 'costPerUnit'>>,
+): number {
+  const cents = items.reduce(
+    (sum, item) => sum + Math.round(item.quantity * item.costPerUnit * 100),
+    0,
+  )
+  return cents / 100
+}
+
+/**
+ * When a purchase order should arrive, from the supplier's lead time
+ */
+export function getExpectedDeliveryDate(
+  sentAt: Date,
+  leadTimeDays: number | undefined,
+): Date | undefined {
+  if (!leadTimeDays) return undefined
+  return new Date(sentAt.getTime() + leadTimeDays * DAY_MS)
+}
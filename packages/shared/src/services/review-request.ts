@@ -0,0 +1,94 @@
+/**
+ * Review Request Links
+ *
+ * Post-delivery emails carry a signed link so the buyer lands on a review
+ * form with their purchase already verified - no email lookup needed.
+ *
+ * Token format: <base64url JSON payload>.<hex HMAC-SHA256 of the payload>
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+export const DEFAULT_REVIEW_REQUEST_DELAY_DAYS = 7
+
+// Links keep working long enough for slow reviewers, then expire
+export const REVIEW_REQUEST_LINK_TTL_DAYS = 90
+
+export interface ReviewRequestTokenPayload {
+  tenantId: string
+  orderId: string
+  email: string
+  exp: number // Unix seconds
+}
+
+function sign(secret: string, encodedPayload: string): string {
+  return createHmac('sha256', secret).update(encodedPayload).digest('hex')
+}
+
+/**
+ * Create a signed review link token for an order
+ */
+export function createReviewRequestToken(
+  secret: string,
+  data: { tenantId: string; orderId: string; email: string },
+  now: number = Date.now(),
+): string {
+  const payload: ReviewRequestTokenPayload = {
+    tenantId: data.tenantId,
+    orderId: data.orderId,
+    email: data.email.toLowerCase(),
+    exp: Math.floor(now / 1000) + REVIEW_REQUEST_LINK_TTL_DAYS * 24 * 60 * 60,
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(secret, encoded)}`
+}
+
+/**
+ * Verify a review link token
+ * Returns null when the signature doesn't match or the link has expired.
+ */
+export function verifyReviewRequestToken(
+  secret: string,
+  token: string,
+  now: number = Date.now(),
+): ReviewRequestTokenPayload | null {
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(secret, encoded))
+  const received = Buffer.from(signature)
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8'),
+    ) as ReviewRequestTokenPayload
+    if (
+      !payload.tenantId ||
+      !payload.orderId ||
+      !payload.email ||
+      typeof payload.exp !== 'number' ||
+      payload.exp * 1000 < now
+    ) {
+      return null
+    }
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Storefront page where the buyer reviews each item in the order
+ * @param storeUrl - The tenant's storefront root (custom domain or /slug)
+ */
+export function getReviewRequestUrl(storeUrl: string, token: string): string {
+  return `${storeUrl}/review/${token}`
+}
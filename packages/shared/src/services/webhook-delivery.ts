@@ -0,0 +1,424 @@
+/**
+ * Webhook Delivery Service
+ *
+ * Signs and POSTs event payloads to tenant webhook endpoints, retrying
+ * network errors, 429s and 5xx responses with exponential backoff.
+ * createWebhookDispatcher logs each delivery through the store it's given,
+ * so both apps share one implementation wired to the db repository.
+ *
+ * Signature header (verify with verifyWebhookSignature):
+ *   X-MadeBuy-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+import { Agent } from 'undici'
+import { createLogger } from '../lib/logger'
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload,
+} from '../types'
+import { withRetry } from '../utils/retry'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-MadeBuy-Signature'
+
+// Replay protection window for receivers
+const DEFAULT_TOLERANCE_SECONDS = 300
+const REQUEST_TIMEOUT_MS = 10_000
+
+// Loopback, private, link-local, shared, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:7f00:1) are checked against the IPv4 rules.
+const NON_PUBLIC_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export interface WebhookDeliveryResult {
+  success: boolean
+  attempts: number
+  responseStatus?: number
+  error?: string
+  durationMs: number
+}
+
+/**
+ * Where deliveries are logged - the db webhooks repository
+ */
+export interface WebhookDeliveryStore {
+  listEndpointsForEvent(
+    tenantId: string,
+    type: WebhookEventType,
+  ): Promise<WebhookEndpoint[]>
+  getEndpoint(tenantId: string, id: string): Promise<WebhookEndpoint | null>
+  createDelivery(
+    endpoint: WebhookEndpoint,
+    payload: WebhookPayload,
+    replayOf?: string,
+  ): Promise<WebhookDelivery>
+  completeDelivery(
+    tenantId: string,
+    id: string,
+    result: WebhookDeliveryResult,
+  ): Promise<unknown>
+  getDelivery(tenantId: string, id: string): Promise<WebhookDelivery | null>
+}
+
+export interface DeliverWebhookOptions {
+  deliveryId: string
+  maxRetries?: number
+  baseDelayMs?: number
+}
+
+/**
+ * Thrown for non-2xx responses so withRetry can decide whether to retry
+ */
+class WebhookResponseError extends Error {
+  constructor(public status: number) {
+    super(
+      status >= 300 && status < 400
+        ? `Endpoint redirected (HTTP ${status}) - redirects are not followed`
+        : `Endpoint responded with HTTP ${status}`,
+    )
+    this.name = 'WebhookResponseError'
+  }
+}
+
+/**
+ * Thrown when an endpoint's host resolves to a non-public address
+ */
+class WebhookAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} does not resolve to a public address`)
+    this.name = 'WebhookAddressError'
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof WebhookResponseError) {
+    return error.status === 429 || error.status >= 500
+  }
+  if (error instanceof WebhookAddressError) {
+    return false
+  }
+  // Network errors and timeouts
+  return true
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return false
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Resolve a host and refuse it unless every address is public
+ */
+async function resolvePublicAddresses(
+  hostname: string,
+): Promise<Array<{ address: string; family: number }>> {
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true, verbatim: true })
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicAddress(address))
+  ) {
+    throw new WebhookAddressError(hostname)
+  }
+  return addresses
+}
+
+/**
+ * Resolve the endpoint host and refuse it unless every address is public,
+ * so a hostname can't point deliveries at internal services
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  await resolvePublicAddresses(new URL(url).hostname.replace(/^\[|\]$/g, ''))
+}
+
+/**
+ * DNS lookup for the delivery connection. fetch resolves the host again
+ * after assertPublicHost, so the check is repeated on the addresses it
+ * actually connects to - otherwise a host could rebind to a private address.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses)
+      } else {
+        callback(null, addresses[0].address, addresses[0].family)
+      }
+    },
+    (error) => callback(error, []),
+  )
+}
+
+const publicOnlyDispatcher = new Agent({
+  connect: { lookup: lookupPublicAddress },
+})
+
+/**
+ * Build the event body sent to every endpoint subscribed to the event
+ */
+export function createWebhookPayload(
+  tenantId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): WebhookPayload {
+  return {
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    type,
+    createdAt: new Date().toISOString(),
+    tenantId,
+    data,
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of "<timestamp>.<body>"
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')
+}
+
+export function buildWebhookSignatureHeader(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`
+}
+
+/**
+ * Verify a signature header against the raw request body
+ * Rejects signatures older than the tolerance to prevent replay attacks
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+): boolean {
+  if (!header) return false
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.split('=', 2) as [string, string]),
+  )
+  const timestamp = Number(parts.t)
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const received = Buffer.from(parts.v1)
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  )
+}
+
+/**
+ * POST a payload to an endpoint, retrying with backoff
+ * The host must resolve to public addresses (checked before the request and
+ * again at connect time) and redirects aren't followed.
+ * Never throws - failures are returned in the result
+ */
+export async function deliverWebhook(
+  endpoint: { url: string; secret: string },
+  payload: WebhookPayload,
+  options: DeliverWebhookOptions,
+): Promise<WebhookDeliveryResult> {
+  const body = JSON.stringify(payload)
+  const startedAt = Date.now()
+  let attempts = 0
+
+  try {
+    const response = await withRetry(
+      async () => {
+        attempts++
+        // Checked on every attempt - DNS can change between retries - and
+        // again by the dispatcher on the addresses fetch connects to
+        await assertPublicHost(endpoint.url)
+        const res = await fetch(endpoint.url, {
+          // @ts-expect-error - dispatcher is an undici extension to RequestInit
+          dispatcher: publicOnlyDispatcher,
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'MadeBuy-Webhooks/1.0',
+            'X-MadeBuy-Event': payload.type,
+            'X-MadeBuy-Delivery': options.deliveryId,
+            // Signed per attempt so retries aren't rejected as stale
+            [WEBHOOK_SIGNATURE_HEADER]: buildWebhookSignatureHeader(
+              endpoint.secret,
+              body,
+            ),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        }).catch((error) => {
+          // fetch wraps connection errors - surface a refused address as-is
+          throw error?.cause instanceof WebhookAddressError
+            ? error.cause
+            : error
+        })
+        // Response bodies aren't kept - only the status is recorded
+        await res.body?.cancel()
+        if (!res.ok) {
+          throw new WebhookResponseError(res.status)
+        }
+        return { status: res.status }
+      },
+      {
+        maxRetries: options.maxRetries ?? 3,
+        baseDelayMs: options.baseDelayMs ?? 1000,
+        maxDelayMs: 8000,
+        shouldRetry: isRetryable,
+      },
+    )
+
+    return {
+      success: true,
+      attempts,
+      responseStatus: response.status,
+      durationMs: Date.now() - startedAt,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      attempts,
+      responseStatus:
+        error instanceof WebhookResponseError ? error.status : undefined,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    }
+  }
+}
+
+/**
+ * Event dispatch and replay, logging every delivery through the store
+ */
+export function createWebhookDispatcher(store: WebhookDeliveryStore) {
+  const log = createLogger({ module: 'outbound-webhooks' })
+
+  async function sendToEndpoint(
+    endpoint: WebhookEndpoint,
+    payload: WebhookPayload,
+    replayOf?: string,
+  ): Promise<WebhookDelivery> {
+    const delivery = await store.createDelivery(endpoint, payload, replayOf)
+    const result = await deliverWebhook(endpoint, payload, {
+      deliveryId: delivery.id,
+    })
+    await store.completeDelivery(endpoint.tenantId, delivery.id, result)
+
+    if (!result.success) {
+      log.warn(
+        {
+          tenantId: endpoint.tenantId,
+          endpointId: endpoint.id,
+          deliveryId: delivery.id,
+          error: result.error,
+        },
+        'Webhook delivery failed',
+      )
+    }
+
+    return {
+      ...delivery,
+      status: result.success ? 'succeeded' : 'failed',
+      attempts: result.attempts,
+      responseStatus: result.responseStatus,
+      error: result.error,
+      durationMs: result.durationMs,
+      completedAt: new Date(),
+    }
+  }
+
+  async function sendEvent(
+    tenantId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    const endpoints = await store.listEndpointsForEvent(tenantId, type)
+    if (endpoints.length === 0) return
+
+    const payload = createWebhookPayload(tenantId, type, data)
+    await Promise.all(
+      endpoints.map((endpoint) => sendToEndpoint(endpoint, payload)),
+    )
+  }
+
+  /**
+   * Send an event to every active endpoint the tenant has subscribed to it
+   *
+   * Returns straight away - deliveries and their retries run in the
+   * background so the request that raised the event isn't held up by slow
+   * endpoints. Deliveries are logged and can be replayed.
+   */
+  function dispatchWebhookEvent(
+    tenantId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+  ): void {
+    sendEvent(tenantId, type, data).catch((error) => {
+      log.error({ err: error, tenantId, type }, 'Failed to dispatch webhook')
+    })
+  }
+
+  /**
+   * Re-send a logged delivery's payload to its endpoint (current URL and
+   * secret). The event ID is unchanged so receivers can de-duplicate.
+   * Returns null if the delivery or its endpoint no longer exists.
+   */
+  async function replayWebhookDelivery(
+    tenantId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery | null> {
+    const original = await store.getDelivery(tenantId, deliveryId)
+    if (!original) return null
+
+    const endpoint = await store.getEndpoint(tenantId, original.endpointId)
+    if (!endpoint) return null
+
+    return sendToEndpoint(endpoint, original.payload, original.id)
+  }
+
+  return { dispatchWebhookEvent, replayWebhookDelivery }
+}
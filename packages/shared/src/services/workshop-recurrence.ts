@@ -0,0 +1,224 @@
+/**
+ * Workshop Slot Recurrence
+ *
+ * Expands a slot series ("every Saturday 10am for 12 weeks, skip public
+ * holidays") into concrete slot times. Rules are written in the maker's local
+ * time, so each occurrence is converted to UTC in the series timezone - a
+ * 10am class stays at 10am either side of a daylight saving change.
+ *
+ * Dates are handled as local "YYYY-MM-DD" strings throughout; a slot's
+ * seriesDate is what ties it back to its rule when the series is edited.
+ */
+
+import type { WorkshopSlotSeries } from '../types/workshop'
+
+// Two years of weekly classes - keeps a mistyped end date from creating
+// thousands of slots
+export const MAX_SERIES_WEEKS = 104
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SeriesOccurrence {
+  seriesDate: string // Local date, "YYYY-MM-DD"
+  startTime: Date
+  endTime: Date
+}
+
+export type SeriesRule = Pick<
+  WorkshopSlotSeries,
+  | 'daysOfWeek'
+  | 'intervalWeeks'
+  | 'startTime'
+  | 'startDate'
+  | 'weeks'
+  | 'endDate'
+  | 'timezone'
+  | 'countryCode'
+  | 'skipPublicHolidays'
+  | 'excludedDates'
+>
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  )
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * Convert a local date and "HH:mm" time in a timezone to a UTC Date
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClock = parseDate(date) + (hours * 60 + minutes) * 60 * 1000
+
+  // The offset at the wall-clock instant is usually right; re-check once for
+  // times near a daylight saving transition
+  const offset = getTimeZoneOffsetMs(wallClock, timeZone)
+  const adjusted = getTimeZoneOffsetMs(wallClock - offset, timeZone)
+  return new Date(wallClock - adjusted)
+}
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): number {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return Date.UTC(year, month - 1, day)
+}
+
+/**
+ * Weekend holidays are observed on the following Monday
+ */
+function withMondaySubstitute(ms: number): number[] {
+  const weekday = new Date(ms).getUTCDay()
+  if (weekday === 6) return [ms, ms + 2 * DAY_MS]
+  if (weekday === 0) return [ms, ms + DAY_MS]
+  return [ms]
+}
+
+/**
+ * National public holidays for a year as local "YYYY-MM-DD" dates
+ * Only Australia is supported - state-only days (Labour Day, King's Birthday,
+ * show days) vary too much to skip automatically, and other countries return
+ * an empty list.
+ */
+export function getPublicHolidays(year: number, countryCode: string): string[] {
+  if (countryCode !== 'AU') return []
+
+  const easter = getEasterSunday(year)
+  const christmas = Date.UTC(year, 11, 25)
+  const christmasWeekday = new Date(christmas).getUTCDay()
+
+  const days = [
+    ...withMondaySubstitute(Date.UTC(year, 0, 1)), // New Year's Day
+    ...withMondaySubstitute(Date.UTC(year, 0, 26)), // Australia Day
+    easter - 2 * DAY_MS, // Good Friday
+    easter + DAY_MS, // Easter Monday
+    Date.UTC(year, 3, 25), // Anzac Day
+    christmas,
+    christmas + DAY_MS, // Boxing Day
+  ]
+
+  // Christmas / Boxing Day substitutes
+  if (christmasWeekday === 6) {
+    days.push(christmas + 2 * DAY_MS, christmas + 3 * DAY_MS)
+  } else if (christmasWeekday === 0) {
+    days.push(christmas + 2 * DAY_MS)
+  } else if (christmasWeekday === 5) {
+    days.push(christmas + 3 * DAY_MS)
+  }
+
+  return [...new Set(days.map(formatDate))].sort()
+}
+
+/**
+ * Last local date covered by a rule (inclusive)
+ */
+function getSeriesEnd(rule: SeriesRule): number {
+  const start = parseDate(rule.startDate)
+  const maxEnd = start + (MAX_SERIES_WEEKS * 7 - 1) * DAY_MS
+
+  if (rule.endDate) {
+    return Math.min(parseDate(rule.endDate), maxEnd)
+  }
+  const weeks = Math.min(rule.weeks || 1, MAX_SERIES_WEEKS)
+  return start + (weeks * 7 - 1) * DAY_MS
+}
+
+/**
+ * Expand a series rule into slot times
+ * Public holidays (when skipped) and excluded dates produce no slot.
+ */
+export function generateSeriesOccurrences(
+  rule: SeriesRule,
+  durationMinutes: number,
+): SeriesOccurrence[] {
+  const start = parseDate(rule.startDate)
+  const end = getSeriesEnd(rule)
+  const interval = Math.max(rule.intervalWeeks || 1, 1)
+  const days = new Set(rule.daysOfWeek)
+  const excluded = new Set(rule.excludedDates || [])
+
+  const holidays = new Set<string>()
+  if (rule.skipPublicHolidays) {
+    const firstYear = new Date(start).getUTCFullYear()
+    const lastYear = new Date(end).getUTCFullYear()
+    for (let year = firstYear; year <= lastYear; year++) {
+      for (const holiday of getPublicHolidays(year, rule.countryCode)) {
+        holidays.add(holiday)
+      }
+    }
+  }
+
+  // Weeks are counted from the Sunday on or before the start date so
+  // fortnightly rules with several days stay in step
+  const weekAnchor = start - new Date(start).getUTCDay() * DAY_MS
+
+  const occurrences: SeriesOccurrence[] = []
+  for (let day = start; day <= end; day += DAY_MS) {
+    const weekIndex = Math.floor((day - weekAnchor) / (7 * DAY_MS))
+    if (weekIndex % interval !== 0) continue
+    if (!days.has(new Date(day).getUTCDay())) continue
+
+    const seriesDate = formatDate(day)
+    if (excluded.has(seriesDate) || holidays.has(seriesDate)) continue
+
+    const startTime = zonedTimeToUtc(seriesDate, rule.startTime, rule.timezone)
+    occurrences.push({
+      seriesDate,
+      startTime,
+      endTime: new Date(startTime.getTime() + durationMinutes * 60 * 1000),
+    })
+  }
+
+  return occurrences
+}
@@ -0,0 +1,70 @@
+/**
+ * Accounting export - Double-entry journals for Xero and MYOB
+ * Each ledger transaction becomes a balanced journal posted against the
+ * tenant's chart of accounts. Sales land in a payout clearing account so
+ * each Stripe payout clears it against the bank deposit.
+ */
+
+export type AccountingExportFormat = 'xero' | 'myob'
+
+/**
+ * Account codes in the tenant's accounting software
+ */
+export interface ChartOfAccounts {
+  sales: string // Income from sales, excluding GST
+  refunds: string // Refunds to customers, excluding GST
+  gst: string // GST liability
+  paymentFees: string // Stripe and platform fees
+  payoutClearing: string // Stripe balance awaiting payout
+  bank: string // Account Stripe pays out to
+  cogs: string // Cost of goods sold
+  inventory: string // Stock on hand, credited as goods are sold
+}
+
+/**
+ * Defaults follow Xero's standard Australian chart. The clearing account is
+ * not in that chart, so bookkeepers create it (or change the code).
+ */
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartOfAccounts = {
+  sales: '200',
+  refunds: '200',
+  gst: '820',
+  paymentFees: '404',
+  payoutClearing: '095',
+  bank: '090',
+  cogs: '310',
+  inventory: '630',
+}
+
+export const CHART_OF_ACCOUNTS_LABELS: Record<keyof ChartOfAccounts, string> = {
+  sales: 'Sales',
+  refunds: 'Refunds',
+  gst: 'GST',
+  paymentFees: 'Payment fees',
+  payoutClearing: 'Payout clearing',
+  bank: 'Bank account',
+  cogs: 'Cost of goods sold',
+  inventory: 'Inventory',
+}
+
+export interface TenantAccountingSettings {
+  accounts: ChartOfAccounts
+}
+
+export interface JournalLine {
+  accountCode: string
+  description: string
+  debit: number // In cents
+  credit: number // In cents
+}
+
+/**
+ * A balanced journal for one ledger transaction
+ */
+export interface Journal {
+  transactionId: string
+  date: Date
+  narration: string
+  reference?: string // Stripe payout ID for payouts, to match the deposit
+  lines: JournalLine[]
+}
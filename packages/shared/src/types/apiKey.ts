@@ -0,0 +1,58 @@
+/**
+ * API Key - Per-tenant credentials for the public REST API (/api/v1)
+ * Only a SHA-256 hash of the secret is stored; the secret is shown once on creation
+ */
+
+export type ApiKeyScope =
+  | 'pieces:read'
+  | 'pieces:write'
+  | 'orders:read'
+  | 'orders:write'
+  | 'customers:read'
+  | 'inventory:read'
+  | 'inventory:write'
+
+export interface ApiKey {
+  id: string
+  tenantId: string
+
+  name: string // e.g., "Warehouse sync"
+  prefix: string // First characters of the secret, shown in the admin list
+  keyHash: string // SHA-256 of the full secret
+  scopes: ApiKeyScope[]
+
+  createdBy: string // Actor email
+  lastUsedAt?: Date
+  revokedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** ApiKey without its hash, safe to return from API routes */
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>
+
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  createdBy: string
+}
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'pieces:read',
+  'pieces:write',
+  'orders:read',
+  'orders:write',
+  'customers:read',
+  'inventory:read',
+  'inventory:write',
+]
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'pieces:read': 'Read products and variants',
+  'pieces:write': 'Update products',
+  'orders:read': 'Read orders',
+  'orders:write': 'Update order status and tracking',
+  'customers:read': 'Read customers',
+  'inventory:read': 'Read stock levels',
+  'inventory:write': 'Set stock levels',
+}
@@ -0,0 +1,45 @@
+/**
+ * Barcode labels and scanner lookups for pieces, variants and materials
+ */
+
+export type BarcodeFormat = 'code128' | 'ean13'
+
+export type BarcodeItemType = 'piece' | 'variant' | 'material'
+
+/**
+ * An item to print labels for
+ */
+export interface LabelRequestItem {
+  itemType: BarcodeItemType
+  itemId: string
+  copies?: number // Defaults to 1
+}
+
+/**
+ * One printed label - name, detail line and the code the barcode encodes
+ */
+export interface BarcodeLabel {
+  itemType: BarcodeItemType
+  itemId: string
+  name: string
+  detail?: string // Variant attributes or material unit
+  code: string
+  format: BarcodeFormat
+  price?: number
+  currency?: string
+}
+
+/**
+ * Item found for a scanned barcode or typed SKU
+ */
+export interface ScannedItem {
+  itemType: BarcodeItemType
+  itemId: string
+  pieceId?: string // Set for pieces and variants
+  name: string
+  code: string
+  stock: number
+  unit?: string // Materials only
+  price?: number // Variant price falls back to the piece price
+  variantAttributes?: Record<string, string>
+}
@@ -0,0 +1,170 @@
+/**
+ * Consignment - Pieces placed with galleries and shops that sell them on
+ * the maker's behalf, keeping a commission on each sale
+ *
+ * Placed stock moves to an inventory location for the consignee, so it stays
+ * counted but isn't sold online. All amounts are in cents (piece prices are
+ * in dollars and are converted when placed).
+ */
+
+export interface Consignee {
+  id: string
+  tenantId: string
+
+  name: string
+
+  // Contact
+  contactName?: string
+  email?: string
+  phone?: string
+  address?: string
+
+  commissionRate: number // Percent of each sale the consignee keeps
+  locationId: string // Inventory location holding stock placed with them
+
+  notes?: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateConsigneeInput {
+  name: string
+  contactName?: string
+  email?: string
+  phone?: string
+  address?: string
+  commissionRate: number
+  notes?: string
+}
+
+export type UpdateConsigneeInput = Partial<CreateConsigneeInput>
+
+export type ConsignmentPlacementStatus = 'active' | 'closed'
+
+/**
+ * A batch of pieces delivered to a consignee
+ * Closes once every piece has been sold or returned.
+ */
+export interface ConsignmentPlacement {
+  id: string
+  tenantId: string
+
+  consigneeId: string
+  consigneeName: string // Snapshot for historical display
+
+  status: ConsignmentPlacementStatus
+  items: ConsignmentPlacementItem[]
+  commissionRate: number // Agreed rate when placed
+  currency: string
+
+  notes?: string
+
+  placedAt: Date
+  closedAt?: Date
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ConsignmentPlacementItem {
+  pieceId: string
+  name: string // Snapshot for historical display
+  retailPrice: number // Agreed shelf price per piece
+  quantityPlaced: number
+  quantitySold: number
+  quantityReturned: number
+}
+
+export interface CreateConsignmentPlacementInput {
+  consigneeId: string
+  fromLocationId: string // Where the stock is moved from
+  items: Array<{ pieceId: string; quantity: number; retailPrice?: number }>
+  notes?: string
+}
+
+/**
+ * A sale the consignee reported back
+ */
+export interface ConsignmentSale {
+  id: string
+  tenantId: string
+
+  consigneeId: string
+  placementId: string
+  pieceId: string
+  name: string
+
+  quantity: number
+  salePrice: number // Per piece, as sold
+  grossAmount: number
+  commissionAmount: number
+  netAmount: number // What the consignee owes (gross - commission)
+  currency: string
+
+  settlementId?: string // Set once paid out
+
+  soldAt: Date
+  createdAt: Date
+}
+
+export interface RecordConsignmentSaleInput {
+  placementId: string
+  pieceId: string
+  quantity: number
+  salePrice?: number // Defaults to the placement's retail price
+  soldAt?: Date
+}
+
+export interface RecordConsignmentReturnInput {
+  placementId: string
+  toLocationId: string // Where the returned stock goes
+  items: Array<{ pieceId: string; quantity: number }>
+}
+
+/**
+ * Payment received from a consignee for their unsettled sales
+ * Recorded in the ledger as a 'consignment' transaction.
+ */
+export interface ConsignmentSettlement {
+  id: string
+  tenantId: string
+
+  consigneeId: string
+  consigneeName: string
+  saleIds: string[]
+
+  grossAmount: number
+  commissionAmount: number
+  netAmount: number
+  currency: string
+
+  transactionId: string
+  reference?: string // e.g. bank transfer reference
+
+  settledAt: Date
+}
+
+/**
+ * What a consignee is holding and owes
+ */
+export interface ConsigneeSummary {
+  consignee: Consignee
+  activePlacements: number
+  piecesHeld: number
+  unsettledSales: number
+  unsettledGross: number
+  unsettledNet: number
+}
+
+/**
+ * Split a consignment sale into the consignee's commission and the
+ * maker's share, rounding the commission to the nearest cent
+ */
+export function calculateConsignmentSplit(
+  grossAmountCents: number,
+  commissionRate: number,
+): { commissionAmount: number; netAmount: number } {
+  const commissionAmount = Math.round(grossAmountCents * (commissionRate / 100))
+  return { commissionAmount, netAmount: grossAmountCents - commissionAmount }
+}
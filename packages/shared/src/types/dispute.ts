@@ -43,6 +43,9 @@ export interface Dispute {
 
   // Evidence timeline
   evidenceDueBy?: Date // Deadline to submit evidence
+  evidence?: DisputeEvidence // Draft saved from the evidence workspace
+  evidenceSubmittedAt?: Date // Sent to Stripe - no further edits
+  evidenceReminderDays?: number // Smallest reminder threshold emailed so far
 
   // Timestamps
   createdAt: Date
@@ -50,6 +53,33 @@ export interface Dispute {
   resolvedAt?: Date // When dispute was closed (won/lost)
 }
 
+/**
+ * Days before evidenceDueBy that the seller is reminded to respond
+ */
+export const DISPUTE_EVIDENCE_REMINDER_DAYS = [7, 3, 1] as const
+
+/**
+ * Evidence sent to Stripe for a dispute
+ * Text fields map onto Stripe's dispute evidence; deliveryProof and
+ * customerCommunication are sent as part of the uncategorized text.
+ */
+export interface DisputeEvidence {
+  productDescription?: string
+  customerName?: string
+  customerEmailAddress?: string
+  billingAddress?: string
+  shippingAddress?: string
+  shippingDate?: string
+  shippingCarrier?: string
+  shippingTrackingNumber?: string
+  deliveryProof?: string // Carrier tracking timeline
+  customerCommunication?: string // Order message thread
+  accessActivityLog?: string // Digital download log
+  refundPolicyDisclosure?: string
+  refundRefusalExplanation?: string
+  uncategorizedText?: string // Anything else the seller wants to add
+}
+
 export interface CreateDisputeInput {
   tenantId: string
   orderId?: string
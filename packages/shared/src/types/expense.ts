@@ -0,0 +1,103 @@
+/**
+ * Expense - Business costs for the books and GST input tax credits
+ * Entered by hand (optionally from a scanned receipt) or posted
+ * automatically when a supplier invoice is confirmed.
+ */
+
+export type ExpenseCategory =
+  | 'materials'
+  | 'packaging'
+  | 'postage'
+  | 'equipment'
+  | 'marketing'
+  | 'software'
+  | 'fees'
+  | 'rent'
+  | 'travel'
+  | 'other'
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  materials: 'Materials',
+  packaging: 'Packaging',
+  postage: 'Postage',
+  equipment: 'Tools & equipment',
+  marketing: 'Marketing',
+  software: 'Software & subscriptions',
+  fees: 'Bank & market fees',
+  rent: 'Rent & studio',
+  travel: 'Travel',
+  other: 'Other',
+}
+
+export type ExpenseSource = 'manual' | 'invoice'
+
+export interface Expense {
+  id: string
+  tenantId: string
+
+  date: Date // Date on the receipt or invoice
+  description: string
+  category: ExpenseCategory
+
+  supplierId?: string
+  supplierName?: string // Snapshot, or free text for one-off suppliers
+
+  // Amounts in cents
+  amount: number // Total paid, GST inclusive
+  gstAmount: number // GST component claimable as an input tax credit
+  currency: string
+
+  // Receipt stored in R2
+  receiptUrl?: string
+  receiptFileName?: string
+
+  source: ExpenseSource
+  invoiceId?: string // Supplier invoice this was posted from
+
+  notes?: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateExpenseInput {
+  date: Date
+  description: string
+  category: ExpenseCategory
+  supplierId?: string
+  supplierName?: string
+  amount: number
+  gstAmount?: number
+  currency?: string
+  receiptUrl?: string
+  receiptFileName?: string
+  notes?: string
+}
+
+export type UpdateExpenseInput = Partial<CreateExpenseInput>
+
+export interface ExpenseFilters {
+  category?: ExpenseCategory
+  startDate?: Date
+  endDate?: Date
+}
+
+/**
+ * Profit and loss for a period, GST exclusive (in cents)
+ */
+export interface ProfitAndLoss {
+  startDate: Date
+  endDate: Date
+  currency: string
+
+  sales: number // Sales less GST
+  refunds: number // Refunds less GST
+  netSales: number // sales - refunds
+
+  paymentFees: number // Stripe processing fees on sales
+  commission: number // Consignee commission on consignment sales
+  expenses: Array<{ category: ExpenseCategory; amount: number }>
+  totalExpenses: number // Fees, commission and every expense category
+
+  netProfit: number // netSales - totalExpenses
+}
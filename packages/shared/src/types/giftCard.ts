@@ -0,0 +1,106 @@
+/**
+ * Gift Card - Stored-value codes sold as pieces or issued by the seller
+ * Balances are in the card's currency, in minor units (cents) like transactions
+ */
+
+export type GiftCardStatus = 'active' | 'depleted' | 'voided'
+
+export type GiftCardSource = 'purchase' | 'manual'
+
+export interface GiftCard {
+  id: string
+  tenantId: string
+
+  // Code details
+  code: string // e.g., "GC7K-M2QX-9PLA-4WTR" (stored uppercase)
+
+  // Balance
+  initialBalance: number // In cents
+  balance: number // Remaining balance available to redeem (in cents)
+  currency: string
+
+  status: GiftCardStatus
+  source: GiftCardSource
+
+  // Purchase details (source = 'purchase')
+  orderId?: string
+  purchaserEmail?: string
+
+  // Recipient
+  recipientEmail?: string
+  recipientName?: string
+  message?: string
+
+  note?: string // Internal note
+  expiresAt?: Date
+
+  // Void tracking
+  voidedAt?: Date
+  voidReason?: string
+
+  // Timestamps
+  lastUsedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Balance held against a card while a checkout session is open
+ * Committed on payment, released on abandonment (same flow as stock reservations)
+ */
+export interface GiftCardHold {
+  id: string
+  tenantId: string
+  giftCardId: string
+  code: string
+  amount: number // In cents
+  currency: string
+  sessionId: string
+  orderId?: string
+  status: 'active' | 'completed' | 'cancelled'
+  expiresAt: Date
+  createdAt: Date
+}
+
+/**
+ * Gift card configuration on a piece - buying the piece issues a card
+ * for the price paid
+ */
+export interface GiftCardPieceConfig {
+  isGiftCard: boolean
+  expiryMonths?: number // Months until issued cards expire (undefined = never)
+}
+
+export interface IssueGiftCardInput {
+  amount: number // In cents
+  currency?: string
+  source?: GiftCardSource
+  orderId?: string
+  purchaserEmail?: string
+  recipientEmail?: string
+  recipientName?: string
+  message?: string
+  note?: string
+  expiresAt?: Date
+}
+
+export interface GiftCardValidationResult {
+  valid: boolean
+  giftCard?: GiftCard
+  availableBalance?: number // In cents
+  error?: string
+}
+
+export interface GiftCardListOptions {
+  limit?: number
+  offset?: number
+  status?: GiftCardStatus
+  search?: string
+}
+
+export interface GiftCardStats {
+  totalCards: number
+  activeCards: number
+  outstandingBalance: number // In cents
+  redeemedAmount: number // In cents
+}
@@ -16,6 +16,17 @@ export {
   getPendingCelebrations,
   MILESTONES,
 } from '../lib/milestones'
+export type {
+  AccountingExportFormat,
+  ChartOfAccounts,
+  Journal,
+  JournalLine,
+  TenantAccountingSettings,
+} from './accounting'
+export {
+  CHART_OF_ACCOUNTS_LABELS,
+  DEFAULT_CHART_OF_ACCOUNTS,
+} from './accounting'
 // Platform Admin Types
 export type {
   Admin,
@@ -26,6 +37,21 @@ export type {
   UpdateAdminInput,
 } from './admin'
 export * from './admin'
+export type {
+  ApiKey,
+  ApiKeyScope,
+  CreateApiKeyInput,
+  PublicApiKey,
+} from './apiKey'
+export * from './apiKey'
+export type {
+  BarcodeFormat,
+  BarcodeItemType,
+  BarcodeLabel,
+  LabelRequestItem,
+  ScannedItem,
+} from './barcode'
+export * from './barcode'
 
 export type {
   BlogConfig,
@@ -70,6 +96,21 @@ export {
   TONE_LABELS,
 } from './captionStyle'
 export * from './collection'
+export type {
+  Consignee,
+  ConsigneeSummary,
+  ConsignmentPlacement,
+  ConsignmentPlacementItem,
+  ConsignmentPlacementStatus,
+  ConsignmentSale,
+  ConsignmentSettlement,
+  CreateConsigneeInput,
+  CreateConsignmentPlacementInput,
+  RecordConsignmentReturnInput,
+  RecordConsignmentSaleInput,
+  UpdateConsigneeInput,
+} from './consignment'
+export * from './consignment'
 export type {
   CohortData,
   CreateCustomerInput,
@@ -100,6 +141,7 @@ export * from './discount'
 export type {
   CreateDisputeInput,
   Dispute,
+  DisputeEvidence,
   DisputeFilters,
   DisputeListOptions,
   DisputeReason,
@@ -108,6 +150,7 @@ export type {
   UpdateDisputeInput,
 } from './dispute'
 export * from './dispute'
+export { DISPUTE_EVIDENCE_REMINDER_DAYS } from './dispute'
 export type {
   CreateDownloadRecordInput,
   DownloadEvent,
@@ -123,6 +166,28 @@ export type {
   EnquiryStatus,
 } from './enquiry'
 export * from './enquiry'
+export type {
+  CreateExpenseInput,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters,
+  ExpenseSource,
+  ProfitAndLoss,
+  UpdateExpenseInput,
+} from './expense'
+export { EXPENSE_CATEGORY_LABELS } from './expense'
+export type {
+  GiftCard,
+  GiftCardHold,
+  GiftCardListOptions,
+  GiftCardPieceConfig,
+  GiftCardSource,
+  GiftCardStats,
+  GiftCardStatus,
+  GiftCardValidationResult,
+  IssueGiftCardInput,
+} from './giftCard'
+export * from './giftCard'
 export * from './import'
 export type {
   CreateInvoiceInput,
@@ -133,6 +198,20 @@ export type {
 } from './invoice'
 export * from './invoice'
 export * from './keyDates'
+export type {
+  CreateLocationInput,
+  CreateStockTransferInput,
+  InventoryLocation,
+  InventoryLocationType,
+  ItemLocationStock,
+  LocationSaleItem,
+  LocationStockLevel,
+  StockItemType,
+  StockTransfer,
+  StockTransferItem,
+  UpdateLocationInput,
+} from './location'
+export * from './location'
 export type {
   CreateMarketplaceConnectionInput,
   CreateMarketplaceListingInput,
@@ -170,6 +249,9 @@ export type {
   Material,
   MaterialCategory,
   MaterialFilters,
+  MaterialLot,
+  MaterialLotConsumption,
+  MaterialLotSource,
   MaterialUnit,
   MaterialUsage,
   UpdateMaterialInput,
@@ -213,7 +295,11 @@ export type {
   CreateOrderInput,
   Order,
   OrderItem,
+  OrderMarketplaceLink,
   OrderStatus,
+  OrderTracking,
+  OrderTrackingEvent,
+  OrderTrackingState,
   PaymentStatus,
 } from './order'
 export * from './order'
@@ -239,8 +325,10 @@ export * from './payment'
 export type {
   CreatePayoutInput,
   Payout,
+  PayoutBalanceTransaction,
   PayoutFilters,
   PayoutListOptions,
+  PayoutReconciliation,
   PayoutStatus,
   PayoutSummary,
 } from './payout'
@@ -258,8 +346,10 @@ export type {
   PieceFilters,
   PieceIntegrations,
   PieceMaterialUsage,
+  PiecePreorderConfig,
   PieceStatus,
   PieceWithMedia,
+  PreorderMode,
   ProductVariant,
   ProductVariation,
   UpdateDigitalFileInput,
@@ -309,10 +399,15 @@ export type {
 export * from './product'
 export type {
   CreateProductionRunInput,
+  MaterialShortfall,
   ProductionMaterialConsumption,
+  ProductionQueue,
+  ProductionQueueItem,
+  ProductionQueueItemRef,
   ProductionRun,
   ProductionRunFilters,
   ProductionRunListOptions,
+  ProductionRunOrderLink,
   ProductionSummary,
 } from './productionRun'
 export * from './productionRun'
@@ -330,6 +425,7 @@ export type {
   InventoryReconciliation,
   ReconciliationFilters,
   ReconciliationItem,
+  ReconciliationItemType,
   ReconciliationListOptions,
   ReconciliationReason,
   ReconciliationStatus,
@@ -337,6 +433,20 @@ export type {
 } from './reconciliation'
 export * from './reconciliation'
 export { RECONCILIATION_REASON_LABELS } from './reconciliation'
+export type {
+  CreateRefundInput,
+  CreateReturnRequestInput,
+  OrderRefund,
+  OrderRefundItem,
+  RefundLineInput,
+  RefundProvider,
+  ReturnItem,
+  ReturnReason,
+  ReturnRequest,
+  ReturnStatus,
+} from './refund'
+export * from './refund'
+export { ADMIN_REFUND_SOURCE, RETURN_REASON_LABELS } from './refund'
 export type {
   CreateReviewInput,
   ProductReviewStats,
@@ -364,6 +474,18 @@ export type {
   TemplateRecommendation,
 } from './scanner'
 export * from './scanner'
+export type {
+  CreateSupplierInput,
+  PurchaseOrder,
+  PurchaseOrderFilters,
+  PurchaseOrderItem,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderInput,
+  Supplier,
+  UpdatePurchaseOrderInput,
+  UpdateSupplierInput,
+} from './supplier'
+export * from './supplier'
 export type {
   FAQItem,
   FeatureItem,
@@ -382,6 +504,16 @@ export type {
   WebsiteTemplate,
 } from './template'
 export * from './template'
+export type {
+  InviteTeamMemberInput,
+  PermissionArea,
+  PublicTeamMember,
+  StaffRole,
+  TeamMember,
+  TeamMemberStatus,
+  TeamRole,
+} from './team'
+export * from './team'
 export {
   createCustomPage,
   generatePageId,
@@ -396,9 +528,15 @@ export {
 } from './template'
 // Re-export commonly used types for convenience
 export type {
+  AusPostSettings,
   BusinessAddress,
   OnboardingStep,
+  ReviewRequestSettings,
   SendleSettings,
+  ShippingCarrierSettings,
+  ShippingRateBracket,
+  ShippingRateTable,
+  ShippingRateZone,
   SocialConnection,
   SocialPlatform,
   Tenant,
@@ -439,20 +577,46 @@ export {
   getExclusiveAmount,
   parseQuarter,
 } from './transaction'
+export type {
+  CreateWebhookEndpointInput,
+  PublicWebhookEndpoint,
+  UpdateWebhookEndpointInput,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload,
+} from './webhook'
+export * from './webhook'
+export type {
+  CreateWholesaleBuyerInput,
+  CreateWholesaleOrderInput,
+  OrderWholesaleLink,
+  UpdateWholesaleBuyerInput,
+  WholesaleBuyer,
+  WholesalePrice,
+} from './wholesale'
+export * from './wholesale'
 export * from './wishlist'
 export type {
   BookingFilters,
   CreateBookingInput,
   CreateSlotInput,
+  CreateSlotSeriesInput,
+  CreateWaitlistEntryInput,
   CreateWorkshopInput,
   UpdateBookingInput,
   UpdateSlotInput,
+  UpdateSlotSeriesInput,
   UpdateWorkshopInput,
   Workshop,
   WorkshopBooking,
   WorkshopFilters,
   WorkshopListOptions,
   WorkshopSlot,
+  WorkshopSlotSeries,
+  WorkshopWaitlistEntry,
 } from './workshop'
 export * from './workshop'
 
@@ -15,6 +15,7 @@ export interface InvoiceRecord {
   // Invoice metadata
   supplier?: string
   totalAmount?: number
+  gstAmount?: number // GST shown on the invoice, when printed
   currency?: string
   invoiceDate?: Date
 
@@ -75,6 +76,7 @@ export interface UpdateInvoiceInput {
   materialIds?: string[]
   supplier?: string
   totalAmount?: number
+  gstAmount?: number
   currency?: string
   invoiceDate?: Date
 }
@@ -0,0 +1,122 @@
+/**
+ * InventoryLocation - Places stock is held (home, studio, a consignment shop)
+ *
+ * Item stock fields (Piece.stock, EnhancedProductVariant.stock and
+ * Material.quantityInStock) stay the total on hand. Quantities at other
+ * locations are recorded per item; whatever isn't at another location is at
+ * the default location, so sales, production runs and manual edits that
+ * change the total land there.
+ */
+
+export interface InventoryLocation {
+  id: string
+  tenantId: string
+
+  name: string
+  type: InventoryLocationType
+  fulfillsOnline: boolean // Stock here counts towards what the storefront sells
+  isDefault: boolean // Holds stock not recorded elsewhere; always fulfils online
+
+  address?: string
+  notes?: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type InventoryLocationType =
+  | 'home'
+  | 'studio'
+  | 'shop'
+  | 'consignment'
+  | 'market'
+  | 'warehouse'
+  | 'other'
+
+export const INVENTORY_LOCATION_TYPE_LABELS: Record<
+  InventoryLocationType,
+  string
+> = {
+  home: 'Home',
+  studio: 'Studio',
+  shop: 'Shop',
+  consignment: 'Consignment shop',
+  market: 'Market stall',
+  warehouse: 'Warehouse',
+  other: 'Other',
+}
+
+export type StockItemType = 'piece' | 'variant' | 'material'
+
+/**
+ * Quantity of one item at one location
+ */
+export interface LocationStockLevel {
+  locationId: string
+  locationName: string
+  fulfillsOnline: boolean
+  isDefault: boolean
+  quantity: number
+}
+
+/**
+ * An item's stock split across locations
+ */
+export interface ItemLocationStock {
+  itemType: StockItemType
+  itemId: string
+  total: number
+  onlineAvailable: number // Total at locations that fulfil online orders
+  levels: LocationStockLevel[]
+}
+
+/**
+ * Stock moved from one location to another
+ */
+export interface StockTransfer {
+  id: string
+  tenantId: string
+
+  fromLocationId: string
+  fromLocationName: string // Snapshot for history
+  toLocationId: string
+  toLocationName: string
+  items: StockTransferItem[]
+
+  notes?: string
+  createdAt: Date
+}
+
+export interface StockTransferItem {
+  itemType: StockItemType
+  itemId: string
+  name: string // Snapshot for history
+  quantity: number
+}
+
+export interface CreateLocationInput {
+  name: string
+  type: InventoryLocationType
+  fulfillsOnline?: boolean
+  isDefault?: boolean
+  address?: string
+  notes?: string
+}
+
+export type UpdateLocationInput = Partial<CreateLocationInput>
+
+export interface CreateStockTransferInput {
+  fromLocationId: string
+  toLocationId: string
+  items: Array<Pick<StockTransferItem, 'itemType' | 'itemId' | 'quantity'>>
+  notes?: string
+}
+
+/**
+ * Item sold from a location (POS sales at a market stall)
+ */
+export interface LocationSaleItem {
+  pieceId: string
+  variantId?: string
+  quantity: number
+}
@@ -175,6 +175,15 @@ export interface MarketplaceOrder {
   // Link to MadeBuy order (if created)
   linkedOrderId?: string
 
+  // Conversion in progress: the native order ID being created and when the
+  // conversion was claimed. A claim left by a failed conversion goes stale.
+  conversionClaimId?: string
+  conversionClaimedAt?: Date
+
+  // Whether stock has been taken for matched pieces. False until the order is
+  // converted; unset on orders imported when the import itself took stock.
+  stockDecremented?: boolean
+
   // Raw marketplace response (for debugging)
   rawData?: Record<string, unknown>
 
@@ -276,6 +285,7 @@ export interface CreateMarketplaceOrderInput {
   marketplaceFees?: number
   orderDate: Date
   paidAt?: Date
+  shippedAt?: Date
   rawData?: Record<string, unknown>
   stockSyncErrors?: MarketplaceOrder['stockSyncErrors']
 }
@@ -435,8 +445,8 @@ export const MARKETPLACE_FEATURES: Record<
     supportsPersonalization: false,
   },
   etsy: {
-    available: false,
-    comingSoon: true,
+    available: true,
+    comingSoon: false,
     supportsVariations: true,
     supportsDigital: true,
     supportsPersonalization: true,
@@ -20,9 +20,13 @@ export interface Material {
   currency: string
 
   // Supplier
-  supplier?: string
+  supplier?: string // Free-text name (legacy)
+  supplierId?: string
   supplierSku?: string
 
+  // Scanning - printed on labels, assigned an in-store EAN-13 if left blank
+  barcode?: string
+
   // Metadata
   notes?: string
   tags: string[]
@@ -59,6 +63,48 @@ export interface MaterialUsage {
   createdAt: Date
 }
 
+/**
+ * MaterialLot - One batch of stock at the price it was bought for
+ * Lots are consumed oldest first (FIFO) so production costs reflect what the
+ * materials actually cost, not the latest price.
+ */
+export interface MaterialLot {
+  id: string
+  tenantId: string
+  materialId: string
+
+  quantityReceived: number // In the material's unit
+  quantityRemaining: number
+  costPerUnit: number
+
+  source: MaterialLotSource
+  sourceId?: string // Invoice or purchase order ID
+  receivedAt: Date
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Where a lot came from - 'opening' covers stock that predates lot tracking
+ */
+export type MaterialLotSource =
+  | 'opening'
+  | 'restock'
+  | 'invoice'
+  | 'purchase_order'
+  | 'reconciliation'
+  | 'manual'
+
+/**
+ * Quantity taken from a lot, kept so it can be put back on reversal
+ */
+export interface MaterialLotConsumption {
+  lotId: string
+  quantity: number
+  costPerUnit: number
+}
+
 export interface CreateMaterialInput {
   name: string
   category: MaterialCategory
@@ -68,7 +114,9 @@ export interface CreateMaterialInput {
   costPerUnit: number
   currency?: string
   supplier?: string
+  supplierId?: string
   supplierSku?: string
+  barcode?: string
   notes?: string
   tags?: string[]
 }
@@ -82,7 +130,9 @@ export interface UpdateMaterialInput {
   costPerUnit?: number
   currency?: string
   supplier?: string
+  supplierId?: string
   supplierSku?: string
+  barcode?: string
   notes?: string
   tags?: string[]
 }
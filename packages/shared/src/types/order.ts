@@ -2,7 +2,10 @@
  * Order - E-commerce orders for pieces
  */
 
+import type { MarketplacePlatform } from './marketplace'
 import type { PersonalizationValue } from './piece'
+import type { OrderRefund } from './refund'
+import type { OrderWholesaleLink } from './wholesale'
 
 export interface Order {
   id: string
@@ -49,6 +52,12 @@ export interface Order {
   paypalOrderId?: string
   paypalCaptureId?: string
 
+  // Marketplace sale (paymentMethod 'marketplace') - paid on eBay/Etsy
+  marketplace?: OrderMarketplaceLink
+
+  // Wholesale order (paymentMethod 'bank_transfer') - invoiced on terms
+  wholesale?: OrderWholesaleLink
+
   // Fee breakdown (all amounts in cents)
   fees?: {
     stripe: number // Stripe processing fee
@@ -62,6 +71,7 @@ export interface Order {
   refundedAt?: Date // When the refund was processed
   refundId?: string // Stripe refund ID
   refundReason?: string // Refund reason from Stripe
+  refunds?: OrderRefund[] // Refunds issued from admin, oldest first
 
   // UTM attribution for analytics
   trafficSource?: string
@@ -79,6 +89,13 @@ export interface Order {
   sendleReference?: string // Sendle tracking reference (e.g., SNDLE123)
   labelUrl?: string // URL to download shipping label PDF
 
+  // Carrier tracking timeline (polled from Sendle while in transit)
+  tracking?: OrderTracking
+
+  // Pre-order / made-to-order - latest item productionDue, feeds the production queue
+  productionDue?: Date
+  readyToShipAt?: Date // Every queued item has been made
+
   // Digital product delivery
   hasDigitalItems?: boolean // Order contains at least one digital product
   isDigitalOnly?: boolean // Order contains ONLY digital products (no shipping needed)
@@ -123,6 +140,50 @@ export interface OrderItem {
   // Digital product fields
   isDigital?: boolean
   downloadRecordId?: string // Reference to download_records collection
+
+  // Pre-order / made-to-order - sold without stock, ready to ship by this date
+  productionDue?: Date
+
+  // Production run that made this item (made-to-order / personalised items)
+  productionRunId?: string
+
+  // Cost of goods per unit when sold (cents), for COGS reporting
+  unitCost?: number
+}
+
+/**
+ * Link from an order back to the marketplace sale it was converted from
+ */
+export interface OrderMarketplaceLink {
+  platform: MarketplacePlatform
+  marketplaceOrderId: string // MarketplaceOrder.id
+  externalOrderId: string
+  externalUrl?: string
+  trackingSyncedAt?: Date // When tracking was pushed to the marketplace
+}
+
+export type OrderTrackingState =
+  | 'awaiting_pickup'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delayed'
+  | 'delivered'
+
+export interface OrderTrackingEvent {
+  occurredAt: Date
+  type: string // Carrier event type, e.g. "In Transit"
+  description: string
+  location?: string
+}
+
+/**
+ * Carrier tracking timeline for a shipped order
+ */
+export interface OrderTracking {
+  state: OrderTrackingState
+  events: OrderTrackingEvent[] // Newest first
+  checkedAt: Date
+  delayNotifiedAt?: Date // Customer told about a delay (sent once)
 }
 
 export interface Address {
@@ -143,7 +204,11 @@ export type OrderStatus =
   | 'cancelled'
   | 'refunded'
 
-export type PaymentMethod = 'stripe' | 'paypal' | 'bank_transfer'
+export type PaymentMethod =
+  | 'stripe'
+  | 'paypal'
+  | 'bank_transfer'
+  | 'marketplace'
 export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded'
 export type ShippingType = 'domestic' | 'international' | 'local_pickup'
 
@@ -3,6 +3,8 @@
  * Records when money moves from Stripe balance to bank
  */
 
+import type { Transaction } from './transaction'
+
 export type PayoutStatus =
   | 'pending'
   | 'in_transit'
@@ -40,6 +42,26 @@ export interface Payout {
   // Metadata
   description?: string
   updatedAt?: Date
+
+  // Reconciliation (balance transactions fetched from Stripe)
+  balanceTransactions?: PayoutBalanceTransaction[]
+  reconciledAt?: Date
+}
+
+/**
+ * A Stripe balance transaction included in a payout, matched to the ledger
+ */
+export interface PayoutBalanceTransaction {
+  stripeBalanceTransactionId: string
+  type: string // Stripe balance transaction type (payment, refund, adjustment...)
+  amount: number // In cents, before Stripe fees
+  fee: number // In cents
+  net: number // In cents, what this line adds to the payout
+  description?: string
+  sourceId?: string // Charge, refund or transfer the line came from
+  paymentIntentId?: string
+  createdAt: Date
+  transactionId?: string // Matched ledger transaction
 }
 
 export interface CreatePayoutInput {
@@ -80,3 +102,33 @@ export interface PayoutSummary {
   }
   currency: string
 }
+
+/**
+ * Payout detail with the ledger transactions it contains. Totals are in
+ * cents; a payout reconciles when its linked transactions add up to it.
+ */
+export interface PayoutReconciliation {
+  payout: Payout
+  transactions: Transaction[]
+  ledgerTotal: number // Sales less refunds and fees linked to the payout
+  stripeTotal: number // Net of the Stripe balance transactions
+  difference: number // Payout amount less the ledger total
+  unmatchedCount: number // Stripe balance transactions not found in the ledger
+  isReconciled: boolean
+}
+
+/**
+ * What a ledger transaction adds to (or takes from) the Stripe balance that
+ * gets paid out, in cents
+ */
+export function getPayoutContribution(tx: Transaction): number {
+  switch (tx.type) {
+    case 'sale':
+      return tx.netAmount
+    case 'refund':
+    case 'fee':
+      return -tx.grossAmount
+    default:
+      return 0
+  }
+}
@@ -2,6 +2,7 @@
  * Piece - Product/inventory item
  */
 
+import type { GiftCardPieceConfig } from './giftCard'
 import type { MediaItem } from './media'
 import type { SocialVideo } from './product'
 
@@ -12,7 +13,7 @@ import type { SocialVideo } from './product'
 export interface PieceMaterialUsage {
   materialId: string // Reference to Material.id
   quantity: number // Amount used
-  unit: string // Unit of measurement (should match material's unit)
+  unit: string // Unit of measurement (converted to the material's unit)
 }
 
 export interface Piece {
@@ -57,7 +58,14 @@ export interface Piece {
 
   // Inventory
   stock?: number // Quantity available. Undefined = unlimited stock
+  heldStock?: number // Part of stock at locations that don't fulfil online orders
   lowStockThreshold?: number // Alert when stock falls to or below this level
+  sku?: string
+  barcode?: string // Printed on labels, assigned an in-store EAN-13 if blank
+
+  // Pre-order / made-to-order (sold without stock)
+  preorder?: PiecePreorderConfig
+  preorderOutstanding?: number // Units ordered but not yet shipped, maintained by checkout
 
   // Variants (optional - for products with size/color/etc options)
   hasVariants?: boolean
@@ -79,6 +87,9 @@ export interface Piece {
   // Digital product configuration
   digital?: DigitalProductConfig
 
+  // Gift card configuration (buying the piece issues a gift card code)
+  giftCard?: GiftCardPieceConfig
+
   // Status
   status: PieceStatus
 
@@ -123,6 +134,22 @@ export interface Piece {
 
 export type PieceStatus = 'draft' | 'available' | 'reserved' | 'sold'
 
+export type PreorderMode = 'preorder' | 'made_to_order'
+
+/**
+ * Pre-order / made-to-order settings
+ * While enabled the piece sells regardless of stock - each order gets a
+ * production due date instead, and maxOutstanding caps how many units can be
+ * waiting to ship at once.
+ */
+export interface PiecePreorderConfig {
+  enabled: boolean
+  mode: PreorderMode
+  expectedShipDate?: Date // Pre-order: when the batch is expected to ship
+  leadTimeDays?: number // Made to order: days to make once ordered
+  maxOutstanding?: number // Undefined = no cap
+}
+
 /**
  * Variant Option - defines a single option type (e.g., Size, Color)
  */
@@ -141,6 +168,7 @@ export interface ProductVariant {
   sku?: string
   price?: number // Override base price (if different from parent)
   stock?: number // Variant-specific stock
+  heldStock?: number // Part of stock at locations that don't fulfil online orders
   isAvailable: boolean
 }
 
@@ -181,6 +209,8 @@ export interface EnhancedProductVariant {
   compareAtPrice?: number | null
   /** Current stock quantity (>= 0) */
   stock: number
+  /** Part of stock at locations that don't fulfil online orders */
+  heldStock?: number
   /** Alert when stock falls to or below this threshold */
   lowStockThreshold?: number | null
   /** Whether this variant can be purchased */
@@ -455,6 +485,8 @@ export interface CreatePieceInput {
   materialsUsed?: PieceMaterialUsage[] // Materials used for COGS calculation
   stock?: number
   lowStockThreshold?: number
+  sku?: string
+  barcode?: string
   category?: string
   tags?: string[]
   status?: PieceStatus
@@ -473,6 +505,10 @@ export interface CreatePieceInput {
   digital?: Omit<DigitalProductConfig, 'files'> & {
     files?: CreateDigitalFileInput[]
   }
+  // Gift card
+  giftCard?: GiftCardPieceConfig
+  // Pre-order / made-to-order
+  preorder?: PiecePreorderConfig
   // DEPRECATED: Legacy fields for backward compatibility
   stones?: string[]
   metals?: string[]
@@ -4,6 +4,7 @@
  */
 
 import type { MediaItem } from './media'
+import type { PiecePreorderConfig } from './piece'
 
 export interface Product {
   id: string
@@ -28,6 +29,7 @@ export interface Product {
 
   // Inventory
   stock?: number // Quantity available. Undefined = unlimited stock
+  preorder?: PiecePreorderConfig // Pre-order / made-to-order lead time
 
   // Status
   status: ProductStatus
@@ -2,7 +2,8 @@
  * ProductionRun - Records when pieces are produced and materials consumed
  */
 
-import type { MaterialUnit } from './material'
+import type { MaterialLotConsumption, MaterialUnit } from './material'
+import type { PersonalizationValue } from './piece'
 
 export interface ProductionRun {
   id: string
@@ -29,6 +30,9 @@ export interface ProductionRun {
   pieceStockBefore: number
   pieceStockAfter: number
 
+  // Orders fulfilled by this run (units made for them don't go into stock)
+  orderItems?: ProductionRunOrderLink[]
+
   createdAt: Date
 }
 
@@ -38,10 +42,11 @@ export interface ProductionRun {
 export interface ProductionMaterialConsumption {
   materialId: string
   materialName: string // Snapshot for historical display
-  quantityUsed: number
+  quantityUsed: number // In the material's unit
   unit: MaterialUnit
-  costPerUnit: number // Cost at time of production (cents)
-  totalCost: number // quantityUsed * costPerUnit
+  costPerUnit: number // Average cost of the lots consumed (cents)
+  totalCost: number // Sum of lot quantity * lot cost
+  lots?: MaterialLotConsumption[] // FIFO lots drawn from (older runs: none)
 
   // Stock impact
   stockBefore: number
@@ -53,6 +58,57 @@ export interface CreateProductionRunInput {
   quantityProduced: number
   productionDate?: Date // Defaults to now
   notes?: string
+  orderItems?: ProductionQueueItemRef[] // Queue items this run fulfils
+}
+
+/**
+ * Identifies one order item - items have no IDs, so position is used
+ */
+export interface ProductionQueueItemRef {
+  orderId: string
+  itemIndex: number
+}
+
+/**
+ * Order item fulfilled by a production run
+ */
+export interface ProductionRunOrderLink extends ProductionQueueItemRef {
+  orderNumber: string
+  quantity: number
+}
+
+/**
+ * An order item waiting to be made - made-to-order (has a productionDue)
+ * or personalised, and not yet covered by a production run
+ */
+export interface ProductionQueueItem extends ProductionQueueItemRef {
+  orderNumber: string
+  customerName: string
+  orderedAt: Date
+  pieceId: string
+  name: string
+  quantity: number
+  variantAttributes?: Record<string, string>
+  personalizations?: PersonalizationValue[]
+  productionDue?: Date
+}
+
+/**
+ * Material the queue needs more of than is in stock
+ * Projected from each queued piece's materialsUsed recipe.
+ */
+export interface MaterialShortfall {
+  materialId: string
+  materialName: string
+  unit: MaterialUnit
+  required: number
+  inStock: number
+  shortfall: number
+}
+
+export interface ProductionQueue {
+  items: ProductionQueueItem[] // Soonest due first
+  shortfalls: MaterialShortfall[]
 }
 
 export interface ProductionRunFilters {
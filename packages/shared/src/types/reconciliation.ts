@@ -34,9 +34,10 @@ export type ReconciliationStatus = 'in_progress' | 'completed' | 'cancelled'
 export interface ReconciliationItem {
   id: string
 
-  // Material or Piece
-  itemType: 'material' | 'piece'
+  // Material, Piece or Variant
+  itemType: ReconciliationItemType
   itemId: string
+  pieceId?: string // Parent piece of a variant
   itemName: string // Snapshot for display
   unit?: string // For materials
 
@@ -56,6 +57,8 @@ export interface ReconciliationItem {
   countedAt?: Date
 }
 
+export type ReconciliationItemType = 'material' | 'piece' | 'variant'
+
 export type ReconciliationReason =
   | 'damaged'
   | 'lost'
@@ -86,7 +89,7 @@ export interface CreateReconciliationInput {
 }
 
 export interface AddReconciliationItemInput {
-  itemType: 'material' | 'piece'
+  itemType: ReconciliationItemType
   itemId: string
 }
 
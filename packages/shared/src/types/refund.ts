@@ -0,0 +1,118 @@
+/**
+ * Refunds and returns
+ * Admin-issued refunds (full, partial or per line item) and the buyer-started
+ * return (RMA) flow that usually leads to one.
+ */
+
+export type RefundProvider = 'stripe' | 'paypal' | 'manual'
+
+// Stripe refund metadata "source" for refunds issued from admin - the
+// charge.refunded webhook skips them as they're already recorded
+export const ADMIN_REFUND_SOURCE = 'admin_refund'
+
+export interface OrderRefundItem {
+  pieceId: string
+  variantId?: string
+  name: string
+  quantity: number
+  amount: number // cents
+}
+
+/**
+ * One refund issued against an order - orders can have several partial refunds
+ */
+export interface OrderRefund {
+  id: string
+  amount: number // cents
+  items: OrderRefundItem[] // Empty for amount-only refunds
+  includesShipping: boolean
+  reason?: string
+  restocked: boolean
+  provider: RefundProvider // 'manual' - paid back outside the payment provider
+  providerRefundId?: string // Stripe refund / PayPal refund ID
+  returnId?: string
+  transactionId?: string
+  createdAt: Date
+}
+
+export interface RefundLineInput {
+  pieceId: string
+  variantId?: string
+  quantity: number
+}
+
+export interface CreateRefundInput {
+  items?: RefundLineInput[] // Omit with no amount for a full refund
+  amount?: number // cents - overrides the amount worked out from items
+  includeShipping?: boolean
+  reason?: string
+  restock?: boolean
+  returnId?: string
+}
+
+export type ReturnReason =
+  | 'damaged'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'changed_mind'
+  | 'other'
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+}
+
+export type ReturnStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'received'
+  | 'refunded'
+
+export interface ReturnItem {
+  pieceId: string
+  variantId?: string
+  name: string
+  quantity: number
+}
+
+/**
+ * Return merchandise authorisation - started by the buyer from their order page
+ */
+export interface ReturnRequest {
+  id: string
+  tenantId: string
+  orderId: string
+  orderNumber: string
+  rmaNumber: string // e.g. "RMA-7KQ2MX"
+  status: ReturnStatus
+  reason: ReturnReason
+  details?: string
+  items: ReturnItem[]
+  customerName: string
+  customerEmail: string
+
+  // Sendle return label (buyer to seller)
+  sendleOrderId?: string
+  trackingNumber?: string
+  trackingUrl?: string
+  labelUrl?: string
+
+  rejectionReason?: string
+  refundId?: string // OrderRefund.id once refunded
+
+  createdAt: Date
+  updatedAt: Date
+  approvedAt?: Date
+  receivedAt?: Date
+  resolvedAt?: Date // Rejected or refunded
+}
+
+export interface CreateReturnRequestInput {
+  reason: ReturnReason
+  details?: string
+  items: RefundLineInput[]
+}
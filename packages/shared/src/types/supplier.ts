@@ -0,0 +1,102 @@
+/**
+ * Supplier - Where materials are bought from, and purchase orders sent to them
+ */
+
+import type { MaterialUnit } from './material'
+
+export interface Supplier {
+  id: string
+  tenantId: string
+
+  name: string
+
+  // Contact
+  contactName?: string
+  email?: string
+  phone?: string
+  website?: string
+
+  // Ordering terms
+  leadTimeDays?: number // Typical days from order to delivery
+  minimumOrder?: number // Minimum order value (dollars, like material costs)
+  currency: string
+
+  notes?: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateSupplierInput {
+  name: string
+  contactName?: string
+  email?: string
+  phone?: string
+  website?: string
+  leadTimeDays?: number
+  minimumOrder?: number
+  currency?: string
+  notes?: string
+}
+
+export type UpdateSupplierInput = Partial<CreateSupplierInput>
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled'
+
+export interface PurchaseOrder {
+  id: string
+  tenantId: string
+
+  poNumber: string // e.g. PO-LX3K9A-4F2B
+  supplierId: string
+  supplierName: string // Snapshot for historical display
+
+  status: PurchaseOrderStatus
+  items: PurchaseOrderItem[]
+
+  subtotal: number // Sum of item costs (dollars, like material costs)
+  currency: string
+  belowMinimum: boolean // Subtotal is under the supplier's minimum order
+
+  notes?: string
+  expectedAt?: Date // Sent date plus the supplier's lead time
+
+  sentAt?: Date
+  receivedAt?: Date
+  cancelledAt?: Date
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Material line on a purchase order
+ */
+export interface PurchaseOrderItem {
+  materialId: string
+  materialName: string // Snapshot for historical display
+  supplierSku?: string
+  unit: MaterialUnit
+  quantity: number
+  costPerUnit: number // Price paid per unit, becomes the material's cost
+  quantityReceived?: number // Set when the order is received
+}
+
+export interface UpdatePurchaseOrderInput {
+  items?: Array<
+    Pick<PurchaseOrderItem, 'materialId' | 'quantity' | 'costPerUnit'>
+  >
+  notes?: string
+}
+
+/**
+ * Quantities actually delivered - lines left out are received in full
+ */
+export interface ReceivePurchaseOrderInput {
+  items?: Array<{ materialId: string; quantityReceived: number }>
+}
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus
+  supplierId?: string
+}
@@ -0,0 +1,71 @@
+/**
+ * Team - Staff users who sign in to a tenant's admin alongside the owner
+ * The owner is the tenant account itself and has no TeamMember record
+ */
+
+export type TeamRole = 'owner' | 'manager' | 'fulfilment' | 'content'
+
+/** Roles that can be assigned to invited staff */
+export type StaffRole = Exclude<TeamRole, 'owner'>
+
+export type TeamMemberStatus = 'invited' | 'active'
+
+export interface TeamMember {
+  id: string
+  tenantId: string
+
+  email: string // Stored lowercase, unique across all tenants
+  name: string
+  role: StaffRole
+  status: TeamMemberStatus
+
+  // Set when the invitation is accepted
+  passwordHash?: string
+
+  // Invitation (cleared on accept)
+  inviteToken?: string
+  inviteExpiresAt?: Date
+  invitedBy: string // Actor email of whoever sent the invite
+
+  lastLoginAt?: Date
+  acceptedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** TeamMember without credentials, safe to return from API routes */
+export type PublicTeamMember = Omit<TeamMember, 'passwordHash' | 'inviteToken'>
+
+export interface InviteTeamMemberInput {
+  email: string
+  name: string
+  role: StaffRole
+  invitedBy: string
+}
+
+/**
+ * Admin areas that roles are granted access to
+ */
+export type PermissionArea =
+  | 'orders'
+  | 'catalog'
+  | 'content'
+  | 'marketing'
+  | 'finance'
+  | 'settings'
+  | 'billing'
+  | 'team'
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  fulfilment: 'Fulfilment',
+  content: 'Content',
+}
+
+export const TEAM_ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Full access, including billing and team management',
+  manager: 'Everything except billing and team management',
+  fulfilment: 'Orders, customers, shipping and inventory',
+  content: 'Products, website, blog, social and marketing',
+}
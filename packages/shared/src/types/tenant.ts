@@ -1,4 +1,5 @@
 import type { MakerType } from '../constants/makerPresets'
+import type { TenantAccountingSettings } from './accounting'
 import type { TenantPaymentConfig } from './payment'
 import type { ExtractedDesign } from './scanner'
 import type {
@@ -30,6 +31,17 @@ export interface RegionalSettings {
   customCurrency?: string
   customLocale?: string
   customTimezone?: string
+
+  // Buyer-facing price display in other currencies (checkout still settles in `currency`)
+  displayCurrencies?: string[] // ISO 4217 codes buyers can view prices in
+  exchangeRates?: ExchangeRateTable // Locally configured rates, no live FX lookups
+}
+
+// Exchange rates maintained by the seller
+export interface ExchangeRateTable {
+  base: string // ISO 4217 code the rates are relative to
+  rates: Record<string, number> // Units of each currency per 1 unit of base
+  updatedAt?: Date
 }
 
 export interface Tenant {
@@ -96,6 +108,7 @@ export interface Tenant {
   // Shipping configuration
   shippingMethods?: TenantShippingMethod[]
   sendleSettings?: SendleSettings
+  shippingCarriers?: ShippingCarrierSettings // Australia Post and rate tables, quoted alongside Sendle
   freeShippingThreshold?: number // Amount in cents required for free shipping (null = disabled)
 
   // Payment provider configuration (Stripe Connect, PayPal)
@@ -104,9 +117,15 @@ export interface Tenant {
   // Tax/GST configuration (Australian GST)
   taxSettings?: TenantTaxSettings
 
+  // Chart of accounts for Xero/MYOB journal exports
+  accountingSettings?: TenantAccountingSettings
+
   // Notification preferences
   notificationPreferences?: TenantNotificationPreferences
 
+  // Post-delivery review request emails
+  reviewRequestSettings?: ReviewRequestSettings
+
   // Domain onboarding state (AI-generated design suggestions)
   domainOnboarding?: DomainOnboardingState
 
@@ -118,6 +137,9 @@ export interface Tenant {
   updatedAt: Date
 }
 
+/** Tenant without its password hash, safe to return from API routes */
+export type PublicTenant = Omit<Tenant, 'passwordHash'>
+
 // Domain onboarding state for AI-generated design suggestions
 export interface DomainOnboardingState {
   status:
@@ -402,6 +424,47 @@ export interface SendleSettings {
   pickupAddress?: BusinessAddress // Business address for shipping origin
 }
 
+// Australia Post Postage Assessment Calculator (PAC) settings
+export interface AusPostSettings {
+  enabled: boolean
+  apiKey?: string // PAC API key (AUTH-KEY header)
+}
+
+// One weight band within a rate table zone
+export interface ShippingRateBracket {
+  maxWeightGrams: number
+  priceCents: number
+}
+
+// Destinations sharing the same prices. The most specific matching zone wins:
+// postcode ranges, then states, then country only
+export interface ShippingRateZone {
+  id: string
+  name: string
+  countries: string[] // ISO country codes
+  states?: string[] // AU state abbreviations
+  postcodes?: string[] // Exact postcodes or ranges, e.g. "2000-2249"
+  brackets: ShippingRateBracket[] // Sorted by maxWeightGrams
+  extraPerKgCents?: number // Charged per kg (or part) above the last bracket
+}
+
+// Seller-defined weight/zone pricing, e.g. a negotiated courier rate card
+export interface ShippingRateTable {
+  id: string
+  name: string // Service name shown at checkout, e.g. "Standard Post"
+  carrier?: string // Shown as the carrier, defaults to the shop name
+  enabled: boolean
+  estimatedDays: { min: number; max: number }
+  volumetricDivisor?: number // cm³ per kg for cubic weight (e.g. 4000), omit to use dead weight
+  zones: ShippingRateZone[]
+}
+
+// Carriers quoted alongside Sendle at checkout
+export interface ShippingCarrierSettings {
+  auspost?: AusPostSettings
+  rateTables?: ShippingRateTable[]
+}
+
 // Tax/GST settings for Australian sellers
 export interface TenantTaxSettings {
   gstRegistered: boolean // Is the seller GST registered?
@@ -410,6 +473,12 @@ export interface TenantTaxSettings {
   pricesIncludeGst: boolean // Are product prices GST inclusive?
 }
 
+// Emails buyers a signed review link a set number of days after delivery
+export interface ReviewRequestSettings {
+  enabled: boolean
+  delayDays: number // Days after delivery before the email is sent
+}
+
 // Notification preferences for email alerts
 export interface TenantNotificationPreferences {
   orderNotifications: boolean // New order received
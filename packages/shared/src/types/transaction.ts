@@ -1,6 +1,9 @@
 /**
  * Transaction - Financial ledger for all money movement
  * Tracks sales, refunds, payouts, and subscription payments
+ * Gift card entries record issued/redeemed stored value (not cash movement)
+ * Consignment entries record settlements paid directly by galleries and shops
+ * Wholesale entries record trade invoices paid by bank transfer
  */
 
 export type TransactionType =
@@ -9,6 +12,15 @@ export type TransactionType =
   | 'payout'
   | 'fee'
   | 'subscription'
+  | 'gift_card'
+  | 'consignment'
+  | 'wholesale'
+// Sales paid outside Stripe, reported alongside 'sale' in BAS and P&L
+export const OFF_STRIPE_SALE_TYPES: TransactionType[] = [
+  'consignment',
+  'wholesale',
+]
+
 export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'reversed'
 
 export interface Transaction {
@@ -22,6 +34,7 @@ export interface Transaction {
   grossAmount: number // Total charged to customer (GST inclusive if applicable)
   stripeFee: number // Stripe's processing fee (~2.9% + 30c)
   platformFee: number // MadeBuy's cut (0 for zero-fee model)
+  commissionAmount?: number // Consignee's commission (consignment settlements)
   netAmount: number // What seller receives (grossAmount - fees)
 
   // GST/Tax breakdown (for GST-registered sellers)
@@ -57,6 +70,7 @@ export interface CreateTransactionInput {
   grossAmount: number
   stripeFee: number
   platformFee: number
+  commissionAmount?: number
   netAmount: number
   gstAmount?: number
   gstRate?: number
@@ -199,13 +213,23 @@ export interface QuarterlyGSTReport {
   salesGross: number // Total gross sales (in cents)
   salesNet: number // Total net sales after GST (in cents)
 
-  // GST Paid (on expenses/refunds)
+  // GST given back on refunds
   gstPaid: number // GST paid on refunds (in cents)
   refundsCount: number // Number of refunds
   refundsTotal: number // Total refund amount (in cents)
 
+  // GST credits on purchases (from the expenses ledger)
+  gstOnPurchases: number // Claimable GST on expenses (in cents)
+  purchasesCount: number // Number of expenses in period
+  purchasesTotal: number // Total expenses including GST (in cents)
+
+  // BAS labels
+  basG1: number // G1 Total sales incl. GST, less refunds (in cents)
+  bas1A: number // 1A GST on sales, less GST on refunds (in cents)
+  bas1B: number // 1B GST on purchases (in cents)
+
   // Net GST Position
-  netGst: number // gstCollected - gstPaid (what to remit to ATO)
+  netGst: number // bas1A - bas1B (what to remit to ATO, negative is a refund)
 
   // Additional context
   currency: string // Usually 'AUD'
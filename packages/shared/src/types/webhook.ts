@@ -0,0 +1,99 @@
+/**
+ * Webhook - Tenant-registered endpoints that receive signed event payloads
+ * Each send is recorded as a WebhookDelivery so it can be inspected and replayed
+ */
+
+export type WebhookEventType =
+  | 'order.paid'
+  | 'order.shipped'
+  | 'piece.stock_low'
+  | 'review.created'
+  | 'booking.confirmed'
+
+export interface WebhookEndpoint {
+  id: string
+  tenantId: string
+
+  url: string // HTTPS only
+  description?: string
+  events: WebhookEventType[]
+  secret: string // HMAC signing secret (whsec_...)
+  isActive: boolean
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** WebhookEndpoint without its signing secret, safe to list in the admin */
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, 'secret'>
+
+export interface CreateWebhookEndpointInput {
+  url: string
+  description?: string
+  events: WebhookEventType[]
+}
+
+export interface UpdateWebhookEndpointInput {
+  url?: string
+  description?: string
+  events?: WebhookEventType[]
+  isActive?: boolean
+}
+
+/**
+ * Body POSTed to the endpoint
+ * The id is stable across retries and replays so receivers can de-duplicate
+ */
+export interface WebhookPayload {
+  id: string // evt_...
+  type: WebhookEventType
+  createdAt: string // ISO 8601
+  tenantId: string
+  data: Record<string, unknown>
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  tenantId: string
+  endpointId: string
+  url: string // Snapshot - the endpoint URL may change later
+
+  eventId: string
+  eventType: WebhookEventType
+  payload: WebhookPayload
+
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus?: number
+  error?: string
+  durationMs?: number
+
+  replayOf?: string // Delivery ID this replays
+
+  createdAt: Date
+  completedAt?: Date
+}
+
+export interface WebhookDeliveryFilters {
+  endpointId?: string
+  status?: WebhookDeliveryStatus
+  limit?: number
+}
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'order.paid',
+  'order.shipped',
+  'piece.stock_low',
+  'review.created',
+  'booking.confirmed',
+]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'order.paid': 'Order paid',
+  'order.shipped': 'Order shipped',
+  'piece.stock_low': 'Product stock low',
+  'review.created': 'Review submitted',
+  'booking.confirmed': 'Workshop booking confirmed',
+}
@@ -0,0 +1,83 @@
+/**
+ * Wholesale - Retailers buying pieces at trade prices on invoice
+ *
+ * Wholesale orders are regular orders (paymentMethod 'bank_transfer') with a
+ * link to the buyer and their payment terms. Trade prices are in cents; the
+ * orders themselves are in major units like every other order.
+ */
+
+import type { Address } from './order'
+
+export interface WholesaleBuyer {
+  id: string
+  tenantId: string
+
+  businessName: string
+  contactName?: string
+  email: string
+  phone?: string
+  abn?: string
+  billingAddress?: Address
+
+  paymentTermsDays: number // Invoice due this many days after the order
+  discountPercent: number // Off retail for pieces without a listed price
+  prices: WholesalePrice[] // Buyer-specific price list
+
+  notes?: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WholesalePrice {
+  pieceId: string
+  price: number
+}
+
+export interface CreateWholesaleBuyerInput {
+  businessName: string
+  contactName?: string
+  email: string
+  phone?: string
+  abn?: string
+  billingAddress?: Address
+  paymentTermsDays?: number
+  discountPercent?: number
+  prices?: WholesalePrice[]
+  notes?: string
+}
+
+export type UpdateWholesaleBuyerInput = Partial<CreateWholesaleBuyerInput>
+
+export interface CreateWholesaleOrderInput {
+  buyerId: string
+  items: Array<{ pieceId: string; quantity: number }>
+  shippingAddress?: Address // Defaults to the buyer's billing address
+  shipping?: number // cents
+  notes?: string
+}
+
+/**
+ * Link from an order to the wholesale buyer it was invoiced to
+ */
+export interface OrderWholesaleLink {
+  buyerId: string
+  businessName: string // Snapshot for the invoice
+  abn?: string
+  paymentTermsDays: number
+  dueDate: Date
+}
+
+/**
+ * Trade price for a piece in cents - the buyer's listed price, or retail
+ * (in cents) less their discount
+ */
+export function getWholesalePrice(
+  buyer: Pick<WholesaleBuyer, 'prices' | 'discountPercent'>,
+  pieceId: string,
+  retailPrice: number,
+): number {
+  const listed = buyer.prices.find((p) => p.pieceId === pieceId)
+  if (listed) return listed.price
+  return Math.round(retailPrice * (1 - buyer.discountPercent / 100))
+}
@@ -2,6 +2,13 @@
  * Workshop - Service/class booking system for makers
  */
 
+// Reminder emails go out this many hours before a slot starts
+export const WORKSHOP_REMINDER_HOURS = 24
+
+// Under-filled slots are cancelled this many hours before start unless the
+// workshop sets minCapacityCutoffHours
+export const DEFAULT_MIN_CAPACITY_CUTOFF_HOURS = 48
+
 export interface Workshop {
   id: string
   tenantId: string
@@ -20,6 +27,7 @@ export interface Workshop {
   durationMinutes: number // Total duration in minutes
   capacity: number // Max attendees per session
   minCapacity?: number // Minimum attendees required to run (optional)
+  minCapacityCutoffHours?: number // Hours before start to cancel an under-filled slot (default 48)
 
   // Location
   locationType: 'physical' | 'virtual' | 'hybrid'
@@ -40,6 +48,7 @@ export interface Workshop {
 
   // Schedule
   slots: WorkshopSlot[] // Available time slots
+  slotSeries?: WorkshopSlotSeries[] // Recurrence rules that generated slots
 
   // Status
   status: 'draft' | 'published' | 'archived'
@@ -79,6 +88,8 @@ export interface WorkshopSlot {
 
   // Availability
   status: 'available' | 'full' | 'cancelled'
+  cancelledAt?: Date
+  cancellationReason?: string
 
   // Pricing override (optional)
   priceOverride?: number // Override base workshop price for special dates
@@ -86,6 +97,41 @@ export interface WorkshopSlot {
   // Notes
   notes?: string // Internal notes about this slot
 
+  // Recurrence
+  seriesId?: string // Series that generated this slot
+  seriesDate?: string // Local "YYYY-MM-DD" occurrence within the series
+  isSeriesException?: boolean // Edited individually - series edits skip it
+
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * WorkshopSlotSeries - Recurrence rule that bulk-generates slots
+ * e.g. every Saturday 10am for 12 weeks, skipping public holidays
+ */
+export interface WorkshopSlotSeries {
+  id: string
+
+  // Pattern (local time in `timezone`)
+  daysOfWeek: number[] // 0 = Sunday ... 6 = Saturday
+  intervalWeeks: number // 1 = weekly, 2 = fortnightly
+  startTime: string // "HH:mm"
+  startDate: string // First eligible date, "YYYY-MM-DD"
+  weeks?: number // Run for this many weeks...
+  endDate?: string // ...or until this date (inclusive)
+
+  // Snapshot of the tenant's regional settings when the series was created
+  timezone: string // IANA timezone
+  countryCode: string // Public holiday calendar
+
+  skipPublicHolidays: boolean
+  excludedDates: string[] // Dates whose slot was deleted - never regenerated
+
+  // Applied to every generated slot
+  capacity?: number
+  priceOverride?: number
+
   createdAt: Date
   updatedAt: Date
 }
@@ -157,6 +203,30 @@ export interface WorkshopBooking {
   cancelledAt?: Date
 }
 
+/**
+ * WorkshopWaitlistEntry - Customer waiting for a seat on a full slot
+ * Entries are promoted to a pending booking, oldest first, when seats free up.
+ */
+export interface WorkshopWaitlistEntry {
+  id: string
+  tenantId: string
+  workshopId: string
+  slotId: string
+
+  customerEmail: string
+  customerName: string
+  customerPhone?: string
+  numberOfAttendees: number
+
+  status: 'waiting' | 'promoted' | 'cancelled'
+  bookingId?: string // Booking created on promotion
+  promotedAt?: Date
+  notifiedAt?: Date // Promotion email sent
+
+  createdAt: Date
+  updatedAt: Date
+}
+
 /**
  * CreateWorkshopInput
  */
@@ -169,6 +239,7 @@ export interface CreateWorkshopInput {
   durationMinutes: number
   capacity: number
   minCapacity?: number
+  minCapacityCutoffHours?: number
   locationType: 'physical' | 'virtual' | 'hybrid'
   location?: Workshop['location']
   virtualMeetingUrl?: string
@@ -194,6 +265,7 @@ export interface UpdateWorkshopInput {
   durationMinutes?: number
   capacity?: number
   minCapacity?: number
+  minCapacityCutoffHours?: number
   locationType?: 'physical' | 'virtual' | 'hybrid'
   location?: Workshop['location']
   virtualMeetingUrl?: string
@@ -234,6 +306,26 @@ export interface UpdateSlotInput {
   status?: WorkshopSlot['status']
 }
 
+/**
+ * CreateSlotSeriesInput
+ */
+export interface CreateSlotSeriesInput {
+  daysOfWeek: number[]
+  intervalWeeks?: number
+  startTime: string
+  startDate: string
+  weeks?: number
+  endDate?: string
+  skipPublicHolidays?: boolean
+  capacity?: number
+  priceOverride?: number
+}
+
+/**
+ * UpdateSlotSeriesInput
+ */
+export type UpdateSlotSeriesInput = Partial<CreateSlotSeriesInput>
+
 /**
  * CreateBookingInput
  */
@@ -248,6 +340,18 @@ export interface CreateBookingInput {
   customerNotes?: string
 }
 
+/**
+ * CreateWaitlistEntryInput
+ */
+export interface CreateWaitlistEntryInput {
+  workshopId: string
+  slotId: string
+  customerEmail: string
+  customerName: string
+  customerPhone?: string
+  numberOfAttendees: number
+}
+
 /**
  * UpdateBookingInput
  */
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+
+/**
+ * Public API validation schemas
+ * Used by admin API key settings and the /api/v1 routes
+ */
+
+export const ApiKeyScopeSchema = z.enum([
+  'pieces:read',
+  'pieces:write',
+  'orders:read',
+  'orders:write',
+  'customers:read',
+  'inventory:read',
+  'inventory:write',
+])
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(ApiKeyScopeSchema)
+    .min(1, 'Select at least one scope')
+    .transform((scopes) => Array.from(new Set(scopes))),
+})
+
+export const ApiOrderUpdateSchema = z
+  .object({
+    status: z
+      .enum(['confirmed', 'processing', 'shipped', 'delivered', 'cancelled'])
+      .optional(),
+    trackingNumber: z.string().trim().min(1).max(100).optional(),
+    carrier: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Provide status, trackingNumber or carrier',
+  })
+
+// Absolute stock levels - omit variantId to set the piece's own stock
+export const ApiInventoryUpdateSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        pieceId: z.string().min(1),
+        variantId: z.string().min(1).optional(),
+        stock: z.number().int().min(0).max(1_000_000),
+      }),
+    )
+    .min(1)
+    .max(100),
+})
+
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeySchema>
+export type ApiOrderUpdateRequest = z.infer<typeof ApiOrderUpdateSchema>
+export type ApiInventoryUpdateRequest = z.infer<typeof ApiInventoryUpdateSchema>
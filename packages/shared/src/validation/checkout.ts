@@ -53,6 +53,10 @@ export const CheckoutRequestSchema = z.object({
   customerInfo: CustomerInfoSchema,
   shippingAddress: ShippingAddressSchema,
   notes: z.string().max(500).optional(),
+  // Buyer's preferred display currency (informational - checkout settles in the tenant currency)
+  displayCurrency: z.string().length(3).optional(),
+  // Gift card to redeem against the order (may partially cover it)
+  giftCardCode: z.string().trim().min(4).max(32).optional(),
   successUrl: z.string().url('Invalid success URL'),
   cancelUrl: z.string().url('Invalid cancel URL'),
 })
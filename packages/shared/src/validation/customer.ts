@@ -0,0 +1,27 @@
+import { z } from 'zod'
+
+/**
+ * Customer account validation schemas
+ * Used by the storefront account pages
+ */
+
+// Saved address (matches CustomerAddress, minus the generated id)
+export const CustomerAddressSchema = z.object({
+  label: z.string().max(50).optional(),
+  line1: z.string().min(1, 'Address line 1 is required').max(200),
+  line2: z.string().max(200).optional(),
+  city: z.string().min(1, 'City is required').max(100),
+  state: z.string().min(1, 'State is required').max(100),
+  postcode: z.string().min(1, 'Postcode is required').max(20),
+  country: z
+    .string()
+    .length(2, 'Country must be 2-letter ISO code')
+    .default('AU'),
+})
+
+export const UpdateCustomerAddressSchema = CustomerAddressSchema.partial()
+
+export type CustomerAddressInput = z.infer<typeof CustomerAddressSchema>
+export type UpdateCustomerAddressInput = z.infer<
+  typeof UpdateCustomerAddressSchema
+>
@@ -3,6 +3,18 @@
  * Uses Zod for runtime validation of API requests
  */
 
+export type {
+  ApiInventoryUpdateRequest,
+  ApiOrderUpdateRequest,
+  CreateApiKeyRequest,
+} from './apiKey'
+// API key / public API validation
+export {
+  ApiInventoryUpdateSchema,
+  ApiKeyScopeSchema,
+  ApiOrderUpdateSchema,
+  CreateApiKeySchema,
+} from './apiKey'
 export type {
   CartItem,
   CheckoutRequest,
@@ -19,7 +31,45 @@ export {
   safeValidateCheckoutRequest,
   validateCheckoutRequest,
 } from './checkout'
+export type {
+  CustomerAddressInput,
+  UpdateCustomerAddressInput,
+} from './customer'
+// Customer account validation
+export {
+  CustomerAddressSchema,
+  UpdateCustomerAddressSchema,
+} from './customer'
 // Password validation
 export * from './password'
 // Personalization validation
 export * from './personalization'
+export type { CreateRefundRequest } from './refund'
+// Refund validation
+export { CreateRefundSchema, RefundLineSchema } from './refund'
+export type { UpdateShippingCarriersRequest } from './shipping'
+// Shipping carrier validation
+export {
+  ShippingRateTableSchema,
+  UpdateShippingCarriersSchema,
+} from './shipping'
+export type {
+  InviteTeamMemberRequest,
+  UpdateTeamMemberRequest,
+} from './team'
+// Team validation
+export {
+  InviteTeamMemberSchema,
+  StaffRoleSchema,
+  UpdateTeamMemberSchema,
+} from './team'
+export type {
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+} from './webhook'
+// Webhook validation
+export {
+  CreateWebhookEndpointSchema,
+  UpdateWebhookEndpointSchema,
+  WebhookEventTypeSchema,
+} from './webhook'
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+/**
+ * Refund validation schemas
+ * Used by the admin order refund route
+ */
+
+export const RefundLineSchema = z.object({
+  pieceId: z.string().min(1),
+  variantId: z.string().min(1).optional(),
+  quantity: z.number().int().min(1),
+})
+
+export const CreateRefundSchema = z.object({
+  items: z.array(RefundLineSchema).max(100).optional(),
+  amount: z.number().int().positive().optional(), // cents
+  includeShipping: z.boolean().optional(),
+  reason: z.string().trim().max(500).optional(),
+  restock: z.boolean().optional(),
+  returnId: z.string().min(1).optional(),
+})
+
+export type CreateRefundRequest = z.infer<typeof CreateRefundSchema>
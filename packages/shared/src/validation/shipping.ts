@@ -0,0 +1,73 @@
+import { z } from 'zod'
+
+/**
+ * Shipping carrier validation schemas
+ * Used by the admin shipping settings page (Australia Post and rate tables)
+ */
+
+const PostcodeRuleSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}(-\d{4})?$/, 'Use a postcode or range, e.g. 2000-2249')
+  .refine(
+    (rule) => {
+      const [from, to] = rule.split('-')
+      return !to || Number(from) <= Number(to)
+    },
+    { message: 'Postcode range must be ascending' },
+  )
+
+const ShippingRateBracketSchema = z.object({
+  maxWeightGrams: z.number().int().positive().max(100_000),
+  priceCents: z.number().int().min(0).max(1_000_000),
+})
+
+const ShippingRateZoneSchema = z.object({
+  id: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1, 'Zone name is required').max(100),
+  countries: z
+    .array(z.string().trim().toUpperCase().length(2))
+    .min(1, 'Select at least one country'),
+  states: z.array(z.string().trim().toUpperCase().max(3)).optional(),
+  postcodes: z.array(PostcodeRuleSchema).max(200).optional(),
+  brackets: z
+    .array(ShippingRateBracketSchema)
+    .min(1, 'Add at least one weight band')
+    .max(50)
+    .transform((brackets) =>
+      [...brackets].sort((a, b) => a.maxWeightGrams - b.maxWeightGrams),
+    ),
+  extraPerKgCents: z.number().int().min(0).max(100_000).optional(),
+})
+
+export const ShippingRateTableSchema = z
+  .object({
+    id: z.string().trim().min(1).max(50),
+    name: z.string().trim().min(1, 'Service name is required').max(100),
+    carrier: z.string().trim().max(100).optional(),
+    enabled: z.boolean(),
+    estimatedDays: z.object({
+      min: z.number().int().min(0).max(90),
+      max: z.number().int().min(0).max(90),
+    }),
+    volumetricDivisor: z.number().int().min(1000).max(10_000).optional(),
+    zones: z.array(ShippingRateZoneSchema).min(1).max(50),
+  })
+  .refine((table) => table.estimatedDays.min <= table.estimatedDays.max, {
+    message: 'Minimum delivery days must not exceed maximum',
+    path: ['estimatedDays'],
+  })
+
+export const UpdateShippingCarriersSchema = z.object({
+  auspost: z
+    .object({
+      enabled: z.boolean(),
+      apiKey: z.string().trim().max(200).optional(), // Omit to keep the saved key
+    })
+    .optional(),
+  rateTables: z.array(ShippingRateTableSchema).max(20).optional(),
+})
+
+export type UpdateShippingCarriersRequest = z.infer<
+  typeof UpdateShippingCarriersSchema
+>
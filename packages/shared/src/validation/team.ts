@@ -0,0 +1,22 @@
+import { z } from 'zod'
+
+/**
+ * Team validation schemas
+ * Used by the admin team settings page
+ */
+
+// Roles that can be given to staff (owner is the tenant account itself)
+export const StaffRoleSchema = z.enum(['manager', 'fulfilment', 'content'])
+
+export const InviteTeamMemberSchema = z.object({
+  email: z.string().email('Invalid email address').max(254),
+  name: z.string().min(1, 'Name is required').max(100),
+  role: StaffRoleSchema,
+})
+
+export const UpdateTeamMemberSchema = z.object({
+  role: StaffRoleSchema,
+})
+
+export type InviteTeamMemberRequest = z.infer<typeof InviteTeamMemberSchema>
+export type UpdateTeamMemberRequest = z.infer<typeof UpdateTeamMemberSchema>
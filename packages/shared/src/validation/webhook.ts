@@ -0,0 +1,70 @@
+import { isIP } from 'node:net'
+import { z } from 'zod'
+import { isPublicAddress } from '../services/webhook-delivery'
+
+/**
+ * Webhook endpoint validation schemas
+ * Used by the admin webhook settings page
+ */
+
+export const WebhookEventTypeSchema = z.enum([
+  'order.paid',
+  'order.shipped',
+  'piece.stock_low',
+  'review.created',
+  'booking.confirmed',
+])
+
+// Private and loopback hosts - endpoints must be reachable on the public internet.
+// This only catches obvious cases when the endpoint is saved; every delivery
+// resolves the host and checks the addresses it actually connects to.
+const BLOCKED_HOST_PATTERN =
+  /^(localhost|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.|0\.0\.0\.0|\[?::1\]?$)/i
+
+function isBlockedHost(hostname: string): boolean {
+  if (BLOCKED_HOST_PATTERN.test(hostname) || /\.localhost$/i.test(hostname)) {
+    return true
+  }
+  // IP literals, including IPv4-mapped IPv6 such as [::ffff:7f00:1]
+  const address = hostname.replace(/^\[|\]$/g, '')
+  return isIP(address) !== 0 && !isPublicAddress(address)
+}
+
+const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .url('Invalid URL')
+  .max(2048)
+  .refine((url) => url.startsWith('https://'), {
+    message: 'Webhook URLs must use HTTPS',
+  })
+  .refine((url) => !isBlockedHost(new URL(url).hostname), {
+    message: 'Webhook URLs must be publicly reachable',
+  })
+
+export const CreateWebhookEndpointSchema = z.object({
+  url: WebhookUrlSchema,
+  description: z.string().trim().max(200).optional(),
+  events: z
+    .array(WebhookEventTypeSchema)
+    .min(1, 'Select at least one event')
+    .transform((events) => Array.from(new Set(events))),
+})
+
+export const UpdateWebhookEndpointSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  description: z.string().trim().max(200).optional(),
+  events: z
+    .array(WebhookEventTypeSchema)
+    .min(1, 'Select at least one event')
+    .transform((events) => Array.from(new Set(events)))
+    .optional(),
+  isActive: z.boolean().optional(),
+})
+
+export type CreateWebhookEndpointRequest = z.infer<
+  typeof CreateWebhookEndpointSchema
+>
+export type UpdateWebhookEndpointRequest = z.infer<
+  typeof UpdateWebhookEndpointSchema
+>
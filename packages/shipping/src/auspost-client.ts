@@ -0,0 +1,168 @@
+/**
+ * Australia Post Postage Assessment Calculator (PAC) client
+ *
+ * PAC returns retail parcel prices for domestic and international services.
+ * It only quotes - labels still come from Sendle or the seller's own account.
+ *
+ * API Documentation: https://developers.auspost.com.au/apis/pac/getting-started
+ */
+
+import { CarrierError, type CarrierProvider } from './carrier'
+
+const AUSPOST_PAC_URL = 'https://digitalapi.auspost.com.au/postage/parcel'
+
+export interface AusPostConfig {
+  apiKey: string
+}
+
+export interface AusPostService {
+  code: string // e.g. "AUS_PARCEL_REGULAR"
+  name: string // e.g. "Parcel Post"
+  price: string // AUD dollars, e.g. "13.95"
+  max_extra_cover?: number
+}
+
+export interface AusPostDomesticServiceRequest {
+  fromPostcode: string
+  toPostcode: string
+  weightKg: number
+  lengthCm: number
+  widthCm: number
+  heightCm: number
+}
+
+export interface AusPostInternationalServiceRequest {
+  countryCode: string
+  weightKg: number
+}
+
+// PAC doesn't include delivery times in service lists - typical ranges by service
+const AUSPOST_ESTIMATED_DAYS: Array<{
+  match: RegExp
+  days: { min: number; max: number }
+}> = [
+  { match: /^AUS_PARCEL_EXPRESS/, days: { min: 1, max: 3 } },
+  { match: /^AUS_PARCEL_REGULAR/, days: { min: 2, max: 6 } },
+  { match: /^INT_PARCEL_COR/, days: { min: 2, max: 5 } },
+  { match: /^INT_PARCEL_EXP/, days: { min: 3, max: 7 } },
+  { match: /^INT_PARCEL_STD/, days: { min: 6, max: 12 } },
+  { match: /^INT_PARCEL_AIR/, days: { min: 10, max: 20 } },
+]
+
+// Sea mail takes months - not a sensible checkout option for handmade goods
+const EXCLUDED_SERVICE_PATTERN = /^INT_PARCEL_SEA/
+
+export class AusPostClient {
+  constructor(private readonly config: AusPostConfig) {}
+
+  /**
+   * List domestic parcel services and prices between two postcodes
+   */
+  async getDomesticServices(
+    request: AusPostDomesticServiceRequest,
+  ): Promise<AusPostService[]> {
+    const params = new URLSearchParams({
+      from_postcode: request.fromPostcode,
+      to_postcode: request.toPostcode,
+      length: String(request.lengthCm),
+      width: String(request.widthCm),
+      height: String(request.heightCm),
+      weight: String(request.weightKg),
+    })
+    return this.getServices(`/domestic/service.json?${params}`)
+  }
+
+  /**
+   * List international parcel services and prices to a country
+   */
+  async getInternationalServices(
+    request: AusPostInternationalServiceRequest,
+  ): Promise<AusPostService[]> {
+    const params = new URLSearchParams({
+      country_code: request.countryCode,
+      weight: String(request.weightKg),
+    })
+    return this.getServices(`/international/service.json?${params}`)
+  }
+
+  private async getServices(path: string): Promise<AusPostService[]> {
+    const response = await fetch(`${AUSPOST_PAC_URL}${path}`, {
+      method: 'GET',
+      headers: {
+        'AUTH-KEY': this.config.apiKey,
+        Accept: 'application/json',
+      },
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok || data.error) {
+      throw new CarrierError(
+        'auspost',
+        `Australia Post quote failed: ${data.error?.errorMessage || response.statusText}`,
+        data,
+      )
+    }
+
+    // PAC returns a single object rather than an array when there's one service
+    const services = data.services?.service
+    if (!services) return []
+    return Array.isArray(services) ? services : [services]
+  }
+}
+
+/**
+ * Create an Australia Post PAC client
+ */
+export function createAusPostClient(config: AusPostConfig): AusPostClient {
+  return new AusPostClient(config)
+}
+
+/**
+ * Quote Australia Post through the carrier interface
+ */
+export function createAusPostProvider(client: AusPostClient): CarrierProvider {
+  return {
+    id: 'auspost',
+    name: 'Australia Post',
+    async getQuotes({ origin, destination, parcel }) {
+      const weightKg = Math.max(parcel.weightGrams, 1) / 1000
+      const services =
+        destination.country === 'AU'
+          ? await client.getDomesticServices({
+              fromPostcode: origin.postcode,
+              toPostcode: destination.postcode,
+              weightKg,
+              lengthCm: parcel.lengthCm,
+              widthCm: parcel.widthCm,
+              heightCm: parcel.heightCm,
+            })
+          : await client.getInternationalServices({
+              countryCode: destination.country,
+              weightKg,
+            })
+
+      return services
+        .filter((service) => !EXCLUDED_SERVICE_PATTERN.test(service.code))
+        .map((service) => ({
+          providerId: 'auspost',
+          carrier: 'Australia Post',
+          service: service.name,
+          priceCents: Math.round(Number.parseFloat(service.price) * 100),
+          currency: 'AUD',
+          estimatedDays: getAusPostEstimatedDays(service.code),
+          features: ['Tracking included'],
+        }))
+        .filter((quote) => Number.isFinite(quote.priceCents))
+    },
+  }
+}
+
+function getAusPostEstimatedDays(code: string): { min: number; max: number } {
+  return (
+    AUSPOST_ESTIMATED_DAYS.find((entry) => entry.match.test(code))?.days ?? {
+      min: 2,
+      max: 10,
+    }
+  )
+}
@@ -0,0 +1,112 @@
+/**
+ * Carrier abstraction
+ *
+ * Every shipping provider (Sendle, Australia Post, seller rate tables) quotes
+ * through the same interface so checkout can merge their options.
+ */
+
+export interface CarrierLocation {
+  postcode: string
+  suburb: string
+  state: string
+  country: string // ISO country code
+}
+
+export interface CarrierParcel {
+  weightGrams: number
+  lengthCm: number
+  widthCm: number
+  heightCm: number
+}
+
+export interface CarrierQuoteRequest {
+  origin: CarrierLocation
+  destination: CarrierLocation
+  parcel: CarrierParcel
+}
+
+export interface CarrierQuote {
+  providerId: string
+  carrier: string // e.g. "Sendle", "Australia Post"
+  service: string // e.g. "Parcel Post"
+  priceCents: number // Minor units of `currency`
+  currency: string // ISO currency code, e.g. "AUD"
+  estimatedDays: { min: number; max: number }
+  features?: string[]
+}
+
+export interface CarrierProvider {
+  id: string
+  name: string
+  getQuotes(request: CarrierQuoteRequest): Promise<CarrierQuote[]>
+}
+
+export class CarrierError extends Error {
+  constructor(
+    public readonly providerId: string,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message)
+    this.name = 'CarrierError'
+  }
+}
+
+export interface MergedCarrierQuotes {
+  quotes: CarrierQuote[] // Cheapest first
+  cheapest?: CarrierQuote
+  fastest?: CarrierQuote
+  errors: CarrierError[]
+}
+
+/**
+ * Quote every provider in parallel and merge the results
+ * A failing provider is reported in `errors` without hiding the others.
+ */
+export async function getCarrierQuotes(
+  providers: CarrierProvider[],
+  request: CarrierQuoteRequest,
+): Promise<MergedCarrierQuotes> {
+  const settled = await Promise.allSettled(
+    providers.map((provider) => provider.getQuotes(request)),
+  )
+
+  const quotes: CarrierQuote[] = []
+  const errors: CarrierError[] = []
+
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      quotes.push(...result.value)
+      return
+    }
+    const provider = providers[index]
+    errors.push(
+      result.reason instanceof CarrierError
+        ? result.reason
+        : new CarrierError(
+            provider.id,
+            result.reason instanceof Error
+              ? result.reason.message
+              : `${provider.name} quote failed`,
+            result.reason,
+          ),
+    )
+  })
+
+  quotes.sort(
+    (a, b) =>
+      a.priceCents - b.priceCents || a.estimatedDays.max - b.estimatedDays.max,
+  )
+
+  return {
+    quotes,
+    cheapest: quotes[0],
+    fastest: [...quotes].sort(
+      (a, b) =>
+        a.estimatedDays.max - b.estimatedDays.max ||
+        a.estimatedDays.min - b.estimatedDays.min ||
+        a.priceCents - b.priceCents,
+    )[0],
+    errors,
+  }
+}
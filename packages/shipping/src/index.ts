@@ -13,3 +13,33 @@ export {
   type SendleQuoteResponse,
   type SendleTrackingEvent,
 } from './sendle-client'
+
+// Carrier abstraction - Sendle, Australia Post and seller rate tables
+export {
+  type CarrierLocation,
+  type CarrierParcel,
+  type CarrierProvider,
+  type CarrierQuote,
+  type CarrierQuoteRequest,
+  CarrierError,
+  getCarrierQuotes,
+  type MergedCarrierQuotes,
+} from './carrier'
+export { createSendleProvider } from './sendle-provider'
+export {
+  AusPostClient,
+  type AusPostConfig,
+  type AusPostDomesticServiceRequest,
+  type AusPostInternationalServiceRequest,
+  type AusPostService,
+  createAusPostClient,
+  createAusPostProvider,
+} from './auspost-client'
+export {
+  createRateTableProvider,
+  findRateTableZone,
+  getChargeableWeightGrams,
+  getRateTablePriceCents,
+  type RateTable,
+  type RateTableZone,
+} from './rate-table'
@@ -0,0 +1,154 @@
+/**
+ * Seller rate tables
+ *
+ * Prices a parcel from a seller-defined weight/zone table, e.g. a courier
+ * rate card or flat regional pricing, without calling any carrier API.
+ */
+
+import type { CarrierLocation, CarrierParcel, CarrierProvider } from './carrier'
+
+// Mirrors the tenant's RateTable settings in @madebuy/shared
+export interface RateTableZone {
+  countries: string[] // ISO country codes
+  states?: string[]
+  postcodes?: string[] // Exact postcodes or ranges, e.g. "2000-2249"
+  brackets: Array<{ maxWeightGrams: number; priceCents: number }>
+  extraPerKgCents?: number
+}
+
+export interface RateTable {
+  id: string
+  name: string
+  carrier?: string
+  enabled: boolean
+  estimatedDays: { min: number; max: number }
+  volumetricDivisor?: number // cm³ per kg
+  zones: RateTableZone[]
+}
+
+/**
+ * Find the zone covering a destination
+ * Postcode rules beat state rules, which beat a country-only zone.
+ */
+export function findRateTableZone(
+  table: RateTable,
+  destination: CarrierLocation,
+): RateTableZone | undefined {
+  const country = destination.country.toUpperCase()
+  const state = destination.state.toUpperCase()
+  const postcode = Number.parseInt(destination.postcode, 10)
+
+  let best: { zone: RateTableZone; specificity: number } | undefined
+
+  for (const zone of table.zones) {
+    if (!zone.countries.includes(country)) continue
+
+    let specificity = 0
+    if (zone.postcodes?.length) {
+      if (!zone.postcodes.some((rule) => matchesPostcode(rule, postcode))) {
+        continue
+      }
+      specificity = 2
+    } else if (zone.states?.length) {
+      if (!zone.states.includes(state)) continue
+      specificity = 1
+    }
+
+    if (!best || specificity > best.specificity) {
+      best = { zone, specificity }
+    }
+  }
+
+  return best?.zone
+}
+
+function matchesPostcode(rule: string, postcode: number): boolean {
+  if (Number.isNaN(postcode)) return false
+  const [from, to] = rule.split('-').map((part) => Number.parseInt(part, 10))
+  return to === undefined
+    ? postcode === from
+    : postcode >= from && postcode <= to
+}
+
+/**
+ * Weight the table charges on - the greater of dead and cubic weight
+ */
+export function getChargeableWeightGrams(
+  table: RateTable,
+  parcel: CarrierParcel,
+): number {
+  if (!table.volumetricDivisor) {
+    return parcel.weightGrams
+  }
+  const cubicGrams = Math.ceil(
+    ((parcel.lengthCm * parcel.widthCm * parcel.heightCm) /
+      table.volumetricDivisor) *
+      1000,
+  )
+  return Math.max(parcel.weightGrams, cubicGrams)
+}
+
+/**
+ * Price a weight within a zone, or null if it's too heavy for the zone
+ */
+export function getRateTablePriceCents(
+  zone: RateTableZone,
+  weightGrams: number,
+): number | null {
+  const brackets = [...zone.brackets].sort(
+    (a, b) => a.maxWeightGrams - b.maxWeightGrams,
+  )
+  const bracket = brackets.find((b) => weightGrams <= b.maxWeightGrams)
+  if (bracket) {
+    return bracket.priceCents
+  }
+
+  const last = brackets[brackets.length - 1]
+  if (!last || zone.extraPerKgCents === undefined) {
+    return null
+  }
+  const extraKg = Math.ceil((weightGrams - last.maxWeightGrams) / 1000)
+  return last.priceCents + extraKg * zone.extraPerKgCents
+}
+
+/**
+ * Quote a seller rate table through the carrier interface
+ * Destinations outside every zone (or too heavy for it) get no quote.
+ * Sellers enter prices in their shop currency, so quotes are in `currency`.
+ */
+export function createRateTableProvider(
+  table: RateTable,
+  shopName: string,
+  currency: string,
+): CarrierProvider {
+  const id = `rate-table:${table.id}`
+  const carrier = table.carrier || shopName
+
+  return {
+    id,
+    name: table.name,
+    async getQuotes({ destination, parcel }) {
+      if (!table.enabled) return []
+
+      const zone = findRateTableZone(table, destination)
+      if (!zone) return []
+
+      const priceCents = getRateTablePriceCents(
+        zone,
+        getChargeableWeightGrams(table, parcel),
+      )
+      if (priceCents === null) return []
+
+      return [
+        {
+          providerId: id,
+          carrier,
+          service: table.name,
+          priceCents,
+          currency,
+          estimatedDays: table.estimatedDays,
+        },
+      ]
+    },
+  }
+}
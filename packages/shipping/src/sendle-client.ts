@@ -99,10 +99,11 @@ export interface SendleOrder {
 }
 
 export interface SendleTrackingEvent {
-  timestamp: string
-  event_type: string
+  scan_time: string // ISO timestamp (UTC)
+  event_type: string // e.g. "Pickup", "In Transit", "Out for Delivery", "Delivered"
   description: string
   location?: string
+  reason?: string // Set on exceptions such as "Delivery Attempted"
 }
 
 export class SendleClient {
@@ -271,13 +272,16 @@ export class SendleClient {
   }
 
   /**
-   * Get tracking events for an order
+   * Get tracking events for a parcel by its Sendle reference, oldest first
    */
-  async getTracking(orderId: string): Promise<SendleTrackingEvent[]> {
-    const response = await fetch(`${this.baseUrl}/tracking/${orderId}`, {
-      method: 'GET',
-      headers: this.headers,
-    })
+  async getTracking(sendleReference: string): Promise<SendleTrackingEvent[]> {
+    const response = await fetch(
+      `${this.baseUrl}/tracking/${sendleReference}`,
+      {
+        method: 'GET',
+        headers: this.headers,
+      },
+    )
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({}))
@@ -0,0 +1,48 @@
+import type { CarrierProvider } from './carrier'
+import type { SendleClient } from './sendle-client'
+
+/**
+ * Quote Sendle through the carrier interface
+ */
+export function createSendleProvider(client: SendleClient): CarrierProvider {
+  return {
+    id: 'sendle',
+    name: 'Sendle',
+    async getQuotes({ origin, destination, parcel }) {
+      const response = await client.getQuotes({
+        sender_address: {
+          address_line1: '',
+          suburb: origin.suburb,
+          state_name: origin.state,
+          postcode: origin.postcode,
+          country: origin.country,
+        },
+        receiver_address: {
+          address_line1: '',
+          suburb: destination.suburb,
+          state_name: destination.state,
+          postcode: destination.postcode,
+          country: destination.country,
+        },
+        parcel: {
+          weight_value: parcel.weightGrams / 1000, // Convert grams to kg
+          weight_units: 'kg',
+          length_value: parcel.lengthCm,
+          width_value: parcel.widthCm,
+          height_value: parcel.heightCm,
+          dimension_units: 'cm',
+        },
+      })
+
+      return (response.quotes || []).map((quote) => ({
+        providerId: 'sendle',
+        carrier: 'Sendle',
+        service: quote.plan_name,
+        priceCents: quote.price_in_cents,
+        currency: 'AUD',
+        estimatedDays: quote.estimated_delivery_days || { min: 2, max: 7 },
+        features: ['Tracking included'],
+      }))
+    },
+  }
+}